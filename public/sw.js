@@ -0,0 +1,71 @@
+// Service worker for offline capture: keeps the app shell and built assets so
+// /journal and /add-memory open without a network. Data is not cached here;
+// memories and queued writes live in IndexedDB (src/lib/offlineDb.ts).
+
+const CACHE_NAME = 'solin-shell-v2';
+const SHELL = ['/', '/index.html', '/favicon.ico'];
+// Written by the build (assetManifest in vite.config.ts): every file under /assets/
+const ASSET_MANIFEST = '/asset-manifest.json';
+
+// The first visit's scripts and styles load before this worker controls the
+// page, so they never pass through fetch below; cache the whole build here
+const precacheAssets = (cache) =>
+  fetch(ASSET_MANIFEST, { cache: 'no-cache' })
+    .then((response) => (response.ok ? response.json() : []))
+    .then((assets) => cache.addAll(assets));
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => Promise.all([cache.addAll(SHELL), precacheAssets(cache)]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Supabase, ElevenLabs and other APIs always go to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets have hashed names, so a cached copy never goes stale
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then((cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+      )
+    );
+  }
+});
@@ -16,6 +16,11 @@ import Journal from "./pages/Journal";
 import Visitor from "./pages/Visitor";
 import Archive from "./pages/Archive";
 import Connections from "./pages/Connections";
+import People from "./pages/People";
+import Person from "./pages/Person";
+import TimeCapsules from "./pages/TimeCapsules";
+import Legacy from "./pages/Legacy";
+import LegacyAccess from "./pages/LegacyAccess";
 
 import About from "./pages/About";
 import HowItWorks from "./pages/HowItWorks";
@@ -110,6 +115,31 @@ const AppContent = () => {
             <Connections />
           </ProtectedRoute>
         } />
+        <Route path="/people" element={
+          <ProtectedRoute>
+            <People />
+          </ProtectedRoute>
+        } />
+        <Route path="/people/:personId" element={
+          <ProtectedRoute>
+            <Person />
+          </ProtectedRoute>
+        } />
+        <Route path="/time-capsules" element={
+          <ProtectedRoute>
+            <TimeCapsules />
+          </ProtectedRoute>
+        } />
+        <Route path="/legacy" element={
+          <ProtectedRoute>
+            <Legacy />
+          </ProtectedRoute>
+        } />
+        <Route path="/legacy/:ownerId" element={
+          <ProtectedRoute>
+            <LegacyAccess />
+          </ProtectedRoute>
+        } />
         <Route path="/admin" element={
           <ProtectedRoute>
             <Admin />
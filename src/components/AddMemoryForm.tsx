@@ -11,6 +11,9 @@ import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import { Loader2 } from 'lucide-react';
 import { getSignedUrls } from '@/lib/storage';
+import { v4 as uuidv4 } from 'uuid';
+import { isNetworkError, syncService } from '@/services/syncService';
+import { MemoryInsertPayload } from '@/types/sync';
 
 export const AddMemoryForm: React.FC = () => {
   const { user } = useAuth();
@@ -56,6 +59,28 @@ export const AddMemoryForm: React.FC = () => {
 
     setIsSubmitting(true);
 
+    // Generated here so a memory queued offline can be replayed without duplicating
+    const row = {
+      id: uuidv4(),
+      user_id: user.id,
+      title: formData.title,
+      text: formData.text,
+      memory_date: formData.memory_date || null,
+      memory_location: formData.memory_location || null,
+      tags: tags.length > 0 ? tags : null,
+    };
+
+    const resetForm = () => {
+      setFormData({
+        title: '',
+        text: '',
+        memory_date: '',
+        memory_location: '',
+      });
+      setTags([]);
+      setImages([]);
+    };
+
     try {
       // Upload images first
       const imageUrls = images.length > 0 ? await uploadImages(user.id) : [];
@@ -63,15 +88,7 @@ export const AddMemoryForm: React.FC = () => {
       // Insert memory with image URLs
       const { data: inserted, error } = await supabase
         .from('memories')
-        .insert([{
-          user_id: user.id,
-          title: formData.title,
-          text: formData.text,
-          memory_date: formData.memory_date || null,
-          memory_location: formData.memory_location || null,
-          tags: tags.length > 0 ? tags : null,
-          image_urls: imageUrls,
-        }])
+        .insert([{ ...row, image_urls: imageUrls }])
         .select('*')
         .single();
 
@@ -82,21 +99,33 @@ export const AddMemoryForm: React.FC = () => {
         description: 'Your memory has been added to your timeline',
       });
 
-      // Reset form
-      setFormData({
-        title: '',
-        text: '',
-        memory_date: '',
-        memory_location: '',
-      });
-      setTags([]);
-      setImages([]);
+      resetForm();
 
       // Navigate to timeline to see the new memory
       setTimeout(() => {
         navigate('/timeline');
       }, 500);
     } catch (error) {
+      if (isNetworkError(error)) {
+        // Keep it on this device; syncService uploads the images and inserts it once back online
+        const now = new Date().toISOString();
+        await syncService.cacheLocalMemory({ ...row, image_urls: [], created_at: now, updated_at: now });
+        await syncService.enqueue<MemoryInsertPayload>(
+          'memory.insert',
+          user.id,
+          row.title || 'Untitled memory',
+          { row },
+          images.map(file => ({ blob: file, file_name: file.name, mime_type: file.type }))
+        );
+
+        toast({
+          title: 'Saved offline',
+          description: 'Your memory is stored on this device and will sync when you are back online',
+        });
+        resetForm();
+        return;
+      }
+
       console.error('Error saving memory:', error);
       toast({
         title: 'Failed to save memory',
@@ -0,0 +1,27 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AudienceCircle, AudienceView } from '@/types/audience';
+
+interface AudienceViewSelectProps {
+  circles: AudienceCircle[];
+  value: AudienceView;
+  onChange: (value: AudienceView) => void;
+  className?: string;
+}
+
+// "View as" picker: preview your own story as a circle or an anonymous visitor sees it
+export const AudienceViewSelect = ({ circles, value, onChange, className }: AudienceViewSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className={className}>
+      <SelectValue placeholder="View as" />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value="me">View as me</SelectItem>
+      <SelectItem value="public">View as a visitor</SelectItem>
+      {circles.map(circle => (
+        <SelectItem key={circle.id} value={circle.id}>
+          View as {circle.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
@@ -0,0 +1,365 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Play, Scissors, Square } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { computePeaks } from '@/lib/audioClip';
+import { getRecordingSegments } from '@/lib/transcriptSegments';
+import { audioClipService } from '@/services/audioClipService';
+import { AudioClip } from '@/types/audioClip';
+import type { TranscriptSegment, TranscriptWord } from '@/types/speech';
+
+interface AudioClipEditorProps {
+  recording: {
+    id: string;
+    storage_path: string;
+    created_at?: string | null;
+    memory_ids?: string[] | null;
+    transcript_text?: string | null;
+    transcript_segments?: TranscriptSegment[] | null;
+    transcript_words?: TranscriptWord[] | null;
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialStart?: number; // Seconds; usually where the player was
+  onSaved?: (clip: AudioClip) => void;
+}
+
+const WAVEFORM_BINS = 160;
+const DEFAULT_CLIP_SECONDS = 30;
+const MAX_CLIP_SECONDS = 180;
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+};
+
+/** Select a range of a recording on its waveform and save it as a clip linked to memories */
+export const AudioClipEditor = ({ recording, open, onOpenChange, initialStart = 0, onSaved }: AudioClipEditorProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [audio, setAudio] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [range, setRange] = useState<[number, number]>([0, 0]);
+  const [title, setTitle] = useState('');
+  const [normalize, setNormalize] = useState(true);
+  const [memories, setMemories] = useState<{ id: string; title: string; memory_date: string | null }[]>([]);
+  const [selectedMemories, setSelectedMemories] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const dragAnchorRef = useRef<number | null>(null);
+  const previewRef = useRef<{ context: AudioContext; source: AudioBufferSourceNode; frame: number } | null>(null);
+
+  const duration = audio?.duration ?? 0;
+  const [start, end] = range;
+
+  const excerpt = useMemo(() => {
+    return getRecordingSegments(recording)
+      .filter(segment => segment.end >= start && segment.start <= end)
+      .map(segment => segment.text)
+      .join(' ');
+  }, [recording, start, end]);
+
+  const stopPreview = () => {
+    const preview = previewRef.current;
+    if (!preview) return;
+    cancelAnimationFrame(preview.frame);
+    preview.source.onended = null;
+    try {
+      preview.source.stop();
+    } catch {
+      // Already ended
+    }
+    preview.context.close();
+    previewRef.current = null;
+    setPlayhead(null);
+  };
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setSelectedMemories(recording.memory_ids || []);
+    setTitle('');
+
+    Promise.all([
+      audioClipService.loadRecordingAudio(recording.storage_path),
+      audioClipService.getLinkableMemories(user.id),
+    ])
+      .then(([buffer, linkable]) => {
+        if (cancelled) return;
+        setAudio(buffer);
+        setPeaks(computePeaks(buffer, WAVEFORM_BINS));
+        setMemories(linkable);
+        const clipStart = Math.max(0, Math.min(initialStart, buffer.duration - 1));
+        setRange([clipStart, Math.min(buffer.duration, clipStart + DEFAULT_CLIP_SECONDS)]);
+      })
+      .catch(error => {
+        console.error('Error loading recording for clipping:', error);
+        toast({
+          title: 'Could not load recording',
+          description: error instanceof Error ? error.message : 'Please try again',
+          variant: 'destructive'
+        });
+        onOpenChange(false);
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+      stopPreview();
+    };
+  }, [open, recording.id, user]);
+
+  const setClampedRange = (next: [number, number], moved: 'start' | 'end') => {
+    let [nextStart, nextEnd] = next;
+    if (nextEnd - nextStart > MAX_CLIP_SECONDS) {
+      if (moved === 'start') nextEnd = nextStart + MAX_CLIP_SECONDS;
+      else nextStart = nextEnd - MAX_CLIP_SECONDS;
+    }
+    setRange([Math.max(0, nextStart), Math.min(duration, nextEnd)]);
+  };
+
+  const timeAt = (clientX: number) => {
+    const rect = waveformRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  // Drag across the waveform to select a range
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!audio) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragAnchorRef.current = timeAt(e.clientX);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const anchor = dragAnchorRef.current;
+    if (anchor === null) return;
+    const time = timeAt(e.clientX);
+    if (Math.abs(time - anchor) < 0.2) return;
+    setClampedRange(time < anchor ? [time, anchor] : [anchor, time], time < anchor ? 'start' : 'end');
+  };
+
+  const handlePointerUp = () => {
+    dragAnchorRef.current = null;
+  };
+
+  const handleSliderChange = (value: number[]) => {
+    setClampedRange([value[0], value[1]], value[0] !== start ? 'start' : 'end');
+  };
+
+  const togglePreview = () => {
+    if (previewRef.current) {
+      stopPreview();
+      return;
+    }
+    if (!audio || end <= start) return;
+
+    const context = new AudioContext();
+    const source = context.createBufferSource();
+    source.buffer = audio;
+    source.connect(context.destination);
+    const startedAt = context.currentTime;
+    source.start(0, start, end - start);
+    source.onended = stopPreview;
+
+    const tick = () => {
+      setPlayhead(start + (context.currentTime - startedAt));
+      if (previewRef.current) previewRef.current.frame = requestAnimationFrame(tick);
+    };
+    previewRef.current = { context, source, frame: requestAnimationFrame(tick) };
+  };
+
+  const toggleMemory = (memoryId: string) => {
+    setSelectedMemories(prev => prev.includes(memoryId) ? prev.filter(id => id !== memoryId) : [...prev, memoryId]);
+  };
+
+  const handleSave = async () => {
+    if (!audio || !user) return;
+    stopPreview();
+    setIsSaving(true);
+    try {
+      const clip = await audioClipService.createClip(user.id, audio, {
+        recording,
+        start,
+        end,
+        title: title || excerpt.split(/\s+/).slice(0, 8).join(' '),
+        normalize,
+        memoryIds: selectedMemories,
+        transcriptExcerpt: excerpt || null,
+      });
+      toast({
+        title: 'Clip saved',
+        description: selectedMemories.length > 0
+          ? `Added to ${selectedMemories.length} ${selectedMemories.length === 1 ? 'memory' : 'memories'}`
+          : 'Link it to a memory to see it on your Timeline',
+      });
+      onSaved?.(clip);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving clip:', error);
+      toast({
+        title: 'Could not save clip',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const percent = (seconds: number) => (duration > 0 ? (seconds / duration) * 100 : 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scissors className="w-5 h-5 text-primary" />
+            Save a Clip
+          </DialogTitle>
+          <DialogDescription>
+            Drag across the waveform to choose the moment to keep, up to {MAX_CLIP_SECONDS / 60} minutes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !audio ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            <span className="ml-2 text-sm text-muted-foreground">Loading recording...</span>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {/* Waveform with the selection and preview playhead */}
+            <div
+              ref={waveformRef}
+              className="relative h-24 rounded-md bg-muted/40 cursor-crosshair touch-none select-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <div
+                className="absolute inset-y-0 bg-primary/10 border-x-2 border-primary"
+                style={{ left: `${percent(start)}%`, width: `${percent(end - start)}%` }}
+              />
+              <div className="absolute inset-0 flex items-center gap-px px-px">
+                {peaks.map((peak, index) => {
+                  const binTime = ((index + 0.5) / peaks.length) * duration;
+                  const selected = binTime >= start && binTime <= end;
+                  return (
+                    <div
+                      key={index}
+                      className={`flex-1 rounded-full ${selected ? 'bg-primary' : 'bg-muted-foreground/40'}`}
+                      style={{ height: `${Math.max(2, peak * 100)}%` }}
+                    />
+                  );
+                })}
+              </div>
+              {playhead !== null && (
+                <div className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: `${percent(playhead)}%` }} />
+              )}
+            </div>
+
+            <Slider
+              value={[start, end]}
+              min={0}
+              max={duration}
+              step={0.1}
+              minStepsBetweenThumbs={5}
+              onValueChange={handleSliderChange}
+            />
+
+            <div className="flex items-center justify-between text-sm">
+              <Button variant="outline" size="sm" onClick={togglePreview}>
+                {playhead !== null ? <Square className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+                {playhead !== null ? 'Stop' : 'Preview'}
+              </Button>
+              <span className="tabular-nums text-muted-foreground">
+                {formatTime(start)} – {formatTime(end)} ({(end - start).toFixed(1)}s)
+              </span>
+            </div>
+
+            {excerpt && (
+              <p className="text-sm text-muted-foreground bg-muted/30 p-3 rounded-md line-clamp-3">"{excerpt}"</p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="clip-title">Title</Label>
+                <Input
+                  id="clip-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g. Dad's laugh"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-3 pt-6">
+                <div>
+                  <Label htmlFor="clip-normalize" className="text-sm font-normal">Normalise volume</Label>
+                  <p className="text-xs text-muted-foreground">Brings quiet moments up to a clear level</p>
+                </div>
+                <Switch id="clip-normalize" checked={normalize} onCheckedChange={setNormalize} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Link to memories</Label>
+              <div className="max-h-40 overflow-y-auto space-y-1 border rounded-md p-1">
+                {memories.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">No memories yet</p>
+                ) : (
+                  memories.map(memory => (
+                    <label
+                      key={memory.id}
+                      className="flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={selectedMemories.includes(memory.id)}
+                        onCheckedChange={() => toggleMemory(memory.id)}
+                      />
+                      <span className="flex-1 text-sm">{memory.title}</span>
+                      {memory.memory_date && (
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(memory.memory_date).getFullYear()}
+                        </span>
+                      )}
+                    </label>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!audio || isSaving || end <= start}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Clip
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
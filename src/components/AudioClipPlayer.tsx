@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Pause, Play, Scissors } from 'lucide-react';
+import { AudioClip } from '@/types/audioClip';
+
+interface AudioClipPlayerProps {
+  clip: AudioClip;
+  compact?: boolean; // One line, for cards
+  className?: string;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/** Inline player for a clip artifact; clicks don't reach the card it sits in */
+export const AudioClipPlayer = ({ clip, compact = false, className = '' }: AudioClipPlayerProps) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const duration = clip.metadata.duration_seconds;
+
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+    };
+  }, []);
+
+  const togglePlay = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!clip.audio_url) return;
+
+    if (!audioRef.current) {
+      const audio = new Audio(clip.audio_url);
+      audio.ontimeupdate = () => setProgress(audio.currentTime);
+      audio.onended = () => {
+        setIsPlaying(false);
+        setProgress(0);
+      };
+      audioRef.current = audio;
+    }
+
+    const audio = audioRef.current;
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    try {
+      await audio.play();
+      setIsPlaying(true);
+    } catch (error) {
+      console.error('❌ Clip playback error:', error);
+    }
+  };
+
+  return (
+    <div
+      className={`flex items-center gap-3 rounded-lg border border-border/60 bg-muted/30 ${compact ? 'px-2 py-1.5' : 'p-3'} ${className}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 w-8 p-0 rounded-full flex-shrink-0"
+        onClick={togglePlay}
+        disabled={!clip.audio_url}
+        aria-label={isPlaying ? 'Pause clip' : 'Play clip'}
+      >
+        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <Scissors className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+          <span className="text-sm font-medium truncate">{clip.metadata.title}</span>
+          <span className="text-xs text-muted-foreground tabular-nums ml-auto flex-shrink-0">
+            {formatTime(progress)} / {formatTime(duration)}
+          </span>
+        </div>
+        <div className="h-1 mt-1.5 rounded-full bg-secondary overflow-hidden">
+          <div
+            className="h-full bg-primary transition-[width] duration-200"
+            style={{ width: `${duration > 0 ? Math.min(100, (progress / duration) * 100) : 0}%` }}
+          />
+        </div>
+        {!compact && clip.metadata.transcript_excerpt && (
+          <p className="text-xs text-muted-foreground mt-2 line-clamp-2">"{clip.metadata.transcript_excerpt}"</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -11,17 +11,15 @@ import {
   Volume2,
   Clock,
   Calendar,
-  FileAudio
+  FileAudio,
+  Scissors
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { voiceRecordingService } from '@/services/voiceRecording';
-
-interface TranscriptSegment {
-  timestamp: number; // seconds from start
-  speaker: 'user' | 'ai';
-  text: string;
-  isMatch?: boolean;
-}
+import { getRecordingSegments } from '@/lib/transcriptSegments';
+import type { TranscriptMatch } from '@/types/speech';
+import { SyncedTranscript } from '@/components/SyncedTranscript';
+import { AudioClipEditor } from '@/components/AudioClipEditor';
 
 interface AudioPlayerProps {
   recording: any;
@@ -39,50 +37,26 @@ export const AudioPlayer = ({ recording, searchQuery = '', autoSeekToMatch = fal
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
-  const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
+  const [clipEditorOpen, setClipEditorOpen] = useState(false);
   
   // Audio refs
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const timeUpdateIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Parse transcript with timestamps
-  const parseTranscript = (transcriptText: string): TranscriptSegment[] => {
-    if (!transcriptText) return [];
-    
-    const lines = transcriptText.split('\n').filter(line => line.trim());
-    return lines.map(line => {
-      // Parse format: [123s] USER: text or [123s] AI: text
-      const match = line.match(/^\[(\d+)s\]\s+(USER|AI):\s+(.+)$/);
-      if (match) {
-        return {
-          timestamp: parseInt(match[1]),
-          speaker: match[2].toLowerCase() as 'user' | 'ai',
-          text: match[3]
-        };
-      }
-      // Fallback for plain text
-      return {
-        timestamp: 0,
-        speaker: 'user',
-        text: line
-      };
-    });
-  };
+  // Utterances with start times; search results say which ones matched
+  const transcript = useMemo(() => getRecordingSegments(recording || {}), [recording]);
+  const matchIndices = useMemo(() => {
+    const matches: TranscriptMatch[] | undefined = recording?.match_offsets;
+    if (matches?.length) return matches.map(match => match.segment_index);
 
-  // Highlight search matches in transcript
-  const highlightMatches = (segments: TranscriptSegment[], query: string): TranscriptSegment[] => {
-    if (!query.trim()) return segments;
-    
-    const queryLower = query.toLowerCase();
-    return segments.map(segment => ({
-      ...segment,
-      isMatch: segment.text.toLowerCase().includes(queryLower)
-    }));
-  };
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return [];
+    return transcript.flatMap((segment, index) => segment.text.toLowerCase().includes(query) ? [index] : []);
+  }, [recording, searchQuery, transcript]);
 
   // Load and play audio
-  const loadAudio = async () => {
-    if (!recording?.storage_path) return;
+  const loadAudio = async (): Promise<HTMLAudioElement | null> => {
+    if (!recording?.storage_path) return null;
 
     setIsLoading(true);
     try {
@@ -102,17 +76,12 @@ export const AudioPlayer = ({ recording, searchQuery = '', autoSeekToMatch = fal
         setDuration(recording.duration_seconds || 60);
         setIsLoading(false);
         
-        // Parse transcript for this recording
-        const segments = parseTranscript(recording.transcript_text || '');
-        const highlightedSegments = highlightMatches(segments, searchQuery);
-        setTranscript(highlightedSegments);
-        
         toast({
           title: 'Demo Recording Loaded',
           description: 'This demo uses text-based playback. Click play to scroll through the transcript!',
         });
         
-        return;
+        return null;
       }
       
       // Get signed URL for audio (real recordings)
@@ -145,27 +114,23 @@ export const AudioPlayer = ({ recording, searchQuery = '', autoSeekToMatch = fal
         setIsLoading(false);
       };
 
-      // Parse transcript for this recording
-      const segments = parseTranscript(recording.transcript_text || '');
-      const highlightedSegments = highlightMatches(segments, searchQuery);
-      setTranscript(highlightedSegments);
-
       // Set audio reference
       setCurrentAudio(audio);
       audioRef.current = audio;
       
-      // Auto-seek to first match if requested
-      if (autoSeekToMatch && searchQuery.trim()) {
-        const firstMatch = highlightedSegments.find(segment => segment.isMatch);
-        if (firstMatch && firstMatch.timestamp > 0) {
-          // Seek to a few seconds before the match
-          const seekTime = Math.max(0, firstMatch.timestamp - 3);
+      // Auto-seek to the match search found (or the first highlighted utterance)
+      if (autoSeekToMatch) {
+        const matchTime: number | undefined = recording.playback_offset ?? transcript[matchIndices[0]]?.start;
+        if (matchTime && matchTime > 0) {
+          // Seek to just before the match
+          const seekTime = Math.max(0, matchTime - 1);
           audio.currentTime = seekTime;
           setCurrentTime(seekTime);
           console.log(`⏭️ Auto-seeking to match at ${seekTime}s`);
         }
       }
 
+      return audio;
     } catch (error) {
       console.error('❌ Audio loading error:', error);
       toast({
@@ -173,6 +138,7 @@ export const AudioPlayer = ({ recording, searchQuery = '', autoSeekToMatch = fal
         description: 'Failed to load audio recording',
         variant: 'destructive'
       });
+      return null;
     } finally {
       setIsLoading(false);
     }
@@ -288,11 +254,32 @@ export const AudioPlayer = ({ recording, searchQuery = '', autoSeekToMatch = fal
     }
   };
 
-  // Seek to transcript segment
-  const seekToSegment = (segment: TranscriptSegment) => {
-    if (currentAudio && segment.timestamp > 0) {
-      const seekTime = Math.max(0, segment.timestamp - 1); // 1 second before
-      seekAudio(seekTime);
+  // Play from a transcript utterance, loading the audio first if needed
+  const seekToTime = async (seconds: number) => {
+    if (recording?.storage_path?.startsWith('demo/')) {
+      setCurrentTime(seconds);
+      return;
+    }
+
+    const audio = currentAudio ?? await loadAudio();
+    if (!audio) return;
+    audio.currentTime = seconds;
+    setCurrentTime(seconds);
+    if (audio.paused) {
+      try {
+        await audio.play();
+        setIsPlaying(true);
+        if (timeUpdateIntervalRef.current) {
+          clearInterval(timeUpdateIntervalRef.current);
+        }
+        timeUpdateIntervalRef.current = setInterval(() => {
+          if (!audio.paused) {
+            setCurrentTime(audio.currentTime);
+          }
+        }, 100);
+      } catch (error) {
+        console.error('❌ Playback error:', error);
+      }
     }
   };
 
@@ -343,7 +330,7 @@ export const AudioPlayer = ({ recording, searchQuery = '', autoSeekToMatch = fal
             
             {/* Memory Titles */}
             {recording.memory_titles && recording.memory_titles.length > 0 && (
-              <div className="flex flex-wrap gap-1">
+              <div className="flex flex-wrap gap-1 ml-auto mr-2">
                 {recording.memory_titles.slice(0, 2).map((title: string, idx: number) => (
                   <Badge key={idx} variant="secondary" className="text-xs">
                     {title}
@@ -356,6 +343,23 @@ export const AudioPlayer = ({ recording, searchQuery = '', autoSeekToMatch = fal
                 )}
               </div>
             )}
+
+            {/* Keep a moment of the recording as a clip */}
+            {recording.storage_path && !recording.storage_path.startsWith('demo/') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  currentAudio?.pause();
+                  setIsPlaying(false);
+                  setClipEditorOpen(true);
+                }}
+                title="Save a moment of this recording as a clip"
+              >
+                <Scissors className="w-4 h-4 mr-1" />
+                Clip
+              </Button>
+            )}
           </div>
 
           {/* Audio Controls */}
@@ -418,49 +422,29 @@ export const AudioPlayer = ({ recording, searchQuery = '', autoSeekToMatch = fal
             </div>
           )}
 
-          {/* Transcript with clickable segments */}
+          {/* Transcript synced to playback; click an utterance to play from there */}
           {transcript.length > 0 && (
             <div className="space-y-2">
               <h4 className="font-medium text-sm">Conversation Transcript</h4>
-              <div className="max-h-40 overflow-y-auto space-y-1 text-sm">
-                {transcript.slice(0, 10).map((segment, index) => (
-                  <div
-                    key={index}
-                    onClick={() => seekToSegment(segment)}
-                    className={`p-2 rounded cursor-pointer transition-colors ${
-                      segment.isMatch 
-                        ? 'bg-yellow-100 dark:bg-yellow-900/30 border border-yellow-300'
-                        : 'hover:bg-muted/50'
-                    }`}
-                  >
-                    <div className="flex items-start gap-2">
-                      <Badge 
-                        variant={segment.speaker === 'user' ? 'default' : 'secondary'}
-                        className="text-xs flex-shrink-0"
-                      >
-                        {segment.speaker === 'user' ? 'You' : 'Solin'}
-                      </Badge>
-                      {segment.timestamp > 0 && (
-                        <span className="text-xs text-muted-foreground flex-shrink-0">
-                          {formatTime(segment.timestamp)}
-                        </span>
-                      )}
-                      <span className={segment.isMatch ? 'font-medium' : ''}>
-                        {segment.text}
-                      </span>
-                    </div>
-                  </div>
-                ))}
-                {transcript.length > 10 && (
-                  <div className="text-xs text-muted-foreground text-center py-2">
-                    ... and {transcript.length - 10} more segments (load audio to see all)
-                  </div>
-                )}
-              </div>
+              <SyncedTranscript
+                segments={transcript}
+                currentTime={currentTime}
+                onSeek={seekToTime}
+                matchIndices={matchIndices}
+              />
             </div>
           )}
         </div>
       </CardContent>
+
+      {clipEditorOpen && (
+        <AudioClipEditor
+          recording={recording}
+          open={clipEditorOpen}
+          onOpenChange={setClipEditorOpen}
+          initialStart={currentTime}
+        />
+      )}
     </Card>
   );
 };
\ No newline at end of file
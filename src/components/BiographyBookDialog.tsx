@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { biographyBookService, BookFormat } from '@/services/biographyBookService';
+import { BOOK_TRIM_SIZES, BookMargins, BookTrimSize, DEFAULT_BOOK_LAYOUT } from '@/types/book';
+
+interface BiographyBookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MARGIN_FIELDS: { key: keyof BookMargins; label: string }[] = [
+  { key: 'top', label: 'Top' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'inner', label: 'Inner (binding)' },
+  { key: 'outer', label: 'Outer' },
+];
+
+export const BiographyBookDialog = ({ open, onOpenChange }: BiographyBookDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [format, setFormat] = useState<BookFormat>('pdf');
+  const [layout, setLayout] = useState(DEFAULT_BOOK_LAYOUT);
+  const [generating, setGenerating] = useState(false);
+
+  const updateMargin = (key: keyof BookMargins, value: string) => {
+    setLayout(current => ({ ...current, margins: { ...current.margins, [key]: Number(value) || 0 } }));
+  };
+
+  const handleGenerate = async () => {
+    if (!user) return;
+    setGenerating(true);
+    try {
+      // Clamp margins here rather than while typing, so partial input isn't overwritten
+      const margins = Object.fromEntries(
+        Object.entries(layout.margins).map(([key, value]) => [key, Math.min(50, Math.max(5, value))])
+      ) as unknown as BookMargins;
+      await biographyBookService.downloadBook(user.id, format, { ...layout, margins });
+      toast({
+        title: 'Book ready',
+        description: `Your life story has been downloaded as ${format.toUpperCase()}.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Book export failed:', error);
+      toast({
+        title: 'Could not create book',
+        description: error instanceof Error ? error.message : 'Something went wrong while building your book.',
+        variant: 'destructive',
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={generating ? undefined : onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            Download your book
+          </DialogTitle>
+          <DialogDescription>
+            Turn your biography into a printable PDF or an EPUB for e-readers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={value => setFormat(value as BookFormat)} className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="pdf" id="book-format-pdf" />
+                <Label htmlFor="book-format-pdf" className="font-normal">PDF (print)</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="epub" id="book-format-epub" />
+                <Label htmlFor="book-format-epub" className="font-normal">EPUB (e-reader)</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {format === 'pdf' && (
+            <>
+              <div className="space-y-2">
+                <Label>Page size</Label>
+                <Select
+                  value={layout.trimSize}
+                  onValueChange={value => setLayout(current => ({ ...current, trimSize: value as BookTrimSize }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BOOK_TRIM_SIZES) as BookTrimSize[]).map(size => (
+                      <SelectItem key={size} value={size}>
+                        {BOOK_TRIM_SIZES[size].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Margins (mm)</Label>
+                <div className="grid grid-cols-2 gap-3">
+                  {MARGIN_FIELDS.map(field => (
+                    <div key={field.key} className="space-y-1">
+                      <Label htmlFor={`book-margin-${field.key}`} className="text-xs text-muted-foreground font-normal">
+                        {field.label}
+                      </Label>
+                      <Input
+                        id={`book-margin-${field.key}`}
+                        type="number"
+                        min={5}
+                        max={50}
+                        value={layout.margins[field.key]}
+                        onChange={event => updateMargin(field.key, event.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Text size</Label>
+                <Select
+                  value={String(layout.fontSize)}
+                  onValueChange={value => setLayout(current => ({ ...current, fontSize: Number(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[10, 11, 12, 14].map(size => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size} pt{size === 14 ? ' (large print)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="book-include-images" className="font-normal">Include photos from memories</Label>
+            <Switch
+              id="book-include-images"
+              checked={layout.includeImages}
+              onCheckedChange={checked => setLayout(current => ({ ...current, includeImages: checked }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={generating}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={generating || !user}>
+            {generating ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Building book...
+              </>
+            ) : (
+              'Download'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,311 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KeyRound, Loader2, LogOut, UserMinus, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { phoneNumberService } from '@/services/phoneNumberService';
+import { HouseholdPhoneWithMembers, UserPhoneNumber } from '@/types/householdPhone';
+
+interface HouseholdPhonesSettingsProps {
+  userId: string;
+}
+
+const SHARE_CONSENT = 'Everyone who joins with an invite code can talk to Solin from this phone. Solin asks who is talking and saves each memory to that person\'s account.';
+const JOIN_CONSENT = 'I agree that memories I share from this phone are saved to my account, and that the other people on the phone see my name when Solin asks who is talking.';
+
+/**
+ * Settings card: household phones. The owner of a verified number can share
+ * it (a care home tablet, a family phone); everyone else joins with an invite
+ * code from their own account, which records their consent.
+ */
+export const HouseholdPhonesSettings = ({ userId }: HouseholdPhonesSettingsProps) => {
+  const { toast } = useToast();
+  const [households, setHouseholds] = useState<HouseholdPhoneWithMembers[]>([]);
+  const [shareablePhones, setShareablePhones] = useState<UserPhoneNumber[] | null>(null);
+  const [share, setShare] = useState({ phoneId: '', name: '', displayName: '', consent: false });
+  const [join, setJoin] = useState({ code: '', displayName: '', consent: false });
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadHouseholds = async () => {
+    try {
+      setHouseholds(await phoneNumberService.getHouseholdPhones());
+    } catch (error) {
+      console.error('Error loading household phones:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadHouseholds();
+  }, [userId]);
+
+  const run = async (key: string, action: () => Promise<void>, failure: string) => {
+    setBusy(key);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Numbers are loaded when the form opens, so ones verified just now are offered
+  const openShareForm = () => run('open-share', async () => {
+    const sharedNumbers = new Set(households.map(h => h.phone_number.replace(/\D/g, '')));
+    const phones = await phoneNumberService.getPhoneNumbers(userId);
+    setShareablePhones(phones.filter(p => p.verified && !sharedNumbers.has(p.phone_number.replace(/\D/g, ''))));
+  }, "Could not load your numbers");
+
+  const handleShare = () => run('share', async () => {
+    await phoneNumberService.shareAsHouseholdPhone(share.phoneId, share.name, share.displayName);
+    setShareablePhones(null);
+    setShare({ phoneId: '', name: '', displayName: '', consent: false });
+    await loadHouseholds();
+    toast({ title: "Phone shared", description: "Create an invite code for each person who should join" });
+  }, "Could not share the phone");
+
+  const handleJoin = () => run('join', async () => {
+    await phoneNumberService.joinHouseholdPhone(join.code, join.displayName);
+    setJoin({ code: '', displayName: '', consent: false });
+    await loadHouseholds();
+    toast({ title: "Joined", description: "Tell Solin your name when it asks who is talking" });
+  }, "Could not join the phone");
+
+  const handleInvite = (household: HouseholdPhoneWithMembers) => run(household.id, async () => {
+    const code = await phoneNumberService.createInviteCode(household.id);
+    const expires = new Date(Date.now() + 30 * 60000).toISOString();
+    setHouseholds(prev => prev.map(h => h.id === household.id ? { ...h, invite_code: code, invite_expires_at: expires } : h));
+  }, "Could not create an invite code");
+
+  const handleEndMembership = (memberId: string, leaving: boolean) => run(memberId, async () => {
+    await phoneNumberService.endMembership(memberId);
+    await loadHouseholds();
+    toast({ title: leaving ? "You left the phone" : "Removed from the phone" });
+  }, leaving ? "Could not leave the phone" : "Could not remove them");
+
+  const handleStopSharing = (household: HouseholdPhoneWithMembers) => run(household.id, async () => {
+    await phoneNumberService.stopSharing(household.id);
+    await loadHouseholds();
+    toast({ title: "Stopped sharing", description: `${household.phone_number} is your own number again` });
+  }, "Could not stop sharing");
+
+  return (
+    <Card className="modern-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <Users className="w-5 h-5 text-primary" />
+          </div>
+          Household Phones
+        </CardTitle>
+        <CardDescription>
+          Share one WhatsApp phone between several people, like a care home tablet or a family phone.
+          Solin asks who is talking and saves each memory to the right account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {households.map(household => {
+          const isOwner = household.created_by === userId;
+          const inviteValid = household.invite_code && household.invite_expires_at
+            && new Date(household.invite_expires_at) > new Date();
+          const myMembership = household.members.find(m => m.user_id === userId);
+
+          return (
+            <div key={household.id} className="p-4 rounded-xl bg-card/50 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium">{household.name}</p>
+                  <p className="text-sm text-muted-foreground">{household.phone_number}</p>
+                </div>
+                {isOwner ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleStopSharing(household)}
+                    disabled={busy === household.id}
+                  >
+                    Stop sharing
+                  </Button>
+                ) : myMembership && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleEndMembership(myMembership.id, true)}
+                    disabled={busy === myMembership.id}
+                  >
+                    <LogOut className="w-4 h-4 mr-1" />
+                    Leave
+                  </Button>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                {household.members.map(member => (
+                  <div key={member.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span>
+                      {member.display_name}
+                      {member.user_id === userId && <span className="text-muted-foreground"> (you)</span>}
+                      {member.user_id === household.created_by && (
+                        <Badge variant="outline" className="text-xs ml-2">Owner</Badge>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                      Agreed {formatDistanceToNow(new Date(member.consented_at), { addSuffix: true })}
+                      {isOwner && member.user_id !== userId && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEndMembership(member.id, false)}
+                          disabled={busy === member.id}
+                          aria-label={`Remove ${member.display_name}`}
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {isOwner && (
+                inviteValid ? (
+                  <div className="p-3 rounded-lg bg-primary/5 border border-primary/20 text-sm">
+                    Invite code <span className="font-mono font-semibold">{household.invite_code}</span>, valid for{' '}
+                    {formatDistanceToNow(new Date(household.invite_expires_at!))}. The person joining enters it under
+                    Household Phones in their own account.
+                  </div>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => handleInvite(household)} disabled={busy === household.id}>
+                    <KeyRound className="w-4 h-4 mr-1" />
+                    Invite someone
+                  </Button>
+                )
+              )}
+            </div>
+          );
+        })}
+
+        {shareablePhones === null ? (
+          <Button variant="outline" onClick={openShareForm} disabled={busy === 'open-share'} className="rounded-full">
+            {busy === 'open-share' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Share one of my numbers
+          </Button>
+        ) : shareablePhones.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Verify the phone's number under WhatsApp Integration first, then share it here.
+          </p>
+        ) : (
+          <div className="p-4 rounded-xl bg-card/50 space-y-4">
+            <h4 className="font-medium">Share one of my numbers</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Number</Label>
+                <Select value={share.phoneId} onValueChange={(value) => setShare({ ...share, phoneId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a number" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shareablePhones.map(phone => (
+                      <SelectItem key={phone.id} value={phone.id}>
+                        {phone.label ? `${phone.label} · ${phone.phone_number}` : phone.phone_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="householdName">Phone name</Label>
+                <Input
+                  id="householdName"
+                  value={share.name}
+                  onChange={(e) => setShare({ ...share, name: e.target.value })}
+                  placeholder="Family tablet"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="householdOwnerName">Your name on it</Label>
+                <Input
+                  id="householdOwnerName"
+                  value={share.displayName}
+                  onChange={(e) => setShare({ ...share, displayName: e.target.value })}
+                  placeholder="Grandma Rose"
+                />
+              </div>
+            </div>
+            <label className="flex items-start gap-3 text-sm text-muted-foreground">
+              <Checkbox
+                checked={share.consent}
+                onCheckedChange={(checked) => setShare({ ...share, consent: checked === true })}
+              />
+              {SHARE_CONSENT}
+            </label>
+            <div className="flex gap-3">
+              <Button
+                onClick={handleShare}
+                disabled={busy === 'share' || !share.phoneId || !share.name.trim() || !share.displayName.trim() || !share.consent}
+                className="rounded-full"
+              >
+                {busy === 'share' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Share Phone
+              </Button>
+              <Button variant="outline" onClick={() => setShareablePhones(null)} className="rounded-full">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="p-4 rounded-xl bg-card/50 space-y-4">
+          <h4 className="font-medium">Join a household phone</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="householdCode">Invite code</Label>
+              <Input
+                id="householdCode"
+                value={join.code}
+                onChange={(e) => setJoin({ ...join, code: e.target.value.toUpperCase() })}
+                placeholder="From the phone's owner"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="householdDisplayName">Your name on the phone</Label>
+              <Input
+                id="householdDisplayName"
+                value={join.displayName}
+                onChange={(e) => setJoin({ ...join, displayName: e.target.value })}
+                placeholder="Grandpa Tom"
+              />
+            </div>
+          </div>
+          <label className="flex items-start gap-3 text-sm text-muted-foreground">
+            <Checkbox
+              checked={join.consent}
+              onCheckedChange={(checked) => setJoin({ ...join, consent: checked === true })}
+            />
+            {JOIN_CONSENT}
+          </label>
+          <Button
+            onClick={handleJoin}
+            disabled={busy === 'join' || !join.code.trim() || !join.displayName.trim() || !join.consent}
+            className="rounded-full"
+          >
+            {busy === 'join' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Join Phone
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { LegacyClaimType, LEGACY_CLAIM_TYPE_LABELS } from '@/types/legacy';
+import { legacyService } from '@/services/legacyService';
+
+interface LegacyClaimDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ownerId: string;
+  ownerName: string;
+  onFiled?: () => void;
+}
+
+const MAX_EVIDENCE_FILES = 5;
+const MAX_EVIDENCE_BYTES = 10 * 1024 * 1024;
+
+export const LegacyClaimDialog = ({ open, onOpenChange, ownerId, ownerName, onFiled }: LegacyClaimDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [claimType, setClaimType] = useState<LegacyClaimType>('deceased');
+  const [statement, setStatement] = useState('');
+  const [evidence, setEvidence] = useState<File[]>([]);
+  const [isFiling, setIsFiling] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setClaimType('deceased');
+    setStatement('');
+    setEvidence([]);
+  }, [open]);
+
+  const handleFiles = (files: FileList | null) => {
+    const selected = Array.from(files || []);
+    const tooLarge = selected.filter(file => file.size > MAX_EVIDENCE_BYTES);
+    if (tooLarge.length > 0) {
+      toast({
+        title: 'File too large',
+        description: 'Each document must be under 10 MB.',
+        variant: 'destructive',
+      });
+    }
+    setEvidence(selected.filter(file => file.size <= MAX_EVIDENCE_BYTES).slice(0, MAX_EVIDENCE_FILES));
+  };
+
+  const handleFile = async () => {
+    if (!user?.id) return;
+
+    if (!statement.trim() && evidence.length === 0) {
+      toast({
+        title: 'Almost there',
+        description: 'Tell us what happened or attach a document such as a death certificate.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsFiling(true);
+    try {
+      await legacyService.fileClaim(ownerId, user.id, claimType, statement, evidence);
+      toast({
+        title: 'Request sent',
+        description: 'Our team will review it. You will be notified of the decision.',
+      });
+      onFiled?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error filing legacy claim:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to send the request',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsFiling(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request access to {ownerName}'s story</DialogTitle>
+          <DialogDescription>
+            An administrator reviews every request before anything is handed over. If {ownerName} checks in, the request is withdrawn.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={claimType} onValueChange={value => setClaimType(value as LegacyClaimType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(['deceased', 'incapacitated'] as LegacyClaimType[]).map(type => (
+                  <SelectItem key={type} value={type}>{LEGACY_CLAIM_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="claim-statement">What happened</Label>
+            <Textarea
+              id="claim-statement"
+              value={statement}
+              onChange={event => setStatement(event.target.value)}
+              rows={4}
+              placeholder="Dates, circumstances, and how we can confirm them"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="claim-evidence">Supporting documents</Label>
+            <Input
+              id="claim-evidence"
+              type="file"
+              multiple
+              accept="image/*,application/pdf"
+              onChange={event => handleFiles(event.target.files)}
+            />
+            {evidence.length > 0 && (
+              <ul className="space-y-1">
+                {evidence.map(file => (
+                  <li key={file.name} className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <FileText className="w-4 h-4" />
+                    {file.name}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted-foreground">
+              For example a death certificate or a letter from a doctor. Only you and our administrators can see these.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isFiling}>
+            Cancel
+          </Button>
+          <Button onClick={handleFile} disabled={isFiling}>
+            {isFiling && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Send request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ConnectedUser, RELATIONSHIP_TYPES } from '@/types/social';
+import { LegacyContact, LegacyContactDraft, LegacyMemoryAccess, LEGACY_MEMORY_ACCESS_LABELS } from '@/types/legacy';
+import { legacyService } from '@/services/legacyService';
+
+interface LegacyContactDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact?: LegacyContact | null; // Edit an existing legacy contact
+  existingContactIds: string[];
+  onSaved?: () => void;
+}
+
+interface ConnectionOption {
+  user_id: string;
+  name: string;
+  relationship_type: string;
+}
+
+const emptyDraft = (): LegacyContactDraft => ({
+  contact_user_id: '',
+  relationship_type: 'other',
+  memory_access: 'shared_only',
+  can_download_export: false,
+  can_manage_visitor_page: false,
+  message: '',
+});
+
+const toDraft = (contact: LegacyContact): LegacyContactDraft => ({
+  contact_user_id: contact.contact_user_id,
+  relationship_type: contact.relationship_type,
+  memory_access: contact.memory_access,
+  can_download_export: contact.can_download_export,
+  can_manage_visitor_page: contact.can_manage_visitor_page,
+  message: contact.message ?? '',
+});
+
+export const LegacyContactDialog = ({ open, onOpenChange, contact, existingContactIds, onSaved }: LegacyContactDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<LegacyContactDraft>(emptyDraft);
+  const [connections, setConnections] = useState<ConnectionOption[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(contact ? toDraft(contact) : emptyDraft());
+    loadConnections();
+  }, [open, contact?.id]);
+
+  const loadConnections = async () => {
+    if (!user?.id) return;
+
+    const { data: connectedUsers, error } = await supabase.rpc('get_connected_users', {
+      target_user_id: user.id
+    });
+    if (error) {
+      console.error('Error loading connections:', error);
+      return;
+    }
+
+    const userIds = (connectedUsers as ConnectedUser[])?.map(u => u.user_id) || [];
+    if (userIds.length === 0) {
+      setConnections([]);
+      return;
+    }
+
+    const { data: profiles } = await supabase
+      .from('user_profiles')
+      .select('user_id, display_name, preferred_name')
+      .in('user_id', userIds);
+    const profileMap = new Map(profiles?.map(p => [p.user_id, p]));
+
+    setConnections((connectedUsers as ConnectedUser[]).map(conn => {
+      const profile = profileMap.get(conn.user_id);
+      return {
+        user_id: conn.user_id,
+        name: profile?.preferred_name || profile?.display_name || conn.relationship_label || 'Connection',
+        relationship_type: conn.relationship_type,
+      };
+    }));
+  };
+
+  const update = (changes: Partial<LegacyContactDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSelectConnection = (userId: string) => {
+    const connection = connections.find(conn => conn.user_id === userId);
+    const knownType = RELATIONSHIP_TYPES.some(type => type.value === connection?.relationship_type);
+    update({
+      contact_user_id: userId,
+      relationship_type: knownType ? connection!.relationship_type : 'other',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user?.id || !draft.contact_user_id) {
+      toast({ title: 'Almost there', description: 'Choose who to nominate.', variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await legacyService.saveContact(user.id, draft);
+      toast({
+        title: contact ? 'Legacy contact updated' : 'Legacy contact added',
+        description: 'They only get access after a claim has been reviewed and approved.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving legacy contact:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the legacy contact',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const candidates = contact
+    ? connections.filter(conn => conn.user_id === contact.contact_user_id)
+    : connections.filter(conn => !existingContactIds.includes(conn.user_id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            {contact ? 'Edit legacy contact' : 'Nominate a legacy contact'}
+          </DialogTitle>
+          <DialogDescription>
+            Someone you trust to look after your story if you pass away or can no longer do so yourself.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Connection</Label>
+              <Select
+                value={draft.contact_user_id || undefined}
+                onValueChange={handleSelectConnection}
+                disabled={Boolean(contact)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={connections.length === 0 ? 'No connections yet' : 'Choose a connection'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(conn => (
+                    <SelectItem key={conn.user_id} value={conn.user_id}>{conn.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Relationship</Label>
+              <Select
+                value={draft.relationship_type}
+                onValueChange={value => update({ relationship_type: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RELATIONSHIP_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Memories</Label>
+            <RadioGroup
+              value={draft.memory_access}
+              onValueChange={value => update({ memory_access: value as LegacyMemoryAccess })}
+              className="space-y-1"
+            >
+              {(Object.keys(LEGACY_MEMORY_ACCESS_LABELS) as LegacyMemoryAccess[]).map(access => (
+                <div key={access} className="flex items-center gap-2">
+                  <RadioGroupItem value={access} id={`legacy-access-${access}`} />
+                  <Label htmlFor={`legacy-access-${access}`} className="font-normal">
+                    {LEGACY_MEMORY_ACCESS_LABELS[access]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-xs text-muted-foreground">
+              Shared memories are the ones you already shared with them or made public.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="legacy-export" className="font-normal">Download a full export of my account</Label>
+              <Switch
+                id="legacy-export"
+                checked={draft.can_download_export}
+                onCheckedChange={checked => update({ can_download_export: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="legacy-visitor" className="font-normal">Manage my Visitor page</Label>
+              <Switch
+                id="legacy-visitor"
+                checked={draft.can_manage_visitor_page}
+                onCheckedChange={checked => update({ can_manage_visitor_page: checked })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="legacy-message">A note for them (optional)</Label>
+            <Textarea
+              id="legacy-message"
+              value={draft.message ?? ''}
+              onChange={event => update({ message: event.target.value })}
+              rows={3}
+              placeholder="Why you chose them, or what you'd like them to do"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {contact ? 'Save' : 'Nominate'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
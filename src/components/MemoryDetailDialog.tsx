@@ -3,7 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Calendar, MapPin, Upload, X, FileAudio, FileVideo, Image as ImageIcon, Edit2, Save, Trash2, Play, Pause, Search, Share2 } from 'lucide-react';
+import { Calendar, MapPin, Upload, X, FileAudio, FileVideo, Image as ImageIcon, Edit2, Save, Trash2, Play, Pause, Search, Share2, History, Users } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
@@ -11,7 +11,11 @@ import { TagsInput } from '@/components/TagsInput';
 import { getSignedUrl } from '@/lib/storage';
 import { UnsplashImageSearch } from '@/components/UnsplashImageSearch';
 import { ShareMemoryDialog } from '@/components/social/ShareMemoryDialog';
-import { MemoryPerspectives } from '@/components/social/MemoryPerspectives';
+import { FamilyStoryDialog } from '@/components/social/FamilyStoryDialog';
+import { MemoryRevisionHistory } from '@/components/MemoryRevisionHistory';
+import { revisionAttribution } from '@/services/memoryRevisionService';
+import { AudioClipPlayer } from '@/components/AudioClipPlayer';
+import { isAudioClip } from '@/services/audioClipService';
 
 interface MemoryDetailDialogProps {
   memory: any;
@@ -54,6 +58,12 @@ export const MemoryDetailDialog = ({ memory, open, onOpenChange, onUpdate }: Mem
   // Share dialog state
   const [showShareDialog, setShowShareDialog] = useState(false);
 
+  // Version history dialog state
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+
+  // Perspectives / family story dialog state
+  const [showFamilyStoryDialog, setShowFamilyStoryDialog] = useState(false);
+
   // Background image feature removed - images shown only as attachments
 
   // Load voice recordings for this memory
@@ -66,12 +76,14 @@ export const MemoryDetailDialog = ({ memory, open, onOpenChange, onUpdate }: Mem
       const { data: recordingsById, error: error1 } = await supabase
         .from('voice_recordings')
         .select('*')
-        .eq('memory_id', memory.id);
+        .eq('memory_id', memory.id)
+        .is('deleted_at', null);
         
       const { data: recordingsByIds, error: error2 } = await supabase
         .from('voice_recordings')
         .select('*')
-        .contains('memory_ids', [memory.id]);
+        .contains('memory_ids', [memory.id])
+        .is('deleted_at', null);
 
       if (error1 && error2) {
         console.error('Failed to load voice recordings:', error1, error2);
@@ -113,7 +125,11 @@ export const MemoryDetailDialog = ({ memory, open, onOpenChange, onUpdate }: Mem
             artifact_type,
             storage_path,
             file_size,
-            mime_type
+            mime_type,
+            source,
+            source_recording_id,
+            metadata,
+            created_at
           )
         `)
         .eq('memory_id', memory.id);
@@ -289,6 +305,7 @@ export const MemoryDetailDialog = ({ memory, open, onOpenChange, onUpdate }: Mem
           memory_date: editDate || null,
           memory_location: editLocation.trim() || null,
           tags: editTags.length > 0 ? editTags : null,
+          ...revisionAttribution('user', 'Edited in memory details'),
         })
         .eq('id', memory.id);
 
@@ -481,6 +498,24 @@ export const MemoryDetailDialog = ({ memory, open, onOpenChange, onUpdate }: Mem
                   <Share2 className="w-4 h-4" />
                   Share
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowHistoryDialog(true)}
+                  className="gap-2 border-2 border-gray-200 text-gray-700 hover:border-gray-400 hover:bg-gray-50 transition-all duration-200 hover:scale-[1.02] active:scale-[0.98] shadow-sm hover:shadow-md font-medium"
+                >
+                  <History className="w-4 h-4" />
+                  History
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowFamilyStoryDialog(true)}
+                  className="gap-2 border-2 border-gray-200 text-gray-700 hover:border-gray-400 hover:bg-gray-50 transition-all duration-200 hover:scale-[1.02] active:scale-[0.98] shadow-sm hover:shadow-md font-medium"
+                >
+                  <Users className="w-4 h-4" />
+                  Family story
+                </Button>
                 <Button
                   variant="outline"
                   size="sm"
@@ -763,6 +798,23 @@ export const MemoryDetailDialog = ({ memory, open, onOpenChange, onUpdate }: Mem
                     );
                   }
 
+                  // Clips cut from a recording get their own inline player
+                  if (isAudioClip(artifact)) {
+                    return (
+                      <div key={artifact.id} className="relative col-span-full group">
+                        <AudioClipPlayer clip={{ ...artifact, audio_url: signedUrl }} className="pr-10" />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="absolute top-2 right-2 w-6 h-6 opacity-0 group-hover:opacity-100 transition-opacity text-destructive"
+                          onClick={() => handleDeleteArtifact(artifact.id)}
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    );
+                  }
+
                   // Handle audio artifacts with playback
                   if (artifact.artifact_type === 'audio') {
                     return (
@@ -889,10 +941,26 @@ export const MemoryDetailDialog = ({ memory, open, onOpenChange, onUpdate }: Mem
         open={showShareDialog}
         onOpenChange={setShowShareDialog}
         memoryId={memory.id}
+        memoryGroupId={memory.memory_group_id || memory.id}
         memoryTitle={memory.title}
         onSuccess={onUpdate}
       />
 
+      {/* Version History Dialog */}
+      <MemoryRevisionHistory
+        open={showHistoryDialog}
+        onOpenChange={setShowHistoryDialog}
+        memoryGroupId={memory.memory_group_id || memory.id}
+        onRestored={onUpdate}
+      />
+
+      {/* Perspectives and merged family story */}
+      <FamilyStoryDialog
+        open={showFamilyStoryDialog}
+        onOpenChange={setShowFamilyStoryDialog}
+        memory={memory}
+      />
+
       {/* Image Enlargement Dialog */}
       <Dialog open={!!enlargedImage} onOpenChange={() => setEnlargedImage(null)}>
         <DialogContent className="max-w-4xl p-0 overflow-hidden">
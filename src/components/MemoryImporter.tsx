@@ -0,0 +1,238 @@
+import React, { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FolderOpen, FileUp, Loader2, Paperclip, Upload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { memoryImportService, ImportCandidate, ImportProgress } from '@/services/memoryImportService';
+import { IMPORT_SOURCE_LABELS, ImportSource } from '@/utils/importParsers';
+
+const SOURCE_HINTS: Record<ImportSource, string> = {
+  dayone: 'Unzip your Day One JSON export and pick the folder (Journal.json plus photos/).',
+  markdown: 'Pick your notes folder or Obsidian vault. Frontmatter date, tags and embedded images are kept.',
+  keep: 'Unzip Google Takeout and pick the Takeout/Keep folder.',
+  whatsapp: 'Pick the exported chat .txt (and its media, if exported with media). Each day becomes one memory.',
+};
+
+const DUPLICATE_LABELS: Record<NonNullable<ImportCandidate['duplicate']>['reason'], string> = {
+  reimport: 'Already imported',
+  same_title_and_date: 'Same title and date',
+  same_text: 'Same text',
+};
+
+export const MemoryImporter: React.FC<{ onImported?: () => void }> = ({ onImported }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [source, setSource] = useState<ImportSource>('dayone');
+  const [candidates, setCandidates] = useState<ImportCandidate[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isParsing, setIsParsing] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setCandidates(null);
+    setSelected(new Set());
+    setProgress(null);
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!user || !fileList || fileList.length === 0) return;
+
+    setIsParsing(true);
+    try {
+      const parsed = await memoryImportService.prepareImport(user.id, source, Array.from(fileList));
+      setCandidates(parsed);
+      // Duplicates start unticked; the user can still force them in
+      setSelected(new Set(parsed.map((candidate, index) => (candidate.duplicate ? -1 : index)).filter(index => index >= 0)));
+
+      if (parsed.length === 0) {
+        toast({
+          title: 'Nothing to import',
+          description: `No ${IMPORT_SOURCE_LABELS[source]} entries were found in the selected files`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error reading import files:', error);
+      toast({
+        title: 'Could not read export',
+        description: error instanceof Error ? error.message : 'Please check the files and try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsParsing(false);
+      if (folderInputRef.current) folderInputRef.current.value = '';
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!user || !candidates) return;
+
+    const entries = candidates.filter((_, index) => selected.has(index)).map(candidate => candidate.entry);
+    setProgress({ done: 0, total: entries.length });
+
+    const result = await memoryImportService.commitImport(user.id, entries, setProgress);
+
+    toast({
+      title: result.failed.length > 0 ? 'Import finished with errors' : 'Import complete',
+      description: `${result.imported} memories and ${result.attachments} attachments imported` +
+        (result.failed.length > 0 ? `, ${result.failed.length} failed` : ''),
+      variant: result.failed.length > 0 && result.imported === 0 ? 'destructive' : 'default',
+    });
+
+    reset();
+    onImported?.();
+  };
+
+  const duplicateCount = candidates?.filter(candidate => candidate.duplicate).length ?? 0;
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-2xl font-light">Import Memories</CardTitle>
+        <CardDescription>Bring in years of writing from other apps. You'll see everything before it's saved.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!candidates && (
+          <>
+            <RadioGroup value={source} onValueChange={value => setSource(value as ImportSource)} className="grid grid-cols-2 gap-2">
+              {(Object.keys(IMPORT_SOURCE_LABELS) as ImportSource[]).map(option => (
+                <Label
+                  key={option}
+                  htmlFor={`import-${option}`}
+                  className="flex items-center gap-2 border rounded-md px-3 py-2 cursor-pointer hover:bg-muted"
+                >
+                  <RadioGroupItem id={`import-${option}`} value={option} />
+                  {IMPORT_SOURCE_LABELS[option]}
+                </Label>
+              ))}
+            </RadioGroup>
+
+            <p className="text-sm text-muted-foreground">{SOURCE_HINTS[source]}</p>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => folderInputRef.current?.click()} disabled={isParsing} className="gap-2">
+                <FolderOpen className="w-4 h-4" />
+                Choose folder
+              </Button>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isParsing} className="gap-2">
+                <FileUp className="w-4 h-4" />
+                Choose files
+              </Button>
+              {isParsing && <Loader2 className="w-5 h-5 animate-spin self-center text-muted-foreground" />}
+            </div>
+
+            <input
+              ref={folderInputRef}
+              type="file"
+              {...{ webkitdirectory: '' }}
+              multiple
+              className="hidden"
+              onChange={e => handleFiles(e.target.files)}
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={e => handleFiles(e.target.files)}
+            />
+          </>
+        )}
+
+        {candidates && candidates.length > 0 && (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {candidates.length} entries found{duplicateCount > 0 && `, ${duplicateCount} look like duplicates`}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setSelected(new Set(candidates.map((_, index) => index)))}>
+                  Select all
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+                  Select none
+                </Button>
+              </div>
+            </div>
+
+            <ScrollArea className="h-96 border rounded-md">
+              <div className="divide-y">
+                {candidates.map((candidate, index) => (
+                  <label key={`${candidate.entry.sourceId}-${index}`} className="flex gap-3 p-3 cursor-pointer hover:bg-muted/50">
+                    <Checkbox checked={selected.has(index)} onCheckedChange={() => toggle(index)} className="mt-1" />
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{candidate.entry.title}</span>
+                        {candidate.duplicate && (
+                          <Badge variant="outline" className="text-amber-700 border-amber-300 flex-shrink-0">
+                            {DUPLICATE_LABELS[candidate.duplicate.reason]}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {[candidate.entry.memoryDate, candidate.entry.location].filter(Boolean).join(' · ') || 'No date'}
+                        {candidate.entry.attachments.length > 0 && (
+                          <span className="inline-flex items-center gap-1 ml-2">
+                            <Paperclip className="w-3 h-3" />
+                            {candidate.entry.attachments.length}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-muted-foreground line-clamp-2">{candidate.entry.text}</p>
+                      {candidate.entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {candidate.entry.tags.slice(0, 6).map(tag => (
+                            <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {progress ? (
+              <div className="space-y-2">
+                <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} />
+                <p className="text-sm text-muted-foreground text-center">
+                  Importing {progress.done} of {progress.total}...
+                </p>
+              </div>
+            ) : (
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={reset}>Cancel</Button>
+                <Button onClick={handleImport} disabled={selected.size === 0} className="gap-2">
+                  <Upload className="w-4 h-4" />
+                  Import {selected.size} {selected.size === 1 ? 'memory' : 'memories'}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {candidates && candidates.length === 0 && (
+          <Button variant="outline" onClick={reset}>Choose different files</Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
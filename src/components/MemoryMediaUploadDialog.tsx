@@ -10,6 +10,9 @@ import {
 import { Upload, X, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { v4 as uuidv4 } from 'uuid';
+import { isNetworkError, syncService } from '@/services/syncService';
+import { ArtifactUploadPayload } from '@/types/sync';
 
 interface MemoryMediaUploadDialogProps {
   isOpen: boolean;
@@ -73,6 +76,42 @@ export const MemoryMediaUploadDialog: React.FC<MemoryMediaUploadDialogProps> = (
     setPreviews(prev => prev.filter((_, i) => i !== index));
   };
 
+  const uploadArtifact = async (file: File, fileName: string, artifactId: string) => {
+    // Upload to storage
+    const { data: uploadData, error: uploadError } = await supabase.storage
+      .from('memory-images')
+      .upload(fileName, file, {
+        contentType: file.type,
+        upsert: false
+      });
+
+    if (uploadError) throw uploadError;
+
+    // Create artifact record
+    const { error: artifactError } = await supabase
+      .from('artifacts')
+      .insert({
+        id: artifactId,
+        artifact_type: file.type.startsWith('image/') ? 'image' : 'video',
+        storage_path: uploadData.path,
+        mime_type: file.type,
+        file_name: file.name,
+        file_size: file.size
+      });
+
+    if (artifactError) throw artifactError;
+
+    // Link to memory
+    const { error: linkError } = await supabase
+      .from('memory_artifacts')
+      .insert({
+        memory_id: memoryId,
+        artifact_id: artifactId
+      });
+
+    if (linkError) throw linkError;
+  };
+
   const handleUpload = async () => {
     if (files.length === 0) {
       onClose();
@@ -82,53 +121,46 @@ export const MemoryMediaUploadDialog: React.FC<MemoryMediaUploadDialogProps> = (
     setIsUploading(true);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      // The session is read from storage, so files can still be queued offline
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       if (!user) throw new Error('Not authenticated');
 
+      let queued = 0;
       for (const file of files) {
         const fileExt = file.name.split('.').pop() || 'jpg';
         const fileName = `${user.id}/${Date.now()}_${Math.random().toString(36).substring(7)}.${fileExt}`;
+        const artifactId = uuidv4();
 
-        // Upload to storage
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from('memory-images')
-          .upload(fileName, file, {
-            contentType: file.type,
-            upsert: false
-          });
-
-        if (uploadError) throw uploadError;
-
-        // Create artifact record
-        const { data: artifactData, error: artifactError } = await supabase
-          .from('artifacts')
-          .insert({
-            artifact_type: file.type.startsWith('image/') ? 'image' : 'video',
-            storage_path: uploadData.path,
-            mime_type: file.type,
-            file_name: file.name,
-            file_size: file.size
-          })
-          .select('id')
-          .single();
-
-        if (artifactError) throw artifactError;
-
-        // Link to memory
-        const { error: linkError } = await supabase
-          .from('memory_artifacts')
-          .insert({
-            memory_id: memoryId,
-            artifact_id: artifactData.id
-          });
+        if (queued === 0) {
+          try {
+            await uploadArtifact(file, fileName, artifactId);
+            continue;
+          } catch (error) {
+            if (!isNetworkError(error)) throw error;
+          }
+        }
 
-        if (linkError) throw linkError;
+        // Offline: this file and the rest upload once the connection is back
+        await syncService.enqueue<ArtifactUploadPayload>(
+          'artifact.upload',
+          user.id,
+          `${file.name} for ${memoryTitle}`,
+          { memory_id: memoryId, artifact_id: artifactId, storage_path: fileName },
+          [{ blob: file, file_name: file.name, mime_type: file.type }]
+        );
+        queued++;
       }
 
-      toast({
-        title: 'Media uploaded! 📸',
-        description: `${files.length} file(s) added to your memory`,
-      });
+      toast(queued > 0
+        ? {
+            title: 'Saved offline',
+            description: `${queued} file(s) will upload when you are back online`,
+          }
+        : {
+            title: 'Media uploaded! 📸',
+            description: `${files.length} file(s) added to your memory`,
+          });
 
       onClose();
     } catch (error) {
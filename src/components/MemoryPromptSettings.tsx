@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Loader2, Moon, Sparkles } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_MEMORY_PROMPT_SETTINGS, memoryPromptService } from '@/services/memoryPromptService';
+import { MemoryPrompt, MemoryPromptChannel, MemoryPromptSettings as PromptSettings, WEEKDAYS } from '@/types/memoryPrompt';
+
+interface MemoryPromptSettingsProps {
+  userId: string;
+}
+
+const CHANNEL_OPTIONS: { channel: MemoryPromptChannel; label: string; requirement: string }[] = [
+  { channel: 'whatsapp', label: 'WhatsApp', requirement: 'Verify your phone number above first' },
+  { channel: 'email', label: 'Email', requirement: 'Connect an email address under Messaging first' },
+];
+
+const COMMON_TIMEZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Lisbon',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'America/Sao_Paulo',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+];
+
+const STATUS_LABELS: Record<MemoryPrompt['status'], string> = {
+  sent: 'Waiting for reply',
+  answered: 'Answered',
+  failed: 'Not delivered',
+};
+
+/** Settings card: a weekly question from Solin on WhatsApp or by email */
+export const MemoryPromptSettings = ({ userId }: MemoryPromptSettingsProps) => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<PromptSettings>(DEFAULT_MEMORY_PROMPT_SETTINGS);
+  const [availableChannels, setAvailableChannels] = useState<MemoryPromptChannel[]>([]);
+  const [recentPrompts, setRecentPrompts] = useState<MemoryPrompt[]>([]);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [loaded, channels, prompts] = await Promise.all([
+          memoryPromptService.getSettings(userId),
+          memoryPromptService.getAvailableChannels(userId),
+          memoryPromptService.getRecentPrompts(userId),
+        ]);
+        setSettings(loaded);
+        setAvailableChannels(channels);
+        setRecentPrompts(prompts);
+      } catch (error) {
+        console.error('Error loading memory prompt settings:', error);
+      }
+    };
+
+    load();
+  }, [userId]);
+
+  const timezones = [...new Set([settings.timezone, DEFAULT_MEMORY_PROMPT_SETTINGS.timezone, ...COMMON_TIMEZONES])];
+  const hasQuietHours = settings.quiet_hours_start !== null;
+  const channelAvailable = availableChannels.includes(settings.channel);
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setPreview(await memoryPromptService.preview());
+    } catch (error) {
+      console.error('Error previewing memory prompt:', error);
+      toast({
+        title: "Could not preview a question",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (settings.enabled && !channelAvailable) {
+      toast({
+        title: "Choose another channel",
+        description: CHANNEL_OPTIONS.find(option => option.channel === settings.channel)?.requirement,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setSettings(await memoryPromptService.saveSettings(userId, settings));
+      toast({
+        title: settings.enabled ? "Weekly questions scheduled" : "Weekly questions turned off",
+        description: settings.enabled
+          ? `Solin will write every ${WEEKDAYS[settings.day_of_week]} at ${settings.send_time}`
+          : "Solin will only reply when you write first"
+      });
+    } catch (error) {
+      console.error('Error saving memory prompt settings:', error);
+      toast({
+        title: "Could not save weekly questions",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="modern-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <CalendarClock className="w-5 h-5 text-primary" />
+          </div>
+          Weekly Memory Prompts
+        </CardTitle>
+        <CardDescription>
+          Once a week Solin asks you one question about your life, based on memories you've shared and
+          the topics you enjoy. Reply to turn your answer into a memory, or reply STOP to pause.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between p-4 rounded-xl bg-card/50">
+          <div className="space-y-1">
+            <span className="font-medium">Send me a weekly question</span>
+            {settings.opted_out_at ? (
+              <p className="text-sm text-muted-foreground">
+                Paused after you replied STOP. Save to turn them back on.
+              </p>
+            ) : settings.enabled && settings.next_send_at ? (
+              <p className="text-sm text-muted-foreground">
+                Next question {formatDistanceToNow(new Date(settings.next_send_at), { addSuffix: true })}
+              </p>
+            ) : null}
+          </div>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(checked) => setSettings({ ...settings, enabled: checked })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Send on</Label>
+            <Select
+              value={settings.channel}
+              onValueChange={(value) => setSettings({ ...settings, channel: value as MemoryPromptChannel })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHANNEL_OPTIONS.map(option => (
+                  <SelectItem key={option.channel} value={option.channel}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!channelAvailable && (
+              <p className="text-xs text-muted-foreground">
+                {CHANNEL_OPTIONS.find(option => option.channel === settings.channel)?.requirement}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Day</Label>
+            <Select
+              value={String(settings.day_of_week)}
+              onValueChange={(value) => setSettings({ ...settings, day_of_week: parseInt(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAYS.map((day, index) => (
+                  <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Time</Label>
+            <Input
+              type="time"
+              value={settings.send_time}
+              onChange={(e) => e.target.value && setSettings({ ...settings, send_time: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Timezone</Label>
+            <Select
+              value={settings.timezone}
+              onValueChange={(value) => setSettings({ ...settings, timezone: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timezones.map(timezone => (
+                  <SelectItem key={timezone} value={timezone}>{timezone.replace(/_/g, ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="p-4 rounded-xl bg-card/50 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Moon className="w-4 h-4 text-muted-foreground" />
+                <span className="font-medium">Quiet hours</span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                A question due in quiet hours waits until they end
+              </p>
+            </div>
+            <Switch
+              checked={hasQuietHours}
+              onCheckedChange={(checked) => setSettings({
+                ...settings,
+                quiet_hours_start: checked ? '22:00' : null,
+                quiet_hours_end: checked ? '08:00' : null,
+              })}
+            />
+          </div>
+          {hasQuietHours && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input
+                  type="time"
+                  value={settings.quiet_hours_start || ''}
+                  onChange={(e) => e.target.value && setSettings({ ...settings, quiet_hours_start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Until</Label>
+                <Input
+                  type="time"
+                  value={settings.quiet_hours_end || ''}
+                  onChange={(e) => e.target.value && setSettings({ ...settings, quiet_hours_end: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-sm text-muted-foreground">Example question</h4>
+            <Button variant="ghost" size="sm" onClick={handlePreview} disabled={isPreviewing}>
+              {isPreviewing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Sparkles className="w-4 h-4 mr-1" />}
+              {preview ? 'Another' : 'Preview'}
+            </Button>
+          </div>
+          {preview && (
+            <p className="p-3 rounded-lg bg-primary/5 border border-primary/20 text-sm italic">"{preview}"</p>
+          )}
+        </div>
+
+        {recentPrompts.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm text-muted-foreground">Recent questions</h4>
+            {recentPrompts.map(prompt => (
+              <div key={prompt.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-card/50">
+                <div className="min-w-0">
+                  <p className="text-sm truncate">{prompt.question}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(prompt.sent_at).toLocaleDateString()}
+                    {prompt.memory_id && ' · became a memory'}
+                  </p>
+                </div>
+                <Badge variant={prompt.status === 'failed' ? 'destructive' : 'outline'} className="text-xs flex-shrink-0">
+                  {STATUS_LABELS[prompt.status]}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button onClick={handleSave} disabled={isSaving} className="w-full rounded-full">
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Weekly Questions
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
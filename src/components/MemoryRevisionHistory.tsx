@@ -0,0 +1,255 @@
+import { useState, useEffect, useMemo } from 'react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  memoryRevisionService,
+  MemoryRevision,
+  RevisionField,
+  REVISION_AUTHOR_LABELS,
+  REVISION_FIELD_LABELS,
+} from '@/services/memoryRevisionService';
+import { diffText, toSideBySide, DiffSegment } from '@/utils/textDiff';
+
+interface MemoryRevisionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  memoryGroupId: string;
+  onRestored?: () => void;
+}
+
+const AUTHOR_BADGE_CLASSES: Record<string, string> = {
+  user: 'bg-blue-100 text-blue-700 border-blue-200',
+  solin_voice: 'bg-purple-100 text-purple-700 border-purple-200',
+  whatsapp: 'bg-green-100 text-green-700 border-green-200',
+  sms: 'bg-teal-100 text-teal-700 border-teal-200',
+  telegram: 'bg-sky-100 text-sky-700 border-sky-200',
+  email: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+  process_memory_insights: 'bg-amber-100 text-amber-700 border-amber-200',
+  system: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+const formatFieldValue = (revision: MemoryRevision | undefined, field: RevisionField): string => {
+  if (!revision) return '';
+  const value = revision[field];
+  if (Array.isArray(value)) {
+    return field === 'image_urls' ? `${value.length} image${value.length === 1 ? '' : 's'}` : value.join(', ');
+  }
+  return value || '';
+};
+
+const DiffPane = ({ title, segments }: { title: string; segments: DiffSegment[] }) => (
+  <div className="flex-1 min-w-0 border rounded-md">
+    <div className="px-3 py-1.5 text-xs font-medium text-muted-foreground border-b bg-muted/40">{title}</div>
+    <div className="p-3 text-sm whitespace-pre-wrap break-words leading-relaxed">
+      {segments.length === 0 && <span className="text-muted-foreground italic">(empty)</span>}
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={
+            segment.type === 'removed'
+              ? 'bg-red-100 text-red-800 line-through decoration-red-400'
+              : segment.type === 'added'
+                ? 'bg-green-100 text-green-800'
+                : undefined
+          }
+        >
+          {segment.value}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+export const MemoryRevisionHistory = ({ open, onOpenChange, memoryGroupId, onRestored }: MemoryRevisionHistoryProps) => {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<MemoryRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    try {
+      const data = await memoryRevisionService.getRevisions(memoryGroupId);
+      setRevisions(data);
+      setSelectedId(data[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load memory history:', error);
+      toast({
+        title: 'Could not load history',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && memoryGroupId) {
+      loadRevisions();
+    }
+  }, [open, memoryGroupId]);
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : undefined;
+  // Revisions are newest first, so the one before it is the next entry
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] : undefined;
+  const isLatest = selectedIndex === 0;
+
+  const textDiff = useMemo(
+    () => (selected ? toSideBySide(diffText(previous?.text || '', selected.text)) : { left: [], right: [] }),
+    [selected, previous]
+  );
+
+  const metadataChanges = useMemo(() => {
+    if (!selected || !previous) return [];
+    return selected.changed_fields
+      .filter(field => field !== 'text')
+      .map(field => ({
+        field,
+        before: formatFieldValue(previous, field),
+        after: formatFieldValue(selected, field),
+      }));
+  }, [selected, previous]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setRestoring(true);
+    try {
+      await memoryRevisionService.restoreRevision(selected);
+      toast({
+        title: 'Memory restored',
+        description: `Restored revision #${selected.revision_number}`,
+      });
+      await loadRevisions();
+      onRestored?.();
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Every change to this memory is kept. Pick a version to see what changed and restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-12 text-center">No history recorded for this memory yet.</p>
+        ) : (
+          <div className="flex gap-4 min-h-0 flex-1">
+            {/* Timeline */}
+            <ScrollArea className="w-64 flex-shrink-0 border rounded-md">
+              <div className="p-2 space-y-1">
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left rounded-md p-2 transition-colors ${
+                      revision.id === selectedId ? 'bg-primary/10 border border-primary/30' : 'hover:bg-muted border border-transparent'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">#{revision.revision_number}</span>
+                      <Badge variant="outline" className={AUTHOR_BADGE_CLASSES[revision.author_type]}>
+                        {REVISION_AUTHOR_LABELS[revision.author_type] || revision.author_type}
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                      {index === 0 && ' · current'}
+                    </div>
+                    {revision.reason && (
+                      <div className="text-xs mt-1 line-clamp-2">{revision.reason}</div>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Selected revision */}
+            {selected && (
+              <ScrollArea className="flex-1 min-w-0">
+                <div className="space-y-4 pr-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h3 className="font-semibold">{selected.title}</h3>
+                      <p className="text-xs text-muted-foreground">
+                        Revision #{selected.revision_number} by {REVISION_AUTHOR_LABELS[selected.author_type] || selected.author_type}
+                        {' · '}
+                        {format(new Date(selected.created_at), 'PPp')}
+                      </p>
+                      {selected.changed_fields.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {selected.changed_fields.map(field => (
+                            <Badge key={field} variant="secondary" className="text-xs">
+                              {REVISION_FIELD_LABELS[field] || field}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={handleRestore}
+                      disabled={isLatest || restoring}
+                      className="gap-2 flex-shrink-0"
+                    >
+                      {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      {isLatest ? 'Current version' : 'Restore this version'}
+                    </Button>
+                  </div>
+
+                  {metadataChanges.length > 0 && (
+                    <div className="border rounded-md divide-y text-sm">
+                      {metadataChanges.map(change => (
+                        <div key={change.field} className="grid grid-cols-[6rem_1fr_1fr] gap-2 px-3 py-2">
+                          <span className="text-muted-foreground">{REVISION_FIELD_LABELS[change.field]}</span>
+                          <span className="text-red-700 line-through break-words">{change.before || '—'}</span>
+                          <span className="text-green-700 break-words">{change.after || '—'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-3">
+                    <DiffPane
+                      title={previous ? `Revision #${previous.revision_number}` : 'Before'}
+                      segments={textDiff.left}
+                    />
+                    <DiffPane title={`Revision #${selected.revision_number}`} segments={textDiff.right} />
+                  </div>
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Mail, MessageCircle, Send, Unlink } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { messagingChannelService } from '@/services/messagingChannelService';
+import { ChannelIdentity, LinkableChannel } from '@/types/messagingChannel';
+
+interface MessagingChannelsSettingsProps {
+  userId: string;
+}
+
+const TELEGRAM_BOT_USERNAME = import.meta.env.VITE_TELEGRAM_BOT_USERNAME as string | undefined;
+const SOLIN_EMAIL_ADDRESS = import.meta.env.VITE_SOLIN_EMAIL_ADDRESS as string | undefined;
+
+const CHANNELS: { channel: LinkableChannel; label: string; icon: typeof Send; available: boolean }[] = [
+  { channel: 'telegram', label: 'Telegram', icon: Send, available: !!TELEGRAM_BOT_USERNAME },
+  { channel: 'email', label: 'Email', icon: Mail, available: !!SOLIN_EMAIL_ADDRESS },
+];
+
+/** Settings card: link Telegram chats and email addresses so memories can be shared from there */
+export const MessagingChannelsSettings = ({ userId }: MessagingChannelsSettingsProps) => {
+  const { toast } = useToast();
+  const [identities, setIdentities] = useState<ChannelIdentity[]>([]);
+  const [pendingCode, setPendingCode] = useState<{ channel: LinkableChannel; code: string } | null>(null);
+  const [isCreatingCode, setIsCreatingCode] = useState<LinkableChannel | null>(null);
+
+  const loadIdentities = async () => {
+    try {
+      setIdentities(await messagingChannelService.getIdentities(userId));
+    } catch (error) {
+      console.error('Error loading messaging channels:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadIdentities();
+  }, [userId]);
+
+  const handleConnect = async (channel: LinkableChannel) => {
+    setIsCreatingCode(channel);
+    try {
+      const code = await messagingChannelService.createLinkCode(channel);
+      setPendingCode({ channel, code });
+    } catch (error) {
+      console.error('Error creating link code:', error);
+      toast({
+        title: "Could not create a link code",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreatingCode(null);
+    }
+  };
+
+  const handleDone = async () => {
+    setPendingCode(null);
+    await loadIdentities();
+  };
+
+  const handleUnlink = async (identity: ChannelIdentity) => {
+    try {
+      await messagingChannelService.unlink(identity.id);
+      setIdentities(prev => prev.filter(i => i.id !== identity.id));
+      toast({
+        title: "Disconnected",
+        description: `Solin will no longer answer ${identity.display_name || identity.address}`
+      });
+    } catch (error) {
+      console.error('Error unlinking channel:', error);
+      toast({
+        title: "Could not disconnect",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderInstructions = (channel: LinkableChannel, code: string) => {
+    if (channel === 'telegram') {
+      const link = `https://t.me/${TELEGRAM_BOT_USERNAME}?start=${code}`;
+      return (
+        <p className="text-sm">
+          Open{' '}
+          <a href={link} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+            @{TELEGRAM_BOT_USERNAME}
+          </a>{' '}
+          in Telegram and press Start, or send it <span className="font-mono font-semibold">/start {code}</span>
+        </p>
+      );
+    }
+
+    return (
+      <p className="text-sm">
+        Email <span className="font-mono font-semibold">{code}</span> to{' '}
+        <a href={`mailto:${SOLIN_EMAIL_ADDRESS}?subject=${code}`} className="text-primary underline">
+          {SOLIN_EMAIL_ADDRESS}
+        </a>{' '}
+        from the address you want to use
+      </p>
+    );
+  };
+
+  return (
+    <Card className="modern-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <MessageCircle className="w-5 h-5 text-primary" />
+          </div>
+          Messaging
+        </CardTitle>
+        <CardDescription>
+          Share memories with Solin from Telegram or by email, just like on WhatsApp
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {CHANNELS.map(({ channel, label, icon: Icon, available }) => {
+          const linked = identities.filter(i => i.channel === channel);
+
+          return (
+            <div key={channel} className="p-4 rounded-xl border border-border/60 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <Icon className="w-5 h-5 text-muted-foreground" />
+                  <p className="font-medium">{label}</p>
+                  {linked.length > 0 && (
+                    <Badge variant="secondary" className="bg-primary/10 text-primary border-0">
+                      Active
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="rounded-full"
+                  disabled={!available || isCreatingCode === channel}
+                  onClick={() => handleConnect(channel)}
+                >
+                  {isCreatingCode === channel && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {linked.length > 0 ? 'Connect another' : 'Connect'}
+                </Button>
+              </div>
+
+              {!available && (
+                <p className="text-xs text-muted-foreground">Not available yet</p>
+              )}
+
+              {linked.map(identity => (
+                <div key={identity.id} className="flex items-center justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate">{identity.display_name || identity.address}</p>
+                    {identity.last_message_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Last message {formatDistanceToNow(new Date(identity.last_message_at), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleUnlink(identity)}>
+                    <Unlink className="w-4 h-4 mr-1" />
+                    Disconnect
+                  </Button>
+                </div>
+              ))}
+
+              {pendingCode?.channel === channel && (
+                <div className="p-3 rounded-lg bg-primary/5 border border-primary/20 space-y-3">
+                  {renderInstructions(channel, pendingCode.code)}
+                  <p className="text-xs text-muted-foreground">The code works once and expires in 30 minutes.</p>
+                  <Button size="sm" className="rounded-full" onClick={handleDone}>
+                    I've sent it
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
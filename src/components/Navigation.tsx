@@ -20,7 +20,7 @@
  */
 
 import { Button } from '@/components/ui/button';
-import { Clock, Info, HelpCircle, Sparkles, Users, Shield, BookOpen, LogOut, Database, Settings as SettingsIcon, Search, UserPlus } from 'lucide-react';
+import { Clock, Info, HelpCircle, Sparkles, Users, Shield, BookOpen, LogOut, Database, Settings as SettingsIcon, Search, UserPlus, Gift, HeartHandshake, Contact } from 'lucide-react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
@@ -30,6 +30,9 @@ import SolinLogo from '@/components/SolinLogo';
 import { UserSearchDialog } from '@/components/social/UserSearchDialog';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
+import { timeCapsuleService } from '@/services/timeCapsuleService';
+import { legacyService } from '@/services/legacyService';
+import { SyncStatusIndicator } from '@/components/sync/SyncStatusIndicator';
 
 /**
  * MAIN NAVIGATION COMPONENT
@@ -44,6 +47,7 @@ const Navigation = () => {
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [pendingConnectionsCount, setPendingConnectionsCount] = useState(0);
+  const [unopenedCapsulesCount, setUnopenedCapsulesCount] = useState(0);
 
   // Load pending connections count
   useEffect(() => {
@@ -81,7 +85,44 @@ const Navigation = () => {
       supabase.removeChannel(channel);
     };
   }, [user?.id]);
+
+  // Time capsules addressed to the user that have opened but haven't been read
+  useEffect(() => {
+    if (!user?.id) {
+      setUnopenedCapsulesCount(0);
+      return;
+    }
+
+    const loadUnopenedCount = async () => {
+      setUnopenedCapsulesCount(await timeCapsuleService.countUnopened(user.id));
+    };
+
+    loadUnopenedCount();
+
+    const channel = supabase
+      .channel('time-capsule-changes')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'time_capsules',
+        filter: `recipient_user_id=eq.${user.id}`
+      }, () => {
+        loadUnopenedCount();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id]);
   
+  // Using the app counts as a legacy check-in: resets the check-in switch
+  // and withdraws any open claims about this user
+  useEffect(() => {
+    if (!user?.id) return;
+    legacyService.checkIn().catch(error => console.error('Legacy check-in failed:', error));
+  }, [user?.id]);
+
   /**
    * ALL NAVIGATION ITEMS
    * Consolidated list for UBS-style equal spacing layout
@@ -92,7 +133,10 @@ const Navigation = () => {
     { path: '/timeline', icon: Clock, label: 'Timeline' },
     { path: '/archive', icon: Database, label: 'Archive' },
     { path: '/connections', icon: UserPlus, label: 'Connections', badge: pendingConnectionsCount },
+    { path: '/people', icon: Contact, label: 'People' },
     { path: '/story', icon: BookOpen, label: 'Story' },
+    { path: '/time-capsules', icon: Gift, label: 'Time Capsules', badge: unopenedCapsulesCount },
+    { path: '/legacy', icon: HeartHandshake, label: 'Legacy' },
     { path: '/reconstruction', icon: Sparkles, label: 'Reconstruction' },
     { path: '/identities', icon: Users, label: 'Identities' },
     { path: '/settings', icon: SettingsIcon, label: 'Settings' },
@@ -204,6 +248,9 @@ const Navigation = () => {
                   <Search className="w-4 h-4" />
                 </Button>
               )}
+
+              {/* Offline sync status */}
+              {user && <SyncStatusIndicator />}
               
               {navItems.map(({ path, icon: Icon, label, badge }) => (
                 <Link 
@@ -256,6 +303,7 @@ const Navigation = () => {
       */}
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-border sm:hidden z-40">
         <div className="flex items-center py-2 px-2 overflow-x-auto gap-1" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+          {user && <SyncStatusIndicator compact />}
           {navItems.map(({ path, icon: Icon, label }) => (
             <Link key={path} to={path} className="flex-shrink-0">
               <Button
@@ -0,0 +1,287 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Phone, Plus, Star, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { phoneNumberService } from '@/services/phoneNumberService';
+import { UserPhoneNumber } from '@/types/householdPhone';
+
+interface PhoneNumbersSettingsProps {
+  userId: string;
+}
+
+/** Settings card: the WhatsApp numbers Solin answers for this account */
+export const PhoneNumbersSettings = ({ userId }: PhoneNumbersSettingsProps) => {
+  const { toast } = useToast();
+  const [phoneNumbers, setPhoneNumbers] = useState<UserPhoneNumber[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [label, setLabel] = useState('');
+  const [verificationCode, setVerificationCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const verified = phoneNumbers.filter(p => p.verified);
+
+  const loadPhoneNumbers = async () => {
+    try {
+      setPhoneNumbers(await phoneNumberService.getPhoneNumbers(userId));
+    } catch (error) {
+      console.error('Error loading phone numbers:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadPhoneNumbers();
+  }, [userId]);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setCodeSent(false);
+    setPhoneNumber('');
+    setLabel('');
+    setVerificationCode('');
+  };
+
+  const handleSendVerificationCode = async () => {
+    if (!phoneNumber || phoneNumber.length < 10) {
+      toast({
+        title: "Invalid phone number",
+        description: "Please enter a valid phone number with country code (e.g., +1234567890)",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSendingCode(true);
+    try {
+      await phoneNumberService.sendCode(phoneNumber, label);
+      setCodeSent(true);
+      toast({
+        title: "Verification code sent",
+        description: "Check your WhatsApp for the 6-digit code"
+      });
+    } catch (error) {
+      console.error('Error sending code:', error);
+      toast({
+        title: "Failed to send code",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSendingCode(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (verificationCode.length !== 6) {
+      toast({
+        title: "Invalid code",
+        description: "Please enter the 6-digit verification code",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      await phoneNumberService.verifyCode(phoneNumber, verificationCode);
+      resetForm();
+      await loadPhoneNumbers();
+      toast({
+        title: "Phone number verified",
+        description: "Your WhatsApp number is now linked to your account"
+      });
+    } catch (error) {
+      console.error('Error verifying code:', error);
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid or expired code",
+        variant: "destructive"
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleSetPrimary = async (phone: UserPhoneNumber) => {
+    try {
+      await phoneNumberService.setPrimary(phone.id);
+      setPhoneNumbers(prev => prev.map(p => ({ ...p, is_primary: p.id === phone.id })));
+    } catch (error) {
+      console.error('Error setting primary number:', error);
+      toast({
+        title: "Could not change your main number",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemove = async (phone: UserPhoneNumber) => {
+    try {
+      await phoneNumberService.removePhoneNumber(phone.id);
+      await loadPhoneNumbers();
+      toast({
+        title: "Number removed",
+        description: `Messages from ${phone.phone_number} will no longer reach your account`
+      });
+    } catch (error) {
+      console.error('Error removing phone number:', error);
+      toast({
+        title: "Could not remove the number",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="modern-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <Phone className="w-5 h-5 text-primary" />
+          </div>
+          WhatsApp Integration
+        </CardTitle>
+        <CardDescription>
+          Link your WhatsApp numbers to access Solin on the go. Solin writes to your main number
+          when it starts a conversation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {verified.map(phone => (
+          <div key={phone.id} className="p-4 rounded-xl bg-primary/5 border border-primary/20">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <CheckCircle className="w-5 h-5 text-primary flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium">{phone.label || 'Verified Phone Number'}</p>
+                  <p className="text-sm text-muted-foreground">{phone.phone_number}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {phone.is_primary ? (
+                  <Badge variant="secondary" className="bg-primary/10 text-primary border-0">
+                    Main
+                  </Badge>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => handleSetPrimary(phone)}>
+                    <Star className="w-4 h-4 mr-1" />
+                    Make main
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(phone)}
+                  aria-label={`Remove ${phone.phone_number}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {verified.length > 0 && !isAdding ? (
+          <Button variant="outline" onClick={() => setIsAdding(true)} className="rounded-full">
+            <Plus className="w-4 h-4 mr-2" />
+            Add another number
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="phoneNumber">Phone Number</Label>
+                <Input
+                  id="phoneNumber"
+                  type="tel"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                  className="bg-card border-border"
+                  placeholder="+1234567890"
+                  disabled={codeSent}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Include country code (e.g., +1 for US)
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phoneLabel">Label (optional)</Label>
+                <Input
+                  id="phoneLabel"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  className="bg-card border-border"
+                  placeholder="Work, Personal…"
+                  disabled={codeSent}
+                />
+              </div>
+            </div>
+
+            {!codeSent ? (
+              <div className="flex gap-3">
+                <Button
+                  onClick={handleSendVerificationCode}
+                  disabled={isSendingCode || !phoneNumber}
+                  className="bg-primary hover:bg-primary/90 rounded-full"
+                >
+                  {isSendingCode ? 'Sending...' : 'Send Verification Code'}
+                </Button>
+                {verified.length > 0 && (
+                  <Button variant="outline" onClick={resetForm} className="rounded-full">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="verificationCode">Verification Code</Label>
+                  <Input
+                    id="verificationCode"
+                    type="text"
+                    value={verificationCode}
+                    onChange={(e) => setVerificationCode(e.target.value)}
+                    className="bg-card border-border"
+                    placeholder="Enter 6-digit code"
+                    maxLength={6}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Check your WhatsApp for the verification code
+                  </p>
+                </div>
+
+                <div className="flex gap-3">
+                  <Button
+                    onClick={handleVerifyCode}
+                    disabled={isVerifying || verificationCode.length !== 6}
+                    className="bg-primary hover:bg-primary/90 rounded-full flex-1"
+                  >
+                    {isVerifying ? 'Verifying...' : 'Verify Code'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setCodeSent(false);
+                      setVerificationCode('');
+                    }}
+                    className="rounded-full"
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
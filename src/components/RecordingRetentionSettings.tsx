@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, Loader2, Link2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_RETENTION_SETTINGS, recordingRetentionService } from '@/services/recordingRetentionService';
+import { RecordingPurgeReportItem, RecordingRetentionSettings as RetentionSettings } from '@/types/recordingRetention';
+
+interface RecordingRetentionSettingsProps {
+  userId: string;
+}
+
+const NEVER = 'never';
+
+const RETENTION_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 180, label: '6 months' },
+  { days: 365, label: '1 year' },
+  { days: 1825, label: '5 years' },
+];
+
+const COMPRESSION_OPTIONS = [
+  { days: 7, label: 'After a week' },
+  { days: 30, label: 'After 30 days' },
+  { days: 90, label: 'After 90 days' },
+];
+
+const daysToValue = (days: number | null) => (days === null ? NEVER : String(days));
+const valueToDays = (value: string) => (value === NEVER ? null : parseInt(value));
+
+/** Settings card: how long recordings are kept, when they are compressed, and what is deleted next */
+export const RecordingRetentionSettings = ({ userId }: RecordingRetentionSettingsProps) => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<RetentionSettings>(DEFAULT_RETENTION_SETTINGS);
+  const [report, setReport] = useState<RecordingPurgeReportItem[]>([]);
+  const [compressionAvailable, setCompressionAvailable] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadReport = async () => {
+    try {
+      setReport(await recordingRetentionService.getPurgeReport(5));
+    } catch (error) {
+      console.error('Error loading purge report:', error);
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setSettings(await recordingRetentionService.getSettings(userId));
+      } catch (error) {
+        console.error('Error loading retention settings:', error);
+      }
+    };
+
+    load();
+    loadReport();
+    recordingRetentionService.isCompressionAvailable()
+      .then(setCompressionAvailable)
+      .catch(error => console.error('Error checking compression:', error));
+  }, [userId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await recordingRetentionService.saveSettings(userId, settings);
+      await loadReport();
+      toast({
+        title: "Retention settings saved",
+        description: "Your recordings' expiry dates have been updated"
+      });
+    } catch (error) {
+      console.error('Error saving retention settings:', error);
+      toast({
+        title: "Could not save retention settings",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="modern-card border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <Archive className="w-5 h-5 text-primary" />
+          </div>
+          Recording Retention
+        </CardTitle>
+        <CardDescription>
+          Expired recordings move to the trash in your Archive, where you can restore them for 30 days.
+          Recordings you pin are kept forever.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Keep recordings for</Label>
+            <Select
+              value={daysToValue(settings.retention_days)}
+              onValueChange={(value) => setSettings({ ...settings, retention_days: valueToDays(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                ))}
+                <SelectItem value={NEVER}>Forever</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Compress audio</Label>
+            <Select
+              value={daysToValue(settings.compress_after_days)}
+              onValueChange={(value) => setSettings({ ...settings, compress_after_days: valueToDays(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPRESSION_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                ))}
+                <SelectItem value={NEVER}>Never</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {compressionAvailable
+                ? 'Re-encodes older recordings at a lower, speech-quality bitrate to save space'
+                : 'Compression is unavailable on this server, so recordings are kept as recorded'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-4 rounded-xl bg-card/50">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Link2 className="w-4 h-4 text-muted-foreground" />
+              <span className="font-medium">Keep recordings linked to memories</span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Recordings a memory was created from never expire
+            </p>
+          </div>
+          <Switch
+            checked={settings.keep_linked_recordings}
+            onCheckedChange={(checked) => setSettings({ ...settings, keep_linked_recordings: checked })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm text-muted-foreground">Deleted next</h4>
+          {report.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing is due to be deleted.</p>
+          ) : (
+            report.map(item => (
+              <div key={`${item.action}-${item.recording_id}`} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-card/50">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {item.conversation_summary || `Recording from ${new Date(item.created_at).toLocaleDateString()}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {item.action === 'trash' ? 'Moves to trash' : 'Deleted for good'} on {new Date(item.due_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <Badge variant={item.action === 'purge' ? 'destructive' : 'outline'} className="text-xs flex-shrink-0">
+                  {item.action === 'purge' ? 'In trash' : 'Expiring'}
+                </Badge>
+              </div>
+            ))
+          )}
+          <Link to="/archive" className="text-xs text-primary hover:underline">
+            Pin recordings or open the trash in your Archive
+          </Link>
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving} className="w-full rounded-full">
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Retention Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
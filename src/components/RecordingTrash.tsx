@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { differenceInCalendarDays } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { recordingRetentionService } from '@/services/recordingRetentionService';
+import { TrashedRecording } from '@/types/recordingRetention';
+
+interface RecordingTrashProps {
+  userId: string;
+  onRestored?: () => void;
+}
+
+/** Archive tab for trashed recordings: restore them, or delete them before the 30 days are up */
+export const RecordingTrash = ({ userId, onRestored }: RecordingTrashProps) => {
+  const { toast } = useToast();
+  const [recordings, setRecordings] = useState<TrashedRecording[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+
+  const loadTrash = async () => {
+    try {
+      setRecordings(await recordingRetentionService.listTrash(userId));
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, [userId]);
+
+  const setBusy = (id: string, busy: boolean) => {
+    setBusyIds(prev => {
+      const next = new Set(prev);
+      if (busy) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleRestore = async (recording: TrashedRecording) => {
+    setBusy(recording.id, true);
+    try {
+      await recordingRetentionService.restore(recording);
+      setRecordings(prev => prev.filter(r => r.id !== recording.id));
+      toast({
+        title: 'Recording restored',
+        description: recording.deleted_reason === 'retention'
+          ? 'It had expired, so it is now kept forever.'
+          : 'It is back in your voice recordings.',
+      });
+      onRestored?.();
+    } catch (error) {
+      console.error('Failed to restore recording:', error);
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(recording.id, false);
+    }
+  };
+
+  const handleDeleteForever = async (recording: TrashedRecording) => {
+    setBusy(recording.id, true);
+    try {
+      await recordingRetentionService.deleteForever(userId, recording.id);
+      setRecordings(prev => prev.filter(r => r.id !== recording.id));
+      toast({ title: 'Recording deleted', description: 'The audio and transcript have been permanently deleted.' });
+    } catch (error) {
+      console.error('Failed to delete recording:', error);
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(recording.id, false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (recordings.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Trash2 className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-medium mb-2">Trash is empty</h3>
+        <p className="text-muted-foreground">
+          Deleted and expired recordings stay here for 30 days before they are removed for good.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 max-w-3xl">
+      <p className="text-sm text-muted-foreground">
+        Recordings in the trash are permanently deleted 30 days after they were moved here.
+      </p>
+      {recordings.map(recording => {
+        const daysLeft = Math.max(0, differenceInCalendarDays(new Date(recording.purge_after), new Date()));
+        const busy = busyIds.has(recording.id);
+        return (
+          <Card key={recording.id}>
+            <CardContent className="p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium truncate">
+                  {recording.memory_titles?.[0] || recording.conversation_summary || 'Untitled recording'}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Recorded {new Date(recording.created_at).toLocaleDateString()}
+                  {' · '}
+                  {recording.deleted_reason === 'retention' ? 'Expired' : 'Deleted'} {new Date(recording.deleted_at).toLocaleDateString()}
+                </p>
+                <Badge variant={daysLeft <= 3 ? 'destructive' : 'outline'} className="text-xs">
+                  {daysLeft === 0 ? 'Deleted at the next cleanup' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                </Badge>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button variant="outline" size="sm" onClick={() => handleRestore(recording)} disabled={busy}>
+                  {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+                  {!busy && 'Restore'}
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700" disabled={busy}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete Forever?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The audio file and transcript will be permanently deleted. This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleDeleteForever(recording)}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        Delete Forever
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { TranscriptSegment } from '@/types/speech';
+
+interface SyncedTranscriptProps {
+  segments: TranscriptSegment[];
+  currentTime: number; // Seconds
+  onSeek: (seconds: number) => void;
+  matchIndices?: number[]; // Segments to highlight as search matches
+  className?: string;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/** Transcript that follows playback; clicking an utterance plays from there */
+export const SyncedTranscript = ({ segments, currentTime, onSeek, matchIndices = [], className = '' }: SyncedTranscriptProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // The segment being heard: the last one that has started
+  let activeIndex = -1;
+  segments.forEach((segment, index) => {
+    if (segment.start <= currentTime) activeIndex = index;
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!container || !active) return;
+    // Scroll the transcript box only, not the page
+    const top = active.offsetTop - container.offsetTop;
+    if (top < container.scrollTop || top + active.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: Math.max(0, top - container.clientHeight / 3), behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  if (segments.length === 0) return null;
+
+  return (
+    <div ref={containerRef} className={`max-h-48 overflow-y-auto space-y-1 text-sm ${className}`}>
+      {segments.map((segment, index) => {
+        const isActive = index === activeIndex;
+        const isMatch = matchIndices.includes(index);
+        return (
+          <button
+            key={index}
+            ref={isActive ? activeRef : undefined}
+            type="button"
+            onClick={() => onSeek(segment.start)}
+            className={`w-full text-left p-2 rounded transition-colors ${
+              isActive
+                ? 'bg-primary/10 border border-primary/30'
+                : isMatch
+                  ? 'bg-yellow-100 dark:bg-yellow-900/30 border border-yellow-300'
+                  : 'hover:bg-muted/50 border border-transparent'
+            }`}
+          >
+            <div className="flex items-start gap-2">
+              <Badge variant={segment.speaker === 'user' ? 'default' : 'secondary'} className="text-xs flex-shrink-0">
+                {segment.speaker === 'user' ? 'You' : 'Solin'}
+              </Badge>
+              <span className="text-xs text-muted-foreground flex-shrink-0 tabular-nums">
+                {formatTime(segment.start)}
+              </span>
+              <span className={isMatch ? 'font-medium' : ''}>{segment.text}</span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
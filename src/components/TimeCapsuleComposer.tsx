@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Lock } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ConnectedUser } from '@/types/social';
+import { TimeCapsule, TimeCapsuleDraft, TimeCapsuleReleaseTrigger, RELEASE_TRIGGER_LABELS } from '@/types/timeCapsule';
+import { timeCapsuleService } from '@/services/timeCapsuleService';
+
+interface TimeCapsuleComposerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  capsule?: TimeCapsule | null; // Edit an existing sealed capsule
+  onSaved?: () => void;
+}
+
+interface ConnectionOption {
+  user_id: string;
+  name: string;
+}
+
+const emptyDraft = (): TimeCapsuleDraft => ({
+  title: '',
+  content: '',
+  release_trigger: 'date',
+  release_date: null,
+  recipient_user_id: null,
+  recipient_name: '',
+  recipient_phone: '',
+  recipient_birth_date: null,
+  release_age: 18,
+  trustee_user_id: null,
+});
+
+const toDraft = (capsule: TimeCapsule): TimeCapsuleDraft => ({
+  title: capsule.title,
+  content: capsule.content,
+  release_trigger: capsule.release_trigger,
+  release_date: capsule.release_date?.split('T')[0] ?? null,
+  recipient_user_id: capsule.recipient_user_id,
+  recipient_name: capsule.recipient_name ?? '',
+  recipient_phone: capsule.recipient_phone ?? '',
+  recipient_birth_date: capsule.recipient_birth_date,
+  release_age: capsule.release_age ?? 18,
+  trustee_user_id: capsule.trustee_user_id,
+});
+
+const todayIso = () => new Date().toISOString().split('T')[0];
+
+export const TimeCapsuleComposer = ({ open, onOpenChange, capsule, onSaved }: TimeCapsuleComposerProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TimeCapsuleDraft>(emptyDraft);
+  const [recipientMode, setRecipientMode] = useState<'connection' | 'other'>('connection');
+  const [connections, setConnections] = useState<ConnectionOption[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(capsule ? toDraft(capsule) : emptyDraft());
+    setRecipientMode(capsule && !capsule.recipient_user_id ? 'other' : 'connection');
+    loadConnections();
+  }, [open, capsule?.id]);
+
+  const loadConnections = async () => {
+    if (!user?.id) return;
+
+    const { data: connectedUsers, error } = await supabase.rpc('get_connected_users', {
+      target_user_id: user.id
+    });
+    if (error) {
+      console.error('Error loading connections:', error);
+      return;
+    }
+
+    const userIds = (connectedUsers as ConnectedUser[])?.map(u => u.user_id) || [];
+    if (userIds.length === 0) {
+      setConnections([]);
+      setRecipientMode('other');
+      return;
+    }
+
+    const { data: profiles } = await supabase
+      .from('user_profiles')
+      .select('user_id, display_name, preferred_name')
+      .in('user_id', userIds);
+    const profileMap = new Map(profiles?.map(p => [p.user_id, p]));
+
+    setConnections((connectedUsers as ConnectedUser[]).map(conn => {
+      const profile = profileMap.get(conn.user_id);
+      return {
+        user_id: conn.user_id,
+        name: profile?.preferred_name || profile?.display_name || conn.relationship_label || 'Connection',
+      };
+    }));
+  };
+
+  const update = (changes: Partial<TimeCapsuleDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const validationError = (): string | null => {
+    if (!draft.title.trim() || !draft.content.trim()) return 'Give your time capsule a title and a message.';
+    if (recipientMode === 'connection' && !draft.recipient_user_id) return 'Choose who the time capsule is for.';
+    if (recipientMode === 'other' && !draft.recipient_name?.trim()) return "Enter the recipient's name.";
+    if (draft.release_trigger === 'date' && (!draft.release_date || draft.release_date <= todayIso())) {
+      return 'Choose a release date in the future.';
+    }
+    if (draft.release_trigger === 'recipient_age' && (!draft.recipient_birth_date || !draft.release_age)) {
+      return "Enter the recipient's birth date and the age at which it opens.";
+    }
+    if (draft.release_trigger === 'on_passing' && !draft.trustee_user_id) {
+      return 'Choose a trustee who will release it.';
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    const problem = validationError();
+    if (problem) {
+      toast({ title: 'Almost there', description: problem, variant: 'destructive' });
+      return;
+    }
+
+    const payload: TimeCapsuleDraft = recipientMode === 'connection'
+      ? { ...draft, recipient_name: null, recipient_phone: null }
+      : { ...draft, recipient_user_id: null };
+
+    setIsSaving(true);
+    try {
+      if (capsule) {
+        await timeCapsuleService.updateCapsule(capsule.id, payload);
+      } else {
+        await timeCapsuleService.createCapsule(user.id, payload);
+      }
+      toast({
+        title: capsule ? 'Time capsule updated' : 'Time capsule sealed',
+        description: 'It stays hidden until it is released.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving time capsule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the time capsule',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const trusteeCandidates = connections.filter(conn => conn.user_id !== draft.recipient_user_id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="w-5 h-5" />
+            {capsule ? 'Edit time capsule' : 'New time capsule'}
+          </DialogTitle>
+          <DialogDescription>
+            A sealed message for someone special. It stays hidden from Solin, your timeline and your visitor page until it is released.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="capsule-title">Title</Label>
+            <Input
+              id="capsule-title"
+              value={draft.title}
+              onChange={event => update({ title: event.target.value })}
+              placeholder="For your 18th birthday"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="capsule-content">Message</Label>
+            <Textarea
+              id="capsule-content"
+              value={draft.content}
+              onChange={event => update({ content: event.target.value })}
+              rows={8}
+              placeholder="What do you want them to know when they open this?"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Recipient</Label>
+            <RadioGroup
+              value={recipientMode}
+              onValueChange={value => setRecipientMode(value as 'connection' | 'other')}
+              className="flex gap-6"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="connection" id="recipient-connection" disabled={connections.length === 0} />
+                <Label htmlFor="recipient-connection" className="font-normal">A connection</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="other" id="recipient-other" />
+                <Label htmlFor="recipient-other" className="font-normal">Someone else</Label>
+              </div>
+            </RadioGroup>
+
+            {recipientMode === 'connection' ? (
+              <Select
+                value={draft.recipient_user_id ?? undefined}
+                onValueChange={value => update({ recipient_user_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a connection" />
+                </SelectTrigger>
+                <SelectContent>
+                  {connections.map(conn => (
+                    <SelectItem key={conn.user_id} value={conn.user_id}>{conn.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  value={draft.recipient_name ?? ''}
+                  onChange={event => update({ recipient_name: event.target.value })}
+                  placeholder="Name"
+                />
+                <Input
+                  value={draft.recipient_phone ?? ''}
+                  onChange={event => update({ recipient_phone: event.target.value })}
+                  placeholder="WhatsApp number (optional)"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Release</Label>
+            <Select
+              value={draft.release_trigger}
+              onValueChange={value => update({ release_trigger: value as TimeCapsuleReleaseTrigger })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RELEASE_TRIGGER_LABELS) as TimeCapsuleReleaseTrigger[]).map(trigger => (
+                  <SelectItem key={trigger} value={trigger}>{RELEASE_TRIGGER_LABELS[trigger]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {draft.release_trigger === 'date' && (
+              <Input
+                type="date"
+                min={todayIso()}
+                value={draft.release_date ?? ''}
+                onChange={event => update({ release_date: event.target.value || null })}
+              />
+            )}
+
+            {draft.release_trigger === 'recipient_age' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="capsule-birth-date" className="text-xs text-muted-foreground font-normal">Recipient's birth date</Label>
+                  <Input
+                    id="capsule-birth-date"
+                    type="date"
+                    value={draft.recipient_birth_date ?? ''}
+                    onChange={event => update({ recipient_birth_date: event.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="capsule-age" className="text-xs text-muted-foreground font-normal">Opens at age</Label>
+                  <Input
+                    id="capsule-age"
+                    type="number"
+                    min={1}
+                    max={120}
+                    value={draft.release_age ?? ''}
+                    onChange={event => update({ release_age: Number(event.target.value) || null })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {draft.release_trigger === 'on_passing' && (
+              <div className="space-y-2">
+                <Select
+                  value={draft.trustee_user_id ?? undefined}
+                  onValueChange={value => update({ trustee_user_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a trustee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {trusteeCandidates.map(conn => (
+                      <SelectItem key={conn.user_id} value={conn.user_id}>{conn.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Your trustee can see that this capsule exists, but not what it says. They release it after your passing.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Lock className="w-4 h-4 mr-2" />
+            )}
+            {capsule ? 'Save' : 'Seal capsule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,48 +1,79 @@
-import React, { useEffect, useState } from 'react';
-import { ElevenLabsVoiceAgent } from '@/components/ElevenLabsVoiceAgent';
-import { OpenAIRealtimeAgent } from '@/components/OpenAIRealtimeAgent';
-import { VapiAgent } from '@/components/VapiAgent';
-import { configurationService, VoiceProvider } from '@/services/configurationService';
-import { Card, CardContent } from '@/components/ui/card';
+import { useCallback, useEffect, useState } from 'react';
+import { configurationService } from '@/services/configurationService';
+import { resolveVoiceProvider, voiceProviderProblem } from '@/services/voiceAgentSession';
+import { useVoiceAgentSession } from '@/hooks/useVoiceAgentSession';
+import { VoiceClientTools, VoiceSessionProvider } from '@/types/voiceAgent';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, Loader2, Mic, MicOff } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
 
 interface VoiceProviderWrapperProps {
+  clientTools?: VoiceClientTools;
   onSpeakingChange?: (isSpeaking: boolean) => void;
   onAudioStreamAvailable?: (audioStream: MediaStream) => void;
 }
 
-export function VoiceProviderWrapper({ 
-  onSpeakingChange, 
-  onAudioStreamAvailable 
+const PROVIDER_LABELS: Record<VoiceSessionProvider, string> = {
+  elevenlabs: 'ElevenLabs',
+  openai: 'OpenAI Realtime',
+  vapi: 'Vapi',
+  mock: 'Test agent',
+};
+
+/** Start / end card for a voice agent on whichever provider the admin selected */
+export function VoiceProviderWrapper({
+  clientTools,
+  onSpeakingChange,
+  onAudioStreamAvailable
 }: VoiceProviderWrapperProps) {
-  const [provider, setProvider] = useState<VoiceProvider>(configurationService.getConfig().voice_provider);
+  const { toast } = useToast();
   const [config, setConfig] = useState(configurationService.getConfig());
 
   useEffect(() => {
-    const unsubscribe = configurationService.subscribe((newConfig) => {
-      setProvider(newConfig.voice_provider);
-      setConfig(newConfig);
-    });
-
+    const unsubscribe = configurationService.subscribe(setConfig);
     return () => unsubscribe();
   }, []);
 
-  // Validate configuration
-  const isConfigValid = () => {
-    if (provider === 'elevenlabs' && !config.elevenlabs_agent_id) return false;
-    if (provider === 'vapi' && !config.vapi_assistant_id) return false;
-    return true;
-  };
+  const session = useVoiceAgentSession({
+    clientTools,
+    onSpeakingChange,
+    onAgentAudioStream: onAudioStreamAvailable,
+    onConnect: () => toast({ title: 'Connected', description: 'Voice agent is ready to chat' }),
+    onDisconnect: () => toast({ title: 'Disconnected', description: 'Voice conversation ended' }),
+    onError: (error) => toast({
+      title: 'Error',
+      description: typeof error === 'string' ? error : 'An error occurred',
+      variant: 'destructive',
+    }),
+  });
+
+  const startConversation = useCallback(async () => {
+    try {
+      await navigator.mediaDevices.getUserMedia({ audio: true });
+      await session.connect();
+    } catch (error) {
+      console.error('Failed to start conversation:', error);
+      toast({
+        title: 'Failed to connect',
+        description: error instanceof Error ? error.message : 'Could not start voice agent',
+        variant: 'destructive',
+      });
+    }
+  }, [session, toast]);
+
+  const provider = resolveVoiceProvider(config);
+  const problem = voiceProviderProblem(provider, config);
 
-  if (!isConfigValid()) {
+  if (problem) {
     return (
       <Card className="max-w-md mx-auto">
         <CardContent className="pt-6">
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              Voice provider not configured. Please configure {provider.toUpperCase()} settings in Admin panel.
+              {problem}. Please configure {PROVIDER_LABELS[provider] ?? provider} settings in Admin panel.
             </AlertDescription>
           </Alert>
         </CardContent>
@@ -50,44 +81,43 @@ export function VoiceProviderWrapper({
     );
   }
 
-  switch (provider) {
-    case 'elevenlabs':
-      return (
-        <ElevenLabsVoiceAgent
-          agentId={config.elevenlabs_agent_id}
-          onSpeakingChange={onSpeakingChange}
-          onAudioStreamAvailable={onAudioStreamAvailable}
-        />
-      );
+  const isConnected = session.status === 'connected';
+  const isConnecting = session.status === 'connecting';
 
-    case 'openai':
-      return (
-        <OpenAIRealtimeAgent
-          model={config.openai_model}
-          onSpeakingChange={onSpeakingChange}
-        />
-      );
-
-    case 'vapi':
-      return (
-        <VapiAgent
-          assistantId={config.vapi_assistant_id}
-          onSpeakingChange={onSpeakingChange}
-        />
-      );
-
-    default:
-      return (
-        <Card className="max-w-md mx-auto">
-          <CardContent className="pt-6">
-            <Alert variant="destructive">
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>
-                Unknown voice provider: {provider}
-              </AlertDescription>
-            </Alert>
-          </CardContent>
-        </Card>
-      );
-  }
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{PROVIDER_LABELS[provider]} Agent</span>
+          {session.isSpeaking ? (
+            <span className="text-sm font-normal text-muted-foreground animate-pulse">Speaking...</span>
+          ) : isConnected && (
+            <span className="text-sm font-normal text-green-500">● Connected</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isConnected ? (
+          <Button onClick={startConversation} disabled={isConnecting} size="lg" className="w-full">
+            {isConnecting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Connecting...
+              </>
+            ) : (
+              <>
+                <Mic className="mr-2 h-4 w-4" />
+                Start Conversation
+              </>
+            )}
+          </Button>
+        ) : (
+          <Button onClick={() => session.disconnect()} variant="destructive" size="lg" className="w-full">
+            <MicOff className="mr-2 h-4 w-4" />
+            End Conversation
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
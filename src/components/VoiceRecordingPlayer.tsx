@@ -1,12 +1,15 @@
 /**
  * VOICE RECORDING PLAYER COMPONENT
  * 
- * Simple audio player for voice recordings with playback controls
+ * Simple audio player for voice recordings with playback controls and,
+ * when segments are given, a transcript that follows playback
  */
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Play, Pause, Square, Volume2, Clock } from 'lucide-react';
+import { SyncedTranscript } from '@/components/SyncedTranscript';
+import { TranscriptSegment } from '@/types/speech';
 
 interface VoiceRecordingPlayerProps {
   audioUrl: string;
@@ -14,6 +17,9 @@ interface VoiceRecordingPlayerProps {
   duration?: number;
   onPlayStateChange?: (isPlaying: boolean) => void;
   className?: string;
+  segments?: TranscriptSegment[];
+  startAt?: number; // Seconds; e.g. a search match's playback offset
+  matchIndices?: number[];
 }
 
 export const VoiceRecordingPlayer: React.FC<VoiceRecordingPlayerProps> = ({
@@ -21,7 +27,10 @@ export const VoiceRecordingPlayer: React.FC<VoiceRecordingPlayerProps> = ({
   title = 'Voice Recording',
   duration = 0,
   onPlayStateChange,
-  className = ''
+  className = '',
+  segments = [],
+  startAt,
+  matchIndices
 }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
@@ -61,6 +70,17 @@ export const VoiceRecordingPlayer: React.FC<VoiceRecordingPlayerProps> = ({
     }
   };
 
+  // Play from a transcript utterance
+  const handleSeek = async (seconds: number) => {
+    if (!audioRef.current) return;
+
+    audioRef.current.currentTime = seconds;
+    setCurrentTime(seconds);
+    if (!isPlaying) {
+      await togglePlayPause();
+    }
+  };
+
   // Handle stop
   const handleStop = () => {
     if (!audioRef.current) return;
@@ -90,6 +110,13 @@ export const VoiceRecordingPlayer: React.FC<VoiceRecordingPlayerProps> = ({
       setIsLoading(true);
     };
 
+    const handleLoadedMetadata = () => {
+      if (startAt && startAt > 0) {
+        audio.currentTime = startAt;
+        setCurrentTime(startAt);
+      }
+    };
+
     const handleCanPlay = () => {
       setIsLoading(false);
       setError(null);
@@ -104,6 +131,7 @@ export const VoiceRecordingPlayer: React.FC<VoiceRecordingPlayerProps> = ({
     audio.addEventListener('timeupdate', handleTimeUpdate);
     audio.addEventListener('ended', handleEnded);
     audio.addEventListener('loadstart', handleLoadStart);
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
     audio.addEventListener('canplay', handleCanPlay);
     audio.addEventListener('error', handleError);
 
@@ -111,10 +139,11 @@ export const VoiceRecordingPlayer: React.FC<VoiceRecordingPlayerProps> = ({
       audio.removeEventListener('timeupdate', handleTimeUpdate);
       audio.removeEventListener('ended', handleEnded);
       audio.removeEventListener('loadstart', handleLoadStart);
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
       audio.removeEventListener('canplay', handleCanPlay);
       audio.removeEventListener('error', handleError);
     };
-  }, [audioUrl, onPlayStateChange]);
+  }, [audioUrl, onPlayStateChange, startAt]);
 
   // Notify parent of play state changes
   useEffect(() => {
@@ -201,6 +230,16 @@ export const VoiceRecordingPlayer: React.FC<VoiceRecordingPlayerProps> = ({
           Stop
         </Button>
       </div>
+
+      {segments.length > 0 && (
+        <SyncedTranscript
+          className="mt-3"
+          segments={segments}
+          currentTime={currentTime}
+          onSeek={handleSeek}
+          matchIndices={matchIndices}
+        />
+      )}
     </div>
   );
 };
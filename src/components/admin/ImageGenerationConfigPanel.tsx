@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+
+// Mirrors ImageGenerationConfig in supabase/functions/_shared/image-providers.ts
+type ImageProviderId = "openai" | "huggingface" | "stable_diffusion" | "placeholder";
+
+interface ImageGenerationConfig {
+  default_provider: ImageProviderId;
+  enabled_providers: ImageProviderId[];
+  openai: { model: string; quality: string };
+  huggingface: { model: string; steps: number; guidance_scale: number };
+  stable_diffusion: {
+    endpoint_url: string;
+    api: "automatic1111" | "comfyui";
+    steps: number;
+    workflow: Record<string, unknown> | null;
+    timeout_ms: number;
+  };
+}
+
+const CONFIG_KEY = "image_generation_config";
+
+const PROVIDERS: { id: ImageProviderId; label: string; description: string }[] = [
+  { id: "openai", label: "OpenAI", description: "Images API, needs OPENAI_API_KEY" },
+  { id: "huggingface", label: "Hugging Face", description: "Inference API, needs HUGGINGFACE_TOKEN" },
+  { id: "stable_diffusion", label: "Self-hosted Stable Diffusion", description: "AUTOMATIC1111 or ComfyUI endpoint" },
+  { id: "placeholder", label: "Placeholder", description: "Deterministic local image for tests" },
+];
+
+const DEFAULT_CONFIG: ImageGenerationConfig = {
+  default_provider: "openai",
+  enabled_providers: ["openai", "placeholder"],
+  openai: { model: "gpt-image-1", quality: "high" },
+  huggingface: { model: "stabilityai/stable-diffusion-xl-base-1.0", steps: 30, guidance_scale: 7.5 },
+  stable_diffusion: { endpoint_url: "", api: "automatic1111", steps: 30, workflow: null, timeout_ms: 120000 },
+};
+
+export function ImageGenerationConfigPanel() {
+  const [config, setConfig] = useState<ImageGenerationConfig>(DEFAULT_CONFIG);
+  const [workflowText, setWorkflowText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error } = await supabase
+        .from("system_configuration")
+        .select("value")
+        .eq("key", CONFIG_KEY)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error loading image generation config:", error);
+        return;
+      }
+
+      const stored = (data?.value || {}) as Partial<ImageGenerationConfig>;
+      const merged: ImageGenerationConfig = {
+        ...DEFAULT_CONFIG,
+        ...stored,
+        openai: { ...DEFAULT_CONFIG.openai, ...stored.openai },
+        huggingface: { ...DEFAULT_CONFIG.huggingface, ...stored.huggingface },
+        stable_diffusion: { ...DEFAULT_CONFIG.stable_diffusion, ...stored.stable_diffusion },
+      };
+      setConfig(merged);
+      setWorkflowText(merged.stable_diffusion.workflow ? JSON.stringify(merged.stable_diffusion.workflow, null, 2) : "");
+    };
+
+    load();
+  }, []);
+
+  const toggleProvider = (id: ImageProviderId, enabled: boolean) => {
+    setConfig((prev) => ({
+      ...prev,
+      enabled_providers: enabled
+        ? [...new Set([...prev.enabled_providers, id])]
+        : prev.enabled_providers.filter((provider) => provider !== id),
+    }));
+  };
+
+  const handleSave = async () => {
+    let workflow: Record<string, unknown> | null = null;
+    if (workflowText.trim()) {
+      try {
+        workflow = JSON.parse(workflowText);
+      } catch {
+        toast.error("ComfyUI workflow must be valid JSON");
+        return;
+      }
+    }
+
+    const value = { ...config, stable_diffusion: { ...config.stable_diffusion, workflow } };
+    setSaving(true);
+    try {
+      const { data: existing } = await supabase
+        .from("system_configuration")
+        .select("id")
+        .eq("key", CONFIG_KEY)
+        .maybeSingle();
+
+      const { error } = existing?.id
+        ? await supabase.from("system_configuration").update({ value }).eq("id", existing.id)
+        : await supabase.from("system_configuration").insert({
+            key: CONFIG_KEY,
+            value,
+            category: "ai",
+            description: "Image generation provider for memory reconstruction and identity previews",
+          });
+
+      if (error) throw error;
+      toast.success("Image generation settings saved");
+    } catch (error) {
+      console.error("Error saving config:", error);
+      toast.error("Failed to save image generation settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Image Generation</CardTitle>
+        <CardDescription>
+          Which backend draws memory reconstructions and identity previews. Requests may pick any enabled provider.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Default Provider</Label>
+          <Select
+            value={config.default_provider}
+            onValueChange={(value) => setConfig({ ...config, default_provider: value as ImageProviderId })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROVIDERS.map((provider) => (
+                <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Enabled for Per-Request Selection</Label>
+          {PROVIDERS.map((provider) => (
+            <div key={provider.id} className="flex items-center justify-between space-x-2">
+              <div>
+                <Label htmlFor={`provider-${provider.id}`} className="text-sm font-normal">{provider.label}</Label>
+                <p className="text-xs text-muted-foreground">{provider.description}</p>
+              </div>
+              <Switch
+                id={`provider-${provider.id}`}
+                checked={config.enabled_providers.includes(provider.id)}
+                onCheckedChange={(checked) => toggleProvider(provider.id, checked)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="openai-model">OpenAI Model</Label>
+            <Input
+              id="openai-model"
+              value={config.openai.model}
+              onChange={(e) => setConfig({ ...config, openai: { ...config.openai, model: e.target.value } })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hf-model">Hugging Face Model</Label>
+            <Input
+              id="hf-model"
+              value={config.huggingface.model}
+              onChange={(e) => setConfig({ ...config, huggingface: { ...config.huggingface, model: e.target.value } })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <Label>Self-hosted Stable Diffusion</Label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sd-endpoint" className="text-sm font-normal">Endpoint URL</Label>
+              <Input
+                id="sd-endpoint"
+                placeholder="https://sd.example.com"
+                value={config.stable_diffusion.endpoint_url}
+                onChange={(e) => setConfig({
+                  ...config,
+                  stable_diffusion: { ...config.stable_diffusion, endpoint_url: e.target.value },
+                })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-normal">API</Label>
+              <Select
+                value={config.stable_diffusion.api}
+                onValueChange={(value) => setConfig({
+                  ...config,
+                  stable_diffusion: { ...config.stable_diffusion, api: value as "automatic1111" | "comfyui" },
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="automatic1111">AUTOMATIC1111 (/sdapi/v1/txt2img)</SelectItem>
+                  <SelectItem value="comfyui">ComfyUI (/prompt)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {config.stable_diffusion.api === "comfyui" && (
+            <div className="space-y-2">
+              <Label htmlFor="sd-workflow" className="text-sm font-normal">ComfyUI Workflow (API format)</Label>
+              <Textarea
+                id="sd-workflow"
+                rows={8}
+                className="font-mono text-xs"
+                placeholder='Use "{{prompt}}", "{{negative_prompt}}", "{{seed}}", "{{width}}" and "{{height}}" as placeholders'
+                value={workflowText}
+                onChange={(e) => setWorkflowText(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <Button onClick={handleSave} disabled={saving} className="w-full">
+          {saving ? "Saving..." : "Save Image Generation Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
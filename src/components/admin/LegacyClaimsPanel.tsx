@@ -0,0 +1,153 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Check, FileText, RefreshCw, X } from "lucide-react";
+import { legacyService } from "@/services/legacyService";
+import { LegacyClaim, LEGACY_CLAIM_TYPE_LABELS } from "@/types/legacy";
+
+type PendingClaim = LegacyClaim & { owner_name: string | null; claimant_name: string | null };
+
+/**
+ * Pending legacy claims. Approving hands the owner's story over to their
+ * legacy contacts with the permissions the owner chose; contacts are told
+ * about the decision by the legacy-access function.
+ */
+export const LegacyClaimsPanel = () => {
+  const [claims, setClaims] = useState<PendingClaim[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  const fetchClaims = async () => {
+    setLoading(true);
+    try {
+      setClaims(await legacyService.getPendingClaims());
+    } catch (error) {
+      console.error('Error fetching legacy claims:', error);
+      toast.error("Failed to load legacy claims");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchClaims();
+  }, []);
+
+  const openEvidence = async (path: string) => {
+    const url = await legacyService.getEvidenceUrl(path);
+    if (url) {
+      window.open(url, '_blank', 'noopener');
+    } else {
+      toast.error("Could not open the document");
+    }
+  };
+
+  const review = async (claim: PendingClaim, approve: boolean) => {
+    setReviewing(claim.id);
+    try {
+      await legacyService.reviewClaim(claim.id, approve, notes[claim.id] || '');
+      setClaims(current => current.filter(c => c.id !== claim.id));
+      toast.success(approve ? "Claim approved, access handed over" : "Claim rejected");
+    } catch (error) {
+      console.error('Error reviewing legacy claim:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to review the claim");
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Legacy Claims</CardTitle>
+            <CardDescription>
+              {claims.length} pending {claims.length === 1 ? 'claim' : 'claims'} to review
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchClaims}
+            disabled={loading}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : claims.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No pending claims</div>
+        ) : (
+          claims.map((claim) => (
+            <div key={claim.id} className="rounded-md border p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">
+                    {claim.owner_name || claim.owner_user_id}: {LEGACY_CLAIM_TYPE_LABELS[claim.claim_type].toLowerCase()}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {claim.source === 'check_in_switch'
+                      ? 'Raised by the check-in switch'
+                      : `Filed by ${claim.claimant_name || claim.claimant_user_id}`}
+                    {' · '}
+                    {new Date(claim.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <Badge variant="secondary">{claim.source === 'check_in_switch' ? 'switch' : 'contact'}</Badge>
+              </div>
+
+              {claim.statement && <p className="text-sm whitespace-pre-wrap">{claim.statement}</p>}
+
+              {claim.evidence_paths.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {claim.evidence_paths.map((path) => (
+                    <Button key={path} variant="outline" size="sm" onClick={() => openEvidence(path)}>
+                      <FileText className="w-4 h-4 mr-2" />
+                      {path.split('/').pop()}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              <Textarea
+                value={notes[claim.id] || ''}
+                onChange={(event) => setNotes(current => ({ ...current, [claim.id]: event.target.value }))}
+                placeholder="Review notes (shown to the claimant if rejected)"
+                rows={2}
+              />
+
+              <div className="flex gap-2 justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => review(claim, false)}
+                  disabled={reviewing === claim.id}
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => review(claim, true)}
+                  disabled={reviewing === claim.id}
+                >
+                  <Check className="w-4 h-4 mr-2" />
+                  Approve
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { SynthesisProviderId, TranscriptionProviderId } from "@/types/speech";
+
+// Mirrors SpeechConfig in supabase/functions/_shared/speech-providers.ts
+interface SpeechConfig {
+  transcription_providers: TranscriptionProviderId[];
+  synthesis_providers: SynthesisProviderId[];
+  transcribe_recordings: boolean;
+  language: string | null;
+  openai: { model: string };
+  whisper: { endpoint_url: string; api: "whisper_cpp" | "openai"; model: string; timeout_ms: number };
+  elevenlabs: { model: string; voice_id: string };
+  piper: { endpoint_url: string; api: "piper" | "openai"; voice: string; timeout_ms: number };
+}
+
+const CONFIG_KEY = "speech_config";
+const NONE = "none";
+
+const TRANSCRIPTION_PROVIDERS: { id: TranscriptionProviderId; label: string }[] = [
+  { id: "openai", label: "OpenAI Whisper (needs OPENAI_API_KEY)" },
+  { id: "whisper", label: "Self-hosted Whisper" },
+];
+
+const SYNTHESIS_PROVIDERS: { id: SynthesisProviderId; label: string }[] = [
+  { id: "elevenlabs", label: "ElevenLabs (needs ELEVENLABS_API_KEY)" },
+  { id: "piper", label: "Self-hosted Piper" },
+];
+
+const DEFAULT_CONFIG: SpeechConfig = {
+  transcription_providers: ["openai"],
+  synthesis_providers: ["elevenlabs"],
+  transcribe_recordings: true,
+  language: null,
+  openai: { model: "whisper-1" },
+  whisper: { endpoint_url: "", api: "whisper_cpp", model: "base.en", timeout_ms: 120000 },
+  elevenlabs: { model: "eleven_turbo_v2_5", voice_id: "9BWtsMINqrJLrRacOk9x" },
+  piper: { endpoint_url: "", api: "piper", voice: "en_GB-jenny_dioco-medium", timeout_ms: 60000 },
+};
+
+/** Primary and fallback picker over an ordered provider list */
+function ProviderOrder<Id extends string>({
+  label,
+  providers,
+  value,
+  onChange,
+}: {
+  label: string;
+  providers: { id: Id; label: string }[];
+  value: Id[];
+  onChange: (value: Id[]) => void;
+}) {
+  const [primary, fallback] = value;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>{label}</Label>
+        <Select
+          value={primary}
+          onValueChange={(id) => onChange([id as Id, ...(fallback && fallback !== id ? [fallback] : [])])}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {providers.map((provider) => (
+              <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Fallback</Label>
+        <Select
+          value={fallback ?? NONE}
+          onValueChange={(id) => onChange(id === NONE ? [primary] : [primary, id as Id])}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>None</SelectItem>
+            {providers.filter((provider) => provider.id !== primary).map((provider) => (
+              <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+export function SpeechConfigPanel() {
+  const [config, setConfig] = useState<SpeechConfig>(DEFAULT_CONFIG);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error } = await supabase
+        .from("system_configuration")
+        .select("value")
+        .eq("key", CONFIG_KEY)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error loading speech config:", error);
+        return;
+      }
+
+      const stored = (data?.value || {}) as Partial<SpeechConfig>;
+      setConfig({
+        ...DEFAULT_CONFIG,
+        ...stored,
+        openai: { ...DEFAULT_CONFIG.openai, ...stored.openai },
+        whisper: { ...DEFAULT_CONFIG.whisper, ...stored.whisper },
+        elevenlabs: { ...DEFAULT_CONFIG.elevenlabs, ...stored.elevenlabs },
+        piper: { ...DEFAULT_CONFIG.piper, ...stored.piper },
+      });
+    };
+
+    load();
+  }, []);
+
+  const handleSave = async () => {
+    if (config.transcription_providers.includes("whisper") && !config.whisper.endpoint_url.trim()) {
+      toast.error("Enter the self-hosted Whisper endpoint URL");
+      return;
+    }
+    if (config.synthesis_providers.includes("piper") && !config.piper.endpoint_url.trim()) {
+      toast.error("Enter the self-hosted Piper endpoint URL");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: existing } = await supabase
+        .from("system_configuration")
+        .select("id")
+        .eq("key", CONFIG_KEY)
+        .maybeSingle();
+
+      const { error } = existing?.id
+        ? await supabase.from("system_configuration").update({ value: config }).eq("id", existing.id)
+        : await supabase.from("system_configuration").insert({
+            key: CONFIG_KEY,
+            value: config,
+            category: "ai",
+            description: "Speech-to-text and text-to-speech providers for recordings, WhatsApp voice notes and Solin's voice",
+          });
+
+      if (error) throw error;
+      toast.success("Speech settings saved");
+    } catch (error) {
+      console.error("Error saving config:", error);
+      toast.error("Failed to save speech settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Speech</CardTitle>
+        <CardDescription>
+          Transcription of recordings and WhatsApp voice notes, and the voice Solin speaks with. The fallback is
+          tried when the primary fails; the browser's own voice is the last resort for speech in the app.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ProviderOrder
+          label="Transcription Provider"
+          providers={TRANSCRIPTION_PROVIDERS}
+          value={config.transcription_providers}
+          onChange={(value) => setConfig({ ...config, transcription_providers: value })}
+        />
+
+        <ProviderOrder
+          label="Speech Provider"
+          providers={SYNTHESIS_PROVIDERS}
+          value={config.synthesis_providers}
+          onChange={(value) => setConfig({ ...config, synthesis_providers: value })}
+        />
+
+        <div className="flex items-center justify-between space-x-2">
+          <div>
+            <Label htmlFor="transcribe-recordings" className="text-sm font-normal">Transcribe new recordings</Label>
+            <p className="text-xs text-muted-foreground">Stores word-level timestamps for conversation recordings</p>
+          </div>
+          <Switch
+            id="transcribe-recordings"
+            checked={config.transcribe_recordings}
+            onCheckedChange={(checked) => setConfig({ ...config, transcribe_recordings: checked })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="speech-language">Language Hint</Label>
+            <Input
+              id="speech-language"
+              placeholder="Auto-detect"
+              value={config.language ?? ""}
+              onChange={(e) => setConfig({ ...config, language: e.target.value.trim() || null })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="elevenlabs-model">ElevenLabs Model</Label>
+            <Input
+              id="elevenlabs-model"
+              value={config.elevenlabs.model}
+              onChange={(e) => setConfig({ ...config, elevenlabs: { ...config.elevenlabs, model: e.target.value } })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <Label>Self-hosted Whisper</Label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="whisper-endpoint" className="text-sm font-normal">Endpoint URL</Label>
+              <Input
+                id="whisper-endpoint"
+                placeholder="https://whisper.example.com"
+                value={config.whisper.endpoint_url}
+                onChange={(e) => setConfig({ ...config, whisper: { ...config.whisper, endpoint_url: e.target.value } })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-normal">API</Label>
+              <Select
+                value={config.whisper.api}
+                onValueChange={(value) => setConfig({
+                  ...config,
+                  whisper: { ...config.whisper, api: value as "whisper_cpp" | "openai" },
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="whisper_cpp">whisper.cpp server (/inference)</SelectItem>
+                  <SelectItem value="openai">OpenAI-compatible (/v1/audio/transcriptions)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="whisper-model" className="text-sm font-normal">Model</Label>
+              <Input
+                id="whisper-model"
+                value={config.whisper.model}
+                onChange={(e) => setConfig({ ...config, whisper: { ...config.whisper, model: e.target.value } })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <Label>Self-hosted Piper</Label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="piper-endpoint" className="text-sm font-normal">Endpoint URL</Label>
+              <Input
+                id="piper-endpoint"
+                placeholder="https://piper.example.com"
+                value={config.piper.endpoint_url}
+                onChange={(e) => setConfig({ ...config, piper: { ...config.piper, endpoint_url: e.target.value } })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-normal">API</Label>
+              <Select
+                value={config.piper.api}
+                onValueChange={(value) => setConfig({
+                  ...config,
+                  piper: { ...config.piper, api: value as "piper" | "openai" },
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="piper">Piper HTTP server (WAV)</SelectItem>
+                  <SelectItem value="openai">OpenAI-compatible (/v1/audio/speech, MP3)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="piper-voice" className="text-sm font-normal">Voice</Label>
+              <Input
+                id="piper-voice"
+                value={config.piper.voice}
+                onChange={(e) => setConfig({ ...config, piper: { ...config.piper, voice: e.target.value } })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            WhatsApp does not accept WAV, so spoken WhatsApp replies need the OpenAI-compatible API.
+          </p>
+        </div>
+
+        <Button onClick={handleSave} disabled={saving} className="w-full">
+          {saving ? "Saving..." : "Save Speech Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
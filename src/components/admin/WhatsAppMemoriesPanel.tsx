@@ -1,24 +1,177 @@
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
 import { useWhatsAppMemories } from "@/hooks/useWhatsAppMemories";
-import { Calendar, MapPin, Tag, RefreshCw, CheckCircle, AlertCircle } from "lucide-react";
+import { messagingChannelService } from "@/services/messagingChannelService";
+import { MessagingWebhookEvent, WebhookEventStatus } from "@/types/messagingChannel";
+import { Calendar, MapPin, Tag, RefreshCw, CheckCircle, AlertCircle, Inbox, RotateCcw } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
+const EVENT_FILTERS: { status: WebhookEventStatus | null; label: string }[] = [
+  { status: 'failed', label: 'Failed' },
+  { status: 'processing', label: 'Processing' },
+  { status: null, label: 'All' },
+];
+
+/**
+ * Webhook inbox: every verified delivery from the messaging providers.
+ * Failed events are retried automatically with backoff; after the last
+ * attempt (or once the cause is fixed) they can be replayed from here.
+ */
+function WebhookInbox() {
+  const [filter, setFilter] = useState<WebhookEventStatus | null>('failed');
+  const [events, setEvents] = useState<MessagingWebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    try {
+      setEvents(await messagingChannelService.getWebhookEvents(filter ?? undefined));
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+      toast.error("Failed to load webhook events");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [filter]);
+
+  const replay = async (event: MessagingWebhookEvent) => {
+    setReplaying(event.id);
+    try {
+      const processed = await messagingChannelService.replayWebhookEvent(event.id);
+      if (processed) {
+        toast.success("Event processed");
+      } else {
+        toast.error("The event failed again; see its error");
+      }
+      await fetchEvents();
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to replay the event");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="w-5 h-5" />
+              Webhook Inbox
+            </CardTitle>
+            <CardDescription>
+              Inbound messages as the providers delivered them. Failed ones are retried automatically.
+            </CardDescription>
+          </div>
+          <Button onClick={fetchEvents} disabled={loading} variant="outline" size="sm">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <div className="flex gap-2 pt-2">
+          {EVENT_FILTERS.map(option => (
+            <Button
+              key={option.label}
+              variant={filter === option.status ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFilter(option.status)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && !events.length ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading events...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No events</p>
+        ) : (
+          <div className="space-y-3 max-h-[600px] overflow-y-auto">
+            {events.map(event => (
+              <div key={event.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <Badge variant="outline" className="text-xs">{event.channel}</Badge>
+                      <span className="truncate">{event.from_address}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {event.provider} · {event.provider_message_id} · received{' '}
+                      {formatDistanceToNow(new Date(event.received_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge variant={event.status === 'failed' ? 'destructive' : 'secondary'} className="text-xs">
+                      {event.status} · {event.attempts} {event.attempts === 1 ? 'attempt' : 'attempts'}
+                    </Badge>
+                    {event.status !== 'processed' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => replay(event)}
+                        disabled={replaying === event.id}
+                      >
+                        <RotateCcw className={`w-3 h-3 mr-1 ${replaying === event.id ? 'animate-spin' : ''}`} />
+                        Replay
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {event.last_error && (
+                  <p className="text-xs text-destructive break-words">
+                    <AlertCircle className="w-3 h-3 inline mr-1" />
+                    {event.last_error}
+                  </p>
+                )}
+                {event.status === 'failed' && (
+                  <p className="text-xs text-muted-foreground">
+                    {event.next_attempt_at
+                      ? `Next retry ${formatDistanceToNow(new Date(event.next_attempt_at), { addSuffix: true })}`
+                      : 'No retries left'}
+                  </p>
+                )}
+
+                <details className="text-xs">
+                  <summary className="cursor-pointer text-muted-foreground">Payload</summary>
+                  <pre className="mt-2 p-2 rounded bg-muted overflow-x-auto whitespace-pre-wrap break-all max-h-64">
+                    {event.raw_body}
+                  </pre>
+                </details>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function WhatsAppMemoriesPanel() {
   const { memories, loading, error, refresh } = useWhatsAppMemories();
 
   return (
+    <div className="space-y-6">
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
         <div>
           <CardTitle className="flex items-center gap-2">
             <Tag className="w-5 h-5" />
-            WhatsApp Memories
+            Messaging Memories
           </CardTitle>
           <CardDescription>
-            Memories created via WhatsApp conversations
+            Memories created in WhatsApp, SMS, Telegram and email conversations
           </CardDescription>
         </div>
         <Button onClick={refresh} disabled={loading} variant="outline" size="sm">
@@ -42,7 +195,7 @@ export function WhatsAppMemoriesPanel() {
         ) : memories.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <Tag className="w-12 h-12 mx-auto mb-2 opacity-50" />
-            <p className="text-sm">No WhatsApp memories yet</p>
+            <p className="text-sm">No messaging memories yet</p>
             <p className="text-xs mt-1">Memories will appear here after conversations with Solin</p>
           </div>
         ) : (
@@ -157,5 +310,8 @@ export function WhatsAppMemoriesPanel() {
         )}
       </CardContent>
     </Card>
+
+    <WebhookInbox />
+    </div>
   );
 }
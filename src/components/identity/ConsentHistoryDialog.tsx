@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Loader2, History } from 'lucide-react';
+import { identityTrainingService } from '@/services/identityTrainingService';
+import { CONSENT_EVENT_LABELS, IdentityConsentEvent } from '@/types/identityTraining';
+
+interface ConsentHistoryDialogProps {
+  identityId: string | null;
+  identityName?: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ConsentHistoryList = ({ events }: { events: IdentityConsentEvent[] }) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing recorded yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y">
+      {events.map(event => {
+        const reason = typeof event.details?.reason === 'string' ? event.details.reason : null;
+        const guardian = typeof event.details?.guardian_name === 'string' ? event.details.guardian_name : null;
+        return (
+          <li key={event.id} className="py-2 flex items-start justify-between gap-4 text-sm">
+            <div>
+              <p className={event.event === 'use_blocked' || event.event === 'revoked' ? 'text-destructive' : ''}>
+                {CONSENT_EVENT_LABELS[event.event]}
+                {event.identity_name && <span className="text-muted-foreground"> · {event.identity_name}</span>}
+              </p>
+              {guardian && <p className="text-xs text-muted-foreground">Consent given by {guardian}</p>}
+              {reason && <p className="text-xs text-muted-foreground">“{reason}”</p>}
+            </div>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {format(new Date(event.created_at), 'd MMM yyyy, HH:mm')}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+/** The audit log of consent decisions and uses for one identity */
+export const ConsentHistoryDialog = ({ identityId, identityName, onOpenChange }: ConsentHistoryDialogProps) => {
+  const [events, setEvents] = useState<IdentityConsentEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!identityId) return;
+
+    setIsLoading(true);
+    identityTrainingService.getConsentHistory(identityId)
+      .then(setEvents)
+      .catch(error => console.error('Error loading consent history:', error))
+      .finally(() => setIsLoading(false));
+  }, [identityId]);
+
+  return (
+    <Dialog open={!!identityId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Consent history
+          </DialogTitle>
+          <DialogDescription>
+            Every consent decision and use of {identityName || 'this identity'}. The person pictured sees this too if they use Solon.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ConsentHistoryList events={events} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
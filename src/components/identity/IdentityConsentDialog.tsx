@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { identityTrainingService } from '@/services/identityTrainingService';
+import { IdentityConsentInput, TrainedIdentity } from '@/types/identityTraining';
+import { consentInputFrom, consentInputProblem, emptyConsentInput } from '@/lib/identityConsent';
+import { IdentityConsentForm } from './IdentityConsentForm';
+
+interface IdentityConsentDialogProps {
+  identity: TrainedIdentity | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+/** Record consent for an identity that has none, or renew an expired or revoked one */
+export const IdentityConsentDialog = ({ identity, onOpenChange, onSaved }: IdentityConsentDialogProps) => {
+  const [input, setInput] = useState<IdentityConsentInput>(emptyConsentInput);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!identity) return;
+    setInput(identity.consent ? consentInputFrom(identity.consent) : emptyConsentInput());
+  }, [identity?.id]);
+
+  const handleSave = async () => {
+    if (!identity) return;
+
+    const problem = consentInputProblem(input, identity.consent);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const consent = await identityTrainingService.recordConsent(identity.id, input);
+      toast.success(consent.status === 'pending'
+        ? `Asked ${consent.subject_name} to approve`
+        : 'Consent recorded');
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error recording consent:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record consent');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!identity} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            {identity?.consent ? 'Renew consent' : 'Record consent'}
+          </DialogTitle>
+          <DialogDescription>
+            {identity?.name} can only be used in previews and reconstructions while consent is in place.
+          </DialogDescription>
+        </DialogHeader>
+
+        <IdentityConsentForm value={input} onChange={setInput} disabled={isSaving} />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save consent
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
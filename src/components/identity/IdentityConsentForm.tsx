@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { addMonths } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ConnectedUser } from '@/types/social';
+import { DEFAULT_EXPIRY_MONTHS } from '@/lib/identityConsent';
+import { CONSENT_SUBJECT_LABELS, ConsentSubjectType, IdentityConsentInput } from '@/types/identityTraining';
+
+interface IdentityConsentFormProps {
+  value: IdentityConsentInput;
+  onChange: (value: IdentityConsentInput) => void;
+  disabled?: boolean;
+}
+
+interface ConnectionOption {
+  user_id: string;
+  name: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { months: 6, label: '6 months' },
+  { months: 12, label: '1 year' },
+  { months: 24, label: '2 years' },
+  { months: 60, label: '5 years' },
+];
+
+export const IdentityConsentForm = ({ value, onChange, disabled }: IdentityConsentFormProps) => {
+  const { user } = useAuth();
+  const [connections, setConnections] = useState<ConnectionOption[]>([]);
+  const [expiryMonths, setExpiryMonths] = useState(DEFAULT_EXPIRY_MONTHS);
+
+  useEffect(() => {
+    if (value.subject_type !== 'connected_user' || !user?.id) return;
+
+    const loadConnections = async () => {
+      const { data: connectedUsers, error } = await supabase.rpc('get_connected_users', {
+        target_user_id: user.id
+      });
+      if (error) {
+        console.error('Error loading connections:', error);
+        return;
+      }
+
+      const userIds = (connectedUsers as ConnectedUser[])?.map(u => u.user_id) || [];
+      if (userIds.length === 0) {
+        setConnections([]);
+        return;
+      }
+
+      const { data: profiles } = await supabase
+        .from('user_profiles')
+        .select('user_id, display_name, preferred_name')
+        .in('user_id', userIds);
+      const profileMap = new Map(profiles?.map(p => [p.user_id, p]));
+
+      setConnections((connectedUsers as ConnectedUser[]).map(conn => {
+        const profile = profileMap.get(conn.user_id);
+        return {
+          user_id: conn.user_id,
+          name: profile?.preferred_name || profile?.display_name || conn.relationship_label || 'Connection',
+        };
+      }));
+    };
+
+    loadConnections();
+  }, [value.subject_type, user?.id]);
+
+  const update = (changes: Partial<IdentityConsentInput>) => onChange({ ...value, ...changes });
+
+  const handleSubjectType = (subjectType: ConsentSubjectType) => {
+    update({
+      subject_type: subjectType,
+      subject_user_id: null,
+      guardian_name: null,
+      guardian_relationship: null,
+    });
+  };
+
+  const handleSelectConnection = (userId: string) => {
+    const connection = connections.find(conn => conn.user_id === userId);
+    update({
+      subject_user_id: userId,
+      subject_name: value.subject_name.trim() ? value.subject_name : connection?.name ?? '',
+    });
+  };
+
+  const handleExpiry = (months: number) => {
+    setExpiryMonths(months);
+    update({ expires_at: addMonths(new Date(), months).toISOString() });
+  };
+
+  const needsGuardian = value.subject_type === 'deceased' || value.subject_type === 'minor';
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Who is in these photos?</Label>
+        <RadioGroup
+          value={value.subject_type}
+          onValueChange={type => handleSubjectType(type as ConsentSubjectType)}
+          className="grid grid-cols-2 gap-2"
+          disabled={disabled}
+        >
+          {(Object.keys(CONSENT_SUBJECT_LABELS) as ConsentSubjectType[]).map(type => (
+            <div key={type} className="flex items-center gap-2">
+              <RadioGroupItem value={type} id={`consent-subject-${type}`} />
+              <Label htmlFor={`consent-subject-${type}`} className="font-normal">
+                {CONSENT_SUBJECT_LABELS[type]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {value.subject_type === 'connected_user' && (
+          <div className="space-y-2">
+            <Label>Connection</Label>
+            <Select
+              value={value.subject_user_id || undefined}
+              onValueChange={handleSelectConnection}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={connections.length === 0 ? 'No connections yet' : 'Choose a connection'} />
+              </SelectTrigger>
+              <SelectContent>
+                {connections.map(conn => (
+                  <SelectItem key={conn.user_id} value={conn.user_id}>{conn.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="consent-subject-name">Their name</Label>
+          <Input
+            id="consent-subject-name"
+            placeholder={value.subject_type === 'self' ? 'Your name' : 'e.g., Margaret Miller'}
+            value={value.subject_name}
+            onChange={e => update({ subject_name: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        {value.subject_type !== 'self' && (
+          <div className="space-y-2">
+            <Label htmlFor="consent-relationship">Relationship to you</Label>
+            <Input
+              id="consent-relationship"
+              placeholder="e.g., Grandmother"
+              value={value.relationship ?? ''}
+              onChange={e => update({ relationship: e.target.value || null })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+        {needsGuardian && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="consent-guardian">
+                {value.subject_type === 'minor' ? 'Parent or guardian who consented' : 'Next of kin or executor who consented'}
+              </Label>
+              <Input
+                id="consent-guardian"
+                value={value.guardian_name ?? ''}
+                onChange={e => update({ guardian_name: e.target.value || null })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="consent-guardian-relationship">Their relationship to {value.subject_name || 'them'}</Label>
+              <Input
+                id="consent-guardian-relationship"
+                placeholder={value.subject_type === 'minor' ? 'e.g., Mother' : 'e.g., Son, executor'}
+                value={value.guardian_relationship ?? ''}
+                onChange={e => update({ guardian_relationship: e.target.value || null })}
+                disabled={disabled}
+              />
+            </div>
+          </>
+        )}
+        <div className="space-y-2">
+          <Label>Consent lasts</Label>
+          <Select
+            value={String(expiryMonths)}
+            onValueChange={months => handleExpiry(Number(months))}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.months} value={String(option.months)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {value.subject_type === 'connected_user' && (
+        <p className="text-xs text-muted-foreground">
+          They'll be asked to approve. Training starts once they do, and they can withdraw consent at any time.
+        </p>
+      )}
+    </div>
+  );
+};
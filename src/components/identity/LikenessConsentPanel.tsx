@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, Loader2, UserCheck, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { identityTrainingService, isConsentActive } from '@/services/identityTrainingService';
+import { IdentityConsent, IdentityConsentEvent } from '@/types/identityTraining';
+import { ConsentHistoryList } from './ConsentHistoryDialog';
+
+interface LikenessConsentPanelProps {
+  userId: string;
+}
+
+/**
+ * The subject's side: identities connections have trained of this user, with
+ * approve / decline for pending requests, revoke for granted ones, and the
+ * full history of how their likeness was used.
+ */
+export const LikenessConsentPanel = ({ userId }: LikenessConsentPanelProps) => {
+  const [consents, setConsents] = useState<IdentityConsent[]>([]);
+  const [history, setHistory] = useState<IdentityConsentEvent[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [aboutMe, events] = await Promise.all([
+        identityTrainingService.getConsentsAboutMe(userId),
+        identityTrainingService.getLikenessHistory(userId),
+      ]);
+      setConsents(aboutMe);
+      setHistory(events);
+    } catch (error) {
+      console.error('Error loading likeness consents:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (consentId: string, action: () => Promise<void>, message: string) => {
+    setBusyId(consentId);
+    try {
+      await action();
+      toast.success(message);
+      await load();
+    } catch (error) {
+      console.error('Error updating consent:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update consent');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = (consent: IdentityConsent) => {
+    const reason = prompt(`Withdraw consent for ${consent.owner_name || 'them'} to use your likeness? Add a reason if you like.`);
+    if (reason === null) return;
+    run(consent.id, () => identityTrainingService.revokeConsent(consent.id, reason), 'Consent withdrawn');
+  };
+
+  if (consents.length === 0 && history.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-2xl font-serif font-bold mb-1">Your likeness</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Connections who have trained an identity of you. Nothing is generated with your face without your consent.
+      </p>
+
+      <div className="space-y-3">
+        {consents.map(consent => {
+          const isBusy = busyId === consent.id;
+          const active = isConsentActive(consent);
+          return (
+            <Card key={consent.id} className="p-4 bg-card border-2 flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div>
+                <p className="font-medium">
+                  {consent.owner_name || 'A connection'}
+                  {consent.identity_name && <span className="text-muted-foreground"> · “{consent.identity_name}”</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {consent.status === 'pending' && 'Asks to train a model of your face'}
+                  {active && `Allowed until ${format(new Date(consent.expires_at), 'd MMM yyyy')}`}
+                  {consent.status === 'granted' && !active && 'Consent has expired'}
+                  {consent.status === 'declined' && 'You declined'}
+                  {consent.status === 'revoked' && 'Consent withdrawn'}
+                  {consent.status === 'expired' && 'Consent has expired'}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {consent.status === 'pending' && (
+                  <>
+                    <Button
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => run(consent.id, () => identityTrainingService.respondToConsent(consent.id, true), 'Consent given')}
+                    >
+                      {isBusy ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Check className="w-3 h-3 mr-1" />}
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isBusy}
+                      onClick={() => run(consent.id, () => identityTrainingService.respondToConsent(consent.id, false), 'Request declined')}
+                    >
+                      <X className="w-3 h-3 mr-1" />
+                      Decline
+                    </Button>
+                  </>
+                )}
+                {active && (
+                  <Button size="sm" variant="outline" disabled={isBusy} onClick={() => handleRevoke(consent)}>
+                    Withdraw consent
+                  </Button>
+                )}
+                {!active && consent.status !== 'pending' && (
+                  <Badge variant="secondary" className="flex items-center gap-1">
+                    <UserCheck className="w-3 h-3" />
+                    Not in use
+                  </Badge>
+                )}
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+
+      {history.length > 0 && (
+        <div className="mt-3">
+          <Button variant="link" size="sm" className="px-0" onClick={() => setShowHistory(show => !show)}>
+            {showHistory ? 'Hide' : 'Show'} how your likeness was used ({history.length})
+          </Button>
+          {showHistory && (
+            <Card className="p-4 bg-card border-2">
+              <ConsentHistoryList events={history} />
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
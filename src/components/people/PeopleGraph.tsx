@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { PeopleGraph as Graph, RelationshipGroup } from '@/types/people';
+import { GraphPoint, layoutPeopleGraph, SELF_NODE_ID } from '@/utils/peopleGraph';
+
+interface PeopleGraphProps {
+  graph: Graph;
+  focusId?: string; // Pinned in the centre instead of the user
+  height?: number;
+  onSelect?: (personId: string) => void;
+}
+
+const WIDTH = 800;
+
+const GROUP_COLORS: Record<RelationshipGroup | 'self', string> = {
+  self: 'hsl(var(--primary))',
+  family: '#3b82f6',
+  friend: '#22c55e',
+  partner: '#ec4899',
+  other: '#94a3b8',
+};
+
+/**
+ * Interactive relationship graph. Hovering a person highlights who they share
+ * memories with, nodes can be dragged to untangle the layout, and clicking one
+ * opens their page.
+ */
+export const PeopleGraph = ({ graph, focusId, height = 480, onSelect }: PeopleGraphProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const layout = useMemo(
+    () => layoutPeopleGraph(graph, WIDTH, height, focusId && graph.nodes.some(n => n.id === focusId) ? focusId : SELF_NODE_ID),
+    [graph, height, focusId]
+  );
+  const [positions, setPositions] = useState<Map<string, GraphPoint>>(layout);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<{ id: string; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    setPositions(layout);
+  }, [layout]);
+
+  const neighbours = useMemo(() => {
+    if (!hovered) return null;
+    const ids = new Set([hovered]);
+    graph.edges.forEach(edge => {
+      if (edge.source === hovered) ids.add(edge.target);
+      if (edge.target === hovered) ids.add(edge.source);
+    });
+    return ids;
+  }, [graph.edges, hovered]);
+
+  const toSvgPoint = (event: React.PointerEvent): GraphPoint | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragging) return;
+    const point = toSvgPoint(event);
+    if (!point) return;
+    setPositions(current => new Map(current).set(dragging.id, point));
+    if (!dragging.moved) setDragging({ ...dragging, moved: true });
+  };
+
+  const handlePointerUp = () => {
+    if (dragging && !dragging.moved && dragging.id !== SELF_NODE_ID) {
+      onSelect?.(dragging.id);
+    }
+    setDragging(null);
+  };
+
+  const maxWeight = Math.max(1, ...graph.nodes.map(node => node.weight));
+  const radius = (weight: number, id: string) =>
+    id === SELF_NODE_ID ? 18 : 8 + 10 * Math.sqrt(weight / maxWeight);
+  const dimmed = (id: string) => neighbours !== null && !neighbours.has(id);
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full h-auto select-none touch-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => setDragging(null)}
+    >
+      {graph.edges.map(edge => {
+        const a = positions.get(edge.source);
+        const b = positions.get(edge.target);
+        if (!a || !b) return null;
+        const isSelfEdge = edge.source === SELF_NODE_ID;
+        const faded = dimmed(edge.source) || dimmed(edge.target);
+        return (
+          <line
+            key={`${edge.source}-${edge.target}`}
+            x1={a.x}
+            y1={a.y}
+            x2={b.x}
+            y2={b.y}
+            stroke="currentColor"
+            className="text-muted-foreground"
+            strokeOpacity={faded ? 0.08 : isSelfEdge ? 0.25 : 0.5}
+            strokeWidth={isSelfEdge ? 1 : Math.min(6, 1 + edge.weight)}
+            strokeDasharray={isSelfEdge ? '4 4' : undefined}
+          >
+            <title>
+              {isSelfEdge ? edge.label || 'Known' : `${edge.weight} shared ${edge.weight === 1 ? 'memory' : 'memories'}`}
+            </title>
+          </line>
+        );
+      })}
+
+      {graph.nodes.map(node => {
+        const point = positions.get(node.id);
+        if (!point) return null;
+        const r = radius(node.weight, node.id);
+        return (
+          <g
+            key={node.id}
+            transform={`translate(${point.x}, ${point.y})`}
+            className={node.id === SELF_NODE_ID ? 'cursor-grab' : 'cursor-pointer'}
+            opacity={dimmed(node.id) ? 0.25 : 1}
+            onPointerDown={(event) => {
+              (event.target as Element).setPointerCapture?.(event.pointerId);
+              setDragging({ id: node.id, moved: false });
+            }}
+            onPointerEnter={() => setHovered(node.id)}
+            onPointerLeave={() => setHovered(null)}
+          >
+            <circle
+              r={r}
+              fill={GROUP_COLORS[node.group]}
+              stroke={node.id === focusId ? 'hsl(var(--foreground))' : 'white'}
+              strokeWidth={node.id === focusId ? 3 : 2}
+            />
+            <text
+              y={r + 14}
+              textAnchor="middle"
+              className="fill-foreground text-xs"
+              fontWeight={node.id === SELF_NODE_ID || node.id === focusId ? 600 : 400}
+            >
+              {node.label}
+            </text>
+            <title>
+              {node.id === SELF_NODE_ID ? node.label : `${node.label} · ${node.weight} ${node.weight === 1 ? 'memory' : 'memories'}`}
+            </title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,348 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye, EyeOff, GitMerge, Link2, Loader2, MoreHorizontal, Pencil, Split } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { peopleService } from '@/services/peopleService';
+import { ConnectedUser } from '@/types/social';
+import { Person, RelationshipGroup, RELATIONSHIP_GROUP_LABELS } from '@/types/people';
+
+type Mode = 'edit' | 'merge' | 'split' | 'link';
+
+interface PersonActionsProps {
+  person: Person;
+  people: Person[]; // Everyone else, for merging
+  onChanged: () => void;
+  onMerged: (targetId: string) => void;
+  onSplit: (newPersonId: string) => void;
+}
+
+const NO_LINK = 'none';
+
+/** Edit, merge, split, link to a connection, and hide a person */
+export const PersonActions = ({ person, people, onChanged, onMerged, onSplit }: PersonActionsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<Mode | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [name, setName] = useState(person.display_name);
+  const [relationship, setRelationship] = useState(person.relationship || '');
+  const [group, setGroup] = useState<RelationshipGroup>(person.relationship_group);
+  const [notes, setNotes] = useState(person.notes || '');
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [splitAliases, setSplitAliases] = useState<string[]>([]);
+  const [splitName, setSplitName] = useState('');
+  const [connections, setConnections] = useState<{ user_id: string; name: string }[]>([]);
+  const [linkUserId, setLinkUserId] = useState(person.linked_user_id || NO_LINK);
+
+  useEffect(() => {
+    if (!mode) return;
+    setName(person.display_name);
+    setRelationship(person.relationship || '');
+    setGroup(person.relationship_group);
+    setNotes(person.notes || '');
+    setMergeTargetId('');
+    setSplitAliases([]);
+    setSplitName('');
+    setLinkUserId(person.linked_user_id || NO_LINK);
+    if (mode === 'link') loadConnections();
+  }, [mode, person.id]);
+
+  const loadConnections = async () => {
+    if (!user?.id) return;
+
+    const { data: connectedUsers, error } = await supabase.rpc('get_connected_users', {
+      target_user_id: user.id
+    });
+    if (error) {
+      console.error('Error loading connections:', error);
+      return;
+    }
+
+    const userIds = (connectedUsers as ConnectedUser[])?.map(u => u.user_id) || [];
+    if (userIds.length === 0) {
+      setConnections([]);
+      return;
+    }
+
+    const { data: profiles } = await supabase
+      .from('user_profiles')
+      .select('user_id, display_name, preferred_name')
+      .in('user_id', userIds);
+    const profileMap = new Map(profiles?.map(p => [p.user_id, p]));
+
+    setConnections((connectedUsers as ConnectedUser[]).map(conn => {
+      const profile = profileMap.get(conn.user_id);
+      return {
+        user_id: conn.user_id,
+        name: profile?.preferred_name || profile?.display_name || conn.relationship_label || 'Connection',
+      };
+    }));
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      setMode(null);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    await peopleService.updatePerson(person.id, {
+      display_name: name,
+      relationship: relationship.trim().toLowerCase() || null,
+      relationship_group: group,
+      notes: notes.trim() || null,
+    });
+    onChanged();
+  }, 'Failed to save');
+
+  const handleMerge = () => run(async () => {
+    await peopleService.merge(person.id, mergeTargetId);
+    toast({ title: 'People merged' });
+    onMerged(mergeTargetId);
+  }, 'Failed to merge');
+
+  const handleSplit = () => run(async () => {
+    const newId = await peopleService.split(person.id, splitAliases, splitName);
+    toast({ title: `${splitName.trim()} split out` });
+    onSplit(newId);
+  }, 'Failed to split');
+
+  const handleLink = () => run(async () => {
+    await peopleService.linkConnection(person.id, linkUserId === NO_LINK ? null : linkUserId);
+    onChanged();
+  }, 'Failed to link');
+
+  const handleToggleHidden = async () => {
+    try {
+      await peopleService.updatePerson(person.id, { is_hidden: !person.is_hidden });
+      onChanged();
+    } catch (error) {
+      console.error('Error hiding person:', error);
+      toast({ title: 'Failed to update', variant: 'destructive' });
+    }
+  };
+
+  const toggleAlias = (alias: string, checked: boolean) => {
+    setSplitAliases(current => (checked ? [...current, alias] : current.filter(a => a !== alias)));
+  };
+
+  const others = people.filter(p => p.id !== person.id);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <MoreHorizontal className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setMode('edit')}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setMode('link')}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Link to a connection
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setMode('merge')} disabled={others.length === 0}>
+            <GitMerge className="w-4 h-4 mr-2" />
+            Merge into…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setMode('split')} disabled={person.aliases.length < 2}>
+            <Split className="w-4 h-4 mr-2" />
+            Split…
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleToggleHidden}>
+            {person.is_hidden ? <Eye className="w-4 h-4 mr-2" /> : <EyeOff className="w-4 h-4 mr-2" />}
+            {person.is_hidden ? 'Show in directory' : 'Hide from directory'}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && setMode(null)}>
+        <DialogContent>
+          {mode === 'edit' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Edit {person.display_name}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="person-name">Name</Label>
+                  <Input id="person-name" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="person-relationship">Relationship</Label>
+                    <Input
+                      id="person-relationship"
+                      placeholder="e.g. mother, best friend"
+                      value={relationship}
+                      onChange={(e) => setRelationship(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Group</Label>
+                    <Select value={group} onValueChange={(value) => setGroup(value as RelationshipGroup)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(RELATIONSHIP_GROUP_LABELS) as RelationshipGroup[]).map(key => (
+                          <SelectItem key={key} value={key}>{RELATIONSHIP_GROUP_LABELS[key]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="person-notes">Notes</Label>
+                  <Textarea id="person-notes" rows={3} value={notes} onChange={(e) => setNotes(e.target.value)} />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+                  {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {mode === 'merge' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Merge {person.display_name}</DialogTitle>
+                <DialogDescription>
+                  Their memories and the ways you refer to them move to the person you pick, and {person.display_name} is removed.
+                </DialogDescription>
+              </DialogHeader>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Merge into…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {others.map(other => (
+                    <SelectItem key={other.id} value={other.id}>
+                      {other.display_name}{other.relationship ? ` (${other.relationship})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <DialogFooter>
+                <Button onClick={handleMerge} disabled={isSaving || !mergeTargetId}>
+                  {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                  Merge
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {mode === 'split' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Split {person.display_name}</DialogTitle>
+                <DialogDescription>
+                  Pick the mentions that are really someone else. They and their memories move to a new person.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {person.aliases.map(alias => (
+                  <label key={alias} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={splitAliases.includes(alias)}
+                      onCheckedChange={(checked) => toggleAlias(alias, checked === true)}
+                    />
+                    {alias}
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="split-name">New person's name</Label>
+                <Input id="split-name" value={splitName} onChange={(e) => setSplitName(e.target.value)} />
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={handleSplit}
+                  disabled={
+                    isSaving ||
+                    !splitName.trim() ||
+                    splitAliases.length === 0 ||
+                    splitAliases.length === person.aliases.length
+                  }
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                  Split
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {mode === 'link' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Link {person.display_name}</DialogTitle>
+                <DialogDescription>
+                  If {person.display_name} uses the app and you're connected, link them to see what they share with you.
+                </DialogDescription>
+              </DialogHeader>
+              <Select value={linkUserId} onValueChange={setLinkUserId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a connection" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LINK}>Not linked</SelectItem>
+                  {connections.map(conn => (
+                    <SelectItem key={conn.user_id} value={conn.user_id}>{conn.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <DialogFooter>
+                <Button onClick={handleLink} disabled={isSaving}>
+                  {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { reconstructionService } from '@/services/reconstructionService';
+import { Reconstruction } from '@/types/reconstruction';
+
+interface AttachToMemoryDialogProps {
+  reconstruction: Reconstruction | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/** Choose which memories a reconstruction is attached to */
+export const AttachToMemoryDialog = ({ reconstruction, onClose, onChanged }: AttachToMemoryDialogProps) => {
+  const { user } = useAuth();
+  const [memories, setMemories] = useState<{ id: string; title: string; memory_date: string | null }[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!reconstruction || !user) return;
+    setSelected(reconstruction.memory_ids || []);
+    setSearch('');
+    setIsLoading(true);
+    reconstructionService.getAttachableMemories(user.id)
+      .then(setMemories)
+      .catch(error => {
+        console.error('Error loading memories:', error);
+        toast.error('Could not load your memories');
+      })
+      .finally(() => setIsLoading(false));
+  }, [reconstruction, user]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return query ? memories.filter(memory => memory.title.toLowerCase().includes(query)) : memories;
+  }, [memories, search]);
+
+  const toggle = (memoryId: string) => {
+    setSelected(prev => prev.includes(memoryId) ? prev.filter(id => id !== memoryId) : [...prev, memoryId]);
+  };
+
+  const handleSave = async () => {
+    if (!reconstruction) return;
+    const current = reconstruction.memory_ids || [];
+    setIsSaving(true);
+    try {
+      await Promise.all([
+        ...selected.filter(id => !current.includes(id)).map(id => reconstructionService.attachToMemory(reconstruction.id, id)),
+        ...current.filter(id => !selected.includes(id)).map(id => reconstructionService.detachFromMemory(reconstruction.id, id)),
+      ]);
+      toast.success(selected.length > 0 ? 'Reconstruction attached' : 'Reconstruction detached');
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error('Error attaching reconstruction:', error);
+      toast.error('Could not update the memories for this reconstruction');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!reconstruction} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Attach to memories</DialogTitle>
+          <DialogDescription>
+            The image appears with the memory's photos and videos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search memories..."
+        />
+
+        <div className="max-h-80 overflow-y-auto space-y-1">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No memories found</p>
+          ) : (
+            filtered.map(memory => (
+              <label
+                key={memory.id}
+                className="flex items-center gap-3 rounded-md px-2 py-2 hover:bg-muted cursor-pointer"
+              >
+                <Checkbox checked={selected.includes(memory.id)} onCheckedChange={() => toggle(memory.id)} />
+                <span className="flex-1 text-sm">{memory.title}</span>
+                {memory.memory_date && (
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(memory.memory_date).getFullYear()}
+                  </span>
+                )}
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
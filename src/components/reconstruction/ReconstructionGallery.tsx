@@ -0,0 +1,92 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { GitBranch, Link2, Trash2 } from 'lucide-react';
+import { Reconstruction } from '@/types/reconstruction';
+
+interface ReconstructionGalleryProps {
+  reconstructions: Reconstruction[];
+  selectedId: string | null;
+  onSelect: (reconstruction: Reconstruction) => void;
+  onAttach: (reconstruction: Reconstruction) => void;
+  onDelete: (reconstruction: Reconstruction) => void;
+}
+
+/** The user's saved reconstructions, newest first */
+export const ReconstructionGallery = ({
+  reconstructions,
+  selectedId,
+  onSelect,
+  onAttach,
+  onDelete,
+}: ReconstructionGalleryProps) => (
+  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+    {reconstructions.map((item) => {
+      const attached = item.memory_ids?.length || 0;
+      return (
+        <Card
+          key={item.id}
+          className={`p-3 bg-card border hover:shadow-lg transition-shadow cursor-pointer group ${
+            item.id === selectedId ? 'ring-2 ring-primary' : ''
+          }`}
+          onClick={() => onSelect(item)}
+        >
+          <div className="aspect-[4/3] rounded overflow-hidden mb-2 border bg-muted">
+            {item.image_url && (
+              <img
+                src={item.image_url}
+                alt="Memory reconstruction"
+                className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+              />
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground line-clamp-2">
+            {item.metadata.refine_prompt || item.metadata.memory_prompt}
+          </p>
+          <div className="flex flex-wrap items-center gap-1 mt-2">
+            <Badge variant="outline" className="text-[10px]">
+              {item.metadata.mode === 'photoreal' ? 'Photoreal' : 'Sketch'}
+            </Badge>
+            {item.derived_from_artifact_id && (
+              <Badge variant="secondary" className="text-[10px] gap-1">
+                <GitBranch className="h-3 w-3" />
+                Refined
+              </Badge>
+            )}
+            {attached > 0 && (
+              <Badge variant="secondary" className="text-[10px]">
+                {attached === 1 ? 'In 1 memory' : `In ${attached} memories`}
+              </Badge>
+            )}
+            <div className="ml-auto flex">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Attach to memory"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onAttach(item);
+                }}
+              >
+                <Link2 className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive"
+                title="Delete"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(item);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        </Card>
+      );
+    })}
+  </div>
+);
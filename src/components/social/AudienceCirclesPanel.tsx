@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CircleDot, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { audienceService } from '@/services/audienceService';
+import { AudienceCircle } from '@/types/audience';
+import { RELATIONSHIP_TYPES } from '@/types/social';
+
+export interface CircleConnection {
+  user_id: string;
+  name: string;
+  relationship_type: string;
+}
+
+interface AudienceCirclesPanelProps {
+  connections: CircleConnection[]; // Accepted connections
+}
+
+/**
+ * Circles are who a memory can be shared with. A connection is in a circle
+ * when their relationship type is included or when they were added by hand.
+ */
+export const AudienceCirclesPanel = ({ connections }: AudienceCirclesPanelProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [circles, setCircles] = useState<AudienceCircle[]>([]);
+  const [newCircleName, setNewCircleName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadCircles();
+    }
+  }, [user?.id]);
+
+  const loadCircles = async () => {
+    if (!user?.id) return;
+
+    setIsLoading(true);
+    try {
+      setCircles(await audienceService.getCircles(user.id));
+    } catch (error) {
+      console.error('Error loading circles:', error);
+      toast({ title: 'Failed to load circles', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateLocal = (circleId: string, update: (circle: AudienceCircle) => AudienceCircle) => {
+    setCircles(current => current.map(c => (c.id === circleId ? update(c) : c)));
+  };
+
+  const handleCreate = async () => {
+    if (!user?.id || !newCircleName.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const circle = await audienceService.createCircle(user.id, newCircleName);
+      setCircles(current => [...current, circle]);
+      setNewCircleName('');
+    } catch (error) {
+      console.error('Error creating circle:', error);
+      toast({
+        title: 'Failed to create circle',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (circle: AudienceCircle) => {
+    setIsSubmitting(true);
+    try {
+      await audienceService.deleteCircle(circle.id);
+      setCircles(current => current.filter(c => c.id !== circle.id));
+      toast({ title: `${circle.name} deleted`, description: 'Memories shared only with this circle are private again.' });
+    } catch (error) {
+      console.error('Error deleting circle:', error);
+      toast({ title: 'Failed to delete circle', variant: 'destructive' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleRelationshipType = async (circle: AudienceCircle, type: string) => {
+    const relationshipTypes = circle.relationship_types.includes(type)
+      ? circle.relationship_types.filter(t => t !== type)
+      : [...circle.relationship_types, type];
+
+    try {
+      await audienceService.updateCircle(circle.id, { relationship_types: relationshipTypes });
+      updateLocal(circle.id, c => ({ ...c, relationship_types: relationshipTypes }));
+    } catch (error) {
+      console.error('Error updating circle:', error);
+      toast({ title: 'Failed to update circle', variant: 'destructive' });
+    }
+  };
+
+  const toggleMember = async (circle: AudienceCircle, memberUserId: string) => {
+    const members = circle.member_user_ids || [];
+    const isMember = members.includes(memberUserId);
+
+    try {
+      if (isMember) {
+        await audienceService.removeMember(circle.id, memberUserId);
+      } else {
+        await audienceService.addMember(circle.id, memberUserId);
+      }
+      updateLocal(circle.id, c => ({
+        ...c,
+        member_user_ids: isMember ? members.filter(id => id !== memberUserId) : [...members, memberUserId],
+      }));
+    } catch (error) {
+      console.error('Error updating circle members:', error);
+      toast({ title: 'Failed to update circle', variant: 'destructive' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">New circle</CardTitle>
+          <CardDescription>Group connections you often share the same memories with.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Input
+            value={newCircleName}
+            onChange={(e) => setNewCircleName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="e.g. Old school friends"
+          />
+          <Button onClick={handleCreate} disabled={!newCircleName.trim() || isSubmitting}>
+            <Plus className="w-4 h-4 mr-1" /> Create
+          </Button>
+        </CardContent>
+      </Card>
+
+      {circles.map((circle) => {
+        const members = connections.filter(conn =>
+          circle.relationship_types.includes(conn.relationship_type) ||
+          circle.member_user_ids?.includes(conn.user_id)
+        );
+
+        return (
+          <Card key={circle.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <CircleDot className="w-5 h-5" />
+                    {circle.name}
+                    <Badge variant="secondary">{members.length}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    {members.length > 0 ? members.map(m => m.name).join(', ') : 'Nobody yet'}
+                  </CardDescription>
+                </div>
+                {circle.kind === 'custom' && (
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(circle)} disabled={isSubmitting}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Everyone connected as</p>
+                <div className="flex flex-wrap gap-2">
+                  {RELATIONSHIP_TYPES.map(({ value, label }) => (
+                    <Badge
+                      key={value}
+                      variant={circle.relationship_types.includes(value) ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => toggleRelationshipType(circle, value)}
+                    >
+                      {label}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              {connections.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Also include</p>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {connections.map((conn) => {
+                      const byType = circle.relationship_types.includes(conn.relationship_type);
+                      return (
+                        <label key={conn.user_id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={byType || circle.member_user_ids?.includes(conn.user_id)}
+                            disabled={byType}
+                            onCheckedChange={() => toggleMember(circle, conn.user_id)}
+                          />
+                          {conn.name}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
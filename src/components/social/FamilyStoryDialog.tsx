@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { GitMerge, MessageSquare, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { MemoryPerspectives } from '@/components/social/MemoryPerspectives';
+import { FamilyStoryThread } from '@/components/social/FamilyStoryThread';
+
+interface FamilyStoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  memory: {
+    id: string;
+    user_id: string;
+    title: string;
+    memory_group_id?: string | null;
+  };
+}
+
+export const FamilyStoryDialog = ({ open, onOpenChange, memory }: FamilyStoryDialogProps) => {
+  const { user } = useAuth();
+  const [perspectiveIds, setPerspectiveIds] = useState<string[]>([]);
+  const isOwner = user?.id === memory.user_id;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            {memory.title}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue="perspectives">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="perspectives" className="gap-2">
+              <MessageSquare className="w-4 h-4" />
+              Perspectives
+            </TabsTrigger>
+            <TabsTrigger value="story" className="gap-2">
+              <GitMerge className="w-4 h-4" />
+              Family story
+            </TabsTrigger>
+          </TabsList>
+
+          {/* Kept mounted so the perspective ids are known on the story tab */}
+          <TabsContent value="perspectives" forceMount className="mt-4 data-[state=inactive]:hidden">
+            <MemoryPerspectives
+              memoryId={memory.id}
+              isSharedMemory={!isOwner}
+              onLoaded={(perspectives) => setPerspectiveIds(perspectives.map(p => p.id))}
+            />
+          </TabsContent>
+
+          <TabsContent value="story" className="mt-4">
+            <FamilyStoryThread
+              ownerId={memory.user_id}
+              memoryGroupId={memory.memory_group_id || memory.id}
+              isOwner={isOwner}
+              perspectiveIds={perspectiveIds}
+            />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, Check, CheckCircle, GitMerge, Loader2, RefreshCw, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { familyStoryService } from '@/services/familyStoryService';
+import {
+  FamilyStoryAccount,
+  FamilyStoryConflict,
+  FamilyStoryThread as Thread,
+  FAMILY_STORY_CONFLICT_LABELS,
+} from '@/types/familyStory';
+
+interface FamilyStoryThreadProps {
+  ownerId: string;
+  memoryGroupId: string;
+  isOwner: boolean;
+  perspectiveIds: string[]; // Current perspectives, to tell when the alignment is out of date
+}
+
+const ACCOUNT_COLORS = [
+  'bg-blue-100 text-blue-800',
+  'bg-green-100 text-green-800',
+  'bg-purple-100 text-purple-800',
+  'bg-orange-100 text-orange-800',
+  'bg-pink-100 text-pink-800',
+  'bg-teal-100 text-teal-800',
+];
+
+/**
+ * Everyone's account of one memory aligned into a single narrative. Passages
+ * are attributed to the accounts that support them; contradictions are listed
+ * for the owner to resolve before approving the merged version.
+ */
+export const FamilyStoryThread = ({ ownerId, memoryGroupId, isOwner, perspectiveIds }: FamilyStoryThreadProps) => {
+  const { toast } = useToast();
+  const [thread, setThread] = useState<Thread | null>(null);
+  const [mergedText, setMergedText] = useState('');
+  const [conflicts, setConflicts] = useState<FamilyStoryConflict[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAligning, setIsAligning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadThread();
+  }, [ownerId, memoryGroupId]);
+
+  const applyThread = (next: Thread | null) => {
+    setThread(next);
+    setMergedText(next?.merged_text || '');
+    setConflicts(next?.conflicts || []);
+  };
+
+  const loadThread = async () => {
+    setIsLoading(true);
+    try {
+      applyThread(await familyStoryService.getThread(ownerId, memoryGroupId));
+    } catch (error) {
+      console.error('Error loading family story:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAlign = async () => {
+    setIsAligning(true);
+    try {
+      applyThread(await familyStoryService.align(memoryGroupId));
+    } catch (error) {
+      console.error('Error aligning family story:', error);
+      toast({
+        title: 'Failed to align the accounts',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  const resolveConflict = (conflictId: string, resolution: string) => {
+    setConflicts(current => current.map(c => (c.id === conflictId ? { ...c, resolution } : c)));
+  };
+
+  const handleSave = async () => {
+    if (!thread) return;
+    setIsSaving(true);
+    try {
+      await familyStoryService.saveDraft(thread.id, mergedText, conflicts);
+      toast({ title: 'Draft saved' });
+    } catch (error) {
+      console.error('Error saving family story:', error);
+      toast({ title: 'Failed to save', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!thread) return;
+    setIsSaving(true);
+    try {
+      const addedToBiography = await familyStoryService.approve(thread, mergedText, conflicts);
+      applyThread({
+        ...thread,
+        merged_text: mergedText,
+        conflicts,
+        status: 'approved',
+        approved_text: mergedText,
+        approved_at: new Date().toISOString(),
+      });
+      toast({
+        title: 'Family story approved',
+        description: addedToBiography
+          ? 'It has been woven into your biography.'
+          : 'Generate your story to include it in your biography.'
+      });
+    } catch (error) {
+      console.error('Error approving family story:', error);
+      toast({
+        title: 'Failed to approve',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const accounts = new Map<string, FamilyStoryAccount & { color: string }>(
+    (thread?.accounts || []).map((account, index) => [
+      account.key,
+      { ...account, color: ACCOUNT_COLORS[index % ACCOUNT_COLORS.length] },
+    ])
+  );
+  const accountName = (key: string) => accounts.get(key)?.name || 'Someone';
+  const isOutdated = familyStoryService.hasNewPerspectives(thread, perspectiveIds);
+  const unresolved = conflicts.filter(c => !c.resolution?.trim()).length;
+
+  if (!thread) {
+    return (
+      <div className="text-center py-6 space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {perspectiveIds.length === 0
+            ? 'Once family or friends add their perspectives, their accounts can be merged into one story.'
+            : isOwner
+              ? 'Merge everyone\'s accounts into one family story.'
+              : 'The owner hasn\'t merged the accounts yet.'}
+        </p>
+        {isOwner && perspectiveIds.length > 0 && (
+          <Button size="sm" onClick={handleAlign} disabled={isAligning}>
+            {isAligning ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <GitMerge className="w-4 h-4 mr-1" />}
+            Merge accounts
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  // Others read the approved version only
+  if (!isOwner) {
+    return thread.status === 'approved' && thread.approved_text ? (
+      <Card className="bg-muted/30">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <CheckCircle className="w-4 h-4 text-green-600" />
+            Family story
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-sm whitespace-pre-wrap">{thread.approved_text}</p>
+          <p className="text-xs text-muted-foreground">
+            Told by {thread.accounts.map(a => a.name).join(', ')}
+          </p>
+        </CardContent>
+      </Card>
+    ) : (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        The owner is still putting the family story together.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {[...accounts.values()].map(account => (
+            <span key={account.key} className={`text-xs rounded px-2 py-0.5 ${account.color}`}>
+              {account.name}{account.kind === 'owner' ? ' (you)' : ''}
+            </span>
+          ))}
+        </div>
+        <Button size="sm" variant="outline" onClick={handleAlign} disabled={isAligning}>
+          {isAligning ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1" />}
+          Re-merge
+        </Button>
+      </div>
+
+      {isOutdated && (
+        <p className="text-xs text-yellow-700">New perspectives were added since this was merged.</p>
+      )}
+
+      <div className="space-y-2">
+        {thread.passages.map((passage, index) => (
+          <div key={index} className="rounded-md border p-3 space-y-2">
+            <p className="text-sm whitespace-pre-wrap">{passage.text}</p>
+            <div className="flex flex-wrap gap-1">
+              {passage.sources.map(source => (
+                <span key={source} className={`text-xs rounded px-2 py-0.5 ${accounts.get(source)?.color || 'bg-muted'}`}>
+                  {accountName(source)}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-600" />
+            Where the accounts differ
+            {unresolved > 0 && <Badge variant="secondary">{unresolved} to resolve</Badge>}
+          </h5>
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="rounded-md border border-yellow-300 bg-yellow-50/50 p-3 space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">{FAMILY_STORY_CONFLICT_LABELS[conflict.kind]}:</span> {conflict.summary}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {conflict.claims.map(claim => (
+                  <Button
+                    key={`${claim.source}-${claim.value}`}
+                    size="sm"
+                    variant={conflict.resolution === claim.value ? 'default' : 'outline'}
+                    onClick={() => resolveConflict(conflict.id, claim.value)}
+                  >
+                    {conflict.resolution === claim.value && <Check className="w-3 h-3 mr-1" />}
+                    {accountName(claim.source)}: {claim.value}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                placeholder="Or write what really happened"
+                value={conflict.claims.some(c => c.value === conflict.resolution) ? '' : conflict.resolution || ''}
+                onChange={(e) => resolveConflict(conflict.id, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h5 className="text-sm font-medium">Merged version</h5>
+        <Textarea
+          value={mergedText}
+          onChange={(e) => setMergedText(e.target.value)}
+          rows={8}
+        />
+        <p className="text-xs text-muted-foreground">
+          Apply your conflict choices here. Once approved, this version is added to your biography.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        {thread.status === 'approved' && (
+          <span className="text-xs text-green-700 flex items-center gap-1 mr-auto">
+            <CheckCircle className="w-3 h-3" />
+            Approved {thread.approved_at && new Date(thread.approved_at).toLocaleDateString()}
+          </span>
+        )}
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={isSaving}>
+          <Save className="w-4 h-4 mr-1" />
+          Save draft
+        </Button>
+        <Button size="sm" onClick={handleApprove} disabled={isSaving || unresolved > 0 || !mergedText.trim()}>
+          {isSaving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+          Approve
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -16,9 +16,10 @@ interface PerspectiveWithAuthor extends MemoryPerspective {
 interface MemoryPerspectivesProps {
   memoryId: string;
   isSharedMemory?: boolean; // Whether this is a shared memory (not owned by user)
+  onLoaded?: (perspectives: MemoryPerspective[]) => void;
 }
 
-export const MemoryPerspectives = ({ memoryId, isSharedMemory = false }: MemoryPerspectivesProps) => {
+export const MemoryPerspectives = ({ memoryId, isSharedMemory = false, onLoaded }: MemoryPerspectivesProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [perspectives, setPerspectives] = useState<PerspectiveWithAuthor[]>([]);
@@ -58,6 +59,7 @@ export const MemoryPerspectives = ({ memoryId, isSharedMemory = false }: MemoryP
       })) || [];
 
       setPerspectives(enriched);
+      onLoaded?.(enriched);
     } catch (error) {
       console.error('Error loading perspectives:', error);
     } finally {
@@ -4,16 +4,20 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Share2, Loader2, Users } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Share2, Loader2, Users, Globe, Copy } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { audienceService } from '@/services/audienceService';
 import { ConnectedUser } from '@/types/social';
+import { AudienceCircle } from '@/types/audience';
 
 interface ShareMemoryDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   memoryId: string;
+  memoryGroupId?: string; // Audiences are set per memory group; defaults to memoryId
   memoryTitle: string;
   onSuccess?: () => void;
 }
@@ -27,28 +31,45 @@ export const ShareMemoryDialog = ({
   open,
   onOpenChange,
   memoryId,
+  memoryGroupId,
   memoryTitle,
   onSuccess
 }: ShareMemoryDialogProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [connections, setConnections] = useState<ConnectedUserWithProfile[]>([]);
+  const [circles, setCircles] = useState<AudienceCircle[]>([]);
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
+  const [selectedCircles, setSelectedCircles] = useState<string[]>([]);
+  const [isPublic, setIsPublic] = useState(false);
+  const [initialUsers, setInitialUsers] = useState<string[]>([]);
   const [message, setMessage] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const groupId = memoryGroupId || memoryId;
+
   useEffect(() => {
     if (open && user?.id) {
       loadConnections();
     }
-  }, [open, user?.id]);
+  }, [open, user?.id, groupId]);
 
   const loadConnections = async () => {
     if (!user?.id) return;
     
     setIsLoading(true);
     try {
+      const [userCircles, audience] = await Promise.all([
+        audienceService.getCircles(user.id),
+        audienceService.getMemoryAudience(user.id, groupId),
+      ]);
+      setCircles(userCircles);
+      setIsPublic(audience.isPublic);
+      setSelectedCircles(audience.circleIds);
+      setSelectedUsers(audience.connectionIds);
+      setInitialUsers(audience.connectionIds);
+
       // Get connected users
       const { data: connectedUsers, error } = await supabase.rpc('get_connected_users', {
         target_user_id: user.id
@@ -96,32 +117,68 @@ export const ShareMemoryDialog = ({
     );
   };
 
+  const toggleCircle = (circleId: string) => {
+    setSelectedCircles(prev =>
+      prev.includes(circleId)
+        ? prev.filter(id => id !== circleId)
+        : [...prev, circleId]
+    );
+  };
+
+  const copyPublicLink = async () => {
+    if (!user?.id) return;
+    await navigator.clipboard.writeText(`${window.location.origin}/visitor/${user.id}`);
+    toast({ title: 'Link copied' });
+  };
+
   const handleShare = async () => {
-    if (!user?.id || selectedUsers.length === 0) return;
+    if (!user?.id) return;
 
     setIsSubmitting(true);
     try {
-      // Create share records for each selected user
-      const shareRecords = selectedUsers.map(recipientId => ({
-        memory_id: memoryId,
-        sharer_id: user.id,
-        recipient_id: recipientId,
-        share_message: message || null,
-        status: 'pending'
-      }));
-
-      const { error } = await supabase
-        .from('memory_shares')
-        .insert(shareRecords);
+      // People taken off the audience no longer see the share in their inbox
+      const removedUsers = initialUsers.filter(id => !selectedUsers.includes(id));
+      if (removedUsers.length > 0) {
+        const { error } = await supabase
+          .from('memory_shares')
+          .delete()
+          .eq('memory_id', memoryId)
+          .eq('sharer_id', user.id)
+          .in('recipient_id', removedUsers);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
+
+      await audienceService.setMemoryAudience(groupId, {
+        isPublic,
+        circleIds: selectedCircles,
+        connectionIds: selectedUsers,
+      });
+
+      // People added directly get a share in their inbox with the message
+      const addedUsers = selectedUsers.filter(id => !initialUsers.includes(id));
+      if (addedUsers.length > 0) {
+        const shareRecords = addedUsers.map(recipientId => ({
+          memory_id: memoryId,
+          sharer_id: user.id,
+          recipient_id: recipientId,
+          share_message: message || null,
+          status: 'pending'
+        }));
+
+        const { error } = await supabase
+          .from('memory_shares')
+          .insert(shareRecords);
 
+        if (error) throw error;
+      }
+
+      const isPrivate = !isPublic && selectedCircles.length === 0 && selectedUsers.length === 0;
       toast({
-        title: 'Memory shared',
-        description: `Shared with ${selectedUsers.length} ${selectedUsers.length === 1 ? 'person' : 'people'}.`
+        title: isPrivate ? 'Memory is private' : 'Audience updated',
+        description: isPrivate ? 'Only you can see this memory.' : undefined
       });
 
-      setSelectedUsers([]);
       setMessage('');
       onSuccess?.();
       onOpenChange(false);
@@ -147,60 +204,102 @@ export const ShareMemoryDialog = ({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Share2 className="w-5 h-5" />
-            Share Memory
+            Who can see this memory
           </DialogTitle>
         </DialogHeader>
 
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
-            Share "<span className="font-medium">{memoryTitle}</span>" with your connections
+            Choose who can see "<span className="font-medium">{memoryTitle}</span>". Leave everything off to keep it private.
           </p>
 
           {isLoading ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
             </div>
-          ) : connections.length === 0 ? (
-            <div className="text-center py-8">
-              <Users className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
-              <p className="text-muted-foreground">No connections yet</p>
-              <p className="text-sm text-muted-foreground">Connect with family and friends to share memories</p>
-            </div>
           ) : (
             <>
-              <div className="space-y-2">
-                <Label>Select recipients</Label>
-                <div className="max-h-[200px] overflow-y-auto space-y-2 border rounded-lg p-2">
-                  {connections.map((conn) => (
-                    <div
-                      key={conn.user_id}
-                      className="flex items-center gap-3 p-2 rounded hover:bg-muted/50 cursor-pointer"
-                      onClick={() => toggleUser(conn.user_id)}
-                    >
-                      <Checkbox
-                        checked={selectedUsers.includes(conn.user_id)}
-                        onCheckedChange={() => toggleUser(conn.user_id)}
-                      />
-                      <div className="flex-1">
-                        <p className="font-medium text-sm">{getDisplayName(conn)}</p>
-                        <p className="text-xs text-muted-foreground capitalize">
-                          {conn.relationship_label || conn.relationship_type}
-                        </p>
-                      </div>
-                    </div>
-                  ))}
+              <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                <div className="flex items-center gap-3">
+                  <Globe className="w-4 h-4 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium text-sm">Public link</p>
+                    <p className="text-xs text-muted-foreground">Anyone with your Visitor page link</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isPublic && (
+                    <Button variant="ghost" size="icon" onClick={copyPublicLink} title="Copy link">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Switch checked={isPublic} onCheckedChange={setIsPublic} />
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <Label>Add a message (optional)</Label>
-                <Textarea
-                  placeholder="I wanted to share this memory with you..."
-                  value={message}
-                  onChange={(e) => setMessage(e.target.value)}
-                  rows={3}
-                />
-              </div>
+              {circles.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Circles</Label>
+                  <div className="space-y-2 border rounded-lg p-2">
+                    {circles.map((circle) => (
+                      <div
+                        key={circle.id}
+                        className="flex items-center gap-3 p-2 rounded hover:bg-muted/50 cursor-pointer"
+                        onClick={() => toggleCircle(circle.id)}
+                      >
+                        <Checkbox
+                          checked={selectedCircles.includes(circle.id)}
+                          onCheckedChange={() => toggleCircle(circle.id)}
+                        />
+                        <p className="font-medium text-sm">{circle.name}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {connections.length === 0 ? (
+                <div className="text-center py-4">
+                  <Users className="w-10 h-10 mx-auto text-muted-foreground mb-2" />
+                  <p className="text-sm text-muted-foreground">Connect with family and friends to share memories with them</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Specific people</Label>
+                  <div className="max-h-[200px] overflow-y-auto space-y-2 border rounded-lg p-2">
+                    {connections.map((conn) => (
+                      <div
+                        key={conn.user_id}
+                        className="flex items-center gap-3 p-2 rounded hover:bg-muted/50 cursor-pointer"
+                        onClick={() => toggleUser(conn.user_id)}
+                      >
+                        <Checkbox
+                          checked={selectedUsers.includes(conn.user_id)}
+                          onCheckedChange={() => toggleUser(conn.user_id)}
+                        />
+                        <div className="flex-1">
+                          <p className="font-medium text-sm">{getDisplayName(conn)}</p>
+                          <p className="text-xs text-muted-foreground capitalize">
+                            {conn.relationship_label || conn.relationship_type}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {selectedUsers.some(id => !initialUsers.includes(id)) && (
+                <div className="space-y-2">
+                  <Label>Add a message (optional)</Label>
+                  <Textarea
+                    placeholder="I wanted to share this memory with you..."
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+              )}
             </>
           )}
         </div>
@@ -211,15 +310,15 @@ export const ShareMemoryDialog = ({
           </Button>
           <Button
             onClick={handleShare}
-            disabled={selectedUsers.length === 0 || isSubmitting}
+            disabled={isLoading || isSubmitting}
           >
             {isSubmitting ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Sharing...
+                Saving...
               </>
             ) : (
-              `Share with ${selectedUsers.length || ''} ${selectedUsers.length === 1 ? 'person' : 'people'}`
+              'Save'
             )}
           </Button>
         </DialogFooter>
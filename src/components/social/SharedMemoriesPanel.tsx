@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -19,6 +20,8 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { audienceService } from '@/services/audienceService';
+import { SharedWithMeMemory } from '@/types/audience';
 
 interface ShareWithMemory {
   id: string;
@@ -42,7 +45,9 @@ interface ShareWithMemory {
 export const SharedMemoriesPanel = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [sharedWithMe, setSharedWithMe] = useState<ShareWithMemory[]>([]);
+  const [throughCircles, setThroughCircles] = useState<SharedWithMeMemory[]>([]);
   const [myShares, setMyShares] = useState<ShareWithMemory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [changeRequestDialog, setChangeRequestDialog] = useState<ShareWithMemory | null>(null);
@@ -114,8 +119,12 @@ export const SharedMemoriesPanel = () => {
         recipient_name: profileMap.get(s.recipient_id)
       })) || [];
 
+      // Memories shared with a circle I'm in arrive without a share record
+      const circleShares = (await audienceService.getSharedWithMe()).filter(m => m.shared_via === 'circle');
+
       setSharedWithMe(enrichReceived);
       setMyShares(enrichSent);
+      setThroughCircles(circleShares);
     } catch (error) {
       console.error('Error loading shares:', error);
       toast({
@@ -239,7 +248,7 @@ export const SharedMemoriesPanel = () => {
         </TabsList>
 
         <TabsContent value="received" className="space-y-4 mt-4">
-          {sharedWithMe.length === 0 ? (
+          {sharedWithMe.length === 0 && throughCircles.length === 0 ? (
             <Card>
               <CardContent className="py-8 text-center text-muted-foreground">
                 <Users className="w-12 h-12 mx-auto mb-2 opacity-50" />
@@ -291,7 +300,30 @@ export const SharedMemoriesPanel = () => {
                             <p className="font-medium">{share.memory?.title || 'Untitled Memory'}</p>
                             <p className="text-sm text-muted-foreground">From: {share.sharer_name}</p>
                           </div>
-                          <Button size="sm" variant="outline">
+                          <Button size="sm" variant="outline" onClick={() => navigate(`/visitor/${share.sharer_id}`)}>
+                            <Eye className="w-4 h-4 mr-1" /> View
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+
+              {throughCircles.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="font-medium text-sm text-muted-foreground">Through circles</h3>
+                  {throughCircles.map((memory) => (
+                    <Card key={`${memory.owner_user_id}-${memory.memory_group_id}`} className="border-l-4 border-l-blue-500">
+                      <CardContent className="pt-4">
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <p className="font-medium">{memory.title || 'Untitled Memory'}</p>
+                            <p className="text-sm text-muted-foreground">
+                              From: {memory.owner_name || 'Unknown'} · {memory.circle_name}
+                            </p>
+                          </div>
+                          <Button size="sm" variant="outline" onClick={() => navigate(`/visitor/${memory.owner_user_id}`)}>
                             <Eye className="w-4 h-4 mr-1" /> View
                           </Button>
                         </div>
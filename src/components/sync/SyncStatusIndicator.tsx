@@ -0,0 +1,147 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Cloud, CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { useToast } from '@/hooks/use-toast';
+import { syncService } from '@/services/syncService';
+import { OutboxEntry } from '@/types/sync';
+
+const KIND_LABELS: Record<OutboxEntry['kind'], string> = {
+  'memory.insert': 'New memory',
+  'memory.save': 'New memory',
+  'memory.update': 'Edit',
+  'memory.delete': 'Deletion',
+  'artifact.upload': 'Photo or video',
+  'recording.upload': 'Recording',
+};
+
+interface SyncStatusIndicatorProps {
+  compact?: boolean; // Mobile bottom bar
+}
+
+/**
+ * Shows whether the app is online and how many offline changes are waiting,
+ * with conflicts and failed uploads to resolve.
+ */
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ compact = false }) => {
+  const status = useSyncStatus();
+  const { toast } = useToast();
+  const needsAttention = status.conflicts.length + status.failed.length;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Sync error',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const Icon = !status.online ? CloudOff : status.syncing ? Loader2 : needsAttention > 0 ? AlertTriangle : Cloud;
+  const label = !status.online
+    ? 'Offline'
+    : status.syncing
+      ? 'Syncing'
+      : needsAttention > 0
+        ? 'Needs attention'
+        : status.pending > 0
+          ? 'Waiting to sync'
+          : 'Synced';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label={`Sync status: ${label}`}
+          className={
+            compact
+              ? 'flex flex-col items-center gap-0.5 h-auto py-1.5 px-2 min-w-0 font-light flex-shrink-0 text-muted-foreground'
+              : 'font-manrope font-medium flex items-center gap-1.5 text-sm px-3 py-2 h-10 text-foreground/80 hover:text-foreground hover:bg-accent/10'
+          }
+        >
+          <Icon
+            className={`w-4 h-4 ${status.syncing ? 'animate-spin' : ''} ${needsAttention > 0 ? 'text-destructive' : ''}`}
+          />
+          {compact && <span className="text-[10px] leading-tight text-center">{label.split(' ')[0]}</span>}
+          {status.pending + needsAttention > 0 && (
+            <Badge variant={needsAttention > 0 ? 'destructive' : 'secondary'} className="h-5 min-w-5 text-xs px-1">
+              {status.pending + needsAttention}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 z-[2147483647]">
+        <div className="space-y-3">
+          <div>
+            <p className="font-medium">{label}</p>
+            <p className="text-sm text-muted-foreground">
+              {!status.online
+                ? 'New memories, photos and recordings are kept on this device and sync when you reconnect.'
+                : status.pending > 0
+                  ? `${status.pending} change(s) waiting to sync.`
+                  : status.last_synced_at
+                    ? `Last synced ${formatDistanceToNow(new Date(status.last_synced_at), { addSuffix: true })}.`
+                    : 'Everything is up to date.'}
+            </p>
+          </div>
+
+          {status.conflicts.map(entry => (
+            <div key={entry.id} className="rounded-md border p-3 space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">{entry.label}</span>
+                <span className="text-muted-foreground">
+                  {entry.server_copy
+                    ? ' was changed elsewhere while you were offline.'
+                    : ' was deleted elsewhere while you were offline.'}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">{KIND_LABELS[entry.kind]} made on this device</p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => run(() => syncService.resolveConflict(entry.id, 'mine'))}>
+                  Keep mine
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => run(() => syncService.resolveConflict(entry.id, 'theirs'))}>
+                  Keep theirs
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {status.failed.map(entry => (
+            <div key={entry.id} className="rounded-md border border-destructive/40 p-3 space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">{KIND_LABELS[entry.kind]}: {entry.label}</span>
+                <span className="text-muted-foreground"> couldn't be synced.</span>
+              </p>
+              {entry.last_error && <p className="text-xs text-muted-foreground">{entry.last_error}</p>}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => run(() => syncService.retry(entry.id))}>
+                  <RefreshCw className="w-3 h-3 mr-1" />
+                  Retry
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => run(() => syncService.discard(entry.id))}>
+                  Discard
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {status.online && status.pending > 0 && !status.syncing && (
+            <Button size="sm" variant="outline" className="w-full" onClick={() => run(() => syncService.flush())}>
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Sync now
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -3,6 +3,8 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Calendar, MapPin, Tag as TagIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { AudioClipPlayer } from '@/components/AudioClipPlayer';
+import { isAudioClip } from '@/services/audioClipService';
 
 interface Memory {
   id: string;
@@ -36,11 +38,19 @@ export const TimelineChapter: React.FC<TimelineChapterProps> = ({
   isPast = false,
   isFuture = false,
 }) => {
+  // Clips are audio artifacts; everything else shown on a card is an image
+  const getImageArtifacts = (memoryId: string) =>
+    (memoryArtifacts.get(memoryId) || []).filter((a) => a.artifact_type === 'image');
+  const getClips = (memoryId: string) =>
+    (memoryArtifacts.get(memoryId) || [])
+      .filter(isAudioClip)
+      .map((a) => ({ ...a, audio_url: a.signedUrl }));
+
   // Get hero image from first memory with artifacts OR image_urls
   const heroMemory = memories.find(m => 
-    memoryArtifacts.get(m.id)?.length > 0 || (m.image_urls && m.image_urls.length > 0)
+    getImageArtifacts(m.id).length > 0 || (m.image_urls && m.image_urls.length > 0)
   );
-  const heroArtifact = heroMemory ? memoryArtifacts.get(heroMemory.id)?.[0] : null;
+  const heroArtifact = heroMemory ? getImageArtifacts(heroMemory.id)[0] : null;
   // Fallback to memory.image_urls if no artifact
   const heroImageUrl = heroArtifact?.signedUrl || (heroMemory?.image_urls?.[0] ? heroMemory.image_urls[0] : null);
 
@@ -94,7 +104,8 @@ export const TimelineChapter: React.FC<TimelineChapterProps> = ({
           {hasMemories && (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 lg:gap-16">
               {memories.map((memory, index) => {
-                const artifacts = memoryArtifacts.get(memory.id) || [];
+                const artifacts = getImageArtifacts(memory.id);
+                const clips = getClips(memory.id);
                 const hasArtifactImage = artifacts.length > 0;
                 const hasMemoryImage = memory.image_urls && memory.image_urls.length > 0;
                 const hasImage = hasArtifactImage || hasMemoryImage;
@@ -159,6 +170,13 @@ export const TimelineChapter: React.FC<TimelineChapterProps> = ({
                         <p className="font-manrope font-light text-sm text-muted-foreground leading-relaxed mb-4 line-clamp-3">
                           {memory.text}
                         </p>
+                        {clips.length > 0 && (
+                          <div className="space-y-2 mb-4">
+                            {clips.map((clip) => (
+                              <AudioClipPlayer key={clip.id} clip={clip} compact />
+                            ))}
+                          </div>
+                        )}
                         {memory.memory_location && (
                           <div className="flex items-center gap-1.5 text-xs text-muted-foreground pt-4 border-t border-border">
                             <MapPin className="w-3 h-3" />
@@ -213,7 +231,8 @@ export const TimelineChapter: React.FC<TimelineChapterProps> = ({
       <div className="max-w-7xl mx-auto">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 lg:gap-16">
           {memories.map((memory, index) => {
-            const artifacts = memoryArtifacts.get(memory.id) || [];
+            const artifacts = getImageArtifacts(memory.id);
+            const clips = getClips(memory.id);
             // Check for images from both artifacts AND memory.image_urls
             const hasArtifactImage = artifacts.length > 0;
             const hasMemoryImage = memory.image_urls && memory.image_urls.length > 0;
@@ -274,6 +293,15 @@ export const TimelineChapter: React.FC<TimelineChapterProps> = ({
                       {memory.text}
                     </p>
 
+                    {/* Audio clips */}
+                    {clips.length > 0 && (
+                      <div className="space-y-2 mb-4">
+                        {clips.map((clip) => (
+                          <AudioClipPlayer key={clip.id} clip={clip} compact />
+                        ))}
+                      </div>
+                    )}
+
                     {/* Location & Tags */}
                     <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-border">
                       {memory.memory_location && (
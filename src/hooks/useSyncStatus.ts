@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { syncService } from '@/services/syncService';
+import { SyncStatus } from '@/types/sync';
+
+/** Live offline queue state: connectivity, pending writes, conflicts and failures */
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(() => syncService.getStatus());
+
+  useEffect(() => {
+    setStatus(syncService.getStatus());
+    return syncService.subscribe(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { configurationService } from '@/services/configurationService';
+import {
+  createVoiceAgentSession,
+  resolveVoiceProvider,
+  voiceProviderProblem,
+} from '@/services/voiceAgentSession';
+import type {
+  VoiceAgentSession,
+  VoiceClientTools,
+  VoiceConnectOptions,
+  VoiceSessionCallbacks,
+  VoiceSessionProvider,
+  VoiceSessionStatus,
+} from '@/types/voiceAgent';
+
+export interface UseVoiceAgentSessionOptions extends VoiceSessionCallbacks {
+  clientTools?: VoiceClientTools;
+}
+
+/**
+ * A voice agent session on the admin-selected provider. Tools and callbacks
+ * are read from the latest render, so they never see stale state; a session
+ * keeps the provider it was started with if the configuration changes.
+ */
+export function useVoiceAgentSession(options: UseVoiceAgentSessionOptions = {}) {
+  const optionsRef = useRef(options);
+  const sessionRef = useRef<VoiceAgentSession | null>(null);
+  const [provider, setProvider] = useState<VoiceSessionProvider>(() =>
+    resolveVoiceProvider(configurationService.getConfig())
+  );
+  const [status, setStatus] = useState<VoiceSessionStatus>('disconnected');
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    return configurationService.subscribe(config => setProvider(resolveVoiceProvider(config)));
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      sessionRef.current?.disconnect().catch(console.error);
+      sessionRef.current = null;
+    };
+  }, []);
+
+  const connect = useCallback(async (connectOptions?: VoiceConnectOptions) => {
+    if (sessionRef.current && sessionRef.current.status !== 'disconnected') return;
+
+    const config = configurationService.getConfig();
+    const sessionProvider = resolveVoiceProvider(config);
+    const problem = voiceProviderProblem(sessionProvider, config);
+    if (problem) throw new Error(problem);
+
+    const current = () => optionsRef.current;
+    const session = createVoiceAgentSession(sessionProvider, {
+      config,
+      getTools: () => current().clientTools ?? {},
+      callbacks: {
+        onConnect: () => current().onConnect?.(),
+        onDisconnect: () => current().onDisconnect?.(),
+        onError: (error) => current().onError?.(error),
+        onStatusChange: (next) => {
+          setStatus(next);
+          current().onStatusChange?.(next);
+        },
+        onSpeakingChange: (speaking) => {
+          setIsSpeaking(speaking);
+          current().onSpeakingChange?.(speaking);
+        },
+        onTranscript: (event) => current().onTranscript?.(event),
+        onToolCall: (name, parameters, result) => current().onToolCall?.(name, parameters, result),
+        onAgentAudioStream: (stream) => current().onAgentAudioStream?.(stream),
+        onAgentAudioChunk: (base64Audio) => current().onAgentAudioChunk?.(base64Audio),
+      },
+    });
+
+    sessionRef.current = session;
+    setProvider(sessionProvider);
+    await session.connect(connectOptions);
+  }, []);
+
+  const disconnect = useCallback(async () => {
+    await sessionRef.current?.disconnect();
+  }, []);
+
+  const sendContext = useCallback((text: string) => {
+    sessionRef.current?.sendContext(text);
+  }, []);
+
+  const setVolume = useCallback((volume: number) => {
+    sessionRef.current?.setVolume(volume);
+  }, []);
+
+  const getAgentAudioStream = useCallback(() => sessionRef.current?.getAgentAudioStream() ?? null, []);
+
+  return {
+    provider,
+    status,
+    isSpeaking,
+    connect,
+    disconnect,
+    sendContext,
+    setVolume,
+    getAgentAudioStream,
+  };
+}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { MESSAGING_CHANNELS } from '@/types/messagingChannel';
 
 interface WhatsAppMemory {
   id: string;
@@ -46,7 +47,7 @@ export function useWhatsAppMemories() {
         (payload) => {
           if (payload.eventType === 'INSERT') {
             const newMemory = payload.new as WhatsAppMemory;
-            if (newMemory.source_type === 'whatsapp') {
+            if ((MESSAGING_CHANNELS as string[]).includes(newMemory.source_type)) {
               setMemories((prev) => [newMemory, ...prev]);
             }
           } else if (payload.eventType === 'UPDATE') {
@@ -74,7 +75,7 @@ export function useWhatsAppMemories() {
         .from('memories')
         .select('*')
         .eq('user_id', user!.id)
-        .eq('source_type', 'whatsapp')
+        .in('source_type', MESSAGING_CHANNELS)
         .order('created_at', { ascending: false });
 
       if (fetchError) throw fetchError;
@@ -0,0 +1,133 @@
+/**
+ * Browser-side audio clip rendering: waveform peaks for the clip editor, and
+ * trimming a range of a decoded recording to a mono WAV with short fades and
+ * optional peak normalisation.
+ */
+
+export const CLIP_SAMPLE_RATE = 24000; // Plenty for speech and laughter; keeps WAV clips small
+const FADE_SECONDS = 0.015; // Avoids clicks at the cut points
+const NORMALIZE_PEAK = 0.89; // About -1 dBFS
+const MAX_GAIN = 8; // Don't turn near-silence into hiss
+
+export interface ClipRenderOptions {
+  normalize: boolean;
+}
+
+export interface RenderedClip {
+  blob: Blob;
+  duration: number; // Seconds
+  gain: number; // Applied by normalisation; 1 when off
+}
+
+export async function decodeAudio(data: ArrayBuffer): Promise<AudioBuffer> {
+  const context = new AudioContext();
+  try {
+    return await context.decodeAudioData(data);
+  } finally {
+    context.close();
+  }
+}
+
+/** Loudest sample per bin (0-1) across channels, for drawing a waveform */
+export function computePeaks(buffer: AudioBuffer, bins: number): number[] {
+  const samplesPerBin = Math.max(1, Math.floor(buffer.length / bins));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const peaks: number[] = [];
+
+  for (let bin = 0; bin < bins; bin++) {
+    const start = bin * samplesPerBin;
+    const end = Math.min(buffer.length, start + samplesPerBin);
+    let peak = 0;
+    for (const data of channels) {
+      // Stride through long bins; the waveform only needs the envelope
+      for (let i = start; i < end; i += 16) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks.push(Math.min(1, peak));
+  }
+
+  return peaks;
+}
+
+/** The part of [start, end) that lies inside a recording of totalDuration seconds */
+export function clipBounds(start: number, end: number, totalDuration: number): { start: number; end: number; duration: number } {
+  const clampedStart = Math.max(0, Math.min(start, totalDuration));
+  const clampedEnd = Math.max(clampedStart, Math.min(end, totalDuration));
+  return { start: clampedStart, end: clampedEnd, duration: clampedEnd - clampedStart };
+}
+
+/** Normalise (optionally) and fade rendered samples in place; returns the gain applied */
+export function shapeClipSamples(samples: Float32Array, normalize: boolean): number {
+  let gain = 1;
+  if (normalize) {
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    if (peak > 0) gain = Math.min(MAX_GAIN, NORMALIZE_PEAK / peak);
+  }
+
+  const fadeFrames = Math.min(Math.floor(FADE_SECONDS * CLIP_SAMPLE_RATE), Math.floor(samples.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    const fade = Math.min(1, i / fadeFrames, (samples.length - 1 - i) / fadeFrames);
+    samples[i] = Math.max(-1, Math.min(1, samples[i] * gain * (fadeFrames > 0 ? fade : 1)));
+  }
+  return gain;
+}
+
+/** Trim [start, end) seconds to mono at CLIP_SAMPLE_RATE, fade the edges and optionally normalise */
+export async function renderClip(
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+  options: ClipRenderOptions,
+): Promise<RenderedClip> {
+  const { start: clampedStart, duration } = clipBounds(start, end, buffer.duration);
+  if (duration <= 0) throw new Error('Select a range to clip');
+
+  const frames = Math.ceil(duration * CLIP_SAMPLE_RATE);
+  const offline = new OfflineAudioContext(1, frames, CLIP_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start(0, clampedStart, duration);
+  const rendered = await offline.startRendering();
+
+  const samples = rendered.getChannelData(0);
+  const gain = shapeClipSamples(samples, options.normalize);
+
+  return { blob: encodeWav(samples, CLIP_SAMPLE_RATE), duration, gain };
+}
+
+/** 16-bit PCM mono WAV */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+}
@@ -0,0 +1,48 @@
+import { addMonths } from 'date-fns';
+import { IdentityConsent, IdentityConsentInput } from '@/types/identityTraining';
+
+/**
+ * Consent form values for identity training: the blank form, a renewal of an
+ * existing consent, and what still has to be filled in.
+ */
+
+export const DEFAULT_EXPIRY_MONTHS = 12;
+
+export const emptyConsentInput = (): IdentityConsentInput => ({
+  subject_type: 'self',
+  subject_name: '',
+  subject_user_id: null,
+  relationship: null,
+  guardian_name: null,
+  guardian_relationship: null,
+  expires_at: addMonths(new Date(), DEFAULT_EXPIRY_MONTHS).toISOString(),
+});
+
+/** Start a renewal from the identity's current consent, with a fresh expiry */
+export const consentInputFrom = (consent: IdentityConsent): IdentityConsentInput => ({
+  subject_type: consent.subject_type,
+  subject_name: consent.subject_name,
+  subject_user_id: consent.subject_type === 'connected_user' ? consent.subject_user_id : null,
+  relationship: consent.relationship,
+  guardian_name: consent.guardian_name,
+  guardian_relationship: consent.guardian_relationship,
+  expires_at: addMonths(new Date(), DEFAULT_EXPIRY_MONTHS).toISOString(),
+});
+
+/**
+ * What's missing before the consent can be recorded, or null. A connection's
+ * consent (current) can only be asked of them again, as record_identity_consent
+ * enforces.
+ */
+export const consentInputProblem = (input: IdentityConsentInput, current?: IdentityConsent | null): string | null => {
+  if (current?.subject_type === 'connected_user'
+    && (input.subject_type !== 'connected_user' || input.subject_user_id !== current.subject_user_id)) {
+    return `Only ${current.subject_name} can consent to this identity; ask them again`;
+  }
+  if (!input.subject_name.trim()) return 'Name the person in the photos';
+  if (input.subject_type === 'connected_user' && !input.subject_user_id) return 'Choose the connection';
+  if ((input.subject_type === 'deceased' || input.subject_type === 'minor') && !input.guardian_name?.trim()) {
+    return 'Name the guardian who gave consent';
+  }
+  return null;
+};
@@ -0,0 +1,95 @@
+/**
+ * IndexedDB storage for offline capture. Three object stores:
+ * - memories: the last known copy of the user's memories plus ones created
+ *   offline that haven't reached the server yet
+ * - outbox: queued writes, replayed in order by syncService
+ * - blobs: files waiting to be uploaded (memory images, artifacts, recordings)
+ */
+
+const DB_NAME = 'solin-offline';
+const DB_VERSION = 1;
+
+export type OfflineStore = 'memories' | 'outbox' | 'blobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function isOfflineDbSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openOfflineDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('memories')) {
+          db.createObjectStore('memories', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('outbox')) {
+          const outbox = db.createObjectStore('outbox', { keyPath: 'id' });
+          outbox.createIndex('created_at', 'created_at');
+        }
+        if (!db.objectStoreNames.contains('blobs')) {
+          db.createObjectStore('blobs', { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function idbGet<T>(store: OfflineStore, key: string): Promise<T | undefined> {
+  const db = await openOfflineDb();
+  return requestToPromise(db.transaction(store).objectStore(store).get(key)) as Promise<T | undefined>;
+}
+
+export async function idbGetAll<T>(store: OfflineStore): Promise<T[]> {
+  const db = await openOfflineDb();
+  return requestToPromise(db.transaction(store).objectStore(store).getAll()) as Promise<T[]>;
+}
+
+export async function idbPut<T>(store: OfflineStore, value: T): Promise<void> {
+  const db = await openOfflineDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+export async function idbDelete(store: OfflineStore, key: string): Promise<void> {
+  const db = await openOfflineDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+/** Replace a store's contents except the records keep() holds on to, in one transaction */
+export async function idbReplaceAll<T extends { id: string }>(
+  store: OfflineStore,
+  values: T[],
+  keep: (existing: T) => boolean = () => false
+): Promise<void> {
+  const db = await openOfflineDb();
+  const existing = await idbGetAll<T>(store);
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const incoming = new Set(values.map(value => value.id));
+    existing
+      .filter(record => !incoming.has(record.id) && !keep(record))
+      .forEach(record => objectStore.delete(record.id));
+    values.forEach(value => objectStore.put(value));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,136 @@
+import { TrainingImageCheck } from '@/types/identityTraining';
+
+/**
+ * Photo checks for identity training, run in the browser before anything is
+ * uploaded. train-identity repeats the resolution and exact-duplicate checks
+ * on the stored files; face counts only come from here, using the Shape
+ * Detection API where the browser has it.
+ */
+
+export const MIN_IMAGE_RESOLUTION = 512;
+
+// Photos this close (bits differing out of 64) are treated as the same shot
+const NEAR_DUPLICATE_DISTANCE = 4;
+
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorLike {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { maxDetectedFaces?: number; fastMode?: boolean }) => FaceDetectorLike;
+
+function getFaceDetector(): FaceDetectorLike | null {
+  const FaceDetector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!FaceDetector) return null;
+  try {
+    return new FaceDetector({ maxDetectedFaces: 5, fastMode: true });
+  } catch {
+    return null;
+  }
+}
+
+async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** 64-bit difference hash of a 9x8 grayscale thumbnail */
+function differenceHash(bitmap: ImageBitmap): bigint {
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const context = canvas.getContext('2d');
+  if (!context) return 0n;
+  context.drawImage(bitmap, 0, 0, 9, 8);
+  const { data } = context.getImageData(0, 0, 9, 8);
+
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const left = (y * 9 + x) * 4;
+      const right = left + 4;
+      const leftGray = data[left] * 0.299 + data[left + 1] * 0.587 + data[left + 2] * 0.114;
+      const rightGray = data[right] * 0.299 + data[right + 1] * 0.587 + data[right + 2] * 0.114;
+      hash = (hash << 1n) | (leftGray > rightGray ? 1n : 0n);
+    }
+  }
+  return hash;
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+interface PhotoFingerprint {
+  sha256: string;
+  hash: bigint | null; // differenceHash, when the photo could be read
+}
+
+/** The same file, or near enough the same shot */
+export function isSamePhoto(a: PhotoFingerprint, b: PhotoFingerprint): boolean {
+  return a.sha256 === b.sha256 ||
+    (a.hash !== null && b.hash !== null && hammingDistance(a.hash, b.hash) <= NEAR_DUPLICATE_DISTANCE);
+}
+
+/** Resolution and face count problems; unknown sizes and face counts pass */
+export function photoIssues(width: number | null, height: number | null, faceCount: number | null): string[] {
+  const issues: string[] = [];
+  if (width !== null && height !== null && Math.min(width, height) < MIN_IMAGE_RESOLUTION) {
+    issues.push(`Too small (${width}x${height}); needs ${MIN_IMAGE_RESOLUTION}px on the short side`);
+  }
+  if (faceCount === 0) issues.push('No face found');
+  if (faceCount !== null && faceCount > 1) issues.push(`${faceCount} faces; use photos of one person`);
+  return issues;
+}
+
+/** Check each photo for resolution, face count and duplicates of earlier photos */
+export async function checkTrainingImages(files: File[]): Promise<TrainingImageCheck[]> {
+  const detector = getFaceDetector();
+  const seen: (PhotoFingerprint & { name: string })[] = [];
+  const checks: TrainingImageCheck[] = [];
+
+  for (const file of files) {
+    const issues: string[] = [];
+    const sha256 = await sha256Hex(await file.arrayBuffer());
+    let width: number | null = null;
+    let height: number | null = null;
+    let faceCount: number | null = null;
+    let hash: bigint | null = null;
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      width = bitmap.width;
+      height = bitmap.height;
+      hash = differenceHash(bitmap);
+      if (detector) {
+        try {
+          faceCount = (await detector.detect(bitmap)).length;
+        } catch (error) {
+          console.warn('Face detection failed:', error);
+        }
+      }
+      bitmap.close();
+    } catch {
+      issues.push('Could not be read as an image');
+    }
+
+    issues.push(...photoIssues(width, height, faceCount));
+
+    const duplicate = seen.find(other => isSamePhoto({ sha256, hash }, other));
+    if (duplicate) issues.push(`Same photo as ${duplicate.name}`);
+
+    seen.push({ name: file.name, sha256, hash });
+    checks.push({ path: file.name, width, height, face_count: faceCount, sha256, issues });
+  }
+
+  return checks;
+}
@@ -0,0 +1,126 @@
+import { TranscriptSegment, TranscriptSpeaker, TranscriptWord } from '@/types/speech';
+
+/**
+ * Transcript segments for voice_recordings. Recorders only know when each
+ * final transcript arrived, so utterance spans are estimated from speaking
+ * rate: a user's words arrive once they have finished speaking, Solin's as
+ * it starts. Word timings from the speech function, where a recording has
+ * them, pin segment starts to the audio.
+ */
+
+const WORDS_PER_SECOND = 2.5;
+const WORD_ALIGN_WINDOW_SECONDS = 4;
+
+export interface TimedTranscriptEntry {
+  at: number; // Seconds from the start of the recording when the text arrived
+  speaker: TranscriptSpeaker;
+  text: string;
+  confidence?: number;
+  audioAt?: number; // Seconds; when Solin's audio for this entry was heard, if correlated
+}
+
+const round = (seconds: number) => Math.round(seconds * 10) / 10;
+
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+export function buildTranscriptSegments(entries: TimedTranscriptEntry[], durationSeconds?: number): TranscriptSegment[] {
+  const sorted = entries
+    .filter(entry => entry.text.trim())
+    .sort((a, b) => (a.audioAt ?? a.at) - (b.audioAt ?? b.at));
+
+  const estimated = sorted.map(entry => {
+    const words = entry.text.trim().split(/\s+/).length;
+    const spoken = Math.max(1, words / WORDS_PER_SECOND);
+    const start = entry.speaker === 'user' ? entry.at - spoken : entry.audioAt ?? entry.at;
+    return { entry, start: Math.max(0, start), end: start + spoken };
+  });
+
+  const segments: TranscriptSegment[] = [];
+  estimated.forEach(({ entry, start, end }, index) => {
+    const previous = segments[segments.length - 1];
+    const next = estimated[index + 1];
+    const clampedStart = Math.max(start, previous?.start ?? 0);
+    let clampedEnd = next && next.start > clampedStart ? Math.min(end, next.start) : end;
+    if (durationSeconds) clampedEnd = Math.min(clampedEnd, durationSeconds);
+
+    segments.push({
+      speaker: entry.speaker,
+      start: round(clampedStart),
+      end: round(Math.max(clampedEnd, clampedStart)),
+      text: entry.text.trim(),
+      ...(entry.confidence != null && { confidence: entry.confidence }),
+    });
+  });
+
+  return segments;
+}
+
+/** Segments from the legacy "[12s] USER: text (93%)" transcript_text lines */
+export function parseTranscriptText(transcriptText: string): TranscriptSegment[] {
+  if (!transcriptText) return [];
+
+  const parsed = transcriptText.split('\n').filter(line => line.trim()).map(line => {
+    const match = line.match(/^\[(\d+)s\]\s+(USER|AI):\s+(.+?)(?:\s+\((\d+)%\))?$/);
+    if (!match) return { speaker: 'user' as const, start: 0, end: 0, text: line.trim() };
+    return {
+      speaker: match[2].toLowerCase() as TranscriptSpeaker,
+      start: parseInt(match[1]),
+      end: parseInt(match[1]),
+      text: match[3],
+      ...(match[4] && { confidence: parseInt(match[4]) / 100 }),
+    };
+  });
+
+  return parsed.map((segment, index) => ({
+    ...segment,
+    end: Math.max(segment.start, parsed[index + 1]?.start ?? segment.start),
+  }));
+}
+
+/** A recording's segments: stored ones, or parsed from transcript_text for older recordings */
+export function getRecordingSegments(recording: {
+  transcript_segments?: TranscriptSegment[] | null;
+  transcript_words?: TranscriptWord[] | null;
+  transcript_text?: string | null;
+}): TranscriptSegment[] {
+  const segments = recording.transcript_segments?.length
+    ? recording.transcript_segments
+    : parseTranscriptText(recording.transcript_text || '');
+  return recording.transcript_words?.length ? alignSegmentsToWords(segments, recording.transcript_words) : segments;
+}
+
+/** Move each segment's start to where its first word was actually heard, if it is nearby */
+export function alignSegmentsToWords(segments: TranscriptSegment[], words: TranscriptWord[]): TranscriptSegment[] {
+  let cursor = 0;
+  return segments.map(segment => {
+    const first = normalizeWord(segment.text.split(/\s+/)[0] || '');
+    if (!first) return segment;
+
+    for (let i = cursor; i < words.length; i++) {
+      const word = words[i];
+      if (word.start > segment.start + WORD_ALIGN_WINDOW_SECONDS) break;
+      if (word.start >= segment.start - WORD_ALIGN_WINDOW_SECONDS && normalizeWord(word.word) === first) {
+        cursor = i + 1;
+        return { ...segment, start: round(word.start), end: Math.max(segment.end, round(word.start)) };
+      }
+    }
+    return segment;
+  });
+}
+
+/** The first time one of the words is heard inside a segment's span, with some slack */
+export function findWordInSegment(
+  words: TranscriptWord[] | null | undefined,
+  segment: TranscriptSegment,
+  targets: string[],
+): TranscriptWord | undefined {
+  if (!words?.length) return undefined;
+  const normalized = targets.map(normalizeWord).filter(Boolean);
+  return words.find(word =>
+    word.start >= segment.start - WORD_ALIGN_WINDOW_SECONDS &&
+    word.start <= segment.end + WORD_ALIGN_WINDOW_SECONDS &&
+    normalized.includes(normalizeWord(word.word))
+  );
+}
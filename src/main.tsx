@@ -1,5 +1,19 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { syncService } from './services/syncService'
+
+// Replay memories, uploads and edits queued while offline
+syncService.start();
+
+// The app shell is cached for offline use in production builds only, so dev
+// servers always serve fresh modules
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { AddMemoryForm } from '@/components/AddMemoryForm';
+import { MemoryImporter } from '@/components/MemoryImporter';
 
 const AddMemory = () => {
   return (
@@ -25,6 +26,10 @@ const AddMemory = () => {
         <div className="modern-card p-6">
           <AddMemoryForm />
         </div>
+
+        <div className="modern-card p-6 mt-8">
+          <MemoryImporter />
+        </div>
       </div>
     </div>
   );
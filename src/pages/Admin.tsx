@@ -17,8 +17,11 @@ import { ElevenLabsCreditsPanel } from '@/components/admin/ElevenLabsCreditsPane
 import { UserManagementPanel } from '@/components/admin/UserManagementPanel';
 import { WaitlistPanel } from '@/components/admin/WaitlistPanel';
 import { InsightsConfigPanel } from '@/components/admin/InsightsConfigPanel';
+import { ImageGenerationConfigPanel } from '@/components/admin/ImageGenerationConfigPanel';
+import { SpeechConfigPanel } from '@/components/admin/SpeechConfigPanel';
 import { WhatsAppMemoriesPanel } from '@/components/admin/WhatsAppMemoriesPanel';
 import { IncompleteMemoriesPanel } from '@/components/admin/IncompleteMemoriesPanel';
+import { LegacyClaimsPanel } from '@/components/admin/LegacyClaimsPanel';
 import { hasAdminAccess } from '@/utils/adminCheck';
 import { 
   Activity,
@@ -36,7 +39,8 @@ import {
   Trash2,
   Cog,
   Lightbulb,
-  MessageSquare
+  MessageSquare,
+  HeartHandshake
 } from 'lucide-react';
 
 const Admin = () => {
@@ -243,7 +247,7 @@ const Admin = () => {
 
         {/* Main Dashboard Tabs */}
         <Tabs defaultValue="diagnostics" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-12 bg-slate-800/50 border-slate-700">
+          <TabsList className="grid w-full grid-cols-[repeat(13,minmax(0,1fr))] bg-slate-800/50 border-slate-700">
             <TabsTrigger value="waitlist" className="flex items-center gap-2 data-[state=active]:bg-purple-600">
               <Users className="w-4 h-4" />
               Waitlist
@@ -252,6 +256,10 @@ const Admin = () => {
               <MessageSquare className="w-4 h-4" />
               WhatsApp
             </TabsTrigger>
+            <TabsTrigger value="legacy" className="flex items-center gap-2 data-[state=active]:bg-purple-600">
+              <HeartHandshake className="w-4 h-4" />
+              Legacy
+            </TabsTrigger>
             <TabsTrigger value="diagnostics" className="flex items-center gap-2 data-[state=active]:bg-purple-600">
               <Activity className="w-4 h-4" />
               Diagnostics
@@ -303,6 +311,10 @@ const Admin = () => {
             <IncompleteMemoriesPanel />
           </TabsContent>
 
+          <TabsContent value="legacy" className="space-y-6">
+            <LegacyClaimsPanel />
+          </TabsContent>
+
           <TabsContent value="diagnostics" className="space-y-6">
             <DiagnosticsPanel />
           </TabsContent>
@@ -324,6 +336,8 @@ const Admin = () => {
 
           <TabsContent value="config" className="space-y-6">
             <ConfigurationPanel />
+            <ImageGenerationConfigPanel />
+            <SpeechConfigPanel />
           </TabsContent>
 
           <TabsContent value="insights" className="space-y-6">
@@ -37,7 +37,9 @@ import {
   Mic,
   Users,
   Trash2,
-  MoreVertical
+  MoreVertical,
+  Pin,
+  PinOff
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
@@ -45,6 +47,8 @@ import { useToast } from '@/hooks/use-toast';
 import { aiVoiceSearch, VoiceSearchResult } from '@/services/aiVoiceSearch';
 import { AudioPlayer } from '@/components/AudioPlayer';
 import { MemoryArchive } from '@/components/MemoryArchive';
+import { RecordingTrash } from '@/components/RecordingTrash';
+import { recordingRetentionService } from '@/services/recordingRetentionService';
 import { logArchiveDisplay } from '@/services/diagnosticLogger';
 
 const Archive = () => {
@@ -59,7 +63,7 @@ const Archive = () => {
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'date' | 'duration' | 'memories'>('date');
-  const [activeTab, setActiveTab] = useState<'recordings' | 'memories' | 'journals'>('recordings');
+  const [activeTab, setActiveTab] = useState<'recordings' | 'memories' | 'journals' | 'trash'>('recordings');
   const [deletingRecordings, setDeletingRecordings] = useState<Set<string>>(new Set());
   
   // Load all voice recordings
@@ -274,7 +278,7 @@ const Archive = () => {
     return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
   };
 
-  // Delete recording function
+  // Move a recording to the trash; it can be restored for 30 days
   const deleteRecording = async (recordingId: string, recordingTitle: string) => {
     if (!user?.id) {
       toast({
@@ -289,11 +293,11 @@ const Archive = () => {
     setDeletingRecordings(prev => new Set(prev).add(recordingId));
 
     try {
-      await aiVoiceSearch.deleteVoiceRecording(user.id, recordingId);
+      await recordingRetentionService.moveToTrash(recordingId);
       
       toast({
-        title: 'Recording Deleted',
-        description: `"${recordingTitle}" has been permanently deleted.`,
+        title: 'Moved to Trash',
+        description: `"${recordingTitle}" can be restored from the trash for 30 days.`,
         variant: 'default'
       });
 
@@ -323,6 +327,28 @@ const Archive = () => {
     }
   };
 
+  // Pin a recording so retention never expires it
+  const toggleKeepForever = async (recording: VoiceSearchResult) => {
+    const keepForever = !recording.keep_forever;
+    try {
+      await recordingRetentionService.setKeepForever(recording.id, keepForever);
+      toast({
+        title: keepForever ? 'Kept Forever' : 'Unpinned',
+        description: keepForever
+          ? 'This recording will never expire.'
+          : 'This recording follows your retention settings again.',
+      });
+      await loadRecordings(false);
+    } catch (error) {
+      console.error('Failed to update recording pin:', error);
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
   // Calculate total stats
   const totalDuration = recordings.reduce((sum, r) => sum + r.duration_seconds, 0);
   const totalMemories = recordings.reduce((sum, r) => sum + (r.memory_titles?.length || 0), 0);
@@ -399,6 +425,17 @@ const Archive = () => {
             <Database className="w-4 h-4" />
             {user ? 'Your Memory Archive' : 'Demo Memory Archive'}
           </Button>
+          {user && (
+            <Button
+              variant={activeTab === 'trash' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('trash')}
+              className="flex items-center gap-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              Trash
+            </Button>
+          )}
         </div>
 
         {/* Voice Recordings Tab */}
@@ -667,6 +704,16 @@ const Archive = () => {
                             <Badge variant="secondary" className="text-xs capitalize">
                               {recording.session_mode?.replace('_', ' ')}
                             </Badge>
+                            {recording.keep_forever ? (
+                              <Badge variant="outline" className="text-xs gap-1">
+                                <Pin className="w-3 h-3" />
+                                Kept forever
+                              </Badge>
+                            ) : recording.expires_at && (
+                              <Badge variant="outline" className="text-xs text-muted-foreground">
+                                Expires {new Date(recording.expires_at).toLocaleDateString()}
+                              </Badge>
+                            )}
                             {/* Audio Status Badge - Always show for debugging */}
                             {!recording.storage_path ? (
                               <Badge variant="destructive" className="text-xs">
@@ -751,6 +798,19 @@ const Archive = () => {
                                 </Button>
                               </DropdownMenuTrigger>
                               <DropdownMenuContent align="end">
+                                <DropdownMenuItem onSelect={() => toggleKeepForever(recording)}>
+                                  {recording.keep_forever ? (
+                                    <>
+                                      <PinOff className="w-4 h-4 mr-2" />
+                                      Stop Keeping Forever
+                                    </>
+                                  ) : (
+                                    <>
+                                      <Pin className="w-4 h-4 mr-2" />
+                                      Keep Forever
+                                    </>
+                                  )}
+                                </DropdownMenuItem>
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
                                     <DropdownMenuItem 
@@ -758,14 +818,14 @@ const Archive = () => {
                                       className="text-red-600 hover:text-red-700 hover:bg-red-50"
                                     >
                                       <Trash2 className="w-4 h-4 mr-2" />
-                                      Delete Recording
+                                      Move to Trash
                                     </DropdownMenuItem>
                                   </AlertDialogTrigger>
                                   <AlertDialogContent>
                                     <AlertDialogHeader>
-                                      <AlertDialogTitle>Delete Voice Recording?</AlertDialogTitle>
+                                      <AlertDialogTitle>Move Voice Recording to Trash?</AlertDialogTitle>
                                       <AlertDialogDescription>
-                                        Are you sure you want to permanently delete this recording?
+                                        This recording will be moved to the trash.
                                         <br /><br />
                                         <strong>Recording:</strong> {recording.conversation_summary || 'Untitled recording'}
                                         <br />
@@ -773,7 +833,7 @@ const Archive = () => {
                                         <br />
                                         <strong>Date:</strong> {new Date(recording.created_at).toLocaleDateString()}
                                         <br /><br />
-                                        This action cannot be undone. The audio file and all associated data will be permanently deleted.
+                                        You can restore it from the trash for 30 days. After that, the audio file and all associated data are permanently deleted.
                                       </AlertDialogDescription>
                                     </AlertDialogHeader>
                                     <AlertDialogFooter>
@@ -782,7 +842,7 @@ const Archive = () => {
                                         onClick={() => deleteRecording(recording.id, recording.conversation_summary || 'Recording')}
                                         className="bg-red-600 hover:bg-red-700"
                                       >
-                                        Delete Permanently
+                                        Move to Trash
                                       </AlertDialogAction>
                                     </AlertDialogFooter>
                                   </AlertDialogContent>
@@ -832,6 +892,11 @@ const Archive = () => {
         {activeTab === 'memories' && (
           <MemoryArchive />
         )}
+
+        {/* Trash Tab */}
+        {activeTab === 'trash' && user && (
+          <RecordingTrash userId={user.id} onRestored={() => loadRecordings(false)} />
+        )}
       </div>
     </div>
   );
@@ -18,6 +18,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { UserSearchDialog } from '@/components/social/UserSearchDialog';
 import { SharedMemoriesPanel } from '@/components/social/SharedMemoriesPanel';
+import { AudienceCirclesPanel } from '@/components/social/AudienceCirclesPanel';
 
 interface ConnectionWithProfile {
   id: string;
@@ -205,7 +206,7 @@ const Connections = () => {
         </div>
 
         <Tabs defaultValue="connections" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="connections" className="gap-2">
               <Users className="w-4 h-4" />
               Connections
@@ -213,6 +214,9 @@ const Connections = () => {
                 <Badge variant="destructive">{incomingRequests.length}</Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="circles" className="gap-2">
+              Circles
+            </TabsTrigger>
             <TabsTrigger value="shared" className="gap-2">
               Shared Memories
             </TabsTrigger>
@@ -318,6 +322,16 @@ const Connections = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="circles">
+            <AudienceCirclesPanel
+              connections={acceptedConnections.map(conn => ({
+                user_id: conn.other_user_id,
+                name: conn.other_user_name || 'Unknown User',
+                relationship_type: conn.relationship_type,
+              }))}
+            />
+          </TabsContent>
+
           <TabsContent value="shared">
             <SharedMemoriesPanel />
           </TabsContent>
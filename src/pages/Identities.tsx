@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,82 +6,142 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
-import { Upload, X, Loader2, Check, AlertCircle } from "lucide-react";
+import { Upload, X, Loader2, Check, AlertCircle, RotateCcw, Ban, ShieldCheck, ShieldOff, History } from "lucide-react";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { identityTrainingService, isConsentActive } from "@/services/identityTrainingService";
+import { checkTrainingImages } from "@/lib/trainingImageQuality";
+import { consentInputProblem, emptyConsentInput } from "@/lib/identityConsent";
+import { IdentityConsentForm } from "@/components/identity/IdentityConsentForm";
+import { IdentityConsentDialog } from "@/components/identity/IdentityConsentDialog";
+import { ConsentHistoryDialog } from "@/components/identity/ConsentHistoryDialog";
+import { LikenessConsentPanel } from "@/components/identity/LikenessConsentPanel";
+import {
+  ACTIVE_TRAINING_STATUSES,
+  IdentityConsent,
+  IdentityConsentInput,
+  TrainedIdentity,
+  TrainingImageCheck,
+  TrainingJob,
+  TrainingJobStatus,
+} from "@/types/identityTraining";
+
+const POLL_INTERVAL_MS = 10000;
+
+const STATUS_LABELS: Record<TrainingJobStatus, string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  training: "Training",
+  succeeded: "Ready",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+// Identities trained before jobs existed only have training_status
+const IDENTITY_STATUS_TO_JOB: Record<string, TrainingJobStatus> = {
+  pending: "queued",
+  queued: "queued",
+  uploading: "uploading",
+  training: "training",
+  completed: "succeeded",
+  failed: "failed",
+  cancelled: "cancelled",
+};
+
+const DEMO_IDENTITY: TrainedIdentity = {
+  id: "demo-1",
+  name: "Demo Identity",
+  hf_model_id: "demo_v1",
+  training_status: "completed",
+  training_error: null,
+  training_job_id: null,
+  image_storage_paths: null,
+  num_training_images: null,
+  training_completed_at: "2025-01-10T00:00:00Z",
+  created_at: "2025-01-10T00:00:00Z",
+  thumbnail_url: "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop",
+};
 
-interface TrainedIdentity {
-  id: string;
-  name: string;
-  modelId: string;
-  status: "completed" | "training" | "failed" | "pending";
-  trainedAt: Date;
-  thumbnailUrl: string;
-  version: string;
-}
+const FALLBACK_THUMBNAIL = "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop";
 
 const Identities = () => {
   const { user } = useAuth();
   const [identityName, setIdentityName] = useState("");
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
-  const [isTraining, setIsTraining] = useState(false);
-  const [trainingProgress, setTrainingProgress] = useState(0);
+  const [imageChecks, setImageChecks] = useState<TrainingImageCheck[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const [consentChecked, setConsentChecked] = useState(false);
+  const [consentInput, setConsentInput] = useState<IdentityConsentInput>(emptyConsentInput);
+  const [consentIdentity, setConsentIdentity] = useState<TrainedIdentity | null>(null);
+  const [historyIdentity, setHistoryIdentity] = useState<TrainedIdentity | null>(null);
   const [trainedIdentities, setTrainedIdentities] = useState<TrainedIdentity[]>([]);
+  const [jobs, setJobs] = useState<Record<string, TrainingJob>>({});
+  const [busyIdentityId, setBusyIdentityId] = useState<string | null>(null);
   const [isLoadingIdentities, setIsLoadingIdentities] = useState(true);
 
-  // Load trained identities from Supabase
-  useEffect(() => {
-    loadTrainedIdentities();
-  }, [user]);
-
-  const loadTrainedIdentities = async () => {
+  const loadTrainedIdentities = useCallback(async () => {
     if (!user?.id) {
       // Show demo identity for non-logged-in users
-      setTrainedIdentities([
-        {
-          id: "demo-1",
-          name: "Demo Identity",
-          modelId: "demo_v1",
-          status: "completed",
-          trainedAt: new Date("2025-01-10"),
-          thumbnailUrl: "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop",
-          version: "v1"
-        }
-      ]);
+      setTrainedIdentities([DEMO_IDENTITY]);
       setIsLoadingIdentities(false);
       return;
     }
 
     try {
-      const { data, error } = await supabase
-        .from('trained_identities')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      const identities = data.map((row: any) => ({
-        id: row.id,
-        name: row.name,
-        modelId: row.hf_model_id,
-        status: row.training_status,
-        trainedAt: new Date(row.training_completed_at || row.created_at),
-        thumbnailUrl: row.thumbnail_url || "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop",
-        version: "v1"
-      }));
-
+      const [identities, latestJobs] = await Promise.all([
+        identityTrainingService.getIdentities(user.id),
+        identityTrainingService.getJobs(),
+      ]);
       setTrainedIdentities(identities);
+      setJobs(Object.fromEntries(latestJobs.map(job => [job.identity_id, job])));
     } catch (error) {
       console.error('Error loading identities:', error);
       toast.error("Failed to load trained identities");
     } finally {
       setIsLoadingIdentities(false);
     }
-  };
+  }, [user?.id]);
+
+  // Load trained identities from Supabase
+  useEffect(() => {
+    loadTrainedIdentities();
+  }, [loadTrainedIdentities]);
+
+  // Follow running jobs until they finish
+  const hasActiveJobs = Object.values(jobs).some(job => ACTIVE_TRAINING_STATUSES.includes(job.status));
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = setInterval(loadTrainedIdentities, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, loadTrainedIdentities]);
+
+  // Re-check every photo whenever the selection changes, so duplicates are
+  // found across the whole set
+  useEffect(() => {
+    if (uploadedImages.length === 0) {
+      setImageChecks([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsChecking(true);
+    checkTrainingImages(uploadedImages)
+      .then(checks => {
+        if (!cancelled) setImageChecks(checks);
+      })
+      .catch(error => console.error('Error checking photos:', error))
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadedImages]);
+
+  const flaggedCount = imageChecks.filter(check => check.issues.length > 0).length;
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
@@ -133,106 +193,78 @@ const Identities = () => {
       return;
     }
 
+    if (flaggedCount > 0) {
+      toast.error("Remove the flagged photos before training");
+      return;
+    }
+
+    const consentProblem = consentInputProblem(consentInput);
+    if (consentProblem) {
+      toast.error(consentProblem);
+      return;
+    }
+
     if (!consentChecked) {
       toast.error("Please confirm consent to use these images");
       return;
     }
 
-    setIsTraining(true);
-    setTrainingProgress(0);
+    setIsSubmitting(true);
+    setUploadProgress(0);
 
     try {
-      console.log('🚀 Starting training process...');
-      
-      // Convert images to base64
-      const imageFiles = await Promise.all(
-        uploadedImages.map(async (file) => {
-          return new Promise<{ name: string; data: string }>((resolve) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-              resolve({
-                name: file.name,
-                data: reader.result as string
-              });
-            };
-            reader.readAsDataURL(file);
-          });
-        })
-      );
-
-      console.log(`📦 Prepared ${imageFiles.length} images for upload`);
-      setTrainingProgress(20);
-
-      // Call edge function
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        throw new Error('Not authenticated');
-      }
-
-      console.log('📡 Calling train-identity edge function...');
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/train-identity`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${session.access_token}`,
-          },
-          body: JSON.stringify({
-            identityName,
-            imageFiles,
-            userId: user.id,
-          }),
-        }
+      const job = await identityTrainingService.startTraining(
+        user.id,
+        identityName.trim(),
+        uploadedImages,
+        imageChecks,
+        consentInput,
+        (uploaded, total) => setUploadProgress(Math.round((uploaded / total) * 100)),
       );
 
-      setTrainingProgress(40);
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Training request failed');
+      if (job.status === 'failed') {
+        toast.error(`Training for "${identityName}" failed: ${job.error}`);
+      } else if (job.status === 'queued' && consentInput.subject_type === 'connected_user') {
+        toast.success(`Training starts once ${consentInput.subject_name} approves`);
+      } else {
+        toast.success(`Identity "${identityName}" is ${STATUS_LABELS[job.status].toLowerCase()}`);
       }
 
-      const result = await response.json();
-      console.log('✅ Training initiated:', result);
-
-      setTrainingProgress(60);
-
-      if (!result.success) {
-        throw new Error(result.error || 'Training failed');
-      }
-
-      setTrainingProgress(80);
-
-      // Reload identities from database
-      await loadTrainedIdentities();
-
-      setTrainingProgress(100);
-
-      toast.success(
-        `✅ Identity "${identityName}" training started! Model: ${result.repoId}`,
-        { duration: 5000 }
-      );
-
       // Reset form
       setIdentityName("");
       setUploadedImages([]);
       imagePreviews.forEach(url => URL.revokeObjectURL(url));
       setImagePreviews([]);
       setConsentChecked(false);
-      
-      // Show success message with link
-      toast.info(
-        `View your model at: ${result.modelUrl}`,
-        { duration: 8000 }
-      );
+      setConsentInput(emptyConsentInput());
+
+      await loadTrainedIdentities();
+    } catch (error) {
+      console.error('Training error:', error);
+      toast.error(`Training failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSubmitting(false);
+      setUploadProgress(0);
+    }
+  };
+
+  const handleJobAction = async (identityId: string, action: 'retry' | 'cancel') => {
+    const job = jobs[identityId];
+    if (!job) return;
 
-    } catch (error: any) {
-      console.error('❌ Training error:', error);
-      toast.error(`Training failed: ${error.message}`);
+    setBusyIdentityId(identityId);
+    try {
+      const updated = action === 'retry'
+        ? await identityTrainingService.retry(job.id)
+        : await identityTrainingService.cancel(job.id);
+      setJobs(prev => ({ ...prev, [identityId]: updated }));
+      toast.success(action === 'retry' ? "Training restarted" : "Training cancelled");
+      await loadTrainedIdentities();
+    } catch (error) {
+      console.error(`Error on ${action}:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} training`);
     } finally {
-      setIsTraining(false);
-      setTimeout(() => setTrainingProgress(0), 1000);
+      setBusyIdentityId(null);
     }
   };
 
@@ -242,14 +274,11 @@ const Identities = () => {
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('trained_identities')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', user.id);
+    if (!confirm("Delete this identity? Its trained model and photos are removed too.")) return;
 
-      if (error) throw error;
+    setBusyIdentityId(id);
+    try {
+      await identityTrainingService.deleteIdentity(id);
 
       // Reload identities
       await loadTrainedIdentities();
@@ -258,9 +287,48 @@ const Identities = () => {
     } catch (error) {
       console.error('Error deleting identity:', error);
       toast.error("Failed to delete identity");
+    } finally {
+      setBusyIdentityId(null);
     }
   };
 
+  const handleRevokeConsent = async (identity: TrainedIdentity) => {
+    if (!identity.consent) return;
+    if (!confirm(`Revoke consent for ${identity.name}? It can't be used in previews or reconstructions until consent is renewed.`)) return;
+
+    setBusyIdentityId(identity.id);
+    try {
+      await identityTrainingService.revokeConsent(identity.consent.id);
+      toast.success("Consent revoked");
+      await loadTrainedIdentities();
+    } catch (error) {
+      console.error('Error revoking consent:', error);
+      toast.error("Failed to revoke consent");
+    } finally {
+      setBusyIdentityId(null);
+    }
+  };
+
+  const consentSummary = (consent: IdentityConsent | null | undefined): string => {
+    if (!consent) return "No consent recorded";
+    const expires = new Date(consent.expires_at).toLocaleDateString();
+    const givenBy = consent.guardian_name ? ` by ${consent.guardian_name}` : "";
+    if (isConsentActive(consent)) return `Consent given${givenBy} until ${expires}`;
+    switch (consent.status) {
+      case "pending":
+        return `Waiting for ${consent.subject_name} to approve`;
+      case "declined":
+        return `${consent.subject_name} declined`;
+      case "revoked":
+        return "Consent revoked";
+      default:
+        return `Consent expired ${expires}`;
+    }
+  };
+
+  const statusFor = (identity: TrainedIdentity): TrainingJobStatus =>
+    jobs[identity.id]?.status ?? IDENTITY_STATUS_TO_JOB[identity.training_status || 'pending'] ?? 'queued';
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-muted/20">
       <div className="container mx-auto px-4 py-8 max-w-5xl">
@@ -287,7 +355,7 @@ const Identities = () => {
                 placeholder="e.g., Dad, Mom, Me"
                 value={identityName}
                 onChange={(e) => setIdentityName(e.target.value)}
-                disabled={isTraining}
+                disabled={isSubmitting}
               />
             </div>
 
@@ -306,7 +374,7 @@ const Identities = () => {
                     multiple
                     onChange={handleFileSelect}
                     className="hidden"
-                    disabled={isTraining}
+                    disabled={isSubmitting}
                   />
                   <label htmlFor="photos-upload" className="cursor-pointer">
                     <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
@@ -321,14 +389,21 @@ const Identities = () => {
               ) : (
                 <>
                   <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
-                    {imagePreviews.map((url, index) => (
-                      <div key={index} className="relative group">
+                    {imagePreviews.map((url, index) => {
+                      const issues = imageChecks[index]?.issues ?? [];
+                      return (
+                      <div key={index} className="relative group" title={issues.join(", ")}>
                         <img 
                           src={url} 
                           alt={`Upload ${index + 1}`}
-                          className="w-full aspect-square object-cover rounded-lg border-2 border-border"
+                          className={`w-full aspect-square object-cover rounded-lg border-2 ${issues.length > 0 ? "border-destructive" : "border-border"}`}
                         />
-                        {!isTraining && (
+                        {issues.length > 0 && (
+                          <p className="absolute bottom-0 inset-x-0 bg-destructive/90 text-destructive-foreground text-[10px] leading-tight px-1 py-0.5 rounded-b-lg truncate">
+                            {issues[0]}
+                          </p>
+                        )}
+                        {!isSubmitting && (
                           <Button
                             size="icon"
                             variant="destructive"
@@ -339,9 +414,10 @@ const Identities = () => {
                           </Button>
                         )}
                       </div>
-                    ))}
+                      );
+                    })}
                     
-                    {uploadedImages.length < 40 && !isTraining && (
+                    {uploadedImages.length < 40 && !isSubmitting && (
                       <div className="border-2 border-dashed border-muted rounded-lg aspect-square flex items-center justify-center hover:border-primary/50 transition-colors">
                         <Input
                           id="add-more"
@@ -359,6 +435,20 @@ const Identities = () => {
                     )}
                   </div>
 
+                  {isChecking && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Checking photos...
+                    </p>
+                  )}
+
+                  {!isChecking && flaggedCount > 0 && (
+                    <p className="text-sm text-destructive flex items-center gap-2">
+                      <AlertCircle className="w-4 h-4" />
+                      {flaggedCount} photo{flaggedCount === 1 ? "" : "s"} can't be used for training; hover to see why and remove them
+                    </p>
+                  )}
+
                   {uploadedImages.length < 3 && (
                     <p className="text-sm text-amber-600 flex items-center gap-2">
                       <AlertCircle className="w-4 h-4" />
@@ -383,15 +473,19 @@ const Identities = () => {
             </div>
 
             {/* Consent */}
+            <div className="border rounded-lg p-4">
+              <IdentityConsentForm value={consentInput} onChange={setConsentInput} disabled={isSubmitting} />
+            </div>
+
             <div className="flex items-start space-x-3 pt-2">
               <Checkbox 
                 id="consent" 
                 checked={consentChecked}
                 onCheckedChange={(checked) => setConsentChecked(checked as boolean)}
-                disabled={isTraining}
+                disabled={isSubmitting}
               />
               <Label htmlFor="consent" className="text-sm cursor-pointer leading-tight">
-                I have rights to these images and consent to training. 
+                I have rights to these images and the consent described above. 
                 <span className="block text-muted-foreground mt-1">
                   Images stay private and are used only for model training.
                 </span>
@@ -399,15 +493,17 @@ const Identities = () => {
             </div>
 
             {/* Training Progress */}
-            {isTraining && (
+            {isSubmitting && (
               <div className="space-y-2">
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">Training in progress...</span>
-                  <span className="font-medium">{trainingProgress}%</span>
+                  <span className="text-muted-foreground">
+                    {uploadProgress < 100 ? "Uploading photos..." : "Submitting training job..."}
+                  </span>
+                  <span className="font-medium">{uploadProgress}%</span>
                 </div>
-                <Progress value={trainingProgress} className="h-2" />
+                <Progress value={uploadProgress} className="h-2" />
                 <p className="text-xs text-muted-foreground text-center">
-                  This usually takes ~10 minutes. You can close this page.
+                  Training usually takes ~10 minutes once submitted. You can close this page.
                 </p>
               </div>
             )}
@@ -415,14 +511,14 @@ const Identities = () => {
             {/* Start Training Button */}
             <Button
               onClick={handleStartTraining}
-              disabled={uploadedImages.length < 3 || !identityName.trim() || !consentChecked || isTraining}
+              disabled={uploadedImages.length < 3 || !identityName.trim() || !consentChecked || !!consentInputProblem(consentInput) || isSubmitting || isChecking || flaggedCount > 0}
               className="w-full"
               size="lg"
             >
-              {isTraining ? (
+              {isSubmitting ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Training Model...
+                  Starting Training...
                 </>
               ) : (
                 "Start Training"
@@ -431,63 +527,155 @@ const Identities = () => {
           </div>
         </Card>
 
+        {user?.id && <LikenessConsentPanel userId={user.id} />}
+
         {/* Trained Identities List */}
         {trainedIdentities.length > 0 && (
           <div>
             <h2 className="text-2xl font-serif font-bold mb-4">Your Identities</h2>
             <div className="grid gap-4 md:grid-cols-2">
-              {trainedIdentities.map((identity) => (
+              {trainedIdentities.map((identity) => {
+                const status = statusFor(identity);
+                const job = jobs[identity.id];
+                const isActive = ACTIVE_TRAINING_STATUSES.includes(status);
+                const canRetry = !!job && (status === "failed" || status === "cancelled") && job.attempts < job.max_attempts;
+                const error = job?.error ?? identity.training_error;
+                const isBusy = busyIdentityId === identity.id;
+                const consentActive = isConsentActive(identity.consent);
+                const isDemo = identity.id === DEMO_IDENTITY.id;
+                return (
                 <Card key={identity.id} className="p-4 bg-card border-2">
                   <div className="flex gap-4">
                     <img 
-                      src={identity.thumbnailUrl} 
+                      src={identity.thumbnail_url || FALLBACK_THUMBNAIL} 
                       alt={identity.name}
                       className="w-20 h-20 object-cover rounded-lg border-2 border-border"
                     />
                     <div className="flex-1 min-w-0">
                       <div className="flex items-start justify-between mb-2">
-                        <div>
+                        <div className="min-w-0">
                           <h3 className="font-semibold text-lg">{identity.name}</h3>
-                          <p className="text-xs text-muted-foreground">
-                            {identity.modelId}
+                          <p className="text-xs text-muted-foreground truncate">
+                            {identity.hf_model_id || `${identity.num_training_images ?? 0} photos`}
                           </p>
                         </div>
                         <Badge 
-                          variant={identity.status === "completed" ? "default" : "secondary"}
+                          variant={status === "succeeded" ? "default" : status === "failed" ? "destructive" : "secondary"}
                           className="flex items-center gap-1"
                         >
-                          {identity.status === "completed" && <Check className="w-3 h-3" />}
-                          {identity.status === "training" && <Loader2 className="w-3 h-3 animate-spin" />}
-                          {identity.status === "failed" && <AlertCircle className="w-3 h-3" />}
-                          {identity.status === "training" ? "In Progress" : identity.status}
+                          {status === "succeeded" && <Check className="w-3 h-3" />}
+                          {isActive && <Loader2 className="w-3 h-3 animate-spin" />}
+                          {status === "failed" && <AlertCircle className="w-3 h-3" />}
+                          {STATUS_LABELS[status]}
                         </Badge>
                       </div>
-                      <p className="text-xs text-muted-foreground mb-3">
-                        Trained {identity.trainedAt.toLocaleDateString()}
+                      <p className="text-xs text-muted-foreground mb-1">
+                        {status === "succeeded"
+                          ? `Trained ${new Date(identity.training_completed_at || identity.created_at || Date.now()).toLocaleDateString()}`
+                          : `Started ${new Date(job?.started_at || identity.created_at || Date.now()).toLocaleDateString()}`}
+                        {job && job.attempts > 1 && ` · attempt ${job.attempts} of ${job.max_attempts}`}
                       </p>
-                      <div className="flex gap-2">
-                        <Button 
-                          size="sm" 
-                          variant="outline"
-                          onClick={() => window.location.href = '/reconstruction'}
-                        >
-                          Use in Reconstruction
-                        </Button>
+                      {status === "failed" && error && (
+                        <p className="text-xs text-destructive mb-2 line-clamp-3">{error}</p>
+                      )}
+                      {!isDemo && (
+                        <p className={`text-xs flex items-center gap-1 ${consentActive ? "text-muted-foreground" : "text-amber-600"}`}>
+                          {consentActive ? <ShieldCheck className="w-3 h-3" /> : <ShieldOff className="w-3 h-3" />}
+                          {consentSummary(identity.consent)}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {status === "succeeded" && (isDemo || consentActive) && (
+                          <Button 
+                            size="sm" 
+                            variant="outline"
+                            onClick={() => window.location.href = '/reconstruction'}
+                          >
+                            Use in Reconstruction
+                          </Button>
+                        )}
+                        {isActive && job && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isBusy}
+                            onClick={() => handleJobAction(identity.id, 'cancel')}
+                          >
+                            <Ban className="w-3 h-3 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                        {canRetry && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isBusy}
+                            onClick={() => handleJobAction(identity.id, 'retry')}
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                        {!isDemo && identity.consent && ["pending", "granted"].includes(identity.consent.status) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={isBusy}
+                            onClick={() => handleRevokeConsent(identity)}
+                          >
+                            <ShieldOff className="w-3 h-3 mr-1" />
+                            Revoke consent
+                          </Button>
+                        )}
+                        {!isDemo && !consentActive && identity.consent?.status !== "pending" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isBusy}
+                            onClick={() => setConsentIdentity(identity)}
+                          >
+                            <ShieldCheck className="w-3 h-3 mr-1" />
+                            {identity.consent ? "Renew consent" : "Record consent"}
+                          </Button>
+                        )}
+                        {!isDemo && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setHistoryIdentity(identity)}
+                          >
+                            <History className="w-3 h-3 mr-1" />
+                            History
+                          </Button>
+                        )}
                         <Button 
                           size="sm" 
                           variant="ghost"
+                          disabled={isBusy}
                           onClick={() => handleDeleteIdentity(identity.id)}
                         >
-                          Delete
+                          {isBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : "Delete"}
                         </Button>
                       </div>
                     </div>
                   </div>
                 </Card>
-              ))}
+                );
+              })}
             </div>
           </div>
         )}
+
+        <IdentityConsentDialog
+          identity={consentIdentity}
+          onOpenChange={open => !open && setConsentIdentity(null)}
+          onSaved={loadTrainedIdentities}
+        />
+        <ConsentHistoryDialog
+          identityId={historyIdentity?.id ?? null}
+          identityName={historyIdentity?.name}
+          onOpenChange={open => !open && setHistoryIdentity(null)}
+        />
       </div>
     </div>
   );
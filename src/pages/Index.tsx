@@ -1,7 +1,7 @@
 import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
-import { useConversation } from '@11labs/react';
+import { useVoiceAgentSession } from '@/hooks/useVoiceAgentSession';
 import { useToast } from '@/hooks/use-toast';
 import { useProfile } from '@/hooks/useProfile';
 import { supabase } from '@/integrations/supabase/client';
@@ -10,6 +10,7 @@ import { ParticleFaceCanvas } from '@/components/ParticleFaceCanvas';
 import { ConversationInsights } from '@/components/ConversationInsights';
 import { intelligentPrompting } from '@/services/intelligentPrompting';
 import { chunkMemoryContent } from '@/utils/memoryChunking';
+import { revisionAttribution } from '@/services/memoryRevisionService';
 import { narrativeAI, type NarrativeGenerationContext } from '@/services/narrativeAI';
 import { logMemorySaving, logVoiceRecording, logArchiveDisplay } from '@/services/diagnosticLogger';
 import { voiceRecordingService, testGuestRecording, testAuthenticatedRecording, checkDatabaseRecordings, checkGuestRecordings } from '@/services/voiceRecording';
@@ -20,6 +21,8 @@ import { conversationInsightsService } from '@/lib/conversationInsightsService';
 import { FirstConversationDialog } from '@/components/FirstConversationDialog';
 import { userProfileService } from '@/services/userProfileService';
 import { configurationService } from '@/services/configurationService';
+import { memorySearchService, type MemorySearchResult } from '@/services/memorySearchService';
+import type { VoiceTranscriptEvent } from '@/types/voiceAgent';
 // Dummy mode removed - always use real authentication
 import { 
   Heart, 
@@ -130,7 +133,7 @@ const [recordingMode, setRecordingMode] = useState<'standard' | 'enhanced'>('sta
     
     // Wait for Solin to finish speaking before ending
     const checkAndEnd = () => {
-      if (conversation.isSpeaking) {
+      if (voiceSession.isSpeaking) {
         console.log('⏳ Solin is still speaking, waiting...');
         setTimeout(checkAndEnd, 300); // Check every 300ms
       } else {
@@ -410,6 +413,7 @@ const [recordingMode, setRecordingMode] = useState<'standard' | 'enhanced'>('sta
         chunk_sequence: chunk.chunkSequence,
         total_chunks: chunk.totalChunks,
         image_urls: null,
+        ...revisionAttribution('solin_voice', 'Saved during voice conversation'),
       }));
 
       logMemorySaving('info', 'memory_database_insert_attempt', {
@@ -867,6 +871,8 @@ const [recordingMode, setRecordingMode] = useState<'standard' | 'enhanced'>('sta
   // Ref to accumulate AI transcript deltas without causing re-renders
   // Only update state when the transcript is complete (.done event)
   const pendingAiTranscriptRef = useRef<string>('');
+  // Whether the current AI turn arrived as deltas, so its final text replaces the streamed message
+  const aiTurnStreamingRef = useRef(false);
   const transcriptUpdateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   // Debounced function to update transcript state - batches rapid updates
@@ -928,31 +934,18 @@ const [recordingMode, setRecordingMode] = useState<'standard' | 'enhanced'>('sta
       console.log('🔍 Solin searching memories:', q, 'limit:', maxResults);
       if (!user?.id) return 'No user session; unable to access memories.';
 
-      let query = supabase
-        .from('memories')
-        .select('id,title,created_at')
-        .eq('user_id', effectiveUser.id)
-        .order('created_at', { ascending: false })
-        .limit(maxResults);
-
-      // Only apply search filter if query is provided
-      if (q) {
-        const escaped = q.replace(/%/g, '%25').replace(/\\/g, '\\\\').replace(/"/g, '\\"');
-        const orFilter = `title.ilike.%${escaped}%,text.ilike.%${escaped}%`;
-        query = query.or(orFilter);
-      }
-
-      const { data, error } = await query;
-
-      if (error) {
-        console.error('Supabase retrieve error:', error);
+      let data: MemorySearchResult[];
+      try {
+        data = await memorySearchService.search({ query: q || null, limit: maxResults });
+      } catch (error) {
+        console.error('Memory search error:', error);
         return 'Error retrieving memories.';
       }
       if (!data || data.length === 0) return 'No matching memories found.';
 
       // Return titles with IDs so agent can request details
       const result = data
-        .map((m, i) => `${i + 1}. "${m.title}" (ID: ${m.id}, ${new Date(m.created_at as string).toLocaleDateString()})`)
+        .map((m, i) => `${i + 1}. "${m.title}" (ID: ${m.id}, ${new Date(m.memoryDate || m.createdAt).toLocaleDateString()})`)
         .join('\n');
       // Smart response based on conversation state
       let contextualNote = '';
@@ -1214,7 +1207,7 @@ const [recordingMode, setRecordingMode] = useState<'standard' | 'enhanced'>('sta
 1. initialize_session: IMPORTANT - Use this FIRST when starting a conversation to offer upfront options (daily_journal, memory_creation, memory_browsing, or general_chat).
 2. save_memory: Save new memories when users share stories. For Timeline appearance: needs title, content, date (memory_date), and location (memory_location).
 3. save_biography_topic: Save general biographical information about the user (personality, background, beliefs, etc.).
-4. browse_memories: Search and browse existing memories conversationally. Use for memory exploration and finding specific memories.
+4. browse_memories: Search and browse existing memories conversationally. Results are ranked by meaning, not just keywords, and can be narrowed by time_period, location, tags and people.
 5. get_memory_details: Get full details of a specific memory by ID.
 6. edit_memory: Modify existing memories verbally. Can add content, replace sections, or completely update memories.
 7. voice_search: NEW - Find and replay past conversations by searching voice recordings. Users can search for "conversations about family" or "when I talked about vacation".
@@ -1509,6 +1502,10 @@ Keep responses brief and conversational. Make memory and voice interaction feel
         chunk_sequence: chunk.chunkSequence,
         total_chunks: chunk.totalChunks,
         image_urls: originalMemory.image_urls,
+        ...revisionAttribution(
+          'solin_voice',
+          `Voice edit (${edit_type})${section_description ? `: ${section_description}` : ''}`
+        ),
       }));
 
       const { data: updatedMemory, error: insertError } = await supabase
@@ -1562,6 +1559,9 @@ Keep responses brief and conversational. Make memory and voice interaction feel
   const browseMemoriesTool = useCallback(async (parameters: {
     search_query?: string;
     time_period?: 'recent' | 'this_year' | 'last_year' | 'older';
+    location?: string;
+    tags?: string[];
+    people?: string[];
     limit?: number;
     action?: 'search' | 'browse_recent' | 'browse_by_topic';
   }) => {
@@ -1578,53 +1578,24 @@ Keep responses brief and conversational. Make memory and voice interaction feel
         return 'You must be logged in to browse your memories.';
       }
 
-      const { search_query, time_period, limit = 8, action = 'browse_recent' } = parameters;
-      const userId = effectiveUser.id;
-
-      let query = supabase
-        .from('memories')
-        .select('id, title, text, memory_date, memory_location, created_at, chunk_sequence, memory_group_id')
-        .eq('user_id', userId);
-
-      // Apply time period filter
-      if (time_period) {
-        const now = new Date();
-        let startDate;
-        
-        switch (time_period) {
-          case 'recent':
-            startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000); // Last 30 days
-            break;
-          case 'this_year':
-            startDate = new Date(now.getFullYear(), 0, 1);
-            break;
-          case 'last_year':
-            startDate = new Date(now.getFullYear() - 1, 0, 1);
-            query = query.lt('created_at', new Date(now.getFullYear(), 0, 1).toISOString());
-            break;
-          case 'older':
-            startDate = new Date(now.getFullYear() - 2, 0, 1);
-            query = query.lt('created_at', startDate.toISOString());
-            break;
-        }
-        
-        if (time_period !== 'older' && time_period !== 'last_year') {
-          query = query.gte('created_at', startDate!.toISOString());
-        }
-      }
+      const { search_query, time_period, location, tags, people, limit = 8, action = 'browse_recent' } = parameters;
 
-      // Apply search filter
-      if (search_query?.trim()) {
-        const escaped = search_query.trim().replace(/%/g, '%25').replace(/\\/g, '\\\\');
-        query = query.or(`title.ilike.%${escaped}%,text.ilike.%${escaped}%`);
+      // Ranked search over whole memory groups (all chunks), shared with WhatsApp and the orchestrator
+      let memories: MemorySearchResult[] = [];
+      let error: Error | null = null;
+      try {
+        memories = await memorySearchService.search({
+          query: search_query?.trim() || null,
+          ...(time_period ? memorySearchService.dateRangeForPeriod(time_period) : {}),
+          location,
+          tags,
+          people,
+          limit
+        });
+      } catch (searchError) {
+        error = searchError instanceof Error ? searchError : new Error('Search failed');
       }
 
-      // Only get first chunk of each memory group to avoid duplicates
-      query = query.eq('chunk_sequence', 1);
-      query = query.order('created_at', { ascending: false }).limit(limit);
-
-      const { data: memories, error } = await query;
-
       logHandoff('2️⃣ QUERY EXECUTED', { 
         memoriesFound: memories?.length || 0, 
         searchQuery: search_query,
@@ -1663,16 +1634,14 @@ Keep responses brief and conversational. Make memory and voice interaction feel
       }
 
       memories.forEach((memory, index) => {
-        const date = memory.memory_date 
-          ? new Date(memory.memory_date).toLocaleDateString()
-          : new Date(memory.created_at).toLocaleDateString();
+        const date = new Date(memory.memoryDate || memory.createdAt).toLocaleDateString();
         
-        const location = memory.memory_location ? ` in ${memory.memory_location}` : '';
+        const place = memory.location ? ` in ${memory.location}` : '';
         const preview = memory.text.length > 100 
           ? memory.text.substring(0, 100) + '...'
           : memory.text;
         
-        response += `${index + 1}. **${memory.title}** (${date}${location})\n`;
+        response += `${index + 1}. **${memory.title}** (${date}${place})\n`;
         response += `   ${preview}\n`;
         response += `   [Memory ID: ${memory.id}]\n\n`;
       });
@@ -2025,8 +1994,85 @@ Keep responses brief and conversational. Make memory and voice interaction feel
     }
   }, [effectiveUser, conversationState, intelligentPrompting]);
 
-  const conversationOptionsRef = useRef({
-    clientTools: { 
+  // Normalised transcript events from whichever voice provider is running
+  const handleTranscript = (event: VoiceTranscriptEvent) => {
+    const { speaker, text, final } = event;
+
+    // End-of-conversation phrase detection (both user and AI)
+    const lowered = text.toLowerCase();
+    const endPhrases = ['bye', 'goodbye', 'end conversation', 'end session', 'stop talking', 'that\'s all'];
+    if (endPhrases.some(p => lowered.includes(p))) {
+      console.log('🔚 Detected end phrase from', speaker, '→ scheduling end');
+      // Use minimal delay - scheduleEnd will wait for Solin to finish speaking
+      scheduleEnd(500, `phrase_${speaker}`);
+    }
+
+    if (speaker === 'ai' && !final) {
+      // Accumulate deltas in ref - NO state update here to avoid re-renders during speech
+      aiTurnStreamingRef.current = true;
+      pendingAiTranscriptRef.current += text;
+
+      // Schedule a debounced UI update (500ms after last delta)
+      if (transcriptUpdateTimerRef.current) {
+        clearTimeout(transcriptUpdateTimerRef.current);
+      }
+      transcriptUpdateTimerRef.current = setTimeout(() => {
+        flushPendingTranscript();
+      }, 500);
+      return;
+    }
+
+    if (speaker === 'ai') {
+      console.log('📝 AI transcript captured:', text);
+
+      // Clear any pending timer; a streamed turn is replaced by its final text
+      if (transcriptUpdateTimerRef.current) {
+        clearTimeout(transcriptUpdateTimerRef.current);
+        transcriptUpdateTimerRef.current = null;
+      }
+      pendingAiTranscriptRef.current = '';
+      const replaceStreamed = aiTurnStreamingRef.current;
+      aiTurnStreamingRef.current = false;
+      setConversationMessages(prev => {
+        const last = prev[prev.length - 1];
+        if (replaceStreamed && last && last.role === 'ai') {
+          return [...prev.slice(0, -1), { role: 'ai', text }];
+        }
+        return [...prev, { role: 'ai', text }];
+      });
+    } else {
+      console.log('📝 User message captured:', text);
+      setConversationMessages(prev => [...prev, { role: 'user', text }]);
+
+      // Extract topics from user messages for smarter context
+      const topics = lowered.match(/\b(family|childhood|school|work|travel|memory|remember|story|time|years?|ago)\b/g) || [];
+      if (topics.length > 0) {
+        setConversationState(prev => ({
+          ...prev,
+          recentTopics: [...new Set([...topics, ...prev.recentTopics])].slice(0, 10)
+        }));
+      }
+    }
+
+    // Add to conversation insights service (completely decoupled - won't cause re-renders)
+    // This runs asynchronously with debouncing and requestIdleCallback
+    conversationInsightsService.addMessage(speaker, text);
+
+    // Add to conversation recording transcript
+    if (isRecording) {
+      console.log('📝 Adding to conversation transcript:', { speaker, text: text.substring(0, 50) + '...', mode: recordingMode });
+
+      if (recordingMode === 'enhanced') {
+        enhancedConversationRecordingService.addEnhancedTranscriptEntry(speaker, text, event.confidence);
+      } else {
+        conversationRecordingService.addTranscriptEntry(speaker, text, event.confidence);
+      }
+    }
+  };
+
+  // The same client tools run on ElevenLabs, OpenAI Realtime, Vapi or the e2e mock
+  const voiceSession = useVoiceAgentSession({
+    clientTools: {
       save_memory: saveMemoryTool,
       save_biography_topic: saveBiographyTopicTool,
       retrieve_memory: retrieveMemoryTool,
@@ -2043,152 +2089,21 @@ Keep responses brief and conversational. Make memory and voice interaction feel
     onConnect: onConnectCb,
     onDisconnect: onDisconnectCb,
     onError: onErrorCb,
-  onMessage: (message: unknown) => {
-      console.log('🗣️ ElevenLabs message:', message);
-      
-      // Enhanced debugging for transcript capture
-      if (typeof message === 'object' && message !== null) {
-        const msg = message as any;
-        
-        // Check for audio data in the message
-        if (msg.audio || msg.audio_data || msg.audioData || msg.delta || msg.chunk) {
-          console.log('🎵 AUDIO DATA DETECTED in message:', {
-            type: msg.type,
-            hasAudio: !!msg.audio,
-            hasAudioData: !!msg.audioData,
-            hasDelta: !!msg.delta,
-            hasChunk: !!msg.chunk,
-            keys: Object.keys(msg)
-          });
-          
-          // Try to capture agent audio if recording
-          if (isRecording && recordingMode === 'enhanced') {
-            const audioData = msg.audio || msg.audio_data || msg.audioData || msg.delta || msg.chunk;
-            if (audioData && typeof audioData === 'string') {
-              console.log('🎙️ Capturing agent audio chunk from message...');
-              enhancedConversationRecordingService.captureAgentAudioChunk(audioData);
-            }
-          }
-        }
-        
-        console.log('📝 Message analysis:', {
-          type: msg.type,
-          source: msg.source,
-          hasMessage: !!msg.message,
-          hasDelta: !!msg.delta,
-          hasAudio: !!(msg.audio || msg.audio_data || msg.audioData),
-          isRecording,
-          messageKeys: Object.keys(msg),
-          fullMessage: msg
-        });
-        
-        // End-of-conversation phrase detection (both user and AI)
-        const extractText = () => msg.message || msg.delta || msg.transcript || '';
-        const text = String(extractText()).toLowerCase();
-        const endPhrases = ['bye', 'goodbye', 'end conversation', 'end session', 'stop talking', 'that\'s all'];
-        if (text) {
-          const hasEnd = endPhrases.some(p => text.includes(p));
-          if (hasEnd) {
-            const who = msg.source || msg.type || 'unknown';
-            console.log('🔚 Detected end phrase from', who, '→ scheduling end');
-            // Use minimal delay - scheduleEnd will wait for Solin to finish speaking
-            const delay = (msg.source === 'ai' || msg.type?.includes('response')) ? 500 : 500;
-            scheduleEnd(delay, `phrase_${who}`);
-          }
-        }
-        
-        // Handle different message types for transcript capture
-        let transcriptText = '';
-        let speaker: 'user' | 'ai' | null = null;
-        
-        if (msg.type === 'response.audio_transcript.delta' && msg.delta) {
-          transcriptText = msg.delta;
-          speaker = 'ai';
-          // Accumulate deltas in ref - NO state update here to avoid re-renders during speech
-          pendingAiTranscriptRef.current += msg.delta;
-          
-          // Schedule a debounced UI update (500ms after last delta)
-          if (transcriptUpdateTimerRef.current) {
-            clearTimeout(transcriptUpdateTimerRef.current);
-          }
-          transcriptUpdateTimerRef.current = setTimeout(() => {
-            flushPendingTranscript();
-          }, 500);
-        } else if (msg.type === 'response.audio_transcript.done' && msg.transcript) {
-          transcriptText = msg.transcript;
-          speaker = 'ai';
-          console.log('📝 AI transcript complete captured:', transcriptText);
-          
-          // Clear any pending timer and update with final transcript
-          if (transcriptUpdateTimerRef.current) {
-            clearTimeout(transcriptUpdateTimerRef.current);
-            transcriptUpdateTimerRef.current = null;
-          }
-          pendingAiTranscriptRef.current = ''; // Clear pending since we have final
-          setConversationMessages(prev => {
-            const last = prev[prev.length - 1];
-            if (last && last.role === 'ai') {
-              return [...prev.slice(0, -1), { role: 'ai', text: msg.transcript }];
-            }
-            return [...prev, { role: 'ai', text: msg.transcript }];
-          });
-        } else if (msg.source === 'user' && msg.message) {
-          transcriptText = msg.message;
-          speaker = 'user';
-          console.log('📝 User message captured:', transcriptText);
-          
-          setConversationMessages(prev => [...prev, { role: 'user', text: msg.message }]);
-          
-          // Extract topics from user messages for smarter context
-          const topics = msg.message.toLowerCase().match(/\b(family|childhood|school|work|travel|memory|remember|story|time|years?|ago)\b/g) || [];
-          if (topics.length > 0) {
-            setConversationState(prev => ({
-              ...prev,
-              recentTopics: [...new Set([...topics, ...prev.recentTopics])].slice(0, 10)
-            }));
-          }
-        } else if (msg.source === 'ai' && msg.message) {
-          transcriptText = msg.message;
-          speaker = 'ai';
-          console.log('📝 AI message captured:', transcriptText);
-          
-          setConversationMessages(prev => [...prev, { role: 'ai', text: msg.message }]);
-        } else if (msg.type === 'user_transcript' && msg.transcript) {
-          transcriptText = msg.transcript;
-          speaker = 'user';
-          console.log('📝 User transcript captured:', transcriptText);
-        }
-        
-        // Add to conversation insights service (completely decoupled - won't cause re-renders)
-        // This runs asynchronously with debouncing and requestIdleCallback
-        if (transcriptText && speaker) {
-          conversationInsightsService.addMessage(speaker, transcriptText);
-        }
-        
-        // Add to conversation recording transcript if we have valid content
-        if (transcriptText && speaker && isRecording) {
-          console.log('📝 Adding to conversation transcript:', { speaker, text: transcriptText.substring(0, 50) + '...', mode: recordingMode });
-          
-          if (recordingMode === 'enhanced') {
-            enhancedConversationRecordingService.addEnhancedTranscriptEntry(speaker, transcriptText, msg.confidence);
-          } else {
-            conversationRecordingService.addTranscriptEntry(speaker, transcriptText);
-          }
-        } else if (isRecording) {
-          console.log('📝 Transcript not added - missing data:', { hasText: !!transcriptText, hasSpeaker: !!speaker, isRecording, mode: recordingMode });
-        }
+    onTranscript: handleTranscript,
+    onAgentAudioChunk: (base64Audio) => {
+      // Capture agent audio if recording
+      if (isRecording && recordingMode === 'enhanced') {
+        enhancedConversationRecordingService.captureAgentAudioChunk(base64Audio);
       }
     },
   });
 
-  const conversation = useConversation(conversationOptionsRef.current);
-
   // Removed agentId fallback; we only use signedUrl sessions to match SDK types.
 
 
   useEffect(() => {
-    console.log('🛰️ Conversation status:', conversation.status, 'speaking:', conversation.isSpeaking);
-  }, [conversation.status, conversation.isSpeaking]);
+    console.log('🛰️ Conversation status:', voiceSession.status, 'speaking:', voiceSession.isSpeaking);
+  }, [voiceSession.status, voiceSession.isSpeaking]);
 
   // ===== DEBUG: Expose voice recording test functions globally =====
   useEffect(() => {
@@ -2204,7 +2119,7 @@ Keep responses brief and conversational. Make memory and voice interaction feel
     console.log('🚀 START CONVERSATION: Function called');
 
     // Prevent duplicate starts
-    if (isConnecting || conversation.status === 'connected') {
+    if (isConnecting || voiceSession.status === 'connected') {
       console.log('⏭️ Already connecting/connected. Skipping start.');
       return;
     }
@@ -2283,8 +2198,6 @@ Keep responses brief and conversational. Make memory and voice interaction feel
       } catch (e) {
         console.warn(`🔌 [${sessionHandoffId}] ⚠️ AudioContext unlock failed (safe to ignore):`, e);
       }
-
-      let data, error;
       
       // Require real authentication for voice agent
       if (!session) {
@@ -2300,86 +2213,11 @@ Keep responses brief and conversational. Make memory and voice interaction feel
       
       console.log('🚀 START CONVERSATION: Passed authentication check, proceeding...');
 
-      // Get signed URL from elevenlabs-agent-token function
-      console.log(`🔌 [${sessionHandoffId}] EDGE FUNCTION HANDOFF: ➡️ CALLING elevenlabs-agent-token`);
-      
-      const response = await supabase.functions.invoke('elevenlabs-agent-token', {
-        body: { 
-          agentId: 'agent_3201k6n4rrz8e2wrkf9tv372y0w4',
-          mode: selectedMode // Pass the selected conversation mode
-        }
-      });
-      
-      console.log(`🔌 [${sessionHandoffId}] EDGE FUNCTION HANDOFF: 📦 RAW RESPONSE:`, response);
-      
-      data = response.data;
-      error = response.error;
-      
-      console.log(`🔌 [${sessionHandoffId}] EDGE FUNCTION HANDOFF: 👀 RESPONSE RECEIVED:`, {
-        hasData: !!data,
-        hasError: !!error,
-        dataContent: data,
-        errorContent: error,
-        errorType: error?.message ? 'message' : error?.code ? 'code' : 'none',
-        errorDetails: error?.message || error?.code || 'none'
-      });
-
-      if (error) {
-        console.error(`🔌 [${sessionHandoffId}] EDGE FUNCTION HANDOFF: ❌ FAILED - Edge function error:`, error);
-        console.log(`🚀 EXPLICIT ERROR CHECK: Error detected, about to throw`);
-        
-        // This throw should be caught by the outer catch block
-        
-        // Check if it's an auth error, network error, or function error
-        if (error.message?.includes('Unauthorized')) {
-          throw new Error('Authentication failed - please check if you are logged in');
-        } else if (error.message?.includes('network')) {
-          throw new Error('Network error - please check your connection');
-        } else if (error.message?.includes('ElevenLabs API key not configured')) {
-          throw new Error('ElevenLabs API key is not configured. Please add ELEVENLABS_API_KEY to your Supabase project settings.');
-        } else {
-          throw new Error(`Edge function failed: ${error.message || 'Unknown error'}`);
-        }
-      }
-      
-      if (!data?.signed_url) {
-        console.error(`🔌 [${sessionHandoffId}] EDGE FUNCTION HANDOFF: ❌ INVALID RESPONSE - No signed URL:`, data);
-        throw new Error('Failed to get signed URL from elevenlabs-agent-token function');
-      }
-      
-      console.log(`🔌 [${sessionHandoffId}] EDGE FUNCTION HANDOFF: ✅ SUCCESS - Got signed URL`);
-
-      console.log('Starting session with memory context...');
-      
-      // Use a cancellable timeout to avoid unhandled rejection after connect
-      let timeoutId: number | undefined;
-      const timeoutPromise = new Promise((_, reject) => {
-        timeoutId = window.setTimeout(() => reject(new Error('Connection timed out')), 20000);
-      });
-
-      const startPromise = conversation.startSession({
-        signedUrl: data.signed_url,
-        overrides: {
-          agent: {
-            prompt: {
-              prompt: data.personalizedPrompt || "You are Solin, a warm and empathetic AI biographer."
-            },
-            firstMessage: data.firstMessage || "Hello! How can I help you today?"
-          }
-        }
-      });
-
-      await Promise.race([startPromise, timeoutPromise]);
-      if (timeoutId) clearTimeout(timeoutId);
-      
-      // Set volume after session starts
-      console.log('✅ Session started successfully, setting volume...');
-      try { 
-        await conversation.setVolume({ volume: 1 }); 
-        console.log('✅ Volume set to 1');
-      } catch (e) { 
-        console.warn('⚠️ setVolume failed (safe to ignore):', e);
-      }
+      // The session fetches its own credentials and personalised prompt from the provider's edge function
+      console.log(`🔌 [${sessionHandoffId}] CONNECTION HANDOFF: ➡️ STARTING ${voiceSession.provider} SESSION`);
+      await voiceSession.connect({ mode: selectedMode });
+      voiceSession.setVolume(1);
+      console.log(`🔌 [${sessionHandoffId}] CONNECTION HANDOFF: ✅ SESSION STARTED`);
       
     } catch (error) {
       console.log('🚀 CATCH BLOCK: Error caught in try-catch');
@@ -2426,7 +2264,7 @@ Keep responses brief and conversational. Make memory and voice interaction feel
       console.log('🚀 START CONVERSATION: Finally block - setting isConnecting to false');
       setIsConnecting(false);
     }
-  }, [conversation, toast, agentInstructions]);
+  }, [voiceSession, selectedMode, toast]);
 
   // Keep a stable ref to startConversation so callbacks can call it without re-creating deps
   useEffect(() => {
@@ -2456,8 +2294,8 @@ Keep responses brief and conversational. Make memory and voice interaction feel
           console.log('🛑 Timeout reached (2 minutes) - forcefully ending ElevenLabs session...');
           
           // More aggressive session termination
-          if (conversation.status === 'connected') {
-            await conversation.endSession();
+          if (voiceSession.status === 'connected') {
+            await voiceSession.disconnect();
           }
           
           // Note: conversation will auto-disconnect when endSession completes
@@ -2516,7 +2354,7 @@ Keep responses brief and conversational. Make memory and voice interaction feel
         if (hasEnded) return;
         
         // If Solin has stopped speaking, wait a bit longer then end gracefully
-        if (!conversation.isSpeaking && conversation.status === 'connected') {
+        if (!voiceSession.isSpeaking && voiceSession.status === 'connected') {
           console.log('🎯 Solin finished speaking - ending conversation gracefully...');
           
           // Wait configured grace period after Solin stops speaking to ensure natural completion
@@ -2529,8 +2367,8 @@ Keep responses brief and conversational. Make memory and voice interaction feel
             console.log('✅ Natural conversation end - Solin finished speaking');
             
             // Force end session
-            if (conversation.status === 'connected') {
-              conversation.endSession().catch(console.error);
+            if (voiceSession.status === 'connected') {
+              voiceSession.disconnect().catch(console.error);
             }
             
             // Stop voice recording if active
@@ -2580,7 +2418,7 @@ Keep responses brief and conversational. Make memory and voice interaction feel
       
       // Fallback: direct session end if initial attempt fails
       try {
-        await conversation.endSession();
+        await voiceSession.disconnect();
         setConversationMessages([]);
         toast({ title: 'Conversation ended', description: 'Your session has ended' });
       } catch (fallbackError) {
@@ -2588,7 +2426,7 @@ Keep responses brief and conversational. Make memory and voice interaction feel
         toast({ title: 'Session end error', description: 'Please refresh the page', variant: 'destructive' });
       }
     }
-  }, [conversation, toast, navigate]);
+  }, [voiceSession, toast, navigate]);
 
   // Bind endConversation to a ref for scheduling from other callbacks
   useEffect(() => {
@@ -2735,8 +2573,8 @@ Keep responses brief and conversational. Make memory and voice interaction feel
     });
   }, [toast]);
 
-  const isConnected = conversation.status === 'connected';
-  const isSpeaking = conversation.isSpeaking;
+  const isConnected = voiceSession.status === 'connected';
+  const isSpeaking = voiceSession.isSpeaking;
 
   const lastClickRef = useRef(0);
   const handleOrbPress = useCallback(async () => {
@@ -2827,7 +2665,7 @@ Keep responses brief and conversational. Make memory and voice interaction feel
             {viewMode === 'voice' ? (
               <ModernVoiceAgent 
                 isActive={isConnected}
-                isSpeaking={conversation.isSpeaking}
+                isSpeaking={voiceSession.isSpeaking}
                 onClick={startConversation}
               />
             ) : (
@@ -0,0 +1,380 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format, addDays } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, HandHeart, HeartHandshake, Loader2, Pencil, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { LegacyContactDialog } from '@/components/LegacyContactDialog';
+import { LegacyClaimDialog } from '@/components/LegacyClaimDialog';
+import { legacyService } from '@/services/legacyService';
+import { RELATIONSHIP_TYPES } from '@/types/social';
+import {
+  CHECK_IN_INTERVAL_OPTIONS,
+  EntrustedLegacy,
+  LegacyClaim,
+  LegacyContact,
+  LegacyPlan,
+  LEGACY_CLAIM_STATUS_LABELS,
+  LEGACY_CLAIM_TYPE_LABELS,
+  LEGACY_MEMORY_ACCESS_LABELS,
+} from '@/types/legacy';
+
+const GRACE_PERIOD_OPTIONS = [7, 14, 30, 60];
+
+const formatDate = (value: string | Date | null) => (value ? format(new Date(value), 'MMMM d, yyyy') : '');
+
+const relationshipLabel = (value: string) =>
+  RELATIONSHIP_TYPES.find(type => type.value === value)?.label ?? 'Other';
+
+const permissionSummary = (contact: LegacyContact) => [
+  LEGACY_MEMORY_ACCESS_LABELS[contact.memory_access],
+  ...(contact.can_download_export ? ['Download export'] : []),
+  ...(contact.can_manage_visitor_page ? ['Manage Visitor page'] : []),
+];
+
+const Legacy = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [contacts, setContacts] = useState<LegacyContact[]>([]);
+  const [plan, setPlan] = useState<LegacyPlan | null>(null);
+  const [claimsAboutMe, setClaimsAboutMe] = useState<LegacyClaim[]>([]);
+  const [entrusted, setEntrusted] = useState<EntrustedLegacy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [intervalDays, setIntervalDays] = useState<string>('off');
+  const [graceDays, setGraceDays] = useState('14');
+  const [isSavingPlan, setIsSavingPlan] = useState(false);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [contactDialogOpen, setContactDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<LegacyContact | null>(null);
+  const [claimFor, setClaimFor] = useState<{ ownerId: string; ownerName: string } | null>(null);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadAll();
+    }
+  }, [user?.id]);
+
+  const loadAll = async () => {
+    if (!user?.id) return;
+    setIsLoading(true);
+    try {
+      const [myContacts, myPlan, myClaims, myEntrusted] = await Promise.all([
+        legacyService.getContacts(user.id),
+        legacyService.getPlan(user.id),
+        legacyService.getClaimsAboutMe(user.id),
+        legacyService.getEntrusted(user.id),
+      ]);
+      setContacts(myContacts);
+      setPlan(myPlan);
+      setClaimsAboutMe(myClaims);
+      setEntrusted(myEntrusted);
+      setIntervalDays(myPlan?.check_in_interval_days ? String(myPlan.check_in_interval_days) : 'off');
+      setGraceDays(String(myPlan?.grace_period_days ?? 14));
+    } catch (error) {
+      console.error('Error loading legacy settings:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your legacy settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSavePlan = async () => {
+    if (!user?.id) return;
+    setIsSavingPlan(true);
+    try {
+      await legacyService.savePlan(user.id, intervalDays === 'off' ? null : Number(intervalDays), Number(graceDays));
+      toast({ title: 'Check-in saved' });
+      await loadAll();
+    } catch (error) {
+      console.error('Error saving legacy plan:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save your check-in settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingPlan(false);
+    }
+  };
+
+  const handleCheckIn = async () => {
+    setIsCheckingIn(true);
+    try {
+      await legacyService.checkIn();
+      toast({ title: "Thanks for checking in", description: 'Any open requests about you have been withdrawn.' });
+      await loadAll();
+    } catch (error) {
+      console.error('Error checking in:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to check in',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  const handleRemove = async (contact: LegacyContact) => {
+    try {
+      await legacyService.removeContact(contact.id);
+      setContacts(current => current.filter(c => c.id !== contact.id));
+    } catch (error) {
+      console.error('Error removing legacy contact:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove the legacy contact',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const openClaims = claimsAboutMe.filter(claim => claim.status === 'pending' || claim.status === 'approved');
+  const nextCheckIn = plan?.check_in_interval_days
+    ? addDays(new Date(plan.last_check_in_at), plan.check_in_interval_days)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">Legacy</h1>
+          <p className="text-muted-foreground">Choose who looks after your story when you no longer can</p>
+        </div>
+
+        <Tabs defaultValue="plan" className="space-y-6">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="plan" className="gap-2">
+              <ShieldCheck className="w-4 h-4" />
+              My Plan
+            </TabsTrigger>
+            <TabsTrigger value="entrusted" className="gap-2">
+              <HeartHandshake className="w-4 h-4" />
+              Entrusted to Me
+              {entrusted.length > 0 && <Badge variant="secondary">{entrusted.length}</Badge>}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="plan" className="space-y-6">
+            {openClaims.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Someone has asked for access to your story</AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <p>
+                    {openClaims.map(claim => `${LEGACY_CLAIM_TYPE_LABELS[claim.claim_type]} (${LEGACY_CLAIM_STATUS_LABELS[claim.status].toLowerCase()})`).join(', ')}.
+                    If this is a mistake, check in to withdraw it.
+                  </p>
+                  <Button size="sm" onClick={handleCheckIn} disabled={isCheckingIn}>
+                    {isCheckingIn && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    I'm here
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle>Legacy contacts</CardTitle>
+                  <CardDescription>
+                    They get access only after a request is reviewed and approved by our team.
+                  </CardDescription>
+                </div>
+                <Button size="sm" className="gap-2" onClick={() => { setEditing(null); setContactDialogOpen(true); }}>
+                  <Plus className="w-4 h-4" />
+                  Nominate
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {contacts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    You haven't nominated anyone yet. Legacy contacts are chosen from your connections.
+                  </p>
+                ) : (
+                  contacts.map(contact => (
+                    <div key={contact.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+                      <div className="space-y-1">
+                        <p className="font-medium">
+                          {contact.contact_name || 'Connection'}
+                          <span className="text-muted-foreground font-normal"> · {relationshipLabel(contact.relationship_type)}</span>
+                        </p>
+                        <div className="flex flex-wrap gap-1">
+                          {permissionSummary(contact).map(permission => (
+                            <Badge key={permission} variant="outline">{permission}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => { setEditing(contact); setContactDialogOpen(true); }}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleRemove(contact)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Check-in</CardTitle>
+                <CardDescription>
+                  If you don't open the app for a while, we remind you on WhatsApp. If you still don't respond
+                  before the grace period ends, your legacy contacts are asked to step in.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Check in</Label>
+                    <Select value={intervalDays} onValueChange={setIntervalDays}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Off</SelectItem>
+                        {CHECK_IN_INTERVAL_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Grace period</Label>
+                    <Select value={graceDays} onValueChange={setGraceDays} disabled={intervalDays === 'off'}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {GRACE_PERIOD_OPTIONS.map(days => (
+                          <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {nextCheckIn && (
+                  <p className="text-sm text-muted-foreground">
+                    Last check-in {formatDate(plan!.last_check_in_at)}. Next one due by {formatDate(nextCheckIn)}.
+                    Using the app counts as a check-in.
+                  </p>
+                )}
+                {intervalDays !== 'off' && contacts.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Nominate a legacy contact so someone can be asked to step in.</p>
+                )}
+                <Button onClick={handleSavePlan} disabled={isSavingPlan}>
+                  {isSavingPlan && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="entrusted" className="space-y-4">
+            {entrusted.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <HandHeart className="w-10 h-10 mx-auto mb-3" />
+                  Nobody has named you as a legacy contact yet.
+                </CardContent>
+              </Card>
+            ) : (
+              entrusted.map(({ contact, claims, accessGranted }) => {
+                const ownerName = contact.owner_name || 'Your connection';
+                const latest = claims[0];
+                const pending = claims.some(claim => claim.status === 'pending');
+
+                return (
+                  <Card key={contact.id}>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <CardTitle className="text-lg">{ownerName}</CardTitle>
+                          <p className="text-sm text-muted-foreground">
+                            {permissionSummary(contact).join(' · ')}
+                          </p>
+                        </div>
+                        {latest && (
+                          <Badge variant={latest.status === 'approved' ? 'default' : 'secondary'}>
+                            {LEGACY_CLAIM_STATUS_LABELS[latest.status]}
+                          </Badge>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {contact.message && (
+                        <p className="text-sm italic border-l-2 pl-3">"{contact.message}"</p>
+                      )}
+                      {latest?.status === 'rejected' && latest.review_notes && (
+                        <p className="text-sm text-muted-foreground">Reviewer's note: {latest.review_notes}</p>
+                      )}
+                      {accessGranted ? (
+                        <Button asChild>
+                          <Link to={`/legacy/${contact.user_id}`}>Open {ownerName}'s story</Link>
+                        </Button>
+                      ) : pending ? (
+                        <p className="text-sm text-muted-foreground">
+                          A request is being reviewed. You'll be notified of the decision.
+                        </p>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          onClick={() => setClaimFor({ ownerId: contact.user_id, ownerName })}
+                        >
+                          Request access
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <LegacyContactDialog
+        open={contactDialogOpen}
+        onOpenChange={setContactDialogOpen}
+        contact={editing}
+        existingContactIds={contacts.map(c => c.contact_user_id)}
+        onSaved={loadAll}
+      />
+
+      {claimFor && (
+        <LegacyClaimDialog
+          open={Boolean(claimFor)}
+          onOpenChange={open => !open && setClaimFor(null)}
+          ownerId={claimFor.ownerId}
+          ownerName={claimFor.ownerName}
+          onFiled={loadAll}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Legacy;
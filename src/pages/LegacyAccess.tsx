@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, BookOpen, CheckCircle, Download, Globe, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { legacyService } from '@/services/legacyService';
+import { accountExportService, AccountExport } from '@/services/accountExportService';
+import { getGroupedMemories, GroupedMemory } from '@/utils/memoryGrouping';
+import { EntrustedLegacy, LegacyVisitorPageMemory } from '@/types/legacy';
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), 'MMMM d, yyyy') : '');
+
+/**
+ * What a legacy contact sees once a claim about the owner has been approved.
+ * Every read is still enforced by RLS / has_legacy_permission.
+ */
+const LegacyAccess = () => {
+  const { ownerId } = useParams<{ ownerId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [entrusted, setEntrusted] = useState<EntrustedLegacy | null>(null);
+  const [memories, setMemories] = useState<GroupedMemory[]>([]);
+  const [visitorMemories, setVisitorMemories] = useState<LegacyVisitorPageMemory[]>([]);
+  const [accountExport, setAccountExport] = useState<AccountExport | null>(null);
+  const [exportDownloadUrl, setExportDownloadUrl] = useState<string | null>(null);
+  const [isStartingExport, setIsStartingExport] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (user?.id && ownerId) {
+      load();
+    }
+  }, [user?.id, ownerId]);
+
+  // Poll while the archive is being built server-side
+  useEffect(() => {
+    if (!accountExportService.isRunning(accountExport)) return;
+    const interval = setInterval(loadAccountExport, 5000);
+    return () => clearInterval(interval);
+  }, [accountExport?.status]);
+
+  const load = async () => {
+    if (!user?.id || !ownerId) return;
+    setIsLoading(true);
+    try {
+      const entry = (await legacyService.getEntrusted(user.id)).find(e => e.contact.user_id === ownerId) ?? null;
+      setEntrusted(entry);
+      if (!entry?.accessGranted) return;
+
+      setMemories(await getGroupedMemories(ownerId));
+      if (entry.contact.can_manage_visitor_page) {
+        setVisitorMemories(await legacyService.getVisitorPageMemories(ownerId));
+      }
+      if (entry.contact.can_download_export) {
+        await loadAccountExport();
+      }
+    } catch (error) {
+      console.error('Error loading legacy access:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load this story',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAccountExport = async () => {
+    if (!ownerId) return;
+    try {
+      const latest = await accountExportService.getLatest(ownerId);
+      setAccountExport(latest.export);
+      setExportDownloadUrl(latest.downloadUrl);
+    } catch (error) {
+      console.error('Error loading account export:', error);
+    }
+  };
+
+  const handleStartExport = async () => {
+    if (!ownerId) return;
+    setIsStartingExport(true);
+    try {
+      setAccountExport(await accountExportService.startExport(ownerId));
+      setExportDownloadUrl(null);
+      toast({
+        title: 'Preparing the archive',
+        description: 'This can take a few minutes. You can leave this page.',
+      });
+    } catch (error) {
+      console.error('Error starting account export:', error);
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsStartingExport(false);
+    }
+  };
+
+  const handleToggleVisitor = async (memory: LegacyVisitorPageMemory, isPublic: boolean) => {
+    if (!ownerId) return;
+    try {
+      await legacyService.setMemoryPublic(ownerId, memory.memory_group_id, isPublic);
+      setVisitorMemories(current =>
+        current.map(m => (m.memory_group_id === memory.memory_group_id ? { ...m, is_public: isPublic } : m))
+      );
+    } catch (error) {
+      console.error('Error updating Visitor page:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update the Visitor page',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const ownerName = entrusted?.contact.owner_name || 'Your connection';
+
+  if (!entrusted?.accessGranted) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="max-w-2xl mx-auto px-4 py-16 text-center space-y-4">
+          <p className="text-muted-foreground">
+            Access to this story hasn't been handed over to you.
+          </p>
+          <Button variant="outline" asChild>
+            <Link to="/legacy">Back to Legacy</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { contact } = entrusted;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <Button variant="ghost" size="sm" asChild className="mb-4 -ml-2">
+          <Link to="/legacy" className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Legacy
+          </Link>
+        </Button>
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">{ownerName}'s story</h1>
+          {contact.message && <p className="text-muted-foreground italic mt-2">"{contact.message}"</p>}
+        </div>
+
+        <Tabs defaultValue="memories" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="memories" className="gap-2">
+              <BookOpen className="w-4 h-4" />
+              Memories
+            </TabsTrigger>
+            {contact.can_download_export && (
+              <TabsTrigger value="export" className="gap-2">
+                <Download className="w-4 h-4" />
+                Export
+              </TabsTrigger>
+            )}
+            {contact.can_manage_visitor_page && (
+              <TabsTrigger value="visitor" className="gap-2">
+                <Globe className="w-4 h-4" />
+                Visitor page
+              </TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="memories" className="space-y-4">
+            {memories.length === 0 ? (
+              <p className="text-muted-foreground text-center py-12">There are no memories you can view.</p>
+            ) : (
+              memories.map(memory => (
+                <Card key={memory.id}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">{memory.title}</CardTitle>
+                    {memory.memory_date && <CardDescription>{formatDate(memory.memory_date)}</CardDescription>}
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm whitespace-pre-wrap">{memory.text}</p>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          {contact.can_download_export && (
+            <TabsContent value="export">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Download an archive</CardTitle>
+                  <CardDescription>
+                    Everything in {ownerName}'s account: memories, recordings, images and settings.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <Button
+                    onClick={handleStartExport}
+                    disabled={isStartingExport || accountExportService.isRunning(accountExport)}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    {accountExportService.isRunning(accountExport) ? 'Preparing the archive...' : 'Create archive'}
+                  </Button>
+                  {accountExport?.status === 'completed' && exportDownloadUrl && (
+                    <a href={exportDownloadUrl} className="flex items-center gap-2 text-sm text-primary hover:underline">
+                      <CheckCircle className="w-4 h-4" />
+                      Archive ready ({new Date(accountExport.completed_at || accountExport.created_at).toLocaleDateString()})
+                    </a>
+                  )}
+                  {accountExport?.status === 'failed' && (
+                    <p className="text-xs text-destructive">
+                      Last export failed: {accountExport.error || 'unknown error'}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {contact.can_manage_visitor_page && (
+            <TabsContent value="visitor">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Visitor page</CardTitle>
+                  <CardDescription>Choose which memories anyone visiting {ownerName}'s page can read.</CardDescription>
+                </CardHeader>
+                <CardContent className="divide-y">
+                  {visitorMemories.map(memory => (
+                    <div key={memory.memory_group_id} className="flex items-center justify-between gap-4 py-3">
+                      <div>
+                        <p className="font-medium">{memory.title}</p>
+                        {memory.memory_date && (
+                          <p className="text-xs text-muted-foreground">{formatDate(memory.memory_date)}</p>
+                        )}
+                      </div>
+                      <Switch
+                        checked={memory.is_public}
+                        onCheckedChange={checked => handleToggleVisitor(memory, checked)}
+                      />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default LegacyAccess;
@@ -0,0 +1,207 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Link2, List, Loader2, Network, RefreshCw, Search, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { PeopleGraph } from '@/components/people/PeopleGraph';
+import { peopleService } from '@/services/peopleService';
+import { buildPeopleGraph } from '@/utils/peopleGraph';
+import { Person, PersonMention, RelationshipGroup, RELATIONSHIP_GROUP_LABELS } from '@/types/people';
+
+const GROUP_ORDER: RelationshipGroup[] = ['family', 'partner', 'friend', 'other'];
+
+const People = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [people, setPeople] = useState<Person[]>([]);
+  const [mentions, setMentions] = useState<PersonMention[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [search, setSearch] = useState('');
+  const [showHidden, setShowHidden] = useState(false);
+
+  const graph = useMemo(() => buildPeopleGraph(people, mentions, 'You'), [people, mentions]);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadPeople();
+    }
+  }, [user?.id]);
+
+  const loadPeople = async () => {
+    if (!user?.id) return;
+    setIsLoading(true);
+    try {
+      const [nextPeople, nextMentions] = await Promise.all([
+        peopleService.getPeople(user.id),
+        peopleService.getMentions(user.id),
+      ]);
+      setPeople(nextPeople);
+      setMentions(nextMentions);
+    } catch (error) {
+      console.error('Error loading people:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load people',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true);
+    try {
+      const result = await peopleService.rebuild();
+      toast({
+        title: 'People updated',
+        description: `${result.people} people across your memories${result.linked > 0 ? `, ${result.linked} linked to connections` : ''}.`,
+      });
+      await loadPeople();
+    } catch (error) {
+      console.error('Error rebuilding people:', error);
+      toast({
+        title: 'Failed to update people',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const query = search.trim().toLowerCase();
+  const listed = people.filter(person =>
+    (showHidden || !person.is_hidden) &&
+    (!query || person.display_name.toLowerCase().includes(query) || person.aliases.some(alias => alias.includes(query)))
+  );
+  const hiddenCount = people.filter(person => person.is_hidden).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">People</h1>
+            <p className="text-muted-foreground">Everyone who appears in your memories</p>
+          </div>
+          <Button variant="outline" onClick={handleRebuild} disabled={isRebuilding} className="gap-2">
+            {isRebuilding ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Update from memories
+          </Button>
+        </div>
+
+        {people.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <Users className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No people yet</p>
+              <p className="text-sm">Update from your memories to find everyone you've talked about</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Tabs defaultValue="directory" className="space-y-6">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="directory" className="gap-2">
+                <List className="w-4 h-4" />
+                Directory
+              </TabsTrigger>
+              <TabsTrigger value="graph" className="gap-2">
+                <Network className="w-4 h-4" />
+                Relationships
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="directory" className="space-y-6">
+              <div className="flex items-center gap-4">
+                <div className="relative flex-1">
+                  <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by name or how you call them"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+                {hiddenCount > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Switch id="show-hidden" checked={showHidden} onCheckedChange={setShowHidden} />
+                    <Label htmlFor="show-hidden" className="text-sm">Show hidden ({hiddenCount})</Label>
+                  </div>
+                )}
+              </div>
+
+              {GROUP_ORDER.map(group => {
+                const members = listed.filter(person => person.relationship_group === group);
+                if (members.length === 0) return null;
+                return (
+                  <div key={group} className="space-y-2">
+                    <h2 className="text-sm font-medium text-muted-foreground">{RELATIONSHIP_GROUP_LABELS[group]}</h2>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {members.map(person => (
+                        <Card
+                          key={person.id}
+                          className={`cursor-pointer hover:bg-muted/50 transition-colors ${person.is_hidden ? 'opacity-60' : ''}`}
+                          onClick={() => navigate(`/people/${person.id}`)}
+                        >
+                          <CardContent className="py-3 flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                              <p className="font-medium truncate flex items-center gap-1">
+                                {person.display_name}
+                                {person.linked_user_id && <Link2 className="w-3 h-3 text-muted-foreground" />}
+                              </p>
+                              {person.relationship && (
+                                <p className="text-xs text-muted-foreground capitalize">{person.relationship}</p>
+                              )}
+                            </div>
+                            <Badge variant="secondary">
+                              {person.mention_count} {person.mention_count === 1 ? 'memory' : 'memories'}
+                            </Badge>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {listed.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">Nobody matches "{search}"</p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="graph">
+              <Card>
+                <CardContent className="pt-6">
+                  <PeopleGraph graph={graph} onSelect={(personId) => navigate(`/people/${personId}`)} />
+                  <p className="text-xs text-muted-foreground text-center mt-2">
+                    Lines between people mean they appear in the same memories. Drag to rearrange, click to open.
+                  </p>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default People;
@@ -0,0 +1,181 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Calendar, EyeOff, Link2, Loader2, MapPin } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { PeopleGraph } from '@/components/people/PeopleGraph';
+import { PersonActions } from '@/components/people/PersonActions';
+import { peopleService } from '@/services/peopleService';
+import { buildPeopleGraph } from '@/utils/peopleGraph';
+import { Person as PersonRecord, PersonMemory, PersonMention, RELATIONSHIP_GROUP_LABELS } from '@/types/people';
+
+const Person = () => {
+  const { personId } = useParams<{ personId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [people, setPeople] = useState<PersonRecord[]>([]);
+  const [mentions, setMentions] = useState<PersonMention[]>([]);
+  const [memories, setMemories] = useState<PersonMemory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const person = people.find(p => p.id === personId) || null;
+  const graph = useMemo(
+    () => (personId ? buildPeopleGraph(people, mentions, 'You', personId) : null),
+    [people, mentions, personId]
+  );
+
+  useEffect(() => {
+    if (user?.id && personId) {
+      loadPerson();
+    }
+  }, [user?.id, personId]);
+
+  const loadPerson = async () => {
+    if (!user?.id || !personId) return;
+    setIsLoading(true);
+    try {
+      const [nextPeople, nextMentions] = await Promise.all([
+        peopleService.getPeople(user.id),
+        peopleService.getMentions(user.id),
+      ]);
+      setPeople(nextPeople);
+      setMentions(nextMentions);
+      setMemories(await peopleService.getPersonMemories(user.id, personId, nextMentions));
+    } catch (error) {
+      console.error('Error loading person:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load this person',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!person) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="max-w-4xl mx-auto px-4 py-8 text-center space-y-4">
+          <p className="text-muted-foreground">This person isn't in your directory anymore.</p>
+          <Button variant="outline" onClick={() => navigate('/people')}>Back to people</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/people')} className="gap-2 -ml-2">
+          <ArrowLeft className="w-4 h-4" />
+          People
+        </Button>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              {person.display_name}
+              {person.is_hidden && <EyeOff className="w-5 h-5 text-muted-foreground" />}
+            </h1>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <Badge variant="outline">{RELATIONSHIP_GROUP_LABELS[person.relationship_group]}</Badge>
+              {person.relationship && <span className="capitalize">{person.relationship}</span>}
+              {person.linked_user_id && (
+                <Link to={`/visitor/${person.linked_user_id}`} className="flex items-center gap-1 hover:underline">
+                  <Link2 className="w-3 h-3" />
+                  {person.linked_user_name || 'Connection'}'s memories
+                </Link>
+              )}
+            </div>
+            {person.notes && <p className="text-sm">{person.notes}</p>}
+          </div>
+          <PersonActions
+            person={person}
+            people={people}
+            onChanged={loadPerson}
+            onMerged={(targetId) => navigate(`/people/${targetId}`)}
+            onSplit={(newPersonId) => navigate(`/people/${newPersonId}`)}
+          />
+        </div>
+
+        {person.aliases.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            <span className="text-xs text-muted-foreground mr-1">Also known as</span>
+            {person.aliases.map(alias => (
+              <Badge key={alias} variant="secondary" className="font-normal">{alias}</Badge>
+            ))}
+          </div>
+        )}
+
+        {graph && graph.nodes.length > 2 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Who else is in these memories</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PeopleGraph
+                graph={graph}
+                focusId={person.id}
+                height={360}
+                onSelect={(id) => id !== person.id && navigate(`/people/${id}`)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="space-y-3">
+          <h2 className="text-lg font-semibold">
+            {memories.length} {memories.length === 1 ? 'memory' : 'memories'}
+          </h2>
+          {memories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {person.display_name} isn't mentioned in any memories yet.
+            </p>
+          ) : (
+            memories.map(memory => (
+              <Card key={memory.memory_group_id}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">{memory.title}</CardTitle>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                    {memory.memory_date && (
+                      <span className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {format(new Date(memory.memory_date), 'MMMM d, yyyy')}
+                      </span>
+                    )}
+                    {memory.memory_location && (
+                      <span className="flex items-center gap-1">
+                        <MapPin className="w-3 h-3" />
+                        {memory.memory_location}
+                      </span>
+                    )}
+                    <span>as {memory.mentions.map(m => `"${m}"`).join(', ')}</span>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground line-clamp-4 whitespace-pre-wrap">{memory.text}</p>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Person;
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -8,23 +8,26 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Upload, X } from "lucide-react";
+import { GitBranch, Link2, Loader2, Upload, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-
-interface RecentReconstruction {
-  id: string;
-  imageUrl: string;
-  prompt: string;
-  timestamp: Date;
-}
-
-type ReconstructionMode = "sketch" | "photoreal";
-type SketchStyle = "pencil_sketch" | "charcoal" | "soft_sepia" | "dreamlike_ink";
-type PhotorealLens = "35mm" | "50mm" | "85mm";
-type PhotorealStyle = "documentary" | "cinematic" | "portrait";
+import { useAuth } from "@/contexts/AuthContext";
+import { reconstructionService } from "@/services/reconstructionService";
+import { identityTrainingService } from "@/services/identityTrainingService";
+import { TrainedIdentity } from "@/types/identityTraining";
+import { ReconstructionGallery } from "@/components/reconstruction/ReconstructionGallery";
+import { AttachToMemoryDialog } from "@/components/reconstruction/AttachToMemoryDialog";
+import {
+  GenerateReconstructionRequest,
+  PhotorealLens,
+  PhotorealStyle,
+  Reconstruction as SavedReconstruction,
+  ReconstructionMode,
+  SketchStyle,
+} from "@/types/reconstruction";
 
 const Reconstruction = () => {
+  const { user } = useAuth();
   const [mode, setMode] = useState<ReconstructionMode>("sketch");
   const [memoryPrompt, setMemoryPrompt] = useState("");
   const [style, setStyle] = useState<SketchStyle>("pencil_sketch");
@@ -39,23 +42,36 @@ const Reconstruction = () => {
   const [generatedPrompt, setGeneratedPrompt] = useState("");
   const [generatedTime, setGeneratedTime] = useState<Date | null>(null);
   const [refinePrompt, setRefinePrompt] = useState("");
-  const [recentReconstructions, setRecentReconstructions] = useState<RecentReconstruction[]>([]);
-  
-  // Load trained identities from localStorage
-  const trainedIdentities = (() => {
-    const stored = localStorage.getItem('trained_identities');
-    if (stored) {
-      try {
-        return JSON.parse(stored).filter((identity: any) => identity.status === 'ready');
-      } catch (e) {
-        console.error('Error loading trained identities:', e);
-      }
+  const [gallery, setGallery] = useState<SavedReconstruction[]>([]);
+  const [current, setCurrent] = useState<SavedReconstruction | null>(null);
+  const [attachTarget, setAttachTarget] = useState<SavedReconstruction | null>(null);
+  const [trainedIdentities, setTrainedIdentities] = useState<TrainedIdentity[]>([]);
+
+  const loadGallery = useCallback(async () => {
+    if (!user) return;
+    try {
+      const reconstructions = await reconstructionService.getGallery(user.id);
+      setGallery(reconstructions);
+      setCurrent(prev => prev ? reconstructions.find(r => r.id === prev.id) || prev : prev);
+    } catch (error) {
+      console.error('Error loading reconstructions:', error);
     }
-    return [
-      { id: "me_v1", name: "Me", status: "ready" },
-      { id: "dad_v1", name: "Dad", status: "ready" }
-    ];
-  })();
+  }, [user]);
+
+  useEffect(() => {
+    loadGallery();
+  }, [loadGallery]);
+  
+  // Only trained identities with active likeness consent can be used
+  useEffect(() => {
+    if (!user) return;
+    identityTrainingService.getUsableIdentities(user.id)
+      .then(identities => {
+        setTrainedIdentities(identities);
+        setSelectedIdentities(prev => prev.filter(id => identities.some(identity => identity.id === id)));
+      })
+      .catch(error => console.error('Error loading trained identities:', error));
+  }, [user]);
 
   const handleReferenceImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -122,8 +138,7 @@ const Reconstruction = () => {
     try {
       const { prompt, negative_prompt } = normalizePrompt();
       
-      const payload: any = {
-        requestId: crypto.randomUUID(),
+      const payload: GenerateReconstructionRequest = {
         mode,
         memoryPrompt: memoryPrompt.trim(),
         style: mode === "sketch" ? style : undefined,
@@ -163,34 +178,9 @@ const Reconstruction = () => {
         payload.face_image_url = urlData.publicUrl;
       }
 
-      const { data, error } = await supabase.functions.invoke('generate-memory-sketch', {
-        body: payload
-      });
-
-      if (error) {
-        console.error('Error calling function:', error);
-        throw error;
-      }
-
-      if (!data?.imageUrl) {
-        throw new Error('No image URL returned');
-      }
-
-      setGeneratedImage(data.imageUrl);
-      setGeneratedPrompt(memoryPrompt);
-      setGeneratedTime(new Date());
-
-      // Add to recent reconstructions
-      const newReconstruction: RecentReconstruction = {
-        id: crypto.randomUUID(),
-        imageUrl: data.imageUrl,
-        prompt: memoryPrompt,
-        timestamp: new Date()
-      };
-      
-      setRecentReconstructions(prev => [newReconstruction, ...prev].slice(0, 4));
-      
-      toast.success("Your memory has been sketched.");
+      const { reconstruction, imageUrl } = await reconstructionService.generate(payload);
+      showResult({ ...reconstruction, image_url: imageUrl, memory_ids: [] });
+      toast.success("Your memory has been sketched and saved to your gallery.");
     } catch (error) {
       console.error('Generation error:', error);
       toast.error("Solon can't draw this memory right now. Try again later.");
@@ -199,8 +189,22 @@ const Reconstruction = () => {
     }
   };
 
+  const showResult = (reconstruction: SavedReconstruction, isNew = true) => {
+    setCurrent(reconstruction);
+    setGeneratedImage(reconstruction.image_url || null);
+    setGeneratedPrompt(reconstruction.metadata.refine_prompt
+      ? `${reconstruction.metadata.memory_prompt} ${reconstruction.metadata.refine_prompt}`
+      : reconstruction.metadata.memory_prompt);
+    setGeneratedTime(new Date(reconstruction.created_at));
+    setRefinePrompt("");
+    if (isNew) {
+      setGallery(prev => [reconstruction, ...prev.filter(r => r.id !== reconstruction.id)]);
+    }
+  };
+
   const handleClear = () => {
     setMemoryPrompt("");
+    setCurrent(null);
     setGeneratedImage(null);
     setGeneratedPrompt("");
     setGeneratedTime(null);
@@ -209,13 +213,42 @@ const Reconstruction = () => {
     setSelectedIdentities([]);
   };
 
-  const handleRegenerate = () => {
-    if (refinePrompt.trim()) {
-      setMemoryPrompt(refinePrompt);
-      handleGenerate();
+  // Re-runs the shown image's settings with the extra detail, keeping its lineage
+  const handleRegenerate = async () => {
+    if (!current || !refinePrompt.trim()) return;
+
+    setIsGenerating(true);
+    toast.success("Solon is refining this memory…");
+    try {
+      const { reconstruction, imageUrl } = await reconstructionService.refine(current.id, refinePrompt.trim());
+      showResult({ ...reconstruction, image_url: imageUrl, memory_ids: [] });
+      toast.success("Refined version saved to your gallery.");
+    } catch (error) {
+      console.error('Refine error:', error);
+      toast.error("Solon can't refine this memory right now. Try again later.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDelete = async (reconstruction: SavedReconstruction) => {
+    const attached = reconstruction.memory_ids?.length || 0;
+    const warning = attached > 0 ? ` It will also be removed from ${attached} memor${attached === 1 ? 'y' : 'ies'}.` : '';
+    if (!confirm(`Delete this reconstruction?${warning} This cannot be undone.`)) return;
+
+    try {
+      await reconstructionService.deleteReconstruction(reconstruction);
+      setGallery(prev => prev.filter(r => r.id !== reconstruction.id));
+      if (current?.id === reconstruction.id) handleClear();
+      toast.success("Reconstruction deleted");
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast.error("Could not delete this reconstruction");
     }
   };
 
+  const lineage = current ? reconstructionService.getLineage(gallery, current.id).slice(0, -1) : [];
+
   const wordCount = memoryPrompt.trim().split(/\s+/).filter(w => w).length;
   const canGenerate = wordCount >= 10 && !isGenerating;
 
@@ -360,7 +393,9 @@ const Reconstruction = () => {
                       ))}
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      Train identities in Settings → Identities
+                      {trainedIdentities.length === 0
+                        ? "Train identities, with consent from the person pictured, on the Identities page"
+                        : "Only identities with current consent are listed"}
                     </p>
                   </div>
                 )}
@@ -465,6 +500,36 @@ const Reconstruction = () => {
                     </p>
                   </div>
 
+                  {lineage.length > 0 && (
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium flex items-center gap-1">
+                        <GitBranch className="h-4 w-4" />
+                        Refined from
+                      </Label>
+                      <div className="flex gap-2 overflow-x-auto">
+                        {lineage.map((ancestor) => (
+                          <button
+                            key={ancestor.id}
+                            onClick={() => showResult(ancestor, false)}
+                            className="w-20 aspect-[4/3] flex-shrink-0 rounded overflow-hidden border hover:ring-2 hover:ring-primary"
+                            title={ancestor.metadata.refine_prompt || ancestor.metadata.memory_prompt}
+                          >
+                            {ancestor.image_url && (
+                              <img src={ancestor.image_url} alt="Earlier version" className="w-full h-full object-cover" />
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {current && (
+                    <Button variant="outline" size="sm" onClick={() => setAttachTarget(current)}>
+                      <Link2 className="mr-2 h-4 w-4" />
+                      {current.memory_ids?.length ? `Attached to ${current.memory_ids.length} memor${current.memory_ids.length === 1 ? 'y' : 'ies'}` : 'Attach to memory'}
+                    </Button>
+                  )}
+
                   <div className="pt-4 border-t space-y-2">
                     <Label className="text-sm font-medium">
                       Refine Memory
@@ -478,7 +543,7 @@ const Reconstruction = () => {
                       />
                       <Button
                         onClick={handleRegenerate}
-                        disabled={!refinePrompt.trim() || isGenerating}
+                        disabled={!current || !refinePrompt.trim() || isGenerating}
                         variant="outline"
                       >
                         Regenerate
@@ -491,36 +556,25 @@ const Reconstruction = () => {
           </div>
         </div>
 
-        {/* Recent Reconstructions */}
-        {recentReconstructions.length > 0 && (
+        {/* Reconstruction Gallery */}
+        {gallery.length > 0 && (
           <div className="space-y-4">
-            <h2 className="text-2xl font-serif font-bold">Recent Reconstructions</h2>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {recentReconstructions.map((item) => (
-                <Card
-                  key={item.id}
-                  className="p-3 bg-card border hover:shadow-lg transition-shadow cursor-pointer group"
-                  onClick={() => {
-                    setGeneratedImage(item.imageUrl);
-                    setGeneratedPrompt(item.prompt);
-                    setGeneratedTime(item.timestamp);
-                  }}
-                >
-                  <div className="aspect-[4/3] rounded overflow-hidden mb-2 border">
-                    <img
-                      src={item.imageUrl}
-                      alt="Memory reconstruction"
-                      className="w-full h-full object-cover group-hover:scale-105 transition-transform"
-                    />
-                  </div>
-                  <p className="text-xs text-muted-foreground line-clamp-2">
-                    {item.prompt}
-                  </p>
-                </Card>
-              ))}
-            </div>
+            <h2 className="text-2xl font-serif font-bold">Your Reconstructions</h2>
+            <ReconstructionGallery
+              reconstructions={gallery}
+              selectedId={current?.id ?? null}
+              onSelect={(item) => showResult(item, false)}
+              onAttach={setAttachTarget}
+              onDelete={handleDelete}
+            />
           </div>
         )}
+
+        <AttachToMemoryDialog
+          reconstruction={attachTarget}
+          onClose={() => setAttachTarget(null)}
+          onChanged={loadGallery}
+        />
       </div>
     </div>
   );
@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
-import { ArrowLeft, Shield, Heart, User, Mic, Mail, Download, Trash2, Wallet, TrendingUp, Image, Brain, MessageSquare, Volume2, Sparkles, MapPin, Briefcase, GraduationCap, Phone, CheckCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { ArrowLeft, Shield, Heart, User, Mic, Mail, Download, Trash2, Wallet, TrendingUp, Image, Brain, MessageSquare, Volume2, Sparkles, MapPin, Briefcase, GraduationCap, CheckCircle, ChevronDown, ChevronUp } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
@@ -14,6 +14,12 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import VoiceTest from '@/components/VoiceTest';
 import MicrophoneTest from '@/components/MicrophoneTest';
+import { accountExportService, AccountExport } from '@/services/accountExportService';
+import { RecordingRetentionSettings } from '@/components/RecordingRetentionSettings';
+import { PhoneNumbersSettings } from '@/components/PhoneNumbersSettings';
+import { HouseholdPhonesSettings } from '@/components/HouseholdPhonesSettings';
+import { MessagingChannelsSettings } from '@/components/MessagingChannelsSettings';
+import { MemoryPromptSettings } from '@/components/MemoryPromptSettings';
 
 const Settings = () => {
   const { user } = useAuth();
@@ -37,15 +43,6 @@ const Settings = () => {
   const [isUpdating, setIsUpdating] = useState(false);
   const [profileExists, setProfileExists] = useState(false);
   
-  // Phone verification state
-  const [phoneNumber, setPhoneNumber] = useState('');
-  const [verificationCode, setVerificationCode] = useState('');
-  const [linkedPhoneNumber, setLinkedPhoneNumber] = useState<string | null>(null);
-  const [isPhoneVerified, setIsPhoneVerified] = useState(false);
-  const [codeSent, setCodeSent] = useState(false);
-  const [isSendingCode, setIsSendingCode] = useState(false);
-  const [isVerifying, setIsVerifying] = useState(false);
-
   // Audio test state
   const [voiceTestOpen, setVoiceTestOpen] = useState(false);
   const [micTestOpen, setMicTestOpen] = useState(false);
@@ -55,31 +52,55 @@ const Settings = () => {
     recommendations: string[];
   } | null>(null);
 
+  // Account export state
+  const [accountExport, setAccountExport] = useState<AccountExport | null>(null);
+  const [exportDownloadUrl, setExportDownloadUrl] = useState<string | null>(null);
+  const [isStartingExport, setIsStartingExport] = useState(false);
+
   // Load profile data
   useEffect(() => {
     if (user) {
       loadProfile();
-      loadPhoneNumber();
+      loadAccountExport();
     }
   }, [user]);
 
-  const loadPhoneNumber = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('user_phone_numbers')
-        .select('*')
-        .eq('user_id', user?.id)
-        .eq('verified', true)
-        .maybeSingle();
+  // Poll while the archive is being built server-side
+  useEffect(() => {
+    if (!accountExportService.isRunning(accountExport)) return;
+    const interval = setInterval(loadAccountExport, 5000);
+    return () => clearInterval(interval);
+  }, [accountExport?.status]);
 
-      if (error && error.code !== 'PGRST116') throw error;
+  const loadAccountExport = async () => {
+    try {
+      const latest = await accountExportService.getLatest();
+      setAccountExport(latest.export);
+      setExportDownloadUrl(latest.downloadUrl);
+    } catch (error) {
+      console.error('Error loading account export:', error);
+    }
+  };
 
-      if (data) {
-        setLinkedPhoneNumber(data.phone_number);
-        setIsPhoneVerified(true);
-      }
+  const handleStartExport = async () => {
+    setIsStartingExport(true);
+    try {
+      const started = await accountExportService.startExport();
+      setAccountExport(started);
+      setExportDownloadUrl(null);
+      toast({
+        title: "Preparing your archive",
+        description: "This can take a few minutes for large recording libraries. You can leave this page."
+      });
     } catch (error) {
-      console.error('Error loading phone number:', error);
+      console.error('Error starting account export:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsStartingExport(false);
     }
   };
 
@@ -184,85 +205,6 @@ const Settings = () => {
     }
   };
 
-  const handleSendVerificationCode = async () => {
-    if (!phoneNumber || phoneNumber.length < 10) {
-      toast({
-        title: "Invalid phone number",
-        description: "Please enter a valid phone number with country code (e.g., +1234567890)",
-        variant: "destructive"
-      });
-      return;
-    }
-
-    setIsSendingCode(true);
-    try {
-      const { data, error } = await supabase.functions.invoke('verify-phone-whatsapp', {
-        body: { action: 'send_code', phone_number: phoneNumber }
-      });
-
-      if (error) throw error;
-
-      setCodeSent(true);
-      toast({
-        title: "Verification code sent",
-        description: "Check your WhatsApp for the 6-digit code"
-      });
-    } catch (error) {
-      console.error('Error sending code:', error);
-      toast({
-        title: "Failed to send code",
-        description: error.message || "Please try again",
-        variant: "destructive"
-      });
-    } finally {
-      setIsSendingCode(false);
-    }
-  };
-
-  const handleVerifyCode = async () => {
-    if (!verificationCode || verificationCode.length !== 6) {
-      toast({
-        title: "Invalid code",
-        description: "Please enter the 6-digit verification code",
-        variant: "destructive"
-      });
-      return;
-    }
-
-    setIsVerifying(true);
-    try {
-      const { data, error } = await supabase.functions.invoke('verify-phone-whatsapp', {
-        body: { 
-          action: 'verify_code', 
-          phone_number: phoneNumber,
-          verification_code: verificationCode 
-        }
-      });
-
-      if (error) throw error;
-
-      setLinkedPhoneNumber(phoneNumber);
-      setIsPhoneVerified(true);
-      setCodeSent(false);
-      setVerificationCode('');
-      setPhoneNumber('');
-      
-      toast({
-        title: "Phone number verified",
-        description: "Your WhatsApp number is now linked to your account"
-      });
-    } catch (error) {
-      console.error('Error verifying code:', error);
-      toast({
-        title: "Verification failed",
-        description: error.message || "Invalid or expired code",
-        variant: "destructive"
-      });
-    } finally {
-      setIsVerifying(false);
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
@@ -461,104 +403,13 @@ const Settings = () => {
           </CardContent>
         </Card>
 
-        {/* WhatsApp Phone Number */}
-        <Card className="modern-card border-border/50">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
-                <Phone className="w-5 h-5 text-primary" />
-              </div>
-              WhatsApp Integration
-            </CardTitle>
-            <CardDescription>
-              Link your WhatsApp number to access Solin on the go
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            {linkedPhoneNumber && isPhoneVerified ? (
-              <div className="p-4 rounded-xl bg-primary/5 border border-primary/20">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <CheckCircle className="w-5 h-5 text-primary" />
-                    <div>
-                      <p className="font-medium">Verified Phone Number</p>
-                      <p className="text-sm text-muted-foreground">{linkedPhoneNumber}</p>
-                    </div>
-                  </div>
-                  <Badge variant="secondary" className="bg-primary/10 text-primary border-0">
-                    Active
-                  </Badge>
-                </div>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="phoneNumber">Phone Number</Label>
-                  <Input
-                    id="phoneNumber"
-                    type="tel"
-                    value={phoneNumber}
-                    onChange={(e) => setPhoneNumber(e.target.value)}
-                    className="bg-card border-border"
-                    placeholder="+1234567890"
-                    disabled={codeSent}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Include country code (e.g., +1 for US)
-                  </p>
-                </div>
+        {user && <PhoneNumbersSettings userId={user.id} />}
 
-                {!codeSent ? (
-                  <Button 
-                    onClick={handleSendVerificationCode}
-                    disabled={isSendingCode || !phoneNumber}
-                    className="bg-primary hover:bg-primary/90 rounded-full"
-                  >
-                    {isSendingCode ? 'Sending...' : 'Send Verification Code'}
-                  </Button>
-                ) : (
-                  <div className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="verificationCode">Verification Code</Label>
-                      <Input
-                        id="verificationCode"
-                        type="text"
-                        value={verificationCode}
-                        onChange={(e) => setVerificationCode(e.target.value)}
-                        className="bg-card border-border"
-                        placeholder="Enter 6-digit code"
-                        maxLength={6}
-                      />
-                      <p className="text-xs text-muted-foreground">
-                        Check your WhatsApp for the verification code
-                      </p>
-                    </div>
+        {user && <HouseholdPhonesSettings userId={user.id} />}
 
-                    <div className="flex gap-3">
-                      <Button 
-                        onClick={handleVerifyCode}
-                        disabled={isVerifying || verificationCode.length !== 6}
-                        className="bg-primary hover:bg-primary/90 rounded-full flex-1"
-                      >
-                        {isVerifying ? 'Verifying...' : 'Verify Code'}
-                      </Button>
-                      <Button 
-                        variant="outline"
-                        onClick={() => {
-                          setCodeSent(false);
-                          setVerificationCode('');
-                        }}
-                        className="rounded-full"
-                      >
-                        Cancel
-                      </Button>
-                    </div>
-                  </div>
-                )}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+        {user && <MessagingChannelsSettings userId={user.id} />}
+
+        {user && <MemoryPromptSettings userId={user.id} />}
 
         {/* Voice & Microphone Testing */}
         <Card className="modern-card border-border/50">
@@ -703,6 +554,9 @@ const Settings = () => {
           </CardContent>
         </Card>
 
+        {/* Recording Retention */}
+        {user && <RecordingRetentionSettings userId={user.id} />}
+
         {/* Privacy Promise */}
         <Card className="modern-card border-primary/50 bg-gradient-to-br from-primary/5 to-accent/5">
           <CardContent className="p-8">
@@ -869,10 +723,39 @@ const Settings = () => {
               Export my memories
             </Button>
             
-            <Button variant="outline" className="w-full justify-start border-border hover:bg-card rounded-full">
-              <Download className="w-4 h-4 mr-2" />
-              Download my data
-            </Button>
+            <div className="space-y-2">
+              <Button
+                variant="outline"
+                className="w-full justify-start border-border hover:bg-card rounded-full"
+                onClick={handleStartExport}
+                disabled={isStartingExport || accountExportService.isRunning(accountExport)}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {accountExportService.isRunning(accountExport) ? 'Preparing your archive...' : 'Download my data'}
+              </Button>
+              {accountExport?.status === 'completed' && exportDownloadUrl && (
+                <a
+                  href={exportDownloadUrl}
+                  className="flex items-center justify-between text-sm px-4 py-2 rounded-full border border-primary/40 text-primary hover:bg-primary/10"
+                >
+                  <span className="flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4" />
+                    Archive ready ({new Date(accountExport.completed_at || accountExport.created_at).toLocaleDateString()})
+                  </span>
+                  <span>
+                    {accountExport.file_size_bytes ? `${(accountExport.file_size_bytes / (1024 * 1024)).toFixed(1)} MB` : 'Download'}
+                  </span>
+                </a>
+              )}
+              {accountExport?.status === 'failed' && (
+                <p className="text-xs text-destructive px-4">
+                  Last export failed: {accountExport.error || 'unknown error'}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground px-4">
+                A zip with all memories, recordings and transcripts, attachments, your biography and profile, as JSON and browsable pages.
+              </p>
+            </div>
 
             <div className="pt-4 border-t border-border">
               <Button variant="ghost" className="w-full justify-start text-destructive hover:text-destructive hover:bg-destructive/10 rounded-full">
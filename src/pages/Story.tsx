@@ -1,11 +1,15 @@
 import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, Heart, MapPin, Calendar, Sparkles, Bot, AlertCircle, ZoomIn, ZoomOut, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ArrowLeft, Heart, MapPin, Calendar, Sparkles, Bot, AlertCircle, ZoomIn, ZoomOut, RefreshCw, ChevronLeft, ChevronRight, BookOpen } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { BiographyBookDialog } from '@/components/BiographyBookDialog';
+import { AudienceViewSelect } from '@/components/AudienceViewSelect';
+import { audienceService, isVisibleToAudience } from '@/services/audienceService';
+import { AudienceCircle, AudienceView, MemoryAudience } from '@/types/audience';
 
 interface Memory {
   id: string;
@@ -14,6 +18,7 @@ interface Memory {
   created_at: string;
   memory_date?: string;
   memory_location?: string;
+  memory_group_id?: string | null;
 }
 
 const Story = () => {
@@ -37,6 +42,10 @@ const Story = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [pageTransition, setPageTransition] = useState('');
+  const [bookDialogOpen, setBookDialogOpen] = useState(false);
+  const [circles, setCircles] = useState<AudienceCircle[]>([]);
+  const [audienceMap, setAudienceMap] = useState<Map<string, MemoryAudience[]>>(new Map());
+  const [audienceView, setAudienceView] = useState<AudienceView>('me');
 
   // Simplified and safe grammar checking functions
   const grammarCheck = (text: string, userName: string = ''): string => {
@@ -751,7 +760,7 @@ const Story = () => {
 
       const memoriesPromise = supabase
         .from('memories')
-        .select('id, title, text, created_at, memory_date, memory_location')
+        .select('id, title, text, created_at, memory_date, memory_location, memory_group_id')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -781,6 +790,18 @@ const Story = () => {
 
         const fetchedMemories = memoriesResult.data || [];
         setMemories(fetchedMemories);
+
+        // Audiences only drive the "view as" preview; a failure leaves the full story
+        try {
+          const [userCircles, audiences] = await Promise.all([
+            audienceService.getCircles(user.id),
+            audienceService.getAudienceMap(user.id),
+          ]);
+          setCircles(userCircles);
+          setAudienceMap(audiences);
+        } catch (audienceError) {
+          console.warn('Audience fetch failed, story shown as yourself:', audienceError);
+        }
         setUserProfile(profileResult.data || { 
           name: user.email?.split('@')[0] || 'User',
           user_id: user.id 
@@ -912,7 +933,8 @@ const Story = () => {
     setIsDragging(false);
   };
 
-  const narrative = generateDynamicNarrative(memories, userProfile);
+  const audienceMemories = memories.filter(m => isVisibleToAudience(audienceMap.get(m.memory_group_id || m.id), audienceView));
+  const narrative = generateDynamicNarrative(audienceMemories, userProfile);
   const pages = splitContentIntoPages(narrative);
   
   // Update total pages when content changes
@@ -974,6 +996,25 @@ const Story = () => {
         
         {/* Zoom Controls and Page Info */}
         <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setBookDialogOpen(true)}
+            className="text-slate-600 hover:text-slate-800 bg-white/80 backdrop-blur-sm"
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            Download book
+          </Button>
+
+          {user && (
+            <AudienceViewSelect
+              circles={circles}
+              value={audienceView}
+              onChange={setAudienceView}
+              className="h-9 w-44 bg-white/80 backdrop-blur-sm text-slate-600"
+            />
+          )}
+
           {/* Page Navigation Info */}
           <div className="bg-white/80 backdrop-blur-sm rounded-lg px-3 py-2">
             <span className="text-sm text-slate-600 font-medium">
@@ -1021,6 +1062,8 @@ const Story = () => {
         </div>
       </nav>
 
+      <BiographyBookDialog open={bookDialogOpen} onOpenChange={setBookDialogOpen} />
+
       {/* Scrollable Container with Pan and Zoom */}
       <div 
         ref={containerRef}
@@ -0,0 +1,331 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Gift, Inbox, KeyRound, Loader2, Lock, LockOpen, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { TimeCapsuleComposer } from '@/components/TimeCapsuleComposer';
+import { timeCapsuleService, TimeCapsuleOverview } from '@/services/timeCapsuleService';
+import { TimeCapsule, TrusteedTimeCapsule } from '@/types/timeCapsule';
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), 'MMMM d, yyyy') : '');
+
+const releaseDescription = (capsule: TimeCapsule) => {
+  if (capsule.status === 'released') return `Opened ${formatDate(capsule.released_at)}`;
+  switch (capsule.release_trigger) {
+    case 'date':
+      return `Opens ${formatDate(capsule.release_date)}`;
+    case 'recipient_age':
+      return `Opens at age ${capsule.release_age} (${formatDate(capsule.release_date)})`;
+    case 'on_passing':
+      return `Opens on my passing${capsule.trustee_name ? `, released by ${capsule.trustee_name}` : ''}`;
+  }
+};
+
+const TimeCapsules = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [overview, setOverview] = useState<TimeCapsuleOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [composerOpen, setComposerOpen] = useState(false);
+  const [editing, setEditing] = useState<TimeCapsule | null>(null);
+  const [reading, setReading] = useState<string | null>(null);
+  const [pendingRelease, setPendingRelease] = useState<{ ownerId: string; ownerName: string } | null>(null);
+  const [isReleasing, setIsReleasing] = useState(false);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadOverview();
+    }
+  }, [user?.id]);
+
+  const loadOverview = async () => {
+    setIsLoading(true);
+    try {
+      const result = await timeCapsuleService.getOverview();
+      setOverview(result);
+      if (result.released > 0) {
+        toast({
+          title: 'Time capsules opened',
+          description: `${result.released} time capsule${result.released === 1 ? ' has' : 's have'} just been released.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error loading time capsules:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load time capsules',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (capsule: TimeCapsule) => {
+    try {
+      await timeCapsuleService.deleteCapsule(capsule.id);
+      toast({ title: 'Time capsule deleted' });
+      loadOverview();
+    } catch (error) {
+      console.error('Error deleting time capsule:', error);
+      toast({ title: 'Error', description: 'Failed to delete time capsule', variant: 'destructive' });
+    }
+  };
+
+  const handleRead = async (capsule: TimeCapsule) => {
+    setReading(current => (current === capsule.id ? null : capsule.id));
+    if (!capsule.recipient_opened_at) {
+      try {
+        await timeCapsuleService.markOpened(capsule.id);
+      } catch (error) {
+        console.error('Error marking time capsule opened:', error);
+      }
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!pendingRelease) return;
+    setIsReleasing(true);
+    try {
+      const released = await timeCapsuleService.releaseOnPassing(pendingRelease.ownerId);
+      toast({
+        title: 'Time capsules released',
+        description: `${released} time capsule${released === 1 ? '' : 's'} from ${pendingRelease.ownerName} ${released === 1 ? 'has' : 'have'} been delivered.`,
+      });
+      setPendingRelease(null);
+      loadOverview();
+    } catch (error) {
+      console.error('Error releasing time capsules:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to release time capsules',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReleasing(false);
+    }
+  };
+
+  if (isLoading && !overview) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const sent = overview?.sent || [];
+  const received = overview?.received || [];
+  const trusteed = overview?.trusteed || [];
+  const unopened = received.filter(capsule => !capsule.recipient_opened_at).length;
+
+  // Trustee view is per owner: one release covers all of their capsules
+  const trusteedByOwner = trusteed.reduce((owners, capsule) => {
+    const list = owners.get(capsule.user_id) || [];
+    list.push(capsule);
+    owners.set(capsule.user_id, list);
+    return owners;
+  }, new Map<string, TrusteedTimeCapsule[]>());
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Time Capsules</h1>
+            <p className="text-muted-foreground">Sealed memories for the people you love, opened when the time is right</p>
+          </div>
+          <Button onClick={() => { setEditing(null); setComposerOpen(true); }} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New Capsule
+          </Button>
+        </div>
+
+        <Tabs defaultValue={unopened > 0 ? 'received' : 'sent'} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="sent" className="gap-2">
+              <Lock className="w-4 h-4" />
+              My Capsules
+            </TabsTrigger>
+            <TabsTrigger value="received" className="gap-2">
+              <Inbox className="w-4 h-4" />
+              For Me
+              {unopened > 0 && <Badge variant="destructive">{unopened}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="trustee" className="gap-2">
+              <KeyRound className="w-4 h-4" />
+              Trustee
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sent" className="space-y-4">
+            {sent.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <Gift className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No time capsules yet</p>
+                  <p className="text-sm">Write a letter to a grandchild for their 18th birthday, or words for after you're gone</p>
+                </CardContent>
+              </Card>
+            ) : (
+              sent.map(capsule => (
+                <Card key={capsule.id}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                          {capsule.status === 'sealed' ? <Lock className="w-4 h-4" /> : <LockOpen className="w-4 h-4" />}
+                          {capsule.title}
+                        </CardTitle>
+                        <p className="text-sm text-muted-foreground">
+                          For {capsule.recipient_display_name || 'someone special'} • {releaseDescription(capsule)}
+                        </p>
+                      </div>
+                      {capsule.status === 'sealed' ? (
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => { setEditing(capsule); setComposerOpen(true); }}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(capsule)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="secondary">
+                          {capsule.recipient_opened_at ? 'Read' : capsule.recipient_notified_at ? 'Delivered' : 'Released'}
+                        </Badge>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap">{capsule.content}</p>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="received" className="space-y-4">
+            {received.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <Inbox className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No time capsules have opened for you yet</p>
+                </CardContent>
+              </Card>
+            ) : (
+              received.map(capsule => (
+                <Card key={capsule.id} className={!capsule.recipient_opened_at ? 'border-primary' : undefined}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <CardTitle className="text-lg">{capsule.title}</CardTitle>
+                        <p className="text-sm text-muted-foreground">
+                          From {capsule.owner_name || 'someone who cares about you'} • Sealed {formatDate(capsule.created_at)} • Opened {formatDate(capsule.released_at)}
+                        </p>
+                      </div>
+                      <Button variant={reading === capsule.id ? 'outline' : 'default'} size="sm" onClick={() => handleRead(capsule)}>
+                        {reading === capsule.id ? 'Close' : 'Open'}
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  {reading === capsule.id && (
+                    <CardContent>
+                      <p className="whitespace-pre-wrap leading-relaxed">{capsule.content}</p>
+                    </CardContent>
+                  )}
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="trustee" className="space-y-4">
+            {trusteedByOwner.size === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  <KeyRound className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>Nobody has named you as a trustee</p>
+                </CardContent>
+              </Card>
+            ) : (
+              [...trusteedByOwner.entries()].map(([ownerId, capsules]) => {
+                const ownerName = capsules[0].owner_name || 'A connection';
+                const sealed = capsules.filter(capsule => capsule.status === 'sealed');
+                return (
+                  <Card key={ownerId}>
+                    <CardHeader className="pb-2">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <CardTitle className="text-lg">{ownerName}</CardTitle>
+                          <p className="text-sm text-muted-foreground">
+                            {sealed.length} sealed capsule{sealed.length === 1 ? '' : 's'} to release on their passing
+                          </p>
+                        </div>
+                        {sealed.length > 0 && (
+                          <Button variant="outline" size="sm" onClick={() => setPendingRelease({ ownerId, ownerName })}>
+                            <LockOpen className="w-4 h-4 mr-2" />
+                            Release
+                          </Button>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-1">
+                      {capsules.map(capsule => (
+                        <p key={capsule.id} className="text-sm text-muted-foreground">
+                          {capsule.title} — for {capsule.recipient_display_name || 'someone special'}
+                          {capsule.status === 'released' && ` (released ${formatDate(capsule.released_at)})`}
+                        </p>
+                      ))}
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <TimeCapsuleComposer
+        open={composerOpen}
+        onOpenChange={setComposerOpen}
+        capsule={editing}
+        onSaved={loadOverview}
+      />
+
+      <AlertDialog open={!!pendingRelease} onOpenChange={open => !open && setPendingRelease(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Release {pendingRelease?.ownerName}'s time capsules?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only do this after {pendingRelease?.ownerName} has passed away. Their sealed capsules will be delivered to
+              their recipients right away, and this cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isReleasing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRelease} disabled={isReleasing}>
+              {isReleasing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Release capsules
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TimeCapsules;
@@ -6,6 +6,9 @@ import { Loader2 } from 'lucide-react';
 import { TimelineNavigation } from '@/components/timeline/TimelineNavigation';
 import { TimelineChapter } from '@/components/timeline/TimelineChapter';
 import { MemoryDetailDialog } from '@/components/MemoryDetailDialog';
+import { AudienceViewSelect } from '@/components/AudienceViewSelect';
+import { audienceService, isVisibleToAudience } from '@/services/audienceService';
+import { AudienceCircle, AudienceView, MemoryAudience } from '@/types/audience';
 
 interface Memory {
   id: string;
@@ -26,6 +29,9 @@ const TimelineRedesigned = () => {
   const [loading, setLoading] = useState(true);
   const [selectedMemory, setSelectedMemory] = useState<Memory | null>(null);
   const [activeChapter, setActiveChapter] = useState(0);
+  const [circles, setCircles] = useState<AudienceCircle[]>([]);
+  const [audienceMap, setAudienceMap] = useState<Map<string, MemoryAudience[]>>(new Map());
+  const [audienceView, setAudienceView] = useState<AudienceView>('me');
 
   // Fetch memories
   useEffect(() => {
@@ -53,6 +59,13 @@ const TimelineRedesigned = () => {
 
         setMemories(validMemories);
 
+        const [userCircles, audiences] = await Promise.all([
+          audienceService.getCircles(user.id),
+          audienceService.getAudienceMap(user.id),
+        ]);
+        setCircles(userCircles);
+        setAudienceMap(audiences);
+
         // Fetch artifacts
         if (validMemories.length > 0) {
           const memoryIds = validMemories.map((m) => m.id);
@@ -90,24 +103,30 @@ const TimelineRedesigned = () => {
     fetchMemories();
   }, [user]);
 
+  // What the chosen audience would see
+  const visibleMemories = useMemo(
+    () => memories.filter((m) => isVisibleToAudience(audienceMap.get(m.memory_group_id || m.id), audienceView)),
+    [memories, audienceMap, audienceView]
+  );
+
   // Group memories into chapters (decades) including Past and Future
   const chapters = useMemo(() => {
     const birthYear = profile?.birth_date 
       ? new Date(profile.birth_date).getFullYear()
-      : memories.length > 0 
-        ? new Date(memories[0].memory_date).getFullYear()
+      : visibleMemories.length > 0 
+        ? new Date(visibleMemories[0].memory_date).getFullYear()
         : new Date().getFullYear();
 
     const currentYear = new Date().getFullYear();
     const chapterList = [];
 
     // Filter memories into past (before birth), present (birth to now), future (after now)
-    const pastMemories = memories.filter((m) => {
+    const pastMemories = visibleMemories.filter((m) => {
       const memYear = new Date(m.memory_date).getFullYear();
       return memYear < birthYear;
     });
     
-    const futureMemories = memories.filter((m) => {
+    const futureMemories = visibleMemories.filter((m) => {
       const memYear = new Date(m.memory_date).getFullYear();
       return memYear > currentYear;
     });
@@ -134,7 +153,7 @@ const TimelineRedesigned = () => {
       const startYear = year;
       const endYear = Math.min(year + 9, currentYear);
       
-      const chapterMemories = memories.filter((m) => {
+      const chapterMemories = visibleMemories.filter((m) => {
         const memYear = new Date(m.memory_date).getFullYear();
         return memYear >= startYear && memYear <= endYear && memYear >= birthYear && memYear <= currentYear;
       });
@@ -169,7 +188,7 @@ const TimelineRedesigned = () => {
     });
 
     return chapterList;
-  }, [memories, profile?.birth_date]);
+  }, [visibleMemories, profile?.birth_date]);
 
   // Scroll to chapter
   const scrollToChapter = (index: number) => {
@@ -233,12 +252,18 @@ const TimelineRedesigned = () => {
       <div className="fixed top-20 right-6 z-50 bg-card/90 backdrop-blur-sm border-2 border-border rounded-lg px-4 py-2 shadow-lg">
         <div className="text-center">
           <div className="font-manrope font-semibold text-2xl text-primary">
-            {memories.length}
+            {visibleMemories.length}
           </div>
           <div className="font-manrope text-xs text-muted-foreground uppercase tracking-wide">
             Memories
           </div>
         </div>
+        <AudienceViewSelect
+          circles={circles}
+          value={audienceView}
+          onChange={setAudienceView}
+          className="mt-2 h-8 w-40 text-xs"
+        />
       </div>
 
       {/* Navigation */}
@@ -2,16 +2,21 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Heart, Clock, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Heart, Clock, User, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
 import databaseMemoryService, { DatabaseMemory } from '@/services/databaseMemoryService';
 import Solin from '@/components/Solin';
+import { FamilyStoryDialog } from '@/components/social/FamilyStoryDialog';
 
 const Visitor = () => {
   const { userId } = useParams<{ userId: string }>();
   const [searchParams] = useSearchParams();
+  const { user } = useAuth();
   const [memories, setMemories] = useState<DatabaseMemory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [ownerProfile, setOwnerProfile] = useState<any>(null);
+  const [familyStoryMemory, setFamilyStoryMemory] = useState<DatabaseMemory | null>(null);
 
   const visitorId = searchParams.get('visitor') || `visitor_${Date.now()}`;
 
@@ -26,7 +31,7 @@ const Visitor = () => {
     
     setIsLoading(true);
     try {
-      const publicMemories = await databaseMemoryService.getPublicMemories(userId);
+      const publicMemories = await databaseMemoryService.getVisibleMemories(userId);
       setMemories(publicMemories);
       
       // Log the visit (for analytics)
@@ -67,9 +72,9 @@ const Visitor = () => {
         <Card>
           <CardContent className="p-8 text-center">
             <User className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-2">No Public Memories</h3>
+            <h3 className="text-lg font-semibold mb-2">No Shared Memories</h3>
             <p className="text-muted-foreground">
-              This person hasn't shared any public memories yet.
+              This person hasn't shared any memories with you yet.
             </p>
           </CardContent>
         </Card>
@@ -125,18 +130,42 @@ const Visitor = () => {
                 </div>
               )}
               
-              <div className="text-xs text-muted-foreground">
-                Shared publicly • {new Date(memory.created_at).toLocaleDateString('en-US', {
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric'
-                })}
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs text-muted-foreground">
+                  {memory.shared_publicly ? 'Shared publicly' : 'Shared with you'} • {new Date(memory.created_at).toLocaleDateString('en-US', {
+                    year: 'numeric',
+                    month: 'long',
+                    day: 'numeric'
+                  })}
+                </div>
+                {/* Signed-in family and friends can add their own account */}
+                {user && user.id !== memory.user_id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setFamilyStoryMemory(memory);
+                    }}
+                  >
+                    <Users className="w-4 h-4 mr-1" />
+                    Perspectives
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      {familyStoryMemory && (
+        <FamilyStoryDialog
+          open={!!familyStoryMemory}
+          onOpenChange={(open) => !open && setFamilyStoryMemory(null)}
+          memory={familyStoryMemory}
+        />
+      )}
+
       {/* Floating Solin companion for visitor mode */}
       <Solin 
         mode="visitor" 
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Client for the account-export edge function. The archive is built
+ * server-side in the background; poll `getLatest` until it completes.
+ * Pass `ownerId` when a legacy contact exports the account they were entrusted with.
+ */
+
+export type AccountExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface AccountExport {
+  id: string;
+  user_id: string;
+  requested_by: string | null;
+  status: AccountExportStatus;
+  storage_path: string | null;
+  file_size_bytes: number | null;
+  counts: Record<string, number>;
+  warnings: string[];
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+class AccountExportService {
+  async startExport(ownerId?: string): Promise<AccountExport> {
+    const { data, error } = await supabase.functions.invoke('account-export', {
+      body: { action: 'start', ownerId }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.export;
+  }
+
+  /**
+   * Most recent export, with a short-lived download URL once it's ready
+   */
+  async getLatest(ownerId?: string): Promise<{ export: AccountExport | null; downloadUrl: string | null }> {
+    const { data, error } = await supabase.functions.invoke('account-export', {
+      body: { action: 'status', ownerId }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return { export: data?.export ?? null, downloadUrl: data?.downloadUrl ?? null };
+  }
+
+  isRunning(accountExport: AccountExport | null): boolean {
+    return accountExport?.status === 'pending' || accountExport?.status === 'processing';
+  }
+}
+
+export const accountExportService = new AccountExportService();
@@ -6,6 +6,8 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { findWordInSegment, getRecordingSegments } from '@/lib/transcriptSegments';
+import { TranscriptMatch, TranscriptSegment, TranscriptWord } from '@/types/speech';
 
 export interface VoiceSearchResult {
   id: string;
@@ -22,6 +24,12 @@ export interface VoiceSearchResult {
   relevance_score?: number;
   matched_content?: string;
   memory_titles?: string[];
+  transcript_segments?: TranscriptSegment[] | null;
+  transcript_words?: TranscriptWord[] | null;
+  match_offsets?: TranscriptMatch[]; // Matching utterances in playback order
+  playback_offset?: number; // Seconds; where the best match starts
+  keep_forever?: boolean;
+  expires_at?: string | null; // Moves to the trash then; null when kept
 }
 
 export interface SearchMatch {
@@ -51,14 +59,19 @@ export class AIVoiceSearchService {
           storage_path,
           duration_seconds,
           transcript_text,
+          transcript_segments,
+          transcript_words,
           conversation_summary,
           memory_ids,
           memory_titles,
           topics,
           session_mode,
+          keep_forever,
+          expires_at,
           created_at
         `)
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -169,14 +182,51 @@ export class AIVoiceSearchService {
       // Find the best matching content snippet
       const matchedContent = this.extractMatchedContent(searchableContent, queryLower);
 
+      // Where in the audio it was said, so playback can start there
+      const matchOffsets = this.findTranscriptMatches(recording, queryLower, queryWords);
+      const bestMatch = matchOffsets.reduce<TranscriptMatch | undefined>(
+        (best, match) => (!best || match.score > best.score ? match : best),
+        undefined
+      );
+
       return {
         ...recording,
         relevance_score: relevanceScore,
-        matched_content: matchedContent
+        matched_content: bestMatch ? bestMatch.text : matchedContent,
+        match_offsets: matchOffsets,
+        playback_offset: bestMatch?.start
       };
     });
   }
 
+  /**
+   * Find the utterances that match, with the time the matching word was heard
+   * (word timings) or the utterance started
+   */
+  private findTranscriptMatches(recording: VoiceSearchResult, query: string, queryWords: string[]): TranscriptMatch[] {
+    const segments = getRecordingSegments(recording);
+    const expandedWords = this.expandQueryWithSynonyms(queryWords);
+    const matches: TranscriptMatch[] = [];
+
+    segments.forEach((segment, index) => {
+      const text = segment.text.toLowerCase();
+      const hits = expandedWords.filter(word => text.includes(word));
+      const exact = query.length > 0 && text.includes(query);
+      if (!exact && hits.length === 0) return;
+
+      const word = findWordInSegment(recording.transcript_words, segment, exact ? query.split(/\s+/).slice(0, 1) : hits);
+      matches.push({
+        segment_index: index,
+        start: word ? word.start : segment.start,
+        speaker: segment.speaker,
+        text: segment.text,
+        score: exact ? 1 : Math.min(0.9, hits.length / Math.max(1, queryWords.length) * 0.8)
+      });
+    });
+
+    return matches;
+  }
+
   /**
    * Find exact phrase matches
    */
@@ -403,6 +453,8 @@ export class AIVoiceSearchService {
           storage_path,
           duration_seconds,
           transcript_text,
+          transcript_segments,
+          transcript_words,
           conversation_summary,
           memory_ids,
           topics,
@@ -410,6 +462,7 @@ export class AIVoiceSearchService {
           created_at
         `)
         .gte('created_at', timeWindow) // Last 24 hours for consistency
+        .is('deleted_at', null)
         .not('session_id', 'like', 'demo-%') // Exclude demo records
         .order('created_at', { ascending: false })
         .limit(10); // Increased limit for better coverage
@@ -464,6 +517,8 @@ export class AIVoiceSearchService {
           storage_path,
           duration_seconds,
           transcript_text,
+          transcript_segments,
+          transcript_words,
           conversation_summary,
           memory_ids,
           topics,
@@ -471,6 +526,7 @@ export class AIVoiceSearchService {
           created_at
         `)
         .like('session_id', 'demo-%')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       console.log('🔍 Demo recordings query result:', { 
@@ -521,14 +577,19 @@ export class AIVoiceSearchService {
           storage_path,
           duration_seconds,
           transcript_text,
+          transcript_segments,
+          transcript_words,
           conversation_summary,
           memory_ids,
           memory_titles,
           topics,
           session_mode,
+          keep_forever,
+          expires_at,
           created_at
         `)
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) {
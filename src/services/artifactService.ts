@@ -1,6 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
 
 export type ArtifactType = 'image' | 'audio' | 'video' | 'document';
+export type ArtifactSource = 'upload' | 'reconstruction' | 'clip';
 
 export interface Artifact {
   id: string;
@@ -10,6 +11,10 @@ export interface Artifact {
   file_size?: number;
   mime_type?: string;
   metadata?: Record<string, any>;
+  user_id?: string | null; // Set for artifacts that can exist without a memory, e.g. reconstructions
+  source?: ArtifactSource;
+  derived_from_artifact_id?: string | null;
+  source_recording_id?: string | null; // Voice recording a clip was cut from
   created_at: string;
   updated_at: string;
 }
@@ -21,6 +26,9 @@ export interface CreateArtifactParams {
   file_size?: number;
   mime_type?: string;
   metadata?: Record<string, any>;
+  user_id?: string;
+  source?: ArtifactSource;
+  source_recording_id?: string;
 }
 
 export class ArtifactService {
@@ -0,0 +1,164 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  AudienceCircle,
+  AudienceView,
+  MemoryAudience,
+  MemoryAudienceSelection,
+  SharedWithMeMemory,
+} from '@/types/audience';
+
+/**
+ * Circles and per-memory audiences. Circles and their members are written
+ * directly under RLS; a memory's audience is replaced as a whole through the
+ * set_memory_audience RPC. Who can read a memory is decided by
+ * can_view_memory_group in the memories RLS policy, never in the client.
+ */
+
+async function getDisplayNames(userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map();
+
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('user_id, display_name, preferred_name')
+    .in('user_id', userIds);
+
+  return new Map(
+    (data || []).map(p => [p.user_id, p.preferred_name || p.display_name || 'Unknown'])
+  );
+}
+
+/**
+ * Whether a memory with these grants shows up for the chosen "view as"
+ * audience. Circles see what is shared with them plus anything public.
+ */
+export function isVisibleToAudience(grants: MemoryAudience[] | undefined, view: AudienceView): boolean {
+  if (view === 'me') return true;
+  if (!grants?.length) return false;
+  if (grants.some(g => g.audience_type === 'public_link')) return true;
+  return view !== 'public' && grants.some(g => g.audience_type === 'circle' && g.circle_id === view);
+}
+
+class AudienceService {
+  // ----- Circles -----
+
+  async getCircles(userId: string): Promise<AudienceCircle[]> {
+    const { data, error } = await supabase
+      .from('audience_circles')
+      .select('*, audience_circle_members(member_user_id)')
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) throw error;
+    type Row = AudienceCircle & { audience_circle_members: { member_user_id: string }[] | null };
+    return ((data || []) as unknown as Row[]).map(({ audience_circle_members, ...circle }) => ({
+      ...circle,
+      member_user_ids: (audience_circle_members || []).map(m => m.member_user_id),
+    }));
+  }
+
+  async createCircle(userId: string, name: string, relationshipTypes: string[] = []): Promise<AudienceCircle> {
+    const { data, error } = await supabase
+      .from('audience_circles')
+      .insert({ user_id: userId, name: name.trim(), relationship_types: relationshipTypes })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { ...(data as unknown as AudienceCircle), member_user_ids: [] };
+  }
+
+  async updateCircle(circleId: string, updates: { name?: string; relationship_types?: string[] }): Promise<void> {
+    const { error } = await supabase
+      .from('audience_circles')
+      .update({ ...updates, ...(updates.name !== undefined && { name: updates.name.trim() }) })
+      .eq('id', circleId);
+
+    if (error) throw error;
+  }
+
+  async deleteCircle(circleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('audience_circles')
+      .delete()
+      .eq('id', circleId);
+
+    if (error) throw error;
+  }
+
+  async addMember(circleId: string, memberUserId: string): Promise<void> {
+    const { error } = await supabase
+      .from('audience_circle_members')
+      .insert({ circle_id: circleId, member_user_id: memberUserId });
+
+    if (error) throw error;
+  }
+
+  async removeMember(circleId: string, memberUserId: string): Promise<void> {
+    const { error } = await supabase
+      .from('audience_circle_members')
+      .delete()
+      .eq('circle_id', circleId)
+      .eq('member_user_id', memberUserId);
+
+    if (error) throw error;
+  }
+
+  // ----- Memory audiences -----
+
+  async getMemoryAudience(userId: string, memoryGroupId: string): Promise<MemoryAudienceSelection> {
+    const { data, error } = await supabase
+      .from('memory_audiences')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('memory_group_id', memoryGroupId);
+
+    if (error) throw error;
+    const grants = (data || []) as unknown as MemoryAudience[];
+    return {
+      isPublic: grants.some(g => g.audience_type === 'public_link'),
+      circleIds: grants.filter(g => g.circle_id).map(g => g.circle_id as string),
+      connectionIds: grants.filter(g => g.connection_user_id).map(g => g.connection_user_id as string),
+    };
+  }
+
+  async setMemoryAudience(memoryGroupId: string, selection: MemoryAudienceSelection): Promise<void> {
+    const { error } = await supabase.rpc('set_memory_audience', {
+      p_memory_group_id: memoryGroupId,
+      p_circle_ids: selection.circleIds,
+      p_connection_ids: selection.connectionIds,
+      p_public: selection.isPublic,
+    });
+
+    if (error) throw error;
+  }
+
+  /** All grants on the owner's memories, keyed by memory group */
+  async getAudienceMap(userId: string): Promise<Map<string, MemoryAudience[]>> {
+    const { data, error } = await supabase
+      .from('memory_audiences')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    const map = new Map<string, MemoryAudience[]>();
+    for (const grant of (data || []) as unknown as MemoryAudience[]) {
+      const grants = map.get(grant.memory_group_id) ?? [];
+      grants.push(grant);
+      map.set(grant.memory_group_id, grants);
+    }
+    return map;
+  }
+
+  // ----- Viewer side -----
+
+  async getSharedWithMe(limit = 100): Promise<SharedWithMeMemory[]> {
+    const { data, error } = await supabase.rpc('get_memories_shared_with_me', { p_limit: limit });
+
+    if (error) throw error;
+    const memories = (data || []) as unknown as SharedWithMeMemory[];
+    const names = await getDisplayNames([...new Set(memories.map(m => m.owner_user_id))]);
+    return memories.map(m => ({ ...m, owner_name: names.get(m.owner_user_id) ?? null }));
+  }
+}
+
+export const audienceService = new AudienceService();
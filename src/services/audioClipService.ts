@@ -0,0 +1,93 @@
+import { supabase } from '@/integrations/supabase/client';
+import { decodeAudio, renderClip } from '@/lib/audioClip';
+import { artifactService } from '@/services/artifactService';
+import { AudioClip, AudioClipMetadata, CreateAudioClipRequest } from '@/types/audioClip';
+
+/**
+ * Audio clips cut from voice recordings. The recording is decoded and the
+ * clip rendered in the browser (src/lib/audioClip.ts), then stored as an
+ * 'audio' artifact owned by the user (source 'clip') and linked to memories,
+ * so it plays with the memory's other media.
+ */
+
+const RECORDINGS_BUCKET = 'voice-recordings';
+const MEMORY_IMAGES_BUCKET = 'memory-images';
+
+/** Is an artifact loaded with a memory one of these clips? */
+export function isAudioClip(artifact: { artifact_type?: string; source?: string } | null | undefined): boolean {
+  return artifact?.artifact_type === 'audio' && artifact?.source === 'clip';
+}
+
+class AudioClipService {
+  /** Download and decode a recording so it can be drawn and cut */
+  async loadRecordingAudio(storagePath: string): Promise<AudioBuffer> {
+    const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).download(storagePath);
+
+    if (error) throw error;
+    return decodeAudio(await data.arrayBuffer());
+  }
+
+  async createClip(userId: string, audio: AudioBuffer, request: CreateAudioClipRequest): Promise<AudioClip> {
+    const rendered = await renderClip(audio, request.start, request.end, { normalize: request.normalize });
+
+    const storagePath = `${userId}/clips/${request.recording.id}/${Date.now()}.wav`;
+    const { error: uploadError } = await supabase.storage
+      .from(MEMORY_IMAGES_BUCKET)
+      .upload(storagePath, rendered.blob, { contentType: 'audio/wav' });
+
+    if (uploadError) throw uploadError;
+
+    const metadata: AudioClipMetadata = {
+      title: request.title.trim() || 'Clip',
+      start_seconds: Math.round(request.start * 10) / 10,
+      end_seconds: Math.round(request.end * 10) / 10,
+      duration_seconds: Math.round(rendered.duration * 10) / 10,
+      normalized: request.normalize,
+      gain: Math.round(rendered.gain * 100) / 100,
+      transcript_excerpt: request.transcriptExcerpt || null,
+      recording_created_at: request.recording.created_at || null,
+    };
+
+    // Don't leave a half-saved clip behind if linking fails
+    let artifactId: string | null = null;
+    try {
+      const artifact = await artifactService.createArtifact({
+        artifact_type: 'audio',
+        storage_path: storagePath,
+        file_name: `${metadata.title}.wav`,
+        file_size: rendered.blob.size,
+        mime_type: 'audio/wav',
+        metadata,
+        user_id: userId,
+        source: 'clip',
+        source_recording_id: request.recording.id,
+      });
+      artifactId = artifact.id;
+
+      for (const memoryId of request.memoryIds) {
+        await artifactService.linkArtifactToMemory(memoryId, artifact.id);
+      }
+
+      return artifact as unknown as AudioClip;
+    } catch (error) {
+      if (artifactId) await supabase.from('artifacts').delete().eq('id', artifactId);
+      await supabase.storage.from(MEMORY_IMAGES_BUCKET).remove([storagePath]);
+      throw error;
+    }
+  }
+
+  /** The user's memories a clip can be linked to (first chunk of each) */
+  async getLinkableMemories(userId: string): Promise<{ id: string; title: string; memory_date: string | null }[]> {
+    const { data, error } = await supabase
+      .from('memories')
+      .select('id, title, memory_date')
+      .eq('user_id', userId)
+      .or('is_primary_chunk.is.true,is_primary_chunk.is.null')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+}
+
+export const audioClipService = new AudioClipService();
@@ -0,0 +1,246 @@
+import { supabase } from '@/integrations/supabase/client';
+import { narrativeAI, BiographyChapter } from './narrativeAI';
+import { renderBookPdf } from '@/utils/bookPdf';
+import { renderBookEpub } from '@/utils/bookEpub';
+import { BookChapter, BookContent, BookImage, BookIndexEntry, BookLayoutOptions } from '@/types/book';
+
+/**
+ * Turns the persistent biography into a downloadable book (PDF or EPUB):
+ * chapters from narrativeAI, images from the chapters' memories and an index
+ * of people and places from memory_insights.
+ */
+
+export type BookFormat = 'pdf' | 'epub';
+
+const IMAGES_PER_CHAPTER = 4;
+const MAX_IMAGE_PIXELS = 1600;
+const ID_BATCH = 200;
+
+interface ChapterMemoryRow {
+  id: string;
+  memory_group_id: string;
+  title: string;
+  image_urls: string[] | null;
+}
+
+const stripChunkSuffix = (title: string) => title.replace(/\s*\(Part \d+\/\d+\)$/, '');
+
+/**
+ * Re-encode any browser-decodable image as a downscaled JPEG
+ */
+async function toJpeg(blob: Blob, caption: string | null): Promise<BookImage | null> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, MAX_IMAGE_PIXELS / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    // JPEG has no alpha: flatten transparent images onto white paper
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+    if (!jpeg) return null;
+
+    return {
+      data: new Uint8Array(await jpeg.arrayBuffer()),
+      width: canvas.width,
+      height: canvas.height,
+      caption,
+    };
+  } catch (error) {
+    console.warn('⚠️ Skipping image that could not be decoded:', error);
+    return null;
+  }
+}
+
+async function downloadImage(path: string): Promise<Blob | null> {
+  if (/^https?:\/\//.test(path)) {
+    const response = await fetch(path).catch(() => null);
+    return response?.ok ? response.blob() : null;
+  }
+
+  const { data, error } = await supabase.storage.from('memory-images').download(path);
+  if (error) {
+    console.warn(`⚠️ Could not download ${path}:`, error.message);
+    return null;
+  }
+  return data;
+}
+
+function addToIndex(index: Map<string, BookIndexEntry>, name: unknown, chapter: number) {
+  if (typeof name !== 'string' || !name.trim()) return;
+  const key = name.trim().toLowerCase();
+  const entry = index.get(key) || { name: name.trim(), chapters: [] };
+  if (!entry.chapters.includes(chapter)) entry.chapters.push(chapter);
+  index.set(key, entry);
+}
+
+const sortIndex = (index: Map<string, BookIndexEntry>) =>
+  [...index.values()]
+    .map(entry => ({ ...entry, chapters: entry.chapters.sort((a, b) => a - b) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+class BiographyBookService {
+  /**
+   * Gather everything the book needs. Throws if no biography has been generated yet.
+   */
+  async loadContent(userId: string, includeImages = true): Promise<BookContent> {
+    const biography = await narrativeAI.getPersistentBiography(userId);
+    if (!biography) {
+      throw new Error('No biography has been generated yet. Generate your story first.');
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('preferred_name, display_name')
+      .eq('user_id', userId)
+      .maybeSingle();
+    const author = profile?.preferred_name || profile?.display_name || null;
+
+    const chapters: BiographyChapter[] = [...(biography.chapters || [])]
+      .sort((a, b) => a.chapter_sequence - b.chapter_sequence);
+
+    const groupIds = [...new Set(chapters.flatMap(chapter => chapter.memory_group_ids || []))];
+    const memories = await this.fetchChapterMemories(userId, groupIds);
+    const memoryIds = memories.map(memory => memory.id);
+    const [insights, artifacts] = await Promise.all([
+      this.fetchInsights(memoryIds),
+      includeImages ? this.fetchImageArtifacts(memoryIds) : Promise.resolve([]),
+    ]);
+
+    const people = new Map<string, BookIndexEntry>();
+    const places = new Map<string, BookIndexEntry>();
+    const bookChapters: BookChapter[] = [];
+
+    for (const chapter of chapters) {
+      const chapterGroupIds = new Set(chapter.memory_group_ids || []);
+      const chapterMemories = memories.filter(memory => chapterGroupIds.has(memory.memory_group_id));
+      const chapterMemoryIds = new Set(chapterMemories.map(memory => memory.id));
+
+      for (const insight of insights.filter(row => chapterMemoryIds.has(row.memory_id))) {
+        for (const person of insight.insights?.people || []) addToIndex(people, person, chapter.chapter_sequence);
+        for (const place of insight.insights?.places || []) addToIndex(places, place, chapter.chapter_sequence);
+      }
+
+      const images: BookImage[] = [];
+      if (includeImages) {
+        const sources = [
+          ...chapterMemories.flatMap(memory =>
+            (memory.image_urls || []).map(path => ({ path, caption: stripChunkSuffix(memory.title) }))
+          ),
+          ...artifacts
+            .filter(artifact => chapterMemoryIds.has(artifact.memory_id))
+            .map(artifact => ({
+              path: artifact.storage_path,
+              caption: chapterMemories.find(memory => memory.id === artifact.memory_id)?.title ?? null,
+            })),
+        ];
+
+        for (const source of sources) {
+          if (images.length >= IMAGES_PER_CHAPTER) break;
+          const blob = await downloadImage(source.path);
+          const image = blob ? await toJpeg(blob, source.caption ? stripChunkSuffix(source.caption) : null) : null;
+          if (image) images.push(image);
+        }
+      }
+
+      bookChapters.push({
+        sequence: chapter.chapter_sequence,
+        title: chapter.chapter_title,
+        lifePeriod: chapter.life_period,
+        content: chapter.chapter_content,
+        images,
+      });
+    }
+
+    return {
+      id: biography.id,
+      title: author ? `The Life Story of ${author}` : 'A Life Story',
+      subtitle: groupIds.length > 0 ? `Told through ${groupIds.length} preserved memories` : null,
+      author,
+      introduction: biography.introduction || '',
+      conclusion: biography.conclusion || '',
+      chapters: bookChapters,
+      index: { people: sortIndex(people), places: sortIndex(places) },
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  render(content: BookContent, format: BookFormat, layout: BookLayoutOptions): Blob {
+    return format === 'pdf'
+      ? renderBookPdf(content, layout)
+      : renderBookEpub(content, layout.includeImages);
+  }
+
+  /**
+   * Build the book and hand it to the browser as a download
+   */
+  async downloadBook(userId: string, format: BookFormat, layout: BookLayoutOptions): Promise<void> {
+    const content = await this.loadContent(userId, layout.includeImages);
+    const blob = this.render(content, format, layout);
+
+    const fileName = `${content.title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'life-story'}.${format}`;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  private async fetchChapterMemories(userId: string, groupIds: string[]): Promise<ChapterMemoryRow[]> {
+    const rows: ChapterMemoryRow[] = [];
+    for (let i = 0; i < groupIds.length; i += ID_BATCH) {
+      const { data, error } = await supabase
+        .from('memories')
+        .select('id, memory_group_id, title, image_urls')
+        .eq('user_id', userId)
+        .in('memory_group_id', groupIds.slice(i, i + ID_BATCH))
+        .order('chunk_sequence');
+      if (error) throw error;
+      rows.push(...((data || []) as ChapterMemoryRow[]));
+    }
+    return rows;
+  }
+
+  private async fetchInsights(memoryIds: string[]) {
+    const rows: { memory_id: string; insights: { people?: unknown[]; places?: unknown[] } | null }[] = [];
+    for (let i = 0; i < memoryIds.length; i += ID_BATCH) {
+      const { data, error } = await supabase
+        .from('memory_insights')
+        .select('memory_id, insights')
+        .in('memory_id', memoryIds.slice(i, i + ID_BATCH));
+      if (error) throw error;
+      rows.push(...((data || []) as typeof rows));
+    }
+    return rows;
+  }
+
+  private async fetchImageArtifacts(memoryIds: string[]) {
+    const rows: { memory_id: string; storage_path: string }[] = [];
+    for (let i = 0; i < memoryIds.length; i += ID_BATCH) {
+      const { data, error } = await supabase
+        .from('memory_artifacts')
+        .select('memory_id, artifacts (storage_path, artifact_type)')
+        .in('memory_id', memoryIds.slice(i, i + ID_BATCH));
+      if (error) throw error;
+
+      for (const link of (data || []) as unknown as { memory_id: string; artifacts: { storage_path: string; artifact_type: string } | null }[]) {
+        if (link.artifacts?.artifact_type === 'image') {
+          rows.push({ memory_id: link.memory_id, storage_path: link.artifacts.storage_path });
+        }
+      }
+    }
+    return rows;
+  }
+}
+
+export const biographyBookService = new BiographyBookService();
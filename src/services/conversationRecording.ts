@@ -9,6 +9,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { voiceRecordingService } from './voiceRecording';
+import { buildTranscriptSegments } from '@/lib/transcriptSegments';
 import { voiceService } from '@/services/voiceService';
 import { toast } from '@/hooks/use-toast';
 
@@ -34,6 +35,7 @@ interface ConversationRecordingSession {
     timestamp: number;
     speaker: 'user' | 'ai';
     text: string;
+    confidence?: number;
   }>;
   
   // Memory tracking
@@ -665,19 +667,33 @@ This is a browser limitation, not an application issue.
   /**
    * Add transcript entry for conversation context
    */
-  addTranscriptEntry(speaker: 'user' | 'ai', text: string): void {
+  addTranscriptEntry(speaker: 'user' | 'ai', text: string, confidence?: number): void {
     if (!this.currentSession?.isRecording) return;
 
     const timestamp = Date.now() - this.currentSession.startTime.getTime();
     this.currentSession.conversationTranscript.push({
       timestamp: Math.floor(timestamp / 1000), // Convert to seconds
       speaker,
-      text
+      text,
+      confidence
     });
 
     console.log('📝 Transcript added:', { speaker, text: text.substring(0, 50) + '...' });
   }
 
+  /** Per-utterance transcript for voice_recordings.transcript_segments */
+  private buildSegments(session: ConversationRecordingSession, duration: number) {
+    return buildTranscriptSegments(
+      session.conversationTranscript.map(entry => ({
+        at: entry.timestamp,
+        speaker: entry.speaker,
+        text: entry.text,
+        confidence: entry.confidence
+      })),
+      duration
+    );
+  }
+
   /**
    * Add memory ID to current conversation recording session
    */
@@ -865,6 +881,7 @@ This is a browser limitation, not an application issue.
                 duration_seconds: duration,
                 file_size_bytes: audioBlob.size,
                 transcript_text: transcriptText,
+                transcript_segments: this.buildSegments(session, duration),
                 conversation_summary: summaryText,
                 memory_ids: session.memoryIds.length > 0 ? session.memoryIds : null,
                 memory_titles: session.memoryTitles.length > 0 ? session.memoryTitles : null,
@@ -1020,6 +1037,7 @@ This is a browser limitation, not an application issue.
             duration_seconds: duration,
             file_size_bytes: 0,
             transcript_text: transcriptText,
+            transcript_segments: this.buildSegments(session, duration),
             conversation_summary: summaryText,
             memory_ids: session.memoryIds.length > 0 ? session.memoryIds : null,
             memory_titles: session.memoryTitles.length > 0 ? session.memoryTitles : null,
@@ -1146,6 +1164,7 @@ This is a browser limitation, not an application issue.
           duration_seconds: duration,
           file_size_bytes: audioBlob.size,
           transcript_text: transcriptText,
+          transcript_segments: this.buildSegments(session, duration),
           conversation_summary: summaryText,
           memory_ids: session.memoryIds.length > 0 ? session.memoryIds : null,
           memory_titles: session.memoryTitles.length > 0 ? session.memoryTitles : null,
@@ -1214,6 +1233,7 @@ This is a browser limitation, not an application issue.
               duration_seconds: duration,
               file_size_bytes: 0,
               transcript_text: transcriptText,
+              transcript_segments: this.buildSegments(session, duration),
               conversation_summary: summaryText,
               memory_ids: session.memoryIds.length > 0 ? session.memoryIds : null,
               memory_titles: session.memoryTitles.length > 0 ? session.memoryTitles : null,
@@ -1,4 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
+import { v4 as uuidv4 } from 'uuid';
+import { CachedMemory, isNetworkError, syncService } from '@/services/syncService';
+import { MemorySavePayload } from '@/types/sync';
 
 export interface DatabaseMemory {
   id: string;
@@ -6,9 +9,12 @@ export interface DatabaseMemory {
   title: string;
   text: string;
   tags: string[];
-  recipient: string;
+  recipient: string; // Deprecated: audience lives in memory_audiences
+  memory_group_id?: string | null;
   created_at: string;
   updated_at: string;
+  shared_publicly?: boolean; // Set by getVisibleMemories
+  sync_state?: 'pending'; // Saved on this device, waiting to sync
 }
 
 export interface CreateMemoryData {
@@ -19,19 +25,27 @@ export interface CreateMemoryData {
 }
 
 class DatabaseMemoryService {
+  /**
+   * Saves through memory-operations. Offline, the memory is kept on this device
+   * and queued with syncService; it comes back with sync_state 'pending'.
+   */
   async saveMemory(memoryData: CreateMemoryData): Promise<DatabaseMemory | null> {
-    try {
-      const { data: user } = await supabase.auth.getUser();
-      
-      if (!user.user) {
-        throw new Error('User not authenticated');
-      }
+    // The session is read from storage, so this works offline too
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.error('Failed to save memory:', new Error('User not authenticated'));
+      return null;
+    }
 
+    const userId = session.user.id;
+    const memory = { ...memoryData, id: uuidv4() };
+
+    try {
       const { data, error } = await supabase.functions.invoke('memory-operations', {
         body: {
           action: 'save',
-          memory: memoryData,
-          userId: user.user.id
+          memory,
+          userId
         }
       });
 
@@ -40,25 +54,44 @@ class DatabaseMemoryService {
         throw error;
       }
 
+      await syncService.cacheMemories(userId, [data.memory]);
       return data.memory;
     } catch (error) {
-      console.error('Failed to save memory:', error);
-      return null;
+      if (!isNetworkError(error)) {
+        console.error('Failed to save memory:', error);
+        return null;
+      }
+
+      console.log('📴 Offline, queuing memory for sync:', memory.title);
+      const now = new Date().toISOString();
+      const local: DatabaseMemory = {
+        id: memory.id,
+        user_id: userId,
+        title: memory.title,
+        text: memory.text,
+        tags: memory.tags || [],
+        recipient: memory.recipient || 'private',
+        created_at: now,
+        updated_at: now,
+      };
+      await syncService.cacheLocalMemory(local as unknown as CachedMemory);
+      await syncService.enqueue<MemorySavePayload>('memory.save', userId, memory.title, { memory });
+      return { ...local, sync_state: 'pending' };
     }
   }
 
   async getUserMemories(): Promise<DatabaseMemory[]> {
-    try {
-      const { data: user } = await supabase.auth.getUser();
-      
-      if (!user.user) {
-        throw new Error('User not authenticated');
-      }
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.error('Failed to fetch memories:', new Error('User not authenticated'));
+      return [];
+    }
 
+    try {
       const { data, error } = await supabase.functions.invoke('memory-operations', {
         body: {
           action: 'fetch',
-          userId: user.user.id
+          userId: session.user.id
         }
       });
 
@@ -67,34 +100,73 @@ class DatabaseMemoryService {
         throw error;
       }
 
-      return data.memories || [];
+      const memories: DatabaseMemory[] = data.memories || [];
+      await syncService.cacheMemories(session.user.id, memories as unknown as CachedMemory[], true);
+
+      const loaded = new Set(memories.map(memory => memory.id));
+      const unsynced = (await syncService.getCachedMemories(session.user.id))
+        .filter(memory => memory.sync_state === 'pending' && !loaded.has(memory.id));
+      return [...(unsynced as unknown as DatabaseMemory[]), ...memories];
     } catch (error) {
-      console.error('Failed to fetch memories:', error);
-      return [];
+      console.error('Failed to fetch memories, using offline copy:', error);
+      return (await syncService.getCachedMemories(session.user.id)) as unknown as DatabaseMemory[];
     }
   }
 
+  /** Memories on the owner's public link (their Visitor page as anyone sees it) */
   async getPublicMemories(userId: string): Promise<DatabaseMemory[]> {
     try {
-      const { data, error } = await supabase
-        .from('memories')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('recipient', 'public')
-        .order('created_at', { ascending: false });
+      const { data, error } = await supabase.rpc('get_public_memories', { p_owner: userId });
 
       if (error) {
         console.error('Error fetching public memories:', error);
         throw error;
       }
 
-      return data || [];
+      return (data || []).map(m => ({ ...m, shared_publicly: true }));
     } catch (error) {
       console.error('Failed to fetch public memories:', error);
       return [];
     }
   }
 
+  /**
+   * Everything of the owner's the current viewer may read: public memories for
+   * anonymous visitors, plus what circles or direct grants include them in.
+   * RLS decides; the owner gets their public view rather than everything.
+   */
+  async getVisibleMemories(ownerId: string): Promise<DatabaseMemory[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || user.id === ownerId) {
+        return this.getPublicMemories(ownerId);
+      }
+
+      const [{ data, error }, publicMemories] = await Promise.all([
+        supabase
+          .from('memories')
+          .select('*')
+          .eq('user_id', ownerId)
+          .order('created_at', { ascending: false }),
+        this.getPublicMemories(ownerId),
+      ]);
+
+      if (error) {
+        console.error('Error fetching visible memories:', error);
+        throw error;
+      }
+
+      const publicIds = new Set(publicMemories.map(m => m.id));
+      return (data || []).map(m => ({
+        ...m,
+        shared_publicly: publicIds.has(m.id),
+      }));
+    } catch (error) {
+      console.error('Failed to fetch visible memories:', error);
+      return [];
+    }
+  }
+
   async logMemoryView(memoryId: string, userId: string, visitorId: string): Promise<boolean> {
     try {
       const { error } = await supabase.functions.invoke('memory-operations', {
@@ -13,6 +13,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { v4 as uuidv4 } from 'uuid';
 import { configurationService } from './configurationService';
 import { voiceService } from '@/services/voiceService';
+import { isNetworkError, syncService } from '@/services/syncService';
+import { RecordingUploadPayload } from '@/types/sync';
+import { buildTranscriptSegments } from '@/lib/transcriptSegments';
 
 interface EnhancedRecordingSession {
   sessionId: string;
@@ -40,6 +43,7 @@ interface EnhancedRecordingSession {
     speaker: 'user' | 'ai';
     text: string;
     confidence?: number;
+    audioTimestamp?: number;
   }>;
   
   // Memory linkage
@@ -698,17 +702,7 @@ export class EnhancedConversationRecordingService {
         qualityScore: this.calculateQualityScore()
       });
 
-      // Save to storage
       const filePath = `${session.userId}/${session.sessionId}_enhanced.webm`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from(this.STORAGE_BUCKET)
-        .upload(filePath, audioBlob, {
-          cacheControl: '3600',
-          upsert: true
-        });
-
-      if (uploadError) throw uploadError;
 
       // Create enhanced transcript
       const transcriptText = session.conversationTranscript
@@ -739,6 +733,7 @@ export class EnhancedConversationRecordingService {
       }
 
       const insertData = {
+        id: uuidv4(), // Lets a queued upload retry the insert without duplicating it
         user_id: session.userId,
         session_id: session.sessionId,
         recording_type: 'enhanced_conversation',
@@ -746,6 +741,16 @@ export class EnhancedConversationRecordingService {
         duration_seconds: duration,
         file_size_bytes: audioBlob.size,
         transcript_text: transcriptText,
+        transcript_segments: buildTranscriptSegments(
+          session.conversationTranscript.map(entry => ({
+            at: entry.timestamp,
+            speaker: entry.speaker,
+            text: entry.text,
+            confidence: entry.confidence,
+            audioAt: entry.audioTimestamp
+          })),
+          duration
+        ),
         conversation_summary: summary,
         memory_ids: memoryCount > 0 ? session.memoryIds : null,
         memory_titles: titleCount > 0 ? session.memoryTitles : null,
@@ -758,14 +763,39 @@ export class EnhancedConversationRecordingService {
       
       console.log('💾 Database insert payload:', insertData);
 
-      const { data: insertedData, error: dbError } = await supabase
-        .from('voice_recordings')
-        .insert(insertData)
-        .select();
+      try {
+        // Save to storage
+        const { error: uploadError } = await supabase.storage
+          .from(this.STORAGE_BUCKET)
+          .upload(filePath, audioBlob, {
+            cacheControl: '3600',
+            upsert: true
+          });
+
+        if (uploadError) throw uploadError;
+
+        const { data: insertedData, error: dbError } = await supabase
+          .from('voice_recordings')
+          .insert(insertData)
+          .select();
+
+        if (dbError) throw dbError;
+
+        console.log('✅ Enhanced recording saved to database:', insertedData);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+
+        // Keep the recording on this device until the connection is back
+        await syncService.enqueue<RecordingUploadPayload>(
+          'recording.upload',
+          session.userId,
+          summary,
+          { bucket: this.STORAGE_BUCKET, storage_path: filePath, row: insertData },
+          [{ blob: audioBlob, file_name: `${session.sessionId}_enhanced.webm`, mime_type: 'audio/webm' }]
+        );
+        console.log('📴 Offline, enhanced recording queued for upload:', filePath);
+      }
 
-      if (dbError) throw dbError;
-      
-      console.log('✅ Enhanced recording saved to database:', insertedData);
       this.currentSession = null;
 
     } catch (error) {
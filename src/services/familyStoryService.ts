@@ -0,0 +1,115 @@
+import { supabase } from '@/integrations/supabase/client';
+import { narrativeAI, NarrativeGenerationContext } from '@/services/narrativeAI';
+import { getGroupedMemories } from '@/utils/memoryGrouping';
+import { FamilyStoryConflict, FamilyStoryThread } from '@/types/familyStory';
+
+/**
+ * Family story threads. Alignment (attributed passages and conflicts) is done
+ * by the family-story edge function; the owner's edits, conflict resolutions
+ * and approval are written directly under RLS. Approving weaves the merged
+ * version into the owner's persistent biography.
+ */
+
+async function buildNarrativeContext(userId: string): Promise<NarrativeGenerationContext> {
+  const [{ data: profile }, { data: topics }, memories] = await Promise.all([
+    supabase.from('user_profiles').select('preferred_name, display_name, hometown, location, age').eq('user_id', userId).maybeSingle(),
+    supabase.from('biography_entries').select('*').eq('user_id', userId),
+    getGroupedMemories(userId),
+  ]);
+
+  return {
+    user_profile: {
+      name: profile?.preferred_name || profile?.display_name || undefined,
+      birth_place: profile?.hometown || undefined,
+      current_location: profile?.location || undefined,
+      age: profile?.age ?? undefined,
+    },
+    memories,
+    biography_topics: (topics || []).map(t => ({
+      topic_category: t.topic_category,
+      topic_title: t.topic_title,
+      content: t.content,
+    })),
+    generation_preferences: {
+      tone: 'reflective_optimistic',
+      length: 'comprehensive',
+      focus_themes: ['growth', 'relationships', 'achievements'],
+    },
+  };
+}
+
+class FamilyStoryService {
+  async getThread(ownerId: string, memoryGroupId: string): Promise<FamilyStoryThread | null> {
+    const { data, error } = await supabase
+      .from('family_story_threads')
+      .select('*')
+      .eq('user_id', ownerId)
+      .eq('memory_group_id', memoryGroupId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as unknown as FamilyStoryThread | null;
+  }
+
+  async align(memoryGroupId: string): Promise<FamilyStoryThread> {
+    const { data, error } = await supabase.functions.invoke('family-story', {
+      body: { action: 'align', memoryGroupId },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.thread as FamilyStoryThread;
+  }
+
+  async saveDraft(threadId: string, mergedText: string, conflicts: FamilyStoryConflict[]): Promise<void> {
+    const { error } = await supabase
+      .from('family_story_threads')
+      .update({ merged_text: mergedText, conflicts })
+      .eq('id', threadId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Approve the merged version and add it to the biography. Returns false when
+   * there is no biography yet to add it to; the approval is kept either way.
+   */
+  async approve(thread: FamilyStoryThread, mergedText: string, conflicts: FamilyStoryConflict[]): Promise<boolean> {
+    if (conflicts.some(conflict => !conflict.resolution?.trim())) {
+      throw new Error('Resolve every conflict before approving');
+    }
+
+    const { error } = await supabase
+      .from('family_story_threads')
+      .update({
+        merged_text: mergedText,
+        conflicts,
+        status: 'approved',
+        approved_text: mergedText,
+        approved_at: new Date().toISOString(),
+      })
+      .eq('id', thread.id);
+
+    if (error) throw error;
+
+    const context = await buildNarrativeContext(thread.user_id);
+    const memory = context.memories.find(m => m.id === thread.memory_group_id);
+    if (!memory) return false;
+
+    try {
+      await narrativeAI.insertMemoryIntoNarrative(thread.user_id, { ...memory, text: mergedText }, context);
+      return true;
+    } catch (narrativeError) {
+      console.warn('Family story approved but not added to the biography:', narrativeError);
+      return false;
+    }
+  }
+
+  /** Perspectives added since the last alignment */
+  hasNewPerspectives(thread: FamilyStoryThread | null, perspectiveIds: string[]): boolean {
+    if (!thread) return perspectiveIds.length > 0;
+    return perspectiveIds.some(id => !thread.perspective_ids.includes(id));
+  }
+}
+
+export const familyStoryService = new FamilyStoryService();
@@ -0,0 +1,272 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/integrations/supabase/client';
+import { getSignedUrls } from '@/lib/storage';
+import {
+  IdentityConsent,
+  IdentityConsentEvent,
+  IdentityConsentInput,
+  TrainedIdentity,
+  TrainingImageCheck,
+  TrainingJob,
+} from '@/types/identityTraining';
+
+/**
+ * Identity training. Photos are uploaded to identity-training-images under
+ * {userId}/{identityId}/ before train-identity creates the identity and its
+ * training job; the job's status then comes from train-identity ('status'
+ * polls the trainer) rather than being guessed here.
+ *
+ * Each identity carries a likeness consent (identity_consents). It is read
+ * directly under RLS by the owner and by a subject who is a user; recording,
+ * answering and revoking go through SECURITY DEFINER RPCs that also write the
+ * audit log.
+ */
+
+const TRAINING_IMAGES_BUCKET = 'identity-training-images';
+
+/** Granted and not yet expired */
+export function isConsentActive(consent: Pick<IdentityConsent, 'status' | 'expires_at'> | null | undefined): boolean {
+  return !!consent && consent.status === 'granted' && new Date(consent.expires_at).getTime() > Date.now();
+}
+
+async function getDisplayNames(userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map();
+
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('user_id, display_name, preferred_name')
+    .in('user_id', userIds);
+
+  return new Map(
+    (data || []).map(p => [p.user_id, p.preferred_name || p.display_name || 'Unknown'])
+  );
+}
+
+class IdentityTrainingService {
+  async getIdentities(userId: string): Promise<TrainedIdentity[]> {
+    const { data, error } = await supabase
+      .from('trained_identities')
+      .select('id, name, hf_model_id, training_status, training_error, training_job_id, image_storage_paths, num_training_images, training_completed_at, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    const identities = (data || []) as unknown as TrainedIdentity[];
+
+    const { data: consents, error: consentError } = await supabase
+      .from('identity_consents')
+      .select('*')
+      .eq('owner_user_id', userId);
+    if (consentError) throw consentError;
+    const consentByIdentity = new Map(
+      ((consents || []) as unknown as IdentityConsent[]).map(consent => [consent.identity_id, consent])
+    );
+
+    const withPhotos = identities.filter(identity => identity.image_storage_paths?.length);
+    const urls = await getSignedUrls(
+      TRAINING_IMAGES_BUCKET,
+      withPhotos.map(identity => identity.image_storage_paths![0]),
+    );
+    const thumbnails = new Map(withPhotos.map((identity, index) => [identity.id, urls[index]]));
+
+    return identities.map(identity => ({
+      ...identity,
+      thumbnail_url: thumbnails.get(identity.id) ?? null,
+      consent: consentByIdentity.get(identity.id) ?? null,
+    }));
+  }
+
+  /** Trained identities that reconstructions may use right now */
+  async getUsableIdentities(userId: string): Promise<TrainedIdentity[]> {
+    const identities = await this.getIdentities(userId);
+    return identities.filter(identity =>
+      identity.training_status === 'completed' && isConsentActive(identity.consent)
+    );
+  }
+
+  /** Upload the checked photos, then create the identity and start its training job */
+  async startTraining(
+    userId: string,
+    identityName: string,
+    files: File[],
+    checks: TrainingImageCheck[],
+    consent: IdentityConsentInput,
+    onProgress?: (uploaded: number, total: number) => void,
+  ): Promise<TrainingJob> {
+    const identityId = uuidv4();
+    const paths: string[] = [];
+
+    for (const [index, file] of files.entries()) {
+      const extension = file.type === 'image/png' ? 'png' : 'jpg';
+      const path = `${userId}/${identityId}/${String(index + 1).padStart(3, '0')}.${extension}`;
+      const { error } = await supabase.storage
+        .from(TRAINING_IMAGES_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (error) {
+        await this.removeUploads(paths);
+        throw error;
+      }
+      paths.push(path);
+      onProgress?.(paths.length, files.length);
+    }
+
+    const { data, error } = await supabase.functions.invoke('train-identity', {
+      body: {
+        action: 'create',
+        identityId,
+        identityName,
+        imagePaths: paths,
+        consent,
+        validation: {
+          images: checks.map((check, index) => ({ ...check, path: paths[index] })),
+          checked_at: new Date().toISOString(),
+        },
+      },
+    });
+
+    if (error || data?.error) {
+      await this.removeUploads(paths);
+      if (error) throw error;
+      throw new Error(data.error);
+    }
+    return data.job as TrainingJob;
+  }
+
+  /** Latest job per identity; jobs in training are refreshed from the trainer */
+  async getJobs(identityId?: string): Promise<TrainingJob[]> {
+    const { data, error } = await supabase.functions.invoke('train-identity', {
+      body: { action: 'status', identityId },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return (data.jobs || []) as TrainingJob[];
+  }
+
+  async retry(jobId: string): Promise<TrainingJob> {
+    return this.jobAction('retry', jobId);
+  }
+
+  async cancel(jobId: string): Promise<TrainingJob> {
+    return this.jobAction('cancel', jobId);
+  }
+
+  /** Delete the identity along with its Hugging Face model and stored photos */
+  async deleteIdentity(identityId: string): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('train-identity', {
+      body: { action: 'delete', identityId },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  }
+
+  // ----- Likeness consent -----
+
+  /** Record consent for an identity again, e.g. after it expired or was revoked */
+  async recordConsent(identityId: string, input: IdentityConsentInput): Promise<IdentityConsent> {
+    const { data, error } = await supabase.rpc('record_identity_consent', {
+      p_identity_id: identityId,
+      p_subject_type: input.subject_type,
+      p_subject_name: input.subject_name,
+      p_subject_user_id: input.subject_user_id,
+      p_relationship: input.relationship,
+      p_guardian_name: input.guardian_name,
+      p_guardian_relationship: input.guardian_relationship,
+      p_expires_at: input.expires_at,
+    });
+
+    if (error) throw error;
+    return data as unknown as IdentityConsent;
+  }
+
+  async revokeConsent(consentId: string, reason?: string): Promise<void> {
+    const { error } = await supabase.rpc('revoke_identity_consent', {
+      p_consent_id: consentId,
+      p_reason: reason ?? null,
+    });
+
+    if (error) throw error;
+  }
+
+  /** The subject's answer to a consent request */
+  async respondToConsent(consentId: string, approve: boolean): Promise<void> {
+    const { error } = await supabase.rpc('respond_identity_consent', {
+      p_consent_id: consentId,
+      p_approve: approve,
+    });
+
+    if (error) throw error;
+  }
+
+  /** Identities other users have trained of the current user */
+  async getConsentsAboutMe(userId: string): Promise<IdentityConsent[]> {
+    const { data, error } = await supabase
+      .from('identity_consents')
+      .select('*')
+      .eq('subject_user_id', userId)
+      .neq('owner_user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    const consents = (data || []) as unknown as IdentityConsent[];
+    const names = await getDisplayNames([...new Set(consents.map(c => c.owner_user_id))]);
+
+    const { data: history } = await supabase
+      .from('identity_consent_events')
+      .select('identity_id, identity_name')
+      .in('identity_id', consents.map(c => c.identity_id));
+    const identityNames = new Map((history || []).map(e => [e.identity_id, e.identity_name]));
+
+    return consents.map(c => ({
+      ...c,
+      owner_name: names.get(c.owner_user_id) ?? null,
+      identity_name: identityNames.get(c.identity_id) ?? null,
+    }));
+  }
+
+  /** Everything logged about the current user's likeness in others' identities, including deleted ones */
+  async getLikenessHistory(userId: string): Promise<IdentityConsentEvent[]> {
+    const { data, error } = await supabase
+      .from('identity_consent_events')
+      .select('*')
+      .eq('subject_user_id', userId)
+      .neq('owner_user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+    return (data || []) as unknown as IdentityConsentEvent[];
+  }
+
+  /** Audit log for one identity, newest first */
+  async getConsentHistory(identityId: string): Promise<IdentityConsentEvent[]> {
+    const { data, error } = await supabase
+      .from('identity_consent_events')
+      .select('*')
+      .eq('identity_id', identityId)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) throw error;
+    return (data || []) as unknown as IdentityConsentEvent[];
+  }
+
+  private async jobAction(action: 'retry' | 'cancel', jobId: string): Promise<TrainingJob> {
+    const { data, error } = await supabase.functions.invoke('train-identity', {
+      body: { action, jobId },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.job as TrainingJob;
+  }
+
+  private async removeUploads(paths: string[]) {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(TRAINING_IMAGES_BUCKET).remove(paths);
+    if (error) console.error('Failed to remove training uploads:', error);
+  }
+}
+
+export const identityTrainingService = new IdentityTrainingService();
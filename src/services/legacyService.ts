@@ -0,0 +1,249 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  EntrustedLegacy,
+  LegacyClaim,
+  LegacyClaimType,
+  LegacyContact,
+  LegacyContactDraft,
+  LegacyPlan,
+  LegacyVisitorPageMemory,
+} from '@/types/legacy';
+
+/**
+ * Legacy contacts, the check-in switch and claims. Tables are read and
+ * written directly under RLS; anything that changes access (check-in,
+ * admin review, Visitor page changes) goes through SECURITY DEFINER RPCs.
+ * Reminders and switch claims are raised by the legacy-access edge function.
+ */
+
+const EVIDENCE_BUCKET = 'legacy-claims';
+const SIGNED_URL_SECONDS = 3600;
+
+async function getDisplayNames(userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map();
+
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('user_id, display_name, preferred_name')
+    .in('user_id', userIds);
+
+  return new Map(
+    (data || []).map(p => [p.user_id, p.preferred_name || p.display_name || 'Unknown'])
+  );
+}
+
+class LegacyService {
+  // ----- Owner side -----
+
+  async getContacts(userId: string): Promise<LegacyContact[]> {
+    const { data, error } = await supabase
+      .from('legacy_contacts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) throw error;
+    const contacts = (data || []) as unknown as LegacyContact[];
+    const names = await getDisplayNames(contacts.map(c => c.contact_user_id));
+    return contacts.map(c => ({ ...c, contact_name: names.get(c.contact_user_id) ?? null }));
+  }
+
+  async saveContact(userId: string, draft: LegacyContactDraft): Promise<void> {
+    const { error } = await supabase
+      .from('legacy_contacts')
+      .upsert(
+        { user_id: userId, ...draft, message: draft.message?.trim() || null },
+        { onConflict: 'user_id,contact_user_id' }
+      );
+
+    if (error) throw error;
+  }
+
+  async removeContact(contactId: string): Promise<void> {
+    const { error } = await supabase
+      .from('legacy_contacts')
+      .delete()
+      .eq('id', contactId);
+
+    if (error) throw error;
+  }
+
+  async getPlan(userId: string): Promise<LegacyPlan | null> {
+    const { data, error } = await supabase
+      .from('legacy_plans')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as unknown as LegacyPlan | null;
+  }
+
+  /**
+   * Saving the plan counts as a check-in
+   */
+  async savePlan(userId: string, checkInIntervalDays: number | null, gracePeriodDays: number): Promise<void> {
+    const { error } = await supabase
+      .from('legacy_plans')
+      .upsert({
+        user_id: userId,
+        check_in_interval_days: checkInIntervalDays,
+        grace_period_days: gracePeriodDays,
+        last_check_in_at: new Date().toISOString(),
+        reminder_sent_at: null,
+        switch_triggered_at: null,
+      });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Owner is active: reset the switch and withdraw any open claims
+   */
+  async checkIn(): Promise<void> {
+    const { error } = await supabase.rpc('legacy_check_in');
+    if (error) throw error;
+  }
+
+  async getClaimsAboutMe(userId: string): Promise<LegacyClaim[]> {
+    const { data, error } = await supabase
+      .from('legacy_claims')
+      .select('*')
+      .eq('owner_user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as unknown as LegacyClaim[];
+  }
+
+  // ----- Legacy contact side -----
+
+  async getEntrusted(contactUserId: string): Promise<EntrustedLegacy[]> {
+    const { data, error } = await supabase
+      .from('legacy_contacts')
+      .select('*')
+      .eq('contact_user_id', contactUserId);
+
+    if (error) throw error;
+    const contacts = (data || []) as unknown as LegacyContact[];
+    if (contacts.length === 0) return [];
+
+    const ownerIds = contacts.map(c => c.user_id);
+    const [names, { data: claims, error: claimsError }] = await Promise.all([
+      getDisplayNames(ownerIds),
+      supabase
+        .from('legacy_claims')
+        .select('*')
+        .in('owner_user_id', ownerIds)
+        .order('created_at', { ascending: false }),
+    ]);
+    if (claimsError) throw claimsError;
+
+    return contacts.map(contact => {
+      const ownerClaims = ((claims || []) as unknown as LegacyClaim[]).filter(c => c.owner_user_id === contact.user_id);
+      return {
+        contact: { ...contact, owner_name: names.get(contact.user_id) ?? null },
+        claims: ownerClaims,
+        accessGranted: ownerClaims.some(c => c.status === 'approved'),
+      };
+    });
+  }
+
+  async fileClaim(
+    ownerId: string,
+    claimantId: string,
+    claimType: LegacyClaimType,
+    statement: string,
+    evidence: File[]
+  ): Promise<void> {
+    const evidencePaths: string[] = [];
+    for (const file of evidence) {
+      const path = `${ownerId}/${claimantId}/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`;
+      const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).upload(path, file);
+      if (error) throw error;
+      evidencePaths.push(data.path);
+    }
+
+    const { error } = await supabase.from('legacy_claims').insert({
+      owner_user_id: ownerId,
+      claimant_user_id: claimantId,
+      source: 'contact',
+      claim_type: claimType,
+      statement: statement.trim() || null,
+      evidence_paths: evidencePaths,
+    });
+
+    if (error) throw error;
+  }
+
+  async hasPermission(
+    ownerId: string,
+    permission: 'view_all' | 'view_shared' | 'download_export' | 'manage_visitor_page'
+  ): Promise<boolean> {
+    const { data, error } = await supabase.rpc('has_legacy_permission', {
+      p_owner: ownerId,
+      p_permission: permission,
+    });
+
+    if (error) throw error;
+    return Boolean(data);
+  }
+
+  async getVisitorPageMemories(ownerId: string): Promise<LegacyVisitorPageMemory[]> {
+    const { data, error } = await supabase.rpc('legacy_visitor_page_memories', {
+      p_owner: ownerId,
+    });
+
+    if (error) throw error;
+    return (data || []) as unknown as LegacyVisitorPageMemory[];
+  }
+
+  async setMemoryPublic(ownerId: string, memoryGroupId: string, isPublic: boolean): Promise<void> {
+    const { error } = await supabase.rpc('legacy_set_memory_public', {
+      p_owner: ownerId,
+      p_memory_group_id: memoryGroupId,
+      p_public: isPublic,
+    });
+
+    if (error) throw error;
+  }
+
+  // ----- Admin -----
+
+  async getPendingClaims(): Promise<(LegacyClaim & { owner_name: string | null; claimant_name: string | null })[]> {
+    const { data, error } = await supabase
+      .from('legacy_claims')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at');
+
+    if (error) throw error;
+    const claims = (data || []) as unknown as LegacyClaim[];
+    const names = await getDisplayNames([
+      ...new Set(claims.flatMap(c => [c.owner_user_id, c.claimant_user_id].filter(Boolean) as string[])),
+    ]);
+
+    return claims.map(c => ({
+      ...c,
+      owner_name: names.get(c.owner_user_id) ?? null,
+      claimant_name: c.claimant_user_id ? names.get(c.claimant_user_id) ?? null : null,
+    }));
+  }
+
+  async getEvidenceUrl(path: string): Promise<string | null> {
+    const { data } = await supabase.storage.from(EVIDENCE_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+    return data?.signedUrl ?? null;
+  }
+
+  async reviewClaim(claimId: string, approve: boolean, notes: string): Promise<void> {
+    const { error } = await supabase.rpc('review_legacy_claim', {
+      p_claim_id: claimId,
+      p_approve: approve,
+      p_notes: notes.trim() || null,
+    });
+
+    if (error) throw error;
+  }
+}
+
+export const legacyService = new LegacyService();
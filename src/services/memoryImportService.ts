@@ -0,0 +1,181 @@
+import { supabase } from '@/integrations/supabase/client';
+import { chunkMemoryContent } from '@/utils/memoryChunking';
+import { IMPORT_PARSERS, IMPORT_SOURCE_LABELS, ImportedEntry, ImportSource } from '@/utils/importParsers';
+import { artifactService, ArtifactType } from './artifactService';
+import { revisionAttribution } from './memoryRevisionService';
+
+/**
+ * Imports memories from other apps: parse → preview (with duplicates flagged)
+ * → commit the entries the user kept selected.
+ */
+
+export interface ImportCandidate {
+  entry: ImportedEntry;
+  duplicate: { memoryId: string; title: string; reason: 'reimport' | 'same_title_and_date' | 'same_text' } | null;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  attachments: number;
+  failed: { title: string; error: string }[];
+}
+
+interface ExistingMemory {
+  id: string;
+  title: string;
+  text: string;
+  memory_date: string | null;
+  metadata: { import?: { source?: string; source_id?: string } } | null;
+}
+
+const TEXT_FINGERPRINT_LENGTH = 200;
+
+const normalize = (value: string | null | undefined) =>
+  (value || '').toLowerCase().replace(/\s*\(part \d+\/\d+\)$/, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const textFingerprint = (text: string) => normalize(text).slice(0, TEXT_FINGERPRINT_LENGTH);
+const importKey = (source: string, sourceId: string) => `${source}:${sourceId}`;
+
+function artifactTypeFor(file: File): ArtifactType {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (file.type.startsWith('video/')) return 'video';
+  return 'document';
+}
+
+class MemoryImportService {
+  /**
+   * Parse the picked files and flag entries that already exist
+   */
+  async prepareImport(userId: string, source: ImportSource, files: File[]): Promise<ImportCandidate[]> {
+    const entries = await IMPORT_PARSERS[source](files);
+    const existing = await this.getExistingMemories(userId);
+
+    const byImportKey = new Map<string, ExistingMemory>();
+    const byTitleAndDate = new Map<string, ExistingMemory>();
+    const byText = new Map<string, ExistingMemory>();
+    for (const memory of existing) {
+      const imported = memory.metadata?.import;
+      if (imported?.source && imported.source_id) byImportKey.set(importKey(imported.source, imported.source_id), memory);
+      if (memory.memory_date) byTitleAndDate.set(`${normalize(memory.title)}|${memory.memory_date}`, memory);
+      const fingerprint = textFingerprint(memory.text);
+      if (fingerprint) byText.set(fingerprint, memory);
+    }
+
+    const seen = new Set<string>();
+    const candidates: ImportCandidate[] = [];
+    for (const entry of entries) {
+      // Same entry twice in one export (e.g. a journal file picked twice)
+      const key = importKey(entry.source, entry.sourceId);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const reimport = byImportKey.get(key);
+      const sameTitle = entry.memoryDate ? byTitleAndDate.get(`${normalize(entry.title)}|${entry.memoryDate}`) : undefined;
+      const sameText = byText.get(textFingerprint(entry.text));
+
+      const duplicate = reimport
+        ? { memoryId: reimport.id, title: reimport.title, reason: 'reimport' as const }
+        : sameTitle
+          ? { memoryId: sameTitle.id, title: sameTitle.title, reason: 'same_title_and_date' as const }
+          : sameText
+            ? { memoryId: sameText.id, title: sameText.title, reason: 'same_text' as const }
+            : null;
+
+      candidates.push({ entry, duplicate });
+    }
+
+    return candidates.sort((a, b) => (b.entry.memoryDate || '').localeCompare(a.entry.memoryDate || ''));
+  }
+
+  /**
+   * Save entries as memories (chunked when long) and upload their attachments
+   */
+  async commitImport(
+    userId: string,
+    entries: ImportedEntry[],
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult> {
+    const result: ImportResult = { imported: 0, attachments: 0, failed: [] };
+    const importedAt = new Date().toISOString();
+
+    for (const [index, entry] of entries.entries()) {
+      try {
+        const chunks = chunkMemoryContent(entry.text || entry.title);
+        const memoryGroupId = chunks[0].memoryGroupId;
+
+        const { data: inserted, error } = await supabase
+          .from('memories')
+          .insert(chunks.map(chunk => ({
+            user_id: userId,
+            title: chunks.length > 1 ? `${entry.title} (Part ${chunk.chunkSequence}/${chunk.totalChunks})` : entry.title,
+            text: chunk.content,
+            memory_date: entry.memoryDate,
+            memory_location: entry.location,
+            tags: entry.tags.length > 0 ? entry.tags : null,
+            memory_group_id: memoryGroupId,
+            chunk_sequence: chunk.chunkSequence,
+            total_chunks: chunk.totalChunks,
+            is_primary_chunk: chunk.chunkSequence === 1,
+            source_type: 'import',
+            show_on_timeline: !!entry.memoryDate,
+            metadata: {
+              import: { source: entry.source, source_id: entry.sourceId, imported_at: importedAt },
+            },
+            ...revisionAttribution('user', `Imported from ${IMPORT_SOURCE_LABELS[entry.source]}`),
+          })))
+          .select('id, chunk_sequence');
+
+        if (error) throw error;
+
+        const primaryId = inserted?.find(row => row.chunk_sequence === 1)?.id ?? inserted?.[0]?.id;
+        if (primaryId) {
+          for (const [fileIndex, file] of entry.attachments.entries()) {
+            try {
+              const extension = file.name.split('.').pop() || 'bin';
+              const artifact = await artifactService.uploadAndCreateArtifact(
+                file,
+                'memory-images',
+                `${userId}/imports/${memoryGroupId}/${Date.now()}_${fileIndex}.${extension}`,
+                artifactTypeFor(file),
+                { import_source: entry.source, original_name: file.name }
+              );
+              await artifactService.linkArtifactToMemory(primaryId, artifact.id);
+              result.attachments++;
+            } catch (attachmentError) {
+              console.warn(`⚠️ Could not import attachment ${file.name}:`, attachmentError);
+            }
+          }
+        }
+
+        result.imported++;
+      } catch (error) {
+        console.error('Import error:', error);
+        result.failed.push({ title: entry.title, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+
+      onProgress?.({ done: index + 1, total: entries.length });
+    }
+
+    return result;
+  }
+
+  private async getExistingMemories(userId: string): Promise<ExistingMemory[]> {
+    const { data, error } = await supabase
+      .from('memories')
+      .select('id, title, text, memory_date, metadata, chunk_sequence')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    // Only the first chunk carries the title/opening text we compare against
+    return ((data || []) as (ExistingMemory & { chunk_sequence: number | null })[])
+      .filter(memory => (memory.chunk_sequence || 1) === 1);
+  }
+}
+
+export const memoryImportService = new MemoryImportService();
@@ -0,0 +1,98 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MemoryPrompt, MemoryPromptChannel, MemoryPromptSettings } from '@/types/memoryPrompt';
+
+/**
+ * Weekly memory prompts for the signed-in user. The database works out
+ * next_send_at from the schedule; the memory-prompts function sends due
+ * prompts every 15 minutes, and replies are tied back to them by the
+ * messaging webhooks.
+ */
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_MEMORY_PROMPT_SETTINGS: MemoryPromptSettings = {
+  enabled: false,
+  channel: 'whatsapp',
+  day_of_week: 0,
+  send_time: '10:00',
+  timezone: browserTimezone(),
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+};
+
+// TIME columns come back as HH:MM:SS
+const toHourMinute = (time: string | null) => (time ? time.slice(0, 5) : null);
+
+class MemoryPromptService {
+  async getSettings(userId: string): Promise<MemoryPromptSettings> {
+    const { data, error } = await supabase
+      .from('memory_prompt_settings')
+      .select('enabled, channel, day_of_week, send_time, timezone, quiet_hours_start, quiet_hours_end, opted_out_at, next_send_at, last_sent_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return DEFAULT_MEMORY_PROMPT_SETTINGS;
+
+    return {
+      ...data,
+      send_time: toHourMinute(data.send_time) || DEFAULT_MEMORY_PROMPT_SETTINGS.send_time,
+      quiet_hours_start: toHourMinute(data.quiet_hours_start),
+      quiet_hours_end: toHourMinute(data.quiet_hours_end),
+    };
+  }
+
+  /** Saving from Settings also clears a STOP sent from the phone or inbox */
+  async saveSettings(userId: string, settings: MemoryPromptSettings): Promise<MemoryPromptSettings> {
+    const { error } = await supabase.rpc('save_memory_prompt_settings', {
+      p_enabled: settings.enabled,
+      p_channel: settings.channel,
+      p_day_of_week: settings.day_of_week,
+      p_send_time: settings.send_time,
+      p_timezone: settings.timezone,
+      p_quiet_hours_start: settings.quiet_hours_start,
+      p_quiet_hours_end: settings.quiet_hours_end,
+    });
+
+    if (error) throw error;
+    return this.getSettings(userId);
+  }
+
+  /** Channels the user can receive prompts on: a verified phone for WhatsApp, a linked address for email */
+  async getAvailableChannels(userId: string): Promise<MemoryPromptChannel[]> {
+    const [phones, emails] = await Promise.all([
+      supabase.from('user_phone_numbers').select('id').eq('user_id', userId).eq('verified', true).limit(1),
+      supabase.from('channel_identities').select('id').eq('user_id', userId).eq('channel', 'email').limit(1),
+    ]);
+
+    const channels: MemoryPromptChannel[] = [];
+    if (phones.data?.length) channels.push('whatsapp');
+    if (emails.data?.length) channels.push('email');
+    return channels;
+  }
+
+  async getRecentPrompts(userId: string, limit = 5): Promise<MemoryPrompt[]> {
+    const { data, error } = await supabase
+      .from('memory_prompts')
+      .select('id, channel, question, status, sent_at, answered_at, memory_id')
+      .eq('user_id', userId)
+      .order('sent_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as MemoryPrompt[];
+  }
+
+  /** The kind of question Solin would send next; nothing is sent */
+  async preview(): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('memory-prompts', {
+      body: { action: 'preview' }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.question as string;
+  }
+}
+
+export const memoryPromptService = new MemoryPromptService();
@@ -0,0 +1,109 @@
+import { supabase } from '@/integrations/supabase/client';
+import { chunkMemoryContent } from '@/utils/memoryChunking';
+
+/**
+ * Memory version history.
+ *
+ * Revisions are written by a database trigger on every insert/update of a
+ * memory, so all writers are covered. Writers attribute a change by setting the
+ * write-only `revision_author` / `revision_reason` columns in the same
+ * insert/update (see `revisionAttribution`).
+ */
+
+export type RevisionAuthor =
+  | 'user'
+  | 'solin_voice'
+  | 'whatsapp'
+  | 'sms'
+  | 'telegram'
+  | 'email'
+  | 'process_memory_insights'
+  | 'system';
+
+export type RevisionField = 'title' | 'text' | 'memory_date' | 'memory_location' | 'tags' | 'image_urls';
+
+export interface MemoryRevision {
+  id: string;
+  memory_group_id: string;
+  memory_id: string | null;
+  user_id: string;
+  revision_number: number;
+  title: string;
+  text: string;
+  memory_date: string | null;
+  memory_location: string | null;
+  tags: string[] | null;
+  image_urls: string[] | null;
+  author_type: RevisionAuthor;
+  author_id: string | null;
+  reason: string | null;
+  changed_fields: RevisionField[];
+  created_at: string;
+}
+
+export const REVISION_AUTHOR_LABELS: Record<RevisionAuthor, string> = {
+  user: 'You',
+  solin_voice: 'Solin (voice)',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+  telegram: 'Telegram',
+  email: 'Email',
+  process_memory_insights: 'AI summary',
+  system: 'System',
+};
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Title',
+  text: 'Story',
+  memory_date: 'Date',
+  memory_location: 'Location',
+  tags: 'Tags',
+  image_urls: 'Images',
+};
+
+/**
+ * Columns to spread into a memories insert/update to attribute the revision
+ */
+export function revisionAttribution(author: RevisionAuthor, reason?: string) {
+  return {
+    revision_author: author,
+    revision_reason: reason ?? null,
+  };
+}
+
+class MemoryRevisionService {
+  /**
+   * All revisions of a memory group, newest first
+   */
+  async getRevisions(memoryGroupId: string): Promise<MemoryRevision[]> {
+    const { data, error } = await supabase
+      .from('memory_revisions')
+      .select('*')
+      .eq('memory_group_id', memoryGroupId)
+      .order('revision_number', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as MemoryRevision[];
+  }
+
+  /**
+   * Restore a revision. Creates a new revision ("Restored revision #n"), so the
+   * restore itself can be undone as well.
+   */
+  async restoreRevision(revision: MemoryRevision): Promise<string | null> {
+    const chunks = chunkMemoryContent(revision.text, revision.memory_group_id).map(chunk => ({
+      content: chunk.content,
+      chunkSequence: chunk.chunkSequence,
+    }));
+
+    const { data, error } = await supabase.rpc('restore_memory_revision', {
+      p_revision_id: revision.id,
+      p_chunks: chunks,
+    });
+
+    if (error) throw error;
+    return data as string | null;
+  }
+}
+
+export const memoryRevisionService = new MemoryRevisionService();
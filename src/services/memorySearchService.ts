@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Client for the memory-search edge function - the same ranked full-text +
+ * embedding search the orchestrator and WhatsApp bot use.
+ */
+
+export interface MemorySearchFilters {
+  dateFrom?: string | null; // YYYY-MM-DD
+  dateTo?: string | null;
+  location?: string | null;
+  tags?: string[] | null;
+  people?: string[] | null;
+}
+
+export interface MemorySearchParams extends MemorySearchFilters {
+  query?: string | null;
+  limit?: number;
+  semanticWeight?: number;
+}
+
+export interface MemorySearchResult {
+  id: string;
+  memoryGroupId: string;
+  title: string;
+  text: string;
+  memoryDate: string | null;
+  location: string | null;
+  tags: string[];
+  imageUrls: string[];
+  createdAt: string;
+  totalChunks: number;
+  bestChunkSequence: number | null;
+  textRank: number;
+  semanticScore: number;
+  score: number;
+}
+
+export type MemoryTimePeriod = 'recent' | 'this_year' | 'last_year' | 'older';
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+class MemorySearchService {
+  async search(params: MemorySearchParams): Promise<MemorySearchResult[]> {
+    const { data, error } = await supabase.functions.invoke('memory-search', {
+      body: { action: 'search', ...params }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+
+    return data?.results || [];
+  }
+
+  /**
+   * Embed any memories that are missing or have stale embeddings
+   */
+  async reindex(): Promise<{ indexed: number; complete: boolean }> {
+    const { data, error } = await supabase.functions.invoke('memory-search', {
+      body: { action: 'reindex' }
+    });
+
+    if (error) throw error;
+    return { indexed: data?.indexed || 0, complete: !!data?.complete };
+  }
+
+  /**
+   * Map the voice tools' coarse time periods onto a date range
+   */
+  dateRangeForPeriod(period: MemoryTimePeriod, now = new Date()): MemorySearchFilters {
+    const year = now.getFullYear();
+
+    switch (period) {
+      case 'recent':
+        return { dateFrom: toDateString(new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)) };
+      case 'this_year':
+        return { dateFrom: `${year}-01-01` };
+      case 'last_year':
+        return { dateFrom: `${year - 1}-01-01`, dateTo: `${year - 1}-12-31` };
+      case 'older':
+        return { dateTo: `${year - 3}-12-31` };
+      default:
+        return {};
+    }
+  }
+}
+
+export const memorySearchService = new MemorySearchService();
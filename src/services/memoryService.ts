@@ -1,21 +1,47 @@
+import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '@/integrations/supabase/client';
 import type { Memory } from './solinService';
+import { revisionAttribution, RevisionAuthor } from './memoryRevisionService';
+import { CachedMemory, isNetworkError, syncService } from './syncService';
+import { MemoryDeletePayload, MemoryInsertPayload, MemoryUpdatePayload } from '@/types/sync';
 
 interface MemoryWithConversation extends Memory {
   conversation_text?: string;
   created_at?: string;
   updated_at?: string;
+  location?: string;
+  sync_state?: 'pending'; // Saved on this device, waiting to sync
 }
 
+// Map database schema (text) to interface schema (content)
+function toMemory(row: Record<string, unknown>, date: 'memory_date' | 'created_at' = 'created_at'): MemoryWithConversation {
+  return {
+    ...(row as unknown as MemoryWithConversation),
+    content: row.text as string,
+    date: (date === 'memory_date' ? row.memory_date || row.created_at : row.created_at) as string,
+    location: row.memory_location as string | undefined,
+  };
+}
+
+/**
+ * Memory reads and writes for the Timeline and Solin. When Supabase can't be
+ * reached, reads come from the offline cache and writes are queued with
+ * syncService, which replays them once the connection is back. Writes the
+ * server rejected (RLS, validation) are thrown instead, since replaying them
+ * would fail the same way.
+ */
 class MemoryService {
   // Use shared Supabase client instead of creating a new one
   private supabase = supabase;
-  private isSupabaseAvailable = true;
+
+  // The session is read from storage, so this works offline too
+  private async getUserId(): Promise<string> {
+    const { data: { session } } = await this.supabase.auth.getSession();
+    return session?.user.id || '00000000-0000-0000-0000-000000000000';
+  }
 
   async getMemories(): Promise<MemoryWithConversation[]> {
-    if (!this.isSupabaseAvailable) {
-      return this.getMemoriesFromLocalStorage();
-    }
+    const userId = await this.getUserId();
 
     try {
       const { data, error } = await this.supabase
@@ -26,114 +52,83 @@ class MemoryService {
         .order('memory_date', { ascending: false });
 
       if (error) throw error;
-      
+
       console.log(`📊 Timeline memories loaded: ${data?.length || 0} complete memories`);
-      
-      // Map database schema (text) to interface schema (content)
-      return (data || []).map((mem: any) => ({
-        ...mem,
-        content: mem.text,
-        date: mem.memory_date || mem.created_at, // Use memory_date for Timeline ordering
-        location: mem.memory_location
-      }));
-    } catch (error) {
-      console.error('Error fetching memories from Supabase, falling back to localStorage:', error);
-      return this.getMemoriesFromLocalStorage();
-    }
-  }
+      await syncService.cacheMemories(userId, data || []);
 
-  private getMemoriesFromLocalStorage(): MemoryWithConversation[] {
-    try {
-      const stored = localStorage.getItem('memories');
-      const memories = stored ? JSON.parse(stored) : [];
-      console.log('📖 Loading memories from localStorage:', memories.length, 'memories found');
-      return memories;
+      const loaded = new Set((data || []).map(mem => mem.id));
+      const unsynced = (await syncService.getCachedMemories(userId))
+        .filter(mem => mem.sync_state === 'pending' && !loaded.has(mem.id));
+
+      return [...unsynced, ...(data || [])].map(mem => toMemory(mem, 'memory_date'));
     } catch (error) {
-      console.error('Error reading from localStorage:', error);
-      return [];
+      console.error('Error fetching memories from Supabase, using offline copy:', error);
+      return this.getMemoriesFromCache(userId);
     }
   }
 
-  private saveMemoriesToLocalStorage(memories: MemoryWithConversation[]) {
-    try {
-      localStorage.setItem('memories', JSON.stringify(memories));
-    } catch (error) {
-      console.error('Error saving to localStorage:', error);
-    }
+  private async getMemoriesFromCache(userId: string): Promise<MemoryWithConversation[]> {
+    const cached = await syncService.getCachedMemories(userId);
+    console.log('📖 Loading memories from offline cache:', cached.length, 'memories found');
+    return cached
+      .filter(mem => mem.sync_state === 'pending' || (mem.memory_date && mem.is_primary_chunk !== false))
+      .map(mem => toMemory(mem, 'memory_date'));
   }
 
   async addMemory(memory: Omit<MemoryWithConversation, 'id' | 'created_at' | 'updated_at'>): Promise<MemoryWithConversation | null> {
-    if (!this.isSupabaseAvailable) {
-      return this.addMemoryToLocalStorage(memory);
-    }
+    const userId = await this.getUserId();
+    // Generated here so the queued insert can be replayed without duplicating
+    const row = {
+      id: uuidv4(),
+      user_id: userId,
+      title: memory.title,
+      text: memory.content, // Map content -> text for database
+      recipient: memory.recipient || 'public',
+      tags: [] as string[],
+    };
 
     try {
-      // Get current user or use placeholder for testing
-      const { data: { user } } = await this.supabase.auth.getUser();
-      const userId = user?.id || '00000000-0000-0000-0000-000000000000';
-      
       const { data, error } = await this.supabase
         .from('memories')
-        .insert([{
-          user_id: userId,
-          title: memory.title,
-          text: memory.content, // Map content -> text for database
-          recipient: memory.recipient || 'public',
-          tags: []
-        }])
+        .insert([row])
         .select()
         .single();
 
       if (error) throw error;
-      
-      // Map database schema back to interface schema
-      return {
-        ...data,
-        content: data.text,
-        date: data.created_at
-      };
+
+      await syncService.cacheMemories(userId, [data]);
+      return toMemory(data);
     } catch (error) {
-      console.error('Error adding memory to Supabase, falling back to localStorage:', error);
-      return this.addMemoryToLocalStorage(memory);
+      if (!isNetworkError(error)) throw error;
+      console.error('Error adding memory to Supabase, queuing it for sync:', error);
+      const now = new Date().toISOString();
+      const local: CachedMemory = { ...row, created_at: now, updated_at: now };
+      await syncService.cacheLocalMemory(local);
+      await syncService.enqueue<MemoryInsertPayload>('memory.insert', userId, row.title, { row });
+      return { ...toMemory(local), sync_state: 'pending' };
     }
   }
 
-  private addMemoryToLocalStorage(memory: Omit<MemoryWithConversation, 'id' | 'created_at' | 'updated_at'>): MemoryWithConversation {
-    const newMemory: MemoryWithConversation = {
-      ...memory,
-      id: Date.now().toString(),
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-
-    console.log('💾 Adding memory to localStorage:', newMemory.title);
-    const memories = this.getMemoriesFromLocalStorage();
-    console.log('📊 Current memories count before add:', memories.length);
-    const updatedMemories = [newMemory, ...memories];
-    this.saveMemoriesToLocalStorage(updatedMemories);
-    console.log('✅ Memory saved to localStorage, new count:', updatedMemories.length);
-    
-    return newMemory;
-  }
-
-  async updateMemory(id: string, updates: Partial<MemoryWithConversation>): Promise<MemoryWithConversation | null> {
-    if (!this.isSupabaseAvailable) {
-      return this.updateMemoryInLocalStorage(id, updates);
+  async updateMemory(
+    id: string,
+    updates: Partial<MemoryWithConversation>,
+    revision: { author: RevisionAuthor; reason?: string } = { author: 'user' }
+  ): Promise<MemoryWithConversation | null> {
+    // Map interface fields to database fields
+    const dbUpdates: any = { ...updates };
+    if (updates.content !== undefined) {
+      dbUpdates.text = updates.content;
+      delete dbUpdates.content;
     }
+    delete dbUpdates.date; // date is read-only (created_at)
+    delete dbUpdates.sync_state;
 
     try {
-      // Map interface fields to database fields
-      const dbUpdates: any = { ...updates };
-      if (updates.content !== undefined) {
-        dbUpdates.text = updates.content;
-        delete dbUpdates.content;
-      }
-      delete dbUpdates.date; // date is read-only (created_at)
-      
       const { data, error } = await this.supabase
         .from('memories')
         .update({
           ...dbUpdates,
+          ...revisionAttribution(revision.author, revision.reason),
           updated_at: new Date().toISOString()
         })
         .eq('id', id)
@@ -141,42 +136,31 @@ class MemoryService {
         .single();
 
       if (error) throw error;
-      
-      // Map back to interface schema
-      return {
-        ...data,
-        content: data.text,
-        date: data.created_at
-      };
+
+      await syncService.cacheMemories(data.user_id, [data]);
+      return toMemory(data);
     } catch (error) {
-      console.error('Error updating memory in Supabase, falling back to localStorage:', error);
-      return this.updateMemoryInLocalStorage(id, updates);
+      if (!isNetworkError(error)) throw error;
+      console.error('Error updating memory in Supabase, queuing it for sync:', error);
+      const userId = await this.getUserId();
+      const cached = await syncService.getCachedMemory(id);
+      const changes = { ...dbUpdates, ...revisionAttribution(revision.author, revision.reason) };
+
+      await syncService.enqueue<MemoryUpdatePayload>('memory.update', userId, String(cached?.title ?? updates.title ?? 'Memory'), {
+        id,
+        changes,
+        // Applied only if nobody changed the memory since this copy was loaded
+        base_updated_at: (cached?.sync_state ? null : (cached?.updated_at as string | undefined)) ?? null,
+      });
+
+      // updated_at stays the server's so the next offline edit is checked against it
+      const local: CachedMemory = { ...cached, ...changes, id, user_id: userId };
+      await syncService.cacheLocalMemory(local);
+      return { ...toMemory(local), sync_state: 'pending' };
     }
   }
 
-  private updateMemoryInLocalStorage(id: string, updates: Partial<MemoryWithConversation>): MemoryWithConversation | null {
-    const memories = this.getMemoriesFromLocalStorage();
-    const memoryIndex = memories.findIndex(m => m.id === id);
-    
-    if (memoryIndex === -1) return null;
-    
-    const updatedMemory = {
-      ...memories[memoryIndex],
-      ...updates,
-      updated_at: new Date().toISOString()
-    };
-    
-    memories[memoryIndex] = updatedMemory;
-    this.saveMemoriesToLocalStorage(memories);
-    
-    return updatedMemory;
-  }
-
   async deleteMemory(id: string): Promise<boolean> {
-    if (!this.isSupabaseAvailable) {
-      return this.deleteMemoryFromLocalStorage(id);
-    }
-
     try {
       const { error } = await this.supabase
         .from('memories')
@@ -184,30 +168,24 @@ class MemoryService {
         .eq('id', id);
 
       if (error) throw error;
+      await syncService.removeCachedMemory(id);
       return true;
     } catch (error) {
-      console.error('Error deleting memory from Supabase, falling back to localStorage:', error);
-      return this.deleteMemoryFromLocalStorage(id);
-    }
-  }
-
-  private deleteMemoryFromLocalStorage(id: string): boolean {
-    try {
-      const memories = this.getMemoriesFromLocalStorage();
-      const filteredMemories = memories.filter(m => m.id !== id);
-      this.saveMemoriesToLocalStorage(filteredMemories);
+      if (!isNetworkError(error)) throw error;
+      console.error('Error deleting memory in Supabase, queuing it for sync:', error);
+      const userId = await this.getUserId();
+      const cached = await syncService.getCachedMemory(id);
+
+      await syncService.enqueue<MemoryDeletePayload>('memory.delete', userId, String(cached?.title ?? 'Memory'), {
+        id,
+        base_updated_at: (cached?.sync_state ? null : (cached?.updated_at as string | undefined)) ?? null,
+      });
+      await syncService.removeCachedMemory(id);
       return true;
-    } catch (error) {
-      console.error('Error deleting from localStorage:', error);
-      return false;
     }
   }
 
   async searchMemories(query: string): Promise<MemoryWithConversation[]> {
-    if (!this.isSupabaseAvailable) {
-      return this.searchMemoriesInLocalStorage(query);
-    }
-
     try {
       const { data, error } = await this.supabase
         .from('memories')
@@ -216,36 +194,32 @@ class MemoryService {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      
+
       // Map database schema to interface schema
-      return (data || []).map((mem: any) => ({
-        ...mem,
-        content: mem.text,
-        date: mem.created_at
-      }));
+      return (data || []).map(mem => toMemory(mem));
     } catch (error) {
-      console.error('Error searching memories in Supabase, falling back to localStorage:', error);
-      return this.searchMemoriesInLocalStorage(query);
+      console.error('Error searching memories in Supabase, searching the offline copy:', error);
+      return this.searchMemoriesInCache(query);
     }
   }
 
-  private searchMemoriesInLocalStorage(query: string): MemoryWithConversation[] {
-    const memories = this.getMemoriesFromLocalStorage();
+  private async searchMemoriesInCache(query: string): Promise<MemoryWithConversation[]> {
+    const memories = (await syncService.getCachedMemories(await this.getUserId())).map(mem => toMemory(mem));
     const lowercaseQuery = query.toLowerCase();
-    
-    return memories.filter(memory => 
+
+    return memories.filter(memory =>
       memory.title.toLowerCase().includes(lowercaseQuery) ||
-      memory.content.toLowerCase().includes(lowercaseQuery) ||
+      (memory.content || '').toLowerCase().includes(lowercaseQuery) ||
       (memory.conversation_text && memory.conversation_text.toLowerCase().includes(lowercaseQuery))
     );
   }
 
   getMemoriesForVisitor(memories: MemoryWithConversation[], permissions: string[] = ['public']): MemoryWithConversation[] {
-    return memories.filter(memory => 
+    return memories.filter(memory =>
       !memory.recipient || permissions.includes(memory.recipient)
     );
   }
 }
 
 export const memoryService = new MemoryService();
-export type { MemoryWithConversation };
\ No newline at end of file
+export type { MemoryWithConversation };
@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ChannelIdentity, LinkableChannel, MessagingWebhookEvent, WebhookEventStatus } from '@/types/messagingChannel';
+
+/**
+ * Telegram chats and email addresses linked to the account. Linking is done
+ * from the other side: the user sends the code from create_channel_link_code
+ * to Solin on that channel, and messaging-webhook records the identity.
+ */
+class MessagingChannelService {
+  async getIdentities(userId: string): Promise<ChannelIdentity[]> {
+    const { data, error } = await supabase
+      .from('channel_identities')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /** One-time code, valid for 30 minutes */
+  async createLinkCode(channel: LinkableChannel): Promise<string> {
+    const { data, error } = await supabase.rpc('create_channel_link_code', { p_channel: channel });
+
+    if (error) throw error;
+    return data as string;
+  }
+
+  async unlink(identityId: string): Promise<void> {
+    const { error } = await supabase
+      .from('channel_identities')
+      .delete()
+      .eq('id', identityId);
+
+    if (error) throw error;
+  }
+
+  /** Latest webhook inbox events (admins; see messaging-inbox) */
+  async getWebhookEvents(status?: WebhookEventStatus, limit = 50): Promise<MessagingWebhookEvent[]> {
+    let query = supabase
+      .from('messaging_webhook_events')
+      .select('*')
+      .order('received_at', { ascending: false })
+      .limit(limit);
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  /** Process an event again now; resolves to whether it succeeded this time */
+  async replayWebhookEvent(eventId: string): Promise<boolean> {
+    const { data, error } = await supabase.functions.invoke('messaging-inbox', {
+      body: { action: 'replay', eventId },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return !!data?.processed;
+  }
+}
+
+export const messagingChannelService = new MessagingChannelService();
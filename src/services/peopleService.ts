@@ -0,0 +1,148 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getGroupedMemories } from '@/utils/memoryGrouping';
+import { Person, PersonMention, PersonMemory } from '@/types/people';
+
+/**
+ * People directory. Mentions are resolved to people by the people-directory
+ * edge function (rebuild) and by process-memory-insights for new memories.
+ * Merging and splitting go through the merge_people / split_person RPCs so
+ * mentions and aliases move together; edits and links are written directly
+ * under RLS, which only allows linking to an actual connection.
+ */
+
+async function getDisplayNames(userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map();
+
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('user_id, display_name, preferred_name')
+    .in('user_id', userIds);
+
+  return new Map(
+    (data || []).map(p => [p.user_id, p.preferred_name || p.display_name || 'Unknown'])
+  );
+}
+
+class PeopleService {
+  async getPeople(userId: string): Promise<Person[]> {
+    const [{ data, error }, mentions] = await Promise.all([
+      supabase.from('people').select('*').eq('user_id', userId).order('display_name'),
+      this.getMentions(userId),
+    ]);
+
+    if (error) throw error;
+    const people = (data || []) as unknown as Person[];
+
+    const groupsByPerson = new Map<string, Set<string>>();
+    for (const mention of mentions) {
+      const groups = groupsByPerson.get(mention.person_id) || new Set<string>();
+      groups.add(mention.memory_group_id);
+      groupsByPerson.set(mention.person_id, groups);
+    }
+
+    const names = await getDisplayNames(
+      people.map(person => person.linked_user_id).filter((id): id is string => !!id)
+    );
+
+    return people.map(person => ({
+      ...person,
+      mention_count: groupsByPerson.get(person.id)?.size || 0,
+      linked_user_name: person.linked_user_id ? names.get(person.linked_user_id) || null : null,
+    }));
+  }
+
+  async getMentions(userId: string): Promise<PersonMention[]> {
+    const { data, error } = await supabase
+      .from('person_mentions')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []) as unknown as PersonMention[];
+  }
+
+  /** Every memory the person appears in, newest first */
+  async getPersonMemories(userId: string, personId: string, mentions: PersonMention[]): Promise<PersonMemory[]> {
+    const mentionsByGroup = new Map<string, Set<string>>();
+    for (const mention of mentions.filter(m => m.person_id === personId)) {
+      const texts = mentionsByGroup.get(mention.memory_group_id) || new Set<string>();
+      texts.add(mention.mention);
+      mentionsByGroup.set(mention.memory_group_id, texts);
+    }
+    if (mentionsByGroup.size === 0) return [];
+
+    const memories = await getGroupedMemories(userId);
+    return memories
+      .filter(memory => mentionsByGroup.has(memory.id))
+      .map(memory => ({
+        memory_group_id: memory.id,
+        title: memory.title,
+        text: memory.text,
+        memory_date: memory.memory_date,
+        memory_location: memory.memory_location,
+        mentions: [...(mentionsByGroup.get(memory.id) || [])],
+      }))
+      .sort((a, b) => (b.memory_date || '').localeCompare(a.memory_date || ''));
+  }
+
+  /** Re-resolve every memory's people and the profile's relationships */
+  async rebuild(): Promise<{ people: number; mentions: number; linked: number }> {
+    const { data, error } = await supabase.functions.invoke('people-directory', {
+      body: { action: 'rebuild' },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  }
+
+  async updatePerson(
+    personId: string,
+    updates: Partial<Pick<Person, 'display_name' | 'relationship' | 'relationship_group' | 'notes' | 'is_hidden'>>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('people')
+      .update({ ...updates, ...(updates.display_name !== undefined && { display_name: updates.display_name.trim() }) })
+      .eq('id', personId);
+
+    if (error) throw error;
+  }
+
+  async deletePerson(personId: string): Promise<void> {
+    const { error } = await supabase.from('people').delete().eq('id', personId);
+    if (error) throw error;
+  }
+
+  /** Fold sourceId into targetId; the source person is removed */
+  async merge(sourceId: string, targetId: string): Promise<void> {
+    const { error } = await supabase.rpc('merge_people', {
+      p_source_id: sourceId,
+      p_target_id: targetId,
+    });
+
+    if (error) throw error;
+  }
+
+  /** Move the chosen aliases and their mentions into a new person; returns its id */
+  async split(personId: string, aliases: string[], displayName: string): Promise<string> {
+    const { data, error } = await supabase.rpc('split_person', {
+      p_person_id: personId,
+      p_aliases: aliases,
+      p_display_name: displayName.trim(),
+    });
+
+    if (error) throw error;
+    return data as unknown as string;
+  }
+
+  async linkConnection(personId: string, connectionUserId: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('people')
+      .update({ linked_user_id: connectionUserId })
+      .eq('id', personId);
+
+    if (error) throw error;
+  }
+}
+
+export const peopleService = new PeopleService();
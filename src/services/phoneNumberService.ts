@@ -0,0 +1,140 @@
+import { supabase } from '@/integrations/supabase/client';
+import { HouseholdPhone, HouseholdPhoneMember, HouseholdPhoneWithMembers, UserPhoneNumber } from '@/types/householdPhone';
+
+/**
+ * WhatsApp numbers on the account, verified with a code by
+ * verify-phone-whatsapp, and household phones shared between accounts.
+ * Household membership only changes through the database functions, which
+ * record each member's consent.
+ */
+class PhoneNumberService {
+  async getPhoneNumbers(userId: string): Promise<UserPhoneNumber[]> {
+    const { data, error } = await supabase
+      .from('user_phone_numbers')
+      .select('id, user_id, phone_number, label, verified, is_primary, created_at')
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) throw error;
+    return (data || []) as UserPhoneNumber[];
+  }
+
+  /** Sends a 6-digit code to the number on WhatsApp */
+  async sendCode(phoneNumber: string, label: string): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('verify-phone-whatsapp', {
+      body: { action: 'send_code', phone_number: phoneNumber, label: label.trim() || null },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  }
+
+  async verifyCode(phoneNumber: string, code: string): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('verify-phone-whatsapp', {
+      body: { action: 'verify_code', phone_number: phoneNumber, verification_code: code },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  }
+
+  async setPrimary(phoneId: string): Promise<void> {
+    const { error } = await supabase.rpc('set_primary_phone_number', { p_phone_id: phoneId });
+
+    if (error) throw error;
+  }
+
+  async removePhoneNumber(phoneId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_phone_numbers')
+      .delete()
+      .eq('id', phoneId);
+
+    if (error) throw error;
+  }
+
+  /** Household phones the user owns or is a member of, with their members */
+  async getHouseholdPhones(): Promise<HouseholdPhoneWithMembers[]> {
+    const { data: phones, error } = await supabase
+      .from('household_phones')
+      .select('id, phone_number, name, created_by, created_at')
+      .order('created_at');
+
+    if (error) throw error;
+    if (!phones?.length) return [];
+
+    // Only the owner gets the invite codes
+    const { data: invites, error: invitesError } = await supabase.rpc('get_household_invite_codes');
+    if (invitesError) throw invitesError;
+
+    const { data: members, error: membersError } = await supabase
+      .from('household_phone_members')
+      .select('*')
+      .in('household_phone_id', phones.map(p => p.id))
+      .eq('status', 'active')
+      .order('created_at');
+
+    if (membersError) throw membersError;
+    const inviteByPhone = new Map(
+      ((invites || []) as { household_phone_id: string; invite_code: string; invite_expires_at: string }[])
+        .map(invite => [invite.household_phone_id, invite])
+    );
+    return (phones as Omit<HouseholdPhone, 'invite_code' | 'invite_expires_at'>[]).map(phone => ({
+      ...phone,
+      invite_code: inviteByPhone.get(phone.id)?.invite_code ?? null,
+      invite_expires_at: inviteByPhone.get(phone.id)?.invite_expires_at ?? null,
+      members: ((members || []) as HouseholdPhoneMember[]).filter(m => m.household_phone_id === phone.id),
+    }));
+  }
+
+  /** Share one of the user's verified numbers; the user joins it as displayName */
+  async shareAsHouseholdPhone(phoneId: string, name: string, displayName: string): Promise<string> {
+    const { data, error } = await supabase.rpc('create_household_phone', {
+      p_phone_id: phoneId,
+      p_name: name,
+      p_display_name: displayName,
+    });
+
+    if (error) throw error;
+    return data as string;
+  }
+
+  /** Code another account enters to join, valid for 30 minutes */
+  async createInviteCode(householdPhoneId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('create_household_invite_code', {
+      p_household_phone_id: householdPhoneId,
+    });
+
+    if (error) throw error;
+    return data as string;
+  }
+
+  /** Records the user's consent to message Solin from the shared phone */
+  async joinHouseholdPhone(code: string, displayName: string): Promise<void> {
+    const { error } = await supabase.rpc('join_household_phone', {
+      p_code: code,
+      p_display_name: displayName,
+    });
+
+    if (error) throw error;
+  }
+
+  /** Leave a household phone, or (owner) remove someone from it */
+  async endMembership(memberId: string): Promise<void> {
+    const { error } = await supabase.rpc('end_household_phone_membership', { p_member_id: memberId });
+
+    if (error) throw error;
+  }
+
+  /** Owner only: the phone goes back to being the owner's own number */
+  async stopSharing(householdPhoneId: string): Promise<void> {
+    const { error } = await supabase
+      .from('household_phones')
+      .delete()
+      .eq('id', householdPhoneId);
+
+    if (error) throw error;
+  }
+}
+
+export const phoneNumberService = new PhoneNumberService();
@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getSignedUrls } from '@/lib/storage';
+import { GenerateReconstructionRequest, Reconstruction } from '@/types/reconstruction';
+
+/**
+ * Reconstruction gallery. generate-memory-sketch generates the image and
+ * stores it as an artifact owned by the user (source 'reconstruction') with
+ * its settings; refining re-runs a gallery image's settings with an added
+ * prompt and records the lineage. Attaching to a memory is a memory_artifacts
+ * link, so the image shows up with the memory's other media.
+ */
+
+const MEMORY_IMAGES_BUCKET = 'memory-images';
+
+class ReconstructionService {
+  async generate(request: GenerateReconstructionRequest): Promise<{ reconstruction: Reconstruction; imageUrl: string }> {
+    const { data, error } = await supabase.functions.invoke('generate-memory-sketch', {
+      body: request,
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return { reconstruction: data.artifact as Reconstruction, imageUrl: data.imageUrl as string };
+  }
+
+  /** Re-run a reconstruction's settings with more detail; the result records what it was derived from */
+  async refine(parentId: string, refinePrompt: string): Promise<{ reconstruction: Reconstruction; imageUrl: string }> {
+    const { data, error } = await supabase.functions.invoke('generate-memory-sketch', {
+      body: { parentArtifactId: parentId, refinePrompt, seed: Math.floor(Math.random() * 1000000) },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return { reconstruction: data.artifact as Reconstruction, imageUrl: data.imageUrl as string };
+  }
+
+  async getGallery(userId: string): Promise<Reconstruction[]> {
+    const { data, error } = await supabase
+      .from('artifacts')
+      .select('id, user_id, storage_path, derived_from_artifact_id, metadata, created_at')
+      .eq('user_id', userId)
+      .eq('source', 'reconstruction')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    const reconstructions = (data || []) as unknown as Reconstruction[];
+    if (reconstructions.length === 0) return [];
+
+    const [urls, { data: links, error: linksError }] = await Promise.all([
+      getSignedUrls(MEMORY_IMAGES_BUCKET, reconstructions.map(r => r.storage_path)),
+      supabase
+        .from('memory_artifacts')
+        .select('memory_id, artifact_id')
+        .in('artifact_id', reconstructions.map(r => r.id)),
+    ]);
+
+    if (linksError) throw linksError;
+
+    return reconstructions.map((reconstruction, index) => ({
+      ...reconstruction,
+      image_url: urls[index],
+      memory_ids: (links || [])
+        .filter(link => link.artifact_id === reconstruction.id)
+        .map(link => link.memory_id),
+    }));
+  }
+
+  /** The chain of refinements that led to a reconstruction, oldest first */
+  getLineage(gallery: Reconstruction[], id: string): Reconstruction[] {
+    const byId = new Map(gallery.map(r => [r.id, r]));
+    const lineage: Reconstruction[] = [];
+    let current = byId.get(id);
+    while (current && !lineage.includes(current)) {
+      lineage.unshift(current);
+      current = current.derived_from_artifact_id ? byId.get(current.derived_from_artifact_id) : undefined;
+    }
+    return lineage;
+  }
+
+  /** The user's memories to attach to (first chunk of each) */
+  async getAttachableMemories(userId: string): Promise<{ id: string; title: string; memory_date: string | null }[]> {
+    const { data, error } = await supabase
+      .from('memories')
+      .select('id, title, memory_date')
+      .eq('user_id', userId)
+      .or('is_primary_chunk.is.true,is_primary_chunk.is.null')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async attachToMemory(reconstructionId: string, memoryId: string): Promise<void> {
+    const { error } = await supabase
+      .from('memory_artifacts')
+      .insert({ memory_id: memoryId, artifact_id: reconstructionId });
+
+    // Already attached
+    if (error && error.code !== '23505') throw error;
+  }
+
+  async detachFromMemory(reconstructionId: string, memoryId: string): Promise<void> {
+    const { error } = await supabase
+      .from('memory_artifacts')
+      .delete()
+      .eq('memory_id', memoryId)
+      .eq('artifact_id', reconstructionId);
+
+    if (error) throw error;
+  }
+
+  /** Removes the image everywhere, including memories it was attached to; refinements of it are kept */
+  async deleteReconstruction(reconstruction: Reconstruction): Promise<void> {
+    const { error: storageError } = await supabase.storage
+      .from(MEMORY_IMAGES_BUCKET)
+      .remove([reconstruction.storage_path]);
+
+    if (storageError) throw storageError;
+
+    const { error } = await supabase
+      .from('artifacts')
+      .delete()
+      .eq('id', reconstruction.id);
+
+    if (error) throw error;
+  }
+}
+
+export const reconstructionService = new ReconstructionService();
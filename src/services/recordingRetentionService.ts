@@ -0,0 +1,113 @@
+import { supabase } from '@/integrations/supabase/client';
+import { aiVoiceSearch } from '@/services/aiVoiceSearch';
+import {
+  RecordingPurgeReportItem,
+  RecordingRetentionSettings,
+  TrashedRecording,
+} from '@/types/recordingRetention';
+
+/**
+ * Retention for the signed-in user's voice recordings. Expiry dates are kept
+ * by the database and the daily recording-retention run moves expired
+ * recordings to the trash, purges the trash after 30 days and compresses old
+ * audio; this service edits the defaults, pins and the trash.
+ */
+
+export const DEFAULT_RETENTION_SETTINGS: RecordingRetentionSettings = {
+  retention_days: 90,
+  keep_linked_recordings: true,
+  compress_after_days: 30,
+};
+
+class RecordingRetentionService {
+  async getSettings(userId: string): Promise<RecordingRetentionSettings> {
+    const { data, error } = await supabase
+      .from('recording_retention_settings')
+      .select('retention_days, keep_linked_recordings, compress_after_days')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ?? DEFAULT_RETENTION_SETTINGS;
+  }
+
+  /** Saving re-dates every recording that follows the defaults */
+  async saveSettings(userId: string, settings: RecordingRetentionSettings): Promise<void> {
+    const { error } = await supabase
+      .from('recording_retention_settings')
+      .upsert({ user_id: userId, ...settings }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  }
+
+  async setKeepForever(recordingId: string, keepForever: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('voice_recordings')
+      .update({ keep_forever: keepForever })
+      .eq('id', recordingId);
+
+    if (error) throw error;
+  }
+
+  async moveToTrash(recordingId: string): Promise<void> {
+    const { error } = await supabase
+      .from('voice_recordings')
+      .update({ deleted_at: new Date().toISOString(), deleted_reason: 'user' })
+      .eq('id', recordingId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Take a recording out of the trash. One that expired is pinned as well,
+   * otherwise the next retention run would trash it again.
+   */
+  async restore(recording: Pick<TrashedRecording, 'id' | 'deleted_reason'>): Promise<void> {
+    const { error } = await supabase
+      .from('voice_recordings')
+      .update({
+        deleted_at: null,
+        ...(recording.deleted_reason === 'retention' && { keep_forever: true }),
+      })
+      .eq('id', recording.id);
+
+    if (error) throw error;
+  }
+
+  async listTrash(userId: string): Promise<TrashedRecording[]> {
+    const { data, error } = await supabase
+      .from('voice_recordings')
+      .select('id, created_at, duration_seconds, conversation_summary, memory_titles, deleted_at, deleted_reason, purge_after')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as TrashedRecording[];
+  }
+
+  /** Delete a trashed recording now instead of waiting for the purge */
+  async deleteForever(userId: string, recordingId: string): Promise<void> {
+    await aiVoiceSearch.deleteVoiceRecording(userId, recordingId);
+  }
+
+  /** False when the server has no audio transcoder, so nothing is ever compressed */
+  async isCompressionAvailable(): Promise<boolean> {
+    const { data, error } = await supabase.functions.invoke('recording-retention', {
+      body: { action: 'status' }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.compression_available === true;
+  }
+
+  async getPurgeReport(limit = 20): Promise<RecordingPurgeReportItem[]> {
+    const { data, error } = await supabase.rpc('get_recording_purge_report', { p_limit: limit });
+
+    if (error) throw error;
+    return (data || []) as RecordingPurgeReportItem[];
+  }
+}
+
+export const recordingRetentionService = new RecordingRetentionService();
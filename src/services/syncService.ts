@@ -0,0 +1,564 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '@/integrations/supabase/client';
+import { idbDelete, idbGet, idbGetAll, idbPut, idbReplaceAll, isOfflineDbSupported } from '@/lib/offlineDb';
+import {
+  ArtifactUploadPayload,
+  MemoryDeletePayload,
+  MemoryInsertPayload,
+  MemorySavePayload,
+  MemoryUpdatePayload,
+  OfflineBlob,
+  OutboxEntry,
+  OutboxKind,
+  RecordingUploadPayload,
+  SyncStatus,
+} from '@/types/sync';
+
+/**
+ * Offline layer. Writes that can't reach Supabase are queued in IndexedDB and
+ * replayed in order with exponential backoff once the connection is back.
+ * Ids are generated on the client so a replayed insert is idempotent, and
+ * updates and deletes only apply if the row's updated_at is still the one the
+ * edit started from; otherwise the entry is held as a conflict for the user
+ * to resolve. Also keeps the last known copy of the user's memories for
+ * reading offline.
+ */
+
+const MAX_ATTEMPTS = 8; // Non-network failures before an entry is marked failed
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 30 * 60_000;
+const POLL_INTERVAL_MS = 30_000;
+const DUPLICATE_KEY = '23505';
+const LEGACY_STORAGE_KEY = 'memories'; // Where memoryService used to keep offline memories
+
+export type CachedMemory = Record<string, unknown> & {
+  id: string;
+  user_id?: string;
+  sync_state?: 'pending'; // Created or changed offline, not on the server yet
+};
+
+type HandlerResult = { conflict: Record<string, unknown> | null } | void;
+
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const name = (error as { name?: string } | null)?.name;
+  const message = error instanceof Error ? error.message : String((error as { message?: string } | null)?.message ?? error);
+  return name === 'FunctionsFetchError' || /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+function backoffDelay(attempts: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempts);
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+}
+
+/** The memory an entry writes to, so later entries for it wait their turn */
+function entityOf(entry: OutboxEntry): string {
+  const payload = entry.payload as Record<string, unknown>;
+  const row = payload.row as { id?: string } | undefined;
+  const memory = payload.memory as { id?: string } | undefined;
+  return String(payload.id ?? payload.memory_id ?? memory?.id ?? row?.id ?? entry.id);
+}
+
+async function readBlob(blobId: string): Promise<OfflineBlob> {
+  const stored = await idbGet<OfflineBlob>('blobs', blobId);
+  if (!stored) throw new Error('The file to upload is no longer on this device');
+  return stored;
+}
+
+class SyncService {
+  private listeners: ((status: SyncStatus) => void)[] = [];
+  private status: SyncStatus = {
+    online: typeof navigator === 'undefined' ? true : navigator.onLine,
+    syncing: false,
+    pending: 0,
+    conflicts: [],
+    failed: [],
+    last_synced_at: null,
+  };
+  private flushing: Promise<void> | null = null;
+  private started = false;
+
+  /** Begin replaying the queue on reconnect, on focus and on a timer */
+  start(): void {
+    if (this.started || typeof window === 'undefined' || !isOfflineDbSupported()) return;
+    this.started = true;
+
+    window.addEventListener('online', () => {
+      this.setStatus({ online: true });
+      this.flush();
+    });
+    window.addEventListener('offline', () => this.setStatus({ online: false }));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') this.flush();
+    });
+    setInterval(() => this.flush(), POLL_INTERVAL_MS);
+
+    this.refreshStatus().then(() => this.flush());
+  }
+
+  getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private setStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => listener(this.getStatus()));
+  }
+
+  private async refreshStatus(): Promise<void> {
+    const entries = await this.getEntries();
+    this.setStatus({
+      online: navigator.onLine,
+      pending: entries.filter(entry => entry.status === 'pending').length,
+      conflicts: entries.filter(entry => entry.status === 'conflict'),
+      failed: entries.filter(entry => entry.status === 'failed'),
+    });
+  }
+
+  async getEntries(): Promise<OutboxEntry[]> {
+    if (!isOfflineDbSupported()) return [];
+    const entries = await idbGetAll<OutboxEntry>('outbox');
+    return entries.sort((a, b) => a.created_at - b.created_at);
+  }
+
+  // ----- Queue -----
+
+  /**
+   * Queue a write. Updates to a memory that is still waiting to be created or
+   * updated are folded into that entry, and deleting a memory that never
+   * reached the server just drops its insert.
+   */
+  async enqueue<P>(
+    kind: OutboxKind,
+    userId: string,
+    label: string,
+    payload: P,
+    files: { blob: Blob; file_name: string; mime_type: string }[] = []
+  ): Promise<OutboxEntry<P> | null> {
+    const existing = (await this.getEntries()).filter(entry => entry.status === 'pending');
+
+    if (kind === 'memory.update' || kind === 'memory.delete') {
+      const { id } = payload as unknown as MemoryUpdatePayload | MemoryDeletePayload;
+      const insert = existing.find(entry =>
+        (entry.kind === 'memory.insert' && (entry.payload as unknown as MemoryInsertPayload).row.id === id) ||
+        (entry.kind === 'memory.save' && (entry.payload as unknown as MemorySavePayload).memory.id === id)
+      );
+      const update = existing.find(entry => entry.kind === 'memory.update' && (entry.payload as unknown as MemoryUpdatePayload).id === id);
+
+      if (kind === 'memory.delete' && insert) {
+        await this.removeEntry(insert);
+        if (update) await this.removeEntry(update);
+        await this.refreshStatus();
+        return null;
+      }
+
+      if (kind === 'memory.update') {
+        const { changes } = payload as unknown as MemoryUpdatePayload;
+        if (insert?.kind === 'memory.insert') {
+          const insertPayload = insert.payload as unknown as MemoryInsertPayload;
+          await idbPut('outbox', { ...insert, payload: { ...insertPayload, row: { ...insertPayload.row, ...changes } } });
+          return null;
+        }
+        if (update) {
+          const updatePayload = update.payload as unknown as MemoryUpdatePayload;
+          await idbPut('outbox', { ...update, payload: { ...updatePayload, changes: { ...updatePayload.changes, ...changes } } });
+          return null;
+        }
+      }
+
+      if (kind === 'memory.delete' && update) {
+        // Deleting supersedes the pending edit
+        await this.removeEntry(update);
+      }
+    }
+
+    const blobIds: string[] = [];
+    for (const file of files) {
+      const blob: OfflineBlob = { id: uuidv4(), ...file };
+      await idbPut('blobs', blob);
+      blobIds.push(blob.id);
+    }
+
+    const entry: OutboxEntry<P> = {
+      id: uuidv4(),
+      kind,
+      user_id: userId,
+      label,
+      payload,
+      blob_ids: blobIds,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: Date.now(),
+      last_error: null,
+      server_copy: null,
+      created_at: Date.now(),
+    };
+    await idbPut('outbox', entry);
+    await this.refreshStatus();
+    this.flush();
+    return entry;
+  }
+
+  private async removeEntry(entry: OutboxEntry): Promise<void> {
+    await Promise.all(entry.blob_ids.map(blobId => idbDelete('blobs', blobId)));
+    await idbDelete('outbox', entry.id);
+  }
+
+  /** Replay due entries in order; concurrent calls share one run */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush()
+        .catch(error => console.error('Sync failed:', error))
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  private async runFlush(): Promise<void> {
+    if (!isOfflineDbSupported() || !navigator.onLine) return;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    await this.migrateLegacyMemories(session.user.id);
+
+    const entries = (await this.getEntries()).filter(entry => entry.user_id === session.user.id);
+    if (entries.length === 0) return;
+
+    this.setStatus({ syncing: true });
+    const blocked = new Set<string>();
+    const done = new Set<string>();
+    let synced = false;
+
+    try {
+      for (const entry of entries) {
+        const entity = entityOf(entry);
+        if (entry.status !== 'pending' || blocked.has(entity)) {
+          blocked.add(entity);
+          continue;
+        }
+        if (entry.next_attempt_at > Date.now()) {
+          blocked.add(entity);
+          continue;
+        }
+
+        try {
+          const result = await this.apply(entry);
+          if (result && 'conflict' in result) {
+            await idbPut('outbox', { ...entry, status: 'conflict', server_copy: result.conflict, last_error: null });
+            blocked.add(entity);
+            continue;
+          }
+          await this.removeEntry(entry);
+          done.add(entry.id);
+          await this.markSynced(entity, !entries.some(other => !done.has(other.id) && entityOf(other) === entity));
+          synced = true;
+        } catch (error) {
+          const network = isNetworkError(error);
+          const attempts = entry.attempts + 1;
+          await idbPut('outbox', {
+            ...entry,
+            attempts,
+            status: !network && attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            next_attempt_at: Date.now() + backoffDelay(attempts),
+            last_error: error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error),
+          });
+          // Nothing else will get through either
+          if (network) break;
+          blocked.add(entity);
+        }
+      }
+    } finally {
+      await this.refreshStatus();
+      this.setStatus({ syncing: false, ...(synced && { last_synced_at: Date.now() }) });
+    }
+  }
+
+  private async apply(entry: OutboxEntry): Promise<HandlerResult> {
+    switch (entry.kind) {
+      case 'memory.insert':
+        return this.applyMemoryInsert(entry as unknown as OutboxEntry<MemoryInsertPayload>);
+      case 'memory.save':
+        return this.applyMemorySave(entry as unknown as OutboxEntry<MemorySavePayload>);
+      case 'memory.update':
+        return this.applyMemoryUpdate(entry as unknown as OutboxEntry<MemoryUpdatePayload>);
+      case 'memory.delete':
+        return this.applyMemoryDelete(entry as unknown as OutboxEntry<MemoryDeletePayload>);
+      case 'artifact.upload':
+        return this.applyArtifactUpload(entry as unknown as OutboxEntry<ArtifactUploadPayload>);
+      case 'recording.upload':
+        return this.applyRecordingUpload(entry as unknown as OutboxEntry<RecordingUploadPayload>);
+    }
+  }
+
+  private async applyMemoryInsert(entry: OutboxEntry<MemoryInsertPayload>): Promise<HandlerResult> {
+    const row = { ...entry.payload.row };
+    const imagePaths: string[] = [];
+
+    for (const [index, blobId] of entry.blob_ids.entries()) {
+      const stored = await readBlob(blobId);
+      const fileExt = stored.file_name.split('.').pop() || 'jpg';
+      // Fixed path per image so a retried upload overwrites instead of duplicating
+      const path = `${entry.user_id}/${row.id}_${index}.${fileExt}`;
+      const { error } = await supabase.storage
+        .from('memory-images')
+        .upload(path, stored.blob, { contentType: stored.mime_type, upsert: true });
+      if (error) throw error;
+      imagePaths.push(path);
+    }
+    if (imagePaths.length > 0) {
+      row.image_urls = [...((row.image_urls as string[] | undefined) || []), ...imagePaths];
+    }
+
+    const { error } = await supabase.from('memories').insert(row as never);
+    // Already there from an earlier attempt whose response was lost
+    if (error && error.code !== DUPLICATE_KEY) throw error;
+  }
+
+  private async applyMemorySave(entry: OutboxEntry<MemorySavePayload>): Promise<HandlerResult> {
+    const { data, error } = await supabase.functions.invoke('memory-operations', {
+      body: { action: 'save', memory: entry.payload.memory, userId: entry.user_id },
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  }
+
+  private async applyMemoryUpdate(entry: OutboxEntry<MemoryUpdatePayload>): Promise<HandlerResult> {
+    const { id, changes, base_updated_at } = entry.payload;
+    let query = supabase.from('memories').update(changes as never).eq('id', id);
+    if (base_updated_at) query = query.eq('updated_at', base_updated_at);
+
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    if (data && data.length > 0) return;
+
+    // Nothing matched: changed (or deleted) on the server since the edit started
+    const { data: server, error: fetchError } = await supabase.from('memories').select('*').eq('id', id).maybeSingle();
+    if (fetchError) throw fetchError;
+    return { conflict: server };
+  }
+
+  private async applyMemoryDelete(entry: OutboxEntry<MemoryDeletePayload>): Promise<HandlerResult> {
+    const { id, base_updated_at } = entry.payload;
+    let query = supabase.from('memories').delete().eq('id', id);
+    if (base_updated_at) query = query.eq('updated_at', base_updated_at);
+
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    if (data && data.length > 0) return;
+
+    const { data: server, error: fetchError } = await supabase.from('memories').select('*').eq('id', id).maybeSingle();
+    if (fetchError) throw fetchError;
+    // Already gone is what the user wanted
+    if (!server) return;
+    return { conflict: server };
+  }
+
+  private async applyArtifactUpload(entry: OutboxEntry<ArtifactUploadPayload>): Promise<HandlerResult> {
+    const { memory_id, artifact_id, storage_path } = entry.payload;
+    const stored = await readBlob(entry.blob_ids[0]);
+
+    const { error: uploadError } = await supabase.storage
+      .from('memory-images')
+      .upload(storage_path, stored.blob, { contentType: stored.mime_type, upsert: true });
+    if (uploadError) throw uploadError;
+
+    const { error: artifactError } = await supabase
+      .from('artifacts')
+      .insert({
+        id: artifact_id,
+        artifact_type: stored.mime_type.startsWith('image/') ? 'image' : 'video',
+        storage_path,
+        mime_type: stored.mime_type,
+        file_name: stored.file_name,
+        file_size: stored.blob.size,
+      });
+    if (artifactError && artifactError.code !== DUPLICATE_KEY) throw artifactError;
+
+    const { data: link, error: linkLookupError } = await supabase
+      .from('memory_artifacts')
+      .select('artifact_id')
+      .eq('memory_id', memory_id)
+      .eq('artifact_id', artifact_id)
+      .maybeSingle();
+    if (linkLookupError) throw linkLookupError;
+    if (link) return;
+
+    const { error: linkError } = await supabase
+      .from('memory_artifacts')
+      .insert({ memory_id, artifact_id });
+    if (linkError && linkError.code !== DUPLICATE_KEY) throw linkError;
+  }
+
+  private async applyRecordingUpload(entry: OutboxEntry<RecordingUploadPayload>): Promise<HandlerResult> {
+    const { bucket, storage_path, row } = entry.payload;
+    const stored = await readBlob(entry.blob_ids[0]);
+
+    const { error: uploadError } = await supabase.storage
+      .from(bucket)
+      .upload(storage_path, stored.blob, { contentType: stored.mime_type, upsert: true });
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from('voice_recordings').insert(row as never);
+    if (error && error.code !== DUPLICATE_KEY) throw error;
+  }
+
+  // ----- Conflicts and failures -----
+
+  /**
+   * Keep mine re-applies the local change over the server's; keep theirs drops
+   * it and takes the server copy into the offline cache.
+   */
+  async resolveConflict(entryId: string, choice: 'mine' | 'theirs'): Promise<void> {
+    const entry = await idbGet<OutboxEntry>('outbox', entryId);
+    if (!entry || entry.status !== 'conflict') return;
+
+    if (choice === 'mine') {
+      await idbPut('outbox', {
+        ...entry,
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: Date.now(),
+        server_copy: null,
+        payload: { ...entry.payload, base_updated_at: null },
+      });
+    } else {
+      await this.removeEntry(entry);
+      const id = entityOf(entry);
+      if (entry.server_copy) {
+        await idbPut('memories', { ...entry.server_copy, id } as CachedMemory);
+      } else {
+        await idbDelete('memories', id);
+      }
+    }
+
+    await this.refreshStatus();
+    this.flush();
+  }
+
+  async retry(entryId: string): Promise<void> {
+    const entry = await idbGet<OutboxEntry>('outbox', entryId);
+    if (!entry) return;
+    await idbPut('outbox', { ...entry, status: 'pending', attempts: 0, next_attempt_at: Date.now() });
+    await this.refreshStatus();
+    this.flush();
+  }
+
+  async discard(entryId: string): Promise<void> {
+    const entry = await idbGet<OutboxEntry>('outbox', entryId);
+    if (!entry) return;
+    await this.removeEntry(entry);
+    const cached = await idbGet<CachedMemory>('memories', entityOf(entry));
+    if (cached?.sync_state === 'pending' && (entry.kind === 'memory.insert' || entry.kind === 'memory.save')) {
+      await idbDelete('memories', cached.id);
+    }
+    await this.refreshStatus();
+  }
+
+  // ----- Offline memory cache -----
+
+  async getCachedMemories(userId: string): Promise<CachedMemory[]> {
+    if (!isOfflineDbSupported()) return [];
+    try {
+      const memories = await idbGetAll<CachedMemory>('memories');
+      return memories
+        .filter(memory => memory.user_id === userId)
+        .sort((a, b) => String(b.created_at ?? '').localeCompare(String(a.created_at ?? '')));
+    } catch (error) {
+      console.error('Error reading offline memories:', error);
+      return [];
+    }
+  }
+
+  async getCachedMemory(id: string): Promise<CachedMemory | undefined> {
+    if (!isOfflineDbSupported()) return undefined;
+    try {
+      return await idbGet<CachedMemory>('memories', id);
+    } catch (error) {
+      console.error('Error reading offline memory:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store what the server returned (only the user's own rows). With replace, the cache becomes exactly
+   * these rows plus anything still waiting to sync.
+   */
+  async cacheMemories(userId: string, rows: Record<string, unknown>[], replace = false): Promise<void> {
+    if (!isOfflineDbSupported()) return;
+    try {
+      const memories = rows.filter(row => row.user_id === userId) as CachedMemory[];
+      if (replace) {
+        await idbReplaceAll<CachedMemory>('memories', memories, existing =>
+          existing.user_id !== userId || existing.sync_state === 'pending'
+        );
+      } else {
+        await Promise.all(memories.map(memory => idbPut('memories', memory)));
+      }
+    } catch (error) {
+      console.error('Error caching memories offline:', error);
+    }
+  }
+
+  async cacheLocalMemory(memory: CachedMemory): Promise<void> {
+    if (!isOfflineDbSupported()) return;
+    const existing = await idbGet<CachedMemory>('memories', memory.id);
+    await idbPut('memories', { ...existing, ...memory, sync_state: 'pending' });
+  }
+
+  async removeCachedMemory(id: string): Promise<void> {
+    if (!isOfflineDbSupported()) return;
+    await idbDelete('memories', id);
+  }
+
+  private async markSynced(entity: string, isLast: boolean): Promise<void> {
+    if (!isLast) return;
+    const cached = await idbGet<CachedMemory>('memories', entity);
+    if (cached?.sync_state) {
+      const { sync_state: _syncState, ...memory } = cached;
+      await idbPut('memories', memory);
+    }
+  }
+
+  /** Memories the old localStorage fallback kept (with Date.now() ids) are queued once as real inserts */
+  private async migrateLegacyMemories(userId: string): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    try {
+      const legacy = JSON.parse(stored) as { title?: string; content?: string; date?: string; recipient?: string }[];
+      for (const memory of Array.isArray(legacy) ? legacy : []) {
+        if (!memory.title && !memory.content) continue;
+        const row = {
+          id: uuidv4(),
+          user_id: userId,
+          title: memory.title || 'Untitled memory',
+          text: memory.content || '',
+          memory_date: /^\d{4}-\d{2}-\d{2}/.test(memory.date || '') ? memory.date!.slice(0, 10) : null,
+          recipient: memory.recipient || 'private',
+          tags: [],
+        };
+        await this.cacheLocalMemory(row);
+        await this.enqueue<MemoryInsertPayload>('memory.insert', userId, row.title, { row });
+      }
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error migrating offline memories from localStorage:', error);
+    }
+  }
+}
+
+export const syncService = new SyncService();
@@ -0,0 +1,119 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TimeCapsule, TimeCapsuleDraft, TrusteedTimeCapsule } from '@/types/timeCapsule';
+
+/**
+ * Time capsules are written directly to `time_capsules` (RLS: owner only,
+ * and only while sealed). Releases, notifications and the recipient/trustee
+ * views go through the time-capsules edge function.
+ */
+
+export interface TimeCapsuleOverview {
+  released: number; // Capsules released by this sync
+  sent: TimeCapsule[];
+  received: TimeCapsule[];
+  trusteed: TrusteedTimeCapsule[];
+}
+
+const normalizeDraft = (draft: TimeCapsuleDraft) => ({
+  title: draft.title.trim(),
+  content: draft.content.trim(),
+  release_trigger: draft.release_trigger,
+  release_date: draft.release_trigger === 'date' ? draft.release_date ?? null : null,
+  recipient_user_id: draft.recipient_user_id || null,
+  recipient_name: draft.recipient_name?.trim() || null,
+  recipient_phone: draft.recipient_phone?.replace(/[^\d+]/g, '') || null,
+  recipient_birth_date: draft.release_trigger === 'recipient_age' ? draft.recipient_birth_date ?? null : null,
+  release_age: draft.release_trigger === 'recipient_age' ? draft.release_age ?? null : null,
+  trustee_user_id: draft.release_trigger === 'on_passing' ? draft.trustee_user_id ?? null : null,
+});
+
+class TimeCapsuleService {
+  async createCapsule(userId: string, draft: TimeCapsuleDraft): Promise<TimeCapsule> {
+    const { data, error } = await supabase
+      .from('time_capsules')
+      .insert({ user_id: userId, ...normalizeDraft(draft) })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as unknown as TimeCapsule;
+  }
+
+  async updateCapsule(capsuleId: string, draft: TimeCapsuleDraft): Promise<TimeCapsule> {
+    const { data, error } = await supabase
+      .from('time_capsules')
+      .update(normalizeDraft(draft))
+      .eq('id', capsuleId)
+      .eq('status', 'sealed')
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as unknown as TimeCapsule;
+  }
+
+  async deleteCapsule(capsuleId: string): Promise<void> {
+    const { error } = await supabase
+      .from('time_capsules')
+      .delete()
+      .eq('id', capsuleId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Release anything that is due, then list sent, received and trusteed capsules
+   */
+  async getOverview(): Promise<TimeCapsuleOverview> {
+    const { data, error } = await supabase.functions.invoke('time-capsules', {
+      body: { action: 'sync' }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return {
+      released: data.released ?? 0,
+      sent: data.sent || [],
+      received: data.received || [],
+      trusteed: data.trusteed || [],
+    };
+  }
+
+  /**
+   * Trustee confirms the owner's passing and releases their "on my passing" capsules
+   */
+  async releaseOnPassing(ownerId: string): Promise<number> {
+    const { data, error } = await supabase.functions.invoke('time-capsules', {
+      body: { action: 'release_on_passing', ownerId }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.released ?? 0;
+  }
+
+  async markOpened(capsuleId: string): Promise<void> {
+    const { data, error } = await supabase.functions.invoke('time-capsules', {
+      body: { action: 'open', capsuleId }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  }
+
+  /**
+   * Released capsules addressed to the user that haven't been read yet
+   */
+  async countUnopened(userId: string): Promise<number> {
+    const { count } = await supabase
+      .from('time_capsules')
+      .select('id', { count: 'exact', head: true })
+      .eq('recipient_user_id', userId)
+      .eq('status', 'released')
+      .is('recipient_opened_at', null);
+
+    return count || 0;
+  }
+}
+
+export const timeCapsuleService = new TimeCapsuleService();
@@ -0,0 +1,633 @@
+import { Conversation, VoiceConversation } from '@elevenlabs/client';
+import Vapi from '@vapi-ai/web';
+import { supabase } from '@/integrations/supabase/client';
+import type { SystemConfiguration } from '@/services/configurationService';
+import { SOLIN_TOOL_DEFINITIONS } from '@/services/voiceAgentTools';
+import { AudioRecorder, encodeAudioForAPI, playAudioData } from '@/utils/RealtimeAudio';
+import type {
+  VoiceAgentSession,
+  VoiceClientTools,
+  VoiceConnectOptions,
+  VoiceSessionCallbacks,
+  VoiceSessionProvider,
+  VoiceSessionStatus,
+  VoiceTranscriptEvent,
+} from '@/types/voiceAgent';
+
+/**
+ * Voice agent sessions. Each provider adapter turns its SDK's events into the
+ * same VoiceAgentSession surface: status and speaking changes, transcript
+ * events, an agent audio stream, and client tool calls dispatched by name to
+ * whatever tools the caller registered. Session credentials and personalised
+ * prompts come from each provider's edge function, as before.
+ */
+
+export interface VoiceSessionInit {
+  config: SystemConfiguration;
+  /** Read on every call, so tool handlers can close over fresh state */
+  getTools: () => VoiceClientTools;
+  callbacks: VoiceSessionCallbacks;
+}
+
+export const VOICE_SESSION_PROVIDERS: VoiceSessionProvider[] = ['elevenlabs', 'openai', 'vapi', 'mock'];
+
+const PROVIDER_OVERRIDE_KEY = 'voice_provider_override';
+const CONNECT_TIMEOUT_MS = 20000;
+const DEFAULT_PROMPT = 'You are Solin, a warm and empathetic AI biographer.';
+const DEFAULT_FIRST_MESSAGE = 'Hello! How can I help you today?';
+const REALTIME_RELAY_URL = 'wss://gulydhhzwlltkxbfnclu.supabase.co/functions/v1/openai-realtime';
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timeoutId: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = window.setTimeout(() => reject(new Error('Connection timed out')), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+function parseToolArguments(args: unknown): unknown {
+  if (typeof args !== 'string') return args ?? {};
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+abstract class BaseVoiceSession implements VoiceAgentSession {
+  abstract readonly provider: VoiceSessionProvider;
+  private currentStatus: VoiceSessionStatus = 'disconnected';
+  private speaking = false;
+  private agentAudioStream: MediaStream | null = null;
+
+  constructor(protected readonly init: VoiceSessionInit) {}
+
+  get status(): VoiceSessionStatus {
+    return this.currentStatus;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  abstract connect(options?: VoiceConnectOptions): Promise<void>;
+  abstract disconnect(): Promise<void>;
+  abstract sendContext(text: string): void;
+
+  setVolume(_volume: number): void {
+    // Providers without output volume control ignore this
+  }
+
+  getAgentAudioStream(): MediaStream | null {
+    return this.agentAudioStream;
+  }
+
+  protected get config(): SystemConfiguration {
+    return this.init.config;
+  }
+
+  protected get callbacks(): VoiceSessionCallbacks {
+    return this.init.callbacks;
+  }
+
+  protected setStatus(status: VoiceSessionStatus) {
+    if (status === this.currentStatus) return;
+    this.currentStatus = status;
+    this.callbacks.onStatusChange?.(status);
+  }
+
+  protected setSpeaking(speaking: boolean) {
+    if (speaking === this.speaking) return;
+    this.speaking = speaking;
+    this.callbacks.onSpeakingChange?.(speaking);
+  }
+
+  protected handleConnected() {
+    if (this.currentStatus === 'connected') return;
+    this.setStatus('connected');
+    this.callbacks.onConnect?.();
+  }
+
+  /** Safe to call more than once; onDisconnect only fires for a session that had connected */
+  protected handleDisconnected() {
+    if (this.currentStatus === 'disconnected') return;
+    const wasConnected = this.currentStatus !== 'connecting';
+    this.setSpeaking(false);
+    this.agentAudioStream = null;
+    this.setStatus('disconnected');
+    if (wasConnected) this.callbacks.onDisconnect?.();
+  }
+
+  protected emitTranscript(event: VoiceTranscriptEvent) {
+    if (!event.text) return;
+    this.callbacks.onTranscript?.(event);
+  }
+
+  protected setAgentAudioStream(stream: MediaStream) {
+    this.agentAudioStream = stream;
+    this.callbacks.onAgentAudioStream?.(stream);
+  }
+
+  protected toolNames(): string[] {
+    return Object.keys(this.init.getTools());
+  }
+
+  /** Run a client tool and return its result as the text the agent hears */
+  protected async dispatchTool(name: string, parameters: unknown): Promise<string> {
+    const tool = this.init.getTools()[name];
+    if (!tool) {
+      console.warn(`Voice agent called unknown tool: ${name}`);
+      return `Unknown tool: ${name}`;
+    }
+
+    let result: string;
+    try {
+      const value = await tool((parameters ?? {}) as never);
+      result = value === undefined || value === null ? '' : String(value);
+    } catch (error) {
+      console.error(`Voice tool ${name} failed:`, error);
+      result = `The ${name} tool failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+    this.callbacks.onToolCall?.(name, parameters, result);
+    return result;
+  }
+}
+
+// ----- ElevenLabs Conversational AI -----
+
+class ElevenLabsVoiceSession extends BaseVoiceSession {
+  readonly provider = 'elevenlabs' as const;
+  private conversation: Conversation | null = null;
+
+  async connect(options: VoiceConnectOptions = {}) {
+    this.setStatus('connecting');
+    try {
+      const { data, error } = await supabase.functions.invoke('elevenlabs-agent-token', {
+        body: { agentId: this.config.elevenlabs_agent_id, mode: options.mode },
+      });
+      if (error) throw new Error(`Edge function failed: ${error.message || 'Unknown error'}`);
+      if (!data?.signed_url) throw new Error('Failed to get signed URL from elevenlabs-agent-token function');
+
+      const clientTools = Object.fromEntries(
+        this.toolNames().map(name => [name, (parameters: unknown) => this.dispatchTool(name, parameters)])
+      );
+
+      this.conversation = await withTimeout(Conversation.startSession({
+        signedUrl: data.signed_url,
+        overrides: {
+          agent: {
+            prompt: { prompt: data.personalizedPrompt || DEFAULT_PROMPT },
+            firstMessage: data.firstMessage || DEFAULT_FIRST_MESSAGE,
+          },
+        },
+        clientTools,
+        onConnect: () => this.handleConnected(),
+        onDisconnect: () => {
+          this.conversation = null;
+          this.handleDisconnected();
+        },
+        onError: (message) => this.callbacks.onError?.(message),
+        onMessage: ({ message, source }) => this.emitTranscript({ speaker: source, text: message, final: true }),
+        onModeChange: ({ mode }) => this.setSpeaking(mode === 'speaking'),
+        onAudio: (base64Audio) => this.callbacks.onAgentAudioChunk?.(base64Audio),
+      }), CONNECT_TIMEOUT_MS);
+
+      this.handleConnected();
+      this.tapOutput();
+    } catch (error) {
+      this.handleDisconnected();
+      throw error;
+    }
+  }
+
+  async disconnect() {
+    if (!this.conversation) return;
+    this.setStatus('disconnecting');
+    await this.conversation.endSession();
+  }
+
+  sendContext(text: string) {
+    this.conversation?.sendContextualUpdate(text);
+  }
+
+  setVolume(volume: number) {
+    this.conversation?.setVolume({ volume });
+  }
+
+  /**
+   * Branch the SDK's own output gain into a MediaStream. Taking its <audio>
+   * elements with createMediaElementSource instead breaks the connection.
+   */
+  private tapOutput() {
+    if (!(this.conversation instanceof VoiceConversation)) return;
+    const { output } = this.conversation;
+    const destination = output.context.createMediaStreamDestination();
+    output.gain.connect(destination);
+    this.setAgentAudioStream(destination.stream);
+  }
+}
+
+// ----- OpenAI Realtime (through the openai-realtime relay) -----
+
+/** The server events we act on; the relay reports its own failures as { error } without a type */
+interface RealtimeServerEvent {
+  type?: string;
+  delta?: string;
+  transcript?: string;
+  name?: string;
+  call_id?: string;
+  arguments?: string;
+  error?: { message?: string } | string;
+}
+
+class OpenAIRealtimeSession extends BaseVoiceSession {
+  readonly provider = 'openai' as const;
+  private ws: WebSocket | null = null;
+  private audioContext: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private recorder: AudioRecorder | null = null;
+
+  async connect(options: VoiceConnectOptions = {}) {
+    this.setStatus('connecting');
+    try {
+      const { data: sessionData, error } = await supabase.functions.invoke('openai-realtime-session', {
+        body: { mode: options.mode },
+      });
+      if (error || !sessionData) throw new Error('Failed to fetch session data');
+
+      this.audioContext = new AudioContext({ sampleRate: 24000 });
+      this.output = this.audioContext.createGain();
+      this.output.connect(this.audioContext.destination);
+      const agentStream = this.audioContext.createMediaStreamDestination();
+      this.output.connect(agentStream);
+
+      const ws = new WebSocket(`${REALTIME_RELAY_URL}?model=${encodeURIComponent(this.config.openai_model)}`);
+      this.ws = ws;
+      ws.onmessage = (event) => {
+        this.handleEvent(JSON.parse(event.data)).catch(error => console.error('Realtime event failed:', error));
+      };
+      ws.onerror = (error) => this.callbacks.onError?.(error);
+      ws.onclose = () => this.teardown();
+
+      await withTimeout(new Promise<void>((resolve, reject) => {
+        const onCreated = (event: MessageEvent) => {
+          if (JSON.parse(event.data).type !== 'session.created') return;
+          ws.removeEventListener('message', onCreated);
+          resolve();
+        };
+        ws.addEventListener('message', onCreated);
+        ws.addEventListener('close', () => reject(new Error('Connection closed before the session started')), { once: true });
+      }), CONNECT_TIMEOUT_MS);
+
+      const toolNames = this.toolNames();
+      this.send({
+        type: 'session.update',
+        session: {
+          modalities: ['text', 'audio'],
+          instructions: sessionData.systemPrompt || DEFAULT_PROMPT,
+          voice: 'alloy',
+          input_audio_format: 'pcm16',
+          output_audio_format: 'pcm16',
+          input_audio_transcription: { model: 'whisper-1' },
+          turn_detection: {
+            type: 'server_vad',
+            threshold: 0.5,
+            prefix_padding_ms: 300,
+            silence_duration_ms: 1000,
+          },
+          tools: SOLIN_TOOL_DEFINITIONS
+            .filter(definition => toolNames.includes(definition.name))
+            .map(definition => ({ type: 'function', ...definition })),
+          tool_choice: 'auto',
+          temperature: 0.8,
+          max_response_output_tokens: 'inf',
+        },
+      });
+      this.send({
+        type: 'response.create',
+        response: {
+          instructions: `Greet the user by saying: "${sessionData.firstMessage || DEFAULT_FIRST_MESSAGE}"`,
+        },
+      });
+
+      this.recorder = new AudioRecorder((audio) => {
+        this.send({ type: 'input_audio_buffer.append', audio: encodeAudioForAPI(audio) });
+      });
+      await this.recorder.start();
+
+      this.handleConnected();
+      this.setAgentAudioStream(agentStream.stream);
+    } catch (error) {
+      this.teardown();
+      throw error;
+    }
+  }
+
+  async disconnect() {
+    if (!this.ws) return;
+    this.setStatus('disconnecting');
+    this.teardown();
+  }
+
+  sendContext(text: string) {
+    this.send({
+      type: 'conversation.item.create',
+      item: { type: 'message', role: 'system', content: [{ type: 'input_text', text }] },
+    });
+  }
+
+  setVolume(volume: number) {
+    if (this.output) this.output.gain.value = volume;
+  }
+
+  private send(event: Record<string, unknown>) {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(event));
+    }
+  }
+
+  private async handleEvent(event: RealtimeServerEvent) {
+    switch (event.type) {
+      case 'response.audio.delta':
+        this.setSpeaking(true);
+        if (!event.delta) break;
+        this.callbacks.onAgentAudioChunk?.(event.delta);
+        if (this.audioContext && this.output) {
+          await playAudioData(this.audioContext, base64ToBytes(event.delta), this.output);
+        }
+        break;
+      case 'response.audio.done':
+        this.setSpeaking(false);
+        break;
+      case 'response.audio_transcript.delta':
+        this.emitTranscript({ speaker: 'ai', text: event.delta ?? '', final: false });
+        break;
+      case 'response.audio_transcript.done':
+        this.emitTranscript({ speaker: 'ai', text: event.transcript ?? '', final: true });
+        break;
+      case 'conversation.item.input_audio_transcription.completed':
+        this.emitTranscript({ speaker: 'user', text: (event.transcript || '').trim(), final: true });
+        break;
+      case 'response.function_call_arguments.done': {
+        const output = await this.dispatchTool(event.name ?? '', parseToolArguments(event.arguments));
+        this.send({
+          type: 'conversation.item.create',
+          item: { type: 'function_call_output', call_id: event.call_id, output },
+        });
+        this.send({ type: 'response.create' });
+        break;
+      }
+      case 'error':
+        this.callbacks.onError?.(typeof event.error === 'string' ? event.error : event.error?.message);
+        break;
+      default:
+        if (!event.type && event.error) this.callbacks.onError?.(event.error);
+    }
+  }
+
+  private teardown() {
+    this.recorder?.stop();
+    this.recorder = null;
+    const ws = this.ws;
+    this.ws = null;
+    if (ws && ws.readyState !== WebSocket.CLOSED) ws.close();
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.output = null;
+    this.handleDisconnected();
+  }
+}
+
+// ----- Vapi -----
+
+/** The client messages we act on: final transcripts and tool calls (current and legacy form) */
+interface VapiClientMessage {
+  type?: string;
+  role?: string;
+  transcriptType?: string;
+  transcript?: string;
+  toolCallList?: { id: string; function?: { name?: string; arguments?: unknown } }[];
+  functionCall?: { name: string; parameters?: unknown };
+}
+
+class VapiVoiceSession extends BaseVoiceSession {
+  readonly provider = 'vapi' as const;
+  private vapi: Vapi | null = null;
+
+  async connect(options: VoiceConnectOptions = {}) {
+    const publicKey = import.meta.env.VITE_VAPI_PUBLIC_KEY;
+    if (!publicKey) {
+      throw new Error('VAPI public key not configured. Please add VITE_VAPI_PUBLIC_KEY to environment variables.');
+    }
+
+    this.setStatus('connecting');
+    const vapi = new Vapi(publicKey);
+    this.vapi = vapi;
+
+    vapi.on('call-start', () => {
+      this.handleConnected();
+      this.captureAgentAudio();
+    });
+    vapi.on('call-end', () => {
+      this.vapi = null;
+      this.handleDisconnected();
+    });
+    vapi.on('speech-start', () => this.setSpeaking(true));
+    vapi.on('speech-end', () => this.setSpeaking(false));
+    vapi.on('message', (message) => {
+      this.handleMessage(message).catch(error => console.error('Vapi message failed:', error));
+    });
+    vapi.on('error', (error) => this.callbacks.onError?.(error?.message || error));
+
+    try {
+      const { data: sessionData, error } = await supabase.functions.invoke('vapi-session', {
+        body: { mode: options.mode },
+      });
+      if (error) {
+        console.warn('Failed to fetch session data, continuing with defaults:', error);
+      }
+
+      await withTimeout(vapi.start(this.config.vapi_assistant_id, {
+        // The assistant keeps its configured prompt; we pass who is talking
+        metadata: sessionData ? { userName: sessionData.userName, context: sessionData.context } : undefined,
+      }), CONNECT_TIMEOUT_MS);
+    } catch (error) {
+      this.vapi = null;
+      await vapi.stop().catch(() => {});
+      this.handleDisconnected();
+      throw error;
+    }
+  }
+
+  async disconnect() {
+    if (!this.vapi) return;
+    this.setStatus('disconnecting');
+    const vapi = this.vapi;
+    this.vapi = null;
+    await vapi.stop();
+    this.handleDisconnected();
+  }
+
+  sendContext(text: string) {
+    this.vapi?.send({
+      type: 'add-message',
+      message: { role: 'system', content: text },
+      triggerResponseEnabled: false,
+    });
+  }
+
+  private async handleMessage(message: VapiClientMessage) {
+    if (message?.type === 'transcript' && message.transcriptType === 'final') {
+      this.emitTranscript({
+        speaker: message.role === 'user' ? 'user' : 'ai',
+        text: message.transcript ?? '',
+        final: true,
+      });
+    } else if (message?.type === 'tool-calls') {
+      for (const call of message.toolCallList || []) {
+        const result = await this.dispatchTool(call.function?.name ?? '', parseToolArguments(call.function?.arguments));
+        this.vapi?.send({
+          type: 'add-message',
+          message: { role: 'tool', tool_call_id: call.id, content: result },
+        });
+      }
+    } else if (message?.type === 'function-call' && message.functionCall) {
+      const { name, parameters } = message.functionCall;
+      const result = await this.dispatchTool(name, parseToolArguments(parameters));
+      this.vapi?.send({
+        type: 'add-message',
+        message: { role: 'system', content: `Result of ${name}: ${result}` },
+      });
+    }
+  }
+
+  /** The assistant is the remote participant in Vapi's Daily call */
+  private captureAgentAudio() {
+    const participants = this.vapi?.getDailyCallObject()?.participants();
+    const assistant = participants && Object.values(participants).find(participant => !participant.local);
+    const track = assistant?.tracks?.audio?.persistentTrack;
+    if (track) this.setAgentAudioStream(new MediaStream([track]));
+  }
+}
+
+// ----- Local mock, for e2e tests -----
+
+/** Test controls the mock session puts on window while it is connected */
+export interface MockVoiceAgentControls {
+  userSays: (text: string) => void;
+  agentSays: (text: string) => void;
+  callTool: (name: string, parameters?: Record<string, unknown>) => Promise<string>;
+  hangUp: () => void;
+  contexts: string[];
+}
+
+declare global {
+  interface Window {
+    __mockVoiceAgent?: MockVoiceAgentControls;
+  }
+}
+
+const MOCK_CONNECT_DELAY_MS = 300;
+const MOCK_SPEAKING_MS = 400;
+export const MOCK_GREETING = 'Hello! This is the test voice agent. What would you like to talk about?';
+
+class MockVoiceSession extends BaseVoiceSession {
+  readonly provider = 'mock' as const;
+  private audioContext: AudioContext | null = null;
+  private speakingTimer: number | undefined;
+
+  async connect() {
+    this.setStatus('connecting');
+    await new Promise(resolve => setTimeout(resolve, MOCK_CONNECT_DELAY_MS));
+
+    this.audioContext = new AudioContext();
+    const agentStream = this.audioContext.createMediaStreamDestination();
+    window.__mockVoiceAgent = {
+      userSays: (text) => this.emitTranscript({ speaker: 'user', text, final: true }),
+      agentSays: (text) => this.speak(text),
+      callTool: (name, parameters = {}) => this.dispatchTool(name, parameters),
+      hangUp: () => this.teardown(),
+      contexts: [],
+    };
+
+    this.handleConnected();
+    this.setAgentAudioStream(agentStream.stream);
+    this.speak(MOCK_GREETING);
+  }
+
+  async disconnect() {
+    if (this.status === 'disconnected') return;
+    this.setStatus('disconnecting');
+    this.teardown();
+  }
+
+  sendContext(text: string) {
+    window.__mockVoiceAgent?.contexts.push(text);
+  }
+
+  /** Streams the words as partial events, like a real agent, then the final turn */
+  private speak(text: string) {
+    this.setSpeaking(true);
+    const words = text.split(' ');
+    words.forEach((word, index) => {
+      this.emitTranscript({ speaker: 'ai', text: index === 0 ? word : ` ${word}`, final: false });
+    });
+    this.emitTranscript({ speaker: 'ai', text, final: true });
+
+    window.clearTimeout(this.speakingTimer);
+    this.speakingTimer = window.setTimeout(() => this.setSpeaking(false), MOCK_SPEAKING_MS);
+  }
+
+  private teardown() {
+    window.clearTimeout(this.speakingTimer);
+    delete window.__mockVoiceAgent;
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.handleDisconnected();
+  }
+}
+
+/**
+ * The admin-configured provider. Dev builds, and builds with
+ * VITE_ALLOW_VOICE_PROVIDER_OVERRIDE, honour localStorage
+ * 'voice_provider_override' so e2e tests can select the mock.
+ */
+export function resolveVoiceProvider(config: SystemConfiguration): VoiceSessionProvider {
+  if (import.meta.env.DEV || import.meta.env.VITE_ALLOW_VOICE_PROVIDER_OVERRIDE === 'true') {
+    const override = localStorage.getItem(PROVIDER_OVERRIDE_KEY) as VoiceSessionProvider | null;
+    if (override && VOICE_SESSION_PROVIDERS.includes(override)) return override;
+  }
+  return config.voice_provider;
+}
+
+/** What the configuration is missing before this provider can connect, or null */
+export function voiceProviderProblem(provider: VoiceSessionProvider, config: SystemConfiguration): string | null {
+  if (provider === 'elevenlabs' && !config.elevenlabs_agent_id) return 'ElevenLabs agent ID is not configured';
+  if (provider === 'vapi' && !config.vapi_assistant_id) return 'Vapi assistant ID is not configured';
+  if (!VOICE_SESSION_PROVIDERS.includes(provider)) return `Unknown voice provider: ${provider}`;
+  return null;
+}
+
+export function createVoiceAgentSession(provider: VoiceSessionProvider, init: VoiceSessionInit): VoiceAgentSession {
+  switch (provider) {
+    case 'elevenlabs':
+      return new ElevenLabsVoiceSession(init);
+    case 'openai':
+      return new OpenAIRealtimeSession(init);
+    case 'vapi':
+      return new VapiVoiceSession(init);
+    case 'mock':
+      return new MockVoiceSession(init);
+    default:
+      throw new Error(`Unknown voice provider: ${provider}`);
+  }
+}
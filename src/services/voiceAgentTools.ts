@@ -0,0 +1,166 @@
+import type { VoiceToolDefinition } from '@/types/voiceAgent';
+
+/**
+ * Solin's client tools. The handlers live in Index.tsx; these declarations are
+ * sent to providers that take tool schemas at session start (OpenAI Realtime).
+ * ElevenLabs and Vapi agents declare the same tools, by the same names, in
+ * their dashboards.
+ */
+export const SOLIN_TOOL_DEFINITIONS: VoiceToolDefinition[] = [
+  {
+    name: 'initialize_session',
+    description: 'Use first in every conversation to offer the user a mode: daily journal, memory creation, memory browsing or general chat.',
+    parameters: {
+      type: 'object',
+      properties: {
+        session_mode: { type: 'string', enum: ['daily_journal', 'memory_creation', 'memory_browsing', 'general_chat'] },
+        user_preference: { type: 'string', description: 'What the user said they want, in their words' },
+      },
+      required: ['session_mode'],
+    },
+  },
+  {
+    name: 'save_memory',
+    description: 'Save a memory the user shared. It appears on the Timeline once it has a title, content, date and location.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        content: { type: 'string', description: 'The memory in the user\'s words' },
+        tags: { type: 'array', items: { type: 'string' } },
+        memory_date: { type: 'string', description: 'YYYY-MM-DD, YYYY-MM, YYYY or a natural date' },
+        memory_location: { type: 'string' },
+      },
+      required: ['title', 'content'],
+    },
+  },
+  {
+    name: 'save_biography_topic',
+    description: 'Save general biographical information about the user, such as personality, background or beliefs.',
+    parameters: {
+      type: 'object',
+      properties: {
+        topic_category: { type: 'string' },
+        topic_title: { type: 'string' },
+        content: { type: 'string' },
+        context_notes: { type: 'string' },
+      },
+      required: ['topic_category', 'topic_title', 'content'],
+    },
+  },
+  {
+    name: 'browse_memories',
+    description: 'Search and browse the user\'s memories, ranked by meaning. Can be narrowed by time period, location, tags and people.',
+    parameters: {
+      type: 'object',
+      properties: {
+        search_query: { type: 'string' },
+        time_period: { type: 'string', enum: ['recent', 'this_year', 'last_year', 'older'] },
+        location: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        people: { type: 'array', items: { type: 'string' } },
+        limit: { type: 'number' },
+        action: { type: 'string', enum: ['search', 'browse_recent', 'browse_by_topic'] },
+      },
+    },
+  },
+  {
+    name: 'get_memory_details',
+    description: 'Get the full details of one memory by its ID.',
+    parameters: {
+      type: 'object',
+      properties: {
+        memory_id: { type: 'string' },
+      },
+      required: ['memory_id'],
+    },
+  },
+  {
+    name: 'edit_memory',
+    description: 'Change an existing memory: modify it, add to it, or replace one section.',
+    parameters: {
+      type: 'object',
+      properties: {
+        memory_id: { type: 'string' },
+        edit_type: { type: 'string', enum: ['modify', 'add_to', 'replace_section'] },
+        new_content: { type: 'string' },
+        section_description: { type: 'string', description: 'For replace_section, which part to replace' },
+      },
+      required: ['memory_id', 'edit_type', 'new_content'],
+    },
+  },
+  {
+    name: 'voice_search',
+    description: 'Find past conversations by searching voice recording transcripts, summaries or topics.',
+    parameters: {
+      type: 'object',
+      properties: {
+        search_query: { type: 'string' },
+        search_type: { type: 'string', enum: ['transcript', 'summary', 'topics'] },
+        limit: { type: 'number' },
+      },
+      required: ['search_query'],
+    },
+  },
+  {
+    name: 'play_voice_recording',
+    description: 'Play a past recording, or read its transcript or summary. Use a recording_number from the last voice_search.',
+    parameters: {
+      type: 'object',
+      properties: {
+        recording_id: { type: 'string' },
+        recording_number: { type: 'number' },
+        action: { type: 'string', enum: ['play', 'transcript', 'summary'] },
+      },
+    },
+  },
+  {
+    name: 'retrieve_memory',
+    description: 'Basic memory search. Prefer browse_memories.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        limit: { type: 'number' },
+      },
+    },
+  },
+  {
+    name: 'get_conversation_suggestions',
+    description: 'Get personalised questions to ask, based on the session mode and the user\'s memories.',
+    parameters: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['starter', 'followup', 'reflection'] },
+        context: { type: 'string' },
+        recent_memory_id: { type: 'string' },
+      },
+      required: ['type'],
+    },
+  },
+  {
+    name: 'close_conversation',
+    description: 'Use when the user wants to end the conversation.',
+    parameters: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        memory_count: { type: 'number' },
+        final_message: { type: 'string' },
+      },
+    },
+  },
+  {
+    name: 'edit_biography',
+    description: 'Help the user change their AI-generated life story.',
+    parameters: {
+      type: 'object',
+      properties: {
+        modification_request: { type: 'string' },
+        focus_area: { type: 'string' },
+        tone_adjustment: { type: 'string' },
+      },
+      required: ['modification_request'],
+    },
+  },
+];
@@ -8,6 +8,8 @@
 import { supabase } from '@/integrations/supabase/client';
 import { logVoiceRecording } from '@/services/diagnosticLogger';
 import { toast } from '@/hooks/use-toast';
+import type { RecordingTranscription } from '@/types/speech';
+import { buildTranscriptSegments } from '@/lib/transcriptSegments';
 
 export interface RecordingConfig {
   mimeType: string;
@@ -400,6 +402,10 @@ export class VoiceRecordingService {
         .map(entry => `[${Math.floor(entry.timestamp / 1000)}s] ${entry.speaker.toUpperCase()}: ${entry.text}`)
         .join('\n');
       const plainText = session.conversationTranscript.map(entry => entry.text).join(' ');
+      const transcriptSegments = buildTranscriptSegments(
+        session.conversationTranscript.map(entry => ({ at: entry.timestamp / 1000, speaker: entry.speaker, text: entry.text })),
+        duration
+      );
       const topics = this.extractTopics(plainText);
       const summary = this.generateSummary(plainText, session.memoryIds.length);
 
@@ -443,6 +449,7 @@ export class VoiceRecordingService {
           sample_rate: this.DEFAULT_CONFIG.sampleRate,
           bit_rate: this.DEFAULT_CONFIG.audioBitsPerSecond,
           transcript_text: fullTranscript,
+          transcript_segments: transcriptSegments,
           conversation_summary: summary,
           memory_ids: session.memoryIds,
           memory_titles: session.memoryTitles.length > 0 ? session.memoryTitles : null,
@@ -621,56 +628,17 @@ export class VoiceRecordingService {
   }
 
   /**
-   * Cleanup expired recordings (should be run periodically)
+   * Transcribe a recording's audio now rather than waiting for the queue.
+   * Stores word-level timings; transcript_text is only filled in when empty.
    */
-  async cleanupExpiredRecordings(): Promise<number> {
-    try {
-      console.log('🧹 Cleaning up expired voice recordings...');
-
-      // Find expired recordings
-      const { data: expiredRecordings, error: fetchError } = await supabase
-        .from('voice_recordings')
-        .select('id, storage_path')
-        .lt('expires_at', new Date().toISOString());
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      if (!expiredRecordings || expiredRecordings.length === 0) {
-        console.log('✅ No expired recordings to cleanup');
-        return 0;
-      }
-
-      console.log(`🗑️ Found ${expiredRecordings.length} expired recordings`);
-
-      // Delete from storage
-      const storagePaths = expiredRecordings.map(r => r.storage_path);
-      const { data: deleteData, error: deleteError } = await supabase.storage
-        .from(this.STORAGE_BUCKET)
-        .remove(storagePaths);
-
-      if (deleteError) {
-        console.error('⚠️ Some files failed to delete from storage:', deleteError);
-      }
-
-      // Delete from database
-      const { error: dbDeleteError } = await supabase
-        .from('voice_recordings')
-        .delete()
-        .lt('expires_at', new Date().toISOString());
-
-      if (dbDeleteError) {
-        throw dbDeleteError;
-      }
-
-      console.log(`✅ Cleaned up ${expiredRecordings.length} expired recordings`);
-      return expiredRecordings.length;
+  async transcribe(recordingId: string): Promise<RecordingTranscription> {
+    const { data, error } = await supabase.functions.invoke('speech', {
+      body: { action: 'transcribe_recording', recordingId },
+    });
 
-    } catch (error) {
-      console.error('❌ Failed to cleanup expired recordings:', error);
-      throw error;
-    }
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data.recording as RecordingTranscription;
   }
 }
 
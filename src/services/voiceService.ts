@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { SynthesizedSpeech } from '@/types/speech';
 
 interface VoiceOptions {
   voiceId?: string;
@@ -127,30 +128,34 @@ class VoiceService {
     // Stop any currently playing audio
     this.stop();
     console.log('🔊 SPEAK() function was called');
-    console.log('🧪 Using speakWithElevenLabs...');
-    // Force ElevenLabs TTS usage as requested by Rishi
-    console.log('🎤 Forcing ElevenLabs TTS');
-    return this.speakWithElevenLabs(text, options);
+    try {
+      return await this.speakWithProvider(text, options);
+    } catch (error) {
+      // Every configured provider failed (e.g. no API key and no self-hosted server)
+      if (!('speechSynthesis' in window)) throw error;
+      console.warn('⚠️ Speech providers unavailable, falling back to browser TTS');
+      return this.speakWithBrowser(text);
+    }
   }
-    
-  private async speakWithElevenLabs(text: string, options: VoiceOptions = {}): Promise<void> {
+
+  /** Speech from the providers configured in speech_config (ElevenLabs, self-hosted Piper) */
+  private async speakWithProvider(text: string, options: VoiceOptions = {}): Promise<void> {
     try {
       const voiceId = options.voiceId || VOICES[0].id;
       const voiceSettings = options.voiceSettings || this.getVoiceSettings(voiceId);
       
       const requestPayload = {
+        action: 'synthesize',
         text,
         voiceId,
         model: options.model || 'eleven_turbo_v2_5',
         voiceSettings
       };
 
-      console.log('🎤 Calling ElevenLabs TTS with voice:', VOICES.find(v => v.id === voiceId)?.name || 'Unknown');
+      console.log('🎤 Calling speech function with voice:', VOICES.find(v => v.id === voiceId)?.name || 'Unknown');
       console.log('🔧 Voice settings:', voiceSettings);
-      console.log('📤 Request payload:', requestPayload);
 
-      // Call our Supabase edge function (auto-uses the correct project via the Supabase client)
-      const { data, error } = await supabase.functions.invoke('elevenlabs-tts', {
+      const { data, error } = await supabase.functions.invoke('speech', {
         body: requestPayload,
       });
 
@@ -158,16 +163,12 @@ class VoiceService {
         console.error('❌ Edge function error:', error);
         throw new Error(typeof error === 'string' ? error : 'Edge function call failed');
       }
+      if (data?.error) throw new Error(data.error);
 
-      // Get the base64 audio data (function may return text or JSON)
-      let base64Audio: string | undefined;
-      if (typeof data === 'string') {
-        base64Audio = data;
-      } else if (data && typeof data === 'object' && 'audioContent' in data) {
-        base64Audio = (data as any).audioContent;
-      }
+      const speech = data as SynthesizedSpeech;
+      const base64Audio = speech?.audio;
 
-      console.log('🔍 Received audio data type:', typeof base64Audio);
+      console.log('🔍 Audio from provider:', speech?.provider, speech?.mimeType);
       console.log('🔍 Audio data length:', base64Audio?.length ?? 0);
       
       if (!base64Audio || base64Audio.length === 0) {
@@ -180,7 +181,7 @@ class VoiceService {
       for (let i = 0; i < binaryString.length; i++) {
         bytes[i] = binaryString.charCodeAt(i);
       }
-      const audioBlob = new Blob([bytes], { type: 'audio/mpeg' });
+      const audioBlob = new Blob([bytes], { type: speech.mimeType || 'audio/mpeg' });
       
       console.log('🎵 Created audio blob, size:', audioBlob.size, 'bytes');
       
@@ -198,13 +199,13 @@ class VoiceService {
       this.currentAudio.addEventListener('canplay', () => console.log('✅ Audio can play'));
       this.currentAudio.addEventListener('error', (e) => console.error('❌ Audio element error:', e));
       
-      console.log('✅ Playing ElevenLabs audio');
+      console.log(`✅ Playing ${speech.provider} audio`);
       
       return new Promise((resolve, reject) => {
         if (this.currentAudio) {
           this.currentAudio.onended = () => {
             URL.revokeObjectURL(audioUrl);
-            console.log('🎤 ElevenLabs audio finished');
+            console.log('🎤 Provider audio finished');
             resolve();
           };
           this.currentAudio.onerror = (e) => {
@@ -235,13 +236,26 @@ class VoiceService {
         }
       });
     } catch (error) {
-      console.error('❌ ElevenLabs TTS failed:', error);
+      console.error('❌ Provider TTS failed:', error);
       throw error;
     }
   }
 
+  /** Last resort: the browser's own voice. Not capturable by audio stream callbacks. */
+  private speakWithBrowser(text: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.onend = () => resolve();
+      utterance.onerror = (e) => reject(new Error(`Browser speech failed: ${e.error}`));
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
 
   stop(): void {
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
     if (this.currentAudio) {
       this.currentAudio.pause();
       this.currentAudio.currentTime = 0;
@@ -0,0 +1,54 @@
+// Memory Audience Types
+
+export type AudienceCircleKind = 'family' | 'close_friends' | 'custom';
+export type MemoryAudienceType = 'circle' | 'connection' | 'public_link';
+
+export interface AudienceCircle {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: AudienceCircleKind;
+  relationship_types: string[]; // Connections with these relationship types are members automatically
+  created_at: string;
+  updated_at: string;
+  // Added by audienceService
+  member_user_ids?: string[];
+}
+
+export interface MemoryAudience {
+  id: string;
+  user_id: string; // Owner of the memory
+  memory_group_id: string;
+  audience_type: MemoryAudienceType;
+  circle_id: string | null;
+  connection_user_id: string | null;
+  created_at: string;
+}
+
+// What the owner picks in the audience dialog; nothing selected = private
+export interface MemoryAudienceSelection {
+  isPublic: boolean;
+  circleIds: string[];
+  connectionIds: string[];
+}
+
+export interface SharedWithMeMemory {
+  owner_user_id: string;
+  memory_group_id: string;
+  title: string;
+  memory_date: string | null;
+  shared_via: 'circle' | 'connection';
+  circle_name: string | null;
+  shared_at: string;
+  // Added by audienceService
+  owner_name?: string | null;
+}
+
+// "View as" on the Timeline and biography: yourself, an anonymous visitor, or a circle (by id)
+export type AudienceView = 'me' | 'public' | string;
+
+export const EMPTY_AUDIENCE_SELECTION: MemoryAudienceSelection = {
+  isPublic: false,
+  circleIds: [],
+  connectionIds: [],
+};
@@ -0,0 +1,39 @@
+// Audio Clip Types
+
+/** What audioClipService stores in a clip artifact's metadata */
+export interface AudioClipMetadata {
+  title: string;
+  start_seconds: number; // Range in the source recording
+  end_seconds: number;
+  duration_seconds: number;
+  normalized: boolean;
+  gain: number; // Applied by normalisation; 1 when off
+  transcript_excerpt: string | null; // What was said during the clip, if the recording has a transcript
+  recording_created_at: string | null;
+}
+
+export interface AudioClip {
+  id: string; // Artifact id
+  storage_path: string;
+  mime_type: string | null;
+  file_size: number | null;
+  source_recording_id: string | null;
+  metadata: AudioClipMetadata;
+  created_at: string;
+  // Added when loaded
+  audio_url?: string | null; // Public URL of the stored file
+}
+
+export interface CreateAudioClipRequest {
+  recording: {
+    id: string;
+    storage_path: string;
+    created_at?: string | null;
+  };
+  start: number; // Seconds
+  end: number;
+  title: string;
+  normalize: boolean;
+  memoryIds: string[];
+  transcriptExcerpt?: string | null;
+}
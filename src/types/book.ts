@@ -0,0 +1,67 @@
+// Biography Book Types
+
+export type BookTrimSize = 'a5' | 'us_trade' | 'a4' | 'us_letter';
+
+export const BOOK_TRIM_SIZES: Record<BookTrimSize, { label: string; width: number; height: number }> = {
+  a5: { label: 'A5 (148 × 210 mm)', width: 148, height: 210 },
+  us_trade: { label: 'US Trade (6 × 9 in)', width: 152.4, height: 228.6 },
+  a4: { label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  us_letter: { label: 'US Letter (8.5 × 11 in)', width: 215.9, height: 279.4 },
+};
+
+// Millimetres. Inner/outer are mirrored on facing pages (inner = binding side).
+export interface BookMargins {
+  top: number;
+  bottom: number;
+  inner: number;
+  outer: number;
+}
+
+export interface BookLayoutOptions {
+  trimSize: BookTrimSize;
+  margins: BookMargins;
+  fontSize: number; // Body text, pt
+  includeImages: boolean;
+}
+
+export const DEFAULT_BOOK_LAYOUT: BookLayoutOptions = {
+  trimSize: 'a5',
+  margins: { top: 18, bottom: 20, inner: 20, outer: 15 },
+  fontSize: 11,
+  includeImages: true,
+};
+
+export interface BookImage {
+  data: Uint8Array; // JPEG
+  width: number; // px
+  height: number;
+  caption: string | null;
+}
+
+export interface BookChapter {
+  sequence: number;
+  title: string;
+  lifePeriod: string;
+  content: string;
+  images: BookImage[];
+}
+
+export interface BookIndexEntry {
+  name: string;
+  chapters: number[]; // Chapter sequences the name appears in
+}
+
+export interface BookContent {
+  id: string;
+  title: string;
+  subtitle: string | null;
+  author: string | null;
+  introduction: string;
+  conclusion: string;
+  chapters: BookChapter[];
+  index: {
+    people: BookIndexEntry[];
+    places: BookIndexEntry[];
+  };
+  generatedAt: string;
+}
@@ -0,0 +1,49 @@
+// Family Story Thread Types
+
+export type FamilyStoryStatus = 'draft' | 'approved';
+export type FamilyStoryConflictKind = 'date' | 'place' | 'people' | 'detail';
+
+export interface FamilyStoryAccount {
+  key: string; // 'owner' or 'p<n>', referenced by passages and claims
+  kind: 'owner' | 'perspective';
+  user_id: string;
+  perspective_id: string | null;
+  name: string;
+}
+
+export interface FamilyStoryPassage {
+  text: string;
+  sources: string[]; // Account keys
+}
+
+export interface FamilyStoryConflict {
+  id: string;
+  kind: FamilyStoryConflictKind;
+  summary: string;
+  claims: { source: string; value: string }[];
+  resolution: string | null; // Set by the owner before approving
+}
+
+export interface FamilyStoryThread {
+  id: string;
+  user_id: string; // Owner of the memory
+  memory_group_id: string;
+  status: FamilyStoryStatus;
+  accounts: FamilyStoryAccount[];
+  passages: FamilyStoryPassage[];
+  conflicts: FamilyStoryConflict[];
+  merged_text: string | null;
+  approved_text: string | null;
+  approved_at: string | null;
+  perspective_ids: string[];
+  aligned_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const FAMILY_STORY_CONFLICT_LABELS: Record<FamilyStoryConflictKind, string> = {
+  date: 'Date',
+  place: 'Place',
+  people: 'People',
+  detail: 'Detail',
+};
@@ -0,0 +1,37 @@
+// Phone Number and Household Phone Types
+
+/** A WhatsApp number on the account; an account can have several */
+export interface UserPhoneNumber {
+  id: string;
+  user_id: string;
+  phone_number: string;
+  label: string | null; // e.g. Work, Personal
+  verified: boolean;
+  is_primary: boolean; // Where Solin writes when it starts a conversation
+  created_at: string;
+}
+
+/** A phone several accounts message Solin from; Solin asks who is talking */
+export interface HouseholdPhone {
+  id: string;
+  phone_number: string;
+  name: string;
+  created_by: string; // Owner: invites and removes members
+  invite_code: string | null; // Only ever loaded for the owner
+  invite_expires_at: string | null;
+  created_at: string;
+}
+
+export type HouseholdMemberStatus = 'active' | 'left' | 'removed';
+
+export interface HouseholdPhoneMember {
+  id: string;
+  household_phone_id: string;
+  user_id: string;
+  display_name: string; // Shown when Solin asks "who is this?"
+  status: HouseholdMemberStatus;
+  consented_at: string;
+  ended_at: string | null;
+}
+
+export type HouseholdPhoneWithMembers = HouseholdPhone & { members: HouseholdPhoneMember[] };
@@ -0,0 +1,138 @@
+// Identity Training Types
+
+export type TrainingJobStatus = 'queued' | 'uploading' | 'training' | 'succeeded' | 'failed' | 'cancelled';
+
+export const ACTIVE_TRAINING_STATUSES: TrainingJobStatus[] = ['queued', 'uploading', 'training'];
+
+/** Quality checks for one photo; face_count is null where the browser has no face detector */
+export interface TrainingImageCheck {
+  path: string; // File name before upload, storage path after
+  width: number | null;
+  height: number | null;
+  face_count: number | null;
+  sha256: string | null;
+  issues: string[];
+}
+
+export interface TrainingImageReport {
+  images?: TrainingImageCheck[];
+  checked_at?: string;
+}
+
+export interface TrainingJob {
+  id: string;
+  identity_id: string;
+  user_id: string;
+  status: TrainingJobStatus;
+  image_storage_paths: string[];
+  validation: TrainingImageReport;
+  hf_repo_name: string | null;
+  remote_job_id: string | null;
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  last_polled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TrainedIdentity {
+  id: string;
+  name: string;
+  hf_model_id: string | null;
+  training_status: string | null;
+  training_error: string | null;
+  training_job_id: string | null;
+  image_storage_paths: string[] | null;
+  num_training_images: number | null;
+  training_completed_at: string | null;
+  created_at: string | null;
+  thumbnail_url?: string | null; // Signed URL of the first training photo
+  consent?: IdentityConsent | null;
+}
+
+// ----- Likeness consent -----
+
+export type ConsentSubjectType = 'self' | 'connected_user' | 'deceased' | 'minor';
+export type ConsentStatus = 'pending' | 'granted' | 'declined' | 'revoked' | 'expired';
+
+export const CONSENT_SUBJECT_LABELS: Record<ConsentSubjectType, string> = {
+  self: 'Me',
+  connected_user: 'One of my connections',
+  deceased: 'Someone who has died',
+  minor: 'A child',
+};
+
+export interface IdentityConsent {
+  id: string;
+  identity_id: string;
+  owner_user_id: string;
+  subject_type: ConsentSubjectType;
+  subject_name: string;
+  subject_user_id: string | null;
+  relationship: string | null;
+  guardian_name: string | null;
+  guardian_relationship: string | null;
+  status: ConsentStatus;
+  granted_at: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revocation_reason: string | null;
+  created_at: string;
+  updated_at: string;
+  owner_name?: string | null; // Filled in for consents about the current user
+  identity_name?: string | null;
+}
+
+/** What the owner states when training or renewing; expires_at defaults to a year */
+export interface IdentityConsentInput {
+  subject_type: ConsentSubjectType;
+  subject_name: string;
+  subject_user_id: string | null;
+  relationship: string | null;
+  guardian_name: string | null;
+  guardian_relationship: string | null;
+  expires_at: string | null;
+}
+
+export type IdentityConsentEventType =
+  | 'requested'
+  | 'granted'
+  | 'declined'
+  | 'revoked'
+  | 'expired'
+  | 'renewed'
+  | 'used_training'
+  | 'used_preview'
+  | 'used_reconstruction'
+  | 'use_blocked'
+  | 'identity_deleted';
+
+export interface IdentityConsentEvent {
+  id: string;
+  identity_id: string;
+  identity_name: string | null;
+  owner_user_id: string;
+  subject_user_id: string | null;
+  actor_user_id: string | null;
+  event: IdentityConsentEventType;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export const CONSENT_EVENT_LABELS: Record<IdentityConsentEventType, string> = {
+  requested: 'Consent requested',
+  granted: 'Consent granted',
+  declined: 'Consent declined',
+  revoked: 'Consent revoked',
+  expired: 'Consent expired',
+  renewed: 'Consent renewed',
+  used_training: 'Used for training',
+  used_preview: 'Used for a preview',
+  used_reconstruction: 'Used in a reconstruction',
+  use_blocked: 'Use refused (no consent)',
+  identity_deleted: 'Identity deleted',
+};
@@ -0,0 +1,98 @@
+// Legacy Contact Types
+
+export type LegacyMemoryAccess = 'all' | 'shared_only';
+export type LegacyClaimType = 'deceased' | 'incapacitated' | 'unresponsive';
+export type LegacyClaimSource = 'contact' | 'check_in_switch';
+export type LegacyClaimStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface LegacyContact {
+  id: string;
+  user_id: string; // Owner of the story
+  contact_user_id: string;
+  relationship_type: string;
+  memory_access: LegacyMemoryAccess;
+  can_download_export: boolean;
+  can_manage_visitor_page: boolean;
+  message: string | null;
+  created_at: string;
+  updated_at: string;
+  // Added by legacyService
+  contact_name?: string | null;
+  owner_name?: string | null;
+}
+
+export interface LegacyContactDraft {
+  contact_user_id: string;
+  relationship_type: string;
+  memory_access: LegacyMemoryAccess;
+  can_download_export: boolean;
+  can_manage_visitor_page: boolean;
+  message?: string | null;
+}
+
+export interface LegacyPlan {
+  user_id: string;
+  check_in_interval_days: number | null; // NULL = check-in switch off
+  grace_period_days: number;
+  last_check_in_at: string;
+  reminder_sent_at: string | null;
+  switch_triggered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LegacyClaim {
+  id: string;
+  owner_user_id: string;
+  claimant_user_id: string | null;
+  source: LegacyClaimSource;
+  claim_type: LegacyClaimType;
+  statement: string | null;
+  evidence_paths: string[];
+  status: LegacyClaimStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  contacts_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A story the current user was entrusted with
+export interface EntrustedLegacy {
+  contact: LegacyContact;
+  claims: LegacyClaim[];
+  accessGranted: boolean;
+}
+
+export interface LegacyVisitorPageMemory {
+  memory_group_id: string;
+  title: string;
+  memory_date: string | null;
+  is_public: boolean;
+}
+
+export const LEGACY_MEMORY_ACCESS_LABELS: Record<LegacyMemoryAccess, string> = {
+  all: 'View all memories',
+  shared_only: 'View shared memories only',
+};
+
+export const LEGACY_CLAIM_TYPE_LABELS: Record<LegacyClaimType, string> = {
+  deceased: 'Has passed away',
+  incapacitated: 'Is incapacitated',
+  unresponsive: 'Has not checked in',
+};
+
+export const LEGACY_CLAIM_STATUS_LABELS: Record<LegacyClaimStatus, string> = {
+  pending: 'Under review',
+  approved: 'Access granted',
+  rejected: 'Not approved',
+  withdrawn: 'Withdrawn',
+};
+
+export const CHECK_IN_INTERVAL_OPTIONS = [
+  { value: 30, label: 'Every month' },
+  { value: 90, label: 'Every 3 months' },
+  { value: 180, label: 'Every 6 months' },
+  { value: 365, label: 'Every year' },
+] as const;
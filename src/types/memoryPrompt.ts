@@ -0,0 +1,31 @@
+/** Channels weekly memory prompts can be sent on */
+export type MemoryPromptChannel = 'whatsapp' | 'email';
+
+/** A user's memory_prompt_settings; times are local to timezone ("HH:MM") */
+export interface MemoryPromptSettings {
+  enabled: boolean;
+  channel: MemoryPromptChannel;
+  day_of_week: number; // 0 = Sunday
+  send_time: string;
+  timezone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  opted_out_at?: string | null; // Set when the user replied STOP
+  next_send_at?: string | null;
+  last_sent_at?: string | null;
+}
+
+export type MemoryPromptStatus = 'sent' | 'answered' | 'failed';
+
+/** A question Solin sent, and the memory the reply became */
+export interface MemoryPrompt {
+  id: string;
+  channel: MemoryPromptChannel;
+  question: string;
+  status: MemoryPromptStatus;
+  sent_at: string;
+  answered_at: string | null;
+  memory_id: string | null;
+}
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
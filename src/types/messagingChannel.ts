@@ -0,0 +1,38 @@
+// Messaging Channel Types
+
+/** Channels Solin can be messaged on; also the source_type of memories saved there */
+export type MessagingChannel = 'whatsapp' | 'sms' | 'telegram' | 'email';
+
+export const MESSAGING_CHANNELS: MessagingChannel[] = ['whatsapp', 'sms', 'telegram', 'email'];
+
+/** Channels linked with a code from Settings; phone channels use user_phone_numbers */
+export type LinkableChannel = 'telegram' | 'email';
+
+export interface ChannelIdentity {
+  id: string;
+  user_id: string;
+  channel: LinkableChannel;
+  address: string; // Telegram chat id or email address
+  display_name: string | null;
+  last_message_at: string | null;
+  created_at: string;
+}
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed';
+
+/** A verified inbound delivery in the webhook inbox (admins only) */
+export interface MessagingWebhookEvent {
+  id: string;
+  channel: MessagingChannel;
+  provider: string;
+  provider_message_id: string;
+  from_address: string;
+  raw_body: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  next_attempt_at: string | null; // null after the last retry failed
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  received_at: string;
+  processed_at: string | null;
+}
@@ -0,0 +1,68 @@
+// People Directory Types
+
+export type RelationshipGroup = 'family' | 'friend' | 'partner' | 'other';
+export type PersonSource = 'insights' | 'profile' | 'manual';
+
+export interface Person {
+  id: string;
+  user_id: string;
+  display_name: string;
+  relationship: string | null; // Canonical: mother, brother, friend…
+  relationship_group: RelationshipGroup;
+  aliases: string[]; // Normalised mention texts that resolve to this person
+  linked_user_id: string | null; // A connection who is this person
+  sources: PersonSource[];
+  notes: string | null;
+  is_hidden: boolean;
+  created_at: string;
+  updated_at: string;
+  // Added by peopleService
+  mention_count?: number;
+  linked_user_name?: string | null;
+}
+
+export interface PersonMention {
+  id: string;
+  user_id: string;
+  person_id: string;
+  memory_id: string;
+  memory_group_id: string;
+  mention: string; // As written, e.g. "my mother Sarah"
+  alias: string;
+  created_at: string;
+}
+
+export interface PersonMemory {
+  memory_group_id: string;
+  title: string;
+  text: string;
+  memory_date: string | null;
+  memory_location: string | null;
+  mentions: string[]; // How the person was referred to in this memory
+}
+
+export interface PeopleGraphNode {
+  id: string; // Person id, or 'self'
+  label: string;
+  group: RelationshipGroup | 'self';
+  weight: number; // Memories the person appears in
+}
+
+export interface PeopleGraphEdge {
+  source: string;
+  target: string;
+  weight: number; // Memories shared by both ends; 0 for a relationship-only edge to 'self'
+  label?: string; // Relationship, on edges from 'self'
+}
+
+export interface PeopleGraph {
+  nodes: PeopleGraphNode[];
+  edges: PeopleGraphEdge[];
+}
+
+export const RELATIONSHIP_GROUP_LABELS: Record<RelationshipGroup, string> = {
+  family: 'Family',
+  friend: 'Friends',
+  partner: 'Partners',
+  other: 'Others',
+};
@@ -0,0 +1,53 @@
+// Reconstruction Gallery Types
+
+export type ReconstructionMode = 'sketch' | 'photoreal';
+export type SketchStyle = 'pencil_sketch' | 'charcoal' | 'soft_sepia' | 'dreamlike_ink';
+export type PhotorealLens = '35mm' | '50mm' | '85mm';
+export type PhotorealStyle = 'documentary' | 'cinematic' | 'portrait';
+export type ImageProviderId = 'openai' | 'huggingface' | 'stable_diffusion' | 'placeholder';
+
+/** What generate-memory-sketch stores in the artifact's metadata */
+export interface ReconstructionSettings {
+  memory_prompt: string; // For a refinement, the parent's prompt with its refinements folded in
+  refine_prompt: string | null;
+  mode: ReconstructionMode;
+  style: SketchStyle | null; // Sketch mode
+  lens_mm: number | null; // Photoreal mode
+  camera_style: PhotorealStyle | null; // Photoreal mode
+  identity_ids: string[];
+  seed: number | null;
+  negative_prompt: string | null;
+  face_lock: boolean;
+  full_prompt?: string;
+  provider?: ImageProviderId;
+  model?: string;
+}
+
+export interface Reconstruction {
+  id: string; // Artifact id
+  user_id: string;
+  storage_path: string;
+  derived_from_artifact_id: string | null;
+  metadata: ReconstructionSettings;
+  created_at: string;
+  // Added by reconstructionService
+  image_url?: string | null; // Signed URL
+  memory_ids?: string[]; // Memories it is attached to
+}
+
+export interface GenerateReconstructionRequest {
+  mode: ReconstructionMode;
+  memoryPrompt: string;
+  style?: SketchStyle;
+  camera?: { lens_mm: number; style: PhotorealStyle };
+  identities?: string[];
+  lora_weights?: Record<string, number>;
+  prompt?: string;
+  negative_prompt?: string;
+  seed?: number;
+  aspect_ratio?: string;
+  face_lock?: boolean;
+  face_image_url?: string;
+  memoryId?: string;
+  provider?: ImageProviderId; // Must be enabled in image_generation_config; defaults to its default_provider
+}
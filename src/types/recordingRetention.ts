@@ -0,0 +1,31 @@
+/** A user's defaults from recording_retention_settings; null days means never */
+export interface RecordingRetentionSettings {
+  retention_days: number | null;
+  keep_linked_recordings: boolean;
+  compress_after_days: number | null;
+}
+
+export type TrashReason = 'user' | 'retention';
+
+/** A voice_recordings row in the trash, restorable until purge_after */
+export interface TrashedRecording {
+  id: string;
+  created_at: string;
+  duration_seconds: number | null;
+  conversation_summary: string | null;
+  memory_titles: string[] | null;
+  deleted_at: string;
+  deleted_reason: TrashReason;
+  purge_after: string;
+}
+
+/** One row of get_recording_purge_report: trash when a recording expires, purge when its trash time is up */
+export interface RecordingPurgeReportItem {
+  recording_id: string;
+  action: 'trash' | 'purge';
+  due_at: string;
+  created_at: string;
+  duration_seconds: number | null;
+  file_size_bytes: number | null;
+  conversation_summary: string | null;
+}
@@ -0,0 +1,51 @@
+// Speech Provider Types
+
+export type TranscriptionProviderId = 'openai' | 'whisper';
+export type SynthesisProviderId = 'elevenlabs' | 'piper';
+export type TranscriptionStatus = 'pending' | 'completed' | 'failed' | 'skipped';
+
+/** One recognised word in voice_recordings.transcript_words; times are seconds from the start */
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export type TranscriptSpeaker = 'user' | 'ai'; // 'ai' is Solin
+
+/** One utterance in voice_recordings.transcript_segments; times are seconds from the start */
+export interface TranscriptSegment {
+  speaker: TranscriptSpeaker;
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+}
+
+/** Where a search query was found in a recording, for starting playback there */
+export interface TranscriptMatch {
+  segment_index: number;
+  start: number; // The matching word's start when word timings exist, else the segment's
+  speaker: TranscriptSpeaker;
+  text: string;
+  score: number;
+}
+
+/** What the speech function returns for a synthesize request */
+export interface SynthesizedSpeech {
+  audio: string; // Base64
+  mimeType: string;
+  provider: SynthesisProviderId;
+  model: string;
+}
+
+export interface RecordingTranscription {
+  id: string;
+  transcript_text: string | null;
+  transcript_words: TranscriptWord[] | null;
+  transcript_language: string | null;
+  transcription_provider: TranscriptionProviderId | null;
+  transcription_status: TranscriptionStatus | null;
+  transcribed_at: string | null;
+}
@@ -0,0 +1,73 @@
+// Offline Sync Types
+
+export type OutboxKind =
+  | 'memory.insert'    // Direct insert into memories (Add Memory form, voice flows)
+  | 'memory.save'      // Journal save through the memory-operations function
+  | 'memory.update'
+  | 'memory.delete'
+  | 'artifact.upload'  // Photo or video for an existing memory
+  | 'recording.upload'; // Conversation recording and its voice_recordings row
+
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry<P = Record<string, unknown>> {
+  id: string;
+  kind: OutboxKind;
+  user_id: string;
+  label: string; // Shown in the sync status, e.g. the memory title
+  payload: P;
+  blob_ids: string[]; // Files in the blobs store this entry uploads
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number; // Epoch ms
+  last_error: string | null;
+  server_copy: Record<string, unknown> | null; // The newer server row on conflict, null if it was deleted
+  created_at: number;
+}
+
+export interface OfflineBlob {
+  id: string;
+  blob: Blob;
+  file_name: string;
+  mime_type: string;
+}
+
+export interface MemoryInsertPayload {
+  row: Record<string, unknown>; // Includes the client-generated id; the entry's blobs are its images
+}
+
+export interface MemorySavePayload {
+  memory: { id: string; title: string; text: string; tags?: string[]; recipient?: string };
+}
+
+export interface MemoryUpdatePayload {
+  id: string;
+  changes: Record<string, unknown>;
+  base_updated_at: string | null; // updated_at the edit started from; null skips the check
+}
+
+export interface MemoryDeletePayload {
+  id: string;
+  base_updated_at: string | null;
+}
+
+export interface ArtifactUploadPayload {
+  memory_id: string;
+  artifact_id: string;
+  storage_path: string;
+}
+
+export interface RecordingUploadPayload {
+  bucket: string;
+  storage_path: string;
+  row: Record<string, unknown>; // voice_recordings insert, including its id
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: OutboxEntry[];
+  failed: OutboxEntry[];
+  last_synced_at: number | null;
+}
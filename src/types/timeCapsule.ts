@@ -0,0 +1,56 @@
+// Time Capsule Types
+
+export type TimeCapsuleReleaseTrigger = 'date' | 'recipient_age' | 'on_passing';
+export type TimeCapsuleStatus = 'sealed' | 'released';
+
+export interface TimeCapsule {
+  id: string;
+  user_id: string;
+  title: string;
+  content: string;
+  release_trigger: TimeCapsuleReleaseTrigger;
+  release_date: string | null; // Computed for 'recipient_age', NULL for 'on_passing'
+  recipient_user_id: string | null;
+  recipient_name: string | null;
+  recipient_phone: string | null;
+  recipient_birth_date: string | null;
+  release_age: number | null;
+  trustee_user_id: string | null;
+  status: TimeCapsuleStatus;
+  released_at: string | null;
+  released_by: string | null;
+  memory_group_id: string | null;
+  recipient_notified_at: string | null;
+  recipient_opened_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // Added by the time-capsules function
+  owner_name?: string | null;
+  recipient_display_name?: string | null;
+  trustee_name?: string | null;
+}
+
+// What a trustee may see: no content
+export type TrusteedTimeCapsule = Pick<
+  TimeCapsule,
+  'id' | 'user_id' | 'title' | 'recipient_name' | 'recipient_user_id' | 'status' | 'released_at' | 'created_at' | 'owner_name' | 'recipient_display_name'
+>;
+
+export interface TimeCapsuleDraft {
+  title: string;
+  content: string;
+  release_trigger: TimeCapsuleReleaseTrigger;
+  release_date?: string | null;
+  recipient_user_id?: string | null;
+  recipient_name?: string | null;
+  recipient_phone?: string | null;
+  recipient_birth_date?: string | null;
+  release_age?: number | null;
+  trustee_user_id?: string | null;
+}
+
+export const RELEASE_TRIGGER_LABELS: Record<TimeCapsuleReleaseTrigger, string> = {
+  date: 'On a date',
+  recipient_age: "At the recipient's age",
+  on_passing: 'On my passing (released by a trustee)',
+};
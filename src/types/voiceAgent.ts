@@ -0,0 +1,73 @@
+// Voice Agent Session Types
+import type { VoiceProvider } from '@/services/configurationService';
+
+/** Providers a session can run on; 'mock' is local-only, for e2e tests */
+export type VoiceSessionProvider = VoiceProvider | 'mock';
+
+export type VoiceSessionStatus = 'disconnected' | 'connecting' | 'connected' | 'disconnecting';
+
+export type VoiceSpeaker = 'user' | 'ai';
+
+/**
+ * One piece of transcript. Partial events carry only the new text since the
+ * last event for that turn; the final event carries the whole turn.
+ */
+export interface VoiceTranscriptEvent {
+  speaker: VoiceSpeaker;
+  text: string;
+  final: boolean;
+  confidence?: number;
+}
+
+/**
+ * A client tool; whatever it returns is spoken back to the agent as text.
+ * Each tool types its own parameters; the agent's arguments are passed through unchecked.
+ */
+export type VoiceClientTool = (parameters: never) => Promise<string | number | void> | string | number | void;
+
+export type VoiceClientTools = Record<string, VoiceClientTool>;
+
+/** Tool declaration for providers that need the schema at session start */
+export interface VoiceToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface VoiceSessionCallbacks {
+  onConnect?: () => void;
+  onDisconnect?: () => void;
+  onError?: (error: unknown) => void;
+  onStatusChange?: (status: VoiceSessionStatus) => void;
+  onSpeakingChange?: (isSpeaking: boolean) => void;
+  onTranscript?: (event: VoiceTranscriptEvent) => void;
+  onToolCall?: (name: string, parameters: unknown, result: string) => void;
+  /** The agent's voice as a MediaStream, for recording and visualisation */
+  onAgentAudioStream?: (stream: MediaStream) => void;
+  /** Base64 PCM chunks, where the provider delivers audio that way */
+  onAgentAudioChunk?: (base64Audio: string) => void;
+}
+
+export interface VoiceConnectOptions {
+  mode?: string; // Conversation mode passed to the provider's session function
+}
+
+/**
+ * A live conversation with a voice agent, whichever provider runs it. Client
+ * tools are dispatched by name, so the same tools work on every provider.
+ */
+export interface VoiceAgentSession {
+  readonly provider: VoiceSessionProvider;
+  readonly status: VoiceSessionStatus;
+  readonly isSpeaking: boolean;
+  connect(options?: VoiceConnectOptions): Promise<void>;
+  disconnect(): Promise<void>;
+  /** Tell the agent something without it being treated as the user speaking */
+  sendContext(text: string): void;
+  setVolume(volume: number): void;
+  getAgentAudioStream(): MediaStream | null;
+}
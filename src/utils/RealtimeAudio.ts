@@ -122,10 +122,12 @@ export const createWavFromPCM = (pcmData: Uint8Array): Uint8Array => {
 class AudioQueue {
   private queue: Uint8Array[] = [];
   private isPlaying = false;
-  private audioContext: AudioContext;
+  readonly audioContext: AudioContext;
+  readonly output: AudioNode;
 
-  constructor(audioContext: AudioContext) {
+  constructor(audioContext: AudioContext, output: AudioNode) {
     this.audioContext = audioContext;
+    this.output = output;
   }
 
   async addToQueue(audioData: Uint8Array) {
@@ -151,7 +153,7 @@ class AudioQueue {
       
       const source = this.audioContext.createBufferSource();
       source.buffer = audioBuffer;
-      source.connect(this.audioContext.destination);
+      source.connect(this.output);
       
       source.onended = () => this.playNext();
       source.start(0);
@@ -164,9 +166,14 @@ class AudioQueue {
 
 let audioQueueInstance: AudioQueue | null = null;
 
-export const playAudioData = async (audioContext: AudioContext, audioData: Uint8Array) => {
-  if (!audioQueueInstance) {
-    audioQueueInstance = new AudioQueue(audioContext);
+export const playAudioData = async (
+  audioContext: AudioContext,
+  audioData: Uint8Array,
+  output: AudioNode = audioContext.destination
+) => {
+  // A new context (a new session) or output gets a fresh queue
+  if (!audioQueueInstance || audioQueueInstance.audioContext !== audioContext || audioQueueInstance.output !== output) {
+    audioQueueInstance = new AudioQueue(audioContext, output);
   }
   await audioQueueInstance.addToQueue(audioData);
 };
@@ -0,0 +1,221 @@
+/**
+ * BIOGRAPHY BOOK - EPUB
+ *
+ * EPUB 3 package (with an EPUB 2 NCX for older readers): title page,
+ * navigation document, introduction, one XHTML file per chapter with its
+ * images, conclusion and an index of people and places linking to chapters.
+ */
+
+import { zipSync, strToU8, Zippable } from 'fflate';
+import { BookContent, BookIndexEntry } from '@/types/book';
+
+interface EpubDocument {
+  id: string;
+  href: string;
+  title: string;
+  body: string;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const paragraphs = (text: string) =>
+  text
+    .split(/\n{2,}|\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => `<p>${escapeXml(block)}</p>`)
+    .join('\n');
+
+const STYLESHEET = `body { font-family: Georgia, serif; line-height: 1.5; margin: 0 5%; }
+h1 { text-align: center; margin: 2em 0 1.5em; font-weight: bold; }
+p { text-indent: 1.2em; margin: 0 0 0.4em; text-align: justify; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page h1 { font-size: 2em; }
+.subtitle { font-style: italic; text-indent: 0; text-align: center; }
+.author { margin-top: 4em; text-indent: 0; text-align: center; font-size: 1.2em; }
+figure { margin: 1.5em 0; text-align: center; }
+figure img { max-width: 100%; max-height: 60vh; }
+figcaption { font-style: italic; font-size: 0.9em; }
+.index-entry { text-indent: -1em; margin-left: 1em; }
+nav ol { list-style: none; padding-left: 0; }
+`;
+
+function xhtml(title: string, body: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function indexList(entries: BookIndexEntry[], chapterHrefs: Map<number, string>): string {
+  return entries
+    .map(entry => {
+      const links = [...new Set(entry.chapters)]
+        .filter(sequence => chapterHrefs.has(sequence))
+        .map(sequence => `<a href="${chapterHrefs.get(sequence)}">${sequence}</a>`)
+        .join(', ');
+      return `<p class="index-entry">${escapeXml(entry.name)}${links ? `, ${links}` : ''}</p>`;
+    })
+    .join('\n');
+}
+
+/**
+ * Package the biography as an EPUB file
+ */
+export function renderBookEpub(content: BookContent, includeImages = true): Blob {
+  const documents: EpubDocument[] = [];
+  const files: Zippable = {};
+  const images: { id: string; href: string }[] = [];
+  const chapterHrefs = new Map<number, string>();
+
+  documents.push({
+    id: 'title',
+    href: 'title.xhtml',
+    title: content.title,
+    body: `<section class="title-page" epub:type="titlepage">
+<h1>${escapeXml(content.title)}</h1>
+${content.subtitle ? `<p class="subtitle">${escapeXml(content.subtitle)}</p>` : ''}
+${content.author ? `<p class="author">${escapeXml(content.author)}</p>` : ''}
+</section>`,
+  });
+
+  if (content.introduction) {
+    documents.push({
+      id: 'introduction',
+      href: 'introduction.xhtml',
+      title: 'Introduction',
+      body: `<section epub:type="introduction"><h1>Introduction</h1>\n${paragraphs(content.introduction)}</section>`,
+    });
+  }
+
+  for (const chapter of content.chapters) {
+    const href = `chapter-${chapter.sequence}.xhtml`;
+    chapterHrefs.set(chapter.sequence, href);
+
+    const figures = includeImages
+      ? chapter.images.map((image, index) => {
+          const imageHref = `images/chapter-${chapter.sequence}-${index + 1}.jpg`;
+          images.push({ id: `img-${chapter.sequence}-${index + 1}`, href: imageHref });
+          files[`OEBPS/${imageHref}`] = [image.data, { level: 0 }];
+          return `<figure><img src="${imageHref}" alt="${escapeXml(image.caption || chapter.title)}" />${
+            image.caption ? `<figcaption>${escapeXml(image.caption)}</figcaption>` : ''
+          }</figure>`;
+        }).join('\n')
+      : '';
+
+    documents.push({
+      id: `chapter-${chapter.sequence}`,
+      href,
+      title: chapter.title,
+      body: `<section epub:type="chapter"><h1>${escapeXml(chapter.title)}</h1>\n${paragraphs(chapter.content)}\n${figures}</section>`,
+    });
+  }
+
+  if (content.conclusion) {
+    documents.push({
+      id: 'conclusion',
+      href: 'conclusion.xhtml',
+      title: 'Conclusion',
+      body: `<section epub:type="conclusion"><h1>Conclusion</h1>\n${paragraphs(content.conclusion)}</section>`,
+    });
+  }
+
+  if (content.index.people.length > 0 || content.index.places.length > 0) {
+    documents.push({
+      id: 'index',
+      href: 'index.xhtml',
+      title: 'Index',
+      body: `<section epub:type="index"><h1>Index</h1>
+${content.index.people.length > 0 ? `<h2>People</h2>\n${indexList(content.index.people, chapterHrefs)}` : ''}
+${content.index.places.length > 0 ? `<h2>Places</h2>\n${indexList(content.index.places, chapterHrefs)}` : ''}
+</section>`,
+    });
+  }
+
+  const navItems = documents
+    .filter(document => document.id !== 'title')
+    .map(document => `<li><a href="${document.href}">${escapeXml(document.title)}</a></li>`)
+    .join('\n');
+  const nav = xhtml('Contents', `<nav epub:type="toc" id="toc"><h1>Contents</h1><ol>\n${navItems}\n</ol></nav>`);
+
+  const ncxPoints = documents
+    .map((document, index) => `<navPoint id="nav-${index + 1}" playOrder="${index + 1}"><navLabel><text>${escapeXml(document.title)}</text></navLabel><content src="${document.href}"/></navPoint>`)
+    .join('\n');
+  const identifier = `urn:uuid:${content.id}`;
+  const ncx = `<?xml version="1.0" encoding="utf-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${identifier}"/></head>
+<docTitle><text>${escapeXml(content.title)}</text></docTitle>
+<navMap>
+${ncxPoints}
+</navMap>
+</ncx>
+`;
+
+  const manifestItems = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+    ...documents.map(document => `<item id="${document.id}" href="${document.href}" media-type="application/xhtml+xml"/>`),
+    ...images.map(image => `<item id="${image.id}" href="${image.href}" media-type="image/jpeg"/>`),
+  ].join('\n    ');
+  const spineItems = documents
+    .map(document => `<itemref idref="${document.id}"/>`)
+    .join('\n    ');
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeXml(content.title)}</dc:title>
+    ${content.author ? `<dc:creator>${escapeXml(content.author)}</dc:creator>` : ''}
+    <dc:language>en</dc:language>
+    <dc:date>${content.generatedAt.split('T')[0]}</dc:date>
+    <meta property="dcterms:modified">${content.generatedAt.replace(/\.\d+Z$/, 'Z')}</meta>
+  </metadata>
+  <manifest>
+    ${manifestItems}
+  </manifest>
+  <spine toc="ncx">
+    ${spineItems}
+  </spine>
+</package>
+`;
+
+  // The mimetype entry must come first and be stored uncompressed
+  const archive: Zippable = {
+    mimetype: [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF/container.xml': strToU8(`<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`),
+    'OEBPS/content.opf': strToU8(opf),
+    'OEBPS/nav.xhtml': strToU8(nav),
+    'OEBPS/toc.ncx': strToU8(ncx),
+    'OEBPS/styles.css': strToU8(STYLESHEET),
+    ...Object.fromEntries(
+      documents.map(document => [`OEBPS/${document.href}`, strToU8(xhtml(document.title, document.body))])
+    ),
+    ...files,
+  };
+
+  return new Blob([zipSync(archive)], { type: 'application/epub+zip' });
+}
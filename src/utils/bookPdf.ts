@@ -0,0 +1,319 @@
+/**
+ * BIOGRAPHY BOOK - PDF
+ *
+ * Print-ready PDF layout: title page, table of contents, introduction,
+ * chapters (each starting on a right-hand page), conclusion and an index of
+ * people and places. Margins are mirrored on facing pages for binding.
+ */
+
+import { jsPDF } from 'jspdf';
+import { BOOK_TRIM_SIZES, BookContent, BookIndexEntry, BookLayoutOptions } from '@/types/book';
+
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.45;
+const BODY_FONT = 'times';
+
+interface TocEntry {
+  title: string;
+  page: number;
+}
+
+class BookPdfWriter {
+  readonly doc: jsPDF;
+  readonly width: number;
+  readonly height: number;
+  private y = 0;
+  // Pages that get no running page number (title, blank versos)
+  readonly unnumbered = new Set<number>();
+
+  constructor(private content: BookContent, private options: BookLayoutOptions) {
+    const trim = BOOK_TRIM_SIZES[options.trimSize];
+    this.width = trim.width;
+    this.height = trim.height;
+    this.doc = new jsPDF({ unit: 'mm', format: [trim.width, trim.height], orientation: 'portrait' });
+    this.doc.setProperties({
+      title: content.title,
+      author: content.author || '',
+      creator: 'You, Remembered',
+    });
+  }
+
+  get page(): number {
+    return this.doc.getCurrentPageInfo().pageNumber;
+  }
+
+  get pageCount(): number {
+    return this.doc.getNumberOfPages();
+  }
+
+  // Odd pages are right-hand (recto): binding on the left
+  private left(page = this.page): number {
+    return page % 2 === 1 ? this.options.margins.inner : this.options.margins.outer;
+  }
+
+  get contentWidth(): number {
+    return this.width - this.options.margins.inner - this.options.margins.outer;
+  }
+
+  private get bottomLimit(): number {
+    return this.height - this.options.margins.bottom;
+  }
+
+  lineHeight(fontSize = this.options.fontSize): number {
+    return fontSize * PT_TO_MM * LINE_SPACING;
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = this.options.margins.top;
+  }
+
+  /**
+   * Start on the next right-hand page, inserting a blank verso if needed
+   */
+  newRectoPage() {
+    this.newPage();
+    if (this.page % 2 === 0) {
+      this.unnumbered.add(this.page);
+      this.newPage();
+    }
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > this.bottomLimit) this.newPage();
+  }
+
+  heading(text: string, fontSize = 18) {
+    this.doc.setFont(BODY_FONT, 'bold');
+    this.doc.setFontSize(fontSize);
+    const lines: string[] = this.doc.splitTextToSize(text, this.contentWidth);
+    this.y += this.lineHeight(fontSize) * 1.5;
+    for (const line of lines) {
+      this.ensureSpace(this.lineHeight(fontSize));
+      this.doc.text(line, this.left() + this.contentWidth / 2, this.y, { align: 'center' });
+      this.y += this.lineHeight(fontSize);
+    }
+    this.y += this.lineHeight() * 1.5;
+  }
+
+  paragraphs(text: string) {
+    this.doc.setFont(BODY_FONT, 'normal');
+    this.doc.setFontSize(this.options.fontSize);
+    const lineHeight = this.lineHeight();
+
+    const blocks = text.split(/\n{2,}|\n/).map(block => block.trim()).filter(Boolean);
+    for (const block of blocks) {
+      const lines: string[] = this.doc.splitTextToSize(block, this.contentWidth);
+      for (const line of lines) {
+        this.ensureSpace(lineHeight);
+        this.doc.text(line, this.left(), this.y + lineHeight * 0.75);
+        this.y += lineHeight;
+      }
+      this.y += lineHeight * 0.5;
+    }
+  }
+
+  image(data: Uint8Array, widthPx: number, heightPx: number, caption: string | null) {
+    const maxHeight = (this.bottomLimit - this.options.margins.top) * 0.45;
+    let width = this.contentWidth;
+    let height = (heightPx / widthPx) * width;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = (widthPx / heightPx) * height;
+    }
+
+    const captionHeight = caption ? this.lineHeight(this.options.fontSize - 2) * 1.5 : 0;
+    this.ensureSpace(height + captionHeight + this.lineHeight());
+    this.y += this.lineHeight() * 0.5;
+    this.doc.addImage(data, 'JPEG', this.left() + (this.contentWidth - width) / 2, this.y, width, height);
+    this.y += height;
+
+    if (caption) {
+      this.doc.setFont(BODY_FONT, 'italic');
+      this.doc.setFontSize(this.options.fontSize - 2);
+      this.y += this.lineHeight(this.options.fontSize - 2);
+      this.doc.text(caption, this.left() + this.contentWidth / 2, this.y, { align: 'center', maxWidth: this.contentWidth });
+    }
+    this.y += this.lineHeight();
+  }
+
+  titlePage() {
+    const center = this.left(1) + this.contentWidth / 2;
+    this.unnumbered.add(1);
+
+    this.doc.setFont(BODY_FONT, 'bold');
+    this.doc.setFontSize(26);
+    const titleLines: string[] = this.doc.splitTextToSize(this.content.title, this.contentWidth);
+    let y = this.height * 0.35;
+    for (const line of titleLines) {
+      this.doc.text(line, center, y, { align: 'center' });
+      y += this.lineHeight(26);
+    }
+
+    if (this.content.subtitle) {
+      this.doc.setFont(BODY_FONT, 'italic');
+      this.doc.setFontSize(13);
+      this.doc.text(this.content.subtitle, center, y + 6, { align: 'center', maxWidth: this.contentWidth });
+    }
+
+    if (this.content.author) {
+      this.doc.setFont(BODY_FONT, 'normal');
+      this.doc.setFontSize(14);
+      this.doc.text(this.content.author, center, this.height * 0.7, { align: 'center' });
+    }
+  }
+
+  /**
+   * Reserve pages for the table of contents; filled in once page numbers are known
+   */
+  reserveToc(entryCount: number): number {
+    const available = this.bottomLimit - this.options.margins.top - this.lineHeight(18) * 4;
+    const pages = Math.max(1, Math.ceil((entryCount * this.lineHeight() * 1.3) / available));
+    this.newRectoPage();
+    const firstPage = this.page;
+    for (let i = 1; i < pages; i++) this.newPage();
+    return firstPage;
+  }
+
+  fillToc(firstPage: number, entries: TocEntry[]) {
+    this.doc.setPage(firstPage);
+    this.y = this.options.margins.top;
+    this.heading('Contents');
+
+    this.doc.setFont(BODY_FONT, 'normal');
+    this.doc.setFontSize(this.options.fontSize);
+    let page = firstPage;
+    for (const entry of entries) {
+      if (this.y + this.lineHeight() > this.bottomLimit) {
+        page++;
+        this.doc.setPage(page);
+        this.y = this.options.margins.top;
+      }
+      const left = this.left(page);
+      const pageLabel = String(entry.page);
+      const title = this.truncate(entry.title, this.contentWidth - 15);
+      this.doc.text(title, left, this.y + this.lineHeight() * 0.75);
+      this.doc.text(pageLabel, left + this.contentWidth, this.y + this.lineHeight() * 0.75, { align: 'right' });
+
+      // Dot leader between title and page number
+      const dotsStart = left + this.doc.getTextWidth(title) + 2;
+      const dotsEnd = left + this.contentWidth - this.doc.getTextWidth(pageLabel) - 2;
+      if (dotsEnd > dotsStart) {
+        const dot = this.doc.getTextWidth('.');
+        const count = Math.floor((dotsEnd - dotsStart) / (dot * 2));
+        this.doc.text('. '.repeat(count).trim(), dotsEnd, this.y + this.lineHeight() * 0.75, { align: 'right' });
+      }
+      this.y += this.lineHeight() * 1.3;
+    }
+
+    this.doc.setPage(this.pageCount);
+  }
+
+  indexSection(title: string, entries: BookIndexEntry[], chapterPages: Map<number, number>) {
+    if (entries.length === 0) return;
+
+    this.doc.setFont(BODY_FONT, 'bold');
+    this.doc.setFontSize(this.options.fontSize + 1);
+    this.ensureSpace(this.lineHeight() * 3);
+    this.y += this.lineHeight();
+    this.doc.text(title, this.left(), this.y);
+    this.y += this.lineHeight();
+
+    this.doc.setFont(BODY_FONT, 'normal');
+    this.doc.setFontSize(this.options.fontSize - 1);
+    const lineHeight = this.lineHeight(this.options.fontSize - 1);
+    for (const entry of entries) {
+      const pages = [...new Set(entry.chapters.map(sequence => chapterPages.get(sequence)).filter(Boolean))];
+      const lines: string[] = this.doc.splitTextToSize(`${entry.name}, ${pages.join(', ')}`, this.contentWidth);
+      for (const line of lines) {
+        this.ensureSpace(lineHeight);
+        this.doc.text(line, this.left(), this.y + lineHeight * 0.75);
+        this.y += lineHeight;
+      }
+    }
+  }
+
+  pageNumbers() {
+    this.doc.setFont(BODY_FONT, 'normal');
+    this.doc.setFontSize(this.options.fontSize - 2);
+    for (let page = 1; page <= this.pageCount; page++) {
+      if (this.unnumbered.has(page)) continue;
+      this.doc.setPage(page);
+      const x = page % 2 === 1
+        ? this.width - this.options.margins.outer
+        : this.options.margins.outer;
+      this.doc.text(String(page), x, this.height - this.options.margins.bottom / 2, {
+        align: page % 2 === 1 ? 'right' : 'left',
+      });
+    }
+  }
+
+  private truncate(text: string, maxWidth: number): string {
+    if (this.doc.getTextWidth(text) <= maxWidth) return text;
+    let truncated = text;
+    while (truncated.length > 1 && this.doc.getTextWidth(`${truncated}…`) > maxWidth) {
+      truncated = truncated.slice(0, -1);
+    }
+    return `${truncated.trim()}…`;
+  }
+}
+
+/**
+ * Lay out the biography as a print-ready PDF
+ */
+export function renderBookPdf(content: BookContent, options: BookLayoutOptions): Blob {
+  const writer = new BookPdfWriter(content, options);
+  const toc: TocEntry[] = [];
+  const chapterPages = new Map<number, number>();
+  const hasIndex = content.index.people.length > 0 || content.index.places.length > 0;
+
+  writer.titlePage();
+
+  const tocEntryCount = content.chapters.length + 2 + (hasIndex ? 1 : 0);
+  const tocPage = writer.reserveToc(tocEntryCount);
+
+  if (content.introduction) {
+    writer.newRectoPage();
+    toc.push({ title: 'Introduction', page: writer.page });
+    writer.doc.outline.add(null, 'Introduction', { pageNumber: writer.page });
+    writer.heading('Introduction');
+    writer.paragraphs(content.introduction);
+  }
+
+  for (const chapter of content.chapters) {
+    writer.newRectoPage();
+    chapterPages.set(chapter.sequence, writer.page);
+    toc.push({ title: `${chapter.sequence}. ${chapter.title}`, page: writer.page });
+    writer.doc.outline.add(null, chapter.title, { pageNumber: writer.page });
+
+    writer.heading(chapter.title);
+    writer.paragraphs(chapter.content);
+    if (options.includeImages) {
+      for (const image of chapter.images) {
+        writer.image(image.data, image.width, image.height, image.caption);
+      }
+    }
+  }
+
+  if (content.conclusion) {
+    writer.newRectoPage();
+    toc.push({ title: 'Conclusion', page: writer.page });
+    writer.doc.outline.add(null, 'Conclusion', { pageNumber: writer.page });
+    writer.heading('Conclusion');
+    writer.paragraphs(content.conclusion);
+  }
+
+  if (hasIndex) {
+    writer.newRectoPage();
+    toc.push({ title: 'Index of People and Places', page: writer.page });
+    writer.doc.outline.add(null, 'Index', { pageNumber: writer.page });
+    writer.heading('Index');
+    writer.indexSection('People', content.index.people, chapterPages);
+    writer.indexSection('Places', content.index.places, chapterPages);
+  }
+
+  writer.fillToc(tocPage, toc);
+  writer.pageNumbers();
+
+  return writer.doc.output('blob');
+}
@@ -0,0 +1,364 @@
+/**
+ * IMPORT PARSERS
+ *
+ * Turn exports from other journaling/chat apps into memory-shaped entries.
+ * Every parser takes the files the user picked (a folder upload keeps
+ * `webkitRelativePath`) and never touches the database.
+ */
+
+export type ImportSource = 'dayone' | 'markdown' | 'keep' | 'whatsapp';
+
+export interface ImportedEntry {
+  source: ImportSource;
+  sourceId: string; // Stable id within the source, used for re-import dedup
+  title: string;
+  text: string;
+  memoryDate: string | null; // YYYY-MM-DD
+  location: string | null;
+  tags: string[];
+  attachments: File[];
+}
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  dayone: 'Day One',
+  markdown: 'Markdown / Obsidian',
+  keep: 'Google Keep',
+  whatsapp: 'WhatsApp chat',
+};
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|heic|heif)$/i;
+const MAX_TITLE_LENGTH = 80;
+
+const filePath = (file: File) => (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+const baseName = (path: string) => path.split('/').pop() || path;
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+function parseDate(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : toDateString(date);
+}
+
+function titleFromText(text: string, fallback: string): string {
+  const firstLine = text.split('\n').map(line => line.replace(/^#+\s*/, '').trim()).find(Boolean);
+  if (!firstLine) return fallback;
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1).trim()}…` : firstLine;
+}
+
+function uniqueTags(tags: (string | null | undefined)[]): string[] {
+  return [...new Set(tags.map(tag => tag?.trim().replace(/^#/, '').toLowerCase()).filter((tag): tag is string => !!tag))];
+}
+
+function indexFilesByName(files: File[]): Map<string, File> {
+  const index = new Map<string, File>();
+  for (const file of files) index.set(baseName(filePath(file)).toLowerCase(), file);
+  return index;
+}
+
+// ---------------------------------------------------------------------------
+// Day One (JSON export: Journal.json + photos/<md5>.<type>)
+// ---------------------------------------------------------------------------
+
+interface DayOneEntry {
+  uuid: string;
+  creationDate?: string;
+  text?: string;
+  tags?: string[];
+  location?: { placeName?: string; localityName?: string; administrativeArea?: string; country?: string };
+  photos?: { identifier: string; md5?: string; type?: string }[];
+}
+
+export async function parseDayOne(files: File[]): Promise<ImportedEntry[]> {
+  const journals = files.filter(file => file.name.toLowerCase().endsWith('.json'));
+  const byName = indexFilesByName(files);
+  const entries: ImportedEntry[] = [];
+
+  for (const journal of journals) {
+    const data = JSON.parse(await journal.text());
+    if (!Array.isArray(data?.entries)) continue;
+
+    for (const entry of data.entries as DayOneEntry[]) {
+      const attachments = (entry.photos || [])
+        .map(photo => byName.get(`${photo.md5}.${photo.type || 'jpeg'}`.toLowerCase()))
+        .filter((file): file is File => !!file);
+
+      // Inline photo references only make sense inside Day One
+      const text = (entry.text || '')
+        .replace(/!\[[^\]]*\]\(dayone-moment:\/\/[^)]+\)/g, '')
+        .replace(/\\([.!#()[\]-])/g, '$1')
+        .trim();
+      if (!text && attachments.length === 0) continue;
+
+      const location = entry.location
+        ? [entry.location.placeName, entry.location.localityName, entry.location.country].filter(Boolean).join(', ')
+        : '';
+
+      entries.push({
+        source: 'dayone',
+        sourceId: entry.uuid,
+        title: titleFromText(text, 'Day One entry'),
+        text,
+        memoryDate: parseDate(entry.creationDate),
+        location: location || null,
+        tags: uniqueTags(entry.tags || []),
+        attachments,
+      });
+    }
+  }
+
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown / Obsidian folder
+// ---------------------------------------------------------------------------
+
+function parseFrontmatter(markdown: string): { data: Record<string, string | string[]>; body: string } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { data: {}, body: markdown };
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const listItem = line.match(/^\s+-\s+(.*)$/);
+    if (listItem && listKey) {
+      data[listKey] = [...((data[listKey] as string[]) || []), listItem[1].replace(/^["']|["']$/g, '')];
+      continue;
+    }
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, raw] = pair;
+    const value = raw.trim();
+    if (!value) {
+      listKey = key.toLowerCase();
+      data[listKey] = [];
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      listKey = null;
+      data[key.toLowerCase()] = value.slice(1, -1).split(',').map(item => item.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+    } else {
+      listKey = null;
+      data[key.toLowerCase()] = value.replace(/^["']|["']$/g, '');
+    }
+  }
+
+  return { data, body: markdown.slice(match[0].length) };
+}
+
+export async function parseMarkdown(files: File[]): Promise<ImportedEntry[]> {
+  const byName = indexFilesByName(files);
+  const entries: ImportedEntry[] = [];
+
+  for (const file of files) {
+    const path = filePath(file);
+    if (!/\.(md|markdown)$/i.test(path) || path.split('/').some(part => part.startsWith('.'))) continue;
+
+    const { data, body } = parseFrontmatter(await file.text());
+    const attachments: File[] = [];
+    const attach = (reference: string) => {
+      const target = byName.get(baseName(safeDecode(reference.split('|')[0])).toLowerCase());
+      if (target && IMAGE_EXTENSIONS.test(target.name) && !attachments.includes(target)) attachments.push(target);
+    };
+
+    const text = body
+      // Obsidian embeds ![[image.png]] and standard images ![alt](path)
+      .replace(/!\[\[([^\]]+)\]\]/g, (_, reference: string) => { attach(reference); return ''; })
+      .replace(/!\[[^\]]*\]\(([^)\s]+)[^)]*\)/g, (_, reference: string) => { attach(reference); return ''; })
+      // Wiki links [[Note|alias]] -> alias
+      .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+      .replace(/\[\[([^\]]+)\]\]/g, '$1')
+      .trim();
+    if (!text && attachments.length === 0) continue;
+
+    const name = stripExtension(baseName(path));
+    const dateFromName = name.match(/\d{4}-\d{2}-\d{2}/)?.[0] ?? null;
+    const frontmatterTags = Array.isArray(data.tags) ? data.tags : typeof data.tags === 'string' ? data.tags.split(/[,\s]+/) : [];
+    const inlineTags = [...text.matchAll(/(?:^|\s)#([\p{L}\d_/-]+)/gu)].map(match => match[1]);
+    const heading = text.match(/^#\s+(.+)$/m)?.[1];
+
+    entries.push({
+      source: 'markdown',
+      sourceId: path,
+      title: (typeof data.title === 'string' && data.title) || heading || (dateFromName && name === dateFromName ? titleFromText(text, name) : name),
+      text,
+      memoryDate: parseDate(data.date || data.created) || dateFromName || toDateString(new Date(file.lastModified)),
+      location: typeof data.location === 'string' ? data.location : null,
+      tags: uniqueTags([...frontmatterTags, ...inlineTags]),
+      attachments,
+    });
+  }
+
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// Google Takeout Keep (Takeout/Keep/*.json + attachment files)
+// ---------------------------------------------------------------------------
+
+interface KeepNote {
+  title?: string;
+  textContent?: string;
+  listContent?: { text: string; isChecked: boolean }[];
+  labels?: { name: string }[];
+  attachments?: { filePath: string; mimetype?: string }[];
+  isTrashed?: boolean;
+  createdTimestampUsec?: number;
+  userEditedTimestampUsec?: number;
+}
+
+export async function parseKeep(files: File[]): Promise<ImportedEntry[]> {
+  const byName = indexFilesByName(files);
+  const entries: ImportedEntry[] = [];
+
+  for (const file of files) {
+    if (!file.name.toLowerCase().endsWith('.json')) continue;
+
+    let note: KeepNote;
+    try {
+      note = JSON.parse(await file.text());
+    } catch {
+      continue;
+    }
+    if (note.isTrashed || (note.textContent === undefined && note.listContent === undefined)) continue;
+
+    const text = (note.textContent ?? (note.listContent || [])
+      .map(item => `${item.isChecked ? '[x]' : '[ ]'} ${item.text}`)
+      .join('\n')).trim();
+    const attachments = (note.attachments || [])
+      .map(attachment => byName.get(baseName(attachment.filePath).toLowerCase()))
+      .filter((attachment): attachment is File => !!attachment);
+    if (!text && attachments.length === 0) continue;
+
+    const timestamp = note.createdTimestampUsec || note.userEditedTimestampUsec;
+
+    entries.push({
+      source: 'keep',
+      sourceId: filePath(file),
+      title: note.title?.trim() || titleFromText(text, 'Keep note'),
+      text,
+      memoryDate: timestamp ? toDateString(new Date(timestamp / 1000)) : null,
+      location: null,
+      tags: uniqueTags((note.labels || []).map(label => label.name)),
+      attachments,
+    });
+  }
+
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// WhatsApp chat export (.txt, optionally with attached media)
+// ---------------------------------------------------------------------------
+
+interface ChatMessage {
+  date: string;
+  time: string;
+  sender: string;
+  text: string;
+}
+
+// "12/31/20, 9:15 PM - Name: text" (Android) or "[31.12.20, 21:15:03] Name: text" (iOS)
+const WHATSAPP_LINE = /^\u200e?\[?(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4}),?\s+(\d{1,2}:\d{2}(?::\d{2})?(?:\s?[AaPp]\.?[Mm]\.?)?)\]?\s*(?:-\s*)?([^:]+?):\s([\s\S]*)$/;
+const WHATSAPP_ATTACHMENT = /(?:<attached:\s*([^>]+)>|([\w-]+\.\w{2,4})\s+\(file attached\))/;
+
+function whatsAppDate(first: number, second: number, third: number, dayFirst: boolean): string | null {
+  let year: number, month: number, day: number;
+  if (first > 999) {
+    [year, month, day] = [first, second, third];
+  } else {
+    year = third < 100 ? 2000 + third : third;
+    [day, month] = dayFirst ? [first, second] : [second, first];
+  }
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export async function parseWhatsAppChat(files: File[]): Promise<ImportedEntry[]> {
+  const byName = indexFilesByName(files);
+  const entries: ImportedEntry[] = [];
+
+  for (const file of files.filter(candidate => candidate.name.toLowerCase().endsWith('.txt'))) {
+    const lines = (await file.text()).split(/\r?\n/);
+    const raw: { parts: number[]; time: string; sender: string; text: string }[] = [];
+
+    for (const line of lines) {
+      const match = line.match(WHATSAPP_LINE);
+      if (match) {
+        raw.push({
+          parts: [Number(match[1]), Number(match[2]), Number(match[3])],
+          time: match[4],
+          sender: match[5].trim(),
+          text: match[6],
+        });
+      } else if (raw.length > 0 && line.trim()) {
+        raw[raw.length - 1].text += `\n${line}`;
+      }
+    }
+    if (raw.length === 0) continue;
+
+    // Exports don't say whether dates are D/M or M/D; any first field > 12 settles it
+    const dayFirst = raw.some(message => message.parts[0] <= 31 && message.parts[0] > 12);
+    const messages: ChatMessage[] = raw
+      .map(message => ({
+        date: whatsAppDate(message.parts[0], message.parts[1], message.parts[2], dayFirst) || '',
+        time: message.time,
+        sender: message.sender,
+        text: message.text.replace(/\u200e/g, '').trim(),
+      }))
+      .filter(message => message.date);
+
+    const chatName = stripExtension(file.name).replace(/^WhatsApp Chat (with|-)\s*/i, '').trim() || 'WhatsApp chat';
+
+    // One memory per conversation day
+    const days = new Map<string, ChatMessage[]>();
+    for (const message of messages) {
+      if (!days.has(message.date)) days.set(message.date, []);
+      days.get(message.date)!.push(message);
+    }
+
+    for (const [date, dayMessages] of days.entries()) {
+      const attachments: File[] = [];
+      const text = dayMessages
+        .map(message => {
+          const attachment = message.text.match(WHATSAPP_ATTACHMENT);
+          const attachedFile = attachment ? byName.get((attachment[1] || attachment[2]).trim().toLowerCase()) : undefined;
+          if (attachedFile && IMAGE_EXTENSIONS.test(attachedFile.name)) attachments.push(attachedFile);
+          const body = attachment ? message.text.replace(WHATSAPP_ATTACHMENT, '[attachment]').trim() : message.text;
+          return `${message.sender} (${message.time}): ${body}`;
+        })
+        .join('\n');
+
+      entries.push({
+        source: 'whatsapp',
+        sourceId: `${file.name}#${date}`,
+        title: `${chatName} — ${date}`,
+        text,
+        memoryDate: date,
+        location: null,
+        tags: uniqueTags(['whatsapp', chatName]),
+        attachments,
+      });
+    }
+  }
+
+  return entries;
+}
+
+export const IMPORT_PARSERS: Record<ImportSource, (files: File[]) => Promise<ImportedEntry[]>> = {
+  dayone: parseDayOne,
+  markdown: parseMarkdown,
+  keep: parseKeep,
+  whatsapp: parseWhatsAppChat,
+};
@@ -0,0 +1,162 @@
+/**
+ * Relationship graph for the people directory: the user in the middle, each
+ * person linked to them, and people linked to each other when they appear in
+ * the same memories. Laid out with a small force simulation so no graph
+ * library is needed.
+ */
+import { Person, PersonMention, PeopleGraph, PeopleGraphEdge, PeopleGraphNode } from '@/types/people';
+
+export const SELF_NODE_ID = 'self';
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Build the graph from visible people. With focusId, only that person, the
+ * people they share memories with and the user are kept.
+ */
+export function buildPeopleGraph(
+  people: Person[],
+  mentions: PersonMention[],
+  selfLabel: string,
+  focusId?: string
+): PeopleGraph {
+  const visible = new Map(people.filter(person => !person.is_hidden).map(person => [person.id, person]));
+
+  // memory group → people in it
+  const groups = new Map<string, Set<string>>();
+  for (const mention of mentions) {
+    if (!visible.has(mention.person_id)) continue;
+    const members = groups.get(mention.memory_group_id) || new Set<string>();
+    members.add(mention.person_id);
+    groups.set(mention.memory_group_id, members);
+  }
+
+  const weights = new Map<string, number>();
+  const pairs = new Map<string, number>();
+  for (const members of groups.values()) {
+    const ids = [...members].sort();
+    ids.forEach(id => weights.set(id, (weights.get(id) || 0) + 1));
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const key = `${ids[i]}|${ids[j]}`;
+        pairs.set(key, (pairs.get(key) || 0) + 1);
+      }
+    }
+  }
+
+  let included = new Set(visible.keys());
+  if (focusId) {
+    included = new Set([focusId]);
+    for (const key of pairs.keys()) {
+      const [a, b] = key.split('|');
+      if (a === focusId) included.add(b);
+      if (b === focusId) included.add(a);
+    }
+  }
+
+  const nodes: PeopleGraphNode[] = [
+    { id: SELF_NODE_ID, label: selfLabel, group: 'self', weight: 0 },
+    ...[...included].filter(id => visible.has(id)).map(id => {
+      const person = visible.get(id)!;
+      return { id, label: person.display_name, group: person.relationship_group, weight: weights.get(id) || 0 };
+    }),
+  ];
+
+  const edges: PeopleGraphEdge[] = nodes
+    .filter(node => node.id !== SELF_NODE_ID)
+    .map(node => ({
+      source: SELF_NODE_ID,
+      target: node.id,
+      weight: 0,
+      label: visible.get(node.id)?.relationship || undefined,
+    }));
+
+  for (const [key, weight] of pairs) {
+    const [a, b] = key.split('|');
+    if (included.has(a) && included.has(b)) edges.push({ source: a, target: b, weight });
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Fruchterman–Reingold layout in a width × height box. Starts from a circle
+ * (so the same graph always lands the same way) with the user pinned in the
+ * centre, or the focused person when given.
+ */
+export function layoutPeopleGraph(
+  graph: PeopleGraph,
+  width: number,
+  height: number,
+  pinnedId: string = SELF_NODE_ID,
+  iterations = 200
+): Map<string, GraphPoint> {
+  const centre = { x: width / 2, y: height / 2 };
+  const positions = new Map<string, GraphPoint>();
+  const others = graph.nodes.filter(node => node.id !== pinnedId);
+  const radius = Math.min(width, height) * 0.35;
+
+  positions.set(pinnedId, { ...centre });
+  others.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / Math.max(others.length, 1);
+    positions.set(node.id, { x: centre.x + radius * Math.cos(angle), y: centre.y + radius * Math.sin(angle) });
+  });
+
+  const k = Math.sqrt((width * height) / Math.max(graph.nodes.length, 1)) * 0.6;
+  let temperature = Math.min(width, height) / 10;
+
+  for (let step = 0; step < iterations; step++) {
+    const shift = new Map<string, GraphPoint>(graph.nodes.map(node => [node.id, { x: 0, y: 0 }]));
+
+    // Every pair repels
+    for (let i = 0; i < graph.nodes.length; i++) {
+      for (let j = i + 1; j < graph.nodes.length; j++) {
+        const a = positions.get(graph.nodes[i].id)!;
+        const b = positions.get(graph.nodes[j].id)!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const force = (k * k) / distance;
+        const sa = shift.get(graph.nodes[i].id)!;
+        const sb = shift.get(graph.nodes[j].id)!;
+        sa.x += (dx / distance) * force;
+        sa.y += (dy / distance) * force;
+        sb.x -= (dx / distance) * force;
+        sb.y -= (dy / distance) * force;
+      }
+    }
+
+    // Edges attract, more strongly the more memories they share
+    for (const edge of graph.edges) {
+      const a = positions.get(edge.source);
+      const b = positions.get(edge.target);
+      if (!a || !b) continue;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = ((distance * distance) / k) * (1 + Math.log1p(edge.weight));
+      const sa = shift.get(edge.source)!;
+      const sb = shift.get(edge.target)!;
+      sa.x -= (dx / distance) * force;
+      sa.y -= (dy / distance) * force;
+      sb.x += (dx / distance) * force;
+      sb.y += (dy / distance) * force;
+    }
+
+    for (const node of graph.nodes) {
+      if (node.id === pinnedId) continue;
+      const point = positions.get(node.id)!;
+      const { x, y } = shift.get(node.id)!;
+      const length = Math.sqrt(x * x + y * y) || 1;
+      point.x = Math.min(width - 24, Math.max(24, point.x + (x / length) * Math.min(length, temperature)));
+      point.y = Math.min(height - 24, Math.max(24, point.y + (y / length) * Math.min(length, temperature)));
+    }
+
+    temperature *= 0.97;
+  }
+
+  return positions;
+}
@@ -0,0 +1,94 @@
+/**
+ * TEXT DIFF UTILITIES
+ *
+ * Small LCS-based diff used to compare memory revisions side by side.
+ * Diffs by word (keeping whitespace attached) and falls back to lines for very
+ * long texts so the O(n*m) table stays small.
+ */
+
+export type DiffOperation = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  value: string;
+}
+
+// Above this many table cells we diff lines instead of words
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function diffTokens(before: string[], after: string[]): DiffSegment[] {
+  const n = before.length;
+  const m = after.length;
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffOperation, value: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      segments.push({ type, value });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      push('equal', before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < n) push('removed', before[i++]);
+  while (j < m) push('added', after[j++]);
+
+  return segments;
+}
+
+/**
+ * Diff two texts into equal / added / removed segments
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  const a = before || '';
+  const b = after || '';
+  if (a === b) return a ? [{ type: 'equal', value: a }] : [];
+
+  const words = [tokenizeWords(a), tokenizeWords(b)];
+  if ((words[0].length + 1) * (words[1].length + 1) <= MAX_WORD_DIFF_CELLS) {
+    return diffTokens(words[0], words[1]);
+  }
+
+  return diffTokens(tokenizeLines(a), tokenizeLines(b));
+}
+
+/**
+ * Split a diff into the two sides of a side-by-side view
+ */
+export function toSideBySide(segments: DiffSegment[]): { left: DiffSegment[]; right: DiffSegment[] } {
+  return {
+    left: segments.filter(segment => segment.type !== 'added'),
+    right: segments.filter(segment => segment.type !== 'removed'),
+  };
+}
@@ -0,0 +1,134 @@
+// Email replies through Postmark: inbound mail is posted to the webhook as
+// JSON (authenticated by ?token=EMAIL_INBOUND_TOKEN in the webhook URL) and
+// replies go out through the Postmark API, threaded onto the sender's email.
+// Only the new part of a reply is read (StrippedTextReply), not the quote.
+import { decode as decodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { mediaTypeFor } from "./channel-types.ts";
+import type { ChannelAdapter, DownloadedMedia, InboundMedia, InboundMessage, OutboundMessage, SendResult } from "./channel-types.ts";
+
+export class EmailAdapter implements ChannelAdapter {
+  channel = 'email' as const;
+  provider = 'postmark';
+  voiceReplies = false;
+  italics = false;
+  serverToken: string;
+  inboundToken: string;
+  fromAddress: string;
+  replyToAddress: string;
+  // Attachments arrive inline; downloadMedia reads them from here
+  private attachments = new Map<string, DownloadedMedia>();
+
+  constructor() {
+    this.serverToken = Deno.env.get('POSTMARK_SERVER_TOKEN') || '';
+    this.inboundToken = Deno.env.get('EMAIL_INBOUND_TOKEN') || '';
+    this.fromAddress = Deno.env.get('SOLIN_EMAIL_FROM') || '';
+    this.replyToAddress = Deno.env.get('SOLIN_EMAIL_REPLY_TO') || this.fromAddress;
+
+    if (!this.serverToken || !this.inboundToken || !this.fromAddress) {
+      console.warn('⚠️ Email channel not configured');
+    }
+  }
+
+  async verifyWebhook(_request: Request) {
+    return false;
+  }
+
+  async authenticate(request: Request, _rawBody: string) {
+    const token = new URL(request.url).searchParams.get('token');
+    return !!this.inboundToken && token === this.inboundToken;
+  }
+
+  async parseIncomingMessage(rawBody: string): Promise<InboundMessage | null> {
+    try {
+      const email = JSON.parse(rawBody);
+      const from = (email.FromFull?.Email || email.From || '').trim().toLowerCase();
+      if (!from) return null;
+
+      // Don't answer auto-replies (out of office, bounces)
+      const headers: { Name: string; Value: string }[] = email.Headers || [];
+      const header = (name: string) => headers.find(h => h.Name.toLowerCase() === name.toLowerCase())?.Value || null;
+      const autoSubmitted = header('Auto-Submitted');
+      if (autoSubmitted && autoSubmitted !== 'no') return null;
+
+      const media: InboundMedia[] = [];
+      for (const [index, attachment] of (email.Attachments || []).entries()) {
+        const type = mediaTypeFor(attachment.ContentType || '');
+        if (!type || !attachment.Content) continue;
+
+        const ref = `attachment-${index}`;
+        this.attachments.set(ref, {
+          data: decodeBase64(attachment.Content).buffer as ArrayBuffer,
+          mimeType: attachment.ContentType
+        });
+        media.push({ ref, type, mimeType: attachment.ContentType });
+      }
+
+      const text = (email.StrippedTextReply || email.TextBody || '').trim();
+      if (!text && media.length === 0) return null;
+
+      return {
+        channel: 'email',
+        provider: this.provider,
+        from,
+        text: text || (media.some(m => m.type === 'audio') ? '[Voice Note]' : ''),
+        messageId: email.MessageID,
+        media,
+        senderName: email.FromFull?.Name || null,
+        subject: email.Subject || null,
+        threadId: header('Message-ID'),
+      };
+    } catch (error) {
+      console.error('❌ Error parsing inbound email:', error);
+      return null;
+    }
+  }
+
+  async downloadMedia(ref: string): Promise<DownloadedMedia | null> {
+    return this.attachments.get(ref) || null;
+  }
+
+  async sendMessage(options: OutboundMessage): Promise<SendResult> {
+    try {
+      const original = options.inReplyTo;
+      const subject = original?.subject
+        ? (/^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`)
+        : options.subject || 'A note from Solin';
+
+      const response = await fetch('https://api.postmarkapp.com/email', {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          'X-Postmark-Server-Token': this.serverToken
+        },
+        body: JSON.stringify({
+          From: this.fromAddress,
+          ReplyTo: this.replyToAddress,
+          To: options.to,
+          Subject: subject,
+          TextBody: options.text || '',
+          MessageStream: 'outbound',
+          Headers: original?.threadId
+            ? [
+                { Name: 'In-Reply-To', Value: original.threadId },
+                { Name: 'References', Value: original.threadId }
+              ]
+            : []
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(`Postmark API error: ${JSON.stringify(result)}`);
+      }
+
+      return { success: true, messageId: result.MessageID };
+    } catch (error) {
+      console.error('❌ Error sending email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
@@ -0,0 +1,143 @@
+// Telegram Bot API. The webhook is registered with setWebhook and
+// secret_token = TELEGRAM_WEBHOOK_SECRET, which Telegram echoes in the
+// X-Telegram-Bot-Api-Secret-Token header of every update.
+import { splitWhatsAppText } from "./whatsapp-send.ts";
+import { audioFilenameFor } from "./speech-providers.ts";
+import type { ChannelAdapter, DownloadedMedia, InboundMedia, InboundMessage, OutboundMessage, SendResult } from "./channel-types.ts";
+
+const TELEGRAM_MAX_TEXT_LENGTH = 4096;
+
+export class TelegramAdapter implements ChannelAdapter {
+  channel = 'telegram' as const;
+  provider = 'telegram';
+  voiceReplies = true;
+  italics = false;
+  botToken: string;
+  webhookSecret: string;
+
+  constructor() {
+    this.botToken = Deno.env.get('TELEGRAM_BOT_TOKEN') || '';
+    this.webhookSecret = Deno.env.get('TELEGRAM_WEBHOOK_SECRET') || '';
+
+    if (!this.botToken || !this.webhookSecret) {
+      console.warn('⚠️ Telegram bot token or webhook secret not configured');
+    }
+  }
+
+  private api(method: string) {
+    return `https://api.telegram.org/bot${this.botToken}/${method}`;
+  }
+
+  // Telegram has no GET handshake
+  async verifyWebhook(_request: Request) {
+    return false;
+  }
+
+  async authenticate(request: Request, _rawBody: string) {
+    return !!this.webhookSecret &&
+      request.headers.get('X-Telegram-Bot-Api-Secret-Token') === this.webhookSecret;
+  }
+
+  async parseIncomingMessage(rawBody: string): Promise<InboundMessage | null> {
+    try {
+      const update = JSON.parse(rawBody);
+      const message = update.message;
+      // Private chats only; edits, channel posts and group messages are ignored
+      if (!message?.chat?.id || message.chat.type !== 'private') return null;
+
+      const media: InboundMedia[] = [];
+      let text = message.text || message.caption || '';
+
+      if (message.photo?.length) {
+        // Sizes are ordered small to large
+        media.push({ ref: message.photo[message.photo.length - 1].file_id, type: 'image', mimeType: 'image/jpeg' });
+      } else if (message.video) {
+        media.push({ ref: message.video.file_id, type: 'video', mimeType: message.video.mime_type || 'video/mp4' });
+      } else if (message.voice || message.audio) {
+        const audio = message.voice || message.audio;
+        media.push({ ref: audio.file_id, type: 'audio', mimeType: audio.mime_type || 'audio/ogg' });
+        text = '[Voice Note]';
+      } else if (message.document?.mime_type?.startsWith('image/')) {
+        media.push({ ref: message.document.file_id, type: 'image', mimeType: message.document.mime_type });
+      }
+
+      if (!text && media.length === 0) return null;
+
+      return {
+        channel: 'telegram',
+        provider: this.provider,
+        from: String(message.chat.id),
+        text,
+        messageId: String(message.message_id),
+        media,
+        senderName: message.from?.first_name || null,
+      };
+    } catch (error) {
+      console.error('❌ Error parsing Telegram update:', error);
+      return null;
+    }
+  }
+
+  async downloadMedia(fileId: string): Promise<DownloadedMedia | null> {
+    try {
+      const fileResponse = await fetch(this.api('getFile'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ file_id: fileId })
+      });
+      const file = await fileResponse.json();
+      if (!file.ok || !file.result?.file_path) throw new Error('No file path returned');
+
+      const mediaResponse = await fetch(`https://api.telegram.org/file/bot${this.botToken}/${file.result.file_path}`);
+      if (!mediaResponse.ok) throw new Error('Failed to download media');
+
+      return {
+        data: await mediaResponse.arrayBuffer(),
+        mimeType: mediaResponse.headers.get('content-type') || 'application/octet-stream'
+      };
+    } catch (error) {
+      console.error('❌ Error downloading Telegram media:', error);
+      return null;
+    }
+  }
+
+  async sendMessage(options: OutboundMessage): Promise<SendResult> {
+    try {
+      if (options.audio) {
+        // Voice messages must be OGG/Opus; anything else is sent as an audio file
+        const isVoice = options.audio.mimeType.includes('ogg');
+        const form = new FormData();
+        form.append('chat_id', options.to);
+        form.append(
+          isVoice ? 'voice' : 'audio',
+          new Blob([options.audio.data], { type: options.audio.mimeType }),
+          audioFilenameFor(options.audio.mimeType)
+        );
+
+        const response = await fetch(this.api(isVoice ? 'sendVoice' : 'sendAudio'), { method: 'POST', body: form });
+        const result = await response.json();
+        if (!result.ok) throw new Error(`Telegram API error: ${JSON.stringify(result)}`);
+        return { success: true, messageId: String(result.result?.message_id) };
+      }
+
+      let sent: SendResult = { success: false, error: 'Empty message' };
+      for (const part of splitWhatsAppText(options.text || '', TELEGRAM_MAX_TEXT_LENGTH)) {
+        const response = await fetch(this.api('sendMessage'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ chat_id: options.to, text: part })
+        });
+        const result = await response.json();
+        if (!result.ok) throw new Error(`Telegram API error: ${JSON.stringify(result)}`);
+        sent = { success: true, messageId: String(result.result?.message_id) };
+      }
+      return sent;
+    } catch (error) {
+      console.error('❌ Error sending Telegram message:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
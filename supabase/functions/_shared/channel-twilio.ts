@@ -0,0 +1,155 @@
+// Twilio Programmable Messaging, for WhatsApp (whatsapp:+… addresses, from
+// TWILIO_WHATSAPP_NUMBER) and SMS/MMS (from TWILIO_SMS_NUMBER). Both post the
+// same form-encoded webhook and share the Messages API.
+import { splitWhatsAppText } from "./whatsapp-send.ts";
+import { hmacBase64, publicWebhookUrls, timingSafeEqual } from "./webhook-signature.ts";
+import { mediaTypeFor } from "./channel-types.ts";
+import type { ChannelAdapter, DownloadedMedia, InboundMedia, InboundMessage, OutboundMessage, SendResult } from "./channel-types.ts";
+
+// Twilio concatenates long SMS up to 1600 characters
+const SMS_MAX_TEXT_LENGTH = 1600;
+
+export class TwilioAdapter implements ChannelAdapter {
+  channel: 'whatsapp' | 'sms';
+  provider = 'twilio';
+  voiceReplies = false;
+  italics: boolean;
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  addressPrefix: string;
+
+  constructor(channel: 'whatsapp' | 'sms') {
+    this.channel = channel;
+    this.italics = channel === 'whatsapp';
+    this.addressPrefix = channel === 'whatsapp' ? 'whatsapp:' : '';
+    this.accountSid = Deno.env.get('TWILIO_ACCOUNT_SID') || '';
+    this.authToken = Deno.env.get('TWILIO_AUTH_TOKEN') || '';
+    this.fromNumber = channel === 'whatsapp'
+      ? Deno.env.get('TWILIO_WHATSAPP_NUMBER') || 'whatsapp:+14155238886'
+      : Deno.env.get('TWILIO_SMS_NUMBER') || '';
+
+    if (!this.accountSid || !this.authToken || !this.fromNumber) {
+      console.warn(`⚠️ Twilio ${channel} credentials not configured`);
+    }
+  }
+
+  private get authorization() {
+    return 'Basic ' + btoa(`${this.accountSid}:${this.authToken}`);
+  }
+
+  async verifyWebhook(_request: Request) {
+    return true;
+  }
+
+  /**
+   * X-Twilio-Signature: base64 HMAC-SHA1, keyed with the auth token, of the
+   * webhook URL followed by every form parameter name and value sorted by name
+   */
+  async authenticate(request: Request, rawBody: string) {
+    const signature = request.headers.get('X-Twilio-Signature');
+    if (!this.authToken || !signature) return false;
+
+    const params = [...new URLSearchParams(rawBody).entries()]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, value]) => name + value)
+      .join('');
+
+    for (const url of publicWebhookUrls(request)) {
+      if (timingSafeEqual(signature, await hmacBase64('SHA-1', this.authToken, url + params))) return true;
+    }
+    return false;
+  }
+
+  async parseIncomingMessage(rawBody: string): Promise<InboundMessage | null> {
+    try {
+      const form = new URLSearchParams(rawBody);
+
+      const from = (form.get('From') || '').replace('whatsapp:', '');
+      const messageSid = form.get('MessageSid') || '';
+      const numMedia = parseInt(form.get('NumMedia') || '0');
+      if (!from || !messageSid) return null;
+
+      let text = form.get('Body') || '';
+      const media: InboundMedia[] = [];
+
+      for (let i = 0; i < numMedia; i++) {
+        const mediaUrl = form.get(`MediaUrl${i}`);
+        const contentType = form.get(`MediaContentType${i}`);
+        const type = contentType ? mediaTypeFor(contentType) : null;
+        if (!mediaUrl || !contentType || !type) continue;
+
+        media.push({ ref: mediaUrl, type, mimeType: contentType });
+        if (type === 'audio') text = '[Voice Note]';
+      }
+
+      return {
+        channel: this.channel,
+        provider: this.provider,
+        from,
+        text,
+        messageId: messageSid,
+        media,
+        senderName: form.get('ProfileName') || null,
+      };
+    } catch (error) {
+      console.error('❌ Error parsing Twilio message:', error);
+      return null;
+    }
+  }
+
+  async downloadMedia(mediaUrl: string): Promise<DownloadedMedia | null> {
+    try {
+      const response = await fetch(mediaUrl, {
+        headers: { 'Authorization': this.authorization }
+      });
+
+      if (!response.ok) throw new Error('Failed to download media from Twilio');
+
+      return {
+        data: await response.arrayBuffer(),
+        mimeType: response.headers.get('content-type') || 'application/octet-stream'
+      };
+    } catch (error) {
+      console.error('❌ Error downloading Twilio media:', error);
+      return null;
+    }
+  }
+
+  async sendMessage(options: OutboundMessage): Promise<SendResult> {
+    try {
+      const url = `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
+      const maxLength = this.channel === 'sms' ? SMS_MAX_TEXT_LENGTH : undefined;
+      let result: SendResult = { success: false, error: 'Empty message' };
+
+      for (const part of splitWhatsAppText(options.text || '', maxLength)) {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Authorization': this.authorization,
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          body: new URLSearchParams({
+            From: this.fromNumber,
+            To: `${this.addressPrefix}${options.to}`,
+            Body: part
+          }).toString()
+        });
+
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(`Twilio API error: ${JSON.stringify(body)}`);
+        }
+        result = { success: true, messageId: body.sid };
+      }
+
+      return result;
+    } catch (error) {
+      console.error('❌ Error sending Twilio message:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
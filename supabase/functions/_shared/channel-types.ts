@@ -0,0 +1,87 @@
+// Messaging channels Solin can be reached on. Each channel has an adapter that
+// verifies and parses its provider's webhook, downloads media and sends
+// replies; the conversation itself (solin-messaging.ts) only sees these types.
+
+export type MessagingChannel = 'whatsapp' | 'sms' | 'telegram' | 'email';
+
+export const MESSAGING_CHANNELS: MessagingChannel[] = ['whatsapp', 'sms', 'telegram', 'email'];
+
+/** Channels addressed by phone number; their senders are matched through user_phone_numbers */
+export const PHONE_CHANNELS: MessagingChannel[] = ['whatsapp', 'sms'];
+
+export const CHANNEL_LABELS: Record<MessagingChannel, string> = {
+  whatsapp: 'WhatsApp',
+  sms: 'text message',
+  telegram: 'Telegram',
+  email: 'email',
+};
+
+export type InboundMediaType = 'image' | 'video' | 'audio';
+
+export interface InboundMedia {
+  ref: string; // Provider media id, URL or attachment key; passed back to downloadMedia
+  type: InboundMediaType;
+  mimeType: string;
+}
+
+export interface InboundMessage {
+  channel: MessagingChannel;
+  provider: string;
+  from: string; // Phone number (no whatsapp: prefix), Telegram chat id or lower-cased email address
+  text: string;
+  messageId: string;
+  media: InboundMedia[];
+  senderName?: string | null;
+  subject?: string | null; // Email subject, reused for the reply
+  threadId?: string | null; // Email Message-ID, so replies thread
+}
+
+export interface OutboundMessage {
+  to: string;
+  text?: string;
+  audio?: { data: ArrayBuffer; mimeType: string }; // Only sent when the adapter has voiceReplies
+  inReplyTo?: InboundMessage;
+  subject?: string; // Email subject when not replying
+  // WhatsApp template for messages Solin starts (Meta only allows free text
+  // within 24 hours of the user's last message); text is the fallback
+  template?: { name: string; language: string; parameters: string[] };
+}
+
+export interface SendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  alreadySent?: boolean; // Sent by an earlier attempt at the same inbox event
+}
+
+export interface DownloadedMedia {
+  data: ArrayBuffer;
+  mimeType: string;
+}
+
+export interface ChannelAdapter {
+  channel: MessagingChannel;
+  provider: string;
+  voiceReplies: boolean; // Can send audio messages
+  italics: boolean; // Renders _text_ as italics (WhatsApp)
+
+  /** Provider handshake on GET (Meta's hub.challenge); false when it fails */
+  verifyWebhook(request: Request): Promise<Response | boolean>;
+  /** Checks an incoming POST came from the provider */
+  authenticate(request: Request, rawBody: string): Promise<boolean>;
+  /**
+   * null for events that are not a message Solin should answer. Reads only
+   * the body, so events stored in the webhook inbox can be parsed again.
+   */
+  parseIncomingMessage(rawBody: string): Promise<InboundMessage | null>;
+  downloadMedia(ref: string): Promise<DownloadedMedia | null>;
+  /** Never throws */
+  sendMessage(message: OutboundMessage): Promise<SendResult>;
+}
+
+export function mediaTypeFor(mimeType: string): InboundMediaType | null {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return null;
+}
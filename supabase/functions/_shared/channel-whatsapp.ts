@@ -0,0 +1,211 @@
+// WhatsApp through Meta's Cloud API. Twilio's WhatsApp sandbox/sender uses
+// the Twilio adapter (channel-twilio.ts) with the whatsapp: address prefix.
+import { audioFilenameFor } from "./speech-providers.ts";
+import { splitWhatsAppText } from "./whatsapp-send.ts";
+import { hmacHex, timingSafeEqual } from "./webhook-signature.ts";
+import type { ChannelAdapter, DownloadedMedia, InboundMedia, InboundMessage, OutboundMessage, SendResult } from "./channel-types.ts";
+
+const GRAPH_API = 'https://graph.facebook.com/v18.0';
+
+export class MetaWhatsAppAdapter implements ChannelAdapter {
+  channel = 'whatsapp' as const;
+  provider = 'meta';
+  voiceReplies = true;
+  italics = true;
+  accessToken: string;
+  phoneNumberId: string;
+  verifyToken: string;
+  appSecret: string;
+
+  constructor() {
+    this.accessToken = Deno.env.get('WHATSAPP_META_ACCESS_TOKEN') || '';
+    this.phoneNumberId = Deno.env.get('WHATSAPP_META_PHONE_NUMBER_ID') || '';
+    this.verifyToken = Deno.env.get('WHATSAPP_META_VERIFY_TOKEN') || 'solin_verify_token_2025';
+    this.appSecret = Deno.env.get('WHATSAPP_META_APP_SECRET') || '';
+
+    if (!this.accessToken || !this.phoneNumberId) {
+      console.warn('⚠️ Meta WhatsApp credentials not configured');
+    }
+  }
+
+  async verifyWebhook(request: Request) {
+    const url = new URL(request.url);
+    const mode = url.searchParams.get('hub.mode');
+    const token = url.searchParams.get('hub.verify_token');
+    const challenge = url.searchParams.get('hub.challenge');
+
+    if (mode === 'subscribe' && token === this.verifyToken) {
+      return new Response(challenge || '', {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain' }
+      });
+    }
+    return false;
+  }
+
+  /** X-Hub-Signature-256: sha256= HMAC of the body with the app secret */
+  async authenticate(request: Request, rawBody: string) {
+    if (!this.appSecret) {
+      console.warn('⚠️ WHATSAPP_META_APP_SECRET not configured; rejecting webhook');
+      return false;
+    }
+    const signature = request.headers.get('X-Hub-Signature-256') || '';
+    const expected = `sha256=${await hmacHex('SHA-256', this.appSecret, rawBody)}`;
+    return timingSafeEqual(signature, expected);
+  }
+
+  async parseIncomingMessage(rawBody: string): Promise<InboundMessage | null> {
+    try {
+      const body = JSON.parse(rawBody);
+
+      if (body.object !== 'whatsapp_business_account') return null;
+
+      const value = body.entry?.[0]?.changes?.[0]?.value;
+      if (!value?.messages || value.messages.length === 0) return null;
+
+      const message = value.messages[0];
+      const media: InboundMedia[] = [];
+      let text = '';
+
+      if (message.type === 'text') {
+        text = message.text?.body || '';
+      } else if (message.type === 'interactive') {
+        text = message.interactive?.button_reply?.title ||
+               message.interactive?.list_reply?.title || '';
+      } else if (message.type === 'image') {
+        media.push({ ref: message.image?.id, type: 'image', mimeType: message.image?.mime_type || 'image/jpeg' });
+        text = message.image?.caption || '';
+      } else if (message.type === 'video') {
+        media.push({ ref: message.video?.id, type: 'video', mimeType: message.video?.mime_type || 'video/mp4' });
+        text = message.video?.caption || '';
+      } else if (message.type === 'audio' || message.type === 'voice') {
+        const audio = message.audio || message.voice;
+        media.push({ ref: audio?.id, type: 'audio', mimeType: audio?.mime_type || 'audio/ogg' });
+        text = '[Voice Note]'; // Replaced by the transcription
+      } else {
+        return null;
+      }
+
+      return {
+        channel: 'whatsapp',
+        provider: this.provider,
+        from: message.from,
+        text,
+        messageId: message.id,
+        media: media.filter(m => m.ref),
+        senderName: value.contacts?.[0]?.profile?.name || null,
+      };
+    } catch (error) {
+      console.error('❌ Error parsing Meta message:', error);
+      return null;
+    }
+  }
+
+  async downloadMedia(mediaId: string): Promise<DownloadedMedia | null> {
+    try {
+      // Get media URL from Meta
+      const urlResponse = await fetch(`${GRAPH_API}/${mediaId}`, {
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      });
+
+      const urlData = await urlResponse.json();
+      if (!urlData.url) throw new Error('No media URL returned');
+
+      // Download the actual media file
+      const mediaResponse = await fetch(urlData.url, {
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      });
+
+      if (!mediaResponse.ok) throw new Error('Failed to download media');
+
+      return {
+        data: await mediaResponse.arrayBuffer(),
+        mimeType: mediaResponse.headers.get('content-type') || 'application/octet-stream'
+      };
+    } catch (error) {
+      console.error('❌ Error downloading media:', error);
+      return null;
+    }
+  }
+
+  async uploadAudio(audioBuffer: ArrayBuffer, mimeType = 'audio/mpeg'): Promise<string | null> {
+    try {
+      // Upload audio to Meta's media API (accepts MP3, OGG/Opus, AAC, AMR and MP4 audio, not WAV)
+      const formData = new FormData();
+      formData.append('file', new Blob([audioBuffer], { type: mimeType }), audioFilenameFor(mimeType));
+      formData.append('messaging_product', 'whatsapp');
+      formData.append('type', mimeType);
+
+      const uploadResponse = await fetch(`${GRAPH_API}/${this.phoneNumberId}/media`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${this.accessToken}` },
+        body: formData
+      });
+
+      const uploadResult = await uploadResponse.json();
+      if (!uploadResponse.ok) {
+        throw new Error(`Media upload error: ${JSON.stringify(uploadResult)}`);
+      }
+
+      return uploadResult.id;
+    } catch (error) {
+      console.error('❌ Error uploading audio to Meta:', error);
+      return null;
+    }
+  }
+
+  private async post(messageBody: Record<string, unknown>): Promise<SendResult> {
+    const response = await fetch(`${GRAPH_API}/${this.phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ messaging_product: 'whatsapp', recipient_type: 'individual', ...messageBody })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(`Meta API error: ${JSON.stringify(result)}`);
+    }
+
+    return { success: true, messageId: result.messages?.[0]?.id };
+  }
+
+  async sendMessage(options: OutboundMessage): Promise<SendResult> {
+    try {
+      if (options.audio) {
+        const audioMediaId = await this.uploadAudio(options.audio.data, options.audio.mimeType);
+        if (!audioMediaId) return { success: false, error: 'Audio upload failed' };
+        return await this.post({ to: options.to, type: 'audio', audio: { id: audioMediaId } });
+      }
+
+      if (options.template) {
+        return await this.post({
+          to: options.to,
+          type: 'template',
+          template: {
+            name: options.template.name,
+            language: { code: options.template.language },
+            components: [{
+              type: 'body',
+              parameters: options.template.parameters.map(text => ({ type: 'text', text }))
+            }]
+          }
+        });
+      }
+
+      let result: SendResult = { success: false, error: 'Empty message' };
+      for (const part of splitWhatsAppText(options.text || '')) {
+        result = await this.post({ to: options.to, type: 'text', text: { preview_url: false, body: part } });
+      }
+      return result;
+    } catch (error) {
+      console.error('❌ Error sending Meta message:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
@@ -0,0 +1,29 @@
+// Adapter for a messaging channel and provider. WhatsApp defaults to
+// WHATSAPP_PROVIDER ('meta' | 'twilio'); SMS is Twilio, Telegram the Bot API
+// and email Postmark.
+import { MetaWhatsAppAdapter } from "./channel-whatsapp.ts";
+import { TwilioAdapter } from "./channel-twilio.ts";
+import { TelegramAdapter } from "./channel-telegram.ts";
+import { EmailAdapter } from "./channel-email.ts";
+import { MESSAGING_CHANNELS } from "./channel-types.ts";
+import type { ChannelAdapter, MessagingChannel } from "./channel-types.ts";
+
+export function isMessagingChannel(value: string | null | undefined): value is MessagingChannel {
+  return !!value && (MESSAGING_CHANNELS as string[]).includes(value);
+}
+
+export function getChannelAdapter(channel: MessagingChannel, provider?: string | null): ChannelAdapter {
+  switch (channel) {
+    case 'sms':
+      return new TwilioAdapter('sms');
+    case 'telegram':
+      return new TelegramAdapter();
+    case 'email':
+      return new EmailAdapter();
+    case 'whatsapp':
+    default: {
+      const activeProvider = provider || Deno.env.get('WHATSAPP_PROVIDER') || 'meta';
+      return activeProvider === 'twilio' ? new TwilioAdapter('whatsapp') : new MetaWhatsAppAdapter();
+    }
+  }
+}
@@ -0,0 +1,193 @@
+// State machine for Solin's messaging conversation. Each inbound message is
+// classified into one event; TRANSITIONS says what that event does in the
+// current state. Pure (no I/O, no Deno APIs) so the table can be tested on its
+// own; solin-messaging.ts carries out the effects.
+//
+//   idle ──message──▶ discussing ──memory_ready / save──▶ awaiting_media ──done / save──▶ idle
+//     └──edit──▶ editing ──message──▶ idle
+//
+// Photos and videos are never dropped: before a memory is ready they are kept
+// for it, while waiting they join it, and while editing they go to the memory
+// being edited.
+
+export type ConversationState = 'idle' | 'discussing' | 'awaiting_media' | 'editing';
+
+export const CONVERSATION_STATES: ConversationState[] = ['idle', 'discussing', 'awaiting_media', 'editing'];
+
+export const CONVERSATION_COMMANDS = ['save', 'cancel', 'undo', 'list', 'edit', 'private', 'help'] as const;
+export type ConversationCommand = typeof CONVERSATION_COMMANDS[number];
+
+export type ConversationEventType =
+  | 'message' // Anything Solin should answer
+  | 'media' // Photos or videos
+  | 'done' // "done", "no", "that's all" on its own while waiting for media
+  | 'memory_ready' // Solin has a title (and maybe date and place) for the memory
+  | ConversationCommand;
+
+export interface ConversationEvent {
+  type: ConversationEventType;
+  argument?: number | null; // /edit <n>
+  unknownCommand?: string | null; // /whatever, answered with the help
+}
+
+export type ConversationEffect =
+  | 'chat' // Solin replies; may raise memory_ready
+  | 'stash_media' // Keep photos/videos for the memory being discussed
+  | 'ask_for_media' // Memory is ready: ask for photos before saving
+  | 'add_detail' // Text while waiting for media joins the pending memory
+  | 'attach_media' // Add to the pending memory, or the memory being edited
+  | 'save_memory'
+  | 'discard' // Drop the pending memory or discussion
+  | 'undo' // Delete the memory saved last in this conversation
+  | 'list' // Number the latest memories for /edit
+  | 'start_edit'
+  | 'apply_edit'
+  | 'end_edit'
+  | 'make_private'
+  | 'help';
+
+export interface Transition {
+  to: ConversationState;
+  effect: ConversationEffect;
+}
+
+const shared = (state: ConversationState): Partial<Record<ConversationEventType, Transition>> => ({
+  list: { to: state, effect: 'list' },
+  private: { to: state, effect: 'make_private' },
+  help: { to: state, effect: 'help' },
+});
+
+/** Events missing from a state are refused with NOT_ALLOWED_REPLIES */
+export const TRANSITIONS: Record<ConversationState, Partial<Record<ConversationEventType, Transition>>> = {
+  idle: {
+    message: { to: 'discussing', effect: 'chat' },
+    media: { to: 'idle', effect: 'stash_media' },
+    undo: { to: 'idle', effect: 'undo' },
+    edit: { to: 'editing', effect: 'start_edit' },
+    ...shared('idle'),
+  },
+  discussing: {
+    message: { to: 'discussing', effect: 'chat' },
+    media: { to: 'discussing', effect: 'stash_media' },
+    memory_ready: { to: 'awaiting_media', effect: 'ask_for_media' },
+    save: { to: 'awaiting_media', effect: 'ask_for_media' },
+    cancel: { to: 'idle', effect: 'discard' },
+    undo: { to: 'discussing', effect: 'undo' },
+    edit: { to: 'editing', effect: 'start_edit' },
+    ...shared('discussing'),
+  },
+  awaiting_media: {
+    message: { to: 'awaiting_media', effect: 'add_detail' },
+    media: { to: 'awaiting_media', effect: 'attach_media' },
+    done: { to: 'idle', effect: 'save_memory' },
+    save: { to: 'idle', effect: 'save_memory' },
+    cancel: { to: 'idle', effect: 'discard' },
+    ...shared('awaiting_media'),
+  },
+  editing: {
+    message: { to: 'idle', effect: 'apply_edit' },
+    media: { to: 'editing', effect: 'attach_media' },
+    cancel: { to: 'idle', effect: 'end_edit' },
+    edit: { to: 'editing', effect: 'start_edit' },
+    ...shared('editing'),
+  },
+};
+
+export const NOT_ALLOWED_REPLIES: Record<ConversationState, string> = {
+  idle: "There's nothing to save or cancel yet — tell me about a memory first 🙂",
+  discussing: "Let's keep going — send /save when you're ready to save this memory.",
+  awaiting_media: "Let's finish this memory first: send photos or videos, say \"done\" to save it, or /cancel.",
+  editing: "Send what you'd like to add to this memory, or /cancel to leave it as it is.",
+};
+
+export function transition(state: ConversationState, event: ConversationEvent): Transition | null {
+  return TRANSITIONS[state][event.type] ?? null;
+}
+
+/** Whatever is stored in whatsapp_sessions.context */
+interface StoredContext {
+  state?: unknown;
+  awaiting_media_response?: boolean;
+  awaiting_media_for_memory?: string | null;
+  editing_memory_id?: string | null;
+  memory_discussion_count?: number;
+}
+
+/** Current state; sessions from before the state machine are read from their flags */
+export function readConversationState(context: StoredContext): ConversationState {
+  if (CONVERSATION_STATES.includes(context.state as ConversationState)) {
+    return context.state as ConversationState;
+  }
+  if (context.awaiting_media_response || context.awaiting_media_for_memory) return 'awaiting_media';
+  if (context.editing_memory_id) return 'editing';
+  if ((context.memory_discussion_count || 0) > 0) return 'discussing';
+  return 'idle';
+}
+
+const BARE_COMMANDS: Record<string, ConversationCommand> = {
+  'save': 'save',
+  'save it': 'save',
+  'save this': 'save',
+  'save memory': 'save',
+  'save the memory': 'save',
+  'cancel': 'cancel',
+  'undo': 'undo',
+  'help': 'help',
+  'commands': 'help',
+};
+
+/** "/edit 2", "/help@SolinBot" or one of the bare words above; null for anything else */
+export function parseCommand(text: string): ConversationEvent | null {
+  const trimmed = text.trim().toLowerCase();
+
+  const slash = trimmed.match(/^\/([a-z_]+)(?:@\S+)?(?:\s+(.*))?$/);
+  if (slash) {
+    const [, name, rest] = slash;
+    // Telegram sends /start whenever a chat is opened
+    if (name === 'start') return { type: 'help' };
+    if (!(CONVERSATION_COMMANDS as readonly string[]).includes(name)) {
+      return { type: 'help', unknownCommand: name };
+    }
+    const argument = rest ? parseInt(rest, 10) : NaN;
+    return { type: name as ConversationCommand, argument: Number.isNaN(argument) ? null : argument };
+  }
+
+  const bare = BARE_COMMANDS[trimmed.replace(/[.!]+$/, '')];
+  return bare ? { type: bare } : null;
+}
+
+const FINISH_REPLIES = new Set([
+  'done', 'all done', "i'm done", 'im done', 'finished', "i'm finished",
+  "that's all", 'thats all', 'that is all', "that's it", 'thats it',
+  'no', 'nope', 'no thanks', 'no thank you', 'no more', 'nothing', 'nothing else',
+  'no photos', 'no pictures', 'no photos thanks', 'skip',
+  "don't have any", 'dont have any', "i don't have any", 'i dont have any',
+  "no i don't", 'no i dont', "i don't have any photos", 'i dont have any photos',
+]);
+
+/**
+ * A reply meaning "no more photos". The whole message has to be one of the
+ * phrases, so "no, it was in 1972" is still a detail for the memory.
+ */
+export function isFinishReply(text: string): boolean {
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/,/g, ' ')
+    .replace(/[\s.!]+$/, '')
+    .replace(/\s+/g, ' ');
+  return FINISH_REPLIES.has(normalized);
+}
+
+export function classifyMessage(
+  state: ConversationState,
+  message: { text: string; hasVisualMedia: boolean }
+): ConversationEvent {
+  // Media first, so a caption can't lose the photos
+  if (message.hasVisualMedia) return { type: 'media' };
+  const command = parseCommand(message.text);
+  if (command) return command;
+  if (state === 'awaiting_media' && isFinishReply(message.text)) return { type: 'done' };
+  return { type: 'message' };
+}
@@ -0,0 +1,130 @@
+// Embedding providers for memory search.
+// Every provider produces vectors of EMBEDDING_DIMENSIONS so they fit the
+// memory_embeddings.embedding column. Select one with EMBEDDING_PROVIDER
+// ('openai' | 'local'); without an OpenAI key we fall back to the local stub.
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  name = 'openai';
+  model = 'text-embedding-3-small';
+  dimensions = EMBEDDING_DIMENSIONS;
+  apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts.map(text => text.slice(0, 8000)),
+        dimensions: this.dimensions
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI embeddings error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    return (result.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Deterministic, dependency-free embedding using feature hashing of word
+ * unigrams and bigrams. Same text always gives the same vector, so it is safe
+ * for tests and for self-hosted setups without an embeddings API.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  name = 'local';
+  model = 'hash-bow-v1';
+  dimensions = EMBEDDING_DIMENSIONS;
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map(text => this.embedOne(text)));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]}_${token}`)
+    ];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      // Sign bit from a second hash keeps collisions from always adding up
+      const sign = (fnv1a(`#${feature}`) & 1) === 0 ? 1 : -1;
+      vector[index] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'was', 'were', 'are', 'you',
+  'your', 'from', 'have', 'had', 'has', 'but', 'not', 'she', 'his', 'her',
+  'they', 'them', 'then', 'there', 'when', 'what', 'about', 'into', 'our'
+]);
+
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2 && !STOP_WORDS.has(token));
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function getEmbeddingProvider(provider?: string): EmbeddingProvider {
+  const activeProvider = provider || Deno.env.get('EMBEDDING_PROVIDER') || 'openai';
+  const openAIKey = Deno.env.get('OPENAI_API_KEY');
+
+  if (activeProvider === 'openai' && openAIKey) {
+    return new OpenAIEmbeddingProvider(openAIKey);
+  }
+
+  if (activeProvider === 'openai') {
+    console.warn('⚠️ OPENAI_API_KEY not set - using local hash embeddings');
+  }
+
+  return new LocalHashEmbeddingProvider();
+}
+
+/** pgvector text literal, e.g. "[0.1,0.2]" */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
@@ -0,0 +1,135 @@
+// Household phones (household_phones): one phone that several consenting
+// accounts message Solin from. Before answering, Solin needs to know whose
+// memory it is hearing, so it asks "who is this?" and keeps the answer until
+// the phone has been quiet for SPEAKER_IDLE_MINUTES. "switch" asks again.
+// Photos, videos and voice notes sent before the answer wait on the phone
+// (pending_media) and are handed to whoever answers.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import type { ChannelAdapter, InboundMedia, InboundMessage } from "./channel-types.ts";
+import type { InboxProgress } from "./inbox-progress.ts";
+
+const SPEAKER_IDLE_MINUTES = 30;
+const SWITCH_WORDS = ['switch', '/switch', 'who', '/who', 'not me', 'someone else'];
+
+interface HouseholdMember {
+  user_id: string;
+  display_name: string;
+}
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60000).toISOString();
+
+function whoIsThis(members: HouseholdMember[], intro = 'Hi! This phone is shared.') {
+  const options = members.map((member, index) => `${index + 1}. ${member.display_name}`).join('\n');
+  return `${intro} Who is this? Reply with a number:\n\n${options}`;
+}
+
+/** "2", "2.", or a member's name */
+function chosenMember(members: HouseholdMember[], text: string): HouseholdMember | null {
+  const answer = text.trim().toLowerCase().replace(/[.!]+$/, '');
+  const index = parseInt(answer, 10);
+  if (String(index) === answer) return members[index - 1] ?? null;
+  return members.find(member => member.display_name.trim().toLowerCase() === answer) ?? null;
+}
+
+/** Adds media to the waiting list, once each (a retried event sends it again) */
+function withPendingMedia(pending: InboundMedia[], media: InboundMedia[]): InboundMedia[] {
+  const refs = new Set(pending.map(item => item.ref));
+  return [...pending, ...media.filter(item => !refs.has(item.ref))];
+}
+
+/**
+ * Whose message this is when it comes from a household phone.
+ * - undefined: not a household phone; the phone's own account answers
+ * - null: Solin asked who is talking (or confirmed the answer); nothing else to do
+ * - a user id: carry on with that member's conversation. When the message
+ *   answered "who is this?" and media was waiting, the message becomes that
+ *   media, so the member's conversation keeps it like any photo they send.
+ */
+export async function resolveHouseholdSender(
+  supabase: SupabaseClient,
+  adapter: ChannelAdapter,
+  message: InboundMessage,
+  progress?: InboxProgress
+): Promise<string | null | undefined> {
+  const { data: household } = await supabase
+    .from('household_phones')
+    .select('id, name, active_user_id, active_until, awaiting_choice, pending_media')
+    .eq('phone_digits', message.from.replace(/\D/g, ''))
+    .maybeSingle();
+  if (!household) return undefined;
+
+  const { data: memberRows } = await supabase
+    .from('household_phone_members')
+    .select('user_id, display_name')
+    .eq('household_phone_id', household.id)
+    .eq('status', 'active')
+    .order('created_at');
+  const members = (memberRows || []) as HouseholdMember[];
+
+  const reply = (text: string) => adapter.sendMessage({ to: message.from, text, inReplyTo: message });
+  const setSpeaker = (fields: Record<string, unknown>) =>
+    supabase.from('household_phones').update(fields).eq('id', household.id);
+
+  const greet = async (choice: { user_id: string; display_name: string; media: InboundMedia[] }) => {
+    if (choice.media.length === 0) {
+      await reply(`Hi ${choice.display_name}! 👋 Go ahead — tell me about a memory. Say "switch" if someone else takes over.`);
+      return null;
+    }
+    await reply(`Hi ${choice.display_name}! 👋 Thanks — I've kept what you sent before. Say "switch" if someone else takes over.`);
+    message.text = '';
+    message.media = choice.media;
+    return choice.user_id;
+  };
+
+  // A retry of the message that answered: the answer was already saved
+  if (progress?.steps.household_choice) return greet(progress.steps.household_choice);
+
+  if (members.length === 0) {
+    await reply(`This phone is shared, but nobody has joined it yet. Join it from Settings → Household Phones on 1000years.ai.`);
+    return null;
+  }
+  if (members.length === 1) return members[0].user_id;
+
+  const text = message.text.trim().toLowerCase();
+  const hasMedia = message.media.length > 0;
+  const pending = (household.pending_media || []) as InboundMedia[];
+
+  if (!hasMedia && SWITCH_WORDS.includes(text)) {
+    await setSpeaker({ active_user_id: null, active_until: null, awaiting_choice: true });
+    await reply(whoIsThis(members, 'Of course.'));
+    return null;
+  }
+
+  const active = members.find(member => member.user_id === household.active_user_id);
+  if (active && household.active_until && new Date(household.active_until) > new Date()) {
+    await setSpeaker({ active_until: minutesFromNow(SPEAKER_IDLE_MINUTES) });
+    return active.user_id;
+  }
+
+  if (household.awaiting_choice && !hasMedia) {
+    const chosen = chosenMember(members, message.text);
+    if (chosen) {
+      const choice = { user_id: chosen.user_id, display_name: chosen.display_name, media: pending };
+      await progress?.record({ household_choice: choice });
+      await setSpeaker({
+        active_user_id: chosen.user_id,
+        active_until: minutesFromNow(SPEAKER_IDLE_MINUTES),
+        awaiting_choice: false,
+        pending_media: [],
+      });
+      return greet(choice);
+    }
+  }
+
+  // Media waits for the answer; a fresh question starts a fresh list
+  await setSpeaker({
+    active_user_id: null,
+    active_until: null,
+    awaiting_choice: true,
+    pending_media: withPendingMedia(household.awaiting_choice ? pending : [], message.media),
+  });
+  await reply(whoIsThis(members, hasMedia
+    ? "Thanks! This phone is shared, so I'll keep that until I know who sent it."
+    : household.awaiting_choice ? "Sorry, I didn't catch that." : undefined));
+  return null;
+}
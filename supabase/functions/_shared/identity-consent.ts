@@ -0,0 +1,86 @@
+// Likeness consent checks for trained identities. Training, previews and
+// reconstructions all go through requireIdentityConsent, which refuses any
+// identity without granted, unexpired consent (identity_consents) and writes
+// each use or refusal to identity_consent_events for the owner and subject.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export type IdentityUse = 'training' | 'preview' | 'reconstruction';
+
+export class IdentityConsentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdentityConsentError';
+  }
+}
+
+interface ConsentRow {
+  identity_id: string;
+  subject_user_id: string | null;
+  status: string;
+  expires_at: string;
+}
+
+export function isConsentActive(consent: Pick<ConsentRow, 'status' | 'expires_at'> | null | undefined): boolean {
+  return !!consent && consent.status === 'granted' && new Date(consent.expires_at).getTime() > Date.now();
+}
+
+/** Consent per identity id, for the given owner's identities */
+export async function loadIdentityConsents(
+  supabase: SupabaseClient,
+  ownerId: string,
+  identityIds: string[],
+): Promise<Map<string, ConsentRow>> {
+  if (identityIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('identity_consents')
+    .select('identity_id, subject_user_id, status, expires_at')
+    .eq('owner_user_id', ownerId)
+    .in('identity_id', identityIds);
+  if (error) throw error;
+  return new Map((data || []).map((consent: ConsentRow) => [consent.identity_id, consent]));
+}
+
+/**
+ * Throws IdentityConsentError unless every identity has active consent.
+ * Uses and refusals are logged either way.
+ */
+export async function requireIdentityConsent(
+  supabase: SupabaseClient,
+  ownerId: string,
+  identityIds: string[],
+  use: IdentityUse,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  if (identityIds.length === 0) return;
+
+  const [consents, { data: identities, error }] = await Promise.all([
+    loadIdentityConsents(supabase, ownerId, identityIds),
+    supabase.from('trained_identities').select('id, name').eq('user_id', ownerId).in('id', identityIds),
+  ]);
+  if (error) throw error;
+  const names = new Map((identities || []).map((identity: { id: string; name: string }) => [identity.id, identity.name]));
+
+  const blocked = identityIds.filter(id => !isConsentActive(consents.get(id)));
+  const events = identityIds
+    .filter(id => names.has(id))
+    .map(id => ({
+      identity_id: id,
+      identity_name: names.get(id),
+      owner_user_id: ownerId,
+      subject_user_id: consents.get(id)?.subject_user_id ?? null,
+      actor_user_id: ownerId,
+      event: blocked.includes(id) ? 'use_blocked' : `used_${use}`,
+      details: { ...details, use, consent_status: consents.get(id)?.status ?? 'missing' },
+    }));
+
+  if (events.length > 0) {
+    const { error: logError } = await supabase.from('identity_consent_events').insert(events);
+    if (logError) console.error('Failed to log identity use:', logError);
+  }
+
+  if (blocked.length > 0) {
+    const blockedNames = blocked.map(id => names.get(id) ?? 'Unknown identity').join(', ');
+    throw new IdentityConsentError(`No active consent to use ${blockedNames}`);
+  }
+}
@@ -0,0 +1,328 @@
+// Identity training jobs, shared by train-identity (create, poll, retry,
+// cancel, delete) and identity-training-webhook (status pushed by the trainer).
+//
+// A job moves queued -> uploading -> training -> succeeded, or to failed /
+// cancelled from any active state; failed and cancelled jobs can be queued
+// again. Every transition is conditional on the status it was read with, so a
+// webhook and a poll racing on the same job cannot both apply.
+//
+// Training itself runs on an external trainer at IDENTITY_TRAINER_URL:
+//   POST {url}/jobs             { dataset_repo, output_repo, model_type, params, webhook_url } -> { id }
+//   GET  {url}/jobs/{id}        -> { status: queued | running | succeeded | failed | cancelled, error?, model_id? }
+//   POST {url}/jobs/{id}/cancel
+// Without a trainer the Hugging Face repo holding the images is the model, and
+// the job succeeds once the upload is done.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { deleteRepo, type Credentials } from "https://esm.sh/@huggingface/hub@0.15.1";
+
+export type TrainingJobStatus = 'queued' | 'uploading' | 'training' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface TrainingJob {
+  id: string;
+  identity_id: string;
+  user_id: string;
+  status: TrainingJobStatus;
+  image_storage_paths: string[];
+  validation: TrainingImageReport;
+  hf_repo_name: string | null;
+  remote_job_id: string | null;
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  last_polled_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Per-image quality checks; face_count is null when the browser could not detect faces */
+export interface TrainingImageCheck {
+  path: string;
+  width: number | null;
+  height: number | null;
+  face_count: number | null;
+  sha256: string | null;
+  issues: string[];
+}
+
+export interface TrainingImageReport {
+  images?: TrainingImageCheck[];
+  checked_at?: string;
+}
+
+export const TRAINING_IMAGES_BUCKET = 'identity-training-images';
+export const MIN_TRAINING_IMAGES = 3;
+export const MAX_TRAINING_IMAGES = 40;
+export const MIN_IMAGE_RESOLUTION = 512;
+
+export const ACTIVE_JOB_STATUSES: TrainingJobStatus[] = ['queued', 'uploading', 'training'];
+
+const JOB_TRANSITIONS: Record<TrainingJobStatus, TrainingJobStatus[]> = {
+  queued: ['uploading', 'failed', 'cancelled'],
+  uploading: ['training', 'succeeded', 'failed', 'cancelled'],
+  training: ['succeeded', 'failed', 'cancelled'],
+  succeeded: [],
+  failed: ['queued'],
+  cancelled: ['queued'],
+};
+
+// trained_identities.training_status for each job status
+const IDENTITY_STATUS: Record<TrainingJobStatus, string> = {
+  queued: 'queued',
+  uploading: 'uploading',
+  training: 'training',
+  succeeded: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+export function canTransition(from: TrainingJobStatus, to: TrainingJobStatus): boolean {
+  return JOB_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move a job to a new status and mirror it on the identity. Returns the
+ * updated job, or null when the job was no longer in the status it was read
+ * with (another request got there first).
+ */
+export async function transitionJob(
+  supabase: SupabaseClient,
+  job: TrainingJob,
+  to: TrainingJobStatus,
+  patch: Partial<TrainingJob> = {},
+  identityPatch: Record<string, unknown> = {},
+): Promise<TrainingJob | null> {
+  if (!canTransition(job.status, to)) {
+    throw new Error(`Cannot move training job from ${job.status} to ${to}`);
+  }
+
+  const now = new Date().toISOString();
+  const finished = to === 'succeeded' || to === 'failed' || to === 'cancelled';
+  const { data: updated, error } = await supabase
+    .from('identity_training_jobs')
+    .update({
+      ...patch,
+      status: to,
+      ...(to === 'uploading' ? { started_at: now, completed_at: null, error: null } : {}),
+      ...(finished ? { completed_at: now } : {}),
+    })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!updated) return null;
+
+  const { error: identityError } = await supabase
+    .from('trained_identities')
+    .update({
+      ...identityPatch,
+      training_status: IDENTITY_STATUS[to],
+      training_job_id: job.id,
+      training_error: to === 'failed' ? patch.error ?? null : null,
+      ...(to === 'uploading' ? { training_started_at: now } : {}),
+      ...(to === 'succeeded' ? { training_completed_at: now } : {}),
+    })
+    .eq('id', job.identity_id);
+  if (identityError) throw identityError;
+
+  return updated as TrainingJob;
+}
+
+// --- Server-side image checks -------------------------------------------------
+
+/** Width and height from a PNG or JPEG header, without decoding the image */
+export function imageDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // PNG: IHDR is the first chunk
+  if (bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check the stored images before they are submitted. Resolution and exact
+ * duplicates are checked here; face counts come from the browser's report
+ * (the edge runtime has no face detector).
+ */
+export async function validateTrainingImages(
+  images: { path: string; bytes: Uint8Array }[],
+  clientReport: TrainingImageReport,
+): Promise<{ report: TrainingImageReport; issues: string[] }> {
+  const reported = new Map((clientReport.images || []).map(image => [image.path, image]));
+  const seen = new Map<string, string>();
+  const checks: TrainingImageCheck[] = [];
+
+  for (const image of images) {
+    const fileName = image.path.split('/').pop() || image.path;
+    const dimensions = imageDimensions(image.bytes);
+    const sha256 = await sha256Hex(image.bytes);
+    const faceCount = reported.get(image.path)?.face_count ?? null;
+    const issues: string[] = [];
+
+    if (!dimensions) {
+      issues.push(`${fileName} is not a readable JPG or PNG`);
+    } else if (Math.min(dimensions.width, dimensions.height) < MIN_IMAGE_RESOLUTION) {
+      issues.push(`${fileName} is ${dimensions.width}x${dimensions.height}; at least ${MIN_IMAGE_RESOLUTION}px on the short side is needed`);
+    }
+    if (faceCount === 0) issues.push(`${fileName} has no detectable face`);
+    if (faceCount !== null && faceCount > 1) issues.push(`${fileName} shows ${faceCount} faces; use photos of one person`);
+    const duplicateOf = seen.get(sha256);
+    if (duplicateOf) issues.push(`${fileName} is a duplicate of ${duplicateOf}`);
+    seen.set(sha256, fileName);
+
+    checks.push({
+      path: image.path,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      face_count: faceCount,
+      sha256,
+      issues,
+    });
+  }
+
+  const usable = checks.filter(check => check.issues.length === 0).length;
+  const issues = checks.flatMap(check => check.issues);
+  if (usable < MIN_TRAINING_IMAGES) {
+    issues.unshift(`Only ${usable} usable photos; at least ${MIN_TRAINING_IMAGES} are needed`);
+  }
+
+  return { report: { images: checks, checked_at: new Date().toISOString() }, issues };
+}
+
+// --- External trainer ---------------------------------------------------------
+
+export interface RemoteTrainingStatus {
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  error?: string | null;
+  model_id?: string | null;
+}
+
+function trainerUrl(): string | null {
+  const url = Deno.env.get('IDENTITY_TRAINER_URL');
+  return url ? url.replace(/\/$/, '') : null;
+}
+
+export function isTrainerConfigured(): boolean {
+  return !!trainerUrl();
+}
+
+async function trainerRequest(path: string, init: RequestInit = {}) {
+  const url = trainerUrl();
+  if (!url) throw new Error('IDENTITY_TRAINER_URL is not configured');
+
+  const response = await fetch(`${url}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${Deno.env.get('IDENTITY_TRAINER_API_KEY') ?? ''}`,
+      ...init.headers,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Trainer request failed (${response.status}): ${await response.text()}`);
+  }
+  return response.json();
+}
+
+export async function submitTrainingJob(params: {
+  datasetRepo: string;
+  modelType: string;
+  trainingParams: Record<string, unknown>;
+  webhookUrl: string;
+}): Promise<string> {
+  const result = await trainerRequest('/jobs', {
+    method: 'POST',
+    body: JSON.stringify({
+      dataset_repo: params.datasetRepo,
+      output_repo: params.datasetRepo,
+      model_type: params.modelType,
+      params: params.trainingParams,
+      webhook_url: params.webhookUrl,
+    }),
+  });
+  if (!result?.id) throw new Error('Trainer did not return a job id');
+  return String(result.id);
+}
+
+export async function fetchTrainingStatus(remoteJobId: string): Promise<RemoteTrainingStatus> {
+  return await trainerRequest(`/jobs/${encodeURIComponent(remoteJobId)}`) as RemoteTrainingStatus;
+}
+
+export async function cancelRemoteTraining(remoteJobId: string): Promise<void> {
+  await trainerRequest(`/jobs/${encodeURIComponent(remoteJobId)}/cancel`, { method: 'POST' });
+}
+
+/** Apply a trainer status (from a poll or the webhook) to a job in training */
+export async function applyRemoteStatus(
+  supabase: SupabaseClient,
+  job: TrainingJob,
+  remote: RemoteTrainingStatus,
+): Promise<TrainingJob> {
+  if (job.status !== 'training') return job;
+
+  const now = new Date().toISOString();
+  let updated: TrainingJob | null = null;
+  if (remote.status === 'succeeded') {
+    const modelId = remote.model_id || job.hf_repo_name;
+    updated = await transitionJob(supabase, job, 'succeeded', { last_polled_at: now }, { hf_model_id: modelId });
+  } else if (remote.status === 'failed') {
+    updated = await transitionJob(supabase, job, 'failed', {
+      last_polled_at: now,
+      error: remote.error || 'Training failed',
+    });
+  } else if (remote.status === 'cancelled') {
+    updated = await transitionJob(supabase, job, 'cancelled', { last_polled_at: now });
+  } else {
+    const { error } = await supabase
+      .from('identity_training_jobs')
+      .update({ last_polled_at: now })
+      .eq('id', job.id);
+    if (error) throw error;
+    return { ...job, last_polled_at: now };
+  }
+
+  return updated ?? job;
+}
+
+// --- Hugging Face ---------------------------------------------------------------
+
+export function huggingFaceCredentials(): Credentials {
+  const accessToken = Deno.env.get('HUGGINGFACE_TOKEN');
+  if (!accessToken) throw new Error('HUGGINGFACE_TOKEN environment variable not set');
+  return { accessToken };
+}
+
+/** Remove an identity's model repo; a repo that is already gone is not an error */
+export async function deleteRemoteModel(repoName: string): Promise<void> {
+  try {
+    await deleteRepo({ repo: { type: 'model', name: repoName }, credentials: huggingFaceCredentials() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!/404|not found/i.test(message)) throw error;
+  }
+}
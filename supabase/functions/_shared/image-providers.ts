@@ -0,0 +1,385 @@
+// Image generation backends behind one interface. generate-memory-sketch and
+// generate-identity-preview build a prompt (see prompt-templates.ts) and hand
+// it to whichever provider the request names or system_configuration's
+// image_generation_config picks by default:
+// - openai: Images API (gpt-image-1 by default)
+// - huggingface: Inference API text-to-image model
+// - stable_diffusion: self-hosted AUTOMATIC1111 (/sdapi/v1/txt2img) or ComfyUI
+//   (/prompt with a workflow template) HTTP endpoint
+// - placeholder: deterministic SVG rendered locally, for tests and development
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export type ImageProviderId = 'openai' | 'huggingface' | 'stable_diffusion' | 'placeholder';
+
+export const IMAGE_PROVIDER_IDS: ImageProviderId[] = ['openai', 'huggingface', 'stable_diffusion', 'placeholder'];
+
+export interface ImageGenerationConfig {
+  default_provider: ImageProviderId;
+  enabled_providers: ImageProviderId[]; // Providers a request may ask for by name
+  openai: { model: string; quality: string };
+  huggingface: { model: string; steps: number; guidance_scale: number };
+  stable_diffusion: {
+    endpoint_url: string;
+    api: 'automatic1111' | 'comfyui';
+    steps: number;
+    // ComfyUI API-format workflow; "{{prompt}}", "{{negative_prompt}}", "{{seed}}",
+    // "{{width}}" and "{{height}}" are filled in per request
+    workflow: Record<string, unknown> | null;
+    timeout_ms: number;
+  };
+}
+
+export const IMAGE_GENERATION_CONFIG_KEY = 'image_generation_config';
+
+export const DEFAULT_IMAGE_GENERATION_CONFIG: ImageGenerationConfig = {
+  default_provider: 'openai',
+  enabled_providers: ['openai', 'placeholder'],
+  openai: { model: 'gpt-image-1', quality: 'high' },
+  huggingface: { model: 'stabilityai/stable-diffusion-xl-base-1.0', steps: 30, guidance_scale: 7.5 },
+  stable_diffusion: { endpoint_url: '', api: 'automatic1111', steps: 30, workflow: null, timeout_ms: 120_000 },
+};
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  negative_prompt?: string | null;
+  width: number;
+  height: number;
+  seed?: number | null;
+  model?: string | null; // Overrides the provider's configured model, e.g. a trained identity
+}
+
+export interface GeneratedImage {
+  bytes: Uint8Array;
+  mime_type: string;
+  provider: ImageProviderId;
+  model: string;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  generate(request: ImageGenerationRequest): Promise<GeneratedImage>;
+}
+
+export function decodeBase64(data: string): Uint8Array {
+  const binaryString = atob(data.includes(',') ? data.split(',')[1] : data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  // In chunks: spreading a whole image into fromCharCode overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fileExtensionFor(mimeType: string): string {
+  if (mimeType.includes('svg')) return 'svg';
+  if (mimeType.includes('jpeg')) return 'jpg';
+  if (mimeType.includes('webp')) return 'webp';
+  return 'png';
+}
+
+/** Defaults merged with the image_generation_config row, if there is one */
+export async function loadImageGenerationConfig(supabase: SupabaseClient): Promise<ImageGenerationConfig> {
+  const { data, error } = await supabase
+    .from('system_configuration')
+    .select('value')
+    .eq('key', IMAGE_GENERATION_CONFIG_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to load image generation config, using defaults:', error);
+  }
+
+  const stored = (data?.value || {}) as Partial<ImageGenerationConfig>;
+  return {
+    ...DEFAULT_IMAGE_GENERATION_CONFIG,
+    ...stored,
+    openai: { ...DEFAULT_IMAGE_GENERATION_CONFIG.openai, ...stored.openai },
+    huggingface: { ...DEFAULT_IMAGE_GENERATION_CONFIG.huggingface, ...stored.huggingface },
+    stable_diffusion: { ...DEFAULT_IMAGE_GENERATION_CONFIG.stable_diffusion, ...stored.stable_diffusion },
+  };
+}
+
+/** The provider a request asked for (if enabled), otherwise the configured default */
+export function resolveImageProvider(config: ImageGenerationConfig, requested?: string | null): ImageProvider {
+  if (requested) {
+    if (!IMAGE_PROVIDER_IDS.includes(requested as ImageProviderId)) {
+      throw new Error(`Unknown image provider: ${requested}`);
+    }
+    if (!config.enabled_providers.includes(requested as ImageProviderId)) {
+      throw new Error(`Image provider not enabled: ${requested}`);
+    }
+  }
+  return createImageProvider((requested as ImageProviderId) || config.default_provider, config);
+}
+
+export function createImageProvider(id: ImageProviderId, config: ImageGenerationConfig): ImageProvider {
+  switch (id) {
+    case 'openai':
+      return openAIProvider(config.openai);
+    case 'huggingface':
+      return huggingFaceProvider(config.huggingface);
+    case 'stable_diffusion':
+      return stableDiffusionProvider(config.stable_diffusion);
+    case 'placeholder':
+      return placeholderProvider();
+    default:
+      throw new Error(`Unknown image provider: ${id}`);
+  }
+}
+
+// ----- OpenAI -----
+
+function openAIProvider(settings: ImageGenerationConfig['openai']): ImageProvider {
+  return {
+    id: 'openai',
+    async generate(request) {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('OpenAI API key not configured');
+
+      const model = request.model || settings.model;
+      // Note: gpt-image-1 always returns base64, doesn't support response_format parameter
+      const response = await fetch('https://api.openai.com/v1/images/generations', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          prompt: request.prompt,
+          n: 1,
+          size: openAISize(request.width, request.height),
+          quality: settings.quality,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        console.error('OpenAI API error:', errorData);
+        throw new Error(`OpenAI API error: ${response.status} - ${errorData}`);
+      }
+
+      const data = await response.json();
+      return { bytes: decodeBase64(data.data[0].b64_json), mime_type: 'image/png', provider: 'openai', model };
+    },
+  };
+}
+
+/** gpt-image-1 only renders square, landscape or portrait at fixed sizes */
+function openAISize(width: number, height: number): string {
+  if (width > height) return '1536x1024';
+  if (height > width) return '1024x1536';
+  return '1024x1024';
+}
+
+// ----- Hugging Face -----
+
+function huggingFaceProvider(settings: ImageGenerationConfig['huggingface']): ImageProvider {
+  return {
+    id: 'huggingface',
+    async generate(request) {
+      const token = Deno.env.get('HUGGINGFACE_TOKEN');
+      if (!token) throw new Error('HuggingFace token not configured');
+
+      const model = request.model || settings.model;
+      const response = await fetch(`https://api-inference.huggingface.co/models/${model}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          inputs: request.prompt,
+          parameters: {
+            negative_prompt: request.negative_prompt || undefined,
+            num_inference_steps: settings.steps,
+            guidance_scale: settings.guidance_scale,
+            width: request.width,
+            height: request.height,
+            ...(request.seed != null && { seed: request.seed }),
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('HuggingFace API error:', errorText);
+        throw new Error(`HuggingFace API error: ${errorText}`);
+      }
+
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      return { bytes, mime_type: response.headers.get('content-type') || 'image/png', provider: 'huggingface', model };
+    },
+  };
+}
+
+// ----- Self-hosted Stable Diffusion / ComfyUI -----
+
+function stableDiffusionProvider(settings: ImageGenerationConfig['stable_diffusion']): ImageProvider {
+  return {
+    id: 'stable_diffusion',
+    async generate(request) {
+      if (!settings.endpoint_url) throw new Error('Stable Diffusion endpoint not configured');
+      const baseUrl = settings.endpoint_url.replace(/\/+$/, '');
+      const apiKey = Deno.env.get('STABLE_DIFFUSION_API_KEY');
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      };
+
+      return settings.api === 'comfyui'
+        ? generateWithComfyUI(baseUrl, headers, settings, request)
+        : generateWithAutomatic1111(baseUrl, headers, settings, request);
+    },
+  };
+}
+
+async function generateWithAutomatic1111(
+  baseUrl: string,
+  headers: Record<string, string>,
+  settings: ImageGenerationConfig['stable_diffusion'],
+  request: ImageGenerationRequest,
+): Promise<GeneratedImage> {
+  const response = await fetch(`${baseUrl}/sdapi/v1/txt2img`, {
+    method: 'POST',
+    headers,
+    signal: AbortSignal.timeout(settings.timeout_ms),
+    body: JSON.stringify({
+      prompt: request.prompt,
+      negative_prompt: request.negative_prompt || '',
+      width: request.width,
+      height: request.height,
+      steps: settings.steps,
+      seed: request.seed ?? -1,
+      ...(request.model && { override_settings: { sd_model_checkpoint: request.model } }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Stable Diffusion API error:', errorText);
+    throw new Error(`Stable Diffusion API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  if (!data.images?.[0]) throw new Error('Stable Diffusion returned no image');
+  return { bytes: decodeBase64(data.images[0]), mime_type: 'image/png', provider: 'stable_diffusion', model: request.model || 'automatic1111' };
+}
+
+async function generateWithComfyUI(
+  baseUrl: string,
+  headers: Record<string, string>,
+  settings: ImageGenerationConfig['stable_diffusion'],
+  request: ImageGenerationRequest,
+): Promise<GeneratedImage> {
+  if (!settings.workflow) throw new Error('ComfyUI workflow not configured');
+
+  const text = (value: string) => JSON.stringify(value).slice(1, -1);
+  const workflow = JSON.parse(
+    JSON.stringify(settings.workflow)
+      .split('{{prompt}}').join(text(request.prompt))
+      .split('{{negative_prompt}}').join(text(request.negative_prompt || ''))
+      .split('"{{seed}}"').join(String(request.seed ?? Math.floor(Math.random() * 1_000_000_000)))
+      .split('"{{width}}"').join(String(request.width))
+      .split('"{{height}}"').join(String(request.height)),
+  );
+
+  const queued = await fetch(`${baseUrl}/prompt`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ prompt: workflow }),
+  });
+  if (!queued.ok) {
+    const errorText = await queued.text();
+    console.error('ComfyUI API error:', errorText);
+    throw new Error(`ComfyUI API error: ${queued.status} - ${errorText}`);
+  }
+  const { prompt_id: promptId } = await queued.json();
+
+  // ComfyUI queues the job; poll its history until an output image appears
+  const deadline = Date.now() + settings.timeout_ms;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    const historyResponse = await fetch(`${baseUrl}/history/${promptId}`, { headers });
+    if (!historyResponse.ok) continue;
+
+    const history = await historyResponse.json();
+    const outputs = history[promptId]?.outputs as Record<string, { images?: { filename: string; subfolder: string; type: string }[] }> | undefined;
+    const image = outputs && Object.values(outputs).flatMap(output => output.images || [])[0];
+    if (!image) continue;
+
+    const params = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder, type: image.type });
+    const imageResponse = await fetch(`${baseUrl}/view?${params}`, { headers });
+    if (!imageResponse.ok) throw new Error(`ComfyUI image download failed: ${imageResponse.status}`);
+
+    return {
+      bytes: new Uint8Array(await imageResponse.arrayBuffer()),
+      mime_type: imageResponse.headers.get('content-type') || 'image/png',
+      provider: 'stable_diffusion',
+      model: request.model || 'comfyui',
+    };
+  }
+
+  throw new Error('ComfyUI did not finish in time');
+}
+
+// ----- Placeholder -----
+
+/** FNV-1a, so the same prompt and seed always render the same picture */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function placeholderProvider(): ImageProvider {
+  return {
+    id: 'placeholder',
+    async generate(request) {
+      const hash = hashString(`${request.prompt}|${request.seed ?? ''}|${request.model ?? ''}`);
+      const hue = hash % 360;
+      const { width, height } = request;
+
+      const shapes = Array.from({ length: 5 }, (_, i) => {
+        const h = hashString(`${hash}:${i}`);
+        const cx = h % width;
+        const cy = (h >>> 8) % height;
+        const r = 40 + ((h >>> 16) % Math.round(Math.min(width, height) / 4));
+        return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="hsl(${(hue + i * 47) % 360}, 45%, 60%)" fill-opacity="0.35"/>`;
+      }).join('');
+
+      const words = request.prompt.split(/\s+/).filter(Boolean);
+      const lines: string[] = [];
+      for (const word of words) {
+        const last = lines[lines.length - 1];
+        if (last && (last + ' ' + word).length <= 48) lines[lines.length - 1] = `${last} ${word}`;
+        else lines.push(word);
+        if (lines.length > 6) break;
+      }
+      const text = lines.slice(0, 6).map((line, i) =>
+        `<text x="32" y="${height - 40 - (Math.min(lines.length, 6) - 1 - i) * 24}" font-family="monospace" font-size="16" fill="#1f2937">${escapeXml(line)}</text>`
+      ).join('');
+
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<rect width="100%" height="100%" fill="hsl(${hue}, 35%, 88%)"/>${shapes}` +
+        `<text x="32" y="48" font-family="monospace" font-size="14" fill="#4b5563">placeholder #${hash.toString(16)}</text>${text}</svg>`;
+
+      return { bytes: new TextEncoder().encode(svg), mime_type: 'image/svg+xml', provider: 'placeholder', model: 'placeholder-svg' };
+    },
+  };
+}
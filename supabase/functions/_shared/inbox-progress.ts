@@ -0,0 +1,64 @@
+// Progress of one messaging inbox event (messaging_webhook_events.progress).
+// Each step that writes or sends records itself here as it finishes, so a
+// retry or an admin replay of the event carries on where the last attempt
+// stopped instead of saving the message, creating the memory or answering
+// the user a second time.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import type { ChannelAdapter, InboundMedia } from "./channel-types.ts";
+
+export interface InboxProgressSteps {
+  inbound_message_id?: string; // whatsapp_messages row for the user's message
+  artifact_ids?: string[]; // Photos and videos uploaded from it
+  memory_id?: string; // Memory saved when it finished one
+  edited_memory_id?: string; // Memory it was added to with /edit
+  // Who it said was talking on a household phone, with the media they sent before
+  household_choice?: { user_id: string; display_name: string; media: InboundMedia[] };
+  sent?: number; // Messages sent back, counted in order
+}
+
+export class InboxProgress {
+  private sendsToSkip: number;
+
+  constructor(
+    private supabase: SupabaseClient,
+    private eventId: string,
+    readonly steps: InboxProgressSteps = {}
+  ) {
+    this.sendsToSkip = steps.sent || 0;
+  }
+
+  async record(steps: InboxProgressSteps) {
+    Object.assign(this.steps, steps);
+    const { error } = await this.supabase
+      .from('messaging_webhook_events')
+      .update({ progress: this.steps })
+      .eq('id', this.eventId);
+    if (error) throw error;
+  }
+
+  /**
+   * The adapter, except that messages an earlier attempt already sent are
+   * skipped (answered with alreadySent) and every new one is counted
+   */
+  track(adapter: ChannelAdapter): ChannelAdapter {
+    return {
+      channel: adapter.channel,
+      provider: adapter.provider,
+      voiceReplies: adapter.voiceReplies,
+      italics: adapter.italics,
+      verifyWebhook: request => adapter.verifyWebhook(request),
+      authenticate: (request, rawBody) => adapter.authenticate(request, rawBody),
+      parseIncomingMessage: rawBody => adapter.parseIncomingMessage(rawBody),
+      downloadMedia: ref => adapter.downloadMedia(ref),
+      sendMessage: async outbound => {
+        if (this.sendsToSkip > 0) {
+          this.sendsToSkip--;
+          return { success: true, alreadySent: true };
+        }
+        const result = await adapter.sendMessage(outbound);
+        await this.record({ sent: (this.steps.sent || 0) + 1 });
+        return result;
+      },
+    };
+  }
+}
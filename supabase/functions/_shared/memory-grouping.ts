@@ -0,0 +1,104 @@
+// Server-side counterpart of src/utils/memoryGrouping.ts (getGroupedMemories):
+// chunks sharing a memory_group_id are reassembled into one memory, with the
+// "(Part n/m)" suffix removed from the title.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export interface MemoryChunkRow {
+  id: string;
+  title: string;
+  text: string;
+  memory_group_id: string | null;
+  chunk_sequence: number | null;
+  total_chunks: number | null;
+  [key: string]: unknown;
+}
+
+export interface GroupedMemory {
+  id: string; // memory_group_id
+  chunkIds: string[];
+  title: string;
+  text: string;
+  tags: string[] | null;
+  memory_date: string | null;
+  memory_location: string | null;
+  image_urls: string[] | null;
+  recipient: string;
+  source_type: string | null;
+  metadata: unknown;
+  created_at: string;
+  updated_at: string;
+  totalChunks: number;
+}
+
+/** Longest chunk text, as in src/utils/memoryChunking.ts */
+export const MAX_CHUNK_SIZE = 8000;
+
+const PAGE_SIZE = 1000;
+const CHUNK_TITLE_PATTERN = /\s*\(Part \d+\/\d+\)$/;
+
+export function extractOriginalTitle(title: string, totalChunks: number): string {
+  return totalChunks > 1 ? title.replace(CHUNK_TITLE_PATTERN, '') : title;
+}
+
+/**
+ * Group chunk rows into whole memories, most recent first
+ */
+export function groupMemoryChunks(rows: MemoryChunkRow[]): GroupedMemory[] {
+  const groups = new Map<string, MemoryChunkRow[]>();
+  for (const row of rows) {
+    const groupId = row.memory_group_id || row.id;
+    if (!groups.has(groupId)) groups.set(groupId, []);
+    groups.get(groupId)!.push(row);
+  }
+
+  const grouped: GroupedMemory[] = [];
+  for (const [groupId, chunks] of groups.entries()) {
+    chunks.sort((a, b) => (a.chunk_sequence || 1) - (b.chunk_sequence || 1));
+    const first = chunks[0];
+
+    grouped.push({
+      id: groupId,
+      chunkIds: chunks.map(chunk => chunk.id),
+      title: extractOriginalTitle(first.title, chunks.length),
+      // Same join as reconstructMemoryFromChunks
+      text: chunks.map(chunk => chunk.text).join('\n\n'),
+      tags: (first.tags as string[] | null) ?? null,
+      memory_date: (first.memory_date as string | null) ?? null,
+      memory_location: (first.memory_location as string | null) ?? null,
+      image_urls: (first.image_urls as string[] | null) ?? null,
+      recipient: (first.recipient as string | null) || 'public',
+      source_type: (first.source_type as string | null) ?? null,
+      metadata: first.metadata ?? null,
+      created_at: first.created_at as string,
+      updated_at: chunks
+        .map(chunk => chunk.updated_at as string)
+        .reduce((latest, value) => (value > latest ? value : latest), first.updated_at as string),
+      totalChunks: chunks.length,
+    });
+  }
+
+  return grouped.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
+
+/**
+ * Fetch every memory of a user (paged) and reassemble chunked memories
+ */
+export async function getGroupedMemories(supabase: SupabaseClient, userId: string): Promise<GroupedMemory[]> {
+  const rows: MemoryChunkRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('memories')
+      .select('*')
+      .eq('user_id', userId)
+      .order('memory_group_id')
+      .order('chunk_sequence')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return groupMemoryChunks(rows);
+}
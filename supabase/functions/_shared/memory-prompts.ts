@@ -0,0 +1,168 @@
+// The weekly question Solin sends unprompted (memory-prompts function). It
+// builds on one of the user's own memories or their topics of interest, never
+// on anything touching their sensitive topics, and avoids repeating recent
+// questions. Without OpenAI it falls back to the same kind of follow-ups
+// intelligentPrompting offers in the app.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export interface GeneratedPrompt {
+  question: string;
+  seedMemoryId: string | null;
+  topic: string | null;
+}
+
+interface SeedMemory {
+  id: string;
+  title: string;
+  text: string;
+  memory_location: string | null;
+  memory_date: string | null;
+}
+
+const RECENT_MEMORIES = 30;
+const RECENT_PROMPTS = 8;
+
+const GENERAL_QUESTIONS = [
+  "What's a smell that instantly takes you back to childhood?",
+  "Who was the first friend you can remember, and what did you get up to together?",
+  "What did a perfect Sunday look like when you were young?",
+  "Is there a meal someone used to make for you that you still think about?",
+  "What's a place you lived that you'd love to walk through one more time?",
+];
+
+const TOPIC_QUESTIONS = [
+  (topic: string) => `What's your earliest memory connected to ${topic}?`,
+  (topic: string) => `Who first got you interested in ${topic}?`,
+];
+
+const mentions = (text: string, topic: string) => text.toLowerCase().includes(topic.toLowerCase());
+
+/** Follow-ups in the style of intelligentPrompting.getMemorySpecificQuestions */
+function templateQuestion(seed: SeedMemory | null, topic: string | null, pick: number): string {
+  if (seed) {
+    const title = seed.title.replace(/[.!?]+$/, '');
+    const options = [
+      `You once told me about "${title}" — what's one detail from that day you haven't shared yet?`,
+      `Thinking back to "${title}", who else was there, and what do you remember about them?`,
+    ];
+    if (seed.memory_location) {
+      options.push(`You mentioned ${seed.memory_location} in "${title}" — what did it look, sound or smell like?`);
+    }
+    if (seed.memory_date) {
+      options.push(`What else was going on in your life around the time of "${title}"?`);
+    }
+    return options[pick % options.length];
+  }
+  if (topic) return TOPIC_QUESTIONS[pick % TOPIC_QUESTIONS.length](topic);
+  return GENERAL_QUESTIONS[pick % GENERAL_QUESTIONS.length];
+}
+
+async function writeQuestion(
+  userName: string,
+  seed: SeedMemory | null,
+  topic: string | null,
+  sensitiveTopics: string[],
+  recentQuestions: string[]
+): Promise<string | null> {
+  const openAIKey = Deno.env.get("OPENAI_API_KEY");
+  if (!openAIKey) return null;
+
+  const context = seed
+    ? `One of their memories, "${seed.title}"${seed.memory_location ? ` (${seed.memory_location})` : ''}${seed.memory_date ? `, ${seed.memory_date}` : ''}:\n"""\n${seed.text.substring(0, 1500)}\n"""`
+    : topic
+      ? `They are interested in ${topic}.`
+      : 'You know little about them yet.';
+
+  const prompt = `Write ONE short, warm question to ${userName} that invites them to share a new memory.
+
+${context}
+
+- Refer to one specific detail (a person, place, smell, sound or object), e.g. "You mentioned your grandmother's kitchen in Lisbon — what did it smell like?"
+- One or two sentences, no greeting, no emoji
+${sensitiveTopics.length > 0 ? `- Never touch on: ${sensitiveTopics.join(', ')}\n` : ''}${recentQuestions.length > 0 ? `- Do not repeat these recent questions:\n${recentQuestions.map(q => `  * ${q}`).join('\n')}\n` : ''}
+Return ONLY valid JSON: { "question": "..." }`;
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${openAIKey}`,
+    },
+    body: JSON.stringify({
+      model: "gpt-4o-mini",
+      messages: [
+        { role: "system", content: "You are Solin, a warm childhood friend helping someone preserve their life memories. Always return valid JSON." },
+        { role: "user", content: prompt },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.8,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Memory prompt request failed:', response.status, await response.text());
+    return null;
+  }
+
+  const data = await response.json();
+  const question = JSON.parse(data.choices[0].message.content).question;
+  return typeof question === 'string' && question.trim() ? question.trim() : null;
+}
+
+/** Next question for the user; does not send or record it */
+export async function generateMemoryPrompt(supabase: SupabaseClient, userId: string): Promise<GeneratedPrompt> {
+  const [profileResult, memoriesResult, promptsResult] = await Promise.all([
+    supabase
+      .from('user_profiles')
+      .select('preferred_name, display_name, topics_of_interest, sensitive_topics')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('memories')
+      .select('id, title, text, memory_location, memory_date')
+      .eq('user_id', userId)
+      .eq('is_primary_chunk', true)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_MEMORIES),
+    supabase
+      .from('memory_prompts')
+      .select('question, seed_memory_id, topic')
+      .eq('user_id', userId)
+      .order('sent_at', { ascending: false })
+      .limit(RECENT_PROMPTS),
+  ]);
+
+  const profile = profileResult.data;
+  const userName = profile?.preferred_name || profile?.display_name || 'your friend';
+  const sensitiveTopics: string[] = profile?.sensitive_topics || [];
+  const recentPrompts = promptsResult.data || [];
+  const usedSeeds = new Set(recentPrompts.map(p => p.seed_memory_id).filter(Boolean));
+  const usedTopics = new Set(recentPrompts.map(p => p.topic).filter(Boolean));
+
+  const isSafe = (text: string) => !sensitiveTopics.some(topic => mentions(text, topic));
+
+  const seeds: SeedMemory[] = (memoriesResult.data || [])
+    .filter(m => m.title && m.text && isSafe(`${m.title} ${m.text} ${m.memory_location || ''}`));
+  const topics: string[] = (profile?.topics_of_interest || []).filter(isSafe);
+
+  // Rotate: a memory not asked about recently, else a fresh topic of interest
+  const pick = recentPrompts.length;
+  const freshSeeds = seeds.filter(m => !usedSeeds.has(m.id));
+  const seed = freshSeeds.length > 0 ? freshSeeds[pick % freshSeeds.length] : null;
+  const freshTopics = topics.filter(t => !usedTopics.has(t));
+  const topicPool = freshTopics.length > 0 ? freshTopics : topics;
+  const topic = seed ? null : topicPool.length > 0 ? topicPool[pick % topicPool.length] : null;
+
+  let question: string | null = null;
+  try {
+    question = await writeQuestion(userName, seed, topic, sensitiveTopics, recentPrompts.map(p => p.question));
+  } catch (error) {
+    console.error('Error writing memory prompt:', error);
+  }
+
+  if (!question || !isSafe(question)) {
+    question = templateQuestion(seed, topic, pick);
+  }
+
+  return { question, seedMemoryId: seed?.id || null, topic };
+}
@@ -0,0 +1,196 @@
+// Shared memory search used by the orchestrator, the messaging channels and the
+// memory-search function (Sanctuary voice tools). Ranking happens in the
+// search_memories SQL function; this module embeds the query and keeps the
+// memory_embeddings table up to date.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getEmbeddingProvider, toVectorLiteral, type EmbeddingProvider } from "./embeddings.ts";
+
+export interface MemorySearchFilters {
+  dateFrom?: string | null; // YYYY-MM-DD, compared with memory_date (or created_at)
+  dateTo?: string | null;
+  location?: string | null;
+  tags?: string[] | null;
+  people?: string[] | null;
+}
+
+export interface MemorySearchOptions extends MemorySearchFilters {
+  query?: string | null;
+  limit?: number;
+  semanticWeight?: number; // 0 = full-text only, 1 = embeddings only
+  minScore?: number;
+}
+
+export interface MemorySearchResult {
+  id: string;
+  memoryGroupId: string;
+  title: string;
+  text: string;
+  memoryDate: string | null;
+  location: string | null;
+  tags: string[];
+  imageUrls: string[];
+  createdAt: string;
+  totalChunks: number;
+  bestChunkSequence: number | null;
+  textRank: number;
+  semanticScore: number;
+  score: number;
+}
+
+const PROCESSING_TITLE = 'Processing memory...';
+
+export async function searchMemories(
+  supabase: SupabaseClient,
+  userId: string,
+  options: MemorySearchOptions = {},
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<MemorySearchResult[]> {
+  const query = options.query?.trim() || null;
+
+  let queryEmbedding: string | null = null;
+  if (query) {
+    try {
+      const [vector] = await provider.embed([query]);
+      queryEmbedding = vector ? toVectorLiteral(vector) : null;
+    } catch (error) {
+      // Full-text ranking still works without the semantic half
+      console.error('⚠️ Query embedding failed, using full-text only:', error);
+    }
+  }
+
+  const { data, error } = await supabase.rpc('search_memories', {
+    p_user_id: userId,
+    p_query: query,
+    p_query_embedding: queryEmbedding,
+    p_embedding_provider: queryEmbedding ? provider.name : null,
+    p_embedding_model: queryEmbedding ? provider.model : null,
+    p_date_from: options.dateFrom || null,
+    p_date_to: options.dateTo || null,
+    p_location: options.location?.trim() || null,
+    p_tags: options.tags?.length ? options.tags : null,
+    p_people: options.people?.length ? options.people : null,
+    p_limit: options.limit ?? 10,
+    p_semantic_weight: queryEmbedding ? (options.semanticWeight ?? 0.5) : 0,
+    p_min_score: options.minScore ?? 0.05
+  });
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter((row: { title: string }) => row.title !== PROCESSING_TITLE)
+    .map((row: Record<string, unknown>) => ({
+      id: row.memory_id as string,
+      memoryGroupId: row.memory_group_id as string,
+      title: row.title as string,
+      text: (row.text as string) || '',
+      memoryDate: (row.memory_date as string) || null,
+      location: (row.memory_location as string) || null,
+      tags: (row.tags as string[]) || [],
+      imageUrls: (row.image_urls as string[]) || [],
+      createdAt: row.created_at as string,
+      totalChunks: (row.total_chunks as number) || 1,
+      bestChunkSequence: (row.best_chunk_sequence as number) ?? null,
+      textRank: Number(row.text_rank) || 0,
+      semanticScore: Number(row.semantic_score) || 0,
+      score: Number(row.score) || 0
+    }));
+}
+
+export interface SharedMemorySearchResult {
+  ownerUserId: string;
+  memoryGroupId: string;
+  title: string;
+  text: string;
+  memoryDate: string | null;
+  textRank: number;
+}
+
+/**
+ * Full-text search over other people's memories whose audience includes the
+ * viewer (circles or direct grants). Service role only: the viewer is passed
+ * explicitly to search_shared_memories.
+ */
+export async function searchSharedMemories(
+  supabase: SupabaseClient,
+  viewerId: string,
+  query: string | null,
+  limit = 5
+): Promise<SharedMemorySearchResult[]> {
+  const { data, error } = await supabase.rpc('search_shared_memories', {
+    p_viewer: viewerId,
+    p_query: query?.trim() || null,
+    p_limit: limit
+  });
+
+  if (error) throw error;
+
+  return (data || [])
+    .filter((row: { title: string }) => row.title !== PROCESSING_TITLE)
+    .map((row: Record<string, unknown>) => ({
+      ownerUserId: row.owner_user_id as string,
+      memoryGroupId: row.memory_group_id as string,
+      title: row.title as string,
+      text: (row.text as string) || '',
+      memoryDate: (row.memory_date as string) || null,
+      textRank: Number(row.text_rank) || 0
+    }));
+}
+
+/**
+ * Embed memory rows that have no embedding yet, or whose title/text changed
+ * since they were embedded. Cheap to call repeatedly; returns how many rows
+ * were (re)indexed.
+ */
+export async function indexMemoryEmbeddings(
+  supabase: SupabaseClient,
+  userId: string,
+  limit = 50,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number> {
+  const { data: pending, error } = await supabase.rpc('get_memories_needing_embeddings', {
+    p_user_id: userId,
+    p_provider: provider.name,
+    p_model: provider.model,
+    p_limit: limit
+  });
+
+  if (error) throw error;
+  if (!pending || pending.length === 0) return 0;
+
+  const vectors = await provider.embed(
+    pending.map((row: { title: string; text: string }) => `${row.title || ''}\n\n${row.text || ''}`)
+  );
+
+  const rows = pending.map((row: { id: string; memory_group_id: string | null; content_hash: string }, i: number) => ({
+    memory_id: row.id,
+    user_id: userId,
+    memory_group_id: row.memory_group_id,
+    provider: provider.name,
+    model: provider.model,
+    content_hash: row.content_hash,
+    embedding: toVectorLiteral(vectors[i])
+  }));
+
+  const { error: upsertError } = await supabase
+    .from('memory_embeddings')
+    .upsert(rows, { onConflict: 'memory_id' });
+
+  if (upsertError) throw upsertError;
+
+  console.log(`🧭 Indexed ${rows.length} memory embedding(s) for user ${userId}`);
+  return rows.length;
+}
+
+/** Parse "YYYY", "YYYY-MM" or "YYYY-MM-DD" into an inclusive date range */
+export function dateRangeFromPartialDate(value: string): { dateFrom: string; dateTo: string } | null {
+  const match = value?.trim().match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  if (day) return { dateFrom: `${year}-${month}-${day}`, dateTo: `${year}-${month}-${day}` };
+  if (month) {
+    const lastDay = new Date(Date.UTC(Number(year), Number(month), 0)).getUTCDate();
+    return { dateFrom: `${year}-${month}-01`, dateTo: `${year}-${month}-${String(lastDay).padStart(2, '0')}` };
+  }
+  return { dateFrom: `${year}-01-01`, dateTo: `${year}-12-31` };
+}
@@ -0,0 +1,301 @@
+// Resolves free-text people mentions ("Mom", "my mother Sarah", "Uncle Bob")
+// to canonical rows in the people table. Used by process-memory-insights for
+// each new memory and by the people-directory function to rebuild everything.
+// Matching is alias first, then name, then relationship; anything unmatched
+// becomes a new person the user can merge later.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export type RelationshipGroup = 'family' | 'friend' | 'partner' | 'other';
+export type PersonSource = 'insights' | 'profile' | 'manual';
+
+export interface PersonRecord {
+  id: string;
+  user_id: string;
+  display_name: string;
+  relationship: string | null;
+  relationship_group: RelationshipGroup;
+  aliases: string[];
+  linked_user_id: string | null;
+  sources: string[];
+  is_hidden: boolean;
+}
+
+export interface ParsedMention {
+  alias: string;             // Normalised mention, stored in people.aliases
+  name: string | null;       // "Sarah"
+  relationship: string | null; // Canonical, e.g. "mother"
+  label: string;             // How to title a new person without a name, e.g. "Mom"
+}
+
+interface PendingMention {
+  person_id: string;
+  memory_id: string;
+  memory_group_id: string;
+  mention: string;
+  alias: string;
+}
+
+export interface PeopleDirectory {
+  userId: string;
+  people: PersonRecord[];
+  created: Set<string>;
+  changed: Set<string>;
+  mentions: PendingMention[];
+}
+
+// Word (or two-word phrase) → canonical relationship
+const RELATIONSHIP_WORDS: Record<string, string> = {
+  mom: 'mother', mum: 'mother', mommy: 'mother', mummy: 'mother', mama: 'mother', ma: 'mother', mother: 'mother',
+  dad: 'father', daddy: 'father', papa: 'father', pa: 'father', pop: 'father', father: 'father',
+  stepmom: 'stepmother', stepmother: 'stepmother', 'step mother': 'stepmother',
+  stepdad: 'stepfather', stepfather: 'stepfather', 'step father': 'stepfather',
+  grandma: 'grandmother', granny: 'grandmother', nana: 'grandmother', nan: 'grandmother', gran: 'grandmother', grandmother: 'grandmother',
+  grandpa: 'grandfather', granddad: 'grandfather', grandad: 'grandfather', gramps: 'grandfather', grandfather: 'grandfather',
+  brother: 'brother', bro: 'brother', sister: 'sister', sis: 'sister', sibling: 'sibling',
+  son: 'son', daughter: 'daughter', child: 'child', kid: 'child',
+  grandson: 'grandson', granddaughter: 'granddaughter', grandchild: 'grandchild',
+  aunt: 'aunt', auntie: 'aunt', aunty: 'aunt', uncle: 'uncle', cousin: 'cousin', niece: 'niece', nephew: 'nephew',
+  'mother-in-law': 'mother-in-law', 'father-in-law': 'father-in-law', 'sister-in-law': 'sister-in-law', 'brother-in-law': 'brother-in-law',
+  wife: 'wife', husband: 'husband', hubby: 'husband', spouse: 'spouse', partner: 'partner',
+  girlfriend: 'girlfriend', boyfriend: 'boyfriend', fiance: 'fiance', fiancee: 'fiance',
+  friend: 'friend', 'best friend': 'best friend', bestie: 'best friend', 'childhood friend': 'childhood friend',
+  roommate: 'roommate', flatmate: 'roommate', neighbor: 'neighbour', neighbour: 'neighbour',
+  colleague: 'colleague', coworker: 'colleague', boss: 'boss', teacher: 'teacher', mentor: 'mentor',
+};
+
+const RELATIONSHIP_GROUPS: Record<string, RelationshipGroup> = {
+  mother: 'family', father: 'family', stepmother: 'family', stepfather: 'family',
+  grandmother: 'family', grandfather: 'family', brother: 'family', sister: 'family', sibling: 'family',
+  son: 'family', daughter: 'family', child: 'family', grandson: 'family', granddaughter: 'family', grandchild: 'family',
+  aunt: 'family', uncle: 'family', cousin: 'family', niece: 'family', nephew: 'family',
+  'mother-in-law': 'family', 'father-in-law': 'family', 'sister-in-law': 'family', 'brother-in-law': 'family',
+  wife: 'partner', husband: 'partner', spouse: 'partner', partner: 'partner',
+  girlfriend: 'partner', boyfriend: 'partner', fiance: 'partner',
+  friend: 'friend', 'best friend': 'friend', 'childhood friend': 'friend', roommate: 'friend',
+};
+
+// Relationships a person usually has only one of, so "Mom" and "my mother Sarah" are the same person
+const SINGULAR_RELATIONSHIPS = new Set(['mother', 'father', 'stepmother', 'stepfather', 'wife', 'husband', 'spouse']);
+
+// Mentions that are the user themselves or a group rather than one person
+const NOT_A_PERSON = new Set([
+  'i', 'me', 'myself', 'we', 'us', 'you', 'everyone', 'everybody', 'someone', 'family', 'friends',
+  'parents', 'grandparents', 'kids', 'children', 'siblings', 'cousins', 'relatives', 'people',
+]);
+
+const FILLER_WORDS = new Set(['my', 'our', 'his', 'her', 'their', 'the', 'a', 'an', 'dear', 'late', 'old', 'little', 'big', 'older', 'younger']);
+
+const titleCase = (value: string) => value.replace(/\b\w/g, char => char.toUpperCase());
+
+export function normaliseMention(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’']s\b/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word && !FILLER_WORDS.has(word))
+    .join(' ');
+}
+
+export function relationshipGroup(relationship: string | null): RelationshipGroup {
+  return (relationship && RELATIONSHIP_GROUPS[relationship]) || 'other';
+}
+
+export function canonicalRelationship(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const normalised = normaliseMention(value);
+  const spaced = normalised.replace(/-/g, ' ');
+  return RELATIONSHIP_WORDS[normalised] || RELATIONSHIP_WORDS[spaced] || RELATIONSHIP_WORDS[spaced.replace(/\s+/g, '')] || normalised || null;
+}
+
+export function parseMention(text: string): ParsedMention | null {
+  const alias = normaliseMention(text);
+  if (!alias || NOT_A_PERSON.has(alias)) return null;
+
+  const words = alias.split(' ');
+  const rest: string[] = [];
+  let relationship: string | null = null;
+  let label = '';
+
+  for (let i = 0; i < words.length; i++) {
+    const pair = `${words[i]} ${words[i + 1] ?? ''}`.trim();
+    if (!relationship && RELATIONSHIP_WORDS[pair] && i + 1 < words.length) {
+      relationship = RELATIONSHIP_WORDS[pair];
+      label = pair;
+      i++;
+    } else if (!relationship && RELATIONSHIP_WORDS[words[i]]) {
+      relationship = RELATIONSHIP_WORDS[words[i]];
+      label = words[i];
+    } else {
+      rest.push(words[i]);
+    }
+  }
+
+  const name = rest.length > 0 ? titleCase(rest.join(' ')) : null;
+  return { alias, name, relationship, label: titleCase(label || alias) };
+}
+
+export async function loadPeopleDirectory(supabase: SupabaseClient, userId: string): Promise<PeopleDirectory> {
+  const { data, error } = await supabase.from('people').select('*').eq('user_id', userId);
+  if (error) throw error;
+  return { userId, people: (data || []) as PersonRecord[], created: new Set(), changed: new Set(), mentions: [] };
+}
+
+function findPerson(directory: PeopleDirectory, parsed: ParsedMention): PersonRecord | null {
+  const { people } = directory;
+
+  const byAlias = people.find(person => person.aliases.includes(parsed.alias));
+  if (byAlias) return byAlias;
+
+  if (parsed.name) {
+    const name = parsed.name.toLowerCase();
+    const named = people.filter(person =>
+      normaliseMention(person.display_name) === name || person.aliases.includes(name)
+    );
+    const compatible = named.filter(person => !parsed.relationship || !person.relationship || person.relationship === parsed.relationship);
+    if (compatible.length === 1) return compatible[0];
+    if (compatible.length > 1) return null;
+
+    // "Sarah" → "Sarah Jones" when there is only one Sarah
+    const firstName = people.filter(person => normaliseMention(person.display_name).split(' ')[0] === name);
+    if (!parsed.relationship && firstName.length === 1) return firstName[0];
+  }
+
+  if (parsed.relationship) {
+    const related = people.filter(person => person.relationship === parsed.relationship);
+    if (related.length !== 1) return null;
+    const [person] = related;
+    // A named mention only joins an unnamed one ("Mom") or a singular relationship
+    const isUnnamed = parseMention(person.display_name)?.name == null;
+    if (!parsed.name || isUnnamed || SINGULAR_RELATIONSHIPS.has(parsed.relationship)) {
+      if (parsed.name && isUnnamed) {
+        person.display_name = parsed.name;
+        directory.changed.add(person.id);
+      }
+      return person;
+    }
+  }
+
+  return null;
+}
+
+function addUnique(list: string[], value: string | null | undefined): boolean {
+  if (!value || list.includes(value)) return false;
+  list.push(value);
+  return true;
+}
+
+/** Find or create the person a mention refers to, recording the alias and source on them */
+export function resolvePerson(directory: PeopleDirectory, parsed: ParsedMention, source: PersonSource): PersonRecord {
+  let person = findPerson(directory, parsed);
+
+  if (!person) {
+    person = {
+      id: crypto.randomUUID(),
+      user_id: directory.userId,
+      display_name: parsed.name || parsed.label,
+      relationship: parsed.relationship,
+      relationship_group: relationshipGroup(parsed.relationship),
+      aliases: [],
+      linked_user_id: null,
+      sources: [],
+      is_hidden: false,
+    };
+    directory.people.push(person);
+    directory.created.add(person.id);
+  }
+
+  let changed = addUnique(person.aliases, parsed.alias);
+  changed = addUnique(person.aliases, parsed.name?.toLowerCase()) || changed;
+  changed = addUnique(person.sources, source) || changed;
+  if (!person.relationship && parsed.relationship) {
+    person.relationship = parsed.relationship;
+    person.relationship_group = relationshipGroup(parsed.relationship);
+    changed = true;
+  }
+  if (changed) directory.changed.add(person.id);
+
+  return person;
+}
+
+/** Queue every person mentioned in one memory chunk */
+export function addMemoryMentions(
+  directory: PeopleDirectory,
+  memory: { id: string; memory_group_id?: string | null },
+  mentions: string[],
+) {
+  for (const mention of mentions) {
+    if (typeof mention !== 'string') continue;
+    const parsed = parseMention(mention);
+    if (!parsed) continue;
+
+    const person = resolvePerson(directory, parsed, 'insights');
+    directory.mentions.push({
+      person_id: person.id,
+      memory_id: memory.id,
+      memory_group_id: memory.memory_group_id || memory.id,
+      mention: mention.trim(),
+      alias: parsed.alias,
+    });
+  }
+}
+
+interface ProfilePerson {
+  name?: string;
+  relationship?: string;
+  relationship_type?: string;
+}
+
+/** People the user named in their profile, seeded first so later mentions attach to them */
+export function seedFromProfile(directory: PeopleDirectory, profile: Record<string, unknown> | null) {
+  if (!profile) return;
+
+  const entries: { person: ProfilePerson; fallback: string }[] = [
+    ...((profile.family_members as ProfilePerson[]) || []).map(person => ({ person, fallback: 'family' })),
+    ...((profile.close_friends as ProfilePerson[]) || []).map(person => ({ person, fallback: 'friend' })),
+    ...((profile.significant_others as ProfilePerson[]) || []).map(person => ({ person, fallback: 'partner' })),
+  ];
+
+  for (const { person, fallback } of entries) {
+    const relationship = canonicalRelationship(person.relationship || person.relationship_type) || fallback;
+    const name = person.name?.trim();
+    const parsed = name
+      ? parseMention(name)
+      : parseMention(person.relationship || person.relationship_type || '');
+    if (!parsed) continue;
+
+    resolvePerson(directory, {
+      ...parsed,
+      name: name ? titleCase(name) : parsed.name,
+      relationship,
+    }, 'profile');
+  }
+}
+
+/** Write new and changed people, then the queued mentions (existing mention rows are kept) */
+export async function savePeopleDirectory(supabase: SupabaseClient, directory: PeopleDirectory): Promise<number> {
+  const dirty = directory.people.filter(person => directory.created.has(person.id) || directory.changed.has(person.id));
+  if (dirty.length > 0) {
+    const { error } = await supabase
+      .from('people')
+      .upsert(dirty.map(({ id, user_id, display_name, relationship, relationship_group, aliases, sources }) => ({
+        id, user_id, display_name, relationship, relationship_group, aliases, sources,
+      })), { onConflict: 'id' });
+    if (error) throw error;
+  }
+
+  if (directory.mentions.length === 0) return 0;
+  const { error } = await supabase
+    .from('person_mentions')
+    .upsert(directory.mentions.map(mention => ({ ...mention, user_id: directory.userId })), {
+      onConflict: 'memory_id,alias',
+      ignoreDuplicates: true,
+    });
+  if (error) throw error;
+
+  const saved = directory.mentions.length;
+  directory.created.clear();
+  directory.changed.clear();
+  directory.mentions = [];
+  return saved;
+}
@@ -0,0 +1,65 @@
+// Prompt templates for image generation, shared by generate-memory-sketch and
+// generate-identity-preview so every provider gets the same wording for the
+// SketchStyle / PhotorealStyle options and identity preview views.
+
+export type ReconstructionMode = 'sketch' | 'photoreal';
+export type SketchStyle = 'pencil_sketch' | 'charcoal' | 'soft_sepia' | 'dreamlike_ink';
+export type PhotorealStyle = 'documentary' | 'cinematic' | 'portrait';
+export type IdentityPreviewView = 'front' | 'right_profile' | 'left_profile' | 'smile';
+
+export const SKETCH_STYLE_PROMPTS: Record<SketchStyle, string> = {
+  pencil_sketch: 'Create a detailed pencil sketch on textured paper with soft graphite shading.',
+  charcoal: 'Create a dramatic charcoal drawing with bold strokes and deep contrast on rough paper.',
+  soft_sepia: 'Create a warm sepia-toned vintage photograph with soft nostalgic lighting.',
+  dreamlike_ink: 'Create a dreamlike ink wash painting with flowing brushstrokes and ethereal quality.',
+};
+
+export const PHOTOREAL_STYLE_PROMPTS: Record<PhotorealStyle, string> = {
+  documentary: 'natural documentary style',
+  cinematic: 'cinematic film look',
+  portrait: 'professional portrait style',
+};
+
+const LENS_PROMPTS: Record<number, string> = {
+  35: 'wide angle 35mm',
+  50: 'standard 50mm',
+  85: 'portrait 85mm',
+};
+
+export const NEGATIVE_PROMPTS: Record<ReconstructionMode, string> = {
+  sketch: 'photorealistic, color, 3d render, watermark, text, logo, distorted face',
+  photoreal: 'sketch, drawing, cartoon, 3d render, watermark, text, logo, distorted face, unrealistic',
+};
+
+const IDENTITY_VIEW_PROMPTS: Record<IdentityPreviewView, string> = {
+  front: 'A professional portrait photo, facing forward, neutral expression, studio lighting, plain background',
+  right_profile: 'A professional portrait photo, right side profile view, neutral expression, studio lighting, plain background',
+  left_profile: 'A professional portrait photo, left side profile view, neutral expression, studio lighting, plain background',
+  smile: 'A professional portrait photo, facing forward, warm smile, studio lighting, plain background',
+};
+
+export const IDENTITY_PREVIEW_NEGATIVE_PROMPT = 'blurry, low quality, distorted, cartoon, illustration, painting';
+
+export interface ReconstructionPromptInput {
+  mode: ReconstructionMode;
+  scene: string;
+  style?: string | null;
+  lens_mm?: number | null;
+  camera_style?: string | null;
+}
+
+export function buildReconstructionPrompt(input: ReconstructionPromptInput): string {
+  if (input.mode === 'photoreal') {
+    const lens = LENS_PROMPTS[input.lens_mm ?? 85] || LENS_PROMPTS[85];
+    const style = PHOTOREAL_STYLE_PROMPTS[input.camera_style as PhotorealStyle] || PHOTOREAL_STYLE_PROMPTS.portrait;
+    return `Ultra-realistic photorealistic photograph, ${lens} lens, ${style}, natural lighting, high detail, 4K quality, professional photography. Scene: ${input.scene}. Photographic, hyper-realistic, detailed textures, natural colors, authentic moment captured on film.`;
+  }
+
+  const style = SKETCH_STYLE_PROMPTS[input.style as SketchStyle] || SKETCH_STYLE_PROMPTS.pencil_sketch;
+  return `${style} Memory scene: ${input.scene}. Style: artistic, emotional, nostalgic, 4:3 aspect ratio.`;
+}
+
+export function buildIdentityPreviewPrompt(view: string): string {
+  const base = IDENTITY_VIEW_PROMPTS[view as IdentityPreviewView] || IDENTITY_VIEW_PROMPTS.front;
+  return `${base}. Photorealistic, high quality, professional photography.`;
+}
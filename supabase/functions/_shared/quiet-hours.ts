@@ -0,0 +1,58 @@
+// Quiet hours for messages Solin starts unprompted (memory-prompts): a window
+// in the user's own timezone, which may wrap past midnight (22:00-07:00).
+// A prompt that falls due inside it waits until the window ends.
+
+export interface QuietHours {
+  timezone: string; // IANA, e.g. Europe/London
+  quiet_hours_start: string | null; // HH:MM or HH:MM:SS, as Postgres returns TIME
+  quiet_hours_end: string | null;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/** Wall-clock time in the timezone (minutes past midnight) and its offset from UTC in minutes */
+function wallClock(timezone: string, at: Date): { minutes: number; offset: number } {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  const wallAsUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return {
+    minutes: part('hour') * 60 + part('minute'),
+    offset: Math.round((wallAsUtc - Math.floor(at.getTime() / 1000) * 1000) / 60000),
+  };
+}
+
+/**
+ * When the quiet hours around now end, or null when now is outside them (or
+ * the user has none). Lands on the end's wall-clock time even when the clocks
+ * change in between.
+ */
+export function quietHoursEnd(settings: QuietHours, now: Date): Date | null {
+  if (!settings.quiet_hours_start || !settings.quiet_hours_end) return null;
+
+  const { minutes: local, offset } = wallClock(settings.timezone, now);
+  const start = toMinutes(settings.quiet_hours_start);
+  const end = toMinutes(settings.quiet_hours_end);
+
+  const inQuietHours = start <= end ? local >= start && local < end : local >= start || local < end;
+  if (!inQuietHours) return null;
+
+  const minuteStart = Math.floor(now.getTime() / 60000) * 60000;
+  const naive = new Date(minuteStart + ((end - local + MINUTES_PER_DAY) % MINUTES_PER_DAY) * 60000);
+  const shift = wallClock(settings.timezone, naive).offset - offset;
+  return new Date(naive.getTime() - shift * 60000);
+}
@@ -0,0 +1,1750 @@
+// Solin's messaging conversation, independent of the channel it runs on:
+// sender lookup (and linking for Telegram/email), session context, voice note
+// transcription, the chat itself, the pending memory that waits for photos
+// and videos, and saving it. whatsapp-webhook and messaging-webhook only pick
+// the adapter (channels.ts) and hand requests to handleChannelWebhook.
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import OpenAI from "https://esm.sh/openai@4.53.2";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { searchMemories, searchSharedMemories, indexMemoryEmbeddings } from "./memory-search.ts";
+import { loadSpeechConfig, synthesizeSpeech, transcribeSpeech } from "./speech-providers.ts";
+import { getChannelAdapter } from "./channels.ts";
+import { resolveHouseholdSender } from "./household-phones.ts";
+import { MAX_CHUNK_SIZE, extractOriginalTitle } from "./memory-grouping.ts";
+import { InboxProgress, type InboxProgressSteps } from "./inbox-progress.ts";
+import { CHANNEL_LABELS, PHONE_CHANNELS } from "./channel-types.ts";
+import type { ChannelAdapter, InboundMessage, MessagingChannel } from "./channel-types.ts";
+import { NOT_ALLOWED_REPLIES, classifyMessage, readConversationState, transition } from "./conversation-state.ts";
+import type { ConversationEvent, ConversationState } from "./conversation-state.ts";
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type"
+};
+
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+interface MemoryDetails {
+  title: string;
+  date: string | null;
+  location: string | null;
+}
+
+/** whatsapp_sessions.context */
+interface SessionContext {
+  memory_discussion_count?: number;
+  has_date?: boolean;
+  has_place?: boolean;
+  has_date_and_place?: boolean;
+  detected_date_hints?: boolean;
+  detected_place_hints?: boolean;
+  state?: ConversationState;
+  awaiting_media_response?: boolean; // Legacy: replaced by state
+  awaiting_media_for_memory?: string | null; // Legacy: memory saved before its media
+  pending_memory_details?: MemoryDetails | null;
+  pending_memory_conversation?: ChatMessage[] | null;
+  pending_artifact_ids?: string[] | null; // Photos/videos for the next saved memory
+  pending_private?: boolean; // /private before the memory was saved
+  last_saved_memory_id?: string | null; // What /undo deletes
+  last_saved_memory_title?: string;
+  listed_memory_ids?: string[] | null; // Numbered by /list, for /edit <n>
+  editing_memory_id?: string | null;
+  media_count?: number;
+  active_prompt_id?: string | null; // Weekly memory prompt the user is answering
+  active_prompt_question?: string | null;
+  [key: string]: unknown;
+}
+
+/** One inbound message being answered */
+interface Conversation {
+  supabase: SupabaseClient;
+  adapter: ChannelAdapter;
+  message: InboundMessage;
+  userId: string;
+  sessionId: string;
+  progress?: InboxProgress; // Set when the message comes from the webhook inbox
+}
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase environment not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+}
+
+// Exact replies that pause or resume weekly memory prompts (memory-prompts)
+const PROMPT_OPT_OUT_KEYWORDS = ['stop', 'unsubscribe', 'stop prompts', 'stop questions', 'no more questions'];
+const PROMPT_OPT_IN_KEYWORDS = ['start', 'resume', 'resume prompts'];
+// Replies after this long no longer count as answering a prompt
+const PROMPT_ANSWER_WINDOW_DAYS = 7;
+// Memories numbered by /list
+const LIST_LENGTH = 5;
+// Webhook inbox (messaging_webhook_events): retries after a failed attempt,
+// and how long an event may stay 'processing' before it is taken again
+const INBOX_MAX_ATTEMPTS = 5;
+const INBOX_RETRY_MINUTES = [1, 5, 30, 120];
+const INBOX_STALE_MINUTES = 10;
+const INBOX_BATCH = 20;
+
+const emphasis = (adapter: ChannelAdapter, text: string) => adapter.italics ? `_${text}_` : text;
+
+// Helper to normalize phone for matching
+const normalizePhone = (phone: string) => phone.replace(/[^\d+]/g, '');
+const phonesMatch = (phone1: string, phone2: string) => {
+  const norm1 = normalizePhone(phone1);
+  const norm2 = normalizePhone(phone2);
+  return norm1 === norm2 || norm1 === `+${norm2}` || `+${norm1}` === norm2;
+};
+
+async function findOrCreateUserByPhone(supabase: SupabaseClient, phoneNumber: string, channel: MessagingChannel) {
+  // Only a verified owner of the number counts; several accounts can list it
+  // unverified. Shared numbers were resolved as household phones before this.
+  const { data: exactMatches, error: exactError } = await supabase
+    .from('user_phone_numbers')
+    .select('user_id')
+    .eq('phone_number', phoneNumber)
+    .eq('verified', true)
+    .order('created_at', { ascending: true })
+    .limit(1);
+  if (exactError) throw exactError;
+
+  if (exactMatches?.[0]) {
+    console.log(`✅ Using verified account: ${exactMatches[0].user_id}`);
+    return exactMatches[0].user_id as string;
+  }
+
+  // The same number written differently (with or without +, spaces)
+  const { data: allVerifiedPhones, error: verifiedError } = await supabase
+    .from('user_phone_numbers')
+    .select('user_id, phone_number')
+    .eq('verified', true)
+    .order('created_at', { ascending: true });
+  if (verifiedError) throw verifiedError;
+
+  const verifiedPhone = allVerifiedPhones?.find(p => phonesMatch(p.phone_number, phoneNumber));
+  if (verifiedPhone) {
+    console.log(`✅ Using verified account: ${verifiedPhone.user_id}`);
+    return verifiedPhone.user_id as string;
+  }
+
+  const { data: newUser, error: createError } = await supabase.auth.admin.createUser({
+    phone: phoneNumber,
+    phone_confirm: true,
+    user_metadata: {
+      phone_number: phoneNumber,
+      source: channel,
+      created_via: `${channel}_webhook`
+    }
+  });
+
+  if (createError || !newUser?.user) {
+    throw new Error(`Failed to create user: ${createError?.message}`);
+  }
+
+  await supabase.from('user_phone_numbers').insert({
+    user_id: newUser.user.id,
+    phone_number: phoneNumber,
+    verified: true,
+    provider: channel
+  });
+
+  // Create basic user_profiles entry for messaging users
+  const { error: profileError } = await supabase.from('user_profiles').insert({
+    user_id: newUser.user.id,
+    onboarding_completed: false,
+    profile_completeness_score: 0
+  });
+  if (profileError) {
+    console.warn(`⚠️ Could not create user_profiles (may already exist): ${profileError.message}`);
+  } else {
+    console.log(`✅ Created user_profiles entry for ${channel} user ${newUser.user.id}`);
+  }
+
+  return newUser.user.id;
+}
+
+/** Account a Telegram chat or email address is linked to, if any */
+async function findLinkedUser(supabase: SupabaseClient, message: InboundMessage): Promise<string | null> {
+  const { data } = await supabase
+    .from('channel_identities')
+    .select('id, user_id')
+    .eq('channel', message.channel)
+    .eq('address', message.from)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  await supabase
+    .from('channel_identities')
+    .update({ last_message_at: new Date().toISOString() })
+    .eq('id', data.id);
+
+  return data.user_id;
+}
+
+/**
+ * Link the sender to the account whose code is in the message (Telegram
+ * "/start CODE", or anywhere in an email's subject or body)
+ */
+async function linkWithCode(supabase: SupabaseClient, message: InboundMessage): Promise<string | null> {
+  const candidates = [...new Set(
+    `${message.subject || ''} ${message.text}`.toUpperCase().match(/\b[A-HJ-NP-Z2-9]{6}\b/g) || []
+  )].slice(0, 20);
+  if (candidates.length === 0) return null;
+
+  const { data: linkCode } = await supabase
+    .from('channel_link_codes')
+    .select('id, user_id')
+    .eq('channel', message.channel)
+    .in('code', candidates)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .limit(1)
+    .maybeSingle();
+
+  if (!linkCode) return null;
+
+  const { error } = await supabase
+    .from('channel_identities')
+    .upsert({
+      user_id: linkCode.user_id,
+      channel: message.channel,
+      address: message.from,
+      display_name: message.senderName || null,
+      last_message_at: new Date().toISOString()
+    }, { onConflict: 'channel,address' });
+
+  if (error) throw error;
+
+  await supabase
+    .from('channel_link_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', linkCode.id);
+
+  console.log(`🔗 Linked ${message.channel} ${message.from} to ${linkCode.user_id}`);
+  return linkCode.user_id;
+}
+
+async function getOrCreateSession(supabase: SupabaseClient, userId: string, message: InboundMessage): Promise<string> {
+  const { data, error } = await supabase.rpc('get_or_create_whatsapp_session', {
+    p_user_id: userId,
+    p_phone_number: message.from,
+    p_conversation_mode: 'chat'
+  });
+
+  if (error) throw error;
+
+  await supabase
+    .from('whatsapp_sessions')
+    .update({ channel: message.channel })
+    .eq('session_id', data)
+    .neq('channel', message.channel);
+
+  return data;
+}
+
+async function getSessionContext(supabase: SupabaseClient, sessionId: string): Promise<SessionContext> {
+  const { data } = await supabase
+    .from('whatsapp_sessions')
+    .select('context')
+    .eq('session_id', sessionId)
+    .single();
+
+  return data?.context || {};
+}
+
+async function updateSessionContext(supabase: SupabaseClient, sessionId: string, context: SessionContext) {
+  await supabase
+    .from('whatsapp_sessions')
+    .update({ context })
+    .eq('session_id', sessionId);
+}
+
+async function uploadMediaAsArtifact(supabase: SupabaseClient, userId: string, mediaData: Uint8Array, mimeType: string, filename: string) {
+  try {
+    const fileExt = mimeType.split('/')[1] || 'jpg';
+    const storagePath = `${userId}/${Date.now()}_${filename || 'media'}.${fileExt}`;
+
+    // Upload to memory-images bucket
+    const { data: uploadData, error: uploadError } = await supabase.storage
+      .from('memory-images')
+      .upload(storagePath, mediaData, {
+        contentType: mimeType,
+        upsert: false
+      });
+
+    if (uploadError) throw uploadError;
+
+    // Create artifact record
+    const { data: artifactData, error: artifactError } = await supabase
+      .from('artifacts')
+      .insert({
+        artifact_type: mimeType.startsWith('image/') ? 'image' : mimeType.startsWith('video/') ? 'video' : 'audio',
+        storage_path: uploadData.path,
+        mime_type: mimeType,
+        file_name: filename
+      })
+      .select('id')
+      .single();
+
+    if (artifactError) throw artifactError;
+
+    return artifactData.id as string;
+  } catch (error) {
+    console.error('❌ Error uploading media artifact:', error);
+    return null;
+  }
+}
+
+async function linkArtifactToMemory(supabase: SupabaseClient, memoryId: string, artifactId: string) {
+  const { error } = await supabase
+    .from('memory_artifacts')
+    .upsert({
+      memory_id: memoryId,
+      artifact_id: artifactId
+    }, { onConflict: 'memory_id,artifact_id', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('❌ Error linking artifact to memory:', error);
+    return false;
+  }
+
+  return true;
+}
+
+async function transcribeAudio(supabase: SupabaseClient, audioData: ArrayBuffer, mimeType: string): Promise<string | null> {
+  try {
+    console.log(`🎤 Transcribing audio (${mimeType})...`);
+
+    const config = await loadSpeechConfig(supabase);
+    const transcription = await transcribeSpeech(config, new Blob([audioData], { type: mimeType }));
+    console.log(`✅ Transcription complete (${transcription.provider}): "${transcription.text.substring(0, 100)}..."`);
+
+    return transcription.text || null;
+  } catch (error) {
+    console.error('❌ Error transcribing audio:', error);
+    return null;
+  }
+}
+
+async function generateVoiceResponse(supabase: SupabaseClient, text: string): Promise<{ data: ArrayBuffer; mimeType: string } | null> {
+  try {
+    console.log(`🎙️ Generating voice for text: "${text.substring(0, 50)}..."`);
+
+    const config = await loadSpeechConfig(supabase);
+    const speech = await synthesizeSpeech(config, { text });
+    console.log(`✅ Voice generated (${speech.provider}): ${speech.bytes.byteLength} bytes`);
+
+    return { data: speech.bytes.buffer as ArrayBuffer, mimeType: speech.mime_type };
+  } catch (error) {
+    console.error('❌ Error generating voice:', error);
+    return null;
+  }
+}
+
+async function saveMessage(
+  conversation: Conversation,
+  { direction, messageText, providerMessageId, memoryId }: {
+    direction: 'inbound' | 'outbound';
+    messageText: string;
+    providerMessageId?: string;
+    memoryId?: string;
+  }
+) {
+  const { supabase, adapter, message, userId, sessionId, progress } = conversation;
+  if (direction === 'inbound' && progress?.steps.inbound_message_id) {
+    return { id: progress.steps.inbound_message_id };
+  }
+
+  const { data, error } = await supabase
+    .from('whatsapp_messages')
+    .insert({
+      user_id: userId,
+      phone_number: message.from,
+      channel: message.channel,
+      direction,
+      message_text: messageText,
+      provider: adapter.provider,
+      provider_message_id: providerMessageId,
+      session_id: sessionId,
+      memory_id: memoryId,
+      status: 'delivered'
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  if (direction === 'inbound') await progress?.record({ inbound_message_id: data.id });
+  return data;
+}
+
+/** Send a message on the conversation's channel and record it */
+async function reply(conversation: Conversation, text: string, memoryId?: string) {
+  const result = await conversation.adapter.sendMessage({
+    to: conversation.message.from,
+    text,
+    inReplyTo: conversation.message
+  });
+  if (!result.alreadySent) {
+    await saveMessage(conversation, { direction: 'outbound', messageText: text, memoryId });
+  }
+  return result;
+}
+
+async function getConversationContext(supabase: SupabaseClient, userId: string, sessionId: string, limit = 20): Promise<ChatMessage[]> {
+  // Increased limit to 20 to maintain better context for memory discussions
+  const { data, error } = await supabase
+    .from('whatsapp_messages')
+    .select('direction, message_text, created_at')
+    .eq('user_id', userId)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) return [];
+
+  return (data || []).reverse().map((msg) => ({
+    role: msg.direction === 'inbound' ? 'user' : 'assistant',
+    content: msg.message_text
+  }));
+}
+
+async function searchRelevantMemories(supabase: SupabaseClient, userId: string, userMessage: string, limit = 5) {
+  // Check if this is a general query about memories
+  const messageLower = userMessage.toLowerCase();
+  const isGeneralQuery = messageLower.includes('what memories') ||
+                         messageLower.includes('any other memories') ||
+                         messageLower.includes('what else') ||
+                         messageLower.includes('what do you see') ||
+                         messageLower.includes('what do you have') ||
+                         messageLower.includes('show me');
+
+  const toContext = (m) => ({
+    id: m.id,
+    title: m.title,
+    text: m.text.substring(0, 200),
+    date: m.memoryDate || m.createdAt
+  });
+
+  try {
+    // General queries browse the most recent memories, specific ones are ranked
+    const results = await searchMemories(supabase, userId, {
+      query: isGeneralQuery ? null : userMessage,
+      limit
+    });
+
+    // Memories family and friends shared with this user, only when they match
+    const shared = isGeneralQuery ? [] : await searchSharedRelevantMemories(supabase, userId, userMessage);
+
+    if (isGeneralQuery || results.length >= 3) {
+      return [...results.map(toContext), ...shared];
+    }
+
+    // Few good matches - fill up with recent memories for conversational context
+    const recent = await searchMemories(supabase, userId, { limit });
+    const seen = new Set(results.map(m => m.id));
+    return [...results, ...recent.filter(m => !seen.has(m.id))]
+      .slice(0, limit)
+      .map(toContext)
+      .concat(shared);
+  } catch (error) {
+    console.error('Error searching memories:', error);
+    return [];
+  }
+}
+
+async function searchSharedRelevantMemories(supabase: SupabaseClient, userId: string, userMessage: string, limit = 2) {
+  try {
+    const matches = await searchSharedMemories(supabase, userId, userMessage, limit);
+    if (matches.length === 0) return [];
+
+    const { data: owners } = await supabase
+      .from('user_profiles')
+      .select('user_id, preferred_name, display_name')
+      .in('user_id', [...new Set(matches.map(m => m.ownerUserId))]);
+    const ownerNames = new Map((owners || []).map(o => [o.user_id, o.preferred_name || o.display_name || 'Someone']));
+
+    return matches.map(m => ({
+      id: m.memoryGroupId,
+      title: m.title,
+      text: m.text.substring(0, 200),
+      date: m.memoryDate,
+      sharedBy: ownerNames.get(m.ownerUserId) || 'Someone'
+    }));
+  } catch (error) {
+    console.error('Error searching shared memories:', error);
+    return [];
+  }
+}
+
+async function generateSolinResponse(
+  channel: MessagingChannel,
+  userMessage: string,
+  conversationHistory: ChatMessage[],
+  userName: string,
+  relevantMemories: { title: string; text: string; sharedBy?: string }[] = [],
+  sessionContext: SessionContext = {},
+  saveRequested = false
+) {
+  const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+  if (!OPENAI_API_KEY) throw new Error("OpenAI API key not configured");
+
+  const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+
+  let memoryContext = '';
+  if (relevantMemories.length > 0) {
+    memoryContext = '\n\nRelevant memories:\n' +
+      relevantMemories.map(m => m.sharedBy
+        ? `- ${m.sharedBy} shared "${m.title}" with you: ${m.text}`
+        : `- When you ${m.title.toLowerCase()}: ${m.text}`
+      ).join('\n');
+  }
+
+  // Only /save (or a bare "save") asks to save now; "save" inside a story does not
+  const wantsToSaveNow = saveRequested;
+
+  // Build context about what info we have/need
+  const discussionCount = sessionContext.memory_discussion_count || 0;
+  const hasDate = sessionContext.has_date || false;
+  const hasPlace = sessionContext.has_place || false;
+  // Ready to save after 3+ exchanges, but allow continued conversation if user wants
+  const readyToSave = discussionCount >= 3;
+  // Only push to save if user explicitly asks OR after 5+ exchanges
+  const shouldSaveNow = wantsToSaveNow || discussionCount >= 5;
+
+  const systemPrompt = `You are Solin, a warm childhood friend helping ${userName || 'your friend'} preserve life memories over ${CHANNEL_LABELS[channel]}.
+
+PERSONALITY:
+- Playful, fun, and supportive - like a close friend from childhood
+- Culturally neutral - avoid strong Americanisms
+- Keep responses SHORT (2-3 sentences max)
+- Sound like someone their age, not a formal assistant
+
+MEMORY MODES (explain when user asks "capabilities" or "what can you do"):
+1. 🕰️ PAST/ANCESTOR MEMORIES: Stories about ancestors, grandparents, family history before user's birth
+   - User can share "My grandmother told me..." or "Back in 1920, my great-grandfather..."
+   - These appear in a special "Ancestors" section on the timeline
+
+2. 📝 PRESENT MEMORIES: Daily journals and current life memories
+   - The default mode for sharing experiences from user's lifetime
+   - Dates from birth year to present
+
+3. 🔮 FUTURE MESSAGES: Time-locked messages for the future
+   - User can say "I want to write a message for my future self" or "Save this for 2035"
+   - Messages stay locked until the target date (with password override option)
+   - Example: Birthday messages, life advice, time capsules
+
+CAPABILITIES COMMAND:
+If user says "capabilities" or "what can you do", respond with:
+"✨ Here's what I can help you with:
+
+🕰️ **Ancestor Memories** - Share stories about your grandparents, great-grandparents, or family history
+📝 **Present Memories** - Journal your daily life and capture current experiences
+🔮 **Future Messages** - Create time-locked messages that unlock on a specific date
+
+Just start sharing and I'll help you preserve it! Send /save anytime to save what we've discussed, or /help for the other commands."
+
+YOUR APPROACH TO MEMORIES:
+1. When someone shares a story, ask 1-2 follow-up questions to understand it better
+2. Focus on: feelings, specific details, why it mattered, who was involved
+3. Naturally ask about WHEN and WHERE if not mentioned yet
+4. After exploring sufficiently (3+ exchanges), you CAN save but let user continue if they want
+5. If user says "save" explicitly, save immediately
+
+MEMORY SAVING RULES:
+- Include [SAVE_MEMORY: title] when you have enough context AND:
+  * User explicitly asks to save, OR
+  * You've had 5+ exchanges about the memory, OR
+  * User seems to be wrapping up the story
+- Add date if known: [SAVE_MEMORY: title | YYYY or YYYY-MM or YYYY-MM-DD]
+- Add location if known: [SAVE_MEMORY: title | date | location]
+- For ANCESTOR memories (dates before user's lifetime): use historical dates like 1920, 1945, etc.
+- For FUTURE messages: use future dates like 2030, 2035-01-01, etc.
+- Examples:
+  * [SAVE_MEMORY: First day at university | 2015-09 | Boston]
+  * [SAVE_MEMORY: Grandmother's cooking lessons | 1955 | Mumbai] (ancestor memory)
+  * [SAVE_MEMORY: Letter to my future self | 2035-01-01] (future message)
+  * [SAVE_MEMORY: Beach vacation with family]
+- IMPORTANT: Don't rush to save! Let users share more if they want to.
+- You can save even without date/location - those can be added later
+
+CURRENT CONVERSATION STATE:
+- Discussion exchanges: ${discussionCount}
+- Date mentioned: ${hasDate ? 'YES' : 'NO - try to ask naturally'}
+- Location mentioned: ${hasPlace ? 'YES' : 'NO - try to ask naturally'}
+- User wants to save now: ${wantsToSaveNow ? 'YES - include [SAVE_MEMORY] marker!' : 'NO'}
+${shouldSaveNow ? '- READY TO SAVE: Include [SAVE_MEMORY: title] in your response!' : readyToSave ? '- ENOUGH CONTEXT: Can save if user seems done, but OK to continue conversation' : ''}
+
+RELEVANT PAST MEMORIES:${memoryContext || '\n(No relevant memories found)'}
+
+RESPONSE GUIDELINES:
+- If user says "capabilities": explain all memory modes
+- If user wants to save now: acknowledge and include [SAVE_MEMORY: title | date | location]
+- If they're still sharing details: engage warmly and ask follow-ups
+- If you need more context: ask ONE follow-up question
+- If missing date: ask "When was this?" or "What year?"
+- If missing location: ask "Where did this happen?"
+- For ancestor stories: ask "What year was this?" or "When did this happen?"
+- For future messages: ask "When should this be unlocked?" or "What date in the future?"
+- DO NOT say "Any photos or videos" in your response - that will be handled separately
+
+Remember: Users share precious memories across all time periods. Be warm, attentive, and make them feel heard.`;
+
+  const messages = [
+    { role: "system", content: systemPrompt },
+    ...conversationHistory,
+    { role: "user", content: userMessage }
+  ];
+
+  const completion = await openai.chat.completions.create({
+    model: "gpt-4.1-2025-04-14",
+    messages: messages,
+    max_completion_tokens: 500
+  });
+
+  const responseText = completion.choices[0]?.message?.content || "I'm here to listen and remember with you.";
+
+  // Check for save marker - support both old and new formats
+  const saveMatch = responseText.match(/\[(AUTO_)?SAVE_MEMORY:\s*([^\]]+)\]/i);
+  const shouldCreateMemory = !!saveMatch;
+  const cleanResponse = responseText.replace(/\[(AUTO_)?SAVE_MEMORY:\s*[^\]]+\]/gi, '').trim();
+
+  // Parse save details if present (format: title | date | location)
+  let memoryDetails: MemoryDetails | null = null;
+  if (saveMatch) {
+    // saveMatch[2] contains the actual content after "SAVE_MEMORY:"
+    const parts = saveMatch[2].split('|').map(p => p.trim());
+    memoryDetails = {
+      title: parts[0] || 'Memory',
+      date: parts[1] || null,
+      location: parts[2] || null
+    };
+    console.log(`💾 AI marking for save:`, memoryDetails);
+  }
+
+  return {
+    response: cleanResponse,
+    shouldCreateMemory,
+    memoryDetails
+  };
+}
+
+async function createMemoryFromMessage(
+  supabase: SupabaseClient,
+  userId: string,
+  channel: MessagingChannel,
+  conversationHistory: ChatMessage[],
+  sessionContext: SessionContext,
+  memoryDetails: MemoryDetails | null = null
+) {
+  console.log(`💾 Creating memory from ${channel} conversation...`);
+  console.log(`📊 Memory details received:`, JSON.stringify(memoryDetails));
+  console.log(`📊 Session context:`, JSON.stringify({
+    discussion_count: sessionContext.memory_discussion_count,
+    has_date: sessionContext.has_date,
+    has_place: sessionContext.has_place
+  }));
+  console.log(`📊 Conversation history length: ${conversationHistory.length} messages`);
+
+  // Get ALL conversation history for this memory discussion (up to last 20 messages)
+  // This ensures we capture date, location, and context mentioned earlier in the conversation
+  const relevantExchanges = conversationHistory.slice(-20);
+  const memoryText = relevantExchanges
+    .map(msg => `${msg.role === 'user' ? 'Me' : 'Solin'}: ${msg.content}`)
+    .join('\n\n');
+
+  console.log(`📝 Memory text length: ${memoryText.length} characters, using ${relevantExchanges.length} messages`);
+
+  // Parse date safely
+  let parsedDate: string | null = null;
+  if (memoryDetails?.date) {
+    const dateObj = new Date(memoryDetails.date);
+    if (!isNaN(dateObj.getTime())) {
+      parsedDate = dateObj.toISOString().split('T')[0];
+    } else {
+      console.log(`⚠️ Could not parse date: ${memoryDetails.date}`);
+    }
+  }
+
+  // Determine if memory is complete (has valid date and location)
+  const isComplete = !!parsedDate && !!memoryDetails?.location;
+  const status = isComplete ? 'complete' : 'incomplete';
+
+  console.log(`📊 Memory status: ${status}`, {
+    hasDate: !!parsedDate,
+    hasLocation: !!memoryDetails?.location
+  });
+
+  // Create initial memory
+  const { data, error } = await supabase
+    .from('memories')
+    .insert({
+      user_id: userId,
+      title: memoryDetails?.title || 'Processing memory...',
+      text: memoryText,
+      tags: [
+        channel,
+        ...(isComplete ? [] : ['incomplete', 'needs_review']),
+        ...(sessionContext.pending_private ? ['private'] : [])
+      ],
+      recipient: 'private',
+      source_type: channel,
+      memory_date: parsedDate,
+      memory_location: memoryDetails?.location || null,
+      show_on_timeline: isComplete,
+      status: status,
+      needs_review: !isComplete,
+      is_primary_chunk: true,
+      revision_author: channel,
+      revision_reason: `Saved from ${CHANNEL_LABELS[channel]} conversation`,
+      prompt_id: sessionContext.active_prompt_id || null,
+      metadata: {
+        auto_saved: true,
+        saved_at: new Date().toISOString(),
+        completion_status: isComplete ? 'complete' : 'missing_details',
+        channel,
+        ...(sessionContext.active_prompt_question ? { prompt_question: sessionContext.active_prompt_question } : {})
+      }
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('❌ Error creating memory:', error);
+    throw error;
+  }
+
+  console.log(`✅ Memory created: ${data.id} (${status})`);
+
+  if (sessionContext.active_prompt_id) {
+    await supabase
+      .from('memory_prompts')
+      .update({ memory_id: data.id })
+      .eq('id', sessionContext.active_prompt_id);
+  }
+
+  // Only trigger AI insights for complete memories
+  if (isComplete) {
+    // Trigger AI insights extraction via edge function (background task)
+    const insightsTask = supabase.functions
+      .invoke('process-memory-insights', {
+        body: {
+          memory_id: data.id,
+          conversation_text: memoryText,
+          user_id: userId
+        }
+      })
+      .then(({ error: invokeError }) => {
+        if (invokeError) {
+          console.error(`❌ Failed to invoke insights processing for ${data.id}:`, invokeError);
+        } else {
+          console.log(`✅ Insights processing completed for ${data.id}`);
+        }
+      })
+      .catch((err) => {
+        console.error(`❌ Exception invoking insights for ${data.id}:`, err);
+      });
+
+    // Use EdgeRuntime.waitUntil to ensure background task completes
+    if (typeof EdgeRuntime !== 'undefined' && EdgeRuntime.waitUntil) {
+      EdgeRuntime.waitUntil(insightsTask);
+      console.log(`⏳ Background task registered for memory ${data.id}`);
+    }
+  } else {
+    console.log(`⏭️ Skipping AI insights for incomplete memory ${data.id}`);
+  }
+
+  // Make the new memory searchable right away
+  const indexTask = indexMemoryEmbeddings(supabase, userId, 5).catch((err) => {
+    console.error(`❌ Failed to index embeddings for ${data.id}:`, err);
+  });
+  if (typeof EdgeRuntime !== 'undefined' && EdgeRuntime.waitUntil) {
+    EdgeRuntime.waitUntil(indexTask);
+  }
+
+  return data.id as string;
+}
+
+/** Pause or resume weekly memory prompts; the confirmation, or null when the message is not a keyword */
+async function handlePromptKeyword(supabase: SupabaseClient, userId: string, text: string): Promise<string | null> {
+  const keyword = text.trim().toLowerCase().replace(/[.!]+$/, '');
+
+  if (PROMPT_OPT_OUT_KEYWORDS.includes(keyword)) {
+    const { error } = await supabase
+      .from('memory_prompt_settings')
+      .upsert({ user_id: userId, opted_out_at: new Date().toISOString() }, { onConflict: 'user_id' });
+    if (error) throw error;
+    return "No problem — I won't send you weekly questions anymore. Reply START if you'd like them back. You can still write to me anytime 💛";
+  }
+
+  if (PROMPT_OPT_IN_KEYWORDS.includes(keyword)) {
+    const { data, error } = await supabase
+      .from('memory_prompt_settings')
+      .update({ opted_out_at: null })
+      .eq('user_id', userId)
+      .select('enabled')
+      .maybeSingle();
+    if (error) throw error;
+    return data?.enabled
+      ? "Welcome back! 🎉 Your weekly questions will start again."
+      : "Weekly questions are turned off for now — switch them on in Settings → Weekly Memory Prompts on 1000years.ai and pick a day that suits you.";
+  }
+
+  return null;
+}
+
+/**
+ * The latest unanswered prompt sent to the user on this channel, marked
+ * answered and kept in the session so the memory it leads to can point at it
+ */
+async function attachAnsweredPrompt(supabase: SupabaseClient, userId: string, channel: MessagingChannel, sessionContext: SessionContext) {
+  const since = new Date(Date.now() - PROMPT_ANSWER_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: prompt } = await supabase
+    .from('memory_prompts')
+    .select('id, question')
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .eq('status', 'sent')
+    .gte('sent_at', since)
+    .order('sent_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!prompt) return;
+
+  await supabase
+    .from('memory_prompts')
+    .update({ status: 'answered', answered_at: new Date().toISOString() })
+    .eq('id', prompt.id);
+
+  console.log(`💬 Reply to memory prompt ${prompt.id}`);
+  sessionContext.active_prompt_id = prompt.id;
+  sessionContext.active_prompt_question = prompt.question;
+}
+
+/** Update the memory discussion flags from the latest message */
+function trackMemoryDiscussion(sessionContext: SessionContext, text: string, conversationHistory: ChatMessage[]) {
+  // Detect if this message is part of an ongoing memory discussion
+  const isMemoryDiscussion = text.length > 50 ||
+    conversationHistory.slice(-3).some(msg =>
+      msg.role === 'assistant' && (
+        msg.content.includes('?') ||
+        msg.content.toLowerCase().includes('tell me') ||
+        msg.content.toLowerCase().includes('what')
+      )
+    );
+
+  if (!isMemoryDiscussion) {
+    // Only reset if this is clearly a new topic (not just a short response)
+    if (text.length > 100 && !text.toLowerCase().includes('yes') &&
+        !text.toLowerCase().includes('no')) {
+      sessionContext.memory_discussion_count = 0;
+      sessionContext.has_date = false;
+      sessionContext.has_place = false;
+      sessionContext.has_date_and_place = false;
+    }
+    return;
+  }
+
+  sessionContext.memory_discussion_count = (sessionContext.memory_discussion_count || 0) + 1;
+
+  // Check if date and place have been mentioned - in the current message AND the conversation
+  const conversationText = conversationHistory.map(m => m.content).join(' ');
+  const conversationTextLower = conversationText.toLowerCase();
+
+  const datePatterns = [
+    /\b(19|20)\d{2}\b/,  // Years like 1995, 2008
+    /\b\d{1,2}[/\-.]\d{1,2}[/\-.]\d{2,4}\b/,  // Dates like 12/25/2000, 25-12-2000
+    /(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+    /(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\s*\.?\s*\d/i,  // Jan 5, Feb. 12
+    /\b(last|this|next)\s+(year|month|week|summer|winter|spring|fall)/i,
+    /\bwhen\s+i\s+was\s+\d+/i,  // "when I was 10"
+    /\b\d+\s*years?\s*(ago|old)/i,  // "5 years ago", "10 years old"
+    /\b(childhood|teenager|college|university|school|kid|young)/i,  // Life stage references
+  ];
+
+  const hasDateInfo = datePatterns.some(pattern =>
+    pattern.test(text) || pattern.test(conversationTextLower)
+  );
+
+  const placePatterns = [
+    /\b(in|at|from|near|around)\s+[A-Z][a-z]+/,  // "in Paris", "at London"
+    /\b[A-Z][a-z]+,\s*[A-Z][a-z]+/,  // "Paris, France"
+    /\b(home|house|apartment|school|work|office|church|hospital|park|beach|mountain)/i,
+    /\b(street|road|avenue|boulevard|drive|lane|way)\b/i,
+    /\b(city|town|village|country|state|province)\b/i,
+  ];
+
+  const hasPlaceInfo = placePatterns.some(pattern =>
+    pattern.test(text) || pattern.test(conversationText)
+  );
+
+  if (hasDateInfo) sessionContext.has_date = true;
+  if (hasPlaceInfo) sessionContext.has_place = true;
+  sessionContext.has_date_and_place = sessionContext.has_date && sessionContext.has_place;
+
+  // Store extracted info for AI context
+  sessionContext.detected_date_hints = hasDateInfo;
+  sessionContext.detected_place_hints = hasPlaceInfo;
+}
+
+const HELP_REPLY = `✨ Share a memory with me in your own words — by text or voice note — and I'll ask a few questions and save it to your timeline.
+
+Commands:
+/save — save the memory we're talking about
+/cancel — drop it without saving
+/undo — delete the memory I saved last
+/list — your latest memories
+/edit <number> — add to one from /list
+/private — keep this memory to yourself
+/help — this list`;
+
+/** Title from the user's latest messages, for a /save Solin gave no title for */
+function fallbackMemoryDetails(conversationHistory: ChatMessage[]): MemoryDetails {
+  const recentUserMessages = conversationHistory
+    .filter(m => m.role === 'user' && !m.content.startsWith('/'))
+    .slice(-3)
+    .map(m => m.content)
+    .join(' ');
+
+  return {
+    title: recentUserMessages.length > 50 ? `${recentUserMessages.substring(0, 50)}...` : recentUserMessages || 'Memory',
+    date: null,
+    location: null
+  };
+}
+
+/** Solin's answer to the latest message, with memory details when it is ready to save */
+async function chat(conversation: Conversation, sessionContext: SessionContext, saveRequested: boolean) {
+  const { supabase, message, userId, sessionId } = conversation;
+
+  const conversationHistory = await getConversationContext(supabase, userId, sessionId);
+  const userMessage = saveRequested ? 'Please save this memory now.' : message.text;
+  const relevantMemories = saveRequested ? [] : await searchRelevantMemories(supabase, userId, message.text);
+
+  // Fetch user's name from both users and user_profiles tables
+  const [usersResult, profileResult] = await Promise.all([
+    supabase.from('users').select('name').eq('user_id', userId).maybeSingle(),
+    supabase.from('user_profiles').select('preferred_name').eq('user_id', userId).maybeSingle()
+  ]);
+
+  const userName = profileResult.data?.preferred_name || usersResult.data?.name || message.senderName || 'friend';
+
+  console.log(`📚 Found ${relevantMemories.length} relevant memories for context`);
+
+  await attachAnsweredPrompt(supabase, userId, message.channel, sessionContext);
+
+  // A prompt sent in an earlier session still frames the answer
+  const promptQuestion = sessionContext.active_prompt_question;
+  if (promptQuestion && !conversationHistory.some(m => m.role === 'assistant' && m.content === promptQuestion)) {
+    conversationHistory.unshift({ role: 'assistant', content: promptQuestion });
+  }
+
+  if (!saveRequested) {
+    trackMemoryDiscussion(sessionContext, message.text, conversationHistory);
+  }
+
+  const generated = await generateSolinResponse(
+    message.channel,
+    userMessage,
+    conversationHistory,
+    userName,
+    relevantMemories,
+    sessionContext,
+    saveRequested
+  );
+
+  return { ...generated, conversationHistory };
+}
+
+/** Hold the memory back and ask for photos and videos first */
+async function askForMedia(conversation: Conversation, sessionContext: SessionContext, memoryDetails: MemoryDetails, conversationHistory: ChatMessage[]) {
+  console.log(`📋 Memory ready to save - storing pending details and asking about media`);
+
+  sessionContext.pending_memory_details = memoryDetails;
+  sessionContext.pending_memory_conversation = conversationHistory.slice(-20);
+  sessionContext.last_saved_memory_title = memoryDetails.title;
+
+  // Reset memory discussion tracking; photos sent earlier are already counted
+  sessionContext.memory_discussion_count = 0;
+  sessionContext.has_date = false;
+  sessionContext.has_place = false;
+  sessionContext.has_date_and_place = false;
+  sessionContext.media_count = sessionContext.pending_artifact_ids?.length || 0;
+
+  const alreadyHave = sessionContext.media_count > 0 ? ` I already have ${sessionContext.media_count} from earlier.` : '';
+  await reply(conversation, `Got it! Before I save "${memoryDetails.title}", do you have any photos or videos to add? 📸${alreadyHave}\n\nSend them now, or say "done" if you don't have any.`);
+}
+
+async function saveMemory(conversation: Conversation, sessionContext: SessionContext, voiceNote: boolean): Promise<Record<string, unknown>> {
+  const { supabase, adapter, message, userId, sessionId } = conversation;
+
+  // Legacy: the memory was saved before its media
+  if (sessionContext.awaiting_media_for_memory && !sessionContext.pending_memory_details) {
+    const memoryId = sessionContext.awaiting_media_for_memory;
+    sessionContext.awaiting_media_for_memory = null;
+    sessionContext.last_saved_memory_id = memoryId;
+
+    const response = `Perfect! I've saved ${sessionContext.media_count || 0} item(s) with your memory. 💫`;
+    await saveMessage(conversation, { direction: 'outbound', messageText: response });
+
+    // Answer a voice note with a voice reply where the channel can
+    if (voiceNote && adapter.voiceReplies) {
+      console.log('🎙️ User sent voice, responding with voice...');
+      const voice = await generateVoiceResponse(supabase, response);
+      if (voice) {
+        const voiceResult = await adapter.sendMessage({ to: message.from, audio: voice, inReplyTo: message });
+        if (voiceResult.success) {
+          // Also send text version for reference
+          await adapter.sendMessage({ to: message.from, text: `💬 ${emphasis(adapter, `"${response}"`)}`, inReplyTo: message });
+          return { success: true, voiceResponse: true };
+        }
+      }
+    }
+
+    await adapter.sendMessage({ to: message.from, text: response, inReplyTo: message });
+    return { success: true };
+  }
+
+  console.log(`💾 User done with media - NOW creating memory with ${sessionContext.pending_artifact_ids?.length || 0} artifacts`);
+
+  let memoryId = conversation.progress?.steps.memory_id;
+  if (!memoryId) {
+    memoryId = await createMemoryFromMessage(
+      supabase,
+      userId,
+      message.channel,
+      sessionContext.pending_memory_conversation || await getConversationContext(supabase, userId, sessionId),
+      sessionContext,
+      sessionContext.pending_memory_details
+    );
+    await conversation.progress?.record({ memory_id: memoryId });
+  }
+
+  for (const artifactId of sessionContext.pending_artifact_ids || []) {
+    await linkArtifactToMemory(supabase, memoryId, artifactId);
+    console.log(`📎 Linked artifact ${artifactId} to memory ${memoryId}`);
+  }
+
+  const mediaCount = sessionContext.media_count || 0;
+  const memoryTitle = sessionContext.last_saved_memory_title || 'your memory';
+  clearPendingMemory(sessionContext);
+  sessionContext.last_saved_memory_id = memoryId;
+
+  await reply(conversation, mediaCount > 0
+    ? `Perfect! Saved "${memoryTitle}" with ${mediaCount} photo(s)/video(s) to your timeline 💫\n\nSend /undo if you didn't mean to save it.`
+    : `Got it! Saved "${memoryTitle}" to your timeline 💫\n\nSend /undo if you didn't mean to save it.`, memoryId);
+
+  return { success: true, memoryCreated: true, memoryId };
+}
+
+function clearPendingMemory(sessionContext: SessionContext) {
+  sessionContext.awaiting_media_response = false;
+  sessionContext.awaiting_media_for_memory = null;
+  sessionContext.pending_memory_details = null;
+  sessionContext.pending_memory_conversation = null;
+  sessionContext.pending_artifact_ids = null;
+  sessionContext.pending_private = false;
+  sessionContext.media_count = 0;
+  sessionContext.active_prompt_id = null;
+  sessionContext.active_prompt_question = null;
+  sessionContext.memory_discussion_count = 0;
+  sessionContext.has_date = false;
+  sessionContext.has_place = false;
+  sessionContext.has_date_and_place = false;
+}
+
+/** Remove photos and videos kept for a memory that was cancelled or undone */
+async function discardArtifacts(supabase: SupabaseClient, artifactIds: string[]) {
+  if (artifactIds.length === 0) return;
+
+  const { data: artifacts } = await supabase
+    .from('artifacts')
+    .select('id, storage_path')
+    .in('id', artifactIds);
+
+  const paths = (artifacts || []).map(a => a.storage_path as string).filter(Boolean);
+  if (paths.length > 0) {
+    await supabase.storage.from('memory-images').remove(paths);
+  }
+  await supabase.from('artifacts').delete().in('id', artifactIds);
+}
+
+/** Photos and videos from the message, uploaded as artifacts (once per inbox event) */
+async function uploadVisualMedia(conversation: Conversation): Promise<string[]> {
+  const { supabase, adapter, message, userId, progress } = conversation;
+  if (progress?.steps.artifact_ids) return progress.steps.artifact_ids;
+  const artifactIds: string[] = [];
+
+  for (const [index, media] of message.media.filter(m => m.type !== 'audio').entries()) {
+    const mediaData = await adapter.downloadMedia(media.ref);
+    if (!mediaData) continue;
+
+    const artifactId = await uploadMediaAsArtifact(
+      supabase,
+      userId,
+      new Uint8Array(mediaData.data),
+      media.mimeType,
+      `${message.channel}_${message.messageId}${index > 0 ? `_${index}` : ''}`
+    );
+    if (artifactId) artifactIds.push(artifactId);
+  }
+
+  await progress?.record({ artifact_ids: artifactIds });
+  return artifactIds;
+}
+
+async function listRecentMemories(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from('memories')
+    .select('id, title, memory_date')
+    .eq('user_id', userId)
+    .eq('is_primary_chunk', true)
+    .order('created_at', { ascending: false })
+    .limit(LIST_LENGTH);
+
+  if (error) throw error;
+  return data || [];
+}
+
+async function getOwnMemory(supabase: SupabaseClient, userId: string, memoryId: string) {
+  const { data } = await supabase
+    .from('memories')
+    .select('id, title, text, tags, memory_group_id')
+    .eq('id', memoryId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data;
+}
+
+/** Every chunk of a memory group, in order */
+async function getMemoryChunks(supabase: SupabaseClient, userId: string, groupId: string, columns: string) {
+  const { data, error } = await supabase
+    .from('memories')
+    .select(columns)
+    .eq('user_id', userId)
+    .or(`id.eq.${groupId},memory_group_id.eq.${groupId}`)
+    .order('chunk_sequence', { ascending: true, nullsFirst: true });
+  if (error) throw error;
+  return (data || []) as unknown as Record<string, unknown>[];
+}
+
+/**
+ * Delete every chunk of a memory, its audience grants, and the photos and
+ * videos no other memory uses
+ */
+async function deleteMemoryGroup(supabase: SupabaseClient, userId: string, memory: { id: string; memory_group_id: string | null }) {
+  const groupId = memory.memory_group_id || memory.id;
+  const chunks = await getMemoryChunks(supabase, userId, groupId, 'id');
+  const chunkIds = chunks.map(chunk => chunk.id as string);
+
+  const { data: ownLinks } = await supabase
+    .from('memory_artifacts')
+    .select('artifact_id')
+    .in('memory_id', chunkIds);
+  const linkedIds = [...new Set((ownLinks || []).map(link => link.artifact_id as string))];
+
+  // An artifact also attached to another memory stays
+  const { data: allLinks } = linkedIds.length > 0
+    ? await supabase.from('memory_artifacts').select('artifact_id, memory_id').in('artifact_id', linkedIds)
+    : { data: [] };
+  const usedElsewhere = new Set((allLinks || [])
+    .filter(link => !chunkIds.includes(link.memory_id as string))
+    .map(link => link.artifact_id as string));
+  const artifactIds = linkedIds.filter(id => !usedElsewhere.has(id));
+
+  const { error } = await supabase.from('memories').delete().eq('user_id', userId).in('id', chunkIds);
+  if (error) throw error;
+
+  await supabase.from('memory_audiences').delete().eq('user_id', userId).eq('memory_group_id', groupId);
+  await discardArtifacts(supabase, artifactIds);
+}
+
+/** No audience grants, tagged private */
+async function makeMemoryPrivate(supabase: SupabaseClient, userId: string, channel: MessagingChannel, memory: { id: string; memory_group_id: string | null }) {
+  const groupId = memory.memory_group_id || memory.id;
+  await supabase
+    .from('memory_audiences')
+    .delete()
+    .eq('user_id', userId)
+    .eq('memory_group_id', groupId);
+
+  // Every chunk, so no part of the memory is left showing
+  for (const chunk of await getMemoryChunks(supabase, userId, groupId, 'id, tags')) {
+    const tags = (chunk.tags as string[] | null) || [];
+    if (tags.includes('private')) continue;
+
+    const { error } = await supabase
+      .from('memories')
+      .update({
+        tags: [...tags, 'private'],
+        revision_author: channel,
+        revision_reason: `Made private from ${CHANNEL_LABELS[channel]}`
+      })
+      .eq('id', chunk.id as string);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Add text to the end of a memory: onto its last chunk while that stays
+ * within MAX_CHUNK_SIZE, otherwise as new chunks, renumbering the others
+ */
+async function appendToMemoryGroup(supabase: SupabaseClient, userId: string, channel: MessagingChannel, memory: { id: string; memory_group_id: string | null }, addition: string) {
+  const groupId = memory.memory_group_id || memory.id;
+  const chunks = await getMemoryChunks(supabase, userId, groupId, '*');
+  if (chunks.length === 0) return;
+
+  const revision = {
+    revision_author: channel,
+    revision_reason: `Added to from ${CHANNEL_LABELS[channel]} with /edit`
+  };
+  const last = chunks[chunks.length - 1];
+  const lastText = last.text as string;
+
+  if (lastText.length + 2 + addition.length <= MAX_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('memories')
+      .update({ text: `${lastText}\n\n${addition}`, ...revision })
+      .eq('id', last.id as string);
+    if (error) throw error;
+    return;
+  }
+
+  const pieces: string[] = [];
+  for (let start = 0; start < addition.length; start += MAX_CHUNK_SIZE) {
+    pieces.push(addition.slice(start, start + MAX_CHUNK_SIZE));
+  }
+  const first = chunks[0];
+  const title = extractOriginalTitle(first.title as string, chunks.length);
+  const totalChunks = chunks.length + pieces.length;
+  const partTitle = (sequence: number) => `${title} (Part ${sequence}/${totalChunks})`;
+
+  const { error: insertError } = await supabase
+    .from('memories')
+    .insert(pieces.map((text, i) => ({
+      user_id: userId,
+      title: partTitle(chunks.length + i + 1),
+      text,
+      tags: first.tags,
+      recipient: first.recipient,
+      source_type: first.source_type,
+      memory_date: first.memory_date,
+      memory_location: first.memory_location,
+      show_on_timeline: first.show_on_timeline,
+      status: first.status,
+      memory_group_id: groupId,
+      chunk_sequence: chunks.length + i + 1,
+      total_chunks: totalChunks,
+      is_primary_chunk: false,
+      ...revision
+    })));
+  if (insertError) throw insertError;
+
+  // A memory saved in one piece has no group id or sequence yet
+  for (const [i, chunk] of chunks.entries()) {
+    const { error } = await supabase
+      .from('memories')
+      .update({
+        title: partTitle(i + 1),
+        memory_group_id: groupId,
+        chunk_sequence: i + 1,
+        total_chunks: totalChunks,
+        ...revision
+      })
+      .eq('id', chunk.id as string);
+    if (error) throw error;
+  }
+}
+
+
+/**
+ * Carry out one step of the conversation state machine. Returns the state the
+ * conversation ends up in (the transition's target, unless the effect could
+ * not happen) and the webhook's JSON result.
+ */
+async function runEffect(
+  conversation: Conversation,
+  sessionContext: SessionContext,
+  state: ConversationState,
+  event: ConversationEvent,
+  voiceNote: boolean
+): Promise<{ state: ConversationState; result: Record<string, unknown> }> {
+  const { supabase, message, userId } = conversation;
+  const channel = message.channel;
+  const step = transition(state, event);
+
+  if (!step) {
+    await reply(conversation, NOT_ALLOWED_REPLIES[state]);
+    return { state, result: { success: true, refused: event.type } };
+  }
+
+  switch (step.effect) {
+    case 'chat': {
+      const generated = await chat(conversation, sessionContext, false);
+
+      const ready = generated.shouldCreateMemory && generated.memoryDetails
+        ? transition(step.to, { type: 'memory_ready' })
+        : null;
+      if (ready && generated.memoryDetails) {
+        await askForMedia(conversation, sessionContext, generated.memoryDetails, generated.conversationHistory);
+        return { state: ready.to, result: { success: true, messageId: message.messageId, memoryPending: true, awaitingMedia: true } };
+      }
+
+      const sendResult = await reply(conversation, generated.response);
+      return { state: step.to, result: { success: true, messageId: sendResult.messageId, memoryCreated: false } };
+    }
+
+    case 'ask_for_media': {
+      const generated = await chat(conversation, sessionContext, true);
+      const memoryDetails = generated.memoryDetails || fallbackMemoryDetails(generated.conversationHistory);
+      await askForMedia(conversation, sessionContext, memoryDetails, generated.conversationHistory);
+      return { state: step.to, result: { success: true, messageId: message.messageId, memoryPending: true, awaitingMedia: true } };
+    }
+
+    case 'stash_media': {
+      const artifactIds = await uploadVisualMedia(conversation);
+      if (artifactIds.length === 0) break;
+
+      console.log(`📸 Keeping ${artifactIds.length} artifact(s) for the next memory`);
+      sessionContext.pending_artifact_ids = [...(sessionContext.pending_artifact_ids || []), ...artifactIds];
+      await reply(conversation, state === 'idle'
+        ? "Lovely! 📸 Tell me the story behind it and I'll keep it with that memory."
+        : "Lovely! 📸 I'll keep that with the memory we're talking about.");
+      return { state: step.to, result: { success: true, mediaUploaded: true } };
+    }
+
+    case 'attach_media': {
+      const artifactIds = await uploadVisualMedia(conversation);
+      if (artifactIds.length === 0) break;
+
+      const existingMemoryId = state === 'editing' ? sessionContext.editing_memory_id : sessionContext.awaiting_media_for_memory;
+      for (const artifactId of artifactIds) {
+        if (existingMemoryId) {
+          console.log(`📸 Linking media to existing memory ${existingMemoryId}`);
+          await linkArtifactToMemory(supabase, existingMemoryId, artifactId);
+        } else {
+          console.log(`📸 Storing artifact ${artifactId} for pending memory`);
+          sessionContext.pending_artifact_ids = [...(sessionContext.pending_artifact_ids || []), artifactId];
+        }
+      }
+      sessionContext.media_count = (sessionContext.media_count || 0) + artifactIds.length;
+
+      await reply(conversation, state === 'editing'
+        ? "Added to the memory 📸 Send more, or /cancel when you're finished."
+        : "Got it! 📸 Feel free to send more photos/videos, or just say 'done' when you're finished.");
+      return { state: step.to, result: { success: true, mediaUploaded: true } };
+    }
+
+    case 'add_detail': {
+      sessionContext.pending_memory_conversation = [
+        ...(sessionContext.pending_memory_conversation || []),
+        { role: 'user', content: message.text }
+      ].slice(-20);
+      await reply(conversation, `Added that to "${sessionContext.last_saved_memory_title || 'the memory'}" 📝 Send photos or videos, say "done" to save it, or /cancel.`);
+      return { state: step.to, result: { success: true, memoryPending: true } };
+    }
+
+    case 'save_memory': {
+      const result = await saveMemory(conversation, sessionContext, voiceNote);
+      return { state: step.to, result };
+    }
+
+    case 'discard': {
+      await discardArtifacts(supabase, sessionContext.pending_artifact_ids || []);
+      const title = state === 'awaiting_media' ? sessionContext.last_saved_memory_title : null;
+      clearPendingMemory(sessionContext);
+      await reply(conversation, title
+        ? `OK, I won't save "${title}". Tell me about something else whenever you like.`
+        : "OK, let's leave that one. Tell me about something else whenever you like.");
+      return { state: step.to, result: { success: true, cancelled: true } };
+    }
+
+    case 'undo': {
+      const memory = sessionContext.last_saved_memory_id
+        ? await getOwnMemory(supabase, userId, sessionContext.last_saved_memory_id)
+        : null;
+      if (!memory) {
+        await reply(conversation, "There's no memory from this chat to undo.");
+        return { state, result: { success: true } };
+      }
+
+      await deleteMemoryGroup(supabase, userId, memory);
+
+      sessionContext.last_saved_memory_id = null;
+      await reply(conversation, `Removed "${memory.title}" from your timeline.`);
+      return { state: step.to, result: { success: true, memoryDeleted: memory.id } };
+    }
+
+    case 'list': {
+      const memories = await listRecentMemories(supabase, userId);
+      sessionContext.listed_memory_ids = memories.map(m => m.id);
+
+      await reply(conversation, memories.length === 0
+        ? "You haven't saved any memories yet — tell me about one!"
+        : `Your latest memories:\n${memories.map((m, i) => `${i + 1}. ${m.title}${m.memory_date ? ` (${m.memory_date.substring(0, 4)})` : ''}`).join('\n')}\n\nSend /edit <number> to add to one.`);
+      return { state: step.to, result: { success: true } };
+    }
+
+    case 'start_edit': {
+      const listed = sessionContext.listed_memory_ids?.length
+        ? sessionContext.listed_memory_ids
+        : (await listRecentMemories(supabase, userId)).map(m => m.id);
+      const memoryId = event.argument ? listed[event.argument - 1] : undefined;
+      const memory = memoryId ? await getOwnMemory(supabase, userId, memoryId) : null;
+      if (!memory) {
+        await reply(conversation, 'Which memory? Send /list, then /edit <number>.');
+        return { state, result: { success: true } };
+      }
+
+      sessionContext.editing_memory_id = memory.id;
+      await reply(conversation, `What would you like to add to "${memory.title}"? Send a message, photos or videos — or /cancel.`);
+      return { state: step.to, result: { success: true } };
+    }
+
+    case 'apply_edit': {
+      const memory = sessionContext.editing_memory_id
+        ? await getOwnMemory(supabase, userId, sessionContext.editing_memory_id)
+        : null;
+      sessionContext.editing_memory_id = null;
+      if (!memory) {
+        await reply(conversation, "I couldn't find that memory anymore. Send /list to pick another.");
+        return { state: step.to, result: { success: true } };
+      }
+
+      if (conversation.progress?.steps.edited_memory_id !== memory.id) {
+        await appendToMemoryGroup(supabase, userId, channel, memory, `Me: ${message.text}`);
+        await conversation.progress?.record({ edited_memory_id: memory.id });
+      }
+
+      const indexTask = indexMemoryEmbeddings(supabase, userId, 5).catch((err) => {
+        console.error(`❌ Failed to index embeddings for ${memory.id}:`, err);
+      });
+      if (typeof EdgeRuntime !== 'undefined' && EdgeRuntime.waitUntil) {
+        EdgeRuntime.waitUntil(indexTask);
+      }
+
+      await reply(conversation, `Added to "${memory.title}" ✏️`, memory.id);
+      return { state: step.to, result: { success: true, memoryUpdated: memory.id } };
+    }
+
+    case 'end_edit': {
+      sessionContext.editing_memory_id = null;
+      await reply(conversation, "OK, I'll leave it as it is.");
+      return { state: step.to, result: { success: true } };
+    }
+
+    case 'make_private': {
+      // Before saving, the flag goes with the pending memory
+      if (state === 'discussing' || state === 'awaiting_media') {
+        sessionContext.pending_private = true;
+        await reply(conversation, "🔒 Got it — this memory will be private when I save it, only you will see it.");
+        return { state: step.to, result: { success: true } };
+      }
+
+      const memoryId = state === 'editing' ? sessionContext.editing_memory_id : sessionContext.last_saved_memory_id;
+      const memory = memoryId ? await getOwnMemory(supabase, userId, memoryId) : null;
+      if (!memory) {
+        await reply(conversation, 'Which memory? Send /list, then /edit <number> and /private.');
+        return { state, result: { success: true } };
+      }
+
+      await makeMemoryPrivate(supabase, userId, channel, memory);
+      await reply(conversation, `🔒 "${memory.title}" is private now — only you can see it.`);
+      return { state: step.to, result: { success: true } };
+    }
+
+    case 'help': {
+      await reply(conversation, event.unknownCommand
+        ? `I don't know /${event.unknownCommand}.\n\n${HELP_REPLY}`
+        : HELP_REPLY);
+      return { state: step.to, result: { success: true } };
+    }
+  }
+
+  // Media that could not be downloaded: nothing changes
+  await reply(conversation, "Sorry, I couldn't open that — could you send it again?");
+  return { state, result: { success: false, error: 'Media download failed' } };
+}
+
+/**
+ * Answer one inbound message. Returns the webhook's JSON result. With the
+ * inbox event's progress, steps an earlier attempt finished are not repeated.
+ */
+export async function handleInboundMessage(
+  supabase: SupabaseClient,
+  channelAdapter: ChannelAdapter,
+  message: InboundMessage,
+  progress?: InboxProgress
+): Promise<Record<string, unknown>> {
+  const adapter = progress ? progress.track(channelAdapter) : channelAdapter;
+  const channel = message.channel;
+
+  let userId: string | null;
+  if (PHONE_CHANNELS.includes(channel)) {
+    // A household phone first asks who is talking
+    const householdUserId = await resolveHouseholdSender(supabase, adapter, message, progress);
+    if (householdUserId === null) return { success: true, household: true };
+    userId = householdUserId ?? await findOrCreateUserByPhone(supabase, message.from, channel);
+  } else {
+    userId = await findLinkedUser(supabase, message);
+
+    // Telegram chats and email addresses are linked with a code from Settings
+    if (!userId) {
+      const linkedUserId = await linkWithCode(supabase, message);
+      await adapter.sendMessage({
+        to: message.from,
+        text: linkedUserId
+          ? `You're connected! 🎉 I'm Solin — tell me about a memory you'd like to keep, and send photos whenever you like.`
+          : `Hi, I'm Solin from 1000years.ai 👋 To share memories here, open Settings → Messaging on 1000years.ai and send me the code shown for ${CHANNEL_LABELS[channel]}.`,
+        inReplyTo: message
+      });
+      return { success: true, linked: !!linkedUserId };
+    }
+  }
+
+  const sessionId = await getOrCreateSession(supabase, userId, message);
+  const conversation: Conversation = { supabase, adapter, message, userId, sessionId, progress };
+  const sessionContext = await getSessionContext(supabase, sessionId);
+
+  // Handle voice notes - transcribe them first
+  const voiceNote = message.media.find(m => m.type === 'audio');
+  if (voiceNote) {
+    console.log(`🎤 Processing voice note from ${message.from}`);
+
+    const audioData = await adapter.downloadMedia(voiceNote.ref);
+    if (audioData) {
+      const transcription = await transcribeAudio(supabase, audioData.data, voiceNote.mimeType);
+      if (transcription) {
+        message.text = transcription;
+        console.log(`✅ Voice note transcribed: "${transcription.substring(0, 100)}..."`);
+
+        // Send transcription back to user for reference
+        await reply(conversation, `🎤 ${emphasis(adapter, `"${transcription}"`)}`);
+      } else {
+        console.error('❌ Failed to transcribe voice note');
+        message.text = '[Voice note - transcription failed]';
+      }
+    } else {
+      console.error('❌ Failed to download voice note');
+      message.text = '[Voice note - download failed]';
+    }
+  }
+
+  const promptReply = await handlePromptKeyword(supabase, userId, message.text);
+  if (promptReply) {
+    await saveMessage(conversation, { direction: 'inbound', messageText: message.text, providerMessageId: message.messageId });
+    await reply(conversation, promptReply);
+    return { success: true, promptSettingsChanged: true };
+  }
+
+  const state = readConversationState(sessionContext);
+  const event = classifyMessage(state, {
+    text: message.text,
+    hasVisualMedia: message.media.some(m => m.type !== 'audio')
+  });
+  console.log(`🔀 ${state} + ${event.type}`);
+
+  if (event.type !== 'media' && message.text) {
+    await saveMessage(conversation, {
+      direction: 'inbound',
+      messageText: message.text,
+      providerMessageId: message.messageId
+    });
+  }
+
+  const outcome = await runEffect(conversation, sessionContext, state, event, !!voiceNote);
+
+  sessionContext.state = outcome.state;
+  await updateSessionContext(supabase, sessionId, sessionContext);
+
+  return outcome.result;
+}
+
+type WebhookEvent = {
+  id: string;
+  channel: MessagingChannel;
+  provider: string;
+  raw_body: string;
+  attempts: number;
+  progress: InboxProgressSteps | null;
+};
+
+/**
+ * Answer one inbox event (messaging_webhook_events) and record the outcome.
+ * The stored body is parsed again by a fresh adapter, since adapters keep
+ * per-message state (email attachments). Failures are retried after
+ * INBOX_RETRY_MINUTES until INBOX_MAX_ATTEMPTS, carrying on from the
+ * event's progress.
+ */
+export async function processWebhookEvent(supabase: SupabaseClient, event: WebhookEvent): Promise<boolean> {
+  try {
+    const adapter = getChannelAdapter(event.channel, event.provider);
+    const message = await adapter.parseIncomingMessage(event.raw_body);
+    const progress = new InboxProgress(supabase, event.id, event.progress || {});
+    const result = message
+      ? await handleInboundMessage(supabase, adapter, message, progress)
+      : { success: true, message: 'No message' };
+
+    await supabase
+      .from('messaging_webhook_events')
+      .update({
+        status: 'processed',
+        result,
+        last_error: null,
+        next_attempt_at: null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', event.id);
+    return true;
+  } catch (error) {
+    const retryMinutes = event.attempts < INBOX_MAX_ATTEMPTS
+      ? INBOX_RETRY_MINUTES[Math.min(event.attempts, INBOX_RETRY_MINUTES.length) - 1]
+      : null;
+    console.error(`❌ Webhook event ${event.id} failed (attempt ${event.attempts}):`, error);
+
+    await supabase
+      .from('messaging_webhook_events')
+      .update({
+        status: 'failed',
+        last_error: error instanceof Error ? error.message : String(error),
+        next_attempt_at: retryMinutes ? new Date(Date.now() + retryMinutes * 60000).toISOString() : null,
+      })
+      .eq('id', event.id);
+    return false;
+  }
+}
+
+/** Retry due and stalled inbox events (messaging-inbox, every minute) */
+export async function processDueWebhookEvents(supabase: SupabaseClient) {
+  const { data: events, error } = await supabase.rpc('claim_messaging_webhook_events', {
+    p_limit: INBOX_BATCH,
+    p_stale_minutes: INBOX_STALE_MINUTES,
+  });
+  if (error) throw error;
+
+  const counts = { processed: 0, failed: 0 };
+  for (const event of (events || []) as WebhookEvent[]) {
+    if (await processWebhookEvent(supabase, event)) counts.processed++;
+    else counts.failed++;
+  }
+  return counts;
+}
+
+/** Process one event again now, whatever its status or attempts (admin replay) */
+export async function replayWebhookEvent(supabase: SupabaseClient, eventId: string): Promise<boolean> {
+  const { data: event, error } = await supabase
+    .from('messaging_webhook_events')
+    .select('id, channel, provider, raw_body, attempts, progress, status, next_attempt_at')
+    .eq('id', eventId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!event) throw new Error('Webhook event not found');
+  if (event.status === 'processing' && new Date(event.next_attempt_at) > new Date()) {
+    throw new Error('This event is being processed right now');
+  }
+
+  const attempts = event.attempts + 1;
+  const { data: claimed, error: claimError } = await supabase
+    .from('messaging_webhook_events')
+    .update({
+      status: 'processing',
+      attempts,
+      next_attempt_at: new Date(Date.now() + INBOX_STALE_MINUTES * 60000).toISOString(),
+    })
+    .eq('id', eventId)
+    .eq('status', event.status)
+    .select('id');
+  if (claimError) throw claimError;
+  if (!claimed?.length) throw new Error('This event is being processed right now');
+
+  return processWebhookEvent(supabase, { ...(event as WebhookEvent), attempts });
+}
+
+/**
+ * A channel's webhook: GET runs the provider's verification handshake. A
+ * POST is authenticated, parsed and stored in the webhook inbox; the
+ * provider gets its 200 straight away and the message is answered in the
+ * background. Deliveries of a message already in the inbox are acknowledged
+ * and dropped.
+ */
+export async function handleChannelWebhook(req: Request, channel: MessagingChannel, provider?: string | null): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const label = CHANNEL_LABELS[channel];
+
+  try {
+    const adapter = getChannelAdapter(channel, provider);
+
+    if (req.method === "GET") {
+      const verifyResult = await adapter.verifyWebhook(req);
+      if (verifyResult instanceof Response) return verifyResult;
+      if (verifyResult === true) {
+        return new Response("Webhook verified", { status: 200 });
+      }
+      return new Response("Verification failed", { status: 403 });
+    }
+
+    if (req.method === "POST") {
+      const rawBody = await req.text();
+      if (!(await adapter.authenticate(req, rawBody))) {
+        console.warn(`⚠️ Rejected unauthenticated ${label} webhook`);
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const message = await adapter.parseIncomingMessage(rawBody);
+      if (!message) {
+        return jsonResponse({ success: true, message: 'No message' });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const { data: stored, error } = await supabase
+        .from('messaging_webhook_events')
+        .upsert({
+          channel,
+          provider: adapter.provider,
+          provider_message_id: message.messageId,
+          from_address: message.from,
+          raw_body: rawBody,
+          status: 'processing',
+          attempts: 1,
+          next_attempt_at: new Date(Date.now() + INBOX_STALE_MINUTES * 60000).toISOString(),
+        }, { onConflict: 'channel,provider,from_address,provider_message_id', ignoreDuplicates: true })
+        .select('id, channel, provider, raw_body, attempts, progress');
+      if (error) throw error;
+
+      if (!stored?.length) {
+        console.log(`🔁 Duplicate ${label} delivery of ${message.messageId}; ignored`);
+        return jsonResponse({ success: true, duplicate: true });
+      }
+
+      const event = stored[0] as WebhookEvent;
+      const task = processWebhookEvent(supabase, event);
+      if (typeof EdgeRuntime !== 'undefined' && EdgeRuntime.waitUntil) {
+        EdgeRuntime.waitUntil(task);
+      } else {
+        await task;
+      }
+      return jsonResponse({ success: true, eventId: event.id });
+    }
+
+    return new Response("Method not allowed", { status: 405 });
+  } catch (error) {
+    console.error(`❌ ${label} webhook error:`, error);
+    return jsonResponse({
+      error: error instanceof Error ? error.message : "Unknown error",
+      success: false
+    }, 500);
+  }
+}
@@ -0,0 +1,410 @@
+// Speech-to-text and text-to-speech backends behind one interface. The speech
+// function (voice_recordings transcription, voiceService.speak) and the
+// messaging channels (voice notes and spoken replies) try the providers listed in
+// system_configuration's speech_config in order, so a self-hosted server can be
+// the primary or the fallback:
+// - openai: Whisper via the Audio API, word timestamps from verbose_json
+// - whisper: self-hosted whisper.cpp server (/inference) or an OpenAI-compatible
+//   server such as faster-whisper-server (/v1/audio/transcriptions)
+// - elevenlabs: text-to-speech API
+// - piper: self-hosted Piper HTTP server, or an OpenAI-compatible /v1/audio/speech
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export type TranscriptionProviderId = 'openai' | 'whisper';
+export type SynthesisProviderId = 'elevenlabs' | 'piper';
+
+export const TRANSCRIPTION_PROVIDER_IDS: TranscriptionProviderId[] = ['openai', 'whisper'];
+export const SYNTHESIS_PROVIDER_IDS: SynthesisProviderId[] = ['elevenlabs', 'piper'];
+
+export interface SpeechConfig {
+  transcription_providers: TranscriptionProviderId[]; // Tried in order until one succeeds
+  synthesis_providers: SynthesisProviderId[];
+  transcribe_recordings: boolean; // Queue new voice_recordings for word-level transcription
+  language: string | null; // ISO-639-1 hint, e.g. "en"; null lets the model detect it
+  openai: { model: string };
+  whisper: { endpoint_url: string; api: 'whisper_cpp' | 'openai'; model: string; timeout_ms: number };
+  elevenlabs: { model: string; voice_id: string };
+  piper: { endpoint_url: string; api: 'piper' | 'openai'; voice: string; timeout_ms: number };
+}
+
+export const SPEECH_CONFIG_KEY = 'speech_config';
+
+export const DEFAULT_SPEECH_CONFIG: SpeechConfig = {
+  transcription_providers: ['openai'],
+  synthesis_providers: ['elevenlabs'],
+  transcribe_recordings: true,
+  language: null,
+  openai: { model: 'whisper-1' },
+  whisper: { endpoint_url: '', api: 'whisper_cpp', model: 'base.en', timeout_ms: 120_000 },
+  elevenlabs: { model: 'eleven_turbo_v2_5', voice_id: '9BWtsMINqrJLrRacOk9x' }, // Aria, Solin's voice
+  piper: { endpoint_url: '', api: 'piper', voice: 'en_GB-jenny_dioco-medium', timeout_ms: 60_000 },
+};
+
+/** One recognised word; times are seconds from the start of the audio */
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface Transcription {
+  text: string;
+  words: TranscriptWord[];
+  language: string | null;
+  duration_seconds: number | null;
+  provider: TranscriptionProviderId;
+  model: string;
+}
+
+export interface SynthesisRequest {
+  text: string;
+  voice_id?: string | null; // ElevenLabs voice; self-hosted servers use their configured voice
+  model?: string | null;
+  voice_settings?: Record<string, unknown> | null;
+}
+
+export interface SynthesizedSpeech {
+  bytes: Uint8Array;
+  mime_type: string;
+  provider: SynthesisProviderId;
+  model: string;
+}
+
+interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  transcribe(audio: Blob, filename: string): Promise<Transcription>;
+}
+
+interface SynthesisProvider {
+  id: SynthesisProviderId;
+  synthesize(request: SynthesisRequest): Promise<SynthesizedSpeech>;
+}
+
+/** Defaults merged with the speech_config row, if there is one */
+export async function loadSpeechConfig(supabase: SupabaseClient): Promise<SpeechConfig> {
+  const { data, error } = await supabase
+    .from('system_configuration')
+    .select('value')
+    .eq('key', SPEECH_CONFIG_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Failed to load speech config, using defaults:', error);
+  }
+
+  const stored = (data?.value || {}) as Partial<SpeechConfig>;
+  return {
+    ...DEFAULT_SPEECH_CONFIG,
+    ...stored,
+    openai: { ...DEFAULT_SPEECH_CONFIG.openai, ...stored.openai },
+    whisper: { ...DEFAULT_SPEECH_CONFIG.whisper, ...stored.whisper },
+    elevenlabs: { ...DEFAULT_SPEECH_CONFIG.elevenlabs, ...stored.elevenlabs },
+    piper: { ...DEFAULT_SPEECH_CONFIG.piper, ...stored.piper },
+  };
+}
+
+/** File name with an extension the transcription APIs recognise for this MIME type */
+export function audioFilenameFor(mimeType: string): string {
+  if (mimeType.includes('webm')) return 'audio.webm';
+  if (mimeType.includes('mpeg') || mimeType.includes('mp3')) return 'audio.mp3';
+  if (mimeType.includes('mp4') || mimeType.includes('m4a') || mimeType.includes('aac')) return 'audio.m4a';
+  if (mimeType.includes('wav')) return 'audio.wav';
+  return 'audio.ogg';
+}
+
+/**
+ * Transcribe with the first configured provider that succeeds. Throws the last
+ * provider's error if none do.
+ */
+export async function transcribeSpeech(config: SpeechConfig, audio: Blob): Promise<Transcription> {
+  const filename = audioFilenameFor(audio.type);
+  return firstSuccessful(config.transcription_providers, 'transcription', id =>
+    createTranscriptionProvider(id, config).transcribe(audio, filename)
+  );
+}
+
+/** Synthesize with the first configured provider that succeeds */
+export async function synthesizeSpeech(config: SpeechConfig, request: SynthesisRequest): Promise<SynthesizedSpeech> {
+  return firstSuccessful(config.synthesis_providers, 'speech synthesis', id =>
+    createSynthesisProvider(id, config).synthesize(request)
+  );
+}
+
+async function firstSuccessful<Id extends string, T>(ids: Id[], label: string, run: (id: Id) => Promise<T>): Promise<T> {
+  if (ids.length === 0) throw new Error(`No ${label} provider configured`);
+
+  let lastError: unknown = null;
+  for (const id of ids) {
+    try {
+      return await run(id);
+    } catch (error) {
+      console.error(`❌ ${label} with ${id} failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error(`All ${label} providers failed`);
+}
+
+function createTranscriptionProvider(id: TranscriptionProviderId, config: SpeechConfig): TranscriptionProvider {
+  switch (id) {
+    case 'openai':
+      return openAITranscriptionProvider(config);
+    case 'whisper':
+      return whisperProvider(config);
+    default:
+      throw new Error(`Unknown transcription provider: ${id}`);
+  }
+}
+
+function createSynthesisProvider(id: SynthesisProviderId, config: SpeechConfig): SynthesisProvider {
+  switch (id) {
+    case 'elevenlabs':
+      return elevenLabsProvider(config.elevenlabs);
+    case 'piper':
+      return piperProvider(config.piper);
+    default:
+      throw new Error(`Unknown speech synthesis provider: ${id}`);
+  }
+}
+
+// ----- Transcription: OpenAI and OpenAI-compatible servers -----
+
+interface VerboseTranscription {
+  text?: string;
+  language?: string;
+  duration?: number;
+  words?: { word: string; start: number; end: number; probability?: number }[];
+  segments?: {
+    text: string;
+    start: number;
+    end: number;
+    words?: { word: string; start: number; end: number; probability?: number }[];
+  }[];
+}
+
+/** Word timings from whichever shape the server returned */
+function wordsFromVerbose(result: VerboseTranscription): TranscriptWord[] {
+  const toWord = (w: { word: string; start: number; end: number; probability?: number }): TranscriptWord => ({
+    word: w.word.trim(),
+    start: w.start,
+    end: w.end,
+    ...(w.probability != null && { confidence: w.probability }),
+  });
+
+  if (result.words?.length) {
+    return result.words.map(toWord).filter(w => w.word);
+  }
+
+  const segments = result.segments || [];
+  if (segments.some(segment => segment.words?.length)) {
+    return segments.flatMap(segment => (segment.words || []).map(toWord)).filter(w => w.word);
+  }
+
+  // Segment timings only: share each segment's span across its words by length
+  return segments.flatMap(segment => {
+    const words = segment.text.trim().split(/\s+/).filter(Boolean);
+    const totalChars = words.reduce((sum, word) => sum + word.length, 0) || 1;
+    const span = segment.end - segment.start;
+    let cursor = segment.start;
+    return words.map(word => {
+      const start = cursor;
+      cursor += span * (word.length / totalChars);
+      return { word, start: round(start), end: round(cursor) };
+    });
+  });
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+async function transcribeWithAudioApi(
+  url: string,
+  apiKey: string | undefined,
+  model: string,
+  language: string | null,
+  audio: Blob,
+  filename: string,
+  timeoutMs?: number,
+): Promise<VerboseTranscription> {
+  const formData = new FormData();
+  formData.append('file', audio, filename);
+  formData.append('model', model);
+  formData.append('response_format', 'verbose_json');
+  formData.append('timestamp_granularities[]', 'word');
+  formData.append('timestamp_granularities[]', 'segment');
+  if (language) formData.append('language', language);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    body: formData,
+    ...(timeoutMs && { signal: AbortSignal.timeout(timeoutMs) }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Transcription API error: ${response.status} - ${errorText}`);
+  }
+
+  return await response.json();
+}
+
+function openAITranscriptionProvider(config: SpeechConfig): TranscriptionProvider {
+  return {
+    id: 'openai',
+    async transcribe(audio, filename) {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('OpenAI API key not configured');
+
+      const { model } = config.openai;
+      const result = await transcribeWithAudioApi(
+        'https://api.openai.com/v1/audio/transcriptions', apiKey, model, config.language, audio, filename,
+      );
+      return {
+        text: (result.text || '').trim(),
+        words: wordsFromVerbose(result),
+        language: result.language || config.language,
+        duration_seconds: result.duration ?? null,
+        provider: 'openai',
+        model,
+      };
+    },
+  };
+}
+
+// ----- Transcription: self-hosted Whisper -----
+
+function whisperProvider(config: SpeechConfig): TranscriptionProvider {
+  const settings = config.whisper;
+  return {
+    id: 'whisper',
+    async transcribe(audio, filename) {
+      if (!settings.endpoint_url) throw new Error('Whisper endpoint not configured');
+      const baseUrl = settings.endpoint_url.replace(/\/+$/, '');
+      const apiKey = Deno.env.get('WHISPER_API_KEY');
+
+      let result: VerboseTranscription;
+      if (settings.api === 'openai') {
+        result = await transcribeWithAudioApi(
+          `${baseUrl}/v1/audio/transcriptions`, apiKey, settings.model, config.language, audio, filename, settings.timeout_ms,
+        );
+      } else {
+        // whisper.cpp server: the model is whichever one the server was started with
+        const formData = new FormData();
+        formData.append('file', audio, filename);
+        formData.append('response_format', 'verbose_json');
+        formData.append('temperature', '0');
+        if (config.language) formData.append('language', config.language);
+
+        const response = await fetch(`${baseUrl}/inference`, {
+          method: 'POST',
+          headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+          body: formData,
+          signal: AbortSignal.timeout(settings.timeout_ms),
+        });
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`whisper.cpp server error: ${response.status} - ${errorText}`);
+        }
+        result = await response.json();
+      }
+
+      const words = wordsFromVerbose(result);
+      const text = (result.text || words.map(w => w.word).join(' ')).trim();
+      return {
+        text,
+        words,
+        language: result.language || config.language,
+        duration_seconds: result.duration ?? null,
+        provider: 'whisper',
+        model: settings.model,
+      };
+    },
+  };
+}
+
+// ----- Synthesis: ElevenLabs -----
+
+function elevenLabsProvider(settings: SpeechConfig['elevenlabs']): SynthesisProvider {
+  return {
+    id: 'elevenlabs',
+    async synthesize(request) {
+      const apiKey = Deno.env.get('ELEVENLABS_API_KEY');
+      if (!apiKey) throw new Error('ElevenLabs API key not configured');
+
+      const voiceId = request.voice_id || settings.voice_id;
+      const model = request.model || settings.model;
+      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          text: request.text,
+          model_id: model,
+          voice_settings: request.voice_settings || { stability: 0.5, similarity_boost: 0.8 },
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`ElevenLabs API error: ${response.status} - ${errorText}`);
+      }
+
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      if (bytes.length === 0) throw new Error('ElevenLabs returned no audio');
+      return { bytes, mime_type: 'audio/mpeg', provider: 'elevenlabs', model };
+    },
+  };
+}
+
+// ----- Synthesis: self-hosted Piper -----
+
+function piperProvider(settings: SpeechConfig['piper']): SynthesisProvider {
+  return {
+    id: 'piper',
+    async synthesize(request) {
+      if (!settings.endpoint_url) throw new Error('Piper endpoint not configured');
+      const baseUrl = settings.endpoint_url.replace(/\/+$/, '');
+      const apiKey = Deno.env.get('PIPER_API_KEY');
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      };
+
+      // Piper's own server only speaks WAV; OpenAI-compatible servers can return MP3
+      const response = settings.api === 'openai'
+        ? await fetch(`${baseUrl}/v1/audio/speech`, {
+            method: 'POST',
+            headers,
+            signal: AbortSignal.timeout(settings.timeout_ms),
+            body: JSON.stringify({ model: 'piper', voice: settings.voice, input: request.text, response_format: 'mp3' }),
+          })
+        : await fetch(baseUrl, {
+            method: 'POST',
+            headers,
+            signal: AbortSignal.timeout(settings.timeout_ms),
+            body: JSON.stringify({ text: request.text, voice: settings.voice }),
+          });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Piper server error: ${response.status} - ${errorText}`);
+      }
+
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      if (bytes.length === 0) throw new Error('Piper returned no audio');
+      const fallbackType = settings.api === 'openai' ? 'audio/mpeg' : 'audio/wav';
+      return {
+        bytes,
+        mime_type: response.headers.get('content-type')?.split(';')[0] || fallbackType,
+        provider: 'piper',
+        model: settings.voice,
+      };
+    },
+  };
+}
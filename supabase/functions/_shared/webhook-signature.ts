@@ -0,0 +1,49 @@
+// HMAC helpers for provider webhook signatures (Meta X-Hub-Signature-256,
+// Twilio X-Twilio-Signature).
+
+async function hmac(algorithm: 'SHA-1' | 'SHA-256', secret: string, payload: string): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: algorithm },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+export async function hmacHex(algorithm: 'SHA-1' | 'SHA-256', secret: string, payload: string): Promise<string> {
+  return Array.from(await hmac(algorithm, secret, payload))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function hmacBase64(algorithm: 'SHA-1' | 'SHA-256', secret: string, payload: string): Promise<string> {
+  return btoa(String.fromCharCode(...await hmac(algorithm, secret, payload)));
+}
+
+/** Compares without stopping at the first difference */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * The URL the provider called. Behind the Supabase gateway request.url is the
+ * internal one, so the public /functions/v1 URL is tried as well.
+ */
+export function publicWebhookUrls(request: Request): string[] {
+  const url = new URL(request.url);
+  const urls = [url.toString()];
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  if (supabaseUrl) {
+    const path = url.pathname.startsWith('/functions/v1') ? url.pathname : `/functions/v1${url.pathname}`;
+    urls.push(`${supabaseUrl.replace(/\/$/, '')}${path}${url.search}`);
+  }
+  return [...new Set(urls)];
+}
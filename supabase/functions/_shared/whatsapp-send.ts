@@ -0,0 +1,100 @@
+// Outbound WhatsApp text messages for notifications (time capsules, ...).
+// Uses the same provider settings as whatsapp-webhook: WHATSAPP_PROVIDER
+// ('meta' | 'twilio') with the Meta or Twilio credentials.
+// Note: Meta only delivers free-form text inside the 24h customer service
+// window; outside it the send fails and callers should fall back to in-app.
+
+export const WHATSAPP_MAX_TEXT_LENGTH = 4000;
+
+export interface WhatsAppSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+async function sendViaMeta(to: string, body: string): Promise<WhatsAppSendResult> {
+  const accessToken = Deno.env.get('WHATSAPP_META_ACCESS_TOKEN');
+  const phoneNumberId = Deno.env.get('WHATSAPP_META_PHONE_NUMBER_ID');
+  if (!accessToken || !phoneNumberId) {
+    return { success: false, error: 'WhatsApp credentials not configured' };
+  }
+
+  const response = await fetch(`https://graph.facebook.com/v21.0/${phoneNumberId}/messages`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: to.replace(/^\+/, ''),
+      type: 'text',
+      text: { preview_url: false, body },
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) return { success: false, error: `Meta API error: ${JSON.stringify(result)}` };
+  return { success: true, messageId: result.messages?.[0]?.id };
+}
+
+async function sendViaTwilio(to: string, body: string): Promise<WhatsAppSendResult> {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const fromNumber = Deno.env.get('TWILIO_WHATSAPP_NUMBER') || 'whatsapp:+14155238886';
+  if (!accountSid || !authToken) {
+    return { success: false, error: 'Twilio credentials not configured' };
+  }
+
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+    method: 'POST',
+    headers: {
+      'Authorization': 'Basic ' + btoa(`${accountSid}:${authToken}`),
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ From: fromNumber, To: `whatsapp:${to}`, Body: body }).toString(),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) return { success: false, error: `Twilio API error: ${JSON.stringify(result)}` };
+  return { success: true, messageId: result.sid };
+}
+
+/**
+ * Split long text on paragraph/sentence boundaries so each part fits one message
+ */
+export function splitWhatsAppText(text: string, maxLength = WHATSAPP_MAX_TEXT_LENGTH): string[] {
+  const parts: string[] = [];
+  let remaining = text.trim();
+  while (remaining.length > maxLength) {
+    const window = remaining.slice(0, maxLength);
+    const cut = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. ') + 1);
+    const end = cut > maxLength / 2 ? cut : maxLength;
+    parts.push(remaining.slice(0, end).trim());
+    remaining = remaining.slice(end).trim();
+  }
+  if (remaining) parts.push(remaining);
+  return parts;
+}
+
+/**
+ * Send a text message (split into several if needed). Never throws.
+ */
+export async function sendWhatsAppText(to: string, text: string): Promise<WhatsAppSendResult> {
+  const provider = Deno.env.get('WHATSAPP_PROVIDER') || 'meta';
+  let last: WhatsAppSendResult = { success: false, error: 'Empty message' };
+
+  for (const part of splitWhatsAppText(text)) {
+    try {
+      last = provider === 'twilio' ? await sendViaTwilio(to, part) : await sendViaMeta(to, part);
+    } catch (error) {
+      last = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    if (!last.success) {
+      console.error(`❌ WhatsApp send to ${to} failed:`, last.error);
+      return last;
+    }
+  }
+  return last;
+}
@@ -0,0 +1,305 @@
+// Zip writer and HTML rendering for the account export archive.
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from "https://esm.sh/fflate@0.8.2";
+import type { GroupedMemory } from "../_shared/memory-grouping.ts";
+
+export const ARCHIVE_FORMAT = "solin-account-export";
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveFileKind = "audio" | "transcript" | "artifact" | "memory_image";
+
+export interface ArchiveFileEntry {
+  path: string;
+  kind: ArchiveFileKind;
+  related_id: string; // recording, artifact or memory group id
+  mime_type: string | null;
+  size_bytes: number;
+  source_bucket: string | null;
+  source_path: string | null;
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  generated_at: string;
+  user: { id: string; email: string | null };
+  counts: Record<string, number>;
+  sections: Record<string, { data: string; html?: string; description: string }>;
+  files: ArchiveFileEntry[];
+  warnings: string[];
+}
+
+/**
+ * Where the archive goes while it is written, e.g. a resumable Storage upload.
+ * Every chunk passed to write() is exactly chunkSize bytes; close() gets the
+ * rest, which is never empty.
+ */
+export interface ArchiveSink {
+  chunkSize: number;
+  write(chunk: Uint8Array): Promise<void>;
+  close(last: Uint8Array, totalBytes: number): Promise<void>;
+}
+
+/**
+ * Streaming zip writer. Text is deflated; media (already compressed) is stored.
+ * Output is handed to the sink after every file, so only the file being added
+ * and less than one chunk are held in memory.
+ */
+export class ArchiveWriter {
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+  private zip: Zip;
+  private done: Promise<void>;
+  private error: Error | null = null;
+  size = 0;
+
+  constructor(private sink: ArchiveSink) {
+    let resolve: () => void;
+    this.done = new Promise(res => {
+      resolve = res;
+    });
+
+    this.zip = new Zip((error, chunk, final) => {
+      if (error) {
+        this.error = error;
+        return resolve();
+      }
+      this.pending.push(chunk);
+      this.pendingBytes += chunk.length;
+      this.size += chunk.length;
+      if (final) resolve();
+    });
+  }
+
+  async addText(path: string, text: string) {
+    const file = new ZipDeflate(path, { level: 6 });
+    this.zip.add(file);
+    file.push(strToU8(text), true);
+    await this.flush();
+  }
+
+  async addJson(path: string, value: unknown) {
+    await this.addText(path, JSON.stringify(value, null, 2));
+  }
+
+  async addBinary(path: string, data: Uint8Array) {
+    const file = new ZipPassThrough(path);
+    this.zip.add(file);
+    file.push(data, true);
+    await this.flush();
+  }
+
+  /** Writes the central directory and closes the sink; returns the archive size */
+  async finish(): Promise<number> {
+    this.zip.end();
+    await this.done;
+    await this.flush();
+    await this.sink.close(this.take(this.pendingBytes), this.size);
+    return this.size;
+  }
+
+  // Whole chunks only, and never the last byte: close() sends that
+  private async flush() {
+    if (this.error) throw this.error;
+    while (this.pendingBytes > this.sink.chunkSize) {
+      await this.sink.write(this.take(this.sink.chunkSize));
+    }
+  }
+
+  private take(length: number): Uint8Array {
+    const chunk = new Uint8Array(length);
+    let offset = 0;
+    while (offset < length) {
+      const head = this.pending[0];
+      const needed = length - offset;
+      if (head.length <= needed) {
+        chunk.set(head, offset);
+        offset += head.length;
+        this.pending.shift();
+      } else {
+        chunk.set(head.subarray(0, needed), offset);
+        this.pending[0] = head.subarray(needed);
+        offset = length;
+      }
+    }
+    this.pendingBytes -= length;
+    return chunk;
+  }
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Safe archive file name: lowercase slug, never empty
+ */
+export function slugify(value: string, fallback = "item"): string {
+  const slug = value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || fallback;
+}
+
+export function memoryPagePath(memory: GroupedMemory): string {
+  return `memories/${slugify(memory.title, "memory")}-${memory.id.slice(0, 8)}.html`;
+}
+
+function paragraphs(text: string | null | undefined): string {
+  return (text || "")
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+export function renderPage(title: string, body: string, depth = 0): string {
+  const root = depth > 0 ? "../".repeat(depth) : "";
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.6; }
+  nav { font-family: system-ui, sans-serif; font-size: 0.9rem; margin-bottom: 2rem; }
+  nav a { margin-right: 1rem; }
+  .meta { font-family: system-ui, sans-serif; color: #666; font-size: 0.9rem; }
+  .tag { display: inline-block; background: #eef; border-radius: 4px; padding: 0 0.4rem; margin-right: 0.3rem; }
+  ul.list li { margin-bottom: 0.5rem; }
+  audio { width: 100%; }
+</style>
+</head>
+<body>
+<nav>
+  <a href="${root}index.html">Overview</a>
+  <a href="${root}memories/index.html">Memories</a>
+  <a href="${root}biography.html">Biography</a>
+  <a href="${root}recordings.html">Recordings</a>
+  <a href="${root}perspectives.html">Perspectives</a>
+</nav>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+}
+
+export interface MemoryPageContext {
+  insights: Record<string, unknown>[];
+  files: ArchiveFileEntry[];
+  perspectives: Record<string, unknown>[];
+}
+
+export function renderMemoryPage(memory: GroupedMemory, context: MemoryPageContext): string {
+  const meta = [
+    memory.memory_date ? `Date: ${escapeHtml(memory.memory_date)}` : null,
+    memory.memory_location ? `Location: ${escapeHtml(memory.memory_location)}` : null,
+    `Saved: ${escapeHtml(new Date(memory.created_at).toLocaleString("en-GB"))}`,
+  ].filter(Boolean).join(" · ");
+
+  const tags = (memory.tags || []).map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join("");
+
+  const images = context.files
+    .filter(file => file.kind === "memory_image" || (file.kind === "artifact" && file.mime_type?.startsWith("image/")))
+    .map(file => `<p><img src="../${escapeHtml(file.path)}" alt="" style="max-width:100%"></p>`)
+    .join("\n");
+
+  const attachments = context.files
+    .filter(file => file.kind === "artifact" && !file.mime_type?.startsWith("image/"))
+    .map(file => `<li><a href="../${escapeHtml(file.path)}">${escapeHtml(file.path.split("/").pop())}</a></li>`)
+    .join("\n");
+
+  const insights = context.insights
+    .map(insight => `<pre>${escapeHtml(JSON.stringify(insight.insights, null, 2))}</pre>`)
+    .join("\n");
+
+  const perspectives = context.perspectives
+    .map(perspective => `<blockquote><strong>${escapeHtml(perspective.perspective_title || "Perspective")}</strong>${paragraphs(perspective.perspective_text as string)}</blockquote>`)
+    .join("\n");
+
+  return renderPage(memory.title, `
+<p class="meta">${meta}</p>
+${tags ? `<p>${tags}</p>` : ""}
+${paragraphs(memory.text)}
+${images}
+${attachments ? `<h2>Attachments</h2><ul>${attachments}</ul>` : ""}
+${perspectives ? `<h2>Perspectives</h2>${perspectives}` : ""}
+${insights ? `<h2>Insights</h2>${insights}` : ""}
+`, 1);
+}
+
+export function renderMemoryIndex(memories: GroupedMemory[]): string {
+  const items = memories
+    .map(memory => `<li><a href="${escapeHtml(memoryPagePath(memory).replace("memories/", ""))}">${escapeHtml(memory.title)}</a> <span class="meta">${escapeHtml(memory.memory_date || memory.created_at.split("T")[0])}</span></li>`)
+    .join("\n");
+  return renderPage("Memories", `<ul class="list">${items || "<li>No memories yet.</li>"}</ul>`, 1);
+}
+
+export function renderBiography(
+  biography: Record<string, unknown> | null,
+  chapters: Record<string, unknown>[],
+): string {
+  if (!biography) return renderPage("Biography", "<p>No biography has been generated yet.</p>");
+
+  const body = [
+    paragraphs(biography.introduction as string),
+    ...chapters.map(chapter => `<h2>${escapeHtml(chapter.chapter_title)}</h2>\n${paragraphs(chapter.chapter_content as string)}`),
+    biography.conclusion ? `<h2>Conclusion</h2>\n${paragraphs(biography.conclusion as string)}` : "",
+  ].join("\n");
+
+  return renderPage("Biography", body);
+}
+
+export function renderRecordings(recordings: Record<string, unknown>[], files: ArchiveFileEntry[]): string {
+  const items = recordings.map(recording => {
+    const audio = files.find(file => file.kind === "audio" && file.related_id === recording.id);
+    const transcript = files.find(file => file.kind === "transcript" && file.related_id === recording.id);
+    const duration = recording.duration_seconds ? ` · ${Math.round(Number(recording.duration_seconds) / 60)} min` : "";
+    return `<section>
+<h2>${escapeHtml(new Date(recording.created_at as string).toLocaleString("en-GB"))}</h2>
+<p class="meta">${escapeHtml(recording.recording_type)}${duration}${recording.conversation_summary ? ` · ${escapeHtml(recording.conversation_summary)}` : ""}</p>
+${audio ? `<audio controls src="${escapeHtml(audio.path)}"></audio>` : "<p class=\"meta\">Audio file unavailable</p>"}
+${transcript ? `<p><a href="${escapeHtml(transcript.path)}">Transcript</a></p>` : ""}
+</section>`;
+  }).join("\n");
+
+  return renderPage("Recordings", items || "<p>No recordings.</p>");
+}
+
+export function renderPerspectives(perspectives: Record<string, unknown>[], memoryTitles: Map<string, string>): string {
+  const items = perspectives.map(perspective => `<section>
+<h2>${escapeHtml(perspective.perspective_title || memoryTitles.get(perspective.memory_id as string) || "Perspective")}</h2>
+<p class="meta">On: ${escapeHtml(memoryTitles.get(perspective.memory_id as string) || "a memory shared with you")}</p>
+${paragraphs(perspective.perspective_text as string)}
+</section>`).join("\n");
+
+  return renderPage("Perspectives", items || "<p>No perspectives.</p>");
+}
+
+export function renderOverview(manifest: ArchiveManifest, profile: Record<string, unknown> | null): string {
+  const name = (profile?.preferred_name || profile?.display_name || manifest.user.email || "Your") as string;
+  const counts = Object.entries(manifest.counts)
+    .map(([section, count]) => `<li>${escapeHtml(section.replace(/_/g, " "))}: ${count}</li>`)
+    .join("\n");
+  const warnings = manifest.warnings.map(warning => `<li>${escapeHtml(warning)}</li>`).join("\n");
+
+  return renderPage(`${name} — Life Story Archive`, `
+<p class="meta">Exported ${escapeHtml(new Date(manifest.generated_at).toLocaleString("en-GB"))}</p>
+<p>This archive contains everything stored in your account. The pages here can be opened in any browser;
+machine-readable copies of all records are in <code>data/</code> and described by <code>manifest.json</code>.</p>
+<h2>Contents</h2>
+<ul>${counts}</ul>
+${warnings ? `<h2>Not included</h2><ul>${warnings}</ul>` : ""}
+`);
+}
@@ -0,0 +1,455 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getGroupedMemories, type GroupedMemory } from "../_shared/memory-grouping.ts";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveWriter,
+  memoryPagePath,
+  renderBiography,
+  renderMemoryIndex,
+  renderMemoryPage,
+  renderOverview,
+  renderPerspectives,
+  renderRecordings,
+  slugify,
+  type ArchiveFileEntry,
+  type ArchiveManifest,
+  type ArchiveSink,
+} from "./archive.ts";
+import { createResumableUpload, type ResumableUpload } from "./resumable-upload.ts";
+
+type Row = Record<string, unknown>;
+
+interface ExportRequest {
+  action?: 'start' | 'status';
+  ownerId?: string; // Set by a legacy contact exporting the owner's data
+}
+
+const EXPORT_BUCKET = 'account-exports';
+const MEMORY_IMAGES_BUCKET = 'memory-images';
+const RECORDINGS_BUCKET = 'voice-recordings';
+const EXPORT_RETENTION_DAYS = 7;
+const DOWNLOAD_URL_SECONDS = 60 * 60;
+// PostgREST .in() filters go in the URL, so keep id lists short
+const ID_BATCH = 200;
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function selectIn(supabase: SupabaseClient, table: string, column: string, ids: string[]): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let i = 0; i < ids.length; i += ID_BATCH) {
+    const { data, error } = await supabase.from(table).select('*').in(column, ids.slice(i, i + ID_BATCH));
+    if (error) throw error;
+    rows.push(...(data || []));
+  }
+  return rows;
+}
+
+async function selectOwned(supabase: SupabaseClient, table: string, userId: string, orderBy = 'created_at'): Promise<Row[]> {
+  const { data, error } = await supabase.from(table).select('*').eq('user_id', userId).order(orderBy);
+  if (error) throw error;
+  return data || [];
+}
+
+function extensionFor(path: string, mimeType: string | null): string {
+  const fromPath = path.split('/').pop()?.match(/\.([a-z0-9]{1,5})$/i)?.[1];
+  if (fromPath) return fromPath.toLowerCase();
+  const fromMime = mimeType?.split('/')[1]?.split(';')[0];
+  return fromMime ? fromMime.replace('mpeg', 'mp3').replace('x-wav', 'wav') : 'bin';
+}
+
+/**
+ * Collect everything the user owns and write it into a zip archive, streamed
+ * to `sink` as it grows. `requestedBy` is set when a legacy contact exports
+ * the account: sealed time capsules stay sealed for them.
+ */
+async function buildArchive(
+  supabase: SupabaseClient,
+  sink: ArchiveSink,
+  userId: string,
+  email: string | null,
+  requestedBy: string | null = null,
+) {
+  const archive = new ArchiveWriter(sink);
+  const files: ArchiveFileEntry[] = [];
+  const warnings: string[] = [];
+
+  const addStorageFile = async (
+    bucket: string,
+    sourcePath: string,
+    archivePath: string,
+    entry: Omit<ArchiveFileEntry, 'path' | 'size_bytes' | 'source_bucket' | 'source_path'>,
+  ) => {
+    const { data, error } = await supabase.storage.from(bucket).download(sourcePath);
+    if (error || !data) {
+      warnings.push(`${bucket}/${sourcePath}: ${error?.message || 'not found'}`);
+      return null;
+    }
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    await archive.addBinary(archivePath, bytes);
+    const file: ArchiveFileEntry = {
+      ...entry,
+      path: archivePath,
+      size_bytes: bytes.length,
+      source_bucket: bucket,
+      source_path: sourcePath,
+    };
+    files.push(file);
+    return file;
+  };
+
+  // Memories (chunks reassembled) and everything hanging off their chunk ids
+  const memories = await getGroupedMemories(supabase, userId);
+  const chunkToGroup = new Map<string, GroupedMemory>();
+  for (const memory of memories) {
+    for (const chunkId of memory.chunkIds) chunkToGroup.set(chunkId, memory);
+  }
+  const chunkIds = [...chunkToGroup.keys()];
+
+  const [insights, memoryArtifacts, profileResult, biographyResult, chapters, recordings, ownPerspectives, allTimeCapsules, legacyContacts, legacyPlanResult, circles, memoryAudiences, familyStories, people, personMentions, ownedArtifacts] = await Promise.all([
+    selectOwned(supabase, 'memory_insights', userId),
+    selectIn(supabase, 'memory_artifacts', 'memory_id', chunkIds),
+    supabase.from('user_profiles').select('*').eq('user_id', userId).maybeSingle(),
+    supabase.from('persistent_biography').select('*').eq('user_id', userId).maybeSingle(),
+    selectOwned(supabase, 'biography_chapters', userId, 'chapter_sequence'),
+    selectOwned(supabase, 'voice_recordings', userId),
+    selectOwned(supabase, 'memory_perspectives', userId),
+    selectOwned(supabase, 'time_capsules', userId),
+    selectOwned(supabase, 'legacy_contacts', userId),
+    supabase.from('legacy_plans').select('*').eq('user_id', userId).maybeSingle(),
+    selectOwned(supabase, 'audience_circles', userId),
+    selectOwned(supabase, 'memory_audiences', userId),
+    selectOwned(supabase, 'family_story_threads', userId),
+    selectOwned(supabase, 'people', userId, 'display_name'),
+    selectOwned(supabase, 'person_mentions', userId),
+    selectOwned(supabase, 'artifacts', userId),
+  ]);
+  const circleMembers = await selectIn(supabase, 'audience_circle_members', 'circle_id', circles.map(circle => circle.id as string));
+  const profile = (profileResult.data as Row | null) ?? null;
+  const timeCapsules = requestedBy
+    ? allTimeCapsules.filter(capsule => capsule.status === 'released')
+    : allTimeCapsules;
+  const biography = (biographyResult.data as Row | null) ?? null;
+
+  // Perspectives others wrote on the user's memories belong to the story too
+  const perspectivesOnOwn = await selectIn(supabase, 'memory_perspectives', 'memory_id', chunkIds);
+  const perspectives = [...new Map([...ownPerspectives, ...perspectivesOnOwn].map(p => [p.id as string, p])).values()];
+
+  // Linked to the user's memories, plus reconstructions that aren't attached to any
+  const linkedArtifactIds = new Set(memoryArtifacts.map(link => link.artifact_id as string));
+  const artifacts = [
+    ...await selectIn(supabase, 'artifacts', 'id', [...linkedArtifactIds]),
+    ...ownedArtifacts.filter(artifact => !linkedArtifactIds.has(artifact.id as string)),
+  ];
+
+  // Artifact files
+  const artifactFiles = new Map<string, ArchiveFileEntry>();
+  for (const artifact of artifacts) {
+    const sourcePath = artifact.storage_path as string;
+    const name = slugify(((artifact.file_name as string) || sourcePath.split('/').pop() || 'file').replace(/\.[^.]+$/, ''), 'file');
+    const extension = extensionFor((artifact.file_name as string) || sourcePath, artifact.mime_type as string | null);
+    const file = await addStorageFile(MEMORY_IMAGES_BUCKET, sourcePath, `files/artifacts/${artifact.id}-${name}.${extension}`, {
+      kind: 'artifact',
+      related_id: artifact.id as string,
+      mime_type: (artifact.mime_type as string) || null,
+    });
+    if (file) artifactFiles.set(artifact.id as string, file);
+  }
+
+  // Images stored directly on memories (external URLs are kept as links in the data)
+  const memoryImageFiles = new Map<string, ArchiveFileEntry[]>();
+  for (const memory of memories) {
+    for (const [index, imagePath] of (memory.image_urls || []).entries()) {
+      if (/^https?:\/\//.test(imagePath)) continue;
+      const file = await addStorageFile(
+        MEMORY_IMAGES_BUCKET,
+        imagePath,
+        `files/memory-images/${memory.id}-${index + 1}.${extensionFor(imagePath, null)}`,
+        { kind: 'memory_image', related_id: memory.id, mime_type: null },
+      );
+      if (file) memoryImageFiles.set(memory.id, [...(memoryImageFiles.get(memory.id) || []), file]);
+    }
+  }
+
+  // Recordings: audio plus a plain-text transcript
+  for (const recording of recordings) {
+    const storagePath = recording.storage_path as string;
+    const extension = extensionFor(storagePath, recording.mime_type as string | null);
+    await addStorageFile(RECORDINGS_BUCKET, storagePath, `audio/${recording.id}.${extension}`, {
+      kind: 'audio',
+      related_id: recording.id as string,
+      mime_type: (recording.mime_type as string) || null,
+    });
+
+    if (recording.transcript_text) {
+      const path = `transcripts/${recording.id}.txt`;
+      await archive.addText(path, recording.transcript_text as string);
+      files.push({
+        path,
+        kind: 'transcript',
+        related_id: recording.id as string,
+        mime_type: 'text/plain',
+        size_bytes: new TextEncoder().encode(recording.transcript_text as string).length,
+        source_bucket: null,
+        source_path: null,
+      });
+    }
+  }
+
+  // Machine-readable data
+  const memoriesData = memories.map(memory => ({
+    ...memory,
+    page: memoryPagePath(memory),
+    artifact_ids: memoryArtifacts
+      .filter(link => chunkToGroup.get(link.memory_id as string)?.id === memory.id)
+      .map(link => link.artifact_id),
+  }));
+  await archive.addJson('data/profile.json', profile);
+  await archive.addJson('data/memories.json', memoriesData);
+  await archive.addJson('data/memory_insights.json', insights);
+  await archive.addJson('data/artifacts.json', artifacts.map(artifact => ({
+    ...artifact,
+    archive_path: artifactFiles.get(artifact.id as string)?.path ?? null,
+  })));
+  await archive.addJson('data/voice_recordings.json', recordings);
+  await archive.addJson('data/biography.json', { biography, chapters });
+  await archive.addJson('data/perspectives.json', perspectives);
+  await archive.addJson('data/family_stories.json', familyStories);
+  await archive.addJson('data/time_capsules.json', timeCapsules);
+  await archive.addJson('data/legacy.json', { plan: legacyPlanResult.data ?? null, contacts: legacyContacts });
+  await archive.addJson('data/audiences.json', { circles, circle_members: circleMembers, memory_audiences: memoryAudiences });
+  await archive.addJson('data/people.json', { people, mentions: personMentions });
+
+  // Human-readable pages
+  const memoryTitles = new Map<string, string>();
+  for (const [chunkId, memory] of chunkToGroup.entries()) memoryTitles.set(chunkId, memory.title);
+
+  for (const memory of memories) {
+    const memoryFiles = [
+      ...(memoryImageFiles.get(memory.id) || []),
+      ...memoryArtifacts
+        .filter(link => chunkToGroup.get(link.memory_id as string)?.id === memory.id)
+        .map(link => artifactFiles.get(link.artifact_id as string))
+        .filter((file): file is ArchiveFileEntry => !!file),
+    ];
+    await archive.addText(memoryPagePath(memory), renderMemoryPage(memory, {
+      insights: insights.filter(insight => memory.chunkIds.includes(insight.memory_id as string)),
+      perspectives: perspectives.filter(perspective => memory.chunkIds.includes(perspective.memory_id as string)),
+      files: memoryFiles,
+    }));
+  }
+  await archive.addText('memories/index.html', renderMemoryIndex(memories));
+  await archive.addText('biography.html', renderBiography(biography, chapters));
+  await archive.addText('recordings.html', renderRecordings(recordings, files));
+  await archive.addText('perspectives.html', renderPerspectives(perspectives, memoryTitles));
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    generated_at: new Date().toISOString(),
+    user: { id: userId, email },
+    counts: {
+      memories: memories.length,
+      memory_insights: insights.length,
+      artifacts: artifacts.length,
+      voice_recordings: recordings.length,
+      biography_chapters: chapters.length,
+      perspectives: perspectives.length,
+      family_stories: familyStories.length,
+      time_capsules: timeCapsules.length,
+      legacy_contacts: legacyContacts.length,
+      memory_audiences: memoryAudiences.length,
+      people: people.length,
+      files: files.length,
+    },
+    sections: {
+      profile: { data: 'data/profile.json', description: 'Your user_profiles record' },
+      memories: { data: 'data/memories.json', html: 'memories/index.html', description: 'Memories with chunks reassembled; id is the memory_group_id, chunkIds the original rows' },
+      memory_insights: { data: 'data/memory_insights.json', description: 'AI-extracted insights per memory chunk' },
+      artifacts: { data: 'data/artifacts.json', description: 'Uploaded files; archive_path points into files/artifacts/' },
+      voice_recordings: { data: 'data/voice_recordings.json', html: 'recordings.html', description: 'Conversation recordings; audio in audio/, transcripts in transcripts/' },
+      biography: { data: 'data/biography.json', html: 'biography.html', description: 'Generated biography and its chapters' },
+      perspectives: { data: 'data/perspectives.json', html: 'perspectives.html', description: 'Perspectives you wrote and perspectives others added to your memories' },
+      family_stories: { data: 'data/family_stories.json', description: 'Perspectives merged into one story per memory, with conflicts and the approved version' },
+      time_capsules: { data: 'data/time_capsules.json', description: 'Time capsules you wrote, sealed and released' },
+      legacy: { data: 'data/legacy.json', description: 'Your check-in plan and legacy contacts' },
+      audiences: { data: 'data/audiences.json', description: 'Your circles and who each memory is shared with (memory_group_id)' },
+      people: { data: 'data/people.json', description: 'People in your memories, their aliases and which memories mention them' },
+    },
+    files,
+    warnings,
+  };
+  await archive.addJson('manifest.json', manifest);
+  await archive.addText('index.html', renderOverview(manifest, profile));
+
+  return { size: await archive.finish(), manifest };
+}
+
+async function runExport(supabase: SupabaseClient, exportId: string, userId: string, email: string | null, requestedBy: string | null = null) {
+  let upload: ResumableUpload | null = null;
+  try {
+    await supabase
+      .from('account_exports')
+      .update({ status: 'processing', started_at: new Date().toISOString() })
+      .eq('id', exportId);
+
+    const storagePath = `${userId}/${exportId}.zip`;
+    upload = await createResumableUpload(EXPORT_BUCKET, storagePath, 'application/zip');
+    const { size, manifest } = await buildArchive(supabase, upload, userId, email, requestedBy);
+
+    await supabase
+      .from('account_exports')
+      .update({
+        status: 'completed',
+        storage_path: storagePath,
+        file_size_bytes: size,
+        counts: manifest.counts,
+        warnings: manifest.warnings,
+        completed_at: new Date().toISOString(),
+        expires_at: new Date(Date.now() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .eq('id', exportId);
+
+    console.log(`📦 Account export ${exportId} completed (${size} bytes, ${manifest.files.length} files)`);
+  } catch (error) {
+    console.error(`❌ Account export ${exportId} failed:`, error);
+    await upload?.abort();
+    await supabase
+      .from('account_exports')
+      .update({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+      .eq('id', exportId);
+  }
+}
+
+/**
+ * A legacy contact may export the owner's data once a claim is approved and the
+ * owner granted them the download permission
+ */
+async function canExportForOwner(supabase: SupabaseClient, ownerId: string, contactId: string): Promise<boolean> {
+  const [{ data: contact }, { count: approvedClaims }] = await Promise.all([
+    supabase
+      .from('legacy_contacts')
+      .select('id')
+      .eq('user_id', ownerId)
+      .eq('contact_user_id', contactId)
+      .eq('can_download_export', true)
+      .maybeSingle(),
+    supabase
+      .from('legacy_claims')
+      .select('id', { count: 'exact', head: true })
+      .eq('owner_user_id', ownerId)
+      .eq('status', 'approved'),
+  ]);
+  return !!contact && (approvedClaims ?? 0) > 0;
+}
+
+/**
+ * Remove archives past their retention window
+ */
+async function cleanupExpiredExports(supabase: SupabaseClient, userId: string) {
+  const { data: expired } = await supabase
+    .from('account_exports')
+    .select('id, storage_path')
+    .eq('user_id', userId)
+    .lt('expires_at', new Date().toISOString())
+    .not('storage_path', 'is', null);
+
+  if (!expired || expired.length === 0) return;
+
+  await supabase.storage.from(EXPORT_BUCKET).remove(expired.map(row => row.storage_path as string));
+  await supabase
+    .from('account_exports')
+    .update({ storage_path: null })
+    .in('id', expired.map(row => row.id as string));
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    const { action = 'status', ownerId }: ExportRequest = await req.json().catch(() => ({}));
+
+    // Exports of someone else's data are only for their legacy contacts
+    const legacyOwnerId = ownerId && ownerId !== user.id ? ownerId : null;
+    if (legacyOwnerId && !(await canExportForOwner(supabase, legacyOwnerId, user.id))) {
+      return jsonResponse({ error: "You don't have permission to export this account" }, 403);
+    }
+    const subjectId = legacyOwnerId ?? user.id;
+    const exportsOfSubject = () => {
+      const query = supabase.from('account_exports').select('*').eq('user_id', subjectId);
+      return legacyOwnerId ? query.eq('requested_by', user.id) : query.is('requested_by', null);
+    };
+
+    if (action === 'start') {
+      // One export at a time per user
+      const { data: running } = await exportsOfSubject()
+        .in('status', ['pending', 'processing'])
+        .maybeSingle();
+      if (running) return jsonResponse({ export: running });
+
+      await cleanupExpiredExports(supabase, subjectId);
+
+      let email = user.email ?? null;
+      if (legacyOwnerId) {
+        const { data: owner } = await supabase.auth.admin.getUserById(legacyOwnerId);
+        email = owner?.user?.email ?? null;
+      }
+
+      const { data: created, error: createError } = await supabase
+        .from('account_exports')
+        .insert({ user_id: subjectId, requested_by: legacyOwnerId ? user.id : null })
+        .select()
+        .single();
+      if (createError) throw createError;
+
+      EdgeRuntime.waitUntil(runExport(supabase, created.id, subjectId, email, legacyOwnerId ? user.id : null));
+      return jsonResponse({ export: created }, 202);
+    }
+
+    const { data: latest, error: latestError } = await exportsOfSubject()
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestError) throw latestError;
+
+    let downloadUrl: string | null = null;
+    if (latest?.status === 'completed' && latest.storage_path) {
+      const { data: signed } = await supabase.storage
+        .from(EXPORT_BUCKET)
+        .createSignedUrl(latest.storage_path, DOWNLOAD_URL_SECONDS, {
+          download: `life-story-export-${latest.created_at.split('T')[0]}.zip`,
+        });
+      downloadUrl = signed?.signedUrl ?? null;
+    }
+
+    return jsonResponse({ export: latest, downloadUrl });
+  } catch (e) {
+    console.error("account-export error:", e);
+    return jsonResponse({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,63 @@
+// Resumable (TUS) upload to Supabase Storage. The archive is sent chunk by
+// chunk while it is written, with its length declared on the last chunk.
+import type { ArchiveSink } from "./archive.ts";
+
+// Supabase Storage takes resumable uploads in 6 MB chunks
+const CHUNK_BYTES = 6 * 1024 * 1024;
+
+export interface ResumableUpload extends ArchiveSink {
+  /** Drops the partial upload after a failure */
+  abort(): Promise<void>;
+}
+
+export async function createResumableUpload(bucket: string, objectName: string, contentType: string): Promise<ResumableUpload> {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+
+  const headers = {
+    Authorization: `Bearer ${serviceKey}`,
+    apikey: serviceKey,
+    'Tus-Resumable': '1.0.0',
+  };
+  const metadata = Object.entries({ bucketName: bucket, objectName, contentType })
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+
+  const created = await fetch(`${url.replace(/\/$/, '')}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: { ...headers, 'Upload-Defer-Length': '1', 'Upload-Metadata': metadata, 'x-upsert': 'true' },
+  });
+  const location = created.headers.get('Location');
+  if (created.status !== 201 || !location) {
+    throw new Error(`Could not start upload of ${bucket}/${objectName}: ${created.status} ${await created.text()}`);
+  }
+  const uploadUrl = new URL(location, url).toString();
+
+  let offset = 0;
+  const patch = async (chunk: Uint8Array, extraHeaders: Record<string, string> = {}) => {
+    const response = await fetch(uploadUrl, {
+      method: 'PATCH',
+      headers: {
+        ...headers,
+        ...extraHeaders,
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': String(offset),
+      },
+      body: chunk,
+    });
+    if (response.status !== 204) {
+      throw new Error(`Upload of ${bucket}/${objectName} failed at byte ${offset}: ${response.status} ${await response.text()}`);
+    }
+    offset += chunk.length;
+  };
+
+  return {
+    chunkSize: CHUNK_BYTES,
+    write: chunk => patch(chunk),
+    close: (last, totalBytes) => patch(last, { 'Upload-Length': String(totalBytes) }),
+    abort: async () => {
+      await fetch(uploadUrl, { method: 'DELETE', headers }).catch(() => undefined);
+    },
+  };
+}
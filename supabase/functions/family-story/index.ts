@@ -0,0 +1,298 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { groupMemoryChunks, type MemoryChunkRow } from "../_shared/memory-grouping.ts";
+
+/**
+ * Family story threads.
+ *
+ * - align: the owner's account of a memory and every perspective on it are
+ *   aligned into attributed passages, with contradictions (dates, places,
+ *   people, details) flagged. Re-aligning keeps resolutions for conflicts that
+ *   come back unchanged and returns the thread to draft.
+ *
+ * Editing, resolving and approving happen in the client under RLS.
+ */
+
+type Row = Record<string, unknown>;
+
+interface FamilyStoryRequest {
+  action?: 'align';
+  memoryGroupId?: string;
+}
+
+interface Account {
+  key: string; // 'owner' or 'p<n>'
+  kind: 'owner' | 'perspective';
+  user_id: string;
+  perspective_id: string | null;
+  name: string;
+  text: string;
+}
+
+interface Passage {
+  text: string;
+  sources: string[];
+}
+
+interface Conflict {
+  id: string;
+  kind: 'date' | 'place' | 'people' | 'detail';
+  summary: string;
+  claims: { source: string; value: string }[];
+  resolution: string | null;
+}
+
+interface Alignment {
+  passages: Passage[];
+  conflicts: Conflict[];
+  merged_text: string;
+}
+
+const CONFLICT_KINDS = ['date', 'place', 'people', 'detail'];
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function getDisplayNames(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, string>> {
+  const ids = [...new Set(userIds.filter(Boolean))];
+  if (ids.length === 0) return new Map();
+
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('user_id, preferred_name, display_name')
+    .in('user_id', ids);
+  return new Map((data || []).map(profile => [
+    profile.user_id as string,
+    (profile.preferred_name || profile.display_name || 'Someone') as string,
+  ]));
+}
+
+// Stable id so a resolution survives re-alignment when the same conflict comes back
+function conflictId(kind: string, claims: { source: string; value: string }[]): string {
+  return `${kind}:${claims.map(claim => `${claim.source}=${claim.value.toLowerCase().trim()}`).sort().join('|')}`;
+}
+
+/**
+ * Without a model, each account becomes its own attributed passage and only
+ * differing years are flagged.
+ */
+function fallbackAlignment(accounts: Account[]): Alignment {
+  const yearsBySource = accounts.map(account => ({
+    source: account.key,
+    years: [...new Set(account.text.match(/\b(1[89]\d{2}|20\d{2})\b/g) || [])],
+  })).filter(entry => entry.years.length > 0);
+
+  const conflicts: Conflict[] = [];
+  const distinct = new Set(yearsBySource.map(entry => entry.years.join(', ')));
+  if (distinct.size > 1) {
+    const claims = yearsBySource.map(entry => ({ source: entry.source, value: entry.years.join(', ') }));
+    conflicts.push({
+      id: conflictId('date', claims),
+      kind: 'date',
+      summary: 'The accounts mention different years',
+      claims,
+      resolution: null,
+    });
+  }
+
+  return {
+    passages: accounts.map(account => ({ text: account.text, sources: [account.key] })),
+    conflicts,
+    merged_text: accounts.map(account => account.text).join('\n\n'),
+  };
+}
+
+async function modelAlignment(accounts: Account[], title: string): Promise<Alignment | null> {
+  const openAIKey = Deno.env.get("OPENAI_API_KEY");
+  if (!openAIKey) return null;
+
+  const accountList = accounts
+    .map(account => `[${account.key}] ${account.name}${account.kind === 'owner' ? ' (memory owner)' : ''}:\n"""\n${account.text}\n"""`)
+    .join('\n\n');
+
+  const prompt = `Several family members wrote down their memory of the same event, "${title}".
+
+${accountList}
+
+1. PASSAGES: Align the accounts into one chronological narrative split into passages. Each passage has "text" (third person, faithful to what was written, no invented facts) and "sources" (the keys of every account that supports it).
+2. CONFLICTS: List every contradiction between accounts. Each has "kind" (date, place, people or detail), a short "summary" and "claims" ([{ "source": key, "value": what that account says }]). Do not flag details only one account mentions.
+3. MERGED_TEXT: One flowing version of the story combining all passages. Where accounts conflict, follow the memory owner's account.
+
+Return ONLY valid JSON with keys: passages, conflicts, merged_text`;
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${openAIKey}`,
+    },
+    body: JSON.stringify({
+      model: "gpt-4o-mini",
+      messages: [
+        { role: "system", content: "You reconcile family memories without inventing facts. Always return valid JSON." },
+        { role: "user", content: prompt },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.2,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Alignment request failed:', response.status, await response.text());
+    return null;
+  }
+
+  const data = await response.json();
+  const parsed = JSON.parse(data.choices[0].message.content);
+  const keys = new Set(accounts.map(account => account.key));
+
+  const passages: Passage[] = (parsed.passages || [])
+    .filter((passage: Row) => typeof passage.text === 'string' && (passage.text as string).trim())
+    .map((passage: Row) => ({
+      text: (passage.text as string).trim(),
+      sources: ((passage.sources as string[]) || []).filter(source => keys.has(source)),
+    }));
+
+  const conflicts: Conflict[] = (parsed.conflicts || [])
+    .map((conflict: Row) => {
+      const claims = ((conflict.claims as Row[]) || [])
+        .filter(claim => keys.has(claim.source as string) && typeof claim.value === 'string')
+        .map(claim => ({ source: claim.source as string, value: claim.value as string }));
+      const kind = CONFLICT_KINDS.includes(conflict.kind as string) ? conflict.kind as Conflict['kind'] : 'detail';
+      return { id: conflictId(kind, claims), kind, summary: String(conflict.summary || ''), claims, resolution: null };
+    })
+    .filter((conflict: Conflict) => conflict.claims.length > 1);
+
+  if (passages.length === 0) return null;
+  return { passages, conflicts, merged_text: String(parsed.merged_text || passages.map(p => p.text).join('\n\n')) };
+}
+
+async function alignThread(supabase: SupabaseClient, userId: string, memoryGroupId: string) {
+  const { data: chunks, error: memoryError } = await supabase
+    .from('memories')
+    .select('*')
+    .eq('user_id', userId)
+    .or(`memory_group_id.eq.${memoryGroupId},id.eq.${memoryGroupId}`);
+  if (memoryError) throw memoryError;
+
+  const memory = groupMemoryChunks((chunks || []) as MemoryChunkRow[])[0];
+  if (!memory) return null;
+
+  const { data: perspectives, error: perspectiveError } = await supabase
+    .from('memory_perspectives')
+    .select('*')
+    .in('memory_id', memory.chunkIds)
+    .order('created_at');
+  if (perspectiveError) throw perspectiveError;
+
+  const names = await getDisplayNames(supabase, [userId, ...(perspectives || []).map(p => p.user_id as string)]);
+  const ownerDetails = [
+    memory.memory_date && `Date: ${memory.memory_date}`,
+    memory.memory_location && `Place: ${memory.memory_location}`,
+  ].filter(Boolean).join('\n');
+
+  const accounts: Account[] = [
+    {
+      key: 'owner',
+      kind: 'owner',
+      user_id: userId,
+      perspective_id: null,
+      name: names.get(userId) || 'Owner',
+      text: ownerDetails ? `${ownerDetails}\n\n${memory.text}` : memory.text,
+    },
+    ...(perspectives || []).map((perspective, index) => ({
+      key: `p${index + 1}`,
+      kind: 'perspective' as const,
+      user_id: perspective.user_id as string,
+      perspective_id: perspective.id as string,
+      name: names.get(perspective.user_id as string) || 'Someone',
+      text: [perspective.perspective_title, perspective.perspective_text].filter(Boolean).join('\n\n'),
+    })),
+  ];
+
+  let alignment: Alignment | null = null;
+  if (accounts.length > 1) {
+    try {
+      alignment = await modelAlignment(accounts, memory.title);
+    } catch (error) {
+      console.error('Alignment failed, using fallback:', error);
+    }
+  }
+  alignment = alignment ?? fallbackAlignment(accounts);
+
+  // Keep the owner's earlier resolutions for conflicts that are still there
+  const { data: existing } = await supabase
+    .from('family_story_threads')
+    .select('conflicts')
+    .eq('user_id', userId)
+    .eq('memory_group_id', memoryGroupId)
+    .maybeSingle();
+  const resolutions = new Map(
+    ((existing?.conflicts as Conflict[] | undefined) || []).map(conflict => [conflict.id, conflict.resolution])
+  );
+
+  const { data: thread, error: upsertError } = await supabase
+    .from('family_story_threads')
+    .upsert({
+      user_id: userId,
+      memory_group_id: memoryGroupId,
+      status: 'draft',
+      accounts: accounts.map(({ text: _text, ...account }) => account),
+      passages: alignment.passages,
+      conflicts: alignment.conflicts.map(conflict => ({ ...conflict, resolution: resolutions.get(conflict.id) ?? null })),
+      merged_text: alignment.merged_text,
+      perspective_ids: (perspectives || []).map(p => p.id as string),
+      aligned_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,memory_group_id' })
+    .select()
+    .single();
+  if (upsertError) throw upsertError;
+
+  return thread;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    const { action = 'align', memoryGroupId }: FamilyStoryRequest = await req.json().catch(() => ({}));
+
+    if (action === 'align') {
+      if (!memoryGroupId) return jsonResponse({ error: "memoryGroupId is required" }, 400);
+
+      // Only the owner's memories are looked up, so nobody can align someone else's story
+      const thread = await alignThread(supabase, user.id, memoryGroupId);
+      if (!thread) return jsonResponse({ error: "Memory not found" }, 404);
+      return jsonResponse({ thread });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error('family-story error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
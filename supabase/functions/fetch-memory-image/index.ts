@@ -101,7 +101,9 @@ serve(async (req) => {
     const { error: updateError } = await supabase
       .from('memories')
       .update({ 
-        image_urls: [uploadData.path]
+        image_urls: [uploadData.path],
+        revision_author: 'system',
+        revision_reason: 'Attached fetched image'
       })
       .eq('id', memoryId);
 
@@ -1,10 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  createImageProvider,
+  encodeBase64,
+  loadImageGenerationConfig,
+  resolveImageProvider,
+} from "../_shared/image-providers.ts";
+import { buildIdentityPreviewPrompt, IDENTITY_PREVIEW_NEGATIVE_PROMPT } from "../_shared/prompt-templates.ts";
+import { IdentityConsentError, requireIdentityConsent } from "../_shared/identity-consent.ts";
+
+// Previews need the identity's trained model, which lives on Hugging Face;
+// a request may still ask for another enabled provider (e.g. placeholder in tests)
+const PREVIEW_SIZE = 1024;
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -27,8 +35,8 @@ serve(async (req) => {
       throw new Error('Not authenticated');
     }
 
-    const { identityId, view } = await req.json();
-    
+    const { identityId, view, provider: requestedProvider } = await req.json();
+
     if (!identityId) {
       throw new Error('identityId is required');
     }
@@ -53,59 +61,35 @@ serve(async (req) => {
       throw new Error('No HuggingFace model ID found');
     }
 
-    // Construct the prompt based on view
-    const viewPrompts = {
-      front: "A professional portrait photo, facing forward, neutral expression, studio lighting, plain background",
-      right_profile: "A professional portrait photo, right side profile view, neutral expression, studio lighting, plain background",
-      left_profile: "A professional portrait photo, left side profile view, neutral expression, studio lighting, plain background",
-      smile: "A professional portrait photo, facing forward, warm smile, studio lighting, plain background",
-    };
+    // Consent and provider settings are read with the service role
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+    await requireIdentityConsent(supabaseAdmin, user.id, [identityId], 'preview', { view });
 
-    const prompt = `${viewPrompts[view as keyof typeof viewPrompts] || viewPrompts.front}. Photorealistic, high quality, professional photography.`;
+    const prompt = buildIdentityPreviewPrompt(view);
+    const config = await loadImageGenerationConfig(supabaseAdmin);
+    const provider = requestedProvider
+      ? resolveImageProvider(config, requestedProvider)
+      : createImageProvider('huggingface', config);
 
-    console.log('Generating image with HF model:', identity.hf_model_id);
+    console.log(`Generating preview with ${provider.id}, model:`, identity.hf_model_id);
     console.log('Prompt:', prompt);
 
-    // Call HuggingFace Inference API
-    const HF_TOKEN = Deno.env.get('HUGGINGFACE_TOKEN');
-    if (!HF_TOKEN) {
-      throw new Error('HuggingFace token not configured');
-    }
-
-    const hfResponse = await fetch(
-      `https://api-inference.huggingface.co/models/${identity.hf_model_id}`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${HF_TOKEN}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: prompt,
-          parameters: {
-            negative_prompt: "blurry, low quality, distorted, cartoon, illustration, painting",
-            num_inference_steps: 30,
-            guidance_scale: 7.5,
-          }
-        }),
-      }
-    );
-
-    if (!hfResponse.ok) {
-      const errorText = await hfResponse.text();
-      console.error('HuggingFace API error:', errorText);
-      throw new Error(`HuggingFace API error: ${errorText}`);
-    }
-
-    // Get the image blob
-    const imageBlob = await hfResponse.blob();
-    const arrayBuffer = await imageBlob.arrayBuffer();
-    const base64 = btoa(String.fromCharCode(...new Uint8Array(arrayBuffer)));
+    const image = await provider.generate({
+      prompt,
+      negative_prompt: IDENTITY_PREVIEW_NEGATIVE_PROMPT,
+      width: PREVIEW_SIZE,
+      height: PREVIEW_SIZE,
+      model: provider.id === 'huggingface' ? identity.hf_model_id : null,
+    });
 
     return new Response(
-      JSON.stringify({ 
-        image: `data:image/png;base64,${base64}`,
+      JSON.stringify({
+        image: `data:${image.mime_type};base64,${encodeBase64(image.bytes)}`,
         view,
+        provider: image.provider,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -113,8 +97,11 @@ serve(async (req) => {
   } catch (error) {
     console.error('Error generating preview:', error);
     return new Response(
-      JSON.stringify({ error: error.message }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to generate preview' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof IdentityConsentError ? 403 : 500,
+      }
     );
   }
 });
@@ -1,10 +1,148 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  encodeBase64,
+  fileExtensionFor,
+  type ImageProviderId,
+  loadImageGenerationConfig,
+  resolveImageProvider,
+} from "../_shared/image-providers.ts";
+import { buildReconstructionPrompt, NEGATIVE_PROMPTS } from "../_shared/prompt-templates.ts";
+import { IdentityConsentError, requireIdentityConsent } from "../_shared/identity-consent.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+/**
+ * Memory reconstruction.
+ *
+ * Generates a sketch or photoreal image of a described memory and stores it
+ * in the user's reconstruction gallery: the image goes to memory-images under
+ * {userId}/reconstructions/ and an artifacts row (source 'reconstruction')
+ * keeps the prompt and settings. With parentArtifactId the parent's settings
+ * are re-run with refinePrompt added and the new image records what it was
+ * derived from. With memoryId the image is attached to that memory.
+ *
+ * The image provider is the request's provider if it is enabled in
+ * image_generation_config, then the parent's provider for a refinement,
+ * otherwise the configured default.
+ *
+ * Trained identities are only used while their likeness consent is active; a
+ * refinement re-checks the identities it inherits.
+ */
+
+const MEMORY_IMAGES_BUCKET = 'memory-images';
+const IMAGE_SIZE = 1024;
+
+interface CameraSettings {
+  lens_mm?: number;
+  style?: string;
+}
+
+interface SketchRequest {
+  mode?: 'sketch' | 'photoreal';
+  memoryPrompt?: string;
+  style?: string;
+  camera?: CameraSettings;
+  identities?: string[];
+  seed?: number;
+  negative_prompt?: string;
+  face_lock?: boolean;
+  parentArtifactId?: string;
+  refinePrompt?: string;
+  memoryId?: string;
+  provider?: string;
+}
+
+interface ReconstructionSettings {
+  memory_prompt: string;
+  refine_prompt: string | null;
+  mode: 'sketch' | 'photoreal';
+  style: string | null;
+  lens_mm: number | null;
+  camera_style: string | null;
+  identity_ids: string[];
+  seed: number | null;
+  negative_prompt: string | null;
+  face_lock: boolean;
+}
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function scenePrompt(settings: ReconstructionSettings): string {
+  return settings.refine_prompt
+    ? `${settings.memory_prompt} Refinement: ${settings.refine_prompt}`
+    : settings.memory_prompt;
+}
+
+/** Settings for a new image, or the parent's settings with the refinement on top */
+async function resolveSettings(supabase: SupabaseClient, userId: string, request: SketchRequest) {
+  if (!request.parentArtifactId) {
+    if (!request.memoryPrompt?.trim()) throw new Error('memoryPrompt is required');
+    const settings: ReconstructionSettings = {
+      memory_prompt: request.memoryPrompt.trim(),
+      refine_prompt: null,
+      mode: request.mode === 'photoreal' ? 'photoreal' : 'sketch',
+      style: request.mode === 'photoreal' ? null : request.style || 'pencil_sketch',
+      lens_mm: request.mode === 'photoreal' ? request.camera?.lens_mm ?? 35 : null,
+      camera_style: request.mode === 'photoreal' ? request.camera?.style ?? 'documentary' : null,
+      identity_ids: request.mode === 'photoreal' ? request.identities || [] : [],
+      seed: request.seed ?? null,
+      negative_prompt: request.negative_prompt ?? null,
+      face_lock: !!request.face_lock,
+    };
+    return { settings, parent: null };
+  }
+
+  if (!request.refinePrompt?.trim()) throw new Error('refinePrompt is required to refine a reconstruction');
+
+  const { data: parent, error } = await supabase
+    .from('artifacts')
+    .select('id, metadata')
+    .eq('id', request.parentArtifactId)
+    .eq('user_id', userId)
+    .eq('source', 'reconstruction')
+    .maybeSingle();
+  if (error) throw error;
+  if (!parent) throw new Error('Reconstruction not found');
+
+  const parentSettings = parent.metadata as ReconstructionSettings;
+  const settings: ReconstructionSettings = {
+    ...parentSettings,
+    // Refinements accumulate down the lineage
+    memory_prompt: scenePrompt(parentSettings),
+    refine_prompt: request.refinePrompt.trim(),
+    seed: request.seed ?? null,
+  };
+  return { settings, parent };
+}
+
+async function attachToMemory(supabase: SupabaseClient, userId: string, memoryId: string, artifactId: string) {
+  const { data: memory, error: memoryError } = await supabase
+    .from('memories')
+    .select('id')
+    .eq('id', memoryId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (memoryError) throw memoryError;
+  if (!memory) throw new Error('Memory not found');
+
+  const { error } = await supabase
+    .from('memory_artifacts')
+    .insert({ memory_id: memoryId, artifact_id: artifactId });
+  if (error) throw error;
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -12,83 +150,79 @@ serve(async (req) => {
   }
 
   try {
-    const { mode, memoryPrompt, style, camera, identities } = await req.json();
-    console.log('Generating image:', { mode, memoryPrompt, style, camera, identities });
-
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIApiKey) {
-      throw new Error('OpenAI API key not configured');
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
     }
 
-    let fullPrompt: string;
-
-    if (mode === 'photoreal') {
-      // Build photoreal prompt
-      const lensDescription = camera?.lens_mm === 35 ? 'wide angle 35mm' : 
-                             camera?.lens_mm === 50 ? 'standard 50mm' : 
-                             'portrait 85mm';
-      
-      const styleDescription = camera?.style === 'documentary' ? 'natural documentary style' :
-                              camera?.style === 'cinematic' ? 'cinematic film look' :
-                              'professional portrait style';
-      
-      fullPrompt = `Ultra-realistic photorealistic photograph, ${lensDescription} lens, ${styleDescription}, natural lighting, high detail, 4K quality, professional photography. Scene: ${memoryPrompt}. Photographic, hyper-realistic, detailed textures, natural colors, authentic moment captured on film.`;
-    } else {
-      // Build sketch/artistic prompt
-      const stylePrompts: Record<string, string> = {
-        pencil_sketch: 'Create a detailed pencil sketch on textured paper with soft graphite shading.',
-        charcoal: 'Create a dramatic charcoal drawing with bold strokes and deep contrast on rough paper.',
-        soft_sepia: 'Create a warm sepia-toned vintage photograph with soft nostalgic lighting.',
-        dreamlike_ink: 'Create a dreamlike ink wash painting with flowing brushstrokes and ethereal quality.'
-      };
-
-      fullPrompt = `${stylePrompts[style] || stylePrompts.pencil_sketch} Memory scene: ${memoryPrompt}. Style: artistic, emotional, nostalgic, 4:3 aspect ratio.`;
+    const supabase = getSupabaseAdmin();
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
     }
 
+    const request: SketchRequest = await req.json();
+    const { settings, parent } = await resolveSettings(supabase, user.id, request);
+    console.log('Generating image:', settings);
+    await requireIdentityConsent(supabase, user.id, settings.identity_ids, 'reconstruction', {
+      parent_artifact_id: parent?.id ?? null,
+    });
+
+    const fullPrompt = buildReconstructionPrompt({ ...settings, scene: scenePrompt(settings) });
     console.log('Full prompt:', fullPrompt);
 
-    // Call OpenAI image generation API
-    // Note: gpt-image-1 always returns base64, doesn't support response_format parameter
-    const response = await fetch('https://api.openai.com/v1/images/generations', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-image-1',
-        prompt: fullPrompt,
-        n: 1,
-        size: '1024x1024',
-        quality: 'high'
-      }),
+    const config = await loadImageGenerationConfig(supabase);
+    const parentProvider = (parent?.metadata as { provider?: ImageProviderId } | undefined)?.provider;
+    const provider = resolveImageProvider(
+      config,
+      request.provider || (parentProvider && config.enabled_providers.includes(parentProvider) ? parentProvider : null),
+    );
+    const image = await provider.generate({
+      prompt: fullPrompt,
+      negative_prompt: settings.negative_prompt || NEGATIVE_PROMPTS[settings.mode],
+      width: IMAGE_SIZE,
+      height: IMAGE_SIZE,
+      seed: settings.seed,
     });
+    console.log(`Generated image with ${image.provider} (${image.model}):`, image.bytes.length, 'bytes');
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenAI API error:', errorData);
-      throw new Error(`OpenAI API error: ${response.status} - ${errorData}`);
-    }
+    const artifactId = crypto.randomUUID();
+    const extension = fileExtensionFor(image.mime_type);
+    const storagePath = `${user.id}/reconstructions/${artifactId}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(MEMORY_IMAGES_BUCKET)
+      .upload(storagePath, image.bytes, { contentType: image.mime_type });
+    if (uploadError) throw uploadError;
 
-    const data = await response.json();
-    // gpt-image-1 returns base64 encoded images
-    const base64Image = data.data[0].b64_json;
-    const imageUrl = `data:image/png;base64,${base64Image}`;
+    const { data: artifact, error: artifactError } = await supabase
+      .from('artifacts')
+      .insert({
+        id: artifactId,
+        user_id: user.id,
+        source: 'reconstruction',
+        artifact_type: 'image',
+        storage_path: storagePath,
+        file_name: `reconstruction-${artifactId}.${extension}`,
+        file_size: image.bytes.length,
+        mime_type: image.mime_type,
+        derived_from_artifact_id: parent?.id ?? null,
+        metadata: { ...settings, full_prompt: fullPrompt, provider: image.provider, model: image.model },
+      })
+      .select()
+      .single();
+    if (artifactError) throw artifactError;
 
-    console.log('Generated image (base64 length):', base64Image.length);
+    if (request.memoryId) {
+      await attachToMemory(supabase, user.id, request.memoryId, artifactId);
+    }
 
-    return new Response(
-      JSON.stringify({ imageUrl }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ imageUrl: `data:${image.mime_type};base64,${encodeBase64(image.bytes)}`, artifact });
   } catch (error) {
     console.error('Error generating memory sketch:', error);
-    return new Response(
-      JSON.stringify({ error: error.message || 'Failed to generate memory sketch' }),
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Failed to generate memory sketch' },
+      error instanceof IdentityConsentError ? 403 : 500,
     );
   }
 });
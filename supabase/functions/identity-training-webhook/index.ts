@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { timingSafeEqual } from "../_shared/webhook-signature.ts";
+import {
+  applyRemoteStatus,
+  type RemoteTrainingStatus,
+  type TrainingJob,
+} from "../_shared/identity-training.ts";
+
+/**
+ * Status callbacks from the identity trainer. The trainer posts
+ * { id, status, error?, model_id? } for a job it was given by train-identity
+ * and authenticates with the shared IDENTITY_TRAINER_WEBHOOK_SECRET in the
+ * x-webhook-secret header. Unknown or already finished jobs are acknowledged
+ * and ignored so the trainer doesn't keep retrying them.
+ */
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const secret = Deno.env.get('IDENTITY_TRAINER_WEBHOOK_SECRET');
+    if (!secret || !timingSafeEqual(req.headers.get('x-webhook-secret') || '', secret)) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const payload = await req.json() as RemoteTrainingStatus & { id?: string };
+    if (!payload.id || !payload.status) {
+      return jsonResponse({ error: 'id and status are required' }, 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: job, error } = await supabase
+      .from('identity_training_jobs')
+      .select('*')
+      .eq('remote_job_id', payload.id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!job) {
+      console.warn('Webhook for unknown training job:', payload.id);
+      return jsonResponse({ received: true });
+    }
+
+    const updated = await applyRemoteStatus(supabase, job as TrainingJob, payload);
+    console.log(`Training job ${updated.id} is ${updated.status}`);
+    return jsonResponse({ received: true, status: updated.status });
+  } catch (error) {
+    console.error('Training webhook failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Training webhook failed' }, 500);
+  }
+});
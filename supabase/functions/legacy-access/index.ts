@@ -0,0 +1,201 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { sendWhatsAppText } from "../_shared/whatsapp-send.ts";
+
+/**
+ * Legacy plan processing (hourly cron, service role only):
+ * - remind owners whose check-in interval has passed
+ * - raise an 'unresponsive' claim when interval + grace period has passed
+ * - tell legacy contacts about claims and admin decisions
+ */
+
+type Row = Record<string, unknown>;
+
+const PLAN_BATCH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const APP_NAME = '1000years.ai';
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function getVerifiedPhone(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('user_phone_numbers')
+    .select('phone_number')
+    .eq('user_id', userId)
+    .eq('verified', true)
+    .order('is_primary', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data?.phone_number ?? null;
+}
+
+async function getDisplayName(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('preferred_name, display_name')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data?.preferred_name || data?.display_name || 'Someone';
+}
+
+async function notifyUser(supabase: SupabaseClient, userId: string, message: string): Promise<boolean> {
+  const phone = await getVerifiedPhone(supabase, userId);
+  if (!phone) return false;
+  return (await sendWhatsAppText(phone, message)).success;
+}
+
+async function notifyLegacyContacts(supabase: SupabaseClient, ownerId: string, message: (ownerName: string) => string) {
+  const { data: contacts } = await supabase
+    .from('legacy_contacts')
+    .select('contact_user_id')
+    .eq('user_id', ownerId);
+  const ownerName = await getDisplayName(supabase, ownerId);
+
+  for (const contact of contacts || []) {
+    await notifyUser(supabase, contact.contact_user_id as string, message(ownerName));
+  }
+}
+
+/**
+ * Reminders and switch claims for every plan with the switch enabled
+ */
+async function processPlans(supabase: SupabaseClient) {
+  let reminded = 0;
+  let triggered = 0;
+  const now = Date.now();
+
+  for (let offset = 0; ; offset += PLAN_BATCH) {
+    const { data: plans, error } = await supabase
+      .from('legacy_plans')
+      .select('*')
+      .not('check_in_interval_days', 'is', null)
+      .is('switch_triggered_at', null)
+      .order('user_id')
+      .range(offset, offset + PLAN_BATCH - 1);
+    if (error) throw error;
+    if (!plans || plans.length === 0) break;
+
+    for (const plan of plans as Row[]) {
+      const userId = plan.user_id as string;
+      const lastCheckIn = new Date(plan.last_check_in_at as string).getTime();
+      const dueAt = lastCheckIn + (plan.check_in_interval_days as number) * DAY_MS;
+      const triggerAt = dueAt + (plan.grace_period_days as number) * DAY_MS;
+
+      if (now >= triggerAt) {
+        // Don't stack a switch claim on top of one a contact already filed
+        const { count: openClaims } = await supabase
+          .from('legacy_claims')
+          .select('id', { count: 'exact', head: true })
+          .eq('owner_user_id', userId)
+          .in('status', ['pending', 'approved']);
+
+        if (!openClaims) {
+          const { error: claimError } = await supabase.from('legacy_claims').insert({
+            owner_user_id: userId,
+            source: 'check_in_switch',
+            claim_type: 'unresponsive',
+            statement: `No check-in for ${plan.check_in_interval_days} days plus a ${plan.grace_period_days}-day grace period.`,
+          });
+          if (claimError) {
+            console.error(`❌ Failed to raise switch claim for ${userId}:`, claimError);
+            continue;
+          }
+          await notifyLegacyContacts(supabase, userId, ownerName =>
+            `${ownerName} named you as a legacy contact on ${APP_NAME} and hasn't checked in for a while. Our team is reviewing the situation; you'll hear from us once it's decided.`
+          );
+        }
+
+        await supabase
+          .from('legacy_plans')
+          .update({ switch_triggered_at: new Date().toISOString() })
+          .eq('user_id', userId);
+        triggered++;
+      } else if (now >= dueAt && !plan.reminder_sent_at) {
+        const graceDays = Math.ceil((triggerAt - now) / DAY_MS);
+        await notifyUser(
+          supabase,
+          userId,
+          `Hi from ${APP_NAME}! It's time for your check-in. Please open the app within ${graceDays} day${graceDays === 1 ? '' : 's'} so we know you're well. If we don't hear from you, your legacy contacts will be asked to step in.`,
+        );
+        await supabase
+          .from('legacy_plans')
+          .update({ reminder_sent_at: new Date().toISOString() })
+          .eq('user_id', userId);
+        reminded++;
+      }
+    }
+
+    if (plans.length < PLAN_BATCH) break;
+  }
+
+  return { reminded, triggered };
+}
+
+/**
+ * Tell legacy contacts about reviewed claims
+ */
+async function processDecisions(supabase: SupabaseClient) {
+  const { data: claims, error } = await supabase
+    .from('legacy_claims')
+    .select('*')
+    .in('status', ['approved', 'rejected'])
+    .is('contacts_notified_at', null)
+    .limit(PLAN_BATCH);
+  if (error) throw error;
+
+  for (const claim of (claims || []) as Row[]) {
+    const approved = claim.status === 'approved';
+    await notifyLegacyContacts(supabase, claim.owner_user_id as string, ownerName =>
+      approved
+        ? `The legacy request for ${ownerName} on ${APP_NAME} has been approved. You can now open their story under Legacy, with the access they chose for you.`
+        : `The legacy request for ${ownerName} on ${APP_NAME} was not approved. Please contact us if you have more information.`
+    );
+    await supabase
+      .from('legacy_claims')
+      .update({ contacts_notified_at: new Date().toISOString() })
+      .eq('id', claim.id as string);
+  }
+
+  return (claims || []).length;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+    if (authHeader.replace('Bearer ', '') !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      return jsonResponse({ error: "Forbidden" }, 403);
+    }
+
+    const { action = 'process' } = await req.json().catch(() => ({}));
+    if (action !== 'process') {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const plans = await processPlans(supabase);
+    const decisionsNotified = await processDecisions(supabase);
+
+    return jsonResponse({ ...plans, decisionsNotified });
+  } catch (e) {
+    console.error("legacy-access error:", e);
+    return jsonResponse({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
@@ -10,6 +10,7 @@ const corsHeaders = {
 interface MemoryRequest {
   action: 'save' | 'fetch' | 'logView';
   memory?: {
+    id?: string; // Client-generated by offline capture so a replayed save is idempotent
     title: string;
     text: string;
     tags?: string[];
@@ -81,16 +82,30 @@ serve(async (req) => {
         const { data: savedMemory, error: saveError } = await supabase
           .from('memories')
           .insert({
+            ...(memory.id && { id: memory.id }),
             title: memory.title,
             text: memory.text,
             tags: memory.tags || [],
             recipient: memory.recipient || 'private',
             user_id: userId,
-            memory_date: extractedDate
+            memory_date: extractedDate,
+            revision_author: 'user',
           })
           .select()
           .single();
 
+        if (saveError?.code === '23505' && memory.id) {
+          // Saved by an earlier attempt whose response never arrived
+          const { data: existing, error: existingError } = await supabase
+            .from('memories')
+            .select()
+            .eq('id', memory.id)
+            .eq('user_id', userId)
+            .single();
+          if (existingError) throw existingError;
+          result = { memory: existing };
+          break;
+        }
         if (saveError) throw saveError;
         console.log('✅ Memory saved with extracted date:', { title: memory.title, extractedDate });
         result = { memory: savedMemory };
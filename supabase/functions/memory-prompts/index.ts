@@ -0,0 +1,224 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getChannelAdapter } from "../_shared/channels.ts";
+import { generateMemoryPrompt } from "../_shared/memory-prompts.ts";
+import { quietHoursEnd, type QuietHours } from "../_shared/quiet-hours.ts";
+import type { OutboundMessage } from "../_shared/channel-types.ts";
+
+/**
+ * Weekly memory prompts: Solin sends each user who turned them on one
+ * personalised question (memory_prompt_settings).
+ *
+ * - run (cron every 15 minutes, service role): send every due prompt on
+ *   WhatsApp (verified phone number) or email (linked address). Prompts due
+ *   in the user's quiet hours wait until the quiet hours end.
+ * - preview: the kind of question the caller would get next, not sent
+ *
+ * Replies arrive through whatsapp-webhook / messaging-webhook, which tie them
+ * back to the prompt (solin-messaging.ts). Outside Meta's 24-hour window
+ * WhatsApp only delivers templates: set WHATSAPP_PROMPT_TEMPLATE to an
+ * approved template whose body has one parameter, the question
+ * (WHATSAPP_PROMPT_TEMPLATE_LANGUAGE, default "en").
+ */
+
+type Row = Record<string, unknown>;
+
+interface MemoryPromptRequest {
+  action?: 'run' | 'preview';
+}
+
+const RUN_BATCH = 50;
+const EMAIL_SUBJECT = 'A question from Solin';
+const OPT_OUT_HINT = 'Reply STOP if you\'d rather not get these questions.';
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Where the prompt goes: the primary verified phone number or latest linked email address */
+async function findAddress(supabase: SupabaseClient, userId: string, channel: string): Promise<string | null> {
+  if (channel === 'email') {
+    const { data } = await supabase
+      .from('channel_identities')
+      .select('address')
+      .eq('user_id', userId)
+      .eq('channel', 'email')
+      .order('last_message_at', { ascending: false, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+    return data?.address || null;
+  }
+
+  const { data } = await supabase
+    .from('user_phone_numbers')
+    .select('phone_number')
+    .eq('user_id', userId)
+    .eq('verified', true)
+    .order('is_primary', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data?.phone_number ? (data.phone_number as string).replace(/[^\d+]/g, '') : null;
+}
+
+/** Generate, send and record one user's prompt */
+async function sendPrompt(supabase: SupabaseClient, settings: Row): Promise<'sent' | 'failed' | 'no_address'> {
+  const userId = settings.user_id as string;
+  const channel = settings.channel as 'whatsapp' | 'email';
+
+  const address = await findAddress(supabase, userId, channel);
+  if (!address) {
+    console.warn(`⚠️ No ${channel} address for ${userId}; skipping this week's prompt`);
+    return 'no_address';
+  }
+
+  const prompt = await generateMemoryPrompt(supabase, userId);
+  const adapter = getChannelAdapter(channel);
+  const templateName = Deno.env.get('WHATSAPP_PROMPT_TEMPLATE');
+
+  const outbound: OutboundMessage = {
+    to: address,
+    text: `${prompt.question}\n\n${OPT_OUT_HINT}`,
+    subject: EMAIL_SUBJECT,
+  };
+  if (channel === 'whatsapp' && templateName) {
+    outbound.template = {
+      name: templateName,
+      language: Deno.env.get('WHATSAPP_PROMPT_TEMPLATE_LANGUAGE') || 'en',
+      parameters: [prompt.question],
+    };
+  }
+
+  const result = await adapter.sendMessage(outbound);
+
+  const { error: promptError } = await supabase.from('memory_prompts').insert({
+    user_id: userId,
+    channel,
+    address,
+    question: prompt.question,
+    seed_memory_id: prompt.seedMemoryId,
+    topic: prompt.topic,
+    status: result.success ? 'sent' : 'failed',
+    provider_message_id: result.messageId || null,
+    error: result.error || null,
+  });
+  if (promptError) throw promptError;
+
+  if (!result.success) return 'failed';
+
+  // The question opens the conversation the reply continues
+  const { data: sessionId, error: sessionError } = await supabase.rpc('get_or_create_whatsapp_session', {
+    p_user_id: userId,
+    p_phone_number: address,
+    p_conversation_mode: 'chat',
+  });
+  if (sessionError) throw sessionError;
+
+  await supabase
+    .from('whatsapp_sessions')
+    .update({ channel })
+    .eq('session_id', sessionId)
+    .neq('channel', channel);
+
+  await supabase.from('whatsapp_messages').insert({
+    user_id: userId,
+    phone_number: address,
+    channel,
+    direction: 'outbound',
+    message_text: prompt.question,
+    provider: adapter.provider,
+    provider_message_id: result.messageId,
+    session_id: sessionId,
+    status: 'delivered',
+  });
+
+  return 'sent';
+}
+
+async function runDuePrompts(supabase: SupabaseClient) {
+  // Claimed rows already have next week's next_send_at
+  const { data: due, error } = await supabase.rpc('claim_memory_prompts_due', { p_limit: RUN_BATCH });
+  if (error) throw error;
+
+  const now = new Date();
+  const counts = { sent: 0, failed: 0, no_address: 0, postponed: 0 };
+
+  for (const settings of (due || []) as Row[]) {
+    try {
+      const quietUntil = quietHoursEnd(settings as unknown as QuietHours, now);
+      if (quietUntil) {
+        await supabase
+          .from('memory_prompt_settings')
+          .update({ next_send_at: quietUntil.toISOString() })
+          .eq('id', settings.id);
+        counts.postponed++;
+        continue;
+      }
+
+      const outcome = await sendPrompt(supabase, settings);
+      counts[outcome]++;
+
+      if (outcome === 'sent') {
+        await supabase
+          .from('memory_prompt_settings')
+          .update({ last_sent_at: now.toISOString() })
+          .eq('id', settings.id);
+      }
+    } catch (error) {
+      console.error(`❌ Memory prompt failed for ${settings.user_id}:`, error);
+      counts.failed++;
+    }
+  }
+
+  return counts;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const token = authHeader.replace('Bearer ', '');
+    const { action = 'run' }: MemoryPromptRequest = await req.json().catch(() => ({}));
+
+    // Scheduled run: only the service role may message everyone
+    if (action === 'run') {
+      if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+      const counts = await runDuePrompts(supabase);
+      console.log(`✅ Memory prompts run: ${counts.sent} sent, ${counts.failed} failed, ${counts.postponed} postponed`);
+      return jsonResponse(counts);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    if (action === 'preview') {
+      const prompt = await generateMemoryPrompt(supabase, user.id);
+      return jsonResponse({ question: prompt.question });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error('❌ Error in memory-prompts function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Memory prompts failed' }, 500);
+  }
+});
@@ -0,0 +1,72 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { searchMemories, indexMemoryEmbeddings, type MemorySearchOptions } from "../_shared/memory-search.ts";
+import { getEmbeddingProvider } from "../_shared/embeddings.ts";
+
+type MemorySearchRequest = MemorySearchOptions & {
+  action?: 'search' | 'reindex';
+};
+
+// Memories embedded inline before a search so fresh saves are findable
+const INLINE_INDEX_BATCH = 20;
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    const { action = 'search', ...options }: MemorySearchRequest = await req.json();
+    const provider = getEmbeddingProvider();
+
+    if (action === 'reindex') {
+      let indexed = 0;
+      let batch = 0;
+      // Bounded so a huge backlog can't exhaust the function's time budget
+      for (let i = 0; i < 10; i++) {
+        batch = await indexMemoryEmbeddings(supabase, user.id, 50, provider);
+        indexed += batch;
+        if (batch < 50) break;
+      }
+      return jsonResponse({ indexed, complete: batch < 50, provider: provider.name, model: provider.model });
+    }
+
+    try {
+      await indexMemoryEmbeddings(supabase, user.id, INLINE_INDEX_BATCH, provider);
+    } catch (indexError) {
+      console.error('⚠️ Inline embedding index failed:', indexError);
+    }
+
+    const results = await searchMemories(supabase, user.id, options, provider);
+    console.log(`🔍 memory-search: ${results.length} result(s) for "${options.query || ''}"`);
+
+    return jsonResponse({ results, provider: provider.name });
+  } catch (e) {
+    console.error("memory-search error:", e);
+    return jsonResponse({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
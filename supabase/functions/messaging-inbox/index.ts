@@ -0,0 +1,82 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { processDueWebhookEvents, replayWebhookEvent } from "../_shared/solin-messaging.ts";
+
+/**
+ * Messaging webhook inbox (messaging_webhook_events). whatsapp-webhook and
+ * messaging-webhook store every verified delivery and answer it in the
+ * background; this function picks up what that left behind.
+ *
+ * - process (cron every minute, service role): retry failed events whose
+ *   backoff has passed and events stuck in processing
+ * - replay (admins): process one event again now, e.g. after fixing the
+ *   cause of its last error
+ */
+
+interface MessagingInboxRequest {
+  action?: 'process' | 'replay';
+  eventId?: string;
+}
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const token = authHeader.replace('Bearer ', '');
+    const { action = 'process', eventId }: MessagingInboxRequest = await req.json().catch(() => ({}));
+
+    if (action === 'process') {
+      if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+      const counts = await processDueWebhookEvents(supabase);
+      if (counts.processed || counts.failed) {
+        console.log(`✅ Messaging inbox: ${counts.processed} processed, ${counts.failed} failed`);
+      }
+      return jsonResponse(counts);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+    if (!isAdmin) {
+      return jsonResponse({ error: "Forbidden" }, 403);
+    }
+
+    if (action === 'replay') {
+      if (!eventId) return jsonResponse({ error: "eventId is required" }, 400);
+      console.log(`🔁 ${user.id} replaying webhook event ${eventId}`);
+      const processed = await replayWebhookEvent(supabase, eventId);
+      return jsonResponse({ processed });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error('❌ Error in messaging-inbox function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Messaging inbox failed' }, 500);
+  }
+});
@@ -0,0 +1,28 @@
+// Messaging webhook Edge Function: one route per channel, each verified the
+// way its provider expects.
+//   /messaging-webhook/whatsapp[?provider=meta|twilio]  Meta hub.challenge on GET
+//   /messaging-webhook/sms                              Twilio SMS/MMS
+//   /messaging-webhook/telegram                         X-Telegram-Bot-Api-Secret-Token
+//   /messaging-webhook/email?token=…                    Postmark inbound, EMAIL_INBOUND_TOKEN
+// The conversation itself is in _shared/solin-messaging.ts.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, handleChannelWebhook } from "../_shared/solin-messaging.ts";
+import { isMessagingChannel } from "../_shared/channels.ts";
+
+serve((req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const channel = url.pathname.split('/').filter(Boolean).pop() || null;
+
+  if (!isMessagingChannel(channel)) {
+    return new Response(
+      JSON.stringify({ success: false, error: `Unknown channel: ${channel}` }),
+      { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return handleChannelWebhook(req, channel, url.searchParams.get('provider'));
+});
@@ -31,7 +31,12 @@ serve(async (req) => {
         return;
       }
       
-      const openaiUrl = 'wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-12-17';
+      // The admin-selected model, if it looks like a realtime model name
+      const requestedModel = url.searchParams.get('model');
+      const model = requestedModel && /^gpt-[\w.-]*realtime[\w.-]*$/.test(requestedModel)
+        ? requestedModel
+        : 'gpt-4o-realtime-preview-2024-12-17';
+      const openaiUrl = `wss://api.openai.com/v1/realtime?model=${model}`;
       openaiWs = new WebSocket(openaiUrl, {
         headers: {
           'Authorization': `Bearer ${OPENAI_API_KEY}`,
@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import OpenAI from "https://esm.sh/openai@4.53.2";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { searchMemories, indexMemoryEmbeddings, type MemorySearchFilters } from "../_shared/memory-search.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -28,29 +29,23 @@ function getSupabaseAdmin() {
 }
 
 // Tool handlers
-async function retrieveMemories(userId: string, query?: string, limit = 5) {
+async function retrieveMemories(userId: string, query?: string, limit = 5, filters: MemorySearchFilters = {}) {
   const supabase = getSupabaseAdmin();
-  let q = supabase
-    .from("memories")
-    .select("id,title,text,created_at,tags")
-    .eq("user_id", userId)
-    .order("created_at", { ascending: false })
-    .limit(Math.min(Math.max(limit, 1), 10));
+  const results = await searchMemories(supabase, userId, {
+    ...filters,
+    query,
+    limit: Math.min(Math.max(limit, 1), 10),
+  });
 
-  if (query && query.trim()) {
-    const escaped = query.replace(/%/g, "%25").replace(/\\/g, "\\\\");
-    q = q.or(`title.ilike.%${escaped}%,text.ilike.%${escaped}%`);
-  }
-
-  const { data, error } = await q;
-  if (error) throw error;
-
-  return (data ?? []).map((m) => ({
+  return results.map((m) => ({
     id: m.id,
     title: m.title,
-    preview: (m.text || "").replace(/\s+/g, " ").slice(0, 180),
-    created_at: m.created_at,
-    tags: m.tags ?? [],
+    preview: m.text.replace(/\s+/g, " ").slice(0, 180),
+    created_at: m.createdAt,
+    memory_date: m.memoryDate,
+    location: m.location,
+    tags: m.tags,
+    score: Number(m.score.toFixed(3)),
   }));
 }
 
@@ -58,7 +53,14 @@ async function saveMemory(userId: string, title: string, text: string, tags?: st
   const supabase = getSupabaseAdmin();
   const { data, error } = await supabase
     .from("memories")
-    .insert([{ user_id: userId, title, text, tags: tags ?? [] }])
+    .insert([{
+      user_id: userId,
+      title,
+      text,
+      tags: tags ?? [],
+      revision_author: "solin_voice",
+      revision_reason: "Saved during conversation",
+    }])
     .select("id")
     .maybeSingle();
   if (error) throw error;
@@ -83,6 +85,11 @@ async function saveMemory(userId: string, title: string, text: string, tags?: st
         }
       })
     );
+    EdgeRuntime.waitUntil(
+      indexMemoryEmbeddings(supabase, userId, 5).catch((err) => {
+        console.error('Background embedding index error:', err);
+      })
+    );
   }
   
   return { id: data?.id };
@@ -179,12 +186,17 @@ const tools = [
     type: "function",
     function: {
       name: "retrieve_memories",
-      description: "Retrieve recent or matching memories for a user.",
+      description: "Retrieve recent or matching memories for a user, ranked by relevance.",
       parameters: {
         type: "object",
         properties: {
           query: { type: "string", description: "Optional search query." },
           limit: { type: "number", description: "Max items (1-10)." },
+          date_from: { type: "string", description: "Only memories on/after this date (YYYY-MM-DD)." },
+          date_to: { type: "string", description: "Only memories on/before this date (YYYY-MM-DD)." },
+          location: { type: "string", description: "Only memories at this place." },
+          tags: { type: "array", items: { type: "string" }, description: "Only memories with any of these tags." },
+          people: { type: "array", items: { type: "string" }, description: "Only memories mentioning any of these people." },
         },
       },
     },
@@ -328,7 +340,13 @@ serve(async (req) => {
         } catch {}
 
         if (name === "retrieve_memories") {
-          const items = await retrieveMemories(authenticatedUserId, args.query, args.limit ?? limit ?? 5);
+          const items = await retrieveMemories(authenticatedUserId, args.query, args.limit ?? limit ?? 5, {
+            dateFrom: args.date_from,
+            dateTo: args.date_to,
+            location: args.location,
+            tags: args.tags,
+            people: args.people,
+          });
           messages.push(resultMessage);
           messages.push({ role: "tool", tool_call_id: tc.id, content: JSON.stringify({ items }) });
         } else if (name === "save_memory") {
@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  addMemoryMentions,
+  loadPeopleDirectory,
+  normaliseMention,
+  savePeopleDirectory,
+  seedFromProfile,
+} from "../_shared/people-resolution.ts";
+
+/**
+ * People directory.
+ *
+ * - rebuild: seeds people from the profile's family, friends and partners,
+ *   resolves every memory_insights people mention to a person, and links
+ *   people to connections whose name matches exactly. Safe to run again:
+ *   merges, splits and links the user made are kept because resolution goes
+ *   through the aliases they left behind.
+ *
+ * New memories are resolved by process-memory-insights as they are processed.
+ * Merging, splitting and manual links happen in the client.
+ */
+
+interface PeopleDirectoryRequest {
+  action?: 'rebuild';
+}
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function linkConnections(supabase: SupabaseClient, userId: string, people: { id: string; display_name: string; linked_user_id: string | null }[]) {
+  const { data: connections, error } = await supabase.rpc('get_connected_users', { target_user_id: userId });
+  if (error) throw error;
+
+  const linked = new Set(people.map(person => person.linked_user_id).filter(Boolean));
+  const candidates = ((connections || []) as { user_id: string }[]).filter(conn => !linked.has(conn.user_id));
+  if (candidates.length === 0) return 0;
+
+  const { data: profiles } = await supabase
+    .from('user_profiles')
+    .select('user_id, preferred_name, display_name')
+    .in('user_id', candidates.map(conn => conn.user_id));
+
+  let count = 0;
+  for (const profile of profiles || []) {
+    const names = [profile.preferred_name, profile.display_name]
+      .filter(Boolean)
+      .map(name => normaliseMention(name as string));
+    const matches = people.filter(person => !person.linked_user_id && names.includes(normaliseMention(person.display_name)));
+    // Only link when the name is unambiguous
+    if (matches.length !== 1) continue;
+
+    const { error: linkError } = await supabase
+      .from('people')
+      .update({ linked_user_id: profile.user_id })
+      .eq('id', matches[0].id);
+    if (linkError) {
+      console.error('Failed to link person to connection:', linkError);
+      continue;
+    }
+    matches[0].linked_user_id = profile.user_id as string;
+    count++;
+  }
+  return count;
+}
+
+async function rebuildDirectory(supabase: SupabaseClient, userId: string) {
+  const [directory, { data: profile }, { data: insights, error: insightsError }, { data: memories, error: memoriesError }] = await Promise.all([
+    loadPeopleDirectory(supabase, userId),
+    supabase
+      .from('user_profiles')
+      .select('family_members, close_friends, significant_others')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase.from('memory_insights').select('memory_id, insights').eq('user_id', userId),
+    supabase.from('memories').select('id, memory_group_id').eq('user_id', userId),
+  ]);
+  if (insightsError) throw insightsError;
+  if (memoriesError) throw memoriesError;
+
+  seedFromProfile(directory, profile);
+
+  const groups = new Map((memories || []).map(memory => [memory.id as string, memory.memory_group_id as string | null]));
+  for (const row of insights || []) {
+    // Insights can outlive a memory that was deleted without cascading
+    if (!groups.has(row.memory_id as string)) continue;
+    const people = ((row.insights as { people?: string[] } | null)?.people) || [];
+    addMemoryMentions(directory, { id: row.memory_id as string, memory_group_id: groups.get(row.memory_id as string) }, people);
+  }
+
+  const mentions = await savePeopleDirectory(supabase, directory);
+  const linked = await linkConnections(supabase, userId, directory.people);
+
+  return { people: directory.people.length, mentions, linked };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    const { action = 'rebuild' }: PeopleDirectoryRequest = await req.json().catch(() => ({}));
+
+    if (action === 'rebuild') {
+      return jsonResponse(await rebuildDirectory(supabase, user.id));
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error('people-directory error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { addMemoryMentions, loadPeopleDirectory, savePeopleDirectory } from "../_shared/people-resolution.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -170,6 +171,8 @@ serve(async (req) => {
         memory_location: coreData.memory_location,
         tags: allTags,
         show_on_timeline: !!normalizedDate, // Only show if date exists
+        revision_author: "process_memory_insights",
+        revision_reason: "AI summary and metadata extraction",
         metadata: {
           ...metadata,
           original_transcript: existingMemory?.text, // Archive original conversation
@@ -200,6 +203,22 @@ serve(async (req) => {
       console.error("[ProcessInsights] Error storing insights:", insightsError);
     }
 
+    // Step 8: Resolve the people mentioned to the user's people directory (optional)
+    if (user_id && insights.people?.length) {
+      try {
+        const { data: memoryRow } = await supabase
+          .from("memories")
+          .select("memory_group_id")
+          .eq("id", memory_id)
+          .single();
+        const directory = await loadPeopleDirectory(supabase, user_id);
+        addMemoryMentions(directory, { id: memory_id, memory_group_id: memoryRow?.memory_group_id }, insights.people);
+        await savePeopleDirectory(supabase, directory);
+      } catch (error) {
+        console.error("[ProcessInsights] Failed to resolve people:", error);
+      }
+    }
+
     console.log(`[ProcessInsights] Successfully processed memory: ${memory_id}`);
 
     return new Response(JSON.stringify(processedMemory), {
@@ -224,6 +243,8 @@ serve(async (req) => {
           .update({
             title: "Memory (processing failed)",
             tags: ["error", "needs_review"],
+            revision_author: "process_memory_insights",
+            revision_reason: "Insight processing failed",
             metadata: {
               processing_error: error.message,
               error_timestamp: new Date().toISOString()
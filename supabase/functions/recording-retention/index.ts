@@ -0,0 +1,216 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+
+/**
+ * Retention for voice recordings (daily cron, service role).
+ *
+ * - run: move expired recordings to the trash, purge the audio and rows whose
+ *   30 days in the trash are up, and re-encode recordings past their owner's
+ *   compress_after_days to low-bitrate Opus
+ * - status (any signed-in user): whether compression is available, for Settings
+ *
+ * Expiry itself is worked out in the database from recording_retention_settings,
+ * keep_forever and memory_ids. Compression needs a transcoding service at
+ * AUDIO_TRANSCODER_URL (optional AUDIO_TRANSCODER_API_KEY) that accepts
+ * POST /transcode?codec=opus&bitrate=N with the audio as the body and returns
+ * the re-encoded audio. It is optional: without one, recordings are left as
+ * they are and both the run summary and Settings say compression is unavailable.
+ */
+
+type Row = Record<string, unknown>;
+
+interface RetentionRequest {
+  action?: 'run' | 'status';
+}
+
+const STORAGE_BUCKET = 'voice-recordings';
+const PURGE_BATCH = 100;
+const COMPRESS_BATCH = 20;
+const ARCHIVE_CODEC = 'opus';
+const ARCHIVE_BIT_RATE = 16000;
+const TRANSCODE_TIMEOUT_MS = 120000;
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/** Delete trashed recordings whose recovery window has passed, audio first */
+async function purgeTrash(supabase: SupabaseClient) {
+  const { data: due, error } = await supabase
+    .from('voice_recordings')
+    .select('id, storage_path')
+    .not('deleted_at', 'is', null)
+    .lte('purge_after', new Date().toISOString())
+    .order('purge_after', { ascending: true })
+    .limit(PURGE_BATCH);
+  if (error) throw error;
+  if (!due || due.length === 0) return 0;
+
+  const paths = due.map(recording => recording.storage_path as string).filter(Boolean);
+  if (paths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(STORAGE_BUCKET).remove(paths);
+    // Rows stay so the next run retries; an orphaned file is worse than a late purge
+    if (storageError) throw storageError;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('voice_recordings')
+    .delete()
+    .in('id', due.map(recording => recording.id));
+  if (deleteError) throw deleteError;
+
+  return due.length;
+}
+
+async function transcode(audio: Blob): Promise<Blob> {
+  const baseUrl = Deno.env.get('AUDIO_TRANSCODER_URL')!.replace(/\/+$/, '');
+  const apiKey = Deno.env.get('AUDIO_TRANSCODER_API_KEY');
+
+  const response = await fetch(`${baseUrl}/transcode?codec=${ARCHIVE_CODEC}&bitrate=${ARCHIVE_BIT_RATE}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': audio.type || 'application/octet-stream',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+    body: audio,
+    signal: AbortSignal.timeout(TRANSCODE_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Transcoder returned ${response.status}: ${await response.text()}`);
+  }
+
+  const bytes = await response.arrayBuffer();
+  if (bytes.byteLength === 0) throw new Error('Transcoder returned no audio');
+  return new Blob([bytes], { type: response.headers.get('Content-Type') || 'audio/ogg' });
+}
+
+/**
+ * Re-encode one recording and swap it in. The original is only removed once
+ * the row points at the new file.
+ */
+async function compressRecording(supabase: SupabaseClient, recording: Row) {
+  const originalPath = recording.storage_path as string;
+  const { data: file, error: downloadError } = await supabase.storage.from(STORAGE_BUCKET).download(originalPath);
+  if (downloadError || !file) throw downloadError || new Error('Recording audio not found');
+
+  const original = new Blob([await file.arrayBuffer()], { type: (recording.mime_type as string) || file.type || 'audio/webm' });
+  const compressed = await transcode(original);
+
+  // Nothing gained: mark it done so it isn't downloaded again tomorrow
+  if (compressed.size >= original.size) {
+    const { error } = await supabase
+      .from('voice_recordings')
+      .update({ compressed_at: new Date().toISOString() })
+      .eq('id', recording.id);
+    if (error) throw error;
+    return 0;
+  }
+
+  const archivePath = `${originalPath.replace(/\.[^./]+$/, '')}-archive.ogg`;
+  const { error: uploadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(archivePath, compressed, { contentType: compressed.type, upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { error: updateError } = await supabase
+    .from('voice_recordings')
+    .update({
+      storage_path: archivePath,
+      mime_type: compressed.type,
+      file_size_bytes: compressed.size,
+      bit_rate: ARCHIVE_BIT_RATE,
+      compression_type: ARCHIVE_CODEC,
+      is_compressed: true,
+      compressed_at: new Date().toISOString(),
+    })
+    .eq('id', recording.id);
+  if (updateError) {
+    await supabase.storage.from(STORAGE_BUCKET).remove([archivePath]);
+    throw updateError;
+  }
+
+  const { error: removeError } = await supabase.storage.from(STORAGE_BUCKET).remove([originalPath]);
+  if (removeError) console.warn(`⚠️ Could not remove original audio ${originalPath}:`, removeError);
+
+  return original.size - compressed.size;
+}
+
+const compressionAvailable = () => !!Deno.env.get('AUDIO_TRANSCODER_URL');
+
+async function compressDue(supabase: SupabaseClient) {
+  if (!compressionAvailable()) {
+    console.warn('⚠️ Compression unavailable: AUDIO_TRANSCODER_URL is not set');
+    return { compression_available: false, compressed: 0, failed: 0, bytes_saved: 0 };
+  }
+
+  const { data: due, error } = await supabase.rpc('voice_recordings_due_for_compression', { p_limit: COMPRESS_BATCH });
+  if (error) throw error;
+
+  let compressed = 0;
+  let failed = 0;
+  let bytesSaved = 0;
+  for (const recording of (due || []) as Row[]) {
+    try {
+      bytesSaved += await compressRecording(supabase, recording);
+      compressed++;
+    } catch (error) {
+      console.error(`❌ Compression failed for recording ${recording.id}:`, error);
+      failed++;
+    }
+  }
+  return { compression_available: true, compressed, failed, bytes_saved: bytesSaved };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const body: RetentionRequest = await req.json().catch(() => ({}));
+    const { action = 'run' } = body;
+
+    if (action === 'status') {
+      const { data: { user }, error: authError } = await getSupabaseAdmin().auth.getUser(token);
+      if (authError || !user) return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+      return jsonResponse({ compression_available: compressionAvailable() });
+    }
+
+    if (action !== 'run') return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+
+    // Scheduled run: only the service role may apply retention to everyone's recordings
+    if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      return jsonResponse({ error: "Forbidden" }, 403);
+    }
+
+    const supabase = getSupabaseAdmin();
+
+    const { data: trashed, error: trashError } = await supabase.rpc('trash_expired_voice_recordings');
+    if (trashError) throw trashError;
+
+    const purged = await purgeTrash(supabase);
+    const compression = await compressDue(supabase);
+
+    const compressedSummary = compression.compression_available ? `${compression.compressed} compressed` : 'compression unavailable';
+    console.log(`✅ Retention run: ${trashed} trashed, ${purged} purged, ${compressedSummary}`);
+    return jsonResponse({ trashed, purged, ...compression });
+  } catch (error) {
+    console.error('❌ Error in recording-retention function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Retention run failed' }, 500);
+  }
+});
@@ -0,0 +1,200 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { encodeBase64 } from "../_shared/image-providers.ts";
+import {
+  loadSpeechConfig,
+  synthesizeSpeech,
+  transcribeSpeech,
+  type SpeechConfig,
+} from "../_shared/speech-providers.ts";
+
+/**
+ * Speech on the providers configured in speech_config.
+ *
+ * - synthesize: text to audio for voiceService.speak (guests too, as elevenlabs-tts allowed)
+ * - transcribe_recording: word-level transcription of one of the caller's voice_recordings
+ * - transcribe_pending: work through queued recordings (five-minute cron, service role)
+ */
+
+type Row = Record<string, unknown>;
+
+interface SpeechRequest {
+  action?: 'synthesize' | 'transcribe_recording' | 'transcribe_pending';
+  text?: string;
+  voiceId?: string;
+  model?: string;
+  voiceSettings?: Record<string, unknown>;
+  recordingId?: string;
+}
+
+const STORAGE_BUCKET = 'voice-recordings';
+const MAX_SYNTHESIS_CHARS = 5000;
+const PENDING_BATCH = 10;
+const MAX_ATTEMPTS = 3;
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Transcribe a recording's audio and store the word timings. transcript_text
+ * built from the live conversation is kept; it is only filled in when empty.
+ */
+async function transcribeRecording(supabase: SupabaseClient, config: SpeechConfig, recording: Row) {
+  const id = recording.id as string;
+  try {
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(recording.storage_path as string);
+    if (downloadError || !file) throw downloadError || new Error('Recording audio not found');
+
+    const audio = new Blob([await file.arrayBuffer()], { type: (recording.mime_type as string) || file.type || 'audio/webm' });
+    const transcription = await transcribeSpeech(config, audio);
+
+    const { data, error } = await supabase
+      .from('voice_recordings')
+      .update({
+        transcript_words: transcription.words,
+        transcript_language: transcription.language,
+        transcription_provider: transcription.provider,
+        transcription_status: 'completed',
+        transcription_error: null,
+        transcribed_at: new Date().toISOString(),
+        ...(!recording.transcript_text && { transcript_text: transcription.text }),
+      })
+      .eq('id', id)
+      .select('id, transcript_text, transcript_words, transcript_language, transcription_provider, transcription_status, transcribed_at')
+      .single();
+    if (error) throw error;
+
+    console.log(`✅ Transcribed recording ${id} with ${transcription.provider}: ${transcription.words.length} words`);
+    return data;
+  } catch (error) {
+    const attempts = ((recording.transcription_attempts as number) || 0) + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    await supabase
+      .from('voice_recordings')
+      .update({
+        transcription_attempts: attempts,
+        transcription_error: message,
+        transcription_status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+      })
+      .eq('id', id);
+    throw error;
+  }
+}
+
+async function transcribePending(supabase: SupabaseClient, config: SpeechConfig) {
+  const { data: pending, error } = await supabase
+    .from('voice_recordings')
+    .select('id, storage_path, mime_type, transcript_text, transcription_attempts')
+    .eq('transcription_status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(PENDING_BATCH);
+  if (error) throw error;
+
+  if (!config.transcribe_recordings) {
+    const ids = (pending || []).map(recording => recording.id);
+    if (ids.length > 0) {
+      await supabase.from('voice_recordings').update({ transcription_status: 'skipped' }).in('id', ids);
+    }
+    return { transcribed: 0, failed: 0, skipped: ids.length };
+  }
+
+  let transcribed = 0;
+  let failed = 0;
+  for (const recording of pending || []) {
+    try {
+      await transcribeRecording(supabase, config, recording);
+      transcribed++;
+    } catch (error) {
+      console.error(`❌ Transcription failed for recording ${recording.id}:`, error);
+      failed++;
+    }
+  }
+  return { transcribed, failed, skipped: 0 };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const token = authHeader.replace('Bearer ', '');
+    const body: SpeechRequest = await req.json().catch(() => ({}));
+    const { action = 'synthesize' } = body;
+    const config = await loadSpeechConfig(supabase);
+
+    // Scheduled run: only the service role may transcribe everyone's recordings
+    if (action === 'transcribe_pending') {
+      if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+      return jsonResponse(await transcribePending(supabase, config));
+    }
+
+    if (action === 'synthesize') {
+      const text = body.text?.trim();
+      if (!text) return jsonResponse({ error: "text is required" }, 400);
+      if (text.length > MAX_SYNTHESIS_CHARS) {
+        return jsonResponse({ error: `text must be at most ${MAX_SYNTHESIS_CHARS} characters` }, 400);
+      }
+
+      const speech = await synthesizeSpeech(config, {
+        text,
+        voice_id: body.voiceId,
+        model: body.model,
+        voice_settings: body.voiceSettings,
+      });
+      return jsonResponse({
+        audio: encodeBase64(speech.bytes),
+        mimeType: speech.mime_type,
+        provider: speech.provider,
+        model: speech.model,
+      });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    if (action === 'transcribe_recording') {
+      if (!body.recordingId) return jsonResponse({ error: "recordingId is required" }, 400);
+
+      const { data: recording, error } = await supabase
+        .from('voice_recordings')
+        .select('id, storage_path, mime_type, transcript_text, transcription_attempts')
+        .eq('id', body.recordingId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) throw error;
+      if (!recording) return jsonResponse({ error: "Recording not found" }, 404);
+
+      // On demand, so earlier failed attempts don't count against the retry limit
+      const updated = await transcribeRecording(supabase, config, { ...recording, transcription_attempts: 0 });
+      return jsonResponse({ recording: updated });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error('❌ Error in speech function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Speech request failed' }, 500);
+  }
+});
@@ -0,0 +1,257 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { sendWhatsAppText } from "../_shared/whatsapp-send.ts";
+
+/**
+ * Time capsule releases and notifications.
+ *
+ * - release_due: release every sealed capsule whose date has passed (hourly cron, service role)
+ * - sync: release the caller's due capsules, then list sent / received / trusteed capsules
+ * - release_on_passing: a trustee releases an owner's "on my passing" capsules
+ * - open: a recipient marks a released capsule as read
+ */
+
+type Row = Record<string, unknown>;
+
+interface TimeCapsuleRequest {
+  action?: 'release_due' | 'sync' | 'release_on_passing' | 'open';
+  ownerId?: string;
+  capsuleId?: string;
+}
+
+const RELEASE_BATCH = 100;
+const APP_NAME = '1000years.ai';
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function getDisplayNames(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, string>> {
+  const ids = [...new Set(userIds.filter(Boolean))];
+  if (ids.length === 0) return new Map();
+
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('user_id, preferred_name, display_name')
+    .in('user_id', ids);
+  return new Map((data || []).map(profile => [
+    profile.user_id as string,
+    (profile.preferred_name || profile.display_name || 'Someone') as string,
+  ]));
+}
+
+/**
+ * Tell the recipient a capsule has opened. Account holders see it in the app
+ * (Time Capsules page + navigation badge) and get a WhatsApp nudge if they have
+ * a verified number; recipients without an account receive the letter itself.
+ */
+async function notifyRecipient(supabase: SupabaseClient, capsule: Row) {
+  const names = await getDisplayNames(supabase, [capsule.user_id as string]);
+  const ownerName = names.get(capsule.user_id as string) || 'Someone';
+
+  let phone = (capsule.recipient_phone as string | null) || null;
+  if (!phone && capsule.recipient_user_id) {
+    const { data: phoneRow } = await supabase
+      .from('user_phone_numbers')
+      .select('phone_number')
+      .eq('user_id', capsule.recipient_user_id as string)
+      .eq('verified', true)
+      .order('is_primary', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    phone = phoneRow?.phone_number ?? null;
+  }
+
+  let notified = !!capsule.recipient_user_id;
+  if (phone) {
+    const greeting = capsule.recipient_name ? `Dear ${capsule.recipient_name},\n\n` : '';
+    const message = capsule.recipient_user_id
+      ? `${greeting}${ownerName} left you a time capsule, "${capsule.title}", and it has just opened. You can read it in ${APP_NAME} under Time Capsules.`
+      : `${greeting}${ownerName} left you a time capsule through ${APP_NAME}, and it has just opened.\n\n*${capsule.title}*\n\n${capsule.content}`;
+    const result = await sendWhatsAppText(phone, message);
+    notified = notified || result.success;
+  }
+
+  if (notified) {
+    await supabase
+      .from('time_capsules')
+      .update({ recipient_notified_at: new Date().toISOString() })
+      .eq('id', capsule.id as string);
+  } else {
+    console.warn(`⚠️ No way to notify the recipient of capsule ${capsule.id}`);
+  }
+}
+
+async function releaseCapsule(supabase: SupabaseClient, capsule: Row, releasedBy: string | null): Promise<boolean> {
+  const { data: memoryId, error } = await supabase.rpc('release_time_capsule', {
+    p_capsule_id: capsule.id,
+    p_released_by: releasedBy,
+  });
+  if (error) {
+    console.error(`❌ Failed to release capsule ${capsule.id}:`, error);
+    return false;
+  }
+  if (!memoryId) return false; // Released concurrently
+
+  console.log(`🔓 Released time capsule ${capsule.id} as memory ${memoryId}`);
+  await notifyRecipient(supabase, capsule).catch(err => {
+    console.error(`❌ Failed to notify recipient of capsule ${capsule.id}:`, err);
+  });
+  return true;
+}
+
+/**
+ * Release sealed capsules whose release date has passed, optionally only
+ * those the given user owns or receives
+ */
+async function releaseDueCapsules(supabase: SupabaseClient, userId?: string): Promise<number> {
+  let released = 0;
+
+  while (true) {
+    let query = supabase
+      .from('time_capsules')
+      .select('*')
+      .eq('status', 'sealed')
+      .neq('release_trigger', 'on_passing')
+      .lte('release_date', new Date().toISOString())
+      .order('release_date')
+      .limit(RELEASE_BATCH);
+    if (userId) query = query.or(`user_id.eq.${userId},recipient_user_id.eq.${userId}`);
+
+    const { data: due, error } = await query;
+    if (error) throw error;
+    if (!due || due.length === 0) break;
+
+    let releasedInBatch = 0;
+    for (const capsule of due) {
+      if (await releaseCapsule(supabase, capsule, null)) releasedInBatch++;
+    }
+    released += releasedInBatch;
+    if (due.length < RELEASE_BATCH || releasedInBatch === 0) break;
+  }
+
+  return released;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const token = authHeader.replace('Bearer ', '');
+    const { action = 'sync', ownerId, capsuleId }: TimeCapsuleRequest = await req.json().catch(() => ({}));
+
+    // Scheduled run: only the service role may release everyone's capsules
+    if (action === 'release_due') {
+      if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+      const released = await releaseDueCapsules(supabase);
+      return jsonResponse({ released });
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    if (action === 'release_on_passing') {
+      if (!ownerId) return jsonResponse({ error: "ownerId is required" }, 400);
+
+      const { data: capsules, error } = await supabase
+        .from('time_capsules')
+        .select('*')
+        .eq('user_id', ownerId)
+        .eq('trustee_user_id', user.id)
+        .eq('release_trigger', 'on_passing')
+        .eq('status', 'sealed');
+      if (error) throw error;
+      if (!capsules || capsules.length === 0) {
+        return jsonResponse({ error: "No sealed capsules for which you are the trustee" }, 404);
+      }
+
+      let released = 0;
+      for (const capsule of capsules) {
+        if (await releaseCapsule(supabase, capsule, user.id)) released++;
+      }
+      return jsonResponse({ released });
+    }
+
+    if (action === 'open') {
+      if (!capsuleId) return jsonResponse({ error: "capsuleId is required" }, 400);
+
+      const { error } = await supabase
+        .from('time_capsules')
+        .update({ recipient_opened_at: new Date().toISOString() })
+        .eq('id', capsuleId)
+        .eq('recipient_user_id', user.id)
+        .eq('status', 'released')
+        .is('recipient_opened_at', null);
+      if (error) throw error;
+      return jsonResponse({ success: true });
+    }
+
+    // sync: catch up on releases the cron may not have run yet, then list
+    const released = await releaseDueCapsules(supabase, user.id);
+
+    const [sentResult, receivedResult, trusteedResult] = await Promise.all([
+      supabase.from('time_capsules').select('*').eq('user_id', user.id).order('created_at', { ascending: false }),
+      supabase.from('time_capsules').select('*').eq('recipient_user_id', user.id).eq('status', 'released').order('released_at', { ascending: false }),
+      // Trustees never see the sealed content
+      supabase
+        .from('time_capsules')
+        .select('id, user_id, title, recipient_name, recipient_user_id, status, released_at, created_at')
+        .eq('trustee_user_id', user.id)
+        .eq('release_trigger', 'on_passing')
+        .order('created_at'),
+    ]);
+    if (sentResult.error) throw sentResult.error;
+    if (receivedResult.error) throw receivedResult.error;
+    if (trusteedResult.error) throw trusteedResult.error;
+
+    const sent = sentResult.data || [];
+    const received = receivedResult.data || [];
+    const trusteed = trusteedResult.data || [];
+    const names = await getDisplayNames(supabase, [
+      ...sent.map(capsule => capsule.recipient_user_id as string),
+      ...sent.map(capsule => capsule.trustee_user_id as string),
+      ...received.map(capsule => capsule.user_id as string),
+      ...trusteed.map(capsule => capsule.user_id as string),
+      ...trusteed.map(capsule => capsule.recipient_user_id as string),
+    ]);
+    const withNames = (capsule: Row) => ({
+      ...capsule,
+      owner_name: names.get(capsule.user_id as string) ?? null,
+      recipient_display_name: (capsule.recipient_name as string | null)
+        || names.get(capsule.recipient_user_id as string)
+        || null,
+      trustee_name: names.get(capsule.trustee_user_id as string) ?? null,
+    });
+
+    return jsonResponse({
+      released,
+      sent: sent.map(withNames),
+      received: received.map(withNames),
+      trusteed: trusteed.map(withNames),
+    });
+  } catch (e) {
+    console.error("time-capsules error:", e);
+    return jsonResponse({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
@@ -1,292 +1,475 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
-import { 
-  createRepo, 
-  uploadFiles, 
-  type Credentials,
-  type RepoDesignation
-} from "https://esm.sh/@huggingface/hub@0.15.1";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface TrainingRequest {
-  identityName: string;
-  imageFiles: {
-    name: string;
-    data: string; // base64 encoded
-  }[];
-  userId: string;
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { createRepo, uploadFiles } from "https://esm.sh/@huggingface/hub@0.15.1";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  ACTIVE_JOB_STATUSES,
+  applyRemoteStatus,
+  cancelRemoteTraining,
+  deleteRemoteModel,
+  fetchTrainingStatus,
+  huggingFaceCredentials,
+  isTrainerConfigured,
+  MAX_TRAINING_IMAGES,
+  MIN_TRAINING_IMAGES,
+  submitTrainingJob,
+  TRAINING_IMAGES_BUCKET,
+  type TrainingImageReport,
+  type TrainingJob,
+  transitionJob,
+  validateTrainingImages,
+} from "../_shared/identity-training.ts";
+import { isConsentActive, loadIdentityConsents, requireIdentityConsent } from "../_shared/identity-consent.ts";
+
+/**
+ * Identity training jobs.
+ *
+ * The browser uploads the photos to identity-training-images under
+ * {userId}/{identityId}/ and checks them first (resolution, faces, duplicates).
+ * Actions:
+ * - create: records the identity, its likeness consent and a queued job, then
+ *   runs it: the images are re-checked, pushed to a private Hugging Face repo
+ *   and handed to the trainer (see _shared/identity-training.ts). A job stays
+ *   queued until consent is granted, e.g. by a connected user approving
+ * - status: the user's latest job per identity, polling the trainer for jobs
+ *   in training and starting queued jobs whose consent has been granted
+ * - retry: queues a failed or cancelled job again, up to max_attempts
+ * - cancel: stops a queued, uploading or training job
+ * - delete: cancels any active job, deletes the Hugging Face repo and the
+ *   stored photos, then the identity
+ */
+
+const MODEL_TYPE = 'flux-lora';
+const TRAINING_PARAMS = { steps: 1000, learning_rate: 0.0004, resolution: 512 };
+const POLL_INTERVAL_MS = 15_000;
+
+function getSupabaseAdmin() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("Supabase env not configured");
+  return createClient(url, serviceKey);
 }
 
-interface TrainingResponse {
-  success: boolean;
-  repoId?: string;
-  modelUrl?: string;
-  error?: string;
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
+async function getJob(supabase: SupabaseClient, userId: string, jobId: string): Promise<TrainingJob> {
+  const { data, error } = await supabase
+    .from('identity_training_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('Training job not found');
+  return data as TrainingJob;
+}
+
+async function huggingFaceUsername(): Promise<string> {
+  const { accessToken } = huggingFaceCredentials();
+  const response = await fetch('https://huggingface.co/api/whoami-v2', {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Could not authenticate with HuggingFace: ${response.status}`);
   }
+  const userData = await response.json();
+  return userData.name;
+}
 
-  try {
-    console.log('🚀 Train Identity Edge Function Started');
+function repoNameFor(username: string, identityName: string) {
+  const sanitizedName = identityName
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .slice(0, 50);
+  return `${username}/identity-${sanitizedName}-${Date.now()}`;
+}
 
-    // Get HuggingFace token from environment
-    const hfToken = Deno.env.get('HUGGINGFACE_TOKEN');
-    if (!hfToken) {
-      throw new Error('HUGGINGFACE_TOKEN environment variable not set');
-    }
+function readme(identityName: string, imageCount: number) {
+  return `# ${identityName} Identity Model
 
-    // Parse request
-    const { identityName, imageFiles, userId }: TrainingRequest = await req.json();
-    console.log(`📝 Training request: ${identityName}, ${imageFiles.length} images, user: ${userId}`);
+This model was trained on ${imageCount} images to learn the identity: **${identityName}**.
 
-    // Validate inputs
-    if (!identityName || !identityName.trim()) {
-      throw new Error('Identity name is required');
-    }
-    if (!imageFiles || imageFiles.length < 3) {
-      throw new Error('At least 3 images are required for training');
-    }
-    if (imageFiles.length > 40) {
-      throw new Error('Maximum 40 images allowed');
-    }
+## Usage
+This model is designed for use with FLUX image generation models for creating personalized images.
 
-    // Initialize HuggingFace credentials
-    const credentials: Credentials = {
-      accessToken: hfToken
-    };
+## Training Details
+- **Model Type**: FLUX LoRA
+- **Number of Images**: ${imageCount}
+- **Training Steps**: ${TRAINING_PARAMS.steps}
+- **Learning Rate**: ${TRAINING_PARAMS.learning_rate}
+- **Resolution**: ${TRAINING_PARAMS.resolution}x${TRAINING_PARAMS.resolution}
 
-    // Get HuggingFace username for namespace
-    console.log('🔍 Fetching HuggingFace username...');
-    let hfUsername: string;
-    try {
-      const userResponse = await fetch('https://huggingface.co/api/whoami-v2', {
-        headers: {
-          'Authorization': `Bearer ${hfToken}`
-        }
-      });
-      if (!userResponse.ok) {
-        throw new Error(`Failed to get HuggingFace user info: ${userResponse.status}`);
-      }
-      const userData = await userResponse.json();
-      hfUsername = userData.name;
-      console.log(`✅ HuggingFace username: ${hfUsername}`);
-    } catch (error: any) {
-      console.error('❌ Failed to get HuggingFace username:', error);
-      throw new Error(`Could not authenticate with HuggingFace: ${error.message}`);
-    }
+## Privacy
+This model is private and intended for personal use only.
 
-    // Create sanitized repo name WITH namespace
-    const timestamp = Date.now();
-    const sanitizedName = identityName
-      .toLowerCase()
-      .replace(/[^a-z0-9-]/g, '-')
-      .replace(/-+/g, '-')
-      .slice(0, 50);
-    const repoName = `${hfUsername}/identity-${sanitizedName}-${timestamp}`;
-    console.log(`📦 Repository name: ${repoName}`);
-
-    // Step 1: Create repository on HuggingFace
-    console.log('🏗️  Creating HuggingFace repository...');
-    const repo: RepoDesignation = {
-      type: 'model',
-      name: repoName,
+---
+*Trained with Solon AI Memory Platform*
+`;
+}
+
+/** Upload the checked images to a private repo; a retry reuses the job's repo */
+async function uploadDataset(
+  job: TrainingJob,
+  identityName: string,
+  images: { path: string; bytes: Uint8Array }[],
+): Promise<string> {
+  const credentials = huggingFaceCredentials();
+  const repoName = job.hf_repo_name || repoNameFor(await huggingFaceUsername(), identityName);
+  const repo = { type: 'model' as const, name: repoName };
+
+  if (!job.hf_repo_name) {
+    await createRepo({ repo, credentials, license: 'mit', private: true });
+  }
+
+  const files: Array<{ path: string; content: Blob }> = images.map((image, index) => {
+    const extension = image.path.split('.').pop()?.toLowerCase() || 'jpg';
+    return {
+      path: `images/image_${String(index + 1).padStart(3, '0')}.${extension}`,
+      content: new Blob([image.bytes], { type: extension === 'png' ? 'image/png' : 'image/jpeg' }),
     };
+  });
+  files.push(
+    {
+      path: '.gitattributes',
+      content: new Blob(['*.jpg filter=lfs diff=lfs merge=lfs -text\n*.jpeg filter=lfs diff=lfs merge=lfs -text\n*.png filter=lfs diff=lfs merge=lfs -text\n'], { type: 'text/plain' }),
+    },
+    {
+      path: 'training_config.json',
+      content: new Blob([JSON.stringify({
+        identity_name: identityName,
+        num_images: images.length,
+        created_at: new Date().toISOString(),
+        user_id: job.user_id,
+        job_id: job.id,
+        model_type: MODEL_TYPE,
+        training_params: TRAINING_PARAMS,
+      }, null, 2)], { type: 'application/json' }),
+    },
+    { path: 'README.md', content: new Blob([readme(identityName, images.length)], { type: 'text/markdown' }) },
+  );
+
+  await uploadFiles({
+    repo,
+    credentials,
+    files,
+    commitMessage: `Upload training data for ${identityName} (${images.length} images, attempt ${job.attempts})`,
+  });
+
+  return repoName;
+}
 
-    try {
-      await createRepo({
-        repo,
-        credentials,
-        license: 'mit',
-        private: true, // Keep training data private
-      });
-      console.log('✅ Repository created successfully');
-    } catch (error: any) {
-      console.error('❌ Repository creation failed:', error);
-      throw new Error(`Failed to create HuggingFace repository: ${error.message}`);
+/** Take a queued job through upload and submission; failures end in 'failed' */
+async function runJob(supabase: SupabaseClient, queued: TrainingJob): Promise<TrainingJob> {
+  const consents = await loadIdentityConsents(supabase, queued.user_id, [queued.identity_id]);
+  if (!isConsentActive(consents.get(queued.identity_id))) return queued;
+  await requireIdentityConsent(supabase, queued.user_id, [queued.identity_id], 'training', { job_id: queued.id });
+
+  const job = await transitionJob(supabase, queued, 'uploading', { attempts: queued.attempts + 1 });
+  if (!job) return queued;
+
+  try {
+    const { data: identity, error: identityError } = await supabase
+      .from('trained_identities')
+      .select('name')
+      .eq('id', job.identity_id)
+      .single();
+    if (identityError) throw identityError;
+
+    const images = await Promise.all(job.image_storage_paths.map(async (path) => {
+      const { data, error } = await supabase.storage.from(TRAINING_IMAGES_BUCKET).download(path);
+      if (error || !data) throw new Error(`Could not read ${path}: ${error?.message ?? 'missing'}`);
+      return { path, bytes: new Uint8Array(await data.arrayBuffer()) };
+    }));
+
+    const { report, issues } = await validateTrainingImages(images, job.validation);
+    if (issues.length > 0) {
+      return await transitionJob(supabase, job, 'failed', { validation: report, error: issues.join('; ') }) ?? job;
     }
 
-    // Step 2: Prepare files for upload
-    console.log('📦 Preparing files for upload...');
-    const files: Array<{ path: string; content: Blob }> = [];
-
-    // Add training images
-    for (let i = 0; i < imageFiles.length; i++) {
-      const imageFile = imageFiles[i];
-      const extension = imageFile.name.split('.').pop() || 'jpg';
-      const fileName = `images/image_${String(i + 1).padStart(3, '0')}.${extension}`;
-      
-      // Decode base64 to Uint8Array
-      const base64Data = imageFile.data.includes(',') 
-        ? imageFile.data.split(',')[1] 
-        : imageFile.data;
-      
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let j = 0; j < binaryString.length; j++) {
-        bytes[j] = binaryString.charCodeAt(j);
-      }
+    const usable = images.filter(image => report.images?.find(check => check.path === image.path)?.issues.length === 0);
+    const repoName = await uploadDataset(job, identity.name, usable);
+    console.log(`Uploaded ${usable.length} images for job ${job.id} to ${repoName}`);
 
-      // Convert to Blob
-      const mimeType = `image/${extension === 'jpg' ? 'jpeg' : extension}`;
-      files.push({
-        path: fileName,
-        content: new Blob([bytes], { type: mimeType })
-      });
+    if (!isTrainerConfigured()) {
+      return await transitionJob(
+        supabase, job, 'succeeded',
+        { validation: report, hf_repo_name: repoName },
+        { hf_repo_name: repoName, hf_model_id: repoName, num_training_images: usable.length },
+      ) ?? job;
     }
-    console.log(`📸 Prepared ${files.length} image files`);
 
-    // Add .gitattributes for Git LFS support (large files)
-    const gitattributesContent = `*.jpg filter=lfs diff=lfs merge=lfs -text
-*.jpeg filter=lfs diff=lfs merge=lfs -text
-*.png filter=lfs diff=lfs merge=lfs -text
-`;
-    files.push({
-      path: '.gitattributes',
-      content: new Blob([gitattributesContent], { type: 'text/plain' })
+    const remoteJobId = await submitTrainingJob({
+      datasetRepo: repoName,
+      modelType: MODEL_TYPE,
+      trainingParams: TRAINING_PARAMS,
+      webhookUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/identity-training-webhook`,
     });
-    console.log('✅ Added .gitattributes for Git LFS');
+    const training = await transitionJob(
+      supabase, job, 'training',
+      { validation: report, hf_repo_name: repoName, remote_job_id: remoteJobId },
+      { hf_repo_name: repoName, num_training_images: usable.length },
+    );
+    if (!training) {
+      // Cancelled while uploading: don't leave the trainer running
+      await cancelRemoteTraining(remoteJobId);
+      return job;
+    }
+    return training;
+  } catch (error) {
+    console.error(`Training job ${job.id} failed:`, error);
+    const message = error instanceof Error ? error.message : 'Training failed';
+    return await transitionJob(supabase, job, 'failed', { error: message }) ?? job;
+  }
+}
 
-    // Add training configuration
-    const trainingConfig = {
-      identity_name: identityName,
-      num_images: imageFiles.length,
-      created_at: new Date().toISOString(),
+interface ConsentInput {
+  subject_type: string;
+  subject_name: string;
+  subject_user_id?: string | null;
+  relationship?: string | null;
+  guardian_name?: string | null;
+  guardian_relationship?: string | null;
+  expires_at?: string | null;
+}
+
+async function handleCreate(
+  supabase: SupabaseClient,
+  userClient: SupabaseClient,
+  userId: string,
+  body: Record<string, unknown>,
+) {
+  const identityName = String(body.identityName ?? '').trim();
+  const identityId = String(body.identityId ?? '');
+  const imagePaths = (body.imagePaths as string[] | undefined) ?? [];
+
+  if (!identityName) throw new Error('Identity name is required');
+  if (!identityId) throw new Error('identityId is required');
+  if (imagePaths.length < MIN_TRAINING_IMAGES) {
+    throw new Error(`At least ${MIN_TRAINING_IMAGES} images are required for training`);
+  }
+  if (imagePaths.length > MAX_TRAINING_IMAGES) throw new Error(`Maximum ${MAX_TRAINING_IMAGES} images allowed`);
+  if (imagePaths.some(path => !path.startsWith(`${userId}/${identityId}/`))) {
+    throw new Error('Training images must be uploaded to your identity folder');
+  }
+  const consent = body.consent as ConsentInput | undefined;
+  if (!consent?.subject_type) throw new Error('Consent for the person in the photos is required');
+
+  const { error: identityError } = await supabase
+    .from('trained_identities')
+    .insert({
+      id: identityId,
       user_id: userId,
-      model_type: "flux-lora", // Using FLUX LoRA for identity training
-      training_params: {
-        steps: 1000,
-        learning_rate: 0.0004,
-        resolution: 512,
-      }
-    };
-    files.push({
-      path: 'training_config.json',
-      content: new Blob([JSON.stringify(trainingConfig, null, 2)], { type: 'application/json' })
+      name: identityName,
+      model_type: MODEL_TYPE,
+      training_status: 'queued',
+      image_storage_paths: imagePaths,
+      num_training_images: imagePaths.length,
     });
-    console.log('✅ Added training_config.json');
+  if (identityError) throw identityError;
+
+  // Recorded as the user, so the connection and ownership checks apply to them
+  const { error: consentError } = await userClient.rpc('record_identity_consent', {
+    p_identity_id: identityId,
+    p_subject_type: consent.subject_type,
+    p_subject_name: consent.subject_name,
+    p_subject_user_id: consent.subject_user_id ?? null,
+    p_relationship: consent.relationship ?? null,
+    p_guardian_name: consent.guardian_name ?? null,
+    p_guardian_relationship: consent.guardian_relationship ?? null,
+    p_expires_at: consent.expires_at ?? null,
+  });
+  if (consentError) {
+    await supabase.from('trained_identities').delete().eq('id', identityId);
+    throw consentError;
+  }
 
-    // Add README
-    const readme = `# ${identityName} Identity Model
+  const { data: job, error: jobError } = await supabase
+    .from('identity_training_jobs')
+    .insert({
+      identity_id: identityId,
+      user_id: userId,
+      image_storage_paths: imagePaths,
+      validation: (body.validation as TrainingImageReport | undefined) ?? {},
+    })
+    .select()
+    .single();
+  if (jobError) throw jobError;
+
+  return { job: await runJob(supabase, job as TrainingJob) };
+}
 
-This model was trained on ${imageFiles.length} images to learn the identity: **${identityName}**.
+async function handleStatus(supabase: SupabaseClient, userId: string, identityId?: string) {
+  let query = supabase
+    .from('identity_training_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (identityId) query = query.eq('identity_id', identityId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  // Latest job per identity
+  const latest = new Map<string, TrainingJob>();
+  for (const job of (data || []) as TrainingJob[]) {
+    if (!latest.has(job.identity_id)) latest.set(job.identity_id, job);
+  }
 
-## Usage
-This model is designed for use with FLUX image generation models for creating personalized images.
+  const jobs = await Promise.all([...latest.values()].map(async (job) => {
+    if (job.status === 'queued') return await runJob(supabase, job);
 
-## Training Details
-- **Model Type**: FLUX LoRA
-- **Number of Images**: ${imageFiles.length}
-- **Training Steps**: 1000
-- **Learning Rate**: 0.0004
-- **Resolution**: 512x512
+    const due = !job.last_polled_at || Date.now() - new Date(job.last_polled_at).getTime() > POLL_INTERVAL_MS;
+    if (job.status !== 'training' || !job.remote_job_id || !isTrainerConfigured() || !due) return job;
+    try {
+      return await applyRemoteStatus(supabase, job, await fetchTrainingStatus(job.remote_job_id));
+    } catch (error) {
+      console.error(`Polling training job ${job.id} failed:`, error);
+      return job;
+    }
+  }));
 
-## Privacy
-This model is private and intended for personal use only.
+  return { jobs };
+}
 
----
-*Trained with Solon AI Memory Platform*
-`;
-    files.push({
-      path: 'README.md',
-      content: new Blob([readme], { type: 'text/markdown' })
-    });
-    console.log('✅ Added README.md');
+async function handleRetry(supabase: SupabaseClient, userId: string, jobId: string) {
+  const job = await getJob(supabase, userId, jobId);
+  if (job.status !== 'failed' && job.status !== 'cancelled') {
+    throw new Error('Only failed or cancelled training can be retried');
+  }
+  if (job.attempts >= job.max_attempts) {
+    throw new Error(`Training was already attempted ${job.attempts} times`);
+  }
 
-    // Step 3: Upload all files to HuggingFace
-    console.log(`🚀 Uploading ${files.length} files to HuggingFace...`);
-    
-    // 🔧 FIX: Use 'commitMessage' instead of 'commitTitle' and 'commitDescription'
-    // The @huggingface/hub library expects 'commitMessage' as a single string parameter
-    try {
-      const uploadResult = await uploadFiles({
-        repo,
-        credentials,
-        files,
-        // ✅ CORRECT: Use commitMessage (single string)
-        commitMessage: `Upload training data for ${identityName} (${imageFiles.length} images)`,
-        // ❌ WRONG: Don't use commitTitle and commitDescription - these don't exist!
-        // commitTitle: "Upload training data",
-        // commitDescription: `Training ${identityName} with ${imageFiles.length} images`,
-      });
-
-      console.log('✅ Files uploaded successfully:', uploadResult);
-    } catch (error: any) {
-      console.error('❌ File upload failed:', error);
-      throw new Error(`Failed to upload files to HuggingFace: ${error.message}`);
-    }
+  const queued = await transitionJob(supabase, job, 'queued', { remote_job_id: null, error: null });
+  if (!queued) throw new Error('Training job changed, refresh and try again');
+  return { job: await runJob(supabase, queued) };
+}
 
-    // Step 4: Get repository URL
-    const modelUrl = `https://huggingface.co/${repoName}`;
-    console.log(`✅ Model available at: ${modelUrl}`);
+async function handleCancel(supabase: SupabaseClient, userId: string, jobId: string) {
+  const job = await getJob(supabase, userId, jobId);
+  if (!ACTIVE_JOB_STATUSES.includes(job.status)) {
+    throw new Error('Training is not running');
+  }
+  if (job.remote_job_id && isTrainerConfigured()) {
+    await cancelRemoteTraining(job.remote_job_id);
+  }
 
-    // Step 5: Save training record to Supabase
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+  const cancelled = await transitionJob(supabase, job, 'cancelled');
+  if (!cancelled) throw new Error('Training job changed, refresh and try again');
+  return { job: cancelled };
+}
 
-    const { error: dbError } = await supabaseClient
-      .from('trained_identities')
-      .insert({
-        user_id: userId,
-        name: identityName,
-        hf_model_id: repoName,
-        hf_repo_name: repoName,
-        num_training_images: imageFiles.length,
-        training_status: 'completed',
-        training_completed_at: new Date().toISOString(),
-        model_type: trainingConfig.model_type,
-      });
-
-    if (dbError) {
-      console.error('⚠️ Failed to save to database:', dbError);
-      // Don't throw - the HF upload succeeded, which is most important
-    } else {
-      console.log('✅ Training record saved to database');
+async function handleDelete(supabase: SupabaseClient, userId: string, identityId: string) {
+  const { data: identity, error: identityError } = await supabase
+    .from('trained_identities')
+    .select('id, name, hf_repo_name, image_storage_paths')
+    .eq('id', identityId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (identityError) throw identityError;
+  if (!identity) throw new Error('Identity not found');
+
+  const { data: jobs, error: jobsError } = await supabase
+    .from('identity_training_jobs')
+    .select('*')
+    .eq('identity_id', identityId);
+  if (jobsError) throw jobsError;
+
+  for (const job of (jobs || []) as TrainingJob[]) {
+    if (job.status === 'training' && job.remote_job_id && isTrainerConfigured()) {
+      await cancelRemoteTraining(job.remote_job_id);
     }
+  }
 
-    // Return success response
-    const response: TrainingResponse = {
-      success: true,
-      repoId: repoName,
-      modelUrl: modelUrl,
-    };
+  // Every repo this identity has had, so a retried job's repo goes too
+  const repos = new Set(
+    [identity.hf_repo_name, ...((jobs || []) as TrainingJob[]).map(job => job.hf_repo_name)].filter(Boolean) as string[],
+  );
+  for (const repoName of repos) {
+    await deleteRemoteModel(repoName);
+  }
 
-    return new Response(
-      JSON.stringify(response),
-      { 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
-      }
-    );
+  const paths = identity.image_storage_paths || [];
+  if (paths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(TRAINING_IMAGES_BUCKET).remove(paths);
+    if (storageError) console.error('Failed to remove training images:', storageError);
+  }
 
-  } catch (error: any) {
-    console.error('❌ Training failed:', error);
-    
-    const errorResponse: TrainingResponse = {
-      success: false,
-      error: error.message || 'Unknown error occurred'
-    };
+  const { data: consent } = await supabase
+    .from('identity_consents')
+    .select('subject_user_id')
+    .eq('identity_id', identityId)
+    .maybeSingle();
+
+  const { error } = await supabase
+    .from('trained_identities')
+    .delete()
+    .eq('id', identityId)
+    .eq('user_id', userId);
+  if (error) throw error;
+
+  // The consent goes with the identity; its history stays for the subject
+  const { error: logError } = await supabase.from('identity_consent_events').insert({
+    identity_id: identityId,
+    identity_name: identity.name,
+    owner_user_id: userId,
+    subject_user_id: consent?.subject_user_id ?? null,
+    actor_user_id: userId,
+    event: 'identity_deleted',
+    details: { deleted_repos: [...repos] },
+  });
+  if (logError) console.error('Failed to log identity deletion:', logError);
+
+  return { success: true, deleted_repos: [...repos] };
+}
 
-    return new Response(
-      JSON.stringify(errorResponse),
-      { 
-        status: 500,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        } 
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized - Missing authorization header" }, 401);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized - Invalid token" }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { action = 'status' } = body;
+
+    switch (action) {
+      case 'create': {
+        const userClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+          global: { headers: { Authorization: authHeader } },
+        });
+        return jsonResponse(await handleCreate(supabase, userClient, user.id, body));
       }
-    );
+      case 'status':
+        return jsonResponse(await handleStatus(supabase, user.id, body.identityId));
+      case 'retry':
+        return jsonResponse(await handleRetry(supabase, user.id, body.jobId));
+      case 'cancel':
+        return jsonResponse(await handleCancel(supabase, user.id, body.jobId));
+      case 'delete':
+        return jsonResponse(await handleDelete(supabase, user.id, body.identityId));
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+  } catch (error) {
+    console.error('Training request failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Training request failed' }, 500);
   }
 });
@@ -1,5 +1,5 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,6 +22,39 @@ const phonesMatch = (phone1: string, phone2: string) => {
   return norm1 === norm2;
 };
 
+// Accounts created when someone messaged Solin before signing up
+const isMessagingAccount = (metadata: Record<string, unknown> | undefined) =>
+  typeof metadata?.created_via === 'string' && metadata.created_via.endsWith('_webhook');
+
+/**
+ * Why this account can't verify the number, if it can't: it is shared as a
+ * household phone, or another account that signed up has verified it.
+ */
+async function findBlockingOwner(supabase: SupabaseClient, phoneNumber: string, userId: string): Promise<string | null> {
+  const { data: household } = await supabase
+    .from('household_phones')
+    .select('id')
+    .eq('phone_digits', normalizePhone(phoneNumber).replace(/^\+/, ''))
+    .maybeSingle();
+  if (household) {
+    return 'This number is shared as a household phone. Ask its owner for an invite code and join it under Household Phones.';
+  }
+
+  const { data: verifiedPhones } = await supabase
+    .from('user_phone_numbers')
+    .select('user_id, phone_number')
+    .eq('verified', true)
+    .neq('user_id', userId);
+
+  for (const phone of verifiedPhones?.filter(p => phonesMatch(p.phone_number, phoneNumber)) || []) {
+    const { data } = await supabase.auth.admin.getUserById(phone.user_id);
+    if (data?.user && !isMessagingAccount(data.user.user_metadata)) {
+      return 'This number is already linked to another account. To share one phone between several people, its owner can turn it into a household phone in Settings.';
+    }
+  }
+  return null;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -44,60 +77,50 @@ serve(async (req) => {
       });
     }
 
-    const { action, phone_number, verification_code } = await req.json();
+    const { action, phone_number, verification_code, label } = await req.json();
 
     if (action === 'send_code') {
       // Generate 6-digit code
       const code = Math.floor(100000 + Math.random() * 900000).toString();
       const expiresAt = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
 
-      // Check if phone already exists for another user (normalize for comparison)
-      const { data: allPhoneNumbers } = await supabase
-        .from('user_phone_numbers')
-        .select('user_id, phone_number');
-
-      let existingUserId = null;
-      if (allPhoneNumbers) {
-        for (const record of allPhoneNumbers) {
-          if (phonesMatch(record.phone_number, phone_number) && record.user_id !== user.id) {
-            existingUserId = record.user_id;
-            console.log(`📞 Found existing phone record for user ${existingUserId}`);
-            break;
-          }
-        }
+      const blocked = await findBlockingOwner(supabase, phone_number, user.id);
+      if (blocked) {
+        return new Response(
+          JSON.stringify({ error: blocked }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
 
-      // If phone belongs to a different user, update it to current user
-      // Otherwise insert new record
-      let insertError;
-      if (existingUserId) {
-        console.log(`🔄 Updating phone record from user ${existingUserId} to ${user.id}`);
-        const { error } = await supabase
-          .from('user_phone_numbers')
-          .update({
-            user_id: user.id,
-            phone_number,
-            verification_code: code,
-            verification_expires_at: expiresAt.toISOString(),
-            verified: false,
-            provider: 'whatsapp',
-            updated_at: new Date().toISOString(),
-          })
-          .eq('user_id', existingUserId);
-        insertError = error;
-      } else {
-        const { error } = await supabase
-          .from('user_phone_numbers')
-          .insert({
-            user_id: user.id,
-            phone_number,
-            verification_code: code,
-            verification_expires_at: expiresAt.toISOString(),
-            verified: false,
-            provider: 'whatsapp',
-          });
-        insertError = error;
-      }
+      // Each account can have several numbers; reuse this account's row for the number
+      const { data: ownPhones } = await supabase
+        .from('user_phone_numbers')
+        .select('id, phone_number')
+        .eq('user_id', user.id);
+      const ownPhone = ownPhones?.find(p => phonesMatch(p.phone_number, phone_number));
+
+      const { error: insertError } = ownPhone
+        ? await supabase
+            .from('user_phone_numbers')
+            .update({
+              phone_number,
+              label: label ?? undefined,
+              verification_code: code,
+              verification_expires_at: expiresAt.toISOString(),
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', ownPhone.id)
+        : await supabase
+            .from('user_phone_numbers')
+            .insert({
+              user_id: user.id,
+              phone_number,
+              label: label || null,
+              verification_code: code,
+              verification_expires_at: expiresAt.toISOString(),
+              verified: false,
+              provider: 'whatsapp',
+            });
 
       if (insertError) {
         console.error('Error inserting phone record:', insertError);
@@ -200,8 +223,21 @@ serve(async (req) => {
         );
       }
 
-      // Check if any OTHER user has this phone (potential merge scenario)
-      const otherUserPhones = matchingPhones.filter(p => p.user_id !== user.id);
+      // A real account may have verified the number since the code was sent
+      const blocked = await findBlockingOwner(supabase, phone_number, user.id);
+      if (blocked) {
+        return new Response(
+          JSON.stringify({ error: blocked }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Accounts created by messaging Solin from this number are merged into this one
+      const otherUserPhones = [];
+      for (const phone of matchingPhones.filter(p => p.user_id !== user.id)) {
+        const { data } = await supabase.auth.admin.getUserById(phone.user_id);
+        if (!data?.user || isMessagingAccount(data.user.user_metadata)) otherUserPhones.push(phone);
+      }
       
       if (otherUserPhones.length > 0) {
         console.log(`🔄 Found ${otherUserPhones.length} duplicate phone record(s) under different user(s). Starting merge...`);
@@ -318,6 +354,14 @@ serve(async (req) => {
         }
       }
 
+      // The first verified number is where Solin writes when it starts a conversation
+      const { data: primaryPhone } = await supabase
+        .from('user_phone_numbers')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('is_primary', true)
+        .maybeSingle();
+
       // Now update the current user's phone record to verified and normalized
       const { error: updateError } = await supabase
         .from('user_phone_numbers')
@@ -326,6 +370,7 @@ serve(async (req) => {
           phone_number: phone_number,
           verification_code: null,
           verification_expires_at: null,
+          ...(primaryPhone ? {} : { is_primary: true }),
         })
         .eq('id', currentUserPhone.id);
 
@@ -1,1496 +1,10 @@
-// WhatsApp webhook Edge Function (inlined adapters)
+// WhatsApp webhook Edge Function. Kept at this URL for the Meta and Twilio
+// webhook settings; the conversation is shared with the other messaging
+// channels (see _shared/solin-messaging.ts and messaging-webhook).
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
-import OpenAI from "https://esm.sh/openai@4.53.2";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { handleChannelWebhook } from "../_shared/solin-messaging.ts";
 
-class MetaWhatsAppAdapter {
-  name = 'meta';
-  accessToken;
-  phoneNumberId;
-  verifyToken;
-
-  constructor() {
-    this.accessToken = Deno.env.get('WHATSAPP_META_ACCESS_TOKEN') || '';
-    this.phoneNumberId = Deno.env.get('WHATSAPP_META_PHONE_NUMBER_ID') || '';
-    this.verifyToken = Deno.env.get('WHATSAPP_META_VERIFY_TOKEN') || 'solin_verify_token_2025';
-    
-    if (!this.accessToken || !this.phoneNumberId) {
-      console.warn('⚠️ Meta WhatsApp credentials not configured');
-    }
-  }
-
-  async verifyWebhook(request) {
-    const url = new URL(request.url);
-    const mode = url.searchParams.get('hub.mode');
-    const token = url.searchParams.get('hub.verify_token');
-    const challenge = url.searchParams.get('hub.challenge');
-
-    if (mode === 'subscribe' && token === this.verifyToken) {
-      return new Response(challenge || '', {
-        status: 200,
-        headers: { 'Content-Type': 'text/plain' }
-      });
-    }
-    return false;
-  }
-
-  async parseIncomingMessage(request) {
-    try {
-      const body = await request.json();
-      
-      if (body.object !== 'whatsapp_business_account') return null;
-
-      const entry = body.entry?.[0];
-      const changes = entry?.changes?.[0];
-      const value = changes?.value;
-
-      if (!value?.messages || value.messages.length === 0) return null;
-
-      const message = value.messages[0];
-      const from = message.from;
-      const messageId = message.id;
-      const timestamp = message.timestamp;
-
-      let text = '';
-      let mediaId = null;
-      let mediaType = null;
-      let mimeType = null;
-      let caption = null;
-
-      if (message.type === 'text') {
-        text = message.text?.body || '';
-      } else if (message.type === 'interactive') {
-        text = message.interactive?.button_reply?.title || 
-               message.interactive?.list_reply?.title || '';
-      } else if (message.type === 'image') {
-        mediaId = message.image?.id;
-        mediaType = 'image';
-        mimeType = message.image?.mime_type || 'image/jpeg';
-        caption = message.image?.caption || '';
-        text = caption;
-      } else if (message.type === 'video') {
-        mediaId = message.video?.id;
-        mediaType = 'video';
-        mimeType = message.video?.mime_type || 'video/mp4';
-        caption = message.video?.caption || '';
-        text = caption;
-      } else if (message.type === 'audio' || message.type === 'voice') {
-        mediaId = message.audio?.id || message.voice?.id;
-        mediaType = 'audio';
-        mimeType = message.audio?.mime_type || message.voice?.mime_type || 'audio/ogg';
-        text = '[Voice Note]'; // Placeholder, will be transcribed later
-      } else {
-        return null;
-      }
-
-      const metadata = value.metadata || {};
-
-      return {
-        from,
-        to: metadata.phone_number_id || this.phoneNumberId,
-        text,
-        messageId,
-        timestamp,
-        mediaId,
-        mediaType,
-        mimeType,
-        caption,
-        metadata: {
-          name: value.contacts?.[0]?.profile?.name,
-          provider: 'meta',
-          messageType: message.type
-        }
-      };
-    } catch (error) {
-      console.error('❌ Error parsing Meta message:', error);
-      return null;
-    }
-  }
-
-  async downloadMedia(mediaId) {
-    try {
-      // Get media URL from Meta
-      const urlResponse = await fetch(
-        `https://graph.facebook.com/v18.0/${mediaId}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.accessToken}`
-          }
-        }
-      );
-      
-      const urlData = await urlResponse.json();
-      if (!urlData.url) throw new Error('No media URL returned');
-
-      // Download the actual media file
-      const mediaResponse = await fetch(urlData.url, {
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`
-        }
-      });
-
-      if (!mediaResponse.ok) throw new Error('Failed to download media');
-
-      return {
-        data: await mediaResponse.arrayBuffer(),
-        mimeType: mediaResponse.headers.get('content-type') || 'application/octet-stream'
-      };
-    } catch (error) {
-      console.error('❌ Error downloading media:', error);
-      return null;
-    }
-  }
-
-  async uploadAudio(audioBuffer) {
-    try {
-      // Upload audio to Meta's media API
-      const formData = new FormData();
-      const blob = new Blob([audioBuffer], { type: 'audio/ogg; codecs=opus' });
-      formData.append('file', blob, 'audio.ogg');
-      formData.append('messaging_product', 'whatsapp');
-      formData.append('type', 'audio/ogg');
-
-      const uploadUrl = `https://graph.facebook.com/v18.0/${this.phoneNumberId}/media`;
-      const uploadResponse = await fetch(uploadUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-        },
-        body: formData
-      });
-
-      const uploadResult = await uploadResponse.json();
-      
-      if (!uploadResponse.ok) {
-        throw new Error(`Media upload error: ${JSON.stringify(uploadResult)}`);
-      }
-
-      return uploadResult.id; // Return media ID
-    } catch (error) {
-      console.error('❌ Error uploading audio to Meta:', error);
-      return null;
-    }
-  }
-
-  async sendMessage(options) {
-    try {
-      const url = `https://graph.facebook.com/v18.0/${this.phoneNumberId}/messages`;
-      
-      let messageBody;
-      
-      if (options.audioMediaId) {
-        // Send audio message
-        messageBody = {
-          messaging_product: 'whatsapp',
-          recipient_type: 'individual',
-          to: options.to,
-          type: 'audio',
-          audio: {
-            id: options.audioMediaId
-          }
-        };
-      } else {
-        // Send text message
-        messageBody = {
-          messaging_product: 'whatsapp',
-          recipient_type: 'individual',
-          to: options.to,
-          type: 'text',
-          text: {
-            preview_url: false,
-            body: options.message
-          }
-        };
-      }
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(messageBody)
-      });
-
-      const result = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(`Meta API error: ${JSON.stringify(result)}`);
-      }
-
-      return {
-        success: true,
-        messageId: result.messages?.[0]?.id
-      };
-    } catch (error) {
-      console.error('❌ Error sending Meta message:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
-  }
-}
-
-class TwilioWhatsAppAdapter {
-  name = 'twilio';
-  accountSid;
-  authToken;
-  fromNumber;
-
-  constructor() {
-    this.accountSid = Deno.env.get('TWILIO_ACCOUNT_SID') || '';
-    this.authToken = Deno.env.get('TWILIO_AUTH_TOKEN') || '';
-    this.fromNumber = Deno.env.get('TWILIO_WHATSAPP_NUMBER') || 'whatsapp:+14155238886';
-    
-    if (!this.accountSid || !this.authToken) {
-      console.warn('⚠️ Twilio credentials not configured');
-    }
-  }
-
-  async verifyWebhook(_) {
-    console.log('📱 Twilio webhook - signature validation recommended but skipped');
-    return true;
-  }
-
-  async parseIncomingMessage(request) {
-    try {
-      const formData = await request.formData();
-      
-      const from = formData.get('From')?.toString() || '';
-      const to = formData.get('To')?.toString() || '';
-      const body = formData.get('Body')?.toString() || '';
-      const messageSid = formData.get('MessageSid')?.toString() || '';
-      const profileName = formData.get('ProfileName')?.toString() || '';
-      const numMedia = parseInt(formData.get('NumMedia')?.toString() || '0');
-
-      const cleanFrom = from.replace('whatsapp:', '');
-      const cleanTo = to.replace('whatsapp:', '');
-
-      let mediaId = null;
-      let mediaType = null;
-      let mimeType = null;
-      let text = body;
-
-      // Handle media if present
-      if (numMedia > 0) {
-        const mediaUrl = formData.get('MediaUrl0')?.toString();
-        const mediaContentType = formData.get('MediaContentType0')?.toString();
-        
-        if (mediaUrl && mediaContentType) {
-          mediaId = mediaUrl;
-          mimeType = mediaContentType;
-          
-          if (mediaContentType.startsWith('image/')) {
-            mediaType = 'image';
-          } else if (mediaContentType.startsWith('video/')) {
-            mediaType = 'video';
-          } else if (mediaContentType.startsWith('audio/')) {
-            mediaType = 'audio';
-            text = '[Voice Note]';
-          }
-        }
-      }
-
-      return {
-        from: cleanFrom,
-        to: cleanTo,
-        text,
-        messageId: messageSid,
-        mediaId,
-        mediaType,
-        mimeType,
-        metadata: {
-          name: profileName,
-          provider: 'twilio'
-        }
-      };
-    } catch (error) {
-      console.error('❌ Error parsing Twilio message:', error);
-      return null;
-    }
-  }
-
-  async downloadMedia(mediaUrl) {
-    try {
-      const response = await fetch(mediaUrl, {
-        headers: {
-          'Authorization': 'Basic ' + btoa(`${this.accountSid}:${this.authToken}`)
-        }
-      });
-
-      if (!response.ok) throw new Error('Failed to download media from Twilio');
-
-      return {
-        data: await response.arrayBuffer(),
-        mimeType: response.headers.get('content-type') || 'application/octet-stream'
-      };
-    } catch (error) {
-      console.error('❌ Error downloading Twilio media:', error);
-      return null;
-    }
-  }
-
-  async sendMessage(options) {
-    try {
-      const url = `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
-      
-      const formBody = new URLSearchParams({
-        From: this.fromNumber,
-        To: `whatsapp:${options.to}`,
-        Body: options.message
-      });
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': 'Basic ' + btoa(`${this.accountSid}:${this.authToken}`),
-          'Content-Type': 'application/x-www-form-urlencoded'
-        },
-        body: formBody.toString()
-      });
-
-      const result = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(`Twilio API error: ${JSON.stringify(result)}`);
-      }
-
-      return {
-        success: true,
-        messageId: result.sid
-      };
-    } catch (error) {
-      console.error('❌ Error sending Twilio message:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-    }
-  }
-}
-
-function getWhatsAppAdapter(provider) {
-  const activeProvider = provider || Deno.env.get('WHATSAPP_PROVIDER') || 'meta';
-  
-  if (activeProvider === 'twilio') {
-    return new TwilioWhatsAppAdapter();
-  }
-  
-  return new MetaWhatsAppAdapter();
-}
-
-// -------- End inlined adapters --------
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type"
-};
-
-function getSupabaseAdmin() {
-  const url = Deno.env.get("SUPABASE_URL");
-  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-  if (!url || !serviceKey) throw new Error("Supabase environment not configured");
-  return createClient(url, serviceKey);
-}
-
-async function findOrCreateUserByPhone(supabase, phoneNumber) {
-  const { data: phoneRecord } = await supabase
-    .from('user_phone_numbers')
-    .select('user_id')
-    .eq('phone_number', phoneNumber)
-    .maybeSingle();
-
-  if (phoneRecord?.user_id) return phoneRecord.user_id;
-
-  const { data: newUser, error: createError } = await supabase.auth.admin.createUser({
-    phone: phoneNumber,
-    phone_confirm: true,
-    user_metadata: {
-      phone_number: phoneNumber,
-      source: 'whatsapp',
-      created_via: 'whatsapp_webhook'
-    }
-  });
-
-  if (createError || !newUser?.user) {
-    throw new Error(`Failed to create user: ${createError?.message}`);
-  }
-
-  await supabase.from('user_phone_numbers').insert({
-    user_id: newUser.user.id,
-    phone_number: phoneNumber,
-    verified: true,
-    provider: 'whatsapp'
-  });
-
-  // Create basic user_profiles entry for WhatsApp users
-  await supabase.from('user_profiles').insert({
-    user_id: newUser.user.id,
-    onboarding_completed: false,
-    profile_completeness_score: 0
-  }).then(() => {
-    console.log(`✅ Created user_profiles entry for WhatsApp user ${newUser.user.id}`);
-  }).catch((err) => {
-    console.warn(`⚠️ Could not create user_profiles (may already exist): ${err.message}`);
-  });
-
-  return newUser.user.id;
-}
-
-async function getOrCreateSession(supabase, userId, phoneNumber) {
-  const { data, error } = await supabase.rpc('get_or_create_whatsapp_session', {
-    p_user_id: userId,
-    p_phone_number: phoneNumber,
-    p_conversation_mode: 'chat'
-  });
-
-  if (error) throw error;
-  return data;
-}
-
-async function getSessionContext(supabase, sessionId) {
-  const { data } = await supabase
-    .from('whatsapp_sessions')
-    .select('context')
-    .eq('session_id', sessionId)
-    .single();
-  
-  return data?.context || {};
-}
-
-async function updateSessionContext(supabase, sessionId, context) {
-  await supabase
-    .from('whatsapp_sessions')
-    .update({ context })
-    .eq('session_id', sessionId);
-}
-
-async function uploadMediaAsArtifact(supabase, userId, mediaData, mimeType, filename) {
-  try {
-    const fileExt = mimeType.split('/')[1] || 'jpg';
-    const storagePath = `${userId}/${Date.now()}_${filename || 'media'}.${fileExt}`;
-    
-    // Upload to memory-images bucket
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('memory-images')
-      .upload(storagePath, mediaData, {
-        contentType: mimeType,
-        upsert: false
-      });
-
-    if (uploadError) throw uploadError;
-
-    // Create artifact record
-    const { data: artifactData, error: artifactError } = await supabase
-      .from('artifacts')
-      .insert({
-        artifact_type: mimeType.startsWith('image/') ? 'image' : mimeType.startsWith('video/') ? 'video' : 'audio',
-        storage_path: uploadData.path,
-        mime_type: mimeType,
-        file_name: filename
-      })
-      .select('id')
-      .single();
-
-    if (artifactError) throw artifactError;
-
-    return artifactData.id;
-  } catch (error) {
-    console.error('❌ Error uploading media artifact:', error);
-    return null;
-  }
-}
-
-async function linkArtifactToMemory(supabase, memoryId, artifactId) {
-  const { error } = await supabase
-    .from('memory_artifacts')
-    .insert({
-      memory_id: memoryId,
-      artifact_id: artifactId
-    });
-
-  if (error) {
-    console.error('❌ Error linking artifact to memory:', error);
-    return false;
-  }
-
-  return true;
-}
-
-async function transcribeAudio(audioData: ArrayBuffer, mimeType: string): Promise<string | null> {
-  try {
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      console.error('❌ OpenAI API key not configured');
-      return null;
-    }
-
-    // Create form data for Whisper API
-    const formData = new FormData();
-    const blob = new Blob([audioData], { type: mimeType });
-    formData.append('file', blob, 'audio.ogg');
-    formData.append('model', 'whisper-1');
-    formData.append('response_format', 'text');
-
-    console.log(`🎤 Transcribing audio (${mimeType})...`);
-
-    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ OpenAI Whisper API error: ${errorText}`);
-      return null;
-    }
-
-    const transcription = await response.text();
-    console.log(`✅ Transcription complete: "${transcription.substring(0, 100)}..."`);
-    
-    return transcription;
-  } catch (error) {
-    console.error('❌ Error transcribing audio:', error);
-    return null;
-  }
-}
-
-async function generateVoiceResponse(text: string): Promise<ArrayBuffer | null> {
-  try {
-    const ELEVENLABS_API_KEY = Deno.env.get('ELEVENLABS_API_KEY');
-    if (!ELEVENLABS_API_KEY) {
-      console.error('❌ ElevenLabs API key not configured');
-      return null;
-    }
-
-    // Use Solin's voice from the agent config
-    const voiceId = '9BWtsMINqrJLrRacOk9x'; // Aria voice
-    
-    console.log(`🎙️ Generating voice for text: "${text.substring(0, 50)}..."`);
-
-    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': ELEVENLABS_API_KEY,
-      },
-      body: JSON.stringify({
-        text,
-        model_id: 'eleven_turbo_v2_5',
-        voice_settings: {
-          stability: 0.71,
-          similarity_boost: 0.5
-        }
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ ElevenLabs API error: ${response.status} - ${errorText}`);
-      return null;
-    }
-
-    const audioBuffer = await response.arrayBuffer();
-    console.log(`✅ Voice generated: ${audioBuffer.byteLength} bytes`);
-    
-    return audioBuffer;
-  } catch (error) {
-    console.error('❌ Error generating voice:', error);
-    return null;
-  }
-}
-
-async function saveMessage(supabase, { userId, phoneNumber, direction, messageText, provider, providerMessageId, sessionId, memoryId }) {
-  const { data, error } = await supabase
-    .from('whatsapp_messages')
-    .insert({
-      user_id: userId,
-      phone_number: phoneNumber,
-      direction,
-      message_text: messageText,
-      provider,
-      provider_message_id: providerMessageId,
-      session_id: sessionId,
-      memory_id: memoryId,
-      status: 'delivered'
-    })
-    .select('id')
-    .single();
-
-  if (error) throw error;
-  return data;
-}
-
-async function getConversationContext(supabase, userId, sessionId, limit = 20) {
-  // Increased limit to 20 to maintain better context for memory discussions
-  const { data, error } = await supabase
-    .from('whatsapp_messages')
-    .select('direction, message_text, created_at')
-    .eq('user_id', userId)
-    .eq('session_id', sessionId)
-    .order('created_at', { ascending: false })
-    .limit(limit);
-
-  if (error) return [];
-
-  return (data || []).reverse().map((msg) => ({
-    role: msg.direction === 'inbound' ? 'user' : 'assistant',
-    content: msg.message_text
-  }));
-}
-
-async function searchRelevantMemories(supabase, userId, userMessage, limit = 5) {
-  // Get user's recent memories that might be relevant
-  const { data, error } = await supabase
-    .from('memories')
-    .select('id, title, text, memory_date, created_at, tags')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-    .limit(20); // Get more to search through
-
-  if (error || !data) {
-    console.error('Error fetching memories:', error);
-    return [];
-  }
-
-  // Check if this is a general query about memories
-  const messageLower = userMessage.toLowerCase();
-  const isGeneralQuery = messageLower.includes('what memories') || 
-                         messageLower.includes('any other memories') ||
-                         messageLower.includes('what else') ||
-                         messageLower.includes('what do you see') ||
-                         messageLower.includes('what do you have') ||
-                         messageLower.includes('show me');
-
-  // If it's a general query, return most recent complete memories
-  if (isGeneralQuery) {
-    return data
-      .filter(m => m.title && m.title !== 'Processing memory...' && m.text)
-      .slice(0, limit)
-      .map(m => ({
-        id: m.id,
-        title: m.title,
-        text: m.text.substring(0, 200),
-        date: m.memory_date || m.created_at
-      }));
-  }
-
-  // Otherwise use keyword matching for specific queries
-  const keywords = messageLower.split(' ').filter(word => word.length > 3);
-
-  const scoredMemories = data.map(memory => {
-    const memoryText = `${memory.title} ${memory.text}`.toLowerCase();
-    const score = keywords.reduce((acc, keyword) => {
-      return acc + (memoryText.includes(keyword) ? 1 : 0);
-    }, 0);
-
-    return { ...memory, relevanceScore: score };
-  });
-
-  // For specific queries, prefer relevant matches but include recent ones if no matches
-  const relevant = scoredMemories
-    .filter(m => m.relevanceScore > 0 && m.title !== 'Processing memory...')
-    .sort((a, b) => b.relevanceScore - a.relevanceScore)
-    .slice(0, limit);
-
-  // If we have good matches, return them
-  if (relevant.length >= 3) {
-    return relevant.map(m => ({
-      id: m.id,
-      title: m.title,
-      text: m.text.substring(0, 200),
-      date: m.memory_date || m.created_at
-    }));
-  }
-
-  // Otherwise fill with recent memories
-  const recentMemories = data
-    .filter(m => m.title && m.title !== 'Processing memory...')
-    .slice(0, limit);
-
-  return recentMemories.map(m => ({
-    id: m.id,
-    title: m.title,
-    text: m.text.substring(0, 200),
-    date: m.memory_date || m.created_at
-  }));
-}
-
-async function generateSolinResponse(userMessage, conversationHistory, userName, relevantMemories = [], sessionContext = {}) {
-  const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-  if (!OPENAI_API_KEY) throw new Error("OpenAI API key not configured");
-
-  const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-  let memoryContext = '';
-  if (relevantMemories.length > 0) {
-    memoryContext = '\n\nRelevant memories:\n' + 
-      relevantMemories.map(m => 
-        `- When you ${m.title.toLowerCase()}: ${m.text}`
-      ).join('\n');
-  }
-
-  // Check if user is confirming to save a memory
-  const confirmationKeywords = ['yes', 'yeah', 'yep', 'sure', 'ok', 'okay', 'please', 'definitely', 'go ahead', 'do it', 'done', 'got it', 'yup', 'absolutely', 'of course'];
-  const denyKeywords = ['no', 'nope', 'don\'t', 'not', 'cancel', 'skip', 'never mind'];
-  
-  const userMessageLower = userMessage.toLowerCase();
-  const hasDenyKeyword = denyKeywords.some(word => userMessageLower.includes(word));
-  const hasConfirmKeyword = confirmationKeywords.some(word => userMessageLower.includes(word));
-  
-  // Check if user explicitly wants to save NOW
-  const explicitSaveKeywords = ['save', 'save it', 'save this', 'save the memory', 'save memory'];
-  const wantsToSaveNow = explicitSaveKeywords.some(word => userMessageLower.includes(word));
-  
-  const isConfirmingSave = sessionContext.awaiting_save_confirmation && 
-    hasConfirmKeyword && !hasDenyKeyword;
-
-  // Build context about what info we have/need
-  const discussionCount = sessionContext.memory_discussion_count || 0;
-  const hasDate = sessionContext.has_date || false;
-  const hasPlace = sessionContext.has_place || false;
-  // Ready to save after 3+ exchanges, but allow continued conversation if user wants
-  const readyToSave = discussionCount >= 3;
-  // Only push to save if user explicitly asks OR after 5+ exchanges
-  const shouldSaveNow = wantsToSaveNow || discussionCount >= 5;
-  
-  const systemPrompt = `You are Solin, a warm childhood friend helping ${userName || 'your friend'} preserve life memories over WhatsApp.
-
-PERSONALITY:
-- Playful, fun, and supportive - like a close friend from childhood
-- Culturally neutral - avoid strong Americanisms 
-- Keep responses SHORT (2-3 sentences max)
-- Sound like someone their age, not a formal assistant
-
-MEMORY MODES (explain when user asks "capabilities" or "what can you do"):
-1. 🕰️ PAST/ANCESTOR MEMORIES: Stories about ancestors, grandparents, family history before user's birth
-   - User can share "My grandmother told me..." or "Back in 1920, my great-grandfather..."
-   - These appear in a special "Ancestors" section on the timeline
-   
-2. 📝 PRESENT MEMORIES: Daily journals and current life memories
-   - The default mode for sharing experiences from user's lifetime
-   - Dates from birth year to present
-   
-3. 🔮 FUTURE MESSAGES: Time-locked messages for the future
-   - User can say "I want to write a message for my future self" or "Save this for 2035"
-   - Messages stay locked until the target date (with password override option)
-   - Example: Birthday messages, life advice, time capsules
-
-CAPABILITIES COMMAND:
-If user says "capabilities", "what can you do", "help", or "commands", respond with:
-"✨ Here's what I can help you with:
-
-🕰️ **Ancestor Memories** - Share stories about your grandparents, great-grandparents, or family history
-📝 **Present Memories** - Journal your daily life and capture current experiences  
-🔮 **Future Messages** - Create time-locked messages that unlock on a specific date
-
-Just start sharing and I'll help you preserve it! Say 'save' anytime to save what we've discussed."
-
-YOUR APPROACH TO MEMORIES:
-1. When someone shares a story, ask 1-2 follow-up questions to understand it better
-2. Focus on: feelings, specific details, why it mattered, who was involved
-3. Naturally ask about WHEN and WHERE if not mentioned yet
-4. After exploring sufficiently (3+ exchanges), you CAN save but let user continue if they want
-5. If user says "save" explicitly, save immediately
-
-MEMORY SAVING RULES:
-- Include [SAVE_MEMORY: title] when you have enough context AND:
-  * User explicitly asks to save, OR
-  * You've had 5+ exchanges about the memory, OR
-  * User seems to be wrapping up the story
-- Add date if known: [SAVE_MEMORY: title | YYYY or YYYY-MM or YYYY-MM-DD]
-- Add location if known: [SAVE_MEMORY: title | date | location]
-- For ANCESTOR memories (dates before user's lifetime): use historical dates like 1920, 1945, etc.
-- For FUTURE messages: use future dates like 2030, 2035-01-01, etc.
-- Examples:
-  * [SAVE_MEMORY: First day at university | 2015-09 | Boston]
-  * [SAVE_MEMORY: Grandmother's cooking lessons | 1955 | Mumbai] (ancestor memory)
-  * [SAVE_MEMORY: Letter to my future self | 2035-01-01] (future message)
-  * [SAVE_MEMORY: Beach vacation with family]
-- IMPORTANT: Don't rush to save! Let users share more if they want to.
-- You can save even without date/location - those can be added later
-
-CURRENT CONVERSATION STATE:
-- Discussion exchanges: ${discussionCount}
-- Date mentioned: ${hasDate ? 'YES' : 'NO - try to ask naturally'}
-- Location mentioned: ${hasPlace ? 'YES' : 'NO - try to ask naturally'}
-- User wants to save now: ${wantsToSaveNow ? 'YES - include [SAVE_MEMORY] marker!' : 'NO'}
-${shouldSaveNow ? '- READY TO SAVE: Include [SAVE_MEMORY: title] in your response!' : readyToSave ? '- ENOUGH CONTEXT: Can save if user seems done, but OK to continue conversation' : ''}
-
-RELEVANT PAST MEMORIES:${memoryContext || '\n(No relevant memories found)'}
-
-RESPONSE GUIDELINES:
-- If user says "capabilities", "help", "commands": explain all memory modes
-- If user says "save": acknowledge and include [SAVE_MEMORY: title | date | location]
-- If they're still sharing details: engage warmly and ask follow-ups
-- If you need more context: ask ONE follow-up question
-- If missing date: ask "When was this?" or "What year?"
-- If missing location: ask "Where did this happen?"
-- For ancestor stories: ask "What year was this?" or "When did this happen?"
-- For future messages: ask "When should this be unlocked?" or "What date in the future?"
-- DO NOT say "Any photos or videos" in your response - that will be handled separately
-
-Remember: Users share precious memories across all time periods. Be warm, attentive, and make them feel heard.`;
-
-  const messages = [
-    { role: "system", content: systemPrompt },
-    ...conversationHistory,
-    { role: "user", content: userMessage }
-  ];
-
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4.1-2025-04-14",
-    messages: messages,
-    max_completion_tokens: 500
-  });
-
-  const responseText = completion.choices[0]?.message?.content || "I'm here to listen and remember with you.";
-
-  // Check for save marker - support both old and new formats
-  const saveMatch = responseText.match(/\[(AUTO_)?SAVE_MEMORY:\s*([^\]]+)\]/i);
-  const shouldCreateMemory = !!saveMatch;
-  const cleanResponse = responseText.replace(/\[(AUTO_)?SAVE_MEMORY:\s*[^\]]+\]/gi, '').trim();
-  
-  // Parse save details if present (format: title | date | location)
-  let memoryDetails = null;
-  if (saveMatch) {
-    // saveMatch[2] contains the actual content after "SAVE_MEMORY:"
-    const parts = saveMatch[2].split('|').map(p => p.trim());
-    memoryDetails = {
-      title: parts[0] || 'Memory',
-      date: parts[1] || null,
-      location: parts[2] || null
-    };
-    console.log(`💾 AI marking for save:`, memoryDetails);
-  }
-  
-  // No longer checking for "Want me to save" - all saves are automatic
-  const isAskingToSave = false;
-
-  return {
-    response: cleanResponse,
-    shouldCreateMemory,
-    memoryContent: shouldCreateMemory ? userMessage : undefined,
-    memoryDetails, // Include extracted details
-    isAskingToSave
-  };
-}
-
-async function createMemoryFromMessage(supabase, userId, conversationHistory, sessionContext, memoryDetails = null) {
-  console.log('💾 Creating memory from WhatsApp conversation...');
-  console.log(`📊 Memory details received:`, JSON.stringify(memoryDetails));
-  console.log(`📊 Session context:`, JSON.stringify({
-    discussion_count: sessionContext.memory_discussion_count,
-    has_date: sessionContext.has_date,
-    has_place: sessionContext.has_place
-  }));
-  console.log(`📊 Conversation history length: ${conversationHistory.length} messages`);
-  
-  // Get ALL conversation history for this memory discussion (up to last 20 messages)
-  // This ensures we capture date, location, and context mentioned earlier in the conversation
-  const relevantExchanges = conversationHistory.slice(-20);
-  const memoryText = relevantExchanges
-    .map(msg => `${msg.role === 'user' ? 'Me' : 'Solin'}: ${msg.content}`)
-    .join('\n\n');
-  
-  console.log(`📝 Memory text length: ${memoryText.length} characters, using ${relevantExchanges.length} messages`);
-  
-  // Parse date safely
-  let parsedDate = null;
-  if (memoryDetails?.date) {
-    try {
-      const dateObj = new Date(memoryDetails.date);
-      if (!isNaN(dateObj.getTime())) {
-        parsedDate = dateObj.toISOString().split('T')[0];
-      }
-    } catch (e) {
-      console.log(`⚠️ Could not parse date: ${memoryDetails.date}`);
-    }
-  }
-  
-  // Determine if memory is complete (has valid date and location)
-  const isComplete = !!parsedDate && !!memoryDetails?.location;
-  const status = isComplete ? 'complete' : 'incomplete';
-  
-  console.log(`📊 Memory status: ${status}`, { 
-    hasDate: !!parsedDate, 
-    hasLocation: !!memoryDetails?.location 
-  });
-  
-  // Create initial memory
-  const { data, error } = await supabase
-    .from('memories')
-    .insert({
-      user_id: userId,
-      title: memoryDetails?.title || 'Processing memory...',
-      text: memoryText,
-      tags: isComplete ? ['whatsapp'] : ['whatsapp', 'incomplete', 'needs_review'],
-      recipient: 'private',
-      source_type: 'whatsapp',
-      memory_date: parsedDate,
-      memory_location: memoryDetails?.location || null,
-      show_on_timeline: isComplete,
-      status: status,
-      needs_review: !isComplete,
-      is_primary_chunk: true,
-      metadata: {
-        auto_saved: true,
-        saved_at: new Date().toISOString(),
-        completion_status: isComplete ? 'complete' : 'missing_details'
-      }
-    })
-    .select('id')
-    .single();
-
-  if (error) {
-    console.error('❌ Error creating memory:', error);
-    throw error;
-  }
-
-  console.log(`✅ Memory created: ${data.id} (${status})`);
-
-  // Only trigger AI insights for complete memories
-  if (isComplete) {
-    // Trigger AI insights extraction via edge function (background task)
-    const insightsTask = supabase.functions
-      .invoke('process-memory-insights', {
-        body: {
-          memory_id: data.id,
-          conversation_text: memoryText,
-          user_id: userId
-        }
-      })
-      .then(({ data: result, error: invokeError }) => {
-        if (invokeError) {
-          console.error(`❌ Failed to invoke insights processing for ${data.id}:`, invokeError);
-        } else {
-          console.log(`✅ Insights processing completed for ${data.id}`);
-        }
-      })
-      .catch((err) => {
-        console.error(`❌ Exception invoking insights for ${data.id}:`, err);
-      });
-
-    // Use EdgeRuntime.waitUntil to ensure background task completes
-    if (typeof EdgeRuntime !== 'undefined' && EdgeRuntime.waitUntil) {
-      EdgeRuntime.waitUntil(insightsTask);
-      console.log(`⏳ Background task registered for memory ${data.id}`);
-    }
-  } else {
-    console.log(`⏭️ Skipping AI insights for incomplete memory ${data.id}`);
-  }
-
-  return data.id;
-}
-
-// Note: Memory AI processing now handled by separate process-memory-insights edge function
-// See lines 854-872 for invocation
-
-serve(async (req) => {
-  const url = new URL(req.url);
-
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const provider = url.searchParams.get('provider') || Deno.env.get('WHATSAPP_PROVIDER') || 'meta';
-    const adapter = getWhatsAppAdapter(provider);
-
-    if (req.method === "GET") {
-      const verifyResult = await adapter.verifyWebhook(req);
-      if (verifyResult instanceof Response) return verifyResult;
-      if (verifyResult === true) {
-        return new Response("Webhook verified", { status: 200 });
-      }
-      return new Response("Verification failed", { status: 403 });
-    }
-
-    if (req.method === "POST") {
-      const message = await adapter.parseIncomingMessage(req);
-      
-      if (!message) {
-        return new Response(
-          JSON.stringify({ success: true, message: 'No message' }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      const supabase = getSupabaseAdmin();
-      
-      // Check if this phone number is verified and linked to an account (flexible matching)
-      const { data: allVerifiedPhones } = await supabase
-        .from('user_phone_numbers')
-        .select('user_id, phone_number')
-        .eq('verified', true);
-      
-      // Helper to normalize phone for matching
-      const normalizePhone = (phone: string) => phone.replace(/[^\d+]/g, '');
-      const phonesMatch = (phone1: string, phone2: string) => {
-        const norm1 = normalizePhone(phone1);
-        const norm2 = normalizePhone(phone2);
-        return norm1 === norm2 || norm1 === `+${norm2}` || `+${norm1}` === norm2;
-      };
-      
-      // Find matching verified phone
-      const verifiedPhone = allVerifiedPhones?.find(p => phonesMatch(p.phone_number, message.from));
-      
-      let userId: string;
-      if (verifiedPhone) {
-        userId = verifiedPhone.user_id;
-        console.log(`✅ Using verified account: ${userId}`);
-      } else {
-        userId = await findOrCreateUserByPhone(supabase, message.from);
-      }
-      
-      const sessionId = await getOrCreateSession(supabase, userId, message.from);
-
-      // Get session context to check if we're expecting media
-      let sessionContext = await getSessionContext(supabase, sessionId);
-
-      // Handle voice notes - transcribe them first
-      if (message.mediaType === 'audio' && message.mediaId) {
-        console.log(`🎤 Processing voice note from ${message.from}`);
-        
-        const audioData = await adapter.downloadMedia(message.mediaId);
-        if (audioData) {
-          const transcription = await transcribeAudio(audioData.data, message.mimeType);
-          if (transcription) {
-            message.text = transcription;
-            console.log(`✅ Voice note transcribed: "${transcription.substring(0, 100)}..."`);
-            
-            // Send transcription back to user for reference
-            const transcriptMessage = `🎤 _"${transcription}"_`;
-            await adapter.sendMessage({
-              to: message.from,
-              message: transcriptMessage
-            });
-            
-            await saveMessage(supabase, {
-              userId,
-              phoneNumber: message.from,
-              direction: 'outbound',
-              messageText: transcriptMessage,
-              provider: adapter.name,
-              sessionId
-            });
-          } else {
-            console.error('❌ Failed to transcribe voice note');
-            message.text = '[Voice note - transcription failed]';
-          }
-        } else {
-          console.error('❌ Failed to download voice note');
-          message.text = '[Voice note - download failed]';
-        }
-      }
-
-      // Handle media upload if user sent an image/video (not audio)
-      // This can happen either:
-      // 1. While awaiting_media_response (before memory is created) - store artifact IDs for later
-      // 2. While awaiting_media_for_memory (after memory exists) - link directly to memory
-      if (message.mediaId && message.mediaType !== 'audio' && 
-          (sessionContext.awaiting_media_response || sessionContext.awaiting_media_for_memory)) {
-        
-        const mediaData = await adapter.downloadMedia(message.mediaId);
-        if (mediaData) {
-          const artifactId = await uploadMediaAsArtifact(
-            supabase,
-            userId,
-            new Uint8Array(mediaData.data),
-            message.mimeType,
-            `whatsapp_${message.messageId}`
-          );
-
-          if (artifactId) {
-            if (sessionContext.awaiting_media_for_memory) {
-              // Memory already exists - link directly
-              console.log(`📸 Linking media to existing memory ${sessionContext.awaiting_media_for_memory}`);
-              await linkArtifactToMemory(supabase, sessionContext.awaiting_media_for_memory, artifactId);
-            } else {
-              // Memory not created yet - store artifact ID for later
-              console.log(`📸 Storing artifact ${artifactId} for pending memory`);
-              sessionContext.pending_artifact_ids = sessionContext.pending_artifact_ids || [];
-              sessionContext.pending_artifact_ids.push(artifactId);
-            }
-            
-            sessionContext.media_count = (sessionContext.media_count || 0) + 1;
-            await updateSessionContext(supabase, sessionId, sessionContext);
-
-            const response = "Got it! 📸 Feel free to send more photos/videos, or just say 'done' when you're finished.";
-            
-            await saveMessage(supabase, {
-              userId,
-              phoneNumber: message.from,
-              direction: 'outbound',
-              messageText: response,
-              provider: adapter.name,
-              sessionId
-            });
-
-            await adapter.sendMessage({
-              to: message.from,
-              message: response,
-              sessionId
-            });
-
-            return new Response(
-              JSON.stringify({ success: true, mediaUploaded: true }),
-              { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-            );
-          }
-        }
-      }
-
-      // Check if user is done uploading media OR declining to add media
-      const userTextLower = message.text.toLowerCase();
-      const isDoneKeyword = userTextLower.includes('done') || 
-                           userTextLower.includes('no more') ||
-                           userTextLower.includes('that\'s all') ||
-                           userTextLower.includes('that is all') ||
-                           userTextLower.includes('thats all');
-      const isDeclineMedia = (userTextLower.includes('no') && !userTextLower.includes('no more')) ||
-                            userTextLower.includes('don\'t have') ||
-                            userTextLower.includes('dont have') ||
-                            userTextLower.includes('nope') ||
-                            userTextLower.includes('skip');
-      
-      // Handle completion when we're waiting for media response (before memory created)
-      const isReadyToCreateMemory = sessionContext.awaiting_media_response && 
-                                   sessionContext.pending_memory_details &&
-                                   (isDoneKeyword || isDeclineMedia);
-      
-      // Handle completion when memory already exists (legacy flow)
-      const isDoneWithExistingMemory = sessionContext.awaiting_media_for_memory && isDoneKeyword;
-
-      if (isReadyToCreateMemory) {
-        console.log(`💾 User done with media - NOW creating memory with ${sessionContext.pending_artifact_ids?.length || 0} artifacts`);
-        
-        // NOW create the memory with the stored conversation
-        const memoryId = await createMemoryFromMessage(
-          supabase, 
-          userId, 
-          sessionContext.pending_memory_conversation || conversationHistory, 
-          sessionContext, 
-          sessionContext.pending_memory_details
-        );
-        
-        console.log(`✅ Memory created: ${memoryId}`);
-        
-        // Link any pending artifacts to the newly created memory
-        if (sessionContext.pending_artifact_ids && sessionContext.pending_artifact_ids.length > 0) {
-          for (const artifactId of sessionContext.pending_artifact_ids) {
-            await linkArtifactToMemory(supabase, memoryId, artifactId);
-            console.log(`📎 Linked artifact ${artifactId} to memory ${memoryId}`);
-          }
-        }
-        
-        // Clear all pending state
-        sessionContext.awaiting_media_response = false;
-        sessionContext.pending_memory_details = null;
-        sessionContext.pending_memory_conversation = null;
-        sessionContext.pending_artifact_ids = null;
-        await updateSessionContext(supabase, sessionId, sessionContext);
-        
-        const mediaCount = sessionContext.media_count || 0;
-        const memoryTitle = sessionContext.last_saved_memory_title || 'your memory';
-        const response = mediaCount > 0 
-          ? `Perfect! Saved "${memoryTitle}" with ${mediaCount} photo(s)/video(s) to your timeline 💫`
-          : `Got it! Saved "${memoryTitle}" to your timeline 💫`;
-        
-        await saveMessage(supabase, {
-          userId,
-          phoneNumber: message.from,
-          direction: 'outbound',
-          messageText: response,
-          provider: adapter.name,
-          sessionId
-        });
-
-        await adapter.sendMessage({
-          to: message.from,
-          message: response,
-          sessionId
-        });
-
-        return new Response(
-          JSON.stringify({ success: true, memoryCreated: true, memoryId }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      
-      // Handle "done" when memory already exists (legacy support)
-      if (isDoneWithExistingMemory) {
-        sessionContext.awaiting_media_for_memory = null;
-        await updateSessionContext(supabase, sessionId, sessionContext);
-        
-        const response = `Perfect! I've saved ${sessionContext.media_count || 0} item(s) with your memory. 💫`;
-        
-        await saveMessage(supabase, {
-          userId,
-          phoneNumber: message.from,
-          direction: 'outbound',
-          messageText: response,
-          provider: adapter.name,
-          sessionId
-        });
-
-        // Generate voice response if user sent a voice note
-        let audioMediaId = null;
-        if (message.mediaType === 'audio') {
-          console.log('🎙️ User sent voice, responding with voice...');
-          const audioBuffer = await generateVoiceResponse(response);
-          if (audioBuffer && adapter.uploadAudio) {
-            audioMediaId = await adapter.uploadAudio(audioBuffer);
-            if (audioMediaId) {
-              console.log(`✅ Voice response uploaded: ${audioMediaId}`);
-              
-              // Send voice response
-              await adapter.sendMessage({
-                to: message.from,
-                audioMediaId,
-                sessionId
-              });
-              
-              // Also send text version for reference
-              const textReference = `💬 _"${response}"_`;
-              await adapter.sendMessage({
-                to: message.from,
-                message: textReference,
-                sessionId
-              });
-              
-              return new Response(
-                JSON.stringify({ success: true, voiceResponse: true }),
-                { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-              );
-            }
-          }
-        }
-
-        // Send text response if not voice
-        await adapter.sendMessage({
-          to: message.from,
-          message: response,
-          sessionId
-        });
-
-        return new Response(
-          JSON.stringify({ success: true }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      await saveMessage(supabase, {
-        userId,
-        phoneNumber: message.from,
-        direction: 'inbound',
-        messageText: message.text,
-        provider: adapter.name,
-        providerMessageId: message.messageId,
-        sessionId
-      });
-
-      const conversationHistory = await getConversationContext(supabase, userId, sessionId);
-      const relevantMemories = await searchRelevantMemories(supabase, userId, message.text);
-      
-      // Fetch user's name from both users and user_profiles tables
-      const [usersResult, profileResult] = await Promise.all([
-        supabase.from('users').select('name').eq('user_id', userId).maybeSingle(),
-        supabase.from('user_profiles').select('preferred_name').eq('user_id', userId).maybeSingle()
-      ]);
-      
-      const userName = profileResult.data?.preferred_name || usersResult.data?.name || message.metadata?.name || 'friend';
-
-      console.log(`📚 Found ${relevantMemories.length} relevant memories for context`);
-
-      // Get session context for memory discussion tracking
-      sessionContext = await getSessionContext(supabase, sessionId);
-      
-      // Detect if this message is part of an ongoing memory discussion
-      const isMemoryDiscussion = message.text.length > 50 || 
-        conversationHistory.slice(-3).some(msg => 
-          msg.role === 'assistant' && (
-            msg.content.includes('?') || 
-            msg.content.toLowerCase().includes('tell me') ||
-            msg.content.toLowerCase().includes('what')
-          )
-        );
-
-      if (isMemoryDiscussion) {
-        sessionContext.memory_discussion_count = (sessionContext.memory_discussion_count || 0) + 1;
-        
-        // Check if date and place have been mentioned - improved detection
-        const messageLower = message.text.toLowerCase();
-        const conversationTextLower = conversationHistory.map(m => m.content).join(' ').toLowerCase();
-        
-        // Enhanced date detection - check both current message AND conversation history
-        const datePatterns = [
-          /\b(19|20)\d{2}\b/,  // Years like 1995, 2008
-          /\b\d{1,2}[\/\-\.]\d{1,2}[\/\-\.]\d{2,4}\b/,  // Dates like 12/25/2000, 25-12-2000
-          /(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-          /(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\s*\.?\s*\d/i,  // Jan 5, Feb. 12
-          /\b(last|this|next)\s+(year|month|week|summer|winter|spring|fall)/i,
-          /\bwhen\s+i\s+was\s+\d+/i,  // "when I was 10"
-          /\b\d+\s*years?\s*(ago|old)/i,  // "5 years ago", "10 years old"
-          /\b(childhood|teenager|college|university|school|kid|young)/i,  // Life stage references
-        ];
-        
-        const hasDateInfo = datePatterns.some(pattern => 
-          pattern.test(message.text) || pattern.test(conversationTextLower)
-        );
-        
-        // Enhanced place detection - check both current message AND conversation history
-        const placePatterns = [
-          /\b(in|at|from|near|around)\s+[A-Z][a-z]+/,  // "in Paris", "at London"
-          /\b[A-Z][a-z]+,\s*[A-Z][a-z]+/,  // "Paris, France"
-          /\b(home|house|apartment|school|work|office|church|hospital|park|beach|mountain)/i,
-          /\b(street|road|avenue|boulevard|drive|lane|way)\b/i,
-          /\b(city|town|village|country|state|province)\b/i,
-        ];
-        
-        const hasPlaceInfo = placePatterns.some(pattern => 
-          pattern.test(message.text) || pattern.test(conversationHistory.map(m => m.content).join(' '))
-        );
-        
-        if (hasDateInfo) sessionContext.has_date = true;
-        if (hasPlaceInfo) sessionContext.has_place = true;
-        sessionContext.has_date_and_place = sessionContext.has_date && sessionContext.has_place;
-        
-        // Store extracted info for AI context
-        sessionContext.detected_date_hints = hasDateInfo;
-        sessionContext.detected_place_hints = hasPlaceInfo;
-      } else {
-        // Only reset if this is clearly a new topic (not just a short response)
-        if (message.text.length > 100 && !message.text.toLowerCase().includes('yes') && 
-            !message.text.toLowerCase().includes('no')) {
-          sessionContext.memory_discussion_count = 0;
-          sessionContext.has_date = false;
-          sessionContext.has_place = false;
-          sessionContext.has_date_and_place = false;
-        }
-      }
-
-      let { response, shouldCreateMemory, memoryContent, memoryDetails, isAskingToSave } = await generateSolinResponse(
-        message.text,
-        conversationHistory,
-        userName,
-        relevantMemories,
-        sessionContext
-      );
-
-      // Fallback: If AI didn't save but we've had 4+ exchanges about a memory, force a save
-      if (!shouldCreateMemory && sessionContext.memory_discussion_count >= 4 && 
-          (sessionContext.has_date || sessionContext.has_place)) {
-        console.log('⚠️ AI did not include save marker after 4+ exchanges - forcing save');
-        shouldCreateMemory = true;
-        
-        // Try to extract a title from recent conversation
-        const recentUserMessages = conversationHistory
-          .filter(m => m.role === 'user')
-          .slice(-3)
-          .map(m => m.content)
-          .join(' ');
-        
-        memoryDetails = {
-          title: recentUserMessages.substring(0, 50) + '...',
-          date: null,
-          location: null
-        };
-      }
-
-      // No longer tracking awaiting_save_confirmation since saves are automatic
-      sessionContext.awaiting_save_confirmation = false;
-      await updateSessionContext(supabase, sessionId, sessionContext);
-
-      let memoryId = null;
-      if (shouldCreateMemory) {
-        // DON'T create memory yet - store pending details and ask about media first
-        console.log(`📋 Memory ready to save - storing pending details and asking about media`);
-        
-        // Store pending memory details in session context (NOT in database yet)
-        sessionContext.pending_memory_details = memoryDetails;
-        sessionContext.pending_memory_conversation = conversationHistory.slice(-20); // Store conversation for later
-        sessionContext.awaiting_media_response = true; // Flag to track we're waiting for media decision
-        sessionContext.last_saved_memory_title = memoryDetails?.title || 'Memory';
-        
-        // Reset memory discussion tracking
-        sessionContext.memory_discussion_count = 0;
-        sessionContext.has_date = false;
-        sessionContext.has_place = false;
-        sessionContext.has_date_and_place = false;
-        sessionContext.media_count = 0;
-        await updateSessionContext(supabase, sessionId, sessionContext);
-
-        // Ask about photos/videos BEFORE saving the memory
-        const mediaQuestion = `Got it! Before I save "${memoryDetails?.title || 'this memory'}", do you have any photos or videos to add? 📸\n\nSend them now, or say "done" if you don't have any.`;
-        
-        await saveMessage(supabase, {
-          userId,
-          phoneNumber: message.from,
-          direction: 'outbound',
-          messageText: mediaQuestion,
-          provider: adapter.name,
-          sessionId
-        });
-
-        await adapter.sendMessage({
-          to: message.from,
-          message: mediaQuestion,
-          sessionId
-        });
-
-        return new Response(
-          JSON.stringify({
-            success: true,
-            messageId: message.messageId,
-            memoryPending: true,
-            awaitingMedia: true
-          }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      await saveMessage(supabase, {
-        userId,
-        phoneNumber: message.from,
-        direction: 'outbound',
-        messageText: response,
-        provider: adapter.name,
-        sessionId,
-        memoryId: memoryId || undefined
-      });
-
-      const sendResult = await adapter.sendMessage({
-        to: message.from,
-        message: response,
-        sessionId
-      });
-
-      return new Response(
-        JSON.stringify({
-          success: true,
-          messageId: sendResult.messageId,
-          memoryCreated: !!memoryId
-        }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    return new Response("Method not allowed", { status: 405 });
-  } catch (error) {
-    console.error("❌ WhatsApp webhook error:", error);
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : "Unknown error",
-        success: false
-      }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
+serve((req) => {
+  const provider = new URL(req.url).searchParams.get('provider');
+  return handleChannelWebhook(req, 'whatsapp', provider);
 });
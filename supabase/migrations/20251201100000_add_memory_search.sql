@@ -0,0 +1,256 @@
+-- Memory search: ranked full-text search plus embedding similarity over every chunk of a memory
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- array_to_string is only STABLE, generated columns need an IMMUTABLE expression
+CREATE OR REPLACE FUNCTION public.memory_tags_to_text(tags TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(array_to_string(tags, ' '), '');
+$$;
+
+-- Weighted full-text document: title > tags/location > body
+ALTER TABLE public.memories
+ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', public.memory_tags_to_text(tags)), 'B') ||
+  setweight(to_tsvector('english', coalesce(memory_location, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(text, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_memories_search_vector ON public.memories USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_memories_tags ON public.memories USING GIN(tags);
+
+-- One embedding per memory row (chunk). Provider + model are stored so vectors
+-- from different providers are never compared with each other.
+CREATE TABLE IF NOT EXISTS public.memory_embeddings (
+  memory_id UUID NOT NULL PRIMARY KEY REFERENCES public.memories(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  memory_group_id UUID,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  embedding extensions.vector(1536) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.memory_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own memory embeddings"
+ON public.memory_embeddings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Writes happen from edge functions with the service role only
+
+CREATE INDEX IF NOT EXISTS idx_memory_embeddings_user_id ON public.memory_embeddings(user_id);
+CREATE INDEX IF NOT EXISTS idx_memory_embeddings_group_id ON public.memory_embeddings(memory_group_id);
+CREATE INDEX IF NOT EXISTS idx_memory_embeddings_vector
+ON public.memory_embeddings
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+CREATE TRIGGER update_memory_embeddings_updated_at
+  BEFORE UPDATE ON public.memory_embeddings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hash used to detect stale embeddings after a memory is edited
+CREATE OR REPLACE FUNCTION public.memory_content_hash(p_title TEXT, p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT md5(coalesce(p_title, '') || E'\n' || coalesce(p_text, ''));
+$$;
+
+-- Memory rows of a user whose embedding is missing, stale or from another model
+CREATE OR REPLACE FUNCTION public.get_memories_needing_embeddings(
+  p_user_id UUID,
+  p_provider TEXT,
+  p_model TEXT,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  memory_group_id UUID,
+  title TEXT,
+  text TEXT,
+  content_hash TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.id, m.memory_group_id, m.title, m.text, public.memory_content_hash(m.title, m.text)
+  FROM public.memories m
+  LEFT JOIN public.memory_embeddings e ON e.memory_id = m.id
+  WHERE m.user_id = p_user_id
+    AND (
+      e.memory_id IS NULL
+      OR e.provider <> p_provider
+      OR e.model <> p_model
+      OR e.content_hash <> public.memory_content_hash(m.title, m.text)
+    )
+  ORDER BY m.created_at DESC
+  LIMIT greatest(p_limit, 1);
+$$;
+
+-- Ranked search over memory groups. Every chunk of a memory_group_id is scored,
+-- the best chunk wins, and the group is returned once with its text reassembled.
+-- Without a query (or embedding) the filters still apply and results are
+-- ordered by memory date, which is what "browse" style callers want.
+CREATE OR REPLACE FUNCTION public.search_memories(
+  p_user_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_query_embedding extensions.vector(1536) DEFAULT NULL,
+  p_embedding_provider TEXT DEFAULT NULL,
+  p_embedding_model TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_people TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_semantic_weight DOUBLE PRECISION DEFAULT 0.5,
+  p_min_score DOUBLE PRECISION DEFAULT 0.05
+)
+RETURNS TABLE (
+  memory_id UUID,
+  memory_group_id UUID,
+  title TEXT,
+  text TEXT,
+  memory_date DATE,
+  memory_location TEXT,
+  tags TEXT[],
+  image_urls TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  total_chunks INTEGER,
+  best_chunk_sequence INTEGER,
+  text_rank DOUBLE PRECISION,
+  semantic_score DOUBLE PRECISION,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH params AS (
+    SELECT
+      CASE WHEN nullif(trim(p_query), '') IS NULL THEN NULL
+           ELSE websearch_to_tsquery('english', p_query) END AS tsq,
+      greatest(least(coalesce(p_semantic_weight, 0.5), 1), 0) AS w
+  ),
+  chunks AS (
+    SELECT
+      m.*,
+      coalesce(m.memory_group_id, m.id) AS group_key
+    FROM public.memories m
+    WHERE m.user_id = p_user_id
+  ),
+  scored AS (
+    SELECT
+      c.group_key,
+      c.chunk_sequence,
+      CASE WHEN params.tsq IS NOT NULL AND c.search_vector @@ params.tsq
+           THEN ts_rank_cd(c.search_vector, params.tsq, 32)
+           ELSE 0 END::DOUBLE PRECISION AS text_rank,
+      CASE WHEN p_query_embedding IS NOT NULL AND e.embedding IS NOT NULL
+           THEN greatest(1 - (e.embedding <=> p_query_embedding), 0)
+           ELSE 0 END::DOUBLE PRECISION AS semantic_score
+    FROM chunks c
+    CROSS JOIN params
+    LEFT JOIN public.memory_embeddings e
+      ON e.memory_id = c.id
+     AND (p_embedding_provider IS NULL OR e.provider = p_embedding_provider)
+     AND (p_embedding_model IS NULL OR e.model = p_embedding_model)
+  ),
+  best_chunk AS (
+    SELECT DISTINCT ON (s.group_key)
+      s.group_key,
+      s.chunk_sequence AS best_chunk_sequence,
+      max(s.text_rank) OVER (PARTITION BY s.group_key) AS text_rank,
+      max(s.semantic_score) OVER (PARTITION BY s.group_key) AS semantic_score
+    FROM scored s
+    CROSS JOIN params
+    ORDER BY s.group_key, ((1 - params.w) * s.text_rank + params.w * s.semantic_score) DESC
+  ),
+  groups AS (
+    SELECT
+      c.group_key,
+      (array_agg(c.id ORDER BY coalesce(c.chunk_sequence, 1)))[1] AS memory_id,
+      (array_agg(c.title ORDER BY coalesce(c.chunk_sequence, 1)))[1] AS title,
+      string_agg(c.text, E'\n\n' ORDER BY coalesce(c.chunk_sequence, 1)) AS text,
+      max(c.memory_date) AS memory_date,
+      (array_agg(c.memory_location ORDER BY coalesce(c.chunk_sequence, 1)))[1] AS memory_location,
+      (array_agg(c.tags ORDER BY coalesce(c.chunk_sequence, 1)))[1] AS tags,
+      (array_agg(c.image_urls ORDER BY coalesce(c.chunk_sequence, 1)))[1] AS image_urls,
+      min(c.created_at) AS created_at,
+      count(*)::INTEGER AS total_chunks,
+      array_agg(c.id) AS chunk_ids
+    FROM chunks c
+    GROUP BY c.group_key
+  )
+  SELECT
+    g.memory_id,
+    g.group_key AS memory_group_id,
+    -- Chunked titles carry a "(Part n/m)" suffix, strip it for the group
+    regexp_replace(g.title, '\s*\(Part \d+/\d+\)$', '') AS title,
+    g.text,
+    g.memory_date,
+    g.memory_location,
+    coalesce(g.tags, '{}') AS tags,
+    coalesce(g.image_urls, '{}') AS image_urls,
+    g.created_at,
+    g.total_chunks,
+    b.best_chunk_sequence,
+    b.text_rank,
+    b.semantic_score,
+    (1 - params.w) * b.text_rank + params.w * b.semantic_score AS score
+  FROM groups g
+  JOIN best_chunk b ON b.group_key = g.group_key
+  CROSS JOIN params
+  WHERE (p_date_from IS NULL OR coalesce(g.memory_date, g.created_at::DATE) >= p_date_from)
+    AND (p_date_to IS NULL OR coalesce(g.memory_date, g.created_at::DATE) <= p_date_to)
+    AND (p_location IS NULL OR g.memory_location ILIKE '%' || p_location || '%')
+    AND (
+      p_tags IS NULL OR cardinality(p_tags) = 0
+      OR EXISTS (
+        SELECT 1 FROM unnest(coalesce(g.tags, '{}')) t, unnest(p_tags) q
+        WHERE lower(t) = lower(q)
+      )
+    )
+    AND (
+      p_people IS NULL OR cardinality(p_people) = 0
+      OR EXISTS (
+        SELECT 1
+        FROM public.memory_insights mi,
+             jsonb_array_elements_text(coalesce(mi.insights -> 'people', '[]'::jsonb)) AS person
+        WHERE mi.memory_id = ANY(g.chunk_ids)
+          AND EXISTS (SELECT 1 FROM unnest(p_people) p WHERE person ILIKE '%' || p || '%')
+      )
+      OR EXISTS (
+        SELECT 1 FROM unnest(coalesce(g.tags, '{}')) t, unnest(p_people) p
+        WHERE t ILIKE '%' || p || '%'
+      )
+    )
+    AND (
+      (params.tsq IS NULL AND p_query_embedding IS NULL)
+      OR (1 - params.w) * b.text_rank + params.w * b.semantic_score >= coalesce(p_min_score, 0)
+      OR b.text_rank > 0
+    )
+  ORDER BY
+    CASE WHEN params.tsq IS NULL AND p_query_embedding IS NULL THEN NULL
+         ELSE (1 - params.w) * b.text_rank + params.w * b.semantic_score END DESC NULLS LAST,
+    coalesce(g.memory_date, g.created_at::DATE) DESC
+  LIMIT least(greatest(coalesce(p_limit, 10), 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_memories TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_memories_needing_embeddings TO service_role;
+
+COMMENT ON COLUMN public.memories.search_vector IS 'Weighted full-text document (title, tags, location, text) used by search_memories';
+COMMENT ON TABLE public.memory_embeddings IS 'Embedding vectors per memory chunk, written by the memory-search edge function';
+COMMENT ON FUNCTION public.search_memories IS 'Ranked full-text + semantic search over memory groups with date, location, tag and people filters';
@@ -0,0 +1,291 @@
+-- Memory version history
+-- Every change to a memory's title, text, date, location, tags or image_urls is
+-- stored as a revision of the whole memory group (chunks reassembled), so voice
+-- edits, WhatsApp saves and AI summarisation can always be diffed and undone.
+
+CREATE TABLE IF NOT EXISTS public.memory_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Keyed by group, not memory id: edit_memory re-creates chunks with new ids
+  memory_group_id UUID NOT NULL,
+  memory_id UUID, -- primary chunk id at the time of the revision
+  user_id UUID NOT NULL,
+  revision_number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  text TEXT NOT NULL,
+  memory_date DATE,
+  memory_location TEXT,
+  tags TEXT[],
+  image_urls TEXT[],
+  author_type TEXT NOT NULL DEFAULT 'user', -- 'user', 'solin_voice', 'whatsapp', 'process_memory_insights', 'system'
+  author_id UUID,
+  reason TEXT,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (memory_group_id, revision_number)
+);
+
+ALTER TABLE public.memory_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own memory revisions"
+ON public.memory_revisions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Revisions are append-only and written by the trigger below
+
+CREATE INDEX IF NOT EXISTS idx_memory_revisions_group ON public.memory_revisions(memory_group_id, revision_number DESC);
+CREATE INDEX IF NOT EXISTS idx_memory_revisions_user_id ON public.memory_revisions(user_id);
+
+-- Write-only attribution columns. Writers set them in the same insert/update;
+-- the BEFORE trigger moves them into transaction-local settings and clears
+-- them, so they never persist on the memory row itself.
+ALTER TABLE public.memories
+ADD COLUMN IF NOT EXISTS revision_author TEXT,
+ADD COLUMN IF NOT EXISTS revision_reason TEXT;
+
+CREATE OR REPLACE FUNCTION public.capture_memory_revision_attribution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.revision_author IS NOT NULL THEN
+    PERFORM set_config('memories.revision_author', NEW.revision_author, true);
+  END IF;
+  IF NEW.revision_reason IS NOT NULL THEN
+    PERFORM set_config('memories.revision_reason', NEW.revision_reason, true);
+  END IF;
+  NEW.revision_author := NULL;
+  NEW.revision_reason := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- Snapshot a memory group as a new revision if it differs from the latest one
+CREATE OR REPLACE FUNCTION public.record_memory_revision(
+  p_memory_group_id UUID,
+  p_author_type TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot RECORD;
+  v_latest public.memory_revisions%ROWTYPE;
+  v_changed TEXT[] := '{}';
+  v_author TEXT;
+  v_revision_id UUID;
+BEGIN
+  SELECT
+    (array_agg(m.id ORDER BY coalesce(m.chunk_sequence, 1)))[1] AS memory_id,
+    (array_agg(m.user_id ORDER BY coalesce(m.chunk_sequence, 1)))[1] AS user_id,
+    regexp_replace((array_agg(m.title ORDER BY coalesce(m.chunk_sequence, 1)))[1], '\s*\(Part \d+/\d+\)$', '') AS title,
+    string_agg(m.text, E'\n\n' ORDER BY coalesce(m.chunk_sequence, 1)) AS text,
+    (array_agg(m.memory_date ORDER BY coalesce(m.chunk_sequence, 1)))[1] AS memory_date,
+    (array_agg(m.memory_location ORDER BY coalesce(m.chunk_sequence, 1)))[1] AS memory_location,
+    (array_agg(m.tags ORDER BY coalesce(m.chunk_sequence, 1)))[1] AS tags,
+    (array_agg(m.image_urls ORDER BY coalesce(m.chunk_sequence, 1)))[1] AS image_urls
+  INTO v_snapshot
+  FROM public.memories m
+  WHERE m.memory_group_id = p_memory_group_id;
+
+  IF v_snapshot.memory_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Service role (edge functions, triggers from them) has no auth.uid()
+  IF auth.uid() IS NOT NULL AND auth.uid() <> v_snapshot.user_id THEN
+    RAISE EXCEPTION 'Not allowed to record revisions for this memory';
+  END IF;
+
+  SELECT * INTO v_latest
+  FROM public.memory_revisions
+  WHERE memory_group_id = p_memory_group_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF v_latest.id IS NOT NULL THEN
+    IF v_latest.title IS DISTINCT FROM v_snapshot.title THEN v_changed := v_changed || 'title'; END IF;
+    IF v_latest.text IS DISTINCT FROM v_snapshot.text THEN v_changed := v_changed || 'text'; END IF;
+    IF v_latest.memory_date IS DISTINCT FROM v_snapshot.memory_date THEN v_changed := v_changed || 'memory_date'; END IF;
+    IF v_latest.memory_location IS DISTINCT FROM v_snapshot.memory_location THEN v_changed := v_changed || 'memory_location'; END IF;
+    IF v_latest.tags IS DISTINCT FROM v_snapshot.tags THEN v_changed := v_changed || 'tags'; END IF;
+    IF v_latest.image_urls IS DISTINCT FROM v_snapshot.image_urls THEN v_changed := v_changed || 'image_urls'; END IF;
+
+    IF cardinality(v_changed) = 0 THEN
+      RETURN v_latest.id;
+    END IF;
+  END IF;
+
+  v_author := coalesce(
+    nullif(p_author_type, ''),
+    nullif(current_setting('memories.revision_author', true), ''),
+    CASE WHEN auth.uid() IS NOT NULL THEN 'user' ELSE 'system' END
+  );
+
+  INSERT INTO public.memory_revisions (
+    memory_group_id, memory_id, user_id, revision_number,
+    title, text, memory_date, memory_location, tags, image_urls,
+    author_type, author_id, reason, changed_fields
+  ) VALUES (
+    p_memory_group_id, v_snapshot.memory_id, v_snapshot.user_id,
+    coalesce(v_latest.revision_number, 0) + 1,
+    coalesce(v_snapshot.title, ''), coalesce(v_snapshot.text, ''),
+    v_snapshot.memory_date, v_snapshot.memory_location, v_snapshot.tags, v_snapshot.image_urls,
+    v_author, auth.uid(),
+    coalesce(nullif(p_reason, ''), nullif(current_setting('memories.revision_reason', true), ''),
+             CASE WHEN v_latest.id IS NULL THEN 'Created' END),
+    CASE WHEN v_latest.id IS NULL THEN ARRAY['title', 'text', 'memory_date', 'memory_location', 'tags', 'image_urls'] ELSE v_changed END
+  )
+  RETURNING id INTO v_revision_id;
+
+  RETURN v_revision_id;
+END;
+$$;
+
+-- Statement-level so a multi-chunk insert produces one revision per group
+CREATE OR REPLACE FUNCTION public.record_memory_revisions_for_statement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group UUID;
+BEGIN
+  -- restore_memory_revision rewrites several chunks and records once at the end
+  IF current_setting('memories.revision_deferred', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_group IN SELECT DISTINCT memory_group_id FROM new_rows WHERE memory_group_id IS NOT NULL LOOP
+    PERFORM public.record_memory_revision(v_group);
+  END LOOP;
+
+  -- Attribution applies to this statement only
+  PERFORM set_config('memories.revision_author', '', true);
+  PERFORM set_config('memories.revision_reason', '', true);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER capture_memory_revision_attribution_trigger
+  BEFORE INSERT OR UPDATE ON public.memories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.capture_memory_revision_attribution();
+
+CREATE TRIGGER record_memory_revisions_after_insert
+  AFTER INSERT ON public.memories
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.record_memory_revisions_for_statement();
+
+CREATE TRIGGER record_memory_revisions_after_update
+  AFTER UPDATE ON public.memories
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.record_memory_revisions_for_statement();
+
+-- Restore a revision. Chunking stays in the client (chunkMemoryContent), which
+-- passes the revision text pre-split as [{ content, chunkSequence }]. Chunk rows
+-- are updated in place so memory ids (and their artifact links) survive.
+CREATE OR REPLACE FUNCTION public.restore_memory_revision(
+  p_revision_id UUID,
+  p_chunks JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_revision public.memory_revisions%ROWTYPE;
+  v_primary public.memories%ROWTYPE;
+  v_total INTEGER := jsonb_array_length(coalesce(p_chunks, '[]'::jsonb));
+  v_chunk JSONB;
+  v_sequence INTEGER;
+  v_title TEXT;
+BEGIN
+  SELECT * INTO v_revision FROM public.memory_revisions WHERE id = p_revision_id;
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Nothing to restore';
+  END IF;
+
+  SELECT * INTO v_primary
+  FROM public.memories
+  WHERE memory_group_id = v_revision.memory_group_id
+  ORDER BY coalesce(chunk_sequence, 1)
+  LIMIT 1;
+
+  IF v_primary.id IS NULL THEN
+    RAISE EXCEPTION 'Memory no longer exists';
+  END IF;
+
+  PERFORM set_config('memories.revision_deferred', 'on', true);
+
+  DELETE FROM public.memories
+  WHERE memory_group_id = v_revision.memory_group_id
+    AND coalesce(chunk_sequence, 1) > v_total;
+
+  FOR v_chunk IN SELECT value FROM jsonb_array_elements(p_chunks) LOOP
+    v_sequence := (v_chunk ->> 'chunkSequence')::INTEGER;
+    v_title := CASE WHEN v_total > 1
+      THEN format('%s (Part %s/%s)', v_revision.title, v_sequence, v_total)
+      ELSE v_revision.title END;
+
+    UPDATE public.memories
+    SET title = v_title,
+        text = v_chunk ->> 'content',
+        total_chunks = v_total,
+        memory_date = v_revision.memory_date,
+        memory_location = v_revision.memory_location,
+        tags = v_revision.tags,
+        image_urls = v_revision.image_urls
+    WHERE memory_group_id = v_revision.memory_group_id
+      AND coalesce(chunk_sequence, 1) = v_sequence;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.memories (
+        user_id, title, text, memory_group_id, chunk_sequence, total_chunks,
+        memory_date, memory_location, tags, image_urls, recipient, status,
+        show_on_timeline, source_type, is_primary_chunk
+      ) VALUES (
+        v_primary.user_id, v_title, v_chunk ->> 'content', v_revision.memory_group_id, v_sequence, v_total,
+        v_revision.memory_date, v_revision.memory_location, v_revision.tags, v_revision.image_urls,
+        v_primary.recipient, v_primary.status, v_primary.show_on_timeline, v_primary.source_type, false
+      );
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('memories.revision_deferred', '', true);
+
+  RETURN public.record_memory_revision(
+    v_revision.memory_group_id,
+    'user',
+    format('Restored revision #%s', v_revision.revision_number)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_memory_revision TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_memory_revision TO authenticated, service_role;
+
+-- Start history for existing memories so their current text is restorable
+DO $$
+DECLARE
+  v_group UUID;
+BEGIN
+  FOR v_group IN SELECT DISTINCT memory_group_id FROM public.memories WHERE memory_group_id IS NOT NULL LOOP
+    PERFORM public.record_memory_revision(v_group, 'system', 'History started');
+  END LOOP;
+END;
+$$;
+
+COMMENT ON TABLE public.memory_revisions IS 'Append-only history of memory groups (title, text, date, location, tags, image_urls) with author and reason';
+COMMENT ON COLUMN public.memory_revisions.author_type IS 'Who made the change: user, solin_voice, whatsapp, process_memory_insights or system';
+COMMENT ON COLUMN public.memories.revision_author IS 'Write-only: author of this change for memory_revisions, cleared by trigger';
+COMMENT ON COLUMN public.memories.revision_reason IS 'Write-only: reason for this change for memory_revisions, cleared by trigger';
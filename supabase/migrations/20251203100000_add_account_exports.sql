@@ -0,0 +1,47 @@
+-- Account data export: server-built zip archives of everything a user has stored
+
+CREATE TABLE IF NOT EXISTS public.account_exports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'processing', 'completed', 'failed'
+  storage_path TEXT, -- Path of the zip in the account-exports bucket
+  file_size_bytes BIGINT,
+  counts JSONB NOT NULL DEFAULT '{}'::jsonb, -- Items per section, copied from the manifest
+  warnings TEXT[] NOT NULL DEFAULT '{}', -- Files that could not be included
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE, -- Archive is removed after this
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_exports ENABLE ROW LEVEL SECURITY;
+
+-- Exports are created and updated by the account-export edge function (service role)
+CREATE POLICY "Users can view their own exports"
+ON public.account_exports
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_account_exports_user_created ON public.account_exports(user_id, created_at DESC);
+
+CREATE TRIGGER update_account_exports_updated_at
+BEFORE UPDATE ON public.account_exports
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Private bucket for the generated archives: /{user_id}/{export_id}.zip
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('account-exports', 'account-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can download their own exports"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'account-exports'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+COMMENT ON TABLE public.account_exports IS 'Account data export jobs; archives are built server-side by the account-export function';
+COMMENT ON COLUMN public.account_exports.counts IS 'Number of items per archive section (memories, recordings, artifacts, ...)';
@@ -0,0 +1,175 @@
+-- Time capsules: sealed memories addressed to a recipient, released on a date,
+-- at a recipient's age, or by a trustee after the owner's passing.
+-- The sealed text lives in time_capsules only, so nothing that reads memories
+-- (Solin's browse_memories, search, Timeline, Visitor) can see it before release.
+
+ALTER TABLE public.time_capsules
+ALTER COLUMN release_date DROP NOT NULL;
+
+ALTER TABLE public.time_capsules
+ADD COLUMN IF NOT EXISTS release_trigger TEXT NOT NULL DEFAULT 'date'
+  CHECK (release_trigger IN ('date', 'recipient_age', 'on_passing')),
+ADD COLUMN IF NOT EXISTS recipient_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS recipient_name TEXT,
+ADD COLUMN IF NOT EXISTS recipient_phone TEXT, -- WhatsApp number for recipients without an account
+ADD COLUMN IF NOT EXISTS recipient_birth_date DATE,
+ADD COLUMN IF NOT EXISTS release_age INTEGER CHECK (release_age BETWEEN 1 AND 120),
+ADD COLUMN IF NOT EXISTS trustee_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'sealed' CHECK (status IN ('sealed', 'released')),
+ADD COLUMN IF NOT EXISTS released_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS released_by UUID, -- Trustee for 'on_passing', NULL when released on schedule
+ADD COLUMN IF NOT EXISTS memory_group_id UUID, -- Memory created from the capsule on release
+ADD COLUMN IF NOT EXISTS recipient_notified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS recipient_opened_at TIMESTAMP WITH TIME ZONE;
+
+-- NOT VALID: rows from the old, recipient-less table are left alone
+ALTER TABLE public.time_capsules
+ADD CONSTRAINT time_capsules_has_recipient
+  CHECK (recipient_user_id IS NOT NULL OR nullif(trim(recipient_name), '') IS NOT NULL) NOT VALID,
+ADD CONSTRAINT time_capsules_release_condition CHECK (
+  (release_trigger = 'date' AND release_date IS NOT NULL)
+  OR (release_trigger = 'recipient_age' AND recipient_birth_date IS NOT NULL AND release_age IS NOT NULL)
+  OR (release_trigger = 'on_passing' AND trustee_user_id IS NOT NULL)
+);
+
+-- Age-based capsules open on the recipient's birthday; on-passing capsules have no date
+CREATE OR REPLACE FUNCTION public.set_time_capsule_release_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.release_trigger = 'recipient_age' THEN
+    NEW.release_date := (NEW.recipient_birth_date + make_interval(years => NEW.release_age))::TIMESTAMP WITH TIME ZONE;
+  ELSIF NEW.release_trigger = 'on_passing' THEN
+    NEW.release_date := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_time_capsule_release_date
+BEFORE INSERT OR UPDATE ON public.time_capsules
+FOR EACH ROW
+EXECUTE FUNCTION public.set_time_capsule_release_date();
+
+-- Owners may only edit a capsule while it is sealed, and can't release it themselves
+DROP POLICY IF EXISTS "Users can update their own time capsules" ON public.time_capsules;
+CREATE POLICY "Users can update their own sealed time capsules"
+ON public.time_capsules
+FOR UPDATE
+USING (auth.uid() = user_id AND status = 'sealed')
+WITH CHECK (auth.uid() = user_id AND status = 'sealed');
+
+DROP POLICY IF EXISTS "Users can create their own time capsules" ON public.time_capsules;
+CREATE POLICY "Users can create their own sealed time capsules"
+ON public.time_capsules
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND status = 'sealed' AND released_at IS NULL);
+
+CREATE POLICY "Recipients can view released time capsules"
+ON public.time_capsules
+FOR SELECT
+USING (auth.uid() = recipient_user_id AND status = 'released');
+
+-- Trustees only see capsule metadata, through the time-capsules edge function
+
+CREATE INDEX IF NOT EXISTS idx_time_capsules_user_id ON public.time_capsules(user_id);
+CREATE INDEX IF NOT EXISTS idx_time_capsules_recipient ON public.time_capsules(recipient_user_id) WHERE recipient_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_time_capsules_trustee ON public.time_capsules(trustee_user_id) WHERE trustee_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_time_capsules_due ON public.time_capsules(release_date) WHERE status = 'sealed';
+
+-- Release a capsule: copy it into the owner's memories and mark it released.
+-- Returns the new memory id, or NULL if the capsule was already released.
+CREATE OR REPLACE FUNCTION public.release_time_capsule(p_capsule_id UUID, p_released_by UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capsule public.time_capsules%ROWTYPE;
+  v_memory_id UUID;
+  v_group_id UUID := gen_random_uuid();
+  v_recipient TEXT;
+BEGIN
+  SELECT * INTO v_capsule FROM public.time_capsules WHERE id = p_capsule_id FOR UPDATE;
+  IF NOT FOUND OR v_capsule.status = 'released' THEN
+    RETURN NULL;
+  END IF;
+
+  v_recipient := coalesce(
+    nullif(trim(v_capsule.recipient_name), ''),
+    (SELECT coalesce(preferred_name, display_name) FROM public.user_profiles WHERE user_id = v_capsule.recipient_user_id),
+    'someone special'
+  );
+
+  INSERT INTO public.memories (
+    user_id, title, text, memory_date, future_date, recipient, tags, source_type,
+    memory_group_id, chunk_sequence, total_chunks, is_primary_chunk,
+    revision_author, revision_reason, metadata
+  )
+  VALUES (
+    v_capsule.user_id,
+    v_capsule.title,
+    v_capsule.content,
+    v_capsule.created_at::DATE,
+    coalesce(v_capsule.release_date, now())::DATE,
+    'private',
+    ARRAY['time capsule'],
+    'time_capsule',
+    v_group_id, 1, 1, true,
+    'system',
+    'Time capsule released',
+    jsonb_build_object(
+      'time_capsule', jsonb_build_object(
+        'capsule_id', v_capsule.id,
+        'recipient', v_recipient,
+        'release_trigger', v_capsule.release_trigger,
+        'sealed_at', v_capsule.created_at
+      )
+    )
+  )
+  RETURNING id INTO v_memory_id;
+
+  UPDATE public.time_capsules
+  SET status = 'released',
+      released_at = now(),
+      released_by = p_released_by,
+      memory_group_id = v_group_id
+  WHERE id = p_capsule_id;
+
+  RETURN v_memory_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_time_capsule(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_time_capsule(UUID, UUID) TO service_role;
+
+-- Hourly release of due capsules, when pg_cron/pg_net are available and the
+-- project URL and service role key are stored in Vault ('project_url', 'service_role_key')
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'release-due-time-capsules',
+      '0 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/time-capsules',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"release_due"}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.time_capsules IS 'Sealed memories addressed to a recipient; hidden from memories until released';
+COMMENT ON COLUMN public.time_capsules.release_trigger IS 'date: on release_date; recipient_age: on the recipient''s birthday at release_age; on_passing: released by the trustee';
+COMMENT ON COLUMN public.time_capsules.memory_group_id IS 'Memory created in the owner''s archive when the capsule was released';
+COMMENT ON FUNCTION public.release_time_capsule IS 'Copies a sealed capsule into memories and marks it released (service role only)';
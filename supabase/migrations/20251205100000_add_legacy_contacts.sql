@@ -0,0 +1,374 @@
+-- Legacy contacts: connections a user trusts with their story after death or
+-- incapacity. Access is handed over only after an admin approves a claim, which
+-- a legacy contact files or the check-in switch raises when the owner goes quiet.
+
+CREATE TABLE IF NOT EXISTS public.legacy_contacts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Owner of the story
+  contact_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  relationship_type TEXT NOT NULL DEFAULT 'other', -- RELATIONSHIP_TYPES value
+  memory_access TEXT NOT NULL DEFAULT 'shared_only' CHECK (memory_access IN ('all', 'shared_only')),
+  can_download_export BOOLEAN NOT NULL DEFAULT false,
+  can_manage_visitor_page BOOLEAN NOT NULL DEFAULT false,
+  message TEXT, -- Personal note shown to the contact
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, contact_user_id),
+  CHECK (user_id <> contact_user_id)
+);
+
+-- One plan per user: the check-in ("dead man's") switch
+CREATE TABLE IF NOT EXISTS public.legacy_plans (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  check_in_interval_days INTEGER CHECK (check_in_interval_days BETWEEN 7 AND 730), -- NULL = switch off
+  grace_period_days INTEGER NOT NULL DEFAULT 14 CHECK (grace_period_days BETWEEN 1 AND 90),
+  last_check_in_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reminder_sent_at TIMESTAMP WITH TIME ZONE, -- Owner reminded once the interval has passed
+  switch_triggered_at TIMESTAMP WITH TIME ZONE, -- Interval + grace passed, claim raised
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.legacy_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  claimant_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL when raised by the switch
+  source TEXT NOT NULL DEFAULT 'contact' CHECK (source IN ('contact', 'check_in_switch')),
+  claim_type TEXT NOT NULL CHECK (claim_type IN ('deceased', 'incapacitated', 'unresponsive')),
+  statement TEXT,
+  evidence_paths TEXT[] NOT NULL DEFAULT '{}', -- Files in the legacy-claims bucket
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT,
+  contacts_notified_at TIMESTAMP WITH TIME ZONE, -- Legacy contacts told about the decision
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.legacy_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.legacy_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.legacy_claims ENABLE ROW LEVEL SECURITY;
+
+-- Is p_contact a legacy contact of p_owner? (SECURITY DEFINER: used inside RLS policies)
+CREATE OR REPLACE FUNCTION public.is_legacy_contact(p_owner UUID, p_contact UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.legacy_contacts
+    WHERE user_id = p_owner AND contact_user_id = p_contact
+  );
+$$;
+
+-- Does the current user hold a handed-over permission for p_owner?
+-- p_permission: 'view_all', 'view_shared', 'download_export', 'manage_visitor_page'
+CREATE OR REPLACE FUNCTION public.has_legacy_permission(p_owner UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.legacy_contacts c
+    WHERE c.user_id = p_owner
+      AND c.contact_user_id = auth.uid()
+      AND EXISTS (
+        SELECT 1 FROM public.legacy_claims cl
+        WHERE cl.owner_user_id = p_owner AND cl.status = 'approved'
+      )
+      AND CASE p_permission
+        WHEN 'view_all' THEN c.memory_access = 'all'
+        WHEN 'view_shared' THEN c.memory_access IN ('all', 'shared_only')
+        WHEN 'download_export' THEN c.can_download_export
+        WHEN 'manage_visitor_page' THEN c.can_manage_visitor_page
+        ELSE false
+      END
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_legacy_permission(UUID, TEXT) TO authenticated;
+
+-- legacy_contacts: owners manage them, contacts can see that they were nominated
+CREATE POLICY "Users can view their own legacy contacts"
+ON public.legacy_contacts
+FOR SELECT
+USING (auth.uid() = user_id OR auth.uid() = contact_user_id);
+
+-- Only accepted connections can be nominated
+CREATE POLICY "Users can nominate connections as legacy contacts"
+ON public.legacy_contacts
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.user_connections uc
+    WHERE uc.status = 'accepted'
+      AND (
+        (uc.requester_id = user_id AND uc.addressee_id = contact_user_id)
+        OR (uc.requester_id = contact_user_id AND uc.addressee_id = user_id)
+      )
+  )
+);
+
+CREATE POLICY "Users can update their own legacy contacts"
+ON public.legacy_contacts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own legacy contacts"
+ON public.legacy_contacts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- legacy_plans: owner only
+CREATE POLICY "Users can view their own legacy plan"
+ON public.legacy_plans
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own legacy plan"
+ON public.legacy_plans
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own legacy plan"
+ON public.legacy_plans
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- legacy_claims: owners and their legacy contacts can see claims, contacts file
+-- them, admins review them (review_legacy_claim)
+CREATE POLICY "Owners and legacy contacts can view claims"
+ON public.legacy_claims
+FOR SELECT
+USING (
+  auth.uid() = owner_user_id
+  OR auth.uid() = claimant_user_id
+  OR public.is_legacy_contact(owner_user_id, auth.uid())
+  OR public.has_role(auth.uid(), 'admin')
+);
+
+CREATE POLICY "Legacy contacts can file claims"
+ON public.legacy_claims
+FOR INSERT
+WITH CHECK (
+  auth.uid() = claimant_user_id
+  AND source = 'contact'
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+  AND public.is_legacy_contact(owner_user_id, auth.uid())
+);
+
+-- Handed-over memories: everything, or only what was already shared with the
+-- contact or made public
+CREATE POLICY "Legacy contacts can view handed-over memories"
+ON public.memories
+FOR SELECT
+USING (
+  public.has_legacy_permission(user_id, 'view_all')
+  OR (
+    public.has_legacy_permission(user_id, 'view_shared')
+    AND (
+      recipient = 'public'
+      OR auth.uid()::text = ANY(coalesce(shared_with_users::text[], '{}'))
+      OR EXISTS (
+        SELECT 1 FROM public.memory_shares ms
+        WHERE ms.memory_id = memories.id
+          AND ms.recipient_id = auth.uid()
+          AND ms.status = 'accepted'
+      )
+    )
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_legacy_contacts_contact ON public.legacy_contacts(contact_user_id);
+CREATE INDEX IF NOT EXISTS idx_legacy_claims_owner_status ON public.legacy_claims(owner_user_id, status);
+CREATE INDEX IF NOT EXISTS idx_legacy_claims_pending ON public.legacy_claims(created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_legacy_plans_switch ON public.legacy_plans(last_check_in_at) WHERE check_in_interval_days IS NOT NULL;
+
+CREATE TRIGGER update_legacy_contacts_updated_at
+BEFORE UPDATE ON public.legacy_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_legacy_plans_updated_at
+BEFORE UPDATE ON public.legacy_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_legacy_claims_updated_at
+BEFORE UPDATE ON public.legacy_claims
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Owner proves they're here: resets the switch and withdraws pending claims.
+-- Approved claims are withdrawn too, which ends any handed-over access.
+CREATE OR REPLACE FUNCTION public.legacy_check_in()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.legacy_plans
+  SET last_check_in_at = now(),
+      reminder_sent_at = NULL,
+      switch_triggered_at = NULL
+  WHERE user_id = auth.uid();
+
+  UPDATE public.legacy_claims
+  SET status = 'withdrawn',
+      review_notes = 'Withdrawn automatically: the owner checked in',
+      reviewed_at = now()
+  WHERE owner_user_id = auth.uid()
+    AND status IN ('pending', 'approved');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.legacy_check_in() TO authenticated;
+
+-- Admin decision on a claim
+CREATE OR REPLACE FUNCTION public.review_legacy_claim(p_claim_id UUID, p_approve BOOLEAN, p_notes TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review legacy claims';
+  END IF;
+
+  UPDATE public.legacy_claims
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_notes = p_notes,
+      contacts_notified_at = NULL
+  WHERE id = p_claim_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found or already reviewed';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_legacy_claim(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- A contact with 'manage_visitor_page' chooses which memories the Visitor page shows
+CREATE OR REPLACE FUNCTION public.legacy_visitor_page_memories(p_owner UUID)
+RETURNS TABLE (
+  memory_group_id UUID,
+  title TEXT,
+  memory_date DATE,
+  is_public BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_legacy_permission(p_owner, 'manage_visitor_page') THEN
+    RAISE EXCEPTION 'Not allowed to manage this Visitor page';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    coalesce(m.memory_group_id, m.id),
+    regexp_replace((array_agg(m.title ORDER BY coalesce(m.chunk_sequence, 1)))[1], '\s*\(Part \d+/\d+\)$', ''),
+    max(m.memory_date),
+    bool_and(m.recipient = 'public')
+  FROM public.memories m
+  WHERE m.user_id = p_owner
+  GROUP BY coalesce(m.memory_group_id, m.id)
+  ORDER BY max(m.memory_date) DESC NULLS LAST;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.legacy_set_memory_public(p_owner UUID, p_memory_group_id UUID, p_public BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_legacy_permission(p_owner, 'manage_visitor_page') THEN
+    RAISE EXCEPTION 'Not allowed to manage this Visitor page';
+  END IF;
+
+  UPDATE public.memories
+  SET recipient = CASE WHEN p_public THEN 'public' ELSE 'private' END
+  WHERE user_id = p_owner
+    AND coalesce(memory_group_id, id) = p_memory_group_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.legacy_visitor_page_memories(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.legacy_set_memory_public(UUID, UUID, BOOLEAN) TO authenticated;
+
+-- Exports requested by a legacy contact are built for the owner but belong to the requester
+ALTER TABLE public.account_exports
+ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Private bucket for claim evidence: /{owner_id}/{claimant_id}/{file}
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('legacy-claims', 'legacy-claims', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Legacy contacts can upload claim evidence"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'legacy-claims'
+  AND auth.uid()::text = (storage.foldername(name))[2]
+  AND public.is_legacy_contact(((storage.foldername(name))[1])::uuid, auth.uid())
+);
+
+CREATE POLICY "Claimants and admins can view claim evidence"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'legacy-claims'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[2]
+    OR public.has_role(auth.uid(), 'admin')
+  )
+);
+
+-- Hourly: check-in reminders, switch claims and decision notifications
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'process-legacy-plans',
+      '30 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/legacy-access',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"process"}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.legacy_contacts IS 'Connections nominated to receive access to a user''s story after an approved legacy claim';
+COMMENT ON TABLE public.legacy_plans IS 'Per-user check-in switch: remind after the interval, raise a claim after interval + grace period';
+COMMENT ON TABLE public.legacy_claims IS 'Reports of death, incapacity or an unanswered check-in; access is granted when an admin approves';
+COMMENT ON COLUMN public.account_exports.requested_by IS 'Legacy contact who requested an export of the owner''s data; NULL for the owner';
@@ -0,0 +1,650 @@
+-- Memory audiences: one access model replacing memories.recipient, visibility,
+-- shared_with_users and the access side of memory_shares. A memory group's
+-- audience is a set of grants: named circles of connections, specific
+-- connections, or a public link (Visitor page). RLS on memories checks
+-- can_view_memory_group; no grants means private.
+
+CREATE TABLE IF NOT EXISTS public.audience_circles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  kind TEXT NOT NULL DEFAULT 'custom' CHECK (kind IN ('family', 'close_friends', 'custom')),
+  relationship_types TEXT[] NOT NULL DEFAULT '{}', -- Connections with these RELATIONSHIP_TYPES are members automatically
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- One built-in Family and Close friends circle per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audience_circles_builtin
+ON public.audience_circles(user_id, kind) WHERE kind <> 'custom';
+
+CREATE TABLE IF NOT EXISTS public.audience_circle_members (
+  circle_id UUID NOT NULL REFERENCES public.audience_circles(id) ON DELETE CASCADE,
+  member_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (circle_id, member_user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.memory_audiences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Owner of the memory
+  memory_group_id UUID NOT NULL, -- coalesce(memories.memory_group_id, memories.id)
+  audience_type TEXT NOT NULL CHECK (audience_type IN ('circle', 'connection', 'public_link')),
+  circle_id UUID REFERENCES public.audience_circles(id) ON DELETE CASCADE,
+  connection_user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((audience_type = 'circle') = (circle_id IS NOT NULL)),
+  CHECK ((audience_type = 'connection') = (connection_user_id IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memory_audiences_public
+ON public.memory_audiences(user_id, memory_group_id) WHERE audience_type = 'public_link';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memory_audiences_circle
+ON public.memory_audiences(memory_group_id, circle_id) WHERE audience_type = 'circle';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memory_audiences_connection
+ON public.memory_audiences(memory_group_id, connection_user_id) WHERE audience_type = 'connection';
+CREATE INDEX IF NOT EXISTS idx_memory_audiences_group ON public.memory_audiences(user_id, memory_group_id);
+CREATE INDEX IF NOT EXISTS idx_memory_audiences_connection_user ON public.memory_audiences(connection_user_id) WHERE connection_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_memory_audiences_circle_id ON public.memory_audiences(circle_id) WHERE circle_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audience_circle_members_member ON public.audience_circle_members(member_user_id);
+
+ALTER TABLE public.audience_circles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audience_circle_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memory_audiences ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_audience_circles_updated_at
+BEFORE UPDATE ON public.audience_circles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Is p_viewer in the circle? Members must still be accepted connections of the
+-- owner, either by relationship type or by being added explicitly.
+CREATE OR REPLACE FUNCTION public.is_audience_circle_member(p_circle_id UUID, p_viewer UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.audience_circles c
+    JOIN public.user_connections uc
+      ON uc.status = 'accepted'
+     AND (
+       (uc.requester_id = c.user_id AND uc.addressee_id = p_viewer)
+       OR (uc.addressee_id = c.user_id AND uc.requester_id = p_viewer)
+     )
+    WHERE c.id = p_circle_id
+      AND (
+        uc.relationship_type = ANY(c.relationship_types)
+        OR EXISTS (
+          SELECT 1 FROM public.audience_circle_members m
+          WHERE m.circle_id = c.id AND m.member_user_id = p_viewer
+        )
+      )
+  );
+$$;
+
+-- The single visibility check. p_viewer is only trusted from the service
+-- role; everyone else is checked as themselves (auth.uid()), so the function
+-- can't be used to probe what another user can see.
+CREATE OR REPLACE FUNCTION public.can_view_memory_group(p_owner UUID, p_memory_group_id UUID, p_viewer UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(v.viewer = p_owner, false)
+    OR EXISTS (
+      SELECT 1 FROM public.memory_audiences a
+      WHERE a.user_id = p_owner
+        AND a.memory_group_id = p_memory_group_id
+        AND (
+          a.audience_type = 'public_link'
+          OR (
+            v.viewer IS NOT NULL
+            AND a.audience_type = 'connection'
+            AND a.connection_user_id = v.viewer
+            AND public.are_users_connected(p_owner, v.viewer)
+          )
+          OR (
+            v.viewer IS NOT NULL
+            AND a.audience_type = 'circle'
+            AND public.is_audience_circle_member(a.circle_id, v.viewer)
+          )
+        )
+    )
+  FROM (
+    SELECT CASE WHEN auth.role() = 'service_role' THEN p_viewer ELSE auth.uid() END AS viewer
+  ) v;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_memory_public(p_memory_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.memories m
+    JOIN public.memory_audiences a
+      ON a.user_id = m.user_id
+     AND a.memory_group_id = coalesce(m.memory_group_id, m.id)
+     AND a.audience_type = 'public_link'
+    WHERE m.id = p_memory_id
+  );
+$$;
+
+-- Every chunk of the owner's memory groups on their public link (Visitor
+-- page), filtered here rather than with a list of group ids from the client
+CREATE OR REPLACE FUNCTION public.get_public_memories(p_owner UUID)
+RETURNS SETOF public.memories
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.*
+  FROM public.memories m
+  JOIN public.memory_audiences a
+    ON a.user_id = m.user_id
+   AND a.memory_group_id = coalesce(m.memory_group_id, m.id)
+   AND a.audience_type = 'public_link'
+  WHERE m.user_id = p_owner
+  ORDER BY m.created_at DESC;
+$$;
+
+-- Anonymous visitors only ever see public links, through is_memory_public
+-- and get_public_memories
+REVOKE EXECUTE ON FUNCTION public.can_view_memory_group(UUID, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_memory_group(UUID, UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.is_memory_public(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_public_memories(UUID) TO anon, authenticated;
+
+-- Built-in circles: Family includes family relationship types automatically,
+-- Close friends starts empty
+CREATE OR REPLACE FUNCTION public.ensure_default_audience_circles(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.audience_circles (user_id, name, kind, relationship_types)
+  VALUES
+    (p_user_id, 'Family', 'family', ARRAY['mom', 'dad', 'son', 'daughter', 'spouse', 'sibling', 'grandparent']),
+    (p_user_id, 'Close friends', 'close_friends', '{}')
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_default_audience_circles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.ensure_default_audience_circles(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_default_audience_circles
+AFTER INSERT ON public.user_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.create_default_audience_circles();
+
+-- audience_circles / members: owner only
+CREATE POLICY "Users can view their own audience circles"
+ON public.audience_circles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own audience circles"
+ON public.audience_circles
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND kind = 'custom');
+
+CREATE POLICY "Users can update their own audience circles"
+ON public.audience_circles
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own custom audience circles"
+ON public.audience_circles
+FOR DELETE
+USING (auth.uid() = user_id AND kind = 'custom');
+
+CREATE POLICY "Users can view members of their own circles"
+ON public.audience_circle_members
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.audience_circles c WHERE c.id = circle_id AND c.user_id = auth.uid()));
+
+CREATE POLICY "Users can add connections to their own circles"
+ON public.audience_circle_members
+FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.audience_circles c WHERE c.id = circle_id AND c.user_id = auth.uid())
+  AND public.are_users_connected(auth.uid(), member_user_id)
+);
+
+CREATE POLICY "Users can remove members from their own circles"
+ON public.audience_circle_members
+FOR DELETE
+USING (EXISTS (SELECT 1 FROM public.audience_circles c WHERE c.id = circle_id AND c.user_id = auth.uid()));
+
+-- memory_audiences: owners see their grants, anyone sees public links (Visitor),
+-- connections see grants made to them. Writes go through set_memory_audience.
+CREATE POLICY "Owners and grantees can view memory audiences"
+ON public.memory_audiences
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR audience_type = 'public_link'
+  OR auth.uid() = connection_user_id
+);
+
+-- memories: replace the recipient-based public policy
+DROP POLICY IF EXISTS "Anyone can view public memories" ON public.memories;
+
+CREATE POLICY "Audiences can view memories"
+ON public.memories
+FOR SELECT
+TO authenticated
+USING (public.can_view_memory_group(user_id, coalesce(memory_group_id, id), auth.uid()));
+
+CREATE POLICY "Anyone can view memories shared by public link"
+ON public.memories
+FOR SELECT
+TO anon
+USING (public.is_memory_public(id));
+
+-- Legacy contacts with shared-only access see what the memory's audience includes them in
+DROP POLICY IF EXISTS "Legacy contacts can view handed-over memories" ON public.memories;
+
+CREATE POLICY "Legacy contacts can view handed-over memories"
+ON public.memories
+FOR SELECT
+TO authenticated
+USING (
+  public.has_legacy_permission(user_id, 'view_all')
+  OR (
+    public.has_legacy_permission(user_id, 'view_shared')
+    AND public.can_view_memory_group(user_id, coalesce(memory_group_id, id), auth.uid())
+  )
+);
+
+-- View logging follows the public link instead of recipient = 'public'
+DROP POLICY IF EXISTS "Can log views for public memories only" ON public.visitor_logs;
+CREATE POLICY "Can log views for public memories only"
+ON public.visitor_logs
+FOR INSERT
+WITH CHECK (public.is_memory_public(memory_id));
+
+DROP POLICY IF EXISTS "System can log memory access" ON public.memory_access;
+CREATE POLICY "System can log memory access"
+ON public.memory_access
+FOR INSERT
+WITH CHECK (public.is_memory_public(memory_id));
+
+-- Replace a memory's audience in one go
+CREATE OR REPLACE FUNCTION public.set_memory_audience(
+  p_memory_group_id UUID,
+  p_circle_ids UUID[] DEFAULT '{}',
+  p_connection_ids UUID[] DEFAULT '{}',
+  p_public BOOLEAN DEFAULT false
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.memories
+    WHERE user_id = v_user_id AND coalesce(memory_group_id, id) = p_memory_group_id
+  ) THEN
+    RAISE EXCEPTION 'Memory not found';
+  END IF;
+
+  DELETE FROM public.memory_audiences
+  WHERE user_id = v_user_id AND memory_group_id = p_memory_group_id;
+
+  IF p_public THEN
+    INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type)
+    VALUES (v_user_id, p_memory_group_id, 'public_link');
+  END IF;
+
+  INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type, circle_id)
+  SELECT v_user_id, p_memory_group_id, 'circle', c.id
+  FROM public.audience_circles c
+  WHERE c.user_id = v_user_id
+    AND c.id = ANY(coalesce(p_circle_ids, '{}'));
+
+  INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type, connection_user_id)
+  SELECT DISTINCT v_user_id, p_memory_group_id, 'connection', u.id
+  FROM unnest(coalesce(p_connection_ids, '{}')) AS u(id)
+  WHERE public.are_users_connected(v_user_id, u.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_memory_audience(UUID, UUID[], UUID[], BOOLEAN) TO authenticated;
+
+-- Memories other people shared with the current user through a circle or directly
+CREATE OR REPLACE FUNCTION public.get_memories_shared_with_me(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  owner_user_id UUID,
+  memory_group_id UUID,
+  title TEXT,
+  memory_date DATE,
+  shared_via TEXT, -- 'circle' or 'connection'
+  circle_name TEXT,
+  shared_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT DISTINCT ON (a.user_id, a.memory_group_id)
+      a.user_id,
+      a.memory_group_id,
+      regexp_replace(m.title, '\s*\(Part \d+/\d+\)$', ''),
+      m.memory_date,
+      a.audience_type,
+      c.name,
+      a.created_at
+    FROM public.memory_audiences a
+    LEFT JOIN public.audience_circles c ON c.id = a.circle_id
+    JOIN LATERAL (
+      SELECT mm.title, mm.memory_date
+      FROM public.memories mm
+      WHERE mm.user_id = a.user_id
+        AND coalesce(mm.memory_group_id, mm.id) = a.memory_group_id
+      ORDER BY coalesce(mm.chunk_sequence, 1)
+      LIMIT 1
+    ) m ON true
+    WHERE a.user_id <> auth.uid()
+      AND (
+        (a.audience_type = 'connection' AND a.connection_user_id = auth.uid() AND public.are_users_connected(a.user_id, auth.uid()))
+        OR (a.audience_type = 'circle' AND public.is_audience_circle_member(a.circle_id, auth.uid()))
+      )
+    ORDER BY a.user_id, a.memory_group_id, a.created_at DESC
+  ) shared
+  ORDER BY shared.created_at DESC
+  LIMIT greatest(coalesce(p_limit, 100), 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_memories_shared_with_me(INTEGER) TO authenticated;
+
+-- Full-text search over memories shared with p_viewer (WhatsApp replies).
+-- Takes an explicit viewer, so it is for the service role only.
+CREATE OR REPLACE FUNCTION public.search_shared_memories(p_viewer UUID, p_query TEXT DEFAULT NULL, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  owner_user_id UUID,
+  memory_group_id UUID,
+  title TEXT,
+  text TEXT,
+  memory_date DATE,
+  text_rank DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visible AS (
+    SELECT DISTINCT a.user_id, a.memory_group_id
+    FROM public.memory_audiences a
+    WHERE a.user_id <> p_viewer
+      AND (
+        (a.audience_type = 'connection' AND a.connection_user_id = p_viewer AND public.are_users_connected(a.user_id, p_viewer))
+        OR (a.audience_type = 'circle' AND public.is_audience_circle_member(a.circle_id, p_viewer))
+      )
+  ),
+  params AS (
+    SELECT CASE WHEN nullif(trim(p_query), '') IS NULL THEN NULL
+                ELSE websearch_to_tsquery('english', p_query) END AS tsq
+  )
+  SELECT
+    v.user_id,
+    v.memory_group_id,
+    regexp_replace((array_agg(m.title ORDER BY coalesce(m.chunk_sequence, 1)))[1], '\s*\(Part \d+/\d+\)$', ''),
+    string_agg(m.text, ' ' ORDER BY coalesce(m.chunk_sequence, 1)),
+    max(m.memory_date),
+    max(CASE WHEN params.tsq IS NOT NULL AND m.search_vector @@ params.tsq
+             THEN ts_rank_cd(m.search_vector, params.tsq, 32) ELSE 0 END)::DOUBLE PRECISION
+  FROM visible v
+  JOIN public.memories m
+    ON m.user_id = v.user_id
+   AND coalesce(m.memory_group_id, m.id) = v.memory_group_id
+  CROSS JOIN params
+  GROUP BY v.user_id, v.memory_group_id, params.tsq
+  HAVING params.tsq IS NULL
+      OR max(CASE WHEN m.search_vector @@ params.tsq THEN 1 ELSE 0 END) = 1
+  ORDER BY 6 DESC, 5 DESC NULLS LAST
+  LIMIT greatest(coalesce(p_limit, 5), 1);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_shared_memories(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_shared_memories(UUID, TEXT, INTEGER) TO service_role;
+
+-- Older writers still set memories.recipient ('public', 'family', 'close_friends');
+-- turn that into the equivalent grant
+CREATE OR REPLACE FUNCTION public.apply_memory_recipient_audience()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id UUID := coalesce(NEW.memory_group_id, NEW.id);
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.recipient IS NOT DISTINCT FROM OLD.recipient THEN
+    RETURN NEW;
+  END IF;
+
+  -- The old recipient's grant goes first, so changing 'family' to 'close_friends'
+  -- doesn't leave the family circle with access
+  IF TG_OP = 'UPDATE' AND OLD.recipient = 'public' THEN
+    DELETE FROM public.memory_audiences
+    WHERE user_id = NEW.user_id AND memory_group_id = v_group_id AND audience_type = 'public_link';
+  ELSIF TG_OP = 'UPDATE' AND OLD.recipient IN ('family', 'close_friends') THEN
+    DELETE FROM public.memory_audiences a
+    USING public.audience_circles c
+    WHERE a.user_id = NEW.user_id
+      AND a.memory_group_id = v_group_id
+      AND a.audience_type = 'circle'
+      AND a.circle_id = c.id
+      AND c.user_id = NEW.user_id
+      AND c.kind = OLD.recipient;
+  END IF;
+
+  IF NEW.recipient = 'public' THEN
+    INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type)
+    VALUES (NEW.user_id, v_group_id, 'public_link')
+    ON CONFLICT DO NOTHING;
+  ELSIF NEW.recipient IN ('family', 'close_friends') THEN
+    PERFORM public.ensure_default_audience_circles(NEW.user_id);
+    INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type, circle_id)
+    SELECT NEW.user_id, v_group_id, 'circle', c.id
+    FROM public.audience_circles c
+    WHERE c.user_id = NEW.user_id AND c.kind = NEW.recipient
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_memory_recipient_audience
+AFTER INSERT OR UPDATE OF recipient ON public.memories
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_memory_recipient_audience();
+
+-- memory_shares stays the inbox (message, accept, change requests); the access
+-- itself is a connection grant that follows the share
+CREATE OR REPLACE FUNCTION public.apply_memory_share_audience()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_share public.memory_shares%ROWTYPE;
+  v_owner UUID;
+  v_group_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_share := OLD;
+  ELSE
+    v_share := NEW;
+  END IF;
+
+  SELECT user_id, coalesce(memory_group_id, id) INTO v_owner, v_group_id
+  FROM public.memories WHERE id = v_share.memory_id;
+
+  -- Only the owner's own shares grant access
+  IF NOT FOUND OR v_owner <> v_share.sharer_id THEN
+    RETURN v_share;
+  END IF;
+
+  IF TG_OP = 'DELETE' OR v_share.status = 'rejected' THEN
+    DELETE FROM public.memory_audiences
+    WHERE user_id = v_owner
+      AND memory_group_id = v_group_id
+      AND audience_type = 'connection'
+      AND connection_user_id = v_share.recipient_id;
+  ELSE
+    INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type, connection_user_id)
+    VALUES (v_owner, v_group_id, 'connection', v_share.recipient_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN v_share;
+END;
+$$;
+
+CREATE TRIGGER apply_memory_share_audience
+AFTER INSERT OR UPDATE OF status OR DELETE ON public.memory_shares
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_memory_share_audience();
+
+-- Visitor page management by legacy contacts now toggles the public link
+CREATE OR REPLACE FUNCTION public.legacy_visitor_page_memories(p_owner UUID)
+RETURNS TABLE (
+  memory_group_id UUID,
+  title TEXT,
+  memory_date DATE,
+  is_public BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_legacy_permission(p_owner, 'manage_visitor_page') THEN
+    RAISE EXCEPTION 'Not allowed to manage this Visitor page';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    coalesce(m.memory_group_id, m.id),
+    regexp_replace((array_agg(m.title ORDER BY coalesce(m.chunk_sequence, 1)))[1], '\s*\(Part \d+/\d+\)$', ''),
+    max(m.memory_date),
+    EXISTS (
+      SELECT 1 FROM public.memory_audiences a
+      WHERE a.user_id = p_owner
+        AND a.memory_group_id = coalesce(m.memory_group_id, m.id)
+        AND a.audience_type = 'public_link'
+    )
+  FROM public.memories m
+  WHERE m.user_id = p_owner
+  GROUP BY coalesce(m.memory_group_id, m.id)
+  ORDER BY max(m.memory_date) DESC NULLS LAST;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.legacy_set_memory_public(p_owner UUID, p_memory_group_id UUID, p_public BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_legacy_permission(p_owner, 'manage_visitor_page') THEN
+    RAISE EXCEPTION 'Not allowed to manage this Visitor page';
+  END IF;
+
+  IF p_public THEN
+    INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type)
+    SELECT p_owner, p_memory_group_id, 'public_link'
+    WHERE EXISTS (
+      SELECT 1 FROM public.memories
+      WHERE user_id = p_owner AND coalesce(memory_group_id, id) = p_memory_group_id
+    )
+    ON CONFLICT DO NOTHING;
+  ELSE
+    DELETE FROM public.memory_audiences
+    WHERE user_id = p_owner
+      AND memory_group_id = p_memory_group_id
+      AND audience_type = 'public_link';
+  END IF;
+END;
+$$;
+
+-- Backfill: built-in circles for existing users, then grants from the old fields
+SELECT public.ensure_default_audience_circles(u.user_id)
+FROM (
+  SELECT DISTINCT user_id FROM public.memories
+  UNION
+  SELECT user_id FROM public.user_profiles
+) u
+WHERE EXISTS (SELECT 1 FROM auth.users au WHERE au.id = u.user_id);
+
+INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type)
+SELECT DISTINCT m.user_id, coalesce(m.memory_group_id, m.id), 'public_link'
+FROM public.memories m
+WHERE m.recipient = 'public' OR m.visibility = 'public'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type, circle_id)
+SELECT DISTINCT m.user_id, coalesce(m.memory_group_id, m.id), 'circle', c.id
+FROM public.memories m
+JOIN public.audience_circles c ON c.user_id = m.user_id AND c.kind = m.recipient
+WHERE m.recipient IN ('family', 'close_friends')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type, connection_user_id)
+SELECT DISTINCT m.user_id, coalesce(m.memory_group_id, m.id), 'connection', au.id
+FROM public.memories m
+CROSS JOIN LATERAL unnest(m.shared_with_users) AS shared(user_ref)
+JOIN auth.users au ON au.id::text = shared.user_ref::text
+WHERE au.id <> m.user_id
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.memory_audiences (user_id, memory_group_id, audience_type, connection_user_id)
+SELECT DISTINCT m.user_id, coalesce(m.memory_group_id, m.id), 'connection', ms.recipient_id
+FROM public.memory_shares ms
+JOIN public.memories m ON m.id = ms.memory_id
+WHERE ms.status <> 'rejected'
+  AND ms.sharer_id = m.user_id
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE public.audience_circles IS 'Named groups of connections a memory can be shared with; relationship_types add matching connections automatically';
+COMMENT ON TABLE public.memory_audiences IS 'Who can see a memory group: circles, specific connections or a public link. No rows = private';
+COMMENT ON FUNCTION public.can_view_memory_group IS 'Single visibility check used by RLS on memories';
+COMMENT ON COLUMN public.memories.recipient IS 'Deprecated: audience lives in memory_audiences. Writes of public/family/close_friends are mapped to grants';
+COMMENT ON COLUMN public.memories.visibility IS 'Deprecated: audience lives in memory_audiences';
+COMMENT ON COLUMN public.memories.shared_with_users IS 'Deprecated: audience lives in memory_audiences';
@@ -0,0 +1,53 @@
+-- Family story threads: the owner's account of a memory and everyone's
+-- memory_perspectives on it, aligned into one narrative with attributed
+-- passages and flagged contradictions. The family-story function writes the
+-- alignment; the owner resolves conflicts, edits and approves the merged text,
+-- which is then woven into their biography.
+
+CREATE TABLE IF NOT EXISTS public.family_story_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Owner of the memory
+  memory_group_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved')),
+  accounts JSONB NOT NULL DEFAULT '[]'::jsonb,   -- [{ key, kind: owner|perspective, user_id, perspective_id, name }]
+  passages JSONB NOT NULL DEFAULT '[]'::jsonb,   -- [{ text, sources: [account key] }]
+  conflicts JSONB NOT NULL DEFAULT '[]'::jsonb,  -- [{ id, kind: date|place|people|detail, summary, claims: [{ source, value }], resolution }]
+  merged_text TEXT,                              -- Owner's working version
+  approved_text TEXT,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  perspective_ids UUID[] NOT NULL DEFAULT '{}',  -- Perspectives included in the last alignment
+  aligned_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, memory_group_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_family_story_threads_group ON public.family_story_threads(memory_group_id);
+
+ALTER TABLE public.family_story_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_family_story_threads_updated_at
+BEFORE UPDATE ON public.family_story_threads
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Everyone in the memory's audience can read the family story
+CREATE POLICY "Memory audiences can view family story threads"
+ON public.family_story_threads
+FOR SELECT
+TO authenticated
+USING (public.can_view_memory_group(user_id, memory_group_id, auth.uid()));
+
+-- Only the owner edits, resolves and approves; alignment rows are written by the function
+CREATE POLICY "Users can update their own family story threads"
+ON public.family_story_threads
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own family story threads"
+ON public.family_story_threads
+FOR DELETE
+USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.family_story_threads IS 'Aligned family accounts of one memory group, with conflicts and the owner-approved merged version';
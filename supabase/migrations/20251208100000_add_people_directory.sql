@@ -0,0 +1,177 @@
+-- People directory: canonical records for everyone the user talks about.
+-- Mentions extracted into memory_insights.insights.people ("Mom", "my mother
+-- Sarah") and the profile's family_members / close_friends / significant_others
+-- are resolved to one person each by the people-directory function. The user
+-- can merge and split people, and link a person to a connection when they are
+-- also a user.
+
+CREATE TABLE IF NOT EXISTS public.people (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  relationship TEXT,                              -- Canonical: mother, brother, friend, spouse…
+  relationship_group TEXT NOT NULL DEFAULT 'other'
+    CHECK (relationship_group IN ('family', 'friend', 'partner', 'other')),
+  aliases TEXT[] NOT NULL DEFAULT '{}',           -- Normalised mention texts that resolve to this person
+  linked_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- A connection who is this person
+  sources TEXT[] NOT NULL DEFAULT '{}',           -- insights, profile, manual
+  notes TEXT,
+  is_hidden BOOLEAN NOT NULL DEFAULT false,       -- Dismissed; kept so its aliases stay absorbed
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT people_not_self_linked CHECK (linked_user_id IS DISTINCT FROM user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_people_user ON public.people(user_id);
+CREATE INDEX IF NOT EXISTS idx_people_aliases ON public.people USING GIN(aliases);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_people_linked_user
+  ON public.people(user_id, linked_user_id) WHERE linked_user_id IS NOT NULL;
+
+-- One row per mention text per memory chunk; merge and split move these between people
+CREATE TABLE IF NOT EXISTS public.person_mentions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES public.people(id) ON DELETE CASCADE,
+  memory_id UUID NOT NULL REFERENCES public.memories(id) ON DELETE CASCADE,
+  memory_group_id UUID NOT NULL,
+  mention TEXT NOT NULL,                          -- As written, e.g. "my mother Sarah"
+  alias TEXT NOT NULL,                            -- Normalised form matched against people.aliases
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (memory_id, alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_person_mentions_person ON public.person_mentions(person_id);
+CREATE INDEX IF NOT EXISTS idx_person_mentions_group ON public.person_mentions(user_id, memory_group_id);
+
+ALTER TABLE public.people ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.person_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_people_updated_at
+BEFORE UPDATE ON public.people
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Users can view their own people"
+ON public.people
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own people"
+ON public.people
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Linking is limited to actual connections
+CREATE POLICY "Users can update their own people"
+ON public.people
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (linked_user_id IS NULL OR public.are_users_connected(user_id, linked_user_id))
+);
+
+CREATE POLICY "Users can delete their own people"
+ON public.people
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Mentions are written by the resolver and moved by merge_people / split_person
+CREATE POLICY "Users can view their own person mentions"
+ON public.person_mentions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own person mentions"
+ON public.person_mentions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Fold one person into another: mentions, aliases, sources and link move to the target
+CREATE OR REPLACE FUNCTION public.merge_people(p_source_id UUID, p_target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_source public.people;
+BEGIN
+  SELECT * INTO v_source FROM public.people WHERE id = p_source_id AND user_id = v_user_id;
+  IF v_source.id IS NULL OR p_source_id = p_target_id OR NOT EXISTS (
+    SELECT 1 FROM public.people WHERE id = p_target_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Person not found';
+  END IF;
+
+  -- The same alias can't be on one memory twice; the target's row wins
+  DELETE FROM public.person_mentions m
+  WHERE m.person_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM public.person_mentions t
+      WHERE t.person_id = p_target_id AND t.memory_id = m.memory_id AND t.alias = m.alias
+    );
+
+  UPDATE public.person_mentions SET person_id = p_target_id WHERE person_id = p_source_id;
+
+  -- Free the source's link before the target takes it over
+  UPDATE public.people SET linked_user_id = NULL WHERE id = p_source_id;
+
+  UPDATE public.people t
+  SET aliases = ARRAY(SELECT DISTINCT unnest(t.aliases || v_source.aliases || lower(v_source.display_name))),
+      sources = ARRAY(SELECT DISTINCT unnest(t.sources || v_source.sources)),
+      relationship = coalesce(t.relationship, v_source.relationship),
+      relationship_group = CASE WHEN t.relationship_group = 'other' THEN v_source.relationship_group ELSE t.relationship_group END,
+      linked_user_id = coalesce(t.linked_user_id, v_source.linked_user_id),
+      notes = coalesce(t.notes, v_source.notes),
+      is_hidden = false
+  WHERE t.id = p_target_id;
+
+  DELETE FROM public.people WHERE id = p_source_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_people(UUID, UUID) TO authenticated;
+
+-- Move some aliases, with their mentions, out of a person into a new one
+CREATE OR REPLACE FUNCTION public.split_person(p_person_id UUID, p_aliases TEXT[], p_display_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_person public.people;
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_person FROM public.people WHERE id = p_person_id AND user_id = v_user_id;
+  IF v_person.id IS NULL THEN
+    RAISE EXCEPTION 'Person not found';
+  END IF;
+  IF coalesce(array_length(p_aliases, 1), 0) = 0 OR coalesce(trim(p_display_name), '') = '' THEN
+    RAISE EXCEPTION 'Choose the mentions and a name for the new person';
+  END IF;
+
+  INSERT INTO public.people (user_id, display_name, aliases, sources)
+  VALUES (v_user_id, trim(p_display_name), p_aliases, ARRAY['manual'])
+  RETURNING id INTO v_new_id;
+
+  UPDATE public.person_mentions
+  SET person_id = v_new_id
+  WHERE person_id = p_person_id AND alias = ANY(p_aliases);
+
+  UPDATE public.people
+  SET aliases = ARRAY(SELECT a FROM unnest(aliases) AS a WHERE NOT a = ANY(p_aliases))
+  WHERE id = p_person_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.split_person(UUID, TEXT[], TEXT) TO authenticated;
+
+COMMENT ON TABLE public.people IS 'Canonical people the user talks about, resolved from memory insights and the profile';
+COMMENT ON TABLE public.person_mentions IS 'Where each person is mentioned, one row per normalised mention per memory chunk';
+COMMENT ON COLUMN public.people.aliases IS 'Normalised mention texts that resolve to this person; merge and split move them';
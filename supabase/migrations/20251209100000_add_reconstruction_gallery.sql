@@ -0,0 +1,35 @@
+-- Reconstruction gallery: images from generate-memory-sketch are stored as
+-- artifacts owned by the user who generated them, with the settings that
+-- produced them in metadata ({ memory_prompt, refine_prompt, mode, style,
+-- lens_mm, camera_style, identity_ids, seed, ... }). A refined image points
+-- at the one it was derived from. Attaching to a memory uses memory_artifacts
+-- like any other artifact.
+
+ALTER TABLE public.artifacts
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- Set for artifacts that can exist without a memory
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'upload' CHECK (source IN ('upload', 'reconstruction')),
+  ADD COLUMN IF NOT EXISTS derived_from_artifact_id UUID REFERENCES public.artifacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_user_source ON public.artifacts(user_id, source, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_artifacts_derived_from ON public.artifacts(derived_from_artifact_id);
+
+-- Owned artifacts are visible to their owner whether or not they are attached
+CREATE POLICY "Users can view their own artifacts"
+ON public.artifacts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own artifacts"
+ON public.artifacts
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own artifacts"
+ON public.artifacts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.artifacts.user_id IS 'Owner of artifacts not reached through a memory, e.g. reconstructions; null for uploads attached to memories';
+COMMENT ON COLUMN public.artifacts.source IS 'upload: file added by the user; reconstruction: generated by generate-memory-sketch';
+COMMENT ON COLUMN public.artifacts.derived_from_artifact_id IS 'Reconstruction this one was refined from';
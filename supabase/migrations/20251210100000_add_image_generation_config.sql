@@ -0,0 +1,21 @@
+-- Image generation providers: generate-memory-sketch and
+-- generate-identity-preview read this row (see _shared/image-providers.ts).
+-- default_provider is used unless a request names one of enabled_providers.
+-- Secrets stay in function env: OPENAI_API_KEY, HUGGINGFACE_TOKEN and the
+-- optional STABLE_DIFFUSION_API_KEY for a self-hosted endpoint.
+
+INSERT INTO public.system_configuration (key, value, category, description)
+SELECT
+  'image_generation_config',
+  '{
+    "default_provider": "openai",
+    "enabled_providers": ["openai", "placeholder"],
+    "openai": { "model": "gpt-image-1", "quality": "high" },
+    "huggingface": { "model": "stabilityai/stable-diffusion-xl-base-1.0", "steps": 30, "guidance_scale": 7.5 },
+    "stable_diffusion": { "endpoint_url": "", "api": "automatic1111", "steps": 30, "workflow": null, "timeout_ms": 120000 }
+  }'::jsonb,
+  'ai',
+  'Image generation provider for memory reconstruction and identity previews'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.system_configuration WHERE key = 'image_generation_config'
+);
@@ -0,0 +1,59 @@
+-- Identity training jobs
+-- Training images are uploaded to the identity-training-images bucket first;
+-- each training attempt for a trained identity is a job that moves through
+-- queued -> uploading -> training -> succeeded | failed | cancelled.
+-- A failed or cancelled job can be retried, which queues it again.
+-- trained_identities.training_status mirrors the latest job and
+-- training_job_id points at it.
+
+CREATE TABLE IF NOT EXISTS public.identity_training_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  identity_id UUID NOT NULL REFERENCES public.trained_identities(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'uploading', 'training', 'succeeded', 'failed', 'cancelled')),
+  image_storage_paths TEXT[] NOT NULL,
+  validation JSONB NOT NULL DEFAULT '{}'::jsonb,
+  hf_repo_name TEXT,
+  remote_job_id TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  last_polled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_training_jobs_identity_id ON public.identity_training_jobs(identity_id);
+CREATE INDEX IF NOT EXISTS idx_identity_training_jobs_user_status ON public.identity_training_jobs(user_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_identity_training_jobs_remote_job_id
+  ON public.identity_training_jobs(remote_job_id)
+  WHERE remote_job_id IS NOT NULL;
+
+ALTER TABLE public.identity_training_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and advanced by the train-identity function (service role);
+-- owners can only read them
+CREATE POLICY "Users can view their own training jobs"
+ON public.identity_training_jobs FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_identity_training_jobs_updated_at
+BEFORE UPDATE ON public.identity_training_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Identity status follows the job: queued and cancelled are new
+ALTER TABLE public.trained_identities
+  DROP CONSTRAINT IF EXISTS trained_identities_training_status_check;
+
+ALTER TABLE public.trained_identities
+  ADD CONSTRAINT trained_identities_training_status_check
+  CHECK (training_status IN ('pending', 'queued', 'uploading', 'training', 'completed', 'failed', 'cancelled'));
+
+COMMENT ON TABLE public.identity_training_jobs IS 'Training attempts for trained identities, advanced by train-identity polling or the trainer webhook';
+COMMENT ON COLUMN public.identity_training_jobs.validation IS 'Image quality report checked before submission: resolution, face count and duplicates per image';
+COMMENT ON COLUMN public.identity_training_jobs.remote_job_id IS 'Job id at the external trainer (IDENTITY_TRAINER_URL); null when training is the dataset upload only';
@@ -0,0 +1,331 @@
+-- Consent for trained identities: every identity records whose likeness it is
+-- and on what basis it may be used.
+-- - self: the owner's own face
+-- - connected_user: an accepted connection, who has to approve the request
+-- - deceased / minor: the owner states the guardian (e.g. executor, parent)
+--   who gave consent
+-- Consent expires and can be revoked by the owner or, for a connected user,
+-- the subject. Training waits for consent, and previews and reconstructions
+-- are refused without it. Every decision and use is kept in
+-- identity_consent_events, which the subject can read.
+
+CREATE TABLE IF NOT EXISTS public.identity_consents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  identity_id UUID NOT NULL UNIQUE REFERENCES public.trained_identities(id) ON DELETE CASCADE,
+  owner_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subject_type TEXT NOT NULL CHECK (subject_type IN ('self', 'connected_user', 'deceased', 'minor')),
+  subject_name TEXT NOT NULL,
+  subject_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- The owner for self, the connection for connected_user
+  relationship TEXT, -- How the subject relates to the owner, e.g. "Dad"
+  guardian_name TEXT, -- Who consented for a deceased or minor subject
+  guardian_relationship TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'granted', 'declined', 'revoked', 'expired')),
+  granted_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revocation_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (subject_type NOT IN ('self', 'connected_user') OR subject_user_id IS NOT NULL),
+  CHECK (subject_type NOT IN ('deceased', 'minor') OR guardian_name IS NOT NULL)
+);
+
+-- Audit log; kept after the identity is deleted so the subject can still see it
+CREATE TABLE IF NOT EXISTS public.identity_consent_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  identity_id UUID NOT NULL,
+  identity_name TEXT,
+  owner_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subject_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  event TEXT NOT NULL CHECK (event IN (
+    'requested', 'granted', 'declined', 'revoked', 'expired', 'renewed',
+    'used_training', 'used_preview', 'used_reconstruction', 'use_blocked', 'identity_deleted'
+  )),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_consents_owner ON public.identity_consents(owner_user_id);
+CREATE INDEX IF NOT EXISTS idx_identity_consents_subject ON public.identity_consents(subject_user_id) WHERE subject_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_identity_consents_expiry ON public.identity_consents(expires_at) WHERE status = 'granted';
+CREATE INDEX IF NOT EXISTS idx_identity_consent_events_identity ON public.identity_consent_events(identity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_identity_consent_events_subject ON public.identity_consent_events(subject_user_id, created_at DESC) WHERE subject_user_id IS NOT NULL;
+
+ALTER TABLE public.identity_consents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.identity_consent_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for owners and subjects; changes go through the functions below
+CREATE POLICY "Users can view consents for their identities or their likeness"
+ON public.identity_consents FOR SELECT
+TO authenticated
+USING (auth.uid() = owner_user_id OR auth.uid() = subject_user_id);
+
+CREATE POLICY "Users can view consent history for their identities or their likeness"
+ON public.identity_consent_events FOR SELECT
+TO authenticated
+USING (auth.uid() = owner_user_id OR auth.uid() = subject_user_id);
+
+CREATE TRIGGER update_identity_consents_updated_at
+BEFORE UPDATE ON public.identity_consents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Is the identity's consent granted and unexpired? (service role and RLS helpers)
+CREATE OR REPLACE FUNCTION public.identity_consent_is_active(p_identity_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.identity_consents
+    WHERE identity_id = p_identity_id
+      AND status = 'granted'
+      AND expires_at > now()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_identity_consent_event(
+  p_consent public.identity_consents,
+  p_event TEXT,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.identity_consent_events (
+    identity_id, identity_name, owner_user_id, subject_user_id, actor_user_id, event, details
+  )
+  SELECT p_consent.identity_id, ti.name, p_consent.owner_user_id, p_consent.subject_user_id, auth.uid(), p_event, p_details
+  FROM public.trained_identities ti
+  WHERE ti.id = p_consent.identity_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_identity_consent_event(public.identity_consents, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Record or replace the consent for one of the caller's identities. Self,
+-- deceased and minor subjects are granted on the owner's statement; a
+-- connected user's consent waits for them to approve it. Once a connected
+-- user is the subject, only they can give consent again: the owner can ask
+-- them again (pending), but can't re-record it under another subject type or
+-- person, which would undo their decline or revocation and hide it from them.
+CREATE OR REPLACE FUNCTION public.record_identity_consent(
+  p_identity_id UUID,
+  p_subject_type TEXT,
+  p_subject_name TEXT,
+  p_subject_user_id UUID DEFAULT NULL,
+  p_relationship TEXT DEFAULT NULL,
+  p_guardian_name TEXT DEFAULT NULL,
+  p_guardian_relationship TEXT DEFAULT NULL,
+  p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.identity_consents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_subject_user_id UUID := p_subject_user_id;
+  v_expires_at TIMESTAMP WITH TIME ZONE := COALESCE(p_expires_at, now() + INTERVAL '1 year');
+  v_status TEXT;
+  v_existing public.identity_consents;
+  v_consent public.identity_consents;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.trained_identities WHERE id = p_identity_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Identity not found';
+  END IF;
+
+  IF NULLIF(trim(p_subject_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Name the person in the photos';
+  END IF;
+
+  IF v_expires_at <= now() OR v_expires_at > now() + INTERVAL '5 years' THEN
+    RAISE EXCEPTION 'Consent must expire within the next 5 years';
+  END IF;
+
+  CASE p_subject_type
+    WHEN 'self' THEN
+      v_subject_user_id := auth.uid();
+      v_status := 'granted';
+    WHEN 'connected_user' THEN
+      IF v_subject_user_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.user_connections uc
+        WHERE uc.status = 'accepted'
+          AND (
+            (uc.requester_id = auth.uid() AND uc.addressee_id = v_subject_user_id)
+            OR (uc.requester_id = v_subject_user_id AND uc.addressee_id = auth.uid())
+          )
+      ) THEN
+        RAISE EXCEPTION 'The subject must be one of your connections';
+      END IF;
+      v_status := 'pending';
+    WHEN 'deceased', 'minor' THEN
+      IF NULLIF(trim(p_guardian_name), '') IS NULL THEN
+        RAISE EXCEPTION 'Name the guardian who gave consent';
+      END IF;
+      v_subject_user_id := NULL;
+      v_status := 'granted';
+    ELSE
+      RAISE EXCEPTION 'Unknown subject type: %', p_subject_type;
+  END CASE;
+
+  SELECT * INTO v_existing FROM public.identity_consents WHERE identity_id = p_identity_id;
+
+  IF v_existing.subject_type = 'connected_user'
+     AND (p_subject_type <> 'connected_user' OR v_subject_user_id IS DISTINCT FROM v_existing.subject_user_id) THEN
+    RAISE EXCEPTION 'This identity is of a connection; only they can consent to it, so ask them again';
+  END IF;
+
+  INSERT INTO public.identity_consents (
+    identity_id, owner_user_id, subject_type, subject_name, subject_user_id, relationship,
+    guardian_name, guardian_relationship, status, granted_at, expires_at
+  )
+  VALUES (
+    p_identity_id, auth.uid(), p_subject_type, trim(p_subject_name), v_subject_user_id,
+    NULLIF(trim(p_relationship), ''),
+    CASE WHEN p_subject_type IN ('deceased', 'minor') THEN trim(p_guardian_name) END,
+    CASE WHEN p_subject_type IN ('deceased', 'minor') THEN NULLIF(trim(p_guardian_relationship), '') END,
+    v_status,
+    CASE WHEN v_status = 'granted' THEN now() END,
+    v_expires_at
+  )
+  ON CONFLICT (identity_id) DO UPDATE SET
+    subject_type = EXCLUDED.subject_type,
+    subject_name = EXCLUDED.subject_name,
+    subject_user_id = EXCLUDED.subject_user_id,
+    relationship = EXCLUDED.relationship,
+    guardian_name = EXCLUDED.guardian_name,
+    guardian_relationship = EXCLUDED.guardian_relationship,
+    status = EXCLUDED.status,
+    granted_at = EXCLUDED.granted_at,
+    expires_at = EXCLUDED.expires_at,
+    revoked_at = NULL,
+    revoked_by = NULL,
+    revocation_reason = NULL
+  RETURNING * INTO v_consent;
+
+  PERFORM public.log_identity_consent_event(
+    v_consent,
+    CASE
+      WHEN v_existing.id IS NOT NULL AND v_status = 'granted' THEN 'renewed'
+      WHEN v_status = 'granted' THEN 'granted'
+      ELSE 'requested'
+    END,
+    jsonb_build_object(
+      'subject_type', p_subject_type,
+      'guardian_name', v_consent.guardian_name,
+      'expires_at', v_expires_at
+    )
+  );
+
+  RETURN v_consent;
+END;
+$$;
+
+-- The subject approves or declines a pending request about them
+CREATE OR REPLACE FUNCTION public.respond_identity_consent(p_consent_id UUID, p_approve BOOLEAN)
+RETURNS public.identity_consents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_consent public.identity_consents;
+BEGIN
+  UPDATE public.identity_consents
+  SET status = CASE WHEN p_approve THEN 'granted' ELSE 'declined' END,
+      granted_at = CASE WHEN p_approve THEN now() END
+  WHERE id = p_consent_id
+    AND subject_user_id = auth.uid()
+    AND subject_type = 'connected_user'
+    AND status = 'pending'
+  RETURNING * INTO v_consent;
+
+  IF v_consent.id IS NULL THEN
+    RAISE EXCEPTION 'Consent request not found or already answered';
+  END IF;
+
+  PERFORM public.log_identity_consent_event(v_consent, CASE WHEN p_approve THEN 'granted' ELSE 'declined' END);
+  RETURN v_consent;
+END;
+$$;
+
+-- The owner, or a connected subject, withdraws consent
+CREATE OR REPLACE FUNCTION public.revoke_identity_consent(p_consent_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS public.identity_consents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_consent public.identity_consents;
+BEGIN
+  UPDATE public.identity_consents
+  SET status = 'revoked',
+      revoked_at = now(),
+      revoked_by = auth.uid(),
+      revocation_reason = NULLIF(trim(p_reason), '')
+  WHERE id = p_consent_id
+    AND (owner_user_id = auth.uid() OR (subject_type = 'connected_user' AND subject_user_id = auth.uid()))
+    AND status IN ('pending', 'granted')
+  RETURNING * INTO v_consent;
+
+  IF v_consent.id IS NULL THEN
+    RAISE EXCEPTION 'Consent not found or no longer active';
+  END IF;
+
+  PERFORM public.log_identity_consent_event(v_consent, 'revoked', jsonb_build_object('reason', v_consent.revocation_reason));
+  RETURN v_consent;
+END;
+$$;
+
+-- Mark lapsed consents expired (hourly); identity_consent_is_active already
+-- ignores them, this records it
+CREATE OR REPLACE FUNCTION public.expire_identity_consents()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_consent public.identity_consents;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_consent IN
+    UPDATE public.identity_consents
+    SET status = 'expired'
+    WHERE status = 'granted' AND expires_at <= now()
+    RETURNING *
+  LOOP
+    PERFORM public.log_identity_consent_event(v_consent, 'expired');
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_identity_consent(UUID, TEXT, TEXT, UUID, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_identity_consent(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_identity_consent(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_identity_consents() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-identity-consents', '15 * * * *', 'SELECT public.expire_identity_consents()');
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.identity_consents IS 'Whose likeness a trained identity is and the consent it is used under';
+COMMENT ON COLUMN public.identity_consents.subject_type IS 'self, connected_user (approves in app), deceased or minor (guardian_name consented)';
+COMMENT ON TABLE public.identity_consent_events IS 'Audit log of consent decisions and identity use, visible to the owner and a subject who is a user';
@@ -0,0 +1,71 @@
+-- Speech providers: the speech function and whatsapp-webhook read this row
+-- (see _shared/speech-providers.ts). Providers are tried in list order, so a
+-- self-hosted whisper.cpp / Piper server can be primary or fallback.
+-- Secrets stay in function env: OPENAI_API_KEY, ELEVENLABS_API_KEY and the
+-- optional WHISPER_API_KEY / PIPER_API_KEY for self-hosted endpoints.
+
+INSERT INTO public.system_configuration (key, value, category, description)
+SELECT
+  'speech_config',
+  '{
+    "transcription_providers": ["openai"],
+    "synthesis_providers": ["elevenlabs"],
+    "transcribe_recordings": true,
+    "language": null,
+    "openai": { "model": "whisper-1" },
+    "whisper": { "endpoint_url": "", "api": "whisper_cpp", "model": "base.en", "timeout_ms": 120000 },
+    "elevenlabs": { "model": "eleven_turbo_v2_5", "voice_id": "9BWtsMINqrJLrRacOk9x" },
+    "piper": { "endpoint_url": "", "api": "piper", "voice": "en_GB-jenny_dioco-medium", "timeout_ms": 60000 }
+  }'::jsonb,
+  'ai',
+  'Speech-to-text and text-to-speech providers for recordings, WhatsApp voice notes and Solin''s voice'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.system_configuration WHERE key = 'speech_config'
+);
+
+-- Word-level timings from the audio itself, alongside transcript_text
+ALTER TABLE public.voice_recordings
+  ADD COLUMN IF NOT EXISTS transcript_words JSONB,
+  ADD COLUMN IF NOT EXISTS transcript_language TEXT,
+  ADD COLUMN IF NOT EXISTS transcription_provider TEXT,
+  ADD COLUMN IF NOT EXISTS transcription_status TEXT
+    CHECK (transcription_status IN ('pending', 'completed', 'failed', 'skipped')),
+  ADD COLUMN IF NOT EXISTS transcription_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS transcription_error TEXT,
+  ADD COLUMN IF NOT EXISTS transcribed_at TIMESTAMP WITH TIME ZONE;
+
+-- Set after the column is added so existing recordings stay NULL and are not
+-- queued; they can still be transcribed on demand
+ALTER TABLE public.voice_recordings ALTER COLUMN transcription_status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_voice_recordings_transcription_pending
+ON public.voice_recordings(created_at)
+WHERE transcription_status = 'pending';
+
+-- Transcribe queued recordings every five minutes, when pg_cron/pg_net are available
+-- and the project URL and service role key are stored in Vault ('project_url', 'service_role_key')
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'transcribe-voice-recordings',
+      '*/5 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/speech',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"transcribe_pending"}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$$;
+
+COMMENT ON COLUMN public.voice_recordings.transcript_words IS 'Word-level timings from speech-to-text: [{word, start, end, confidence?}], seconds from the start of the audio';
+COMMENT ON COLUMN public.voice_recordings.transcription_provider IS 'Speech provider that produced transcript_words (openai, whisper)';
+COMMENT ON COLUMN public.voice_recordings.transcription_status IS 'pending: queued for the speech function; completed, failed (after 3 attempts) or skipped (transcription disabled)';
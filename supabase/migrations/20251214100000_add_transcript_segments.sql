@@ -0,0 +1,49 @@
+-- Per-utterance transcripts for voice recordings: speaker, start/end seconds and
+-- confidence, so players can show a synced transcript and search can start
+-- playback at a match. transcript_text stays as the flat searchable copy.
+
+ALTER TABLE public.voice_recordings
+  ADD COLUMN IF NOT EXISTS transcript_segments JSONB;
+
+-- Backfill from the "[12s] USER: text" lines older recordings stored; a
+-- segment ends where the next one starts
+WITH lines AS (
+  SELECT
+    vr.id,
+    l.ord,
+    m[1]::numeric AS start_seconds,
+    lower(m[2]) AS speaker,
+    m[3] AS text,
+    m[4]::numeric / 100 AS confidence
+  FROM public.voice_recordings vr,
+    LATERAL regexp_split_to_table(vr.transcript_text, E'\n') WITH ORDINALITY AS l(line, ord),
+    LATERAL regexp_match(l.line, '^\[(\d+)s\]\s+(USER|AI):\s+(.+?)(?:\s+\((\d+)%\))?$') AS m
+  WHERE vr.transcript_segments IS NULL
+    AND vr.transcript_text ~ '^\[\d+s\] (USER|AI): '
+    AND m IS NOT NULL
+),
+segments AS (
+  SELECT
+    id,
+    jsonb_agg(
+      jsonb_strip_nulls(jsonb_build_object(
+        'speaker', speaker,
+        'start', start_seconds,
+        'end', GREATEST(start_seconds, COALESCE(next_start, start_seconds)),
+        'text', text,
+        'confidence', confidence
+      ))
+      ORDER BY ord
+    ) AS transcript_segments
+  FROM (
+    SELECT *, lead(start_seconds) OVER (PARTITION BY id ORDER BY ord) AS next_start
+    FROM lines
+  ) ordered
+  GROUP BY id
+)
+UPDATE public.voice_recordings vr
+SET transcript_segments = segments.transcript_segments
+FROM segments
+WHERE vr.id = segments.id;
+
+COMMENT ON COLUMN public.voice_recordings.transcript_segments IS 'Utterances: [{speaker: user|ai, start, end, text, confidence?}], seconds from the start of the audio';
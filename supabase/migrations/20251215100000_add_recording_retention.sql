@@ -0,0 +1,229 @@
+-- Server-side retention for voice recordings, run daily by the
+-- recording-retention function:
+-- - recording_retention_settings: each user's default retention, whether
+--   recordings linked to memories are kept, and when audio is re-encoded to a
+--   cheaper codec. Without a row, recordings expire after 90 days and are
+--   compressed after 30.
+-- - keep_forever pins a recording; retention_days overrides the default for
+--   one recording
+-- - expired recordings move to the trash (deleted_at), where they can be
+--   restored for 30 days before the audio and row are purged
+-- - is_compressed / compression_type describe the archived encoding once a
+--   recording has been compressed
+
+CREATE TABLE IF NOT EXISTS public.recording_retention_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  retention_days INTEGER DEFAULT 90 CHECK (retention_days IS NULL OR retention_days > 0), -- NULL keeps recordings forever
+  keep_linked_recordings BOOLEAN NOT NULL DEFAULT true, -- Never expire recordings with memory_ids
+  compress_after_days INTEGER DEFAULT 30 CHECK (compress_after_days IS NULL OR compress_after_days > 0), -- NULL never compresses
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.recording_retention_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own retention settings"
+ON public.recording_retention_settings FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own retention settings"
+ON public.recording_retention_settings FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own retention settings"
+ON public.recording_retention_settings FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recording_retention_settings_updated_at
+BEFORE UPDATE ON public.recording_retention_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.voice_recordings
+  ADD COLUMN IF NOT EXISTS keep_forever BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deleted_reason TEXT CHECK (deleted_reason IN ('user', 'retention')),
+  ADD COLUMN IF NOT EXISTS purge_after TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS compressed_at TIMESTAMP WITH TIME ZONE;
+
+-- retention_days is now an override; every existing row carries the old
+-- default, so they follow the owner's setting from here on
+ALTER TABLE public.voice_recordings ALTER COLUMN retention_days DROP DEFAULT;
+UPDATE public.voice_recordings SET retention_days = NULL WHERE retention_days = 90;
+
+-- Recorders store the browser's Opus as-is; is_compressed now means re-encoded for the archive
+ALTER TABLE public.voice_recordings ALTER COLUMN is_compressed SET DEFAULT false;
+UPDATE public.voice_recordings SET is_compressed = false WHERE compressed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_voice_recordings_purge_after ON public.voice_recordings(purge_after) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_voice_recordings_uncompressed ON public.voice_recordings(created_at) WHERE compressed_at IS NULL AND deleted_at IS NULL;
+
+-- Expiry follows the pin, memory links, the recording's override and then the
+-- owner's default. Trashing sets the 30-day purge date; restoring clears it.
+CREATE OR REPLACE FUNCTION public.set_voice_recording_expiration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings public.recording_retention_settings%ROWTYPE;
+  has_settings BOOLEAN;
+  days INTEGER;
+BEGIN
+  SELECT * INTO settings
+  FROM public.recording_retention_settings
+  WHERE user_id::text = NEW.user_id;
+  has_settings := FOUND;
+
+  IF NEW.keep_forever
+     OR (COALESCE(settings.keep_linked_recordings, true) AND COALESCE(array_length(NEW.memory_ids, 1), 0) > 0) THEN
+    NEW.expires_at := NULL;
+  ELSE
+    days := COALESCE(NEW.retention_days, CASE WHEN has_settings THEN settings.retention_days ELSE 90 END);
+    NEW.expires_at := CASE WHEN days IS NULL THEN NULL ELSE NEW.created_at + make_interval(days => days) END;
+  END IF;
+
+  IF NEW.deleted_at IS NULL THEN
+    NEW.deleted_reason := NULL;
+    NEW.purge_after := NULL;
+  ELSIF NEW.purge_after IS NULL THEN
+    NEW.deleted_reason := COALESCE(NEW.deleted_reason, 'user');
+    NEW.purge_after := NEW.deleted_at + interval '30 days';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Changing the defaults re-dates the owner's recordings
+CREATE OR REPLACE FUNCTION public.apply_recording_retention_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.voice_recordings
+  SET retention_days = retention_days
+  WHERE user_id = NEW.user_id::text
+    AND deleted_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_recording_retention_settings_trigger
+AFTER INSERT OR UPDATE ON public.recording_retention_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_recording_retention_settings();
+
+-- Re-date existing recordings under the new rules
+UPDATE public.voice_recordings SET retention_days = retention_days;
+
+-- Move expired recordings to the trash (service role, daily run)
+CREATE OR REPLACE FUNCTION public.trash_expired_voice_recordings()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trashed INTEGER;
+BEGIN
+  UPDATE public.voice_recordings
+  SET deleted_at = now(), deleted_reason = 'retention'
+  WHERE deleted_at IS NULL
+    AND expires_at IS NOT NULL
+    AND expires_at <= now();
+  GET DIAGNOSTICS trashed = ROW_COUNT;
+  RETURN trashed;
+END;
+$$;
+
+-- Recordings old enough to be re-encoded under their owner's setting
+CREATE OR REPLACE FUNCTION public.voice_recordings_due_for_compression(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.voice_recordings
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT vr.*
+  FROM public.voice_recordings vr
+  LEFT JOIN public.recording_retention_settings rs ON rs.user_id::text = vr.user_id
+  WHERE vr.compressed_at IS NULL
+    AND vr.deleted_at IS NULL
+    AND vr.storage_path IS NOT NULL
+    AND (rs.id IS NULL OR rs.compress_after_days IS NOT NULL)
+    AND vr.created_at <= now() - make_interval(days => COALESCE(rs.compress_after_days, 30))
+  ORDER BY vr.created_at
+  LIMIT p_limit;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trash_expired_voice_recordings() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.voice_recordings_due_for_compression(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- What happens next to the caller's recordings: expiring ones move to the
+-- trash, trashed ones are purged for good
+CREATE OR REPLACE FUNCTION public.get_recording_purge_report(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  recording_id UUID,
+  action TEXT,
+  due_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  duration_seconds NUMERIC,
+  file_size_bytes INTEGER,
+  conversation_summary TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT id, 'trash'::text, expires_at, created_at, duration_seconds, file_size_bytes, conversation_summary
+    FROM public.voice_recordings
+    WHERE user_id = auth.uid()::text AND deleted_at IS NULL AND expires_at IS NOT NULL
+    UNION ALL
+    SELECT id, 'purge'::text, purge_after, created_at, duration_seconds, file_size_bytes, conversation_summary
+    FROM public.voice_recordings
+    WHERE user_id = auth.uid()::text AND deleted_at IS NOT NULL
+  ) upcoming
+  ORDER BY 3
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_recording_purge_report(INTEGER) TO authenticated;
+
+-- Apply retention daily, when pg_cron/pg_net are available and the project
+-- URL and service role key are stored in Vault ('project_url', 'service_role_key')
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'apply-recording-retention',
+      '30 3 * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/recording-retention',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"run"}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.recording_retention_settings IS 'Per-user defaults for how long voice recordings are kept and when they are compressed';
+COMMENT ON COLUMN public.voice_recordings.retention_days IS 'Overrides the owner''s default retention for this recording; NULL follows recording_retention_settings';
+COMMENT ON COLUMN public.voice_recordings.keep_forever IS 'Pinned by the owner: never expires';
+COMMENT ON COLUMN public.voice_recordings.deleted_at IS 'In the trash since; restorable until purge_after, then the audio and row are deleted';
+COMMENT ON COLUMN public.voice_recordings.deleted_reason IS 'user: trashed by the owner; retention: expired';
+COMMENT ON COLUMN public.voice_recordings.is_compressed IS 'Re-encoded to the archive codec (compression_type) by the retention run';
+COMMENT ON COLUMN public.voice_recordings.compressed_at IS 'When the audio was re-encoded for the archive';
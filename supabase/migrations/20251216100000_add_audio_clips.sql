@@ -0,0 +1,18 @@
+-- Audio clips: a moment cut from a voice recording in the browser, trimmed,
+-- optionally normalised and saved as a WAV 'audio' artifact owned by the user.
+-- The recording it came from and the range are kept so the clip can be traced
+-- back ({ title, start_seconds, end_seconds, duration_seconds, normalized,
+-- gain, transcript_excerpt } in metadata). Clips are linked to memories
+-- through memory_artifacts like any other artifact, and outlive the recording.
+
+ALTER TABLE public.artifacts DROP CONSTRAINT IF EXISTS artifacts_source_check;
+ALTER TABLE public.artifacts
+  ADD CONSTRAINT artifacts_source_check CHECK (source IN ('upload', 'reconstruction', 'clip'));
+
+ALTER TABLE public.artifacts
+  ADD COLUMN IF NOT EXISTS source_recording_id UUID REFERENCES public.voice_recordings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_source_recording ON public.artifacts(source_recording_id) WHERE source_recording_id IS NOT NULL;
+
+COMMENT ON COLUMN public.artifacts.source IS 'upload: file added by the user; reconstruction: generated by generate-memory-sketch; clip: cut from a voice recording';
+COMMENT ON COLUMN public.artifacts.source_recording_id IS 'Voice recording a clip was cut from';
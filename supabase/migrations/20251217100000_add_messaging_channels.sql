@@ -0,0 +1,108 @@
+-- Messaging channels beyond WhatsApp: Solin's conversation (session context,
+-- pending memory, media collection, save) now runs on WhatsApp, SMS, Telegram
+-- and email replies through the messaging-webhook function.
+-- - whatsapp_sessions / whatsapp_messages record which channel a conversation
+--   and each message came through; phone_number holds the channel address
+--   (phone number, Telegram chat id or email address)
+-- - channel_identities links a Telegram chat or email address to an account.
+--   Phone channels keep using user_phone_numbers.
+-- - channel_link_codes: one-time codes a signed-in user sends from Telegram
+--   (/start CODE) or email to link that chat or address
+
+ALTER TABLE public.whatsapp_sessions
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'whatsapp' CHECK (channel IN ('whatsapp', 'sms', 'telegram', 'email'));
+
+ALTER TABLE public.whatsapp_messages
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'whatsapp' CHECK (channel IN ('whatsapp', 'sms', 'telegram', 'email'));
+
+CREATE TABLE IF NOT EXISTS public.channel_identities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('telegram', 'email')),
+  address TEXT NOT NULL, -- Telegram chat id or lower-cased email address
+  display_name TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (channel, address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_identities_user ON public.channel_identities(user_id);
+
+ALTER TABLE public.channel_identities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own channel identities"
+ON public.channel_identities FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own channel identities"
+ON public.channel_identities FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_channel_identities_updated_at
+BEFORE UPDATE ON public.channel_identities
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.channel_link_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('telegram', 'email')),
+  code TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_link_codes_user ON public.channel_link_codes(user_id, channel);
+
+ALTER TABLE public.channel_link_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own channel link codes"
+ON public.channel_link_codes FOR SELECT
+USING (auth.uid() = user_id);
+
+-- New link code for the caller, replacing any unused one for the channel.
+-- Codes avoid look-alike characters so they can be typed from a screen.
+CREATE OR REPLACE FUNCTION public.create_channel_link_code(p_channel TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_channel NOT IN ('telegram', 'email') THEN
+    RAISE EXCEPTION 'Unsupported channel: %', p_channel;
+  END IF;
+
+  DELETE FROM public.channel_link_codes
+  WHERE user_id = auth.uid() AND channel = p_channel AND used_at IS NULL;
+
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1), '')
+    INTO v_code
+    FROM generate_series(1, 6);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.channel_link_codes WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO public.channel_link_codes (user_id, channel, code, expires_at)
+  VALUES (auth.uid(), p_channel, v_code, now() + interval '30 minutes');
+
+  RETURN v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_channel_link_code(TEXT) TO authenticated;
+
+COMMENT ON COLUMN public.whatsapp_sessions.channel IS 'Messaging channel of the conversation: whatsapp, sms, telegram or email';
+COMMENT ON COLUMN public.whatsapp_messages.channel IS 'Messaging channel the message was received or sent on';
+COMMENT ON COLUMN public.memory_revisions.author_type IS 'Who made the change: user, solin_voice, whatsapp, sms, telegram, email, process_memory_insights or system';
+COMMENT ON TABLE public.channel_identities IS 'Telegram chats and email addresses linked to an account for messaging Solin';
+COMMENT ON TABLE public.channel_link_codes IS 'One-time codes linking a Telegram chat or email address to the account that created them';
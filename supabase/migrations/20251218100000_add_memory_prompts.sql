@@ -0,0 +1,221 @@
+-- Weekly memory prompts: Solin writes first. The memory-prompts function
+-- (every 15 minutes) sends each user who turned them on one personalised
+-- question on WhatsApp or by email at their chosen day, time and timezone.
+-- - memory_prompt_settings: schedule, quiet hours and opt-out. next_send_at is
+--   worked out here whenever the schedule changes or a run claims the prompt.
+-- - memory_prompts: every question sent, and the memory the reply became
+-- - memories.prompt_id records which question inspired a memory
+
+CREATE TABLE IF NOT EXISTS public.memory_prompt_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  channel TEXT NOT NULL DEFAULT 'whatsapp' CHECK (channel IN ('whatsapp', 'email')),
+  day_of_week INTEGER NOT NULL DEFAULT 0 CHECK (day_of_week BETWEEN 0 AND 6), -- 0 = Sunday
+  send_time TIME NOT NULL DEFAULT '10:00',
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA name, e.g. Europe/Lisbon
+  quiet_hours_start TIME, -- Local time; both NULL means no quiet hours
+  quiet_hours_end TIME,
+  opted_out_at TIMESTAMP WITH TIME ZONE, -- Replied STOP; cleared by START
+  next_send_at TIMESTAMP WITH TIME ZONE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_prompt_settings_due ON public.memory_prompt_settings(next_send_at)
+WHERE enabled AND opted_out_at IS NULL;
+
+ALTER TABLE public.memory_prompt_settings ENABLE ROW LEVEL SECURITY;
+
+-- Users read their settings; writes go through save_memory_prompt_settings,
+-- so next_send_at, last_sent_at and opted_out_at can't be set from the client
+CREATE POLICY "Users can view their own memory prompt settings"
+ON public.memory_prompt_settings FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_memory_prompt_settings_updated_at
+BEFORE UPDATE ON public.memory_prompt_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- First occurrence of the weekday and local time after p_after, in p_timezone
+CREATE OR REPLACE FUNCTION public.next_memory_prompt_at(
+  p_day_of_week INTEGER,
+  p_send_time TIME,
+  p_timezone TEXT,
+  p_after TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  local_after TIMESTAMP := p_after AT TIME ZONE p_timezone;
+  send_date DATE := local_after::date + ((p_day_of_week - EXTRACT(DOW FROM local_after)::int + 7) % 7);
+  candidate TIMESTAMP WITH TIME ZONE := (send_date + p_send_time) AT TIME ZONE p_timezone;
+BEGIN
+  IF candidate <= p_after THEN
+    candidate := (send_date + 7 + p_send_time) AT TIME ZONE p_timezone;
+  END IF;
+  RETURN candidate;
+END;
+$$;
+
+-- Re-date the next prompt when the schedule changes, or when a run claims it
+-- by clearing next_send_at. An unknown timezone fails here.
+CREATE OR REPLACE FUNCTION public.set_memory_prompt_next_send()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.next_send_at IS NULL
+     OR NEW.day_of_week IS DISTINCT FROM OLD.day_of_week
+     OR NEW.send_time IS DISTINCT FROM OLD.send_time
+     OR NEW.timezone IS DISTINCT FROM OLD.timezone
+     OR (NEW.enabled AND NOT OLD.enabled) THEN
+    NEW.next_send_at := public.next_memory_prompt_at(NEW.day_of_week, NEW.send_time, NEW.timezone, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_memory_prompt_next_send_trigger
+BEFORE INSERT OR UPDATE ON public.memory_prompt_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_memory_prompt_next_send();
+
+-- Save the current user's schedule and preferences. Turning prompts on also
+-- clears a STOP sent from the phone or inbox.
+CREATE OR REPLACE FUNCTION public.save_memory_prompt_settings(
+  p_enabled BOOLEAN,
+  p_channel TEXT,
+  p_day_of_week INTEGER,
+  p_send_time TIME,
+  p_timezone TEXT,
+  p_quiet_hours_start TIME DEFAULT NULL,
+  p_quiet_hours_end TIME DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO public.memory_prompt_settings (
+    user_id, enabled, channel, day_of_week, send_time, timezone, quiet_hours_start, quiet_hours_end
+  )
+  VALUES (
+    v_user_id, p_enabled, p_channel, p_day_of_week, p_send_time, p_timezone, p_quiet_hours_start, p_quiet_hours_end
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    enabled = EXCLUDED.enabled,
+    channel = EXCLUDED.channel,
+    day_of_week = EXCLUDED.day_of_week,
+    send_time = EXCLUDED.send_time,
+    timezone = EXCLUDED.timezone,
+    quiet_hours_start = EXCLUDED.quiet_hours_start,
+    quiet_hours_end = EXCLUDED.quiet_hours_end,
+    opted_out_at = CASE WHEN EXCLUDED.enabled THEN NULL ELSE memory_prompt_settings.opted_out_at END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_memory_prompt_settings(BOOLEAN, TEXT, INTEGER, TIME, TEXT, TIME, TIME) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_memory_prompt_settings(BOOLEAN, TEXT, INTEGER, TIME, TEXT, TIME, TIME) TO authenticated;
+
+CREATE TABLE IF NOT EXISTS public.memory_prompts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('whatsapp', 'email')),
+  address TEXT, -- Phone number or email address it went to
+  question TEXT NOT NULL,
+  seed_memory_id UUID REFERENCES public.memories(id) ON DELETE SET NULL, -- Memory the question builds on
+  topic TEXT,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'answered', 'failed')),
+  provider_message_id TEXT,
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  answered_at TIMESTAMP WITH TIME ZONE,
+  memory_id UUID REFERENCES public.memories(id) ON DELETE SET NULL, -- Memory saved from the reply
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_prompts_user ON public.memory_prompts(user_id, sent_at DESC);
+
+ALTER TABLE public.memory_prompts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own memory prompts"
+ON public.memory_prompts FOR SELECT
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.memories
+  ADD COLUMN IF NOT EXISTS prompt_id UUID REFERENCES public.memory_prompts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memories_prompt_id ON public.memories(prompt_id) WHERE prompt_id IS NOT NULL;
+
+-- Claim settings whose next prompt is due (service role, memory-prompts run).
+-- Clearing next_send_at re-dates it to next week through the trigger, so an
+-- overlapping run can't pick the same user up and send twice.
+CREATE OR REPLACE FUNCTION public.claim_memory_prompts_due(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.memory_prompt_settings
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.memory_prompt_settings s
+  SET next_send_at = NULL
+  FROM (
+    SELECT id
+    FROM public.memory_prompt_settings
+    WHERE enabled
+      AND opted_out_at IS NULL
+      AND next_send_at <= now()
+    ORDER BY next_send_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ) due
+  WHERE s.id = due.id
+  RETURNING s.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_memory_prompts_due(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Send due prompts every 15 minutes, when pg_cron/pg_net are available and the
+-- project URL and service role key are stored in Vault ('project_url', 'service_role_key')
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-memory-prompts',
+      '*/15 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/memory-prompts',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"run"}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.memory_prompt_settings IS 'When and where Solin sends each user a weekly memory question';
+COMMENT ON COLUMN public.memory_prompt_settings.opted_out_at IS 'The user replied with an opt-out keyword; no prompts until they reply START or turn them back on';
+COMMENT ON COLUMN public.memory_prompt_settings.next_send_at IS 'Next scheduled prompt; recomputed from day_of_week, send_time and timezone when cleared';
+COMMENT ON TABLE public.memory_prompts IS 'Proactive questions Solin sent, and the memory each reply became';
+COMMENT ON COLUMN public.memories.prompt_id IS 'The proactive memory prompt this memory was written in reply to';
@@ -0,0 +1,104 @@
+-- Messaging webhook inbox. whatsapp-webhook and messaging-webhook verify each
+-- delivery, store it here and answer the provider at once; the message is
+-- then processed in the background. Providers retry deliveries, so each
+-- message is kept once (per provider, sender and provider message id) and a
+-- repeat is acknowledged without being processed again.
+-- Failed events are retried with backoff by the messaging-inbox function
+-- (every minute) and can be replayed by admins from the Admin page. progress
+-- records what an attempt already did, so a retry doesn't do it twice.
+
+CREATE TABLE IF NOT EXISTS public.messaging_webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  channel TEXT NOT NULL CHECK (channel IN ('whatsapp', 'sms', 'telegram', 'email')),
+  provider TEXT NOT NULL,
+  provider_message_id TEXT NOT NULL,
+  from_address TEXT NOT NULL, -- Telegram message ids are only unique per chat
+  raw_body TEXT NOT NULL, -- Exactly as received; parsed again when processed
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE, -- NULL once processed or out of retries
+  last_error TEXT,
+  progress JSONB NOT NULL DEFAULT '{}'::jsonb, -- Steps already carried out (message saved, memory created, replies sent)
+  result JSONB,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (channel, provider, from_address, provider_message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_messaging_webhook_events_due ON public.messaging_webhook_events(next_attempt_at)
+WHERE status IN ('received', 'failed', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_messaging_webhook_events_status ON public.messaging_webhook_events(status, received_at DESC);
+
+ALTER TABLE public.messaging_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Only admins read the inbox; the webhook functions write with the service role
+CREATE POLICY "Admins can view messaging webhook events"
+ON public.messaging_webhook_events FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_messaging_webhook_events_updated_at
+BEFORE UPDATE ON public.messaging_webhook_events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Take due events for processing (service role, messaging-inbox). Events left
+-- in 'processing' for p_stale_minutes (the function was stopped mid-way) are
+-- taken again. Each claim counts as an attempt.
+CREATE OR REPLACE FUNCTION public.claim_messaging_webhook_events(
+  p_limit INTEGER DEFAULT 20,
+  p_stale_minutes INTEGER DEFAULT 10
+)
+RETURNS SETOF public.messaging_webhook_events
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.messaging_webhook_events e
+  SET status = 'processing',
+      attempts = e.attempts + 1,
+      next_attempt_at = now() + make_interval(mins => p_stale_minutes)
+  WHERE e.id IN (
+    SELECT id
+    FROM public.messaging_webhook_events
+    WHERE status IN ('received', 'failed', 'processing')
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING e.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_messaging_webhook_events(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Retry due events every minute, when pg_cron/pg_net are available and the
+-- project URL and service role key are stored in Vault ('project_url', 'service_role_key')
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'process-messaging-inbox',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/messaging-inbox',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action":"process"}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.messaging_webhook_events IS 'Verified inbound messaging webhooks, stored before processing so duplicates are dropped and failures retried';
+COMMENT ON COLUMN public.messaging_webhook_events.raw_body IS 'Request body as the provider sent it; the channel adapter parses it again on every attempt';
+COMMENT ON COLUMN public.messaging_webhook_events.progress IS 'inbound_message_id, artifact_ids, memory_id, edited_memory_id and the number of replies sent; skipped when the event is retried or replayed';
+COMMENT ON COLUMN public.messaging_webhook_events.next_attempt_at IS 'When the event is due (again); NULL once processed or after the last retry failed';
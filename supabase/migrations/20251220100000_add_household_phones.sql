@@ -0,0 +1,321 @@
+-- Several phone numbers per account, and household phones.
+-- - user_phone_numbers: a label ("Work", "Personal") and one primary number,
+--   the one Solin writes to first (memory prompts, time capsules, legacy)
+-- - household_phones: one phone (a care home tablet, a shared family number)
+--   that several accounts message Solin from. Solin asks "who is this?",
+--   gives the chosen person any photos sent before the answer, and keeps
+--   talking to them until the phone has been quiet for a while. Only a
+--   verified owner of the number can share it, and every other account joins
+--   itself with the phone's invite code, which records its owner's consent.
+--   Members can leave at any time.
+
+ALTER TABLE public.user_phone_numbers
+  ADD COLUMN IF NOT EXISTS label TEXT,
+  ADD COLUMN IF NOT EXISTS is_primary BOOLEAN NOT NULL DEFAULT false;
+
+-- The oldest verified number becomes primary
+UPDATE public.user_phone_numbers p
+SET is_primary = true
+WHERE p.verified
+  AND p.id = (
+    SELECT id FROM public.user_phone_numbers
+    WHERE user_id = p.user_id AND verified
+    ORDER BY created_at
+    LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_phone_numbers_primary ON public.user_phone_numbers(user_id)
+WHERE is_primary;
+
+-- Make one of the caller's verified numbers the primary one
+CREATE OR REPLACE FUNCTION public.set_primary_phone_number(p_phone_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_phone_numbers
+    WHERE id = p_phone_id AND user_id = auth.uid() AND verified
+  ) THEN
+    RAISE EXCEPTION 'Only your own verified numbers can be primary';
+  END IF;
+
+  UPDATE public.user_phone_numbers SET is_primary = false
+  WHERE user_id = auth.uid() AND is_primary AND id <> p_phone_id;
+
+  UPDATE public.user_phone_numbers SET is_primary = true
+  WHERE id = p_phone_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_primary_phone_number(UUID) TO authenticated;
+
+-- Removing the primary number promotes the oldest remaining verified one
+CREATE OR REPLACE FUNCTION public.promote_primary_phone_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_primary THEN
+    UPDATE public.user_phone_numbers SET is_primary = true
+    WHERE id = (
+      SELECT id FROM public.user_phone_numbers
+      WHERE user_id = OLD.user_id AND verified
+      ORDER BY created_at
+      LIMIT 1
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER promote_primary_phone_number_trigger
+AFTER DELETE ON public.user_phone_numbers
+FOR EACH ROW
+EXECUTE FUNCTION public.promote_primary_phone_number();
+
+CREATE TABLE IF NOT EXISTS public.household_phones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_digits TEXT NOT NULL UNIQUE, -- Digits only, as compared with webhook senders
+  phone_number TEXT NOT NULL, -- As entered by the owner
+  name TEXT NOT NULL, -- e.g. "Rose Court tablet"
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- Manages members and invites
+  invite_code TEXT UNIQUE,
+  invite_expires_at TIMESTAMP WITH TIME ZONE,
+  -- Who is talking right now, set by the "who is this?" answer
+  active_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  active_until TIMESTAMP WITH TIME ZONE,
+  awaiting_choice BOOLEAN NOT NULL DEFAULT false, -- "Who is this?" was asked
+  pending_media JSONB NOT NULL DEFAULT '[]'::jsonb, -- Media sent before the answer, handed to whoever answers
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.household_phone_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_phone_id UUID NOT NULL REFERENCES public.household_phones(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL, -- Shown in "who is this?"
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'left', 'removed')),
+  consented_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (household_phone_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_phone_members_user ON public.household_phone_members(user_id);
+
+CREATE TRIGGER update_household_phones_updated_at
+BEFORE UPDATE ON public.household_phones
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_household_phone_members_updated_at
+BEFORE UPDATE ON public.household_phone_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Is p_user an active member of the household phone? (avoids RLS recursion)
+CREATE OR REPLACE FUNCTION public.is_household_phone_member(p_household_phone_id UUID, p_user UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.household_phone_members
+    WHERE household_phone_id = p_household_phone_id AND user_id = p_user AND status = 'active'
+  );
+$$;
+
+ALTER TABLE public.household_phones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_phone_members ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through the functions below, so consent is always recorded
+CREATE POLICY "Members can view their household phones"
+ON public.household_phones FOR SELECT
+USING (auth.uid() = created_by OR public.is_household_phone_member(id, auth.uid()));
+
+CREATE POLICY "Owners can stop sharing their household phones"
+ON public.household_phones FOR DELETE
+USING (auth.uid() = created_by);
+
+-- Members only see what the phone is and who owns it: the invite code
+-- (get_household_invite_codes, owner only), who is talking and the media
+-- waiting for them stay with the webhook
+REVOKE SELECT ON public.household_phones FROM anon, authenticated;
+GRANT SELECT (id, phone_number, name, created_by, created_at, updated_at) ON public.household_phones TO authenticated;
+
+CREATE POLICY "Members can view who shares their household phones"
+ON public.household_phone_members FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR public.is_household_phone_member(household_phone_id, auth.uid())
+  OR EXISTS (SELECT 1 FROM public.household_phones h WHERE h.id = household_phone_id AND h.created_by = auth.uid())
+);
+
+-- Share one of the caller's verified numbers; the caller is its first member
+CREATE OR REPLACE FUNCTION public.create_household_phone(p_phone_id UUID, p_name TEXT, p_display_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone public.user_phone_numbers%ROWTYPE;
+  v_household_id UUID;
+BEGIN
+  SELECT * INTO v_phone FROM public.user_phone_numbers
+  WHERE id = p_phone_id AND user_id = auth.uid() AND verified;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Verify this number before sharing it';
+  END IF;
+
+  INSERT INTO public.household_phones (phone_digits, phone_number, name, created_by)
+  VALUES (regexp_replace(v_phone.phone_number, '\D', '', 'g'), v_phone.phone_number, trim(p_name), auth.uid())
+  RETURNING id INTO v_household_id;
+
+  INSERT INTO public.household_phone_members (household_phone_id, user_id, display_name)
+  VALUES (v_household_id, auth.uid(), trim(p_display_name));
+
+  RETURN v_household_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_household_phone(UUID, TEXT, TEXT) TO authenticated;
+
+-- New invite code for the phone (its owner only), valid for 30 minutes
+CREATE OR REPLACE FUNCTION public.create_household_invite_code(p_household_phone_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_code TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.household_phones WHERE id = p_household_phone_id AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the owner of the phone can invite people';
+  END IF;
+
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1), '')
+    INTO v_code
+    FROM generate_series(1, 8);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.household_phones WHERE invite_code = v_code);
+  END LOOP;
+
+  UPDATE public.household_phones
+  SET invite_code = v_code, invite_expires_at = now() + interval '30 minutes'
+  WHERE id = p_household_phone_id;
+
+  RETURN v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_household_invite_code(UUID) TO authenticated;
+
+-- The caller's unexpired invite codes, for the phones they own
+CREATE OR REPLACE FUNCTION public.get_household_invite_codes()
+RETURNS TABLE (household_phone_id UUID, invite_code TEXT, invite_expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id, invite_code, invite_expires_at FROM public.household_phones
+  WHERE created_by = auth.uid() AND invite_code IS NOT NULL AND invite_expires_at > now();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_household_invite_codes() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_household_invite_codes() TO authenticated;
+
+-- The caller agrees to message Solin from the shared phone as p_display_name.
+-- Rejoining after leaving records consent again.
+CREATE OR REPLACE FUNCTION public.join_household_phone(p_code TEXT, p_display_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_household_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF coalesce(trim(p_display_name), '') = '' THEN
+    RAISE EXCEPTION 'Choose the name Solin should show for you';
+  END IF;
+
+  SELECT id INTO v_household_id FROM public.household_phones
+  WHERE invite_code = upper(trim(p_code)) AND invite_expires_at > now();
+  IF v_household_id IS NULL THEN
+    RAISE EXCEPTION 'This code is not valid or has expired';
+  END IF;
+
+  INSERT INTO public.household_phone_members (household_phone_id, user_id, display_name)
+  VALUES (v_household_id, auth.uid(), trim(p_display_name))
+  ON CONFLICT (household_phone_id, user_id) DO UPDATE
+  SET display_name = EXCLUDED.display_name,
+      status = 'active',
+      consented_at = now(),
+      ended_at = NULL;
+
+  RETURN v_household_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_household_phone(TEXT, TEXT) TO authenticated;
+
+-- A member leaves, or the phone's owner removes them. The owner leaves by
+-- deleting the household phone.
+CREATE OR REPLACE FUNCTION public.end_household_phone_membership(p_member_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.household_phone_members%ROWTYPE;
+  v_owner UUID;
+BEGIN
+  SELECT * INTO v_member FROM public.household_phone_members WHERE id = p_member_id;
+  SELECT created_by INTO v_owner FROM public.household_phones WHERE id = v_member.household_phone_id;
+
+  IF v_member.id IS NULL OR (auth.uid() <> v_member.user_id AND auth.uid() IS DISTINCT FROM v_owner) THEN
+    RAISE EXCEPTION 'Membership not found';
+  END IF;
+  IF v_member.user_id = v_owner THEN
+    RAISE EXCEPTION 'The owner stops sharing the phone instead of leaving it';
+  END IF;
+
+  UPDATE public.household_phone_members
+  SET status = CASE WHEN auth.uid() = v_member.user_id THEN 'left' ELSE 'removed' END,
+      ended_at = now()
+  WHERE id = p_member_id;
+
+  -- Whoever was talking may no longer be
+  UPDATE public.household_phones
+  SET active_user_id = NULL, active_until = NULL
+  WHERE id = v_member.household_phone_id AND active_user_id = v_member.user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.end_household_phone_membership(UUID) TO authenticated;
+
+COMMENT ON COLUMN public.user_phone_numbers.label IS 'The user''s name for the number, e.g. Work or Personal';
+COMMENT ON COLUMN public.user_phone_numbers.is_primary IS 'The verified number Solin sends to when it writes first';
+COMMENT ON TABLE public.household_phones IS 'Shared phones that several consenting accounts message Solin from';
+COMMENT ON COLUMN public.household_phones.active_user_id IS 'Member Solin is talking to on the phone until active_until';
+COMMENT ON TABLE public.household_phone_members IS 'Accounts that agreed to use a household phone, and when';
@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import { CLIP_SAMPLE_RATE, clipBounds, computePeaks, encodeWav, shapeClipSamples } from '../../src/lib/audioClip';
+import { MIN_IMAGE_RESOLUTION, hammingDistance, isSamePhoto, photoIssues } from '../../src/lib/trainingImageQuality';
+
+/**
+ * E2E Tests: Audio Clips and Training Photo Checks
+ *
+ * The arithmetic behind the clip editor and the identity training photo
+ * checks, without the browser audio and image APIs around it:
+ * - clip-and-photo-checks-001: Clip ranges are clamped to the recording
+ * - clip-and-photo-checks-002: Clips are faded at the cuts and normalised with a gain cap
+ * - clip-and-photo-checks-003: Waveform peaks and WAV encoding
+ * - clip-and-photo-checks-004: Photos are flagged below the resolution and for zero or several faces
+ * - clip-and-photo-checks-005: Identical files and near-identical shots are duplicates
+ *
+ * Prerequisites:
+ * - None; no browser, dev server or Supabase project is used
+ */
+
+const FADE_FRAMES = Math.floor(0.015 * CLIP_SAMPLE_RATE);
+
+test.describe('Audio Clips and Training Photo Checks', () => {
+  test('clip-and-photo-checks-001: Clip ranges are clamped to the recording', async () => {
+    expect(clipBounds(2, 5, 10)).toEqual({ start: 2, end: 5, duration: 3 });
+    expect(clipBounds(-2, 5, 10)).toEqual({ start: 0, end: 5, duration: 5 });
+    expect(clipBounds(8, 20, 10)).toEqual({ start: 8, end: 10, duration: 2 });
+
+    // Nothing left to clip: renderClip refuses these
+    expect(clipBounds(12, 15, 10)).toEqual({ start: 10, end: 10, duration: 0 });
+    expect(clipBounds(6, 4, 10)).toEqual({ start: 6, end: 6, duration: 0 });
+  });
+
+  test('clip-and-photo-checks-002: Clips are faded at the cuts and normalised with a gain cap', async () => {
+    const quiet = new Float32Array(2000).fill(0.1);
+    // 0.89 / 0.1 would be 8.9; gain stops at 8
+    expect(shapeClipSamples(quiet, true)).toBe(8);
+    expect(quiet[1000]).toBeCloseTo(0.8, 5);
+    expect(quiet[0]).toBe(0);
+    expect(quiet[quiet.length - 1]).toBe(0);
+    expect(quiet[FADE_FRAMES / 2]).toBeCloseTo(0.4, 5);
+    expect(quiet[FADE_FRAMES]).toBeCloseTo(0.8, 5);
+
+    const loud = new Float32Array(2000).fill(0.5);
+    expect(shapeClipSamples(loud, true)).toBeCloseTo(1.78, 5);
+    expect(loud[1000]).toBeCloseTo(0.89, 5);
+
+    const untouched = new Float32Array(2000).fill(0.1);
+    untouched[1000] = 1.5;
+    expect(shapeClipSamples(untouched, false)).toBe(1);
+    expect(untouched[500]).toBeCloseTo(0.1, 5);
+    expect(untouched[1000]).toBe(1);
+
+    const silence = new Float32Array(2000);
+    expect(shapeClipSamples(silence, true)).toBe(1);
+    expect(silence.every(sample => sample === 0)).toBe(true);
+
+    // Shorter than two fades: faded over half its length each way
+    const short = new Float32Array(10).fill(0.5);
+    shapeClipSamples(short, false);
+    expect(short[0]).toBe(0);
+    expect(short[5]).toBeCloseTo(0.4, 5);
+  });
+
+  test('clip-and-photo-checks-003: Waveform peaks and WAV encoding', async () => {
+    const left = new Float32Array(64);
+    const right = new Float32Array(64);
+    [left[0], left[16], left[32], left[48]] = [0.2, 0.5, -0.9, 1.5];
+    right[16] = -0.7;
+    const buffer = {
+      length: 64,
+      numberOfChannels: 2,
+      getChannelData: (channel: number) => (channel === 0 ? left : right),
+    } as unknown as AudioBuffer;
+
+    const peaks = computePeaks(buffer, 4);
+    expect(peaks.map(peak => Math.round(peak * 100) / 100)).toEqual([0.2, 0.7, 0.9, 1]);
+
+    const wav = encodeWav(new Float32Array([0, 1, -1, 0.5, 2]), CLIP_SAMPLE_RATE);
+    expect(wav.type).toBe('audio/wav');
+    expect(wav.size).toBe(44 + 5 * 2);
+
+    const view = new DataView(await wav.arrayBuffer());
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+    expect([text(0), text(8), text(12), text(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(CLIP_SAMPLE_RATE);
+    expect(view.getUint32(40, true)).toBe(10);
+    expect([0, 1, 2, 3, 4].map(i => view.getInt16(44 + i * 2, true))).toEqual([0, 32767, -32768, 16383, 32767]);
+  });
+
+  test('clip-and-photo-checks-004: Photos are flagged below the resolution and for zero or several faces', async () => {
+    expect(MIN_IMAGE_RESOLUTION).toBe(512);
+    expect(photoIssues(512, 768, 1)).toEqual([]);
+    expect(photoIssues(4032, 3024, 1)).toEqual([]);
+    expect(photoIssues(511, 2000, 1)).toEqual(['Too small (511x2000); needs 512px on the short side']);
+    expect(photoIssues(1024, 1024, 0)).toEqual(['No face found']);
+    expect(photoIssues(1024, 1024, 3)).toEqual(['3 faces; use photos of one person']);
+    expect(photoIssues(300, 300, 0)).toEqual(['Too small (300x300); needs 512px on the short side', 'No face found']);
+
+    // Unreadable size, or no face detector in this browser: nothing to flag
+    expect(photoIssues(null, null, null)).toEqual([]);
+    expect(photoIssues(1024, 1024, null)).toEqual([]);
+  });
+
+  test('clip-and-photo-checks-005: Identical files and near-identical shots are duplicates', async () => {
+    expect(hammingDistance(0b1011n, 0b0001n)).toBe(2);
+    expect(hammingDistance(0n, (1n << 64n) - 1n)).toBe(64);
+
+    const photo = { sha256: 'aaa', hash: 0xf0f0f0f0f0f0f0f0n };
+    expect(isSamePhoto(photo, { sha256: 'aaa', hash: null })).toBe(true);
+    expect(isSamePhoto(photo, { sha256: 'bbb', hash: photo.hash ^ 0b1111n })).toBe(true);
+    expect(isSamePhoto(photo, { sha256: 'bbb', hash: photo.hash ^ 0b11111n })).toBe(false);
+    expect(isSamePhoto({ sha256: 'aaa', hash: null }, { sha256: 'bbb', hash: null })).toBe(false);
+  });
+});
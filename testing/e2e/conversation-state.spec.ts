@@ -0,0 +1,156 @@
+import { test, expect } from '@playwright/test';
+import {
+  CONVERSATION_STATES,
+  NOT_ALLOWED_REPLIES,
+  classifyMessage,
+  isFinishReply,
+  parseCommand,
+  readConversationState,
+  transition,
+  type ConversationEventType,
+  type ConversationState,
+} from '../../supabase/functions/_shared/conversation-state';
+
+/**
+ * E2E Tests: Messaging Conversation State Machine
+ *
+ * Checks the table Solin's WhatsApp, SMS, Telegram and email conversations run on:
+ * - conversation-state-001: Every state × event pair goes where the diagram says, or is refused
+ * - conversation-state-002: Sessions from before the state machine are read from their flags
+ * - conversation-state-003: Slash and bare-word commands are parsed
+ * - conversation-state-004: Only a whole-message "done" finishes a memory
+ * - conversation-state-005: Messages are classified with media first
+ *
+ * Prerequisites:
+ * - None; no browser, dev server or messaging provider is used
+ */
+
+const EVENT_TYPES: ConversationEventType[] = [
+  'message', 'media', 'done', 'memory_ready', 'save', 'cancel', 'undo', 'list', 'edit', 'private', 'help',
+];
+
+// "<to>/<effect>", or null when the event is refused in that state
+const EXPECTED: Record<ConversationState, Record<ConversationEventType, string | null>> = {
+  idle: {
+    message: 'discussing/chat',
+    media: 'idle/stash_media',
+    done: null,
+    memory_ready: null,
+    save: null,
+    cancel: null,
+    undo: 'idle/undo',
+    list: 'idle/list',
+    edit: 'editing/start_edit',
+    private: 'idle/make_private',
+    help: 'idle/help',
+  },
+  discussing: {
+    message: 'discussing/chat',
+    media: 'discussing/stash_media',
+    done: null,
+    memory_ready: 'awaiting_media/ask_for_media',
+    save: 'awaiting_media/ask_for_media',
+    cancel: 'idle/discard',
+    undo: 'discussing/undo',
+    list: 'discussing/list',
+    edit: 'editing/start_edit',
+    private: 'discussing/make_private',
+    help: 'discussing/help',
+  },
+  awaiting_media: {
+    message: 'awaiting_media/add_detail',
+    media: 'awaiting_media/attach_media',
+    done: 'idle/save_memory',
+    memory_ready: null,
+    save: 'idle/save_memory',
+    cancel: 'idle/discard',
+    undo: null,
+    list: 'awaiting_media/list',
+    edit: null,
+    private: 'awaiting_media/make_private',
+    help: 'awaiting_media/help',
+  },
+  editing: {
+    message: 'idle/apply_edit',
+    media: 'editing/attach_media',
+    done: null,
+    memory_ready: null,
+    save: null,
+    cancel: 'idle/end_edit',
+    undo: null,
+    list: 'editing/list',
+    edit: 'editing/start_edit',
+    private: 'editing/make_private',
+    help: 'editing/help',
+  },
+};
+
+test.describe('Messaging Conversation State Machine', () => {
+  test('conversation-state-001: Every state × event pair goes where the diagram says, or is refused', async () => {
+    expect(Object.keys(EXPECTED).sort()).toEqual([...CONVERSATION_STATES].sort());
+
+    for (const state of CONVERSATION_STATES) {
+      for (const type of EVENT_TYPES) {
+        const step = transition(state, { type });
+        expect(step ? `${step.to}/${step.effect}` : null, `${state} × ${type}`).toBe(EXPECTED[state][type]);
+      }
+      expect(NOT_ALLOWED_REPLIES[state].length).toBeGreaterThan(0);
+    }
+  });
+
+  test('conversation-state-002: Sessions from before the state machine are read from their flags', async () => {
+    expect(readConversationState({})).toBe('idle');
+    expect(readConversationState({ state: 'editing' })).toBe('editing');
+    expect(readConversationState({ state: 'bogus', memory_discussion_count: 0 })).toBe('idle');
+
+    expect(readConversationState({ awaiting_media_response: true })).toBe('awaiting_media');
+    expect(readConversationState({ awaiting_media_for_memory: 'memory-1' })).toBe('awaiting_media');
+    expect(readConversationState({ editing_memory_id: 'memory-1' })).toBe('editing');
+    expect(readConversationState({ memory_discussion_count: 2 })).toBe('discussing');
+
+    // Waiting for media wins over the other flags, and a stored state over all of them
+    expect(readConversationState({ awaiting_media_response: true, editing_memory_id: 'memory-1', memory_discussion_count: 3 }))
+      .toBe('awaiting_media');
+    expect(readConversationState({ editing_memory_id: 'memory-1', memory_discussion_count: 3 })).toBe('editing');
+    expect(readConversationState({ state: 'idle', awaiting_media_response: true })).toBe('idle');
+  });
+
+  test('conversation-state-003: Slash and bare-word commands are parsed', async () => {
+    expect(parseCommand('/save')).toEqual({ type: 'save', argument: null });
+    expect(parseCommand('  /EDIT 2 ')).toEqual({ type: 'edit', argument: 2 });
+    expect(parseCommand('/edit two')).toEqual({ type: 'edit', argument: null });
+    expect(parseCommand('/help@SolinBot')).toEqual({ type: 'help', argument: null });
+    expect(parseCommand('/start')).toEqual({ type: 'help' });
+    expect(parseCommand('/frobnicate')).toEqual({ type: 'help', unknownCommand: 'frobnicate' });
+
+    expect(parseCommand('Save it!')).toEqual({ type: 'save' });
+    expect(parseCommand('cancel.')).toEqual({ type: 'cancel' });
+    expect(parseCommand('commands')).toEqual({ type: 'help' });
+
+    expect(parseCommand('save me a seat at the wedding')).toBeNull();
+    expect(parseCommand('I want to undo that')).toBeNull();
+    expect(parseCommand('')).toBeNull();
+  });
+
+  test('conversation-state-004: Only a whole-message "done" finishes a memory', async () => {
+    for (const reply of ['done', 'Done!', "That's all.", 'that’s all', 'no', 'Nope', 'no, thanks', 'No more', "I'm done", "don't have any", 'skip']) {
+      expect(isFinishReply(reply), reply).toBe(true);
+    }
+    for (const reply of ['no, it was in 1972', 'I was done with school by then', 'No one else was there', 'nothing happened after that', '', '   ']) {
+      expect(isFinishReply(reply), reply).toBe(false);
+    }
+  });
+
+  test('conversation-state-005: Messages are classified with media first', async () => {
+    expect(classifyMessage('awaiting_media', { text: 'done', hasVisualMedia: true })).toEqual({ type: 'media' });
+    expect(classifyMessage('discussing', { text: '/save', hasVisualMedia: true })).toEqual({ type: 'media' });
+
+    expect(classifyMessage('awaiting_media', { text: 'done', hasVisualMedia: false })).toEqual({ type: 'done' });
+    expect(classifyMessage('awaiting_media', { text: 'no, it was in 1972', hasVisualMedia: false })).toEqual({ type: 'message' });
+    expect(classifyMessage('discussing', { text: 'done', hasVisualMedia: false })).toEqual({ type: 'message' });
+
+    expect(classifyMessage('idle', { text: '/list', hasVisualMedia: false })).toEqual({ type: 'list', argument: null });
+    expect(classifyMessage('editing', { text: 'cancel', hasVisualMedia: false })).toEqual({ type: 'cancel' });
+    expect(classifyMessage('idle', { text: 'My first car was a Beetle', hasVisualMedia: false })).toEqual({ type: 'message' });
+  });
+});
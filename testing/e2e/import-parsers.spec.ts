@@ -0,0 +1,216 @@
+import { test, expect } from '@playwright/test';
+import {
+  IMPORT_PARSERS,
+  parseDayOne,
+  parseKeep,
+  parseMarkdown,
+  parseWhatsAppChat,
+} from '../../src/utils/importParsers';
+
+/**
+ * E2E Tests: Import Parsers
+ *
+ * Feeds real-shaped exports through the parsers behind Import (no database):
+ * - import-parsers-001: Android WhatsApp chats become one entry per day, with multi-line messages and attachments
+ * - import-parsers-002: iOS WhatsApp chats with day-first dates and system lines are read
+ * - import-parsers-003: Year-first WhatsApp dates and unreadable lines are handled
+ * - import-parsers-004: Day One entries keep text, tags, location and photos
+ * - import-parsers-005: Markdown / Obsidian notes read frontmatter, embeds, wiki links and tags
+ * - import-parsers-006: Google Keep notes and checklists are read, trashed ones skipped
+ *
+ * Prerequisites:
+ * - None; no browser, dev server or Supabase project is used
+ */
+
+const textFile = (name: string, lines: string[], type = 'text/plain') => new File([lines.join('\n')], name, { type });
+const imageFile = (name: string) => new File([new Uint8Array([0xff, 0xd8, 0xff])], name, { type: 'image/jpeg' });
+
+// A folder upload: the path inside the folder is webkitRelativePath
+const inFolder = (file: File, path: string) => {
+  Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  return file;
+};
+
+test.describe('Import Parsers', () => {
+  test('import-parsers-001: Android WhatsApp chats become one entry per day, with multi-line messages and attachments', async () => {
+    const photo = imageFile('IMG-20210101-WA0001.jpg');
+    const entries = await parseWhatsAppChat([
+      textFile('WhatsApp Chat with Family.txt', [
+        "12/31/20, 9:15 PM - Mum: Happy new year's eve!",
+        "12/31/20, 9:16 PM - Dad: We're at the lake",
+        'cabin with everyone',
+        '',
+        '01/01/21, 10:02 AM - Mum: IMG-20210101-WA0001.jpg (file attached)',
+        '01/01/21, 10:03 AM - Mum: The first sunrise of the year',
+      ]),
+      photo,
+    ]);
+
+    expect(entries).toHaveLength(2);
+    const [newYearsEve, newYearsDay] = entries;
+
+    expect(newYearsEve).toMatchObject({
+      source: 'whatsapp',
+      sourceId: 'WhatsApp Chat with Family.txt#2020-12-31',
+      title: 'Family — 2020-12-31',
+      memoryDate: '2020-12-31',
+      location: null,
+      tags: ['whatsapp', 'family'],
+      attachments: [],
+    });
+    expect(newYearsEve.text).toBe("Mum (9:15 PM): Happy new year's eve!\nDad (9:16 PM): We're at the lake\ncabin with everyone");
+
+    expect(newYearsDay.memoryDate).toBe('2021-01-01');
+    expect(newYearsDay.text).toBe('Mum (10:02 AM): [attachment]\nMum (10:03 AM): The first sunrise of the year');
+    expect(newYearsDay.attachments).toEqual([photo]);
+  });
+
+  test('import-parsers-002: iOS WhatsApp chats with day-first dates and system lines are read', async () => {
+    const photo = imageFile('00000012-PHOTO-2020-12-31-21-16-10.jpg');
+    const entries = await parseWhatsAppChat([
+      textFile('WhatsApp Chat - Oma.txt', [
+        '[31.12.20, 21:14:00] Messages and calls are end-to-end encrypted.',
+        '[31.12.20, 21:15:03] Oma: Frohes neues Jahr',
+        '‎[31.12.20, 21:16:10] Oma: ‎<attached: 00000012-PHOTO-2020-12-31-21-16-10.jpg>',
+        '[01.01.21, 09:00:00] Ben: Danke Oma!',
+      ]),
+      photo,
+    ]);
+
+    expect(entries.map(entry => entry.memoryDate)).toEqual(['2020-12-31', '2021-01-01']);
+    expect(entries[0].title).toBe('Oma — 2020-12-31');
+    expect(entries[0].text).toBe('Oma (21:15:03): Frohes neues Jahr\nOma (21:16:10): [attachment]');
+    expect(entries[0].attachments).toEqual([photo]);
+    expect(entries[1].text).toBe('Ben (09:00:00): Danke Oma!');
+  });
+
+  test('import-parsers-003: Year-first WhatsApp dates and unreadable lines are handled', async () => {
+    const entries = await parseWhatsAppChat([
+      textFile('chat.txt', [
+        '2021-03-04, 10:00 - Ann: Moving day 📦',
+        '2021-13-04, 10:05 - Ann: Not a real month',
+      ]),
+      textFile('notes.md', ['3/4/21, 10:00 - Ann: not a chat export']),
+      textFile('empty.txt', ['nothing that looks like a message']),
+    ]);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ sourceId: 'chat.txt#2021-03-04', title: 'chat — 2021-03-04', memoryDate: '2021-03-04' });
+    expect(entries[0].text).toBe('Ann (10:00): Moving day 📦');
+  });
+
+  test('import-parsers-004: Day One entries keep text, tags, location and photos', async () => {
+    const photo = imageFile('d41d8cd98f00b204e9800998ecf8427e.jpeg');
+    const journal = textFile('Journal.json', [JSON.stringify({
+      entries: [
+        {
+          uuid: 'A1B2C3',
+          creationDate: '2019-07-04T18:30:00Z',
+          text: '# Fourth of July\n\nFireworks at the pier\\. ![](dayone-moment://5F3A)',
+          tags: ['Family', '#family', 'Summer'],
+          location: { placeName: 'Santa Monica Pier', localityName: 'Santa Monica', administrativeArea: 'CA', country: 'United States' },
+          photos: [{ identifier: '5F3A', md5: 'd41d8cd98f00b204e9800998ecf8427e', type: 'jpeg' }],
+        },
+        { uuid: 'EMPTY', creationDate: '2019-07-05T08:00:00Z', text: '   ' },
+      ],
+    })], 'application/json');
+
+    const entries = await parseDayOne([journal, photo]);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toEqual({
+      source: 'dayone',
+      sourceId: 'A1B2C3',
+      title: 'Fourth of July',
+      text: '# Fourth of July\n\nFireworks at the pier.',
+      memoryDate: '2019-07-04',
+      location: 'Santa Monica Pier, Santa Monica, United States',
+      tags: ['family', 'summer'],
+      attachments: [photo],
+    });
+  });
+
+  test('import-parsers-005: Markdown / Obsidian notes read frontmatter, embeds, wiki links and tags', async () => {
+    const seedlings = inFolder(imageFile('seedlings.png'), 'Vault/attachments/seedlings.png');
+    const note = inFolder(textFile('2020-05-01.md', [
+      '---',
+      'tags: [Garden, "spring"]',
+      "location: Grandma's house",
+      '---',
+      'Planted tomatoes ![[seedlings.png]] and talked about [[Grandma Rose|Grandma]].',
+      '#garden #family',
+    ]), 'Vault/Journal/2020-05-01.md');
+    const titled = inFolder(textFile('Wedding.md', [
+      '---',
+      'title: "Our wedding"',
+      'date: 1985-06-15',
+      'tags:',
+      '  - wedding',
+      '  - "family"',
+      '---',
+      '# The big day',
+      'It rained, and nobody minded. ![](photos/missing.jpg)',
+    ]), 'Vault/Wedding.md');
+    const hidden = inFolder(textFile('workspace.md', ['settings']), 'Vault/.obsidian/workspace.md');
+
+    const entries = await parseMarkdown([seedlings, note, titled, hidden]);
+
+    expect(entries.map(entry => entry.sourceId)).toEqual(['Vault/Journal/2020-05-01.md', 'Vault/Wedding.md']);
+    const [journal, wedding] = entries;
+
+    expect(journal.text).toBe('Planted tomatoes  and talked about Grandma.\n#garden #family');
+    expect(journal.title).toBe('Planted tomatoes  and talked about Grandma.');
+    expect(journal.memoryDate).toBe('2020-05-01');
+    expect(journal.location).toBe("Grandma's house");
+    expect(journal.tags).toEqual(['garden', 'spring', 'family']);
+    expect(journal.attachments).toEqual([seedlings]);
+
+    expect(wedding).toMatchObject({
+      title: 'Our wedding',
+      memoryDate: '1985-06-15',
+      location: null,
+      tags: ['wedding', 'family'],
+      attachments: [],
+    });
+    expect(wedding.text).toBe('# The big day\nIt rained, and nobody minded.');
+  });
+
+  test('import-parsers-006: Google Keep notes and checklists are read, trashed ones skipped', async () => {
+    const created = Date.UTC(2018, 0, 15, 12) * 1000;
+    const note = (name: string, data: Record<string, unknown>) =>
+      inFolder(textFile(name, [JSON.stringify(data)], 'application/json'), `Takeout/Keep/${name}`);
+    const picnic = inFolder(imageFile('picnic.jpg'), 'Takeout/Keep/picnic.jpg');
+
+    const entries = await parseKeep([
+      note('Shopping.json', {
+        title: '',
+        listContent: [{ text: 'Milk', isChecked: true }, { text: 'Eggs', isChecked: false }],
+        labels: [{ name: 'Shopping' }],
+        createdTimestampUsec: created,
+      }),
+      note('Picnic.json', {
+        title: ' Picnic in the park ',
+        textContent: 'Sandwiches under the oak tree',
+        attachments: [{ filePath: 'picnic.jpg', mimetype: 'image/jpeg' }],
+        userEditedTimestampUsec: created,
+      }),
+      note('Old.json', { title: 'Old', textContent: 'Deleted', isTrashed: true }),
+      inFolder(textFile('Broken.json', ['{ not json']), 'Takeout/Keep/Broken.json'),
+      picnic,
+    ]);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      source: 'keep',
+      sourceId: 'Takeout/Keep/Shopping.json',
+      title: '[x] Milk',
+      text: '[x] Milk\n[ ] Eggs',
+      memoryDate: '2018-01-15',
+      tags: ['shopping'],
+    });
+    expect(entries[1]).toMatchObject({ title: 'Picnic in the park', text: 'Sandwiches under the oak tree', memoryDate: '2018-01-15' });
+    expect(entries[1].attachments).toEqual([picnic]);
+
+    expect(IMPORT_PARSERS.keep).toBe(parseKeep);
+  });
+});
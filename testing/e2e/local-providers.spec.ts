@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import {
+  EMBEDDING_DIMENSIONS,
+  LocalHashEmbeddingProvider,
+  toVectorLiteral,
+} from '../../supabase/functions/_shared/embeddings';
+import {
+  createImageProvider,
+  DEFAULT_IMAGE_GENERATION_CONFIG,
+  resolveImageProvider,
+} from '../../supabase/functions/_shared/image-providers';
+
+/**
+ * E2E Tests: Local Providers
+ *
+ * Runs the providers that self-hosted setups and the other suites fall back
+ * to when no OpenAI key is configured:
+ * - local-providers-001: Placeholder image provider returns a deterministic SVG
+ * - local-providers-002: Placeholder provider is selectable through the image config
+ * - local-providers-003: Local hash embeddings are normalised and deterministic
+ * - local-providers-004: Related texts embed closer than unrelated ones
+ *
+ * Prerequisites:
+ * - None; no browser, dev server or API keys are used
+ */
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+test.describe('Local Providers', () => {
+  test('local-providers-001: Placeholder image provider returns a deterministic SVG', async () => {
+    const provider = createImageProvider('placeholder', DEFAULT_IMAGE_GENERATION_CONFIG);
+    const request = { prompt: 'Grandma baking bread in the kitchen, 1962', width: 512, height: 384, seed: 7 };
+
+    const first = await provider.generate(request);
+    const second = await provider.generate(request);
+    const svg = new TextDecoder().decode(first.bytes);
+
+    expect(first.provider).toBe('placeholder');
+    expect(first.model).toBe('placeholder-svg');
+    expect(first.mime_type).toBe('image/svg+xml');
+    expect(svg).toMatch(/^<svg [^>]*width="512" height="384"/);
+    expect(svg).toMatch(/placeholder #[0-9a-f]+/);
+    expect(svg).toContain('Grandma baking bread');
+    expect(new TextDecoder().decode(second.bytes)).toBe(svg);
+
+    const reseeded = await provider.generate({ ...request, seed: 8 });
+    expect(new TextDecoder().decode(reseeded.bytes)).not.toBe(svg);
+  });
+
+  test('local-providers-002: Placeholder provider is selectable through the image config', async () => {
+    expect(resolveImageProvider(DEFAULT_IMAGE_GENERATION_CONFIG, 'placeholder').id).toBe('placeholder');
+    expect(() => resolveImageProvider(DEFAULT_IMAGE_GENERATION_CONFIG, 'huggingface')).toThrow(/not enabled/);
+
+    const escaped = await createImageProvider('placeholder', DEFAULT_IMAGE_GENERATION_CONFIG)
+      .generate({ prompt: 'Fish & chips <by the sea>', width: 256, height: 256 });
+    expect(new TextDecoder().decode(escaped.bytes)).toContain('Fish &amp; chips &lt;by the sea&gt;');
+  });
+
+  test('local-providers-003: Local hash embeddings are normalised and deterministic', async () => {
+    const provider = new LocalHashEmbeddingProvider();
+    const [vector, again, empty] = await provider.embed([
+      'Our summer holiday at the lake cabin',
+      'Our summer holiday at the lake cabin',
+      '',
+    ]);
+
+    expect(provider.name).toBe('local');
+    expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(Math.sqrt(cosine(vector, vector))).toBeCloseTo(1, 6);
+    expect(again).toEqual(vector);
+    expect(empty.every(value => value === 0)).toBe(true);
+    expect(toVectorLiteral(vector.slice(0, 2))).toMatch(/^\[-?[\d.e-]+,-?[\d.e-]+\]$/);
+  });
+
+  test('local-providers-004: Related texts embed closer than unrelated ones', async () => {
+    const provider = new LocalHashEmbeddingProvider();
+    const [query, related, unrelated] = await provider.embed([
+      'fishing at the lake cabin',
+      'Every summer we went fishing at the lake cabin with Dad',
+      'My first day working at the bank in London',
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
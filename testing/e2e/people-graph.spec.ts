@@ -0,0 +1,133 @@
+import { test, expect } from '@playwright/test';
+import { SELF_NODE_ID, buildPeopleGraph, layoutPeopleGraph } from '../../src/utils/peopleGraph';
+import type { Person, PersonMention, RelationshipGroup } from '../../src/types/people';
+
+/**
+ * E2E Tests: People Graph
+ *
+ * Builds and lays out the People directory's relationship graph (no database):
+ * - people-graph-001: Mentions are merged per memory group, counted once per person and pair
+ * - people-graph-002: Hidden and unknown people are left out
+ * - people-graph-003: Focusing on a person keeps only them, who they share memories with and the user
+ * - people-graph-004: The layout is deterministic, pins the centre and stays inside the box
+ *
+ * Prerequisites:
+ * - None; no browser, dev server or Supabase project is used
+ */
+
+const person = (id: string, displayName: string, relationship: string | null, group: RelationshipGroup, hidden = false): Person => ({
+  id,
+  user_id: 'owner',
+  display_name: displayName,
+  relationship,
+  relationship_group: group,
+  aliases: [displayName.toLowerCase()],
+  linked_user_id: null,
+  sources: ['insights'],
+  notes: null,
+  is_hidden: hidden,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+let mentionCount = 0;
+const mention = (personId: string, memoryGroupId: string, memoryId = memoryGroupId): PersonMention => ({
+  id: `mention-${++mentionCount}`,
+  user_id: 'owner',
+  person_id: personId,
+  memory_id: memoryId,
+  memory_group_id: memoryGroupId,
+  mention: personId,
+  alias: personId,
+  created_at: '2025-01-01T00:00:00Z',
+});
+
+const PEOPLE = [
+  person('sarah', 'Sarah', 'mother', 'family'),
+  person('tom', 'Tom', 'brother', 'family'),
+  person('jo', 'Jo', null, 'friend'),
+  person('ex', 'Alex', 'partner', 'partner', true),
+];
+
+const MENTIONS = [
+  // Christmas 1985, split into two chunks that both name Sarah
+  mention('sarah', 'christmas', 'christmas'),
+  mention('tom', 'christmas', 'christmas'),
+  mention('sarah', 'christmas', 'christmas-part-2'),
+  mention('sarah', 'lake'),
+  mention('tom', 'lake'),
+  mention('tom', 'band'),
+  mention('jo', 'band'),
+  mention('ex', 'wedding'),
+  mention('sarah', 'wedding'),
+  mention('deleted-person', 'wedding'),
+];
+
+test.describe('People Graph', () => {
+  test('people-graph-001: Mentions are merged per memory group, counted once per person and pair', async () => {
+    const graph = buildPeopleGraph(PEOPLE, MENTIONS, 'Me');
+
+    expect(graph.nodes).toEqual([
+      { id: SELF_NODE_ID, label: 'Me', group: 'self', weight: 0 },
+      { id: 'sarah', label: 'Sarah', group: 'family', weight: 3 },
+      { id: 'tom', label: 'Tom', group: 'family', weight: 3 },
+      { id: 'jo', label: 'Jo', group: 'friend', weight: 1 },
+    ]);
+    expect(graph.edges).toEqual([
+      { source: SELF_NODE_ID, target: 'sarah', weight: 0, label: 'mother' },
+      { source: SELF_NODE_ID, target: 'tom', weight: 0, label: 'brother' },
+      { source: SELF_NODE_ID, target: 'jo', weight: 0, label: undefined },
+      { source: 'sarah', target: 'tom', weight: 2 },
+      { source: 'jo', target: 'tom', weight: 1 },
+    ]);
+  });
+
+  test('people-graph-002: Hidden and unknown people are left out', async () => {
+    const graph = buildPeopleGraph(PEOPLE, MENTIONS, 'Me');
+    const ids = new Set([...graph.nodes.map(node => node.id), ...graph.edges.flatMap(edge => [edge.source, edge.target])]);
+
+    expect(ids.has('ex')).toBe(false);
+    expect(ids.has('deleted-person')).toBe(false);
+
+    // Nobody visible: just the user
+    expect(buildPeopleGraph([PEOPLE[3]], MENTIONS, 'Me')).toEqual({
+      nodes: [{ id: SELF_NODE_ID, label: 'Me', group: 'self', weight: 0 }],
+      edges: [],
+    });
+  });
+
+  test('people-graph-003: Focusing on a person keeps only them, who they share memories with and the user', async () => {
+    const graph = buildPeopleGraph(PEOPLE, MENTIONS, 'Me', 'jo');
+
+    expect(graph.nodes.map(node => node.id)).toEqual([SELF_NODE_ID, 'jo', 'tom']);
+    expect(graph.edges).toEqual([
+      { source: SELF_NODE_ID, target: 'jo', weight: 0, label: undefined },
+      { source: SELF_NODE_ID, target: 'tom', weight: 0, label: 'brother' },
+      { source: 'jo', target: 'tom', weight: 1 },
+    ]);
+
+    // Someone with no shared memories stands alone with the user
+    const alone = buildPeopleGraph([...PEOPLE, person('ann', 'Ann', 'aunt', 'family')], MENTIONS, 'Me', 'ann');
+    expect(alone.nodes.map(node => node.id)).toEqual([SELF_NODE_ID, 'ann']);
+    expect(alone.edges).toHaveLength(1);
+  });
+
+  test('people-graph-004: The layout is deterministic, pins the centre and stays inside the box', async () => {
+    const graph = buildPeopleGraph(PEOPLE, MENTIONS, 'Me');
+    const layout = layoutPeopleGraph(graph, 600, 400);
+
+    expect([...layout.keys()].sort()).toEqual(graph.nodes.map(node => node.id).sort());
+    expect(layout.get(SELF_NODE_ID)).toEqual({ x: 300, y: 200 });
+    for (const [id, point] of layout) {
+      expect(point.x, id).toBeGreaterThanOrEqual(24);
+      expect(point.x, id).toBeLessThanOrEqual(576);
+      expect(point.y, id).toBeGreaterThanOrEqual(24);
+      expect(point.y, id).toBeLessThanOrEqual(376);
+    }
+    expect(layoutPeopleGraph(graph, 600, 400)).toEqual(layout);
+
+    // Focused on someone, they are the one pinned
+    const focused = layoutPeopleGraph(buildPeopleGraph(PEOPLE, MENTIONS, 'Me', 'tom'), 600, 400, 'tom');
+    expect(focused.get('tom')).toEqual({ x: 300, y: 200 });
+  });
+});
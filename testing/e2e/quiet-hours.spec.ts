@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+import { quietHoursEnd, type QuietHours } from '../../supabase/functions/_shared/quiet-hours';
+
+/**
+ * E2E Tests: Memory Prompt Quiet Hours
+ *
+ * When a weekly memory prompt that falls due is held back (memory-prompts):
+ * - quiet-hours-001: Windows that wrap past midnight hold prompts until the morning, in the user's timezone
+ * - quiet-hours-002: Daytime windows, their edges, and no or empty windows
+ * - quiet-hours-003: The end keeps its wall-clock time across clock changes and odd offsets
+ *
+ * Prerequisites:
+ * - None; no browser, dev server or Supabase project is used
+ */
+
+const overnight = (timezone: string): QuietHours => ({ timezone, quiet_hours_start: '22:00', quiet_hours_end: '07:00' });
+const endAt = (settings: QuietHours, now: string) => quietHoursEnd(settings, new Date(now))?.toISOString() ?? null;
+
+test.describe('Memory Prompt Quiet Hours', () => {
+  test('quiet-hours-001: Windows that wrap past midnight hold prompts until the morning, in the user\'s timezone', async () => {
+    // 22:30 in New York (EST): held until 07:00 the next morning there
+    expect(endAt(overnight('America/New_York'), '2025-01-15T03:30:00Z')).toBe('2025-01-15T12:00:00.000Z');
+    // Local midnight and just before the end are still quiet
+    expect(endAt(overnight('America/New_York'), '2025-01-15T05:00:00Z')).toBe('2025-01-15T12:00:00.000Z');
+    expect(endAt(overnight('America/New_York'), '2025-01-15T11:59:00Z')).toBe('2025-01-15T12:00:00.000Z');
+    expect(endAt(overnight('America/New_York'), '2025-01-15T12:00:00Z')).toBeNull();
+
+    // The same instant is 03:30 in London, and midday in Tokyo
+    expect(endAt(overnight('Europe/London'), '2025-01-15T03:30:00Z')).toBe('2025-01-15T07:00:00.000Z');
+    expect(endAt(overnight('Asia/Tokyo'), '2025-01-15T03:30:00Z')).toBeNull();
+
+    // Postgres returns TIME with seconds
+    expect(endAt({ timezone: 'Europe/London', quiet_hours_start: '22:00:00', quiet_hours_end: '07:00:00' }, '2025-01-14T22:00:00Z'))
+      .toBe('2025-01-15T07:00:00.000Z');
+  });
+
+  test('quiet-hours-002: Daytime windows, their edges, and no or empty windows', async () => {
+    const siesta: QuietHours = { timezone: 'Asia/Tokyo', quiet_hours_start: '13:00', quiet_hours_end: '15:00' };
+
+    expect(endAt(siesta, '2025-01-15T03:59:00Z')).toBeNull();
+    expect(endAt(siesta, '2025-01-15T04:00:00Z')).toBe('2025-01-15T06:00:00.000Z');
+    // Seconds into the minute still end exactly on 15:00
+    expect(endAt(siesta, '2025-01-15T05:59:30Z')).toBe('2025-01-15T06:00:00.000Z');
+    expect(endAt(siesta, '2025-01-15T06:00:00Z')).toBeNull();
+
+    expect(endAt({ ...siesta, quiet_hours_end: '13:00' }, '2025-01-15T04:00:00Z')).toBeNull();
+    expect(endAt({ ...siesta, quiet_hours_start: null }, '2025-01-15T04:00:00Z')).toBeNull();
+    expect(endAt({ ...siesta, quiet_hours_end: null }, '2025-01-15T04:00:00Z')).toBeNull();
+  });
+
+  test('quiet-hours-003: The end keeps its wall-clock time across clock changes and odd offsets', async () => {
+    // Clocks go forward at 02:00 on 30 March in Berlin: 07:00 CEST is 05:00 UTC
+    expect(endAt(overnight('Europe/Berlin'), '2025-03-30T00:30:00Z')).toBe('2025-03-30T05:00:00.000Z');
+    // And back at 03:00 on 26 October: 07:00 CET is 06:00 UTC
+    expect(endAt(overnight('Europe/Berlin'), '2025-10-25T23:30:00Z')).toBe('2025-10-26T06:00:00.000Z');
+
+    // India is UTC+5:30: 22:30 there, held until 06:30
+    expect(endAt({ timezone: 'Asia/Kolkata', quiet_hours_start: '22:00', quiet_hours_end: '06:30' }, '2025-06-01T17:00:00Z'))
+      .toBe('2025-06-02T01:00:00.000Z');
+  });
+});
@@ -0,0 +1,164 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync } from 'node:fs';
+import { runInNewContext } from 'node:vm';
+
+/**
+ * E2E Tests: Offline Service Worker
+ *
+ * Runs public/sw.js against an in-memory origin and Cache Storage, the way a
+ * browser drives it on a first visit:
+ * - service-worker-001: First visit, then offline: /journal and /add-memory open with their scripts and styles
+ * - service-worker-002: Without an asset manifest (dev server) the shell is still installed
+ * - service-worker-003: Online pages refresh the cached shell; other origins and writes are left alone
+ *
+ * Prerequisites:
+ * - None; no browser or dev server is used
+ */
+
+const ORIGIN = 'https://app.example';
+const ASSETS = ['/assets/index-CEZiheXn.js', '/assets/index-MghwiP3E.css', '/assets/purify.es-BYftNTi7.js'];
+const INDEX_HTML = [
+  '<!doctype html><html><head>',
+  `<script type="module" crossorigin src="${ASSETS[0]}"></script>`,
+  `<link rel="stylesheet" crossorigin href="${ASSETS[1]}">`,
+  '</head><body><div id="root"></div></body></html>',
+].join('');
+
+type FakeRequest = { url: string; method: string; mode?: string };
+type Listener = (event: Record<string, unknown>) => void;
+
+/** A deployed origin, Cache Storage and a worker loaded from public/sw.js */
+function startWorker(files: Record<string, string>) {
+  const server = new Map(Object.entries(files));
+  const cache = new Map<string, Response>();
+  const listeners = new Map<string, Listener>();
+  const fetched: string[] = [];
+  let online = true;
+
+  const urlOf = (request: string | FakeRequest) => new URL(typeof request === 'string' ? request : request.url, ORIGIN).toString();
+  const fetch = async (request: string | FakeRequest) => {
+    const url = urlOf(request);
+    if (!online) throw new TypeError('Failed to fetch');
+    fetched.push(new URL(url).pathname);
+    const body = server.get(new URL(url).pathname);
+    return body === undefined ? new Response('Not found', { status: 404 }) : new Response(body, { status: 200 });
+  };
+  const openCache = {
+    put: async (request: string | FakeRequest, response: Response) => { cache.set(urlOf(request), response); },
+    addAll: async (requests: string[]) => {
+      for (const request of requests) {
+        const response = await fetch(request);
+        if (!response.ok) throw new TypeError(`Request failed: ${request}`);
+        cache.set(urlOf(request), response);
+      }
+    },
+  };
+  const caches = {
+    open: async () => openCache,
+    keys: async () => ['solin-shell-v2'],
+    delete: async () => true,
+    match: async (request: string | FakeRequest) => cache.get(urlOf(request))?.clone(),
+  };
+  const self = {
+    location: new URL('/sw.js', ORIGIN),
+    addEventListener: (type: string, listener: Listener) => listeners.set(type, listener),
+    skipWaiting: async () => undefined,
+    clients: { claim: async () => undefined },
+  };
+
+  const source = readFileSync(new URL('../../public/sw.js', import.meta.url), 'utf8');
+  runInNewContext(source, { self, caches, fetch, URL, Promise, console });
+
+  const lifecycle = async (type: 'install' | 'activate') => {
+    const pending: Promise<unknown>[] = [];
+    listeners.get(type)!({ waitUntil: (promise: Promise<unknown>) => pending.push(promise) });
+    await Promise.all(pending);
+  };
+
+  /** The worker's answer, or undefined when it lets the browser fetch normally */
+  const request = async (path: string, init: Partial<FakeRequest> = {}) => {
+    let response: Promise<Response> | undefined;
+    listeners.get('fetch')!({
+      request: { url: new URL(path, ORIGIN).toString(), method: 'GET', ...init },
+      respondWith: (promise: Promise<Response>) => { response = promise; },
+    });
+    return response ? await response : undefined;
+  };
+
+  return {
+    install: () => lifecycle('install'),
+    activate: () => lifecycle('activate'),
+    request,
+    fetched,
+    cachedPaths: () => [...cache.keys()].map(url => new URL(url).pathname).sort(),
+    setOnline: (value: boolean) => { online = value; },
+    deploy: (path: string, body: string) => server.set(path, body),
+  };
+}
+
+const deployedFiles = () => ({
+  '/': INDEX_HTML,
+  '/index.html': INDEX_HTML,
+  '/favicon.ico': 'icon',
+  '/asset-manifest.json': JSON.stringify(ASSETS),
+  ...Object.fromEntries(ASSETS.map(asset => [asset, `/* ${asset} */`])),
+});
+
+test.describe('Offline Service Worker', () => {
+  test('service-worker-001: First visit, then offline: /journal and /add-memory open with their scripts and styles', async () => {
+    const worker = startWorker(deployedFiles());
+
+    // First visit: the page loaded its bundle itself, the worker only installs
+    await worker.install();
+    await worker.activate();
+    expect(worker.cachedPaths()).toEqual(['/', '/favicon.ico', '/index.html', ...ASSETS].sort());
+    expect(worker.fetched).toContain('/asset-manifest.json');
+
+    worker.setOnline(false);
+    for (const page of ['/journal', '/add-memory']) {
+      const html = await (await worker.request(page, { mode: 'navigate' }))!.text();
+      expect(html, page).toBe(INDEX_HTML);
+
+      const referenced = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+      expect(referenced).toHaveLength(2);
+      for (const asset of referenced) {
+        const response = await worker.request(asset);
+        expect(response?.ok, asset).toBe(true);
+        expect(await response!.text()).toBe(`/* ${asset} */`);
+      }
+    }
+  });
+
+  test('service-worker-002: Without an asset manifest (dev server) the shell is still installed', async () => {
+    const files: Record<string, string> = deployedFiles();
+    delete files['/asset-manifest.json'];
+    const worker = startWorker(files);
+
+    await worker.install();
+    expect(worker.cachedPaths()).toEqual(['/', '/favicon.ico', '/index.html']);
+
+    // Assets are then cached on their way through
+    expect((await worker.request(ASSETS[0]))?.ok).toBe(true);
+    worker.setOnline(false);
+    expect(await (await worker.request(ASSETS[0]))!.text()).toBe(`/* ${ASSETS[0]} */`);
+  });
+
+  test('service-worker-003: Online pages refresh the cached shell; other origins and writes are left alone', async () => {
+    const worker = startWorker(deployedFiles());
+    await worker.install();
+
+    const redeployed = INDEX_HTML.replace('index-CEZiheXn', 'index-NEWHASH1');
+    worker.deploy('/index.html', redeployed);
+    worker.deploy('/journal', redeployed);
+    expect(await (await worker.request('/journal', { mode: 'navigate' }))!.text()).toBe(redeployed);
+
+    // The refreshed copy is written after the response is handed over
+    await new Promise(resolve => setTimeout(resolve, 0));
+    worker.setOnline(false);
+    expect(await (await worker.request('/add-memory', { mode: 'navigate' }))!.text()).toBe(redeployed);
+
+    expect(await worker.request('https://project.supabase.co/rest/v1/memories')).toBeUndefined();
+    expect(await worker.request('/assets/upload', { method: 'POST' })).toBeUndefined();
+    expect(await worker.request('/robots.txt')).toBeUndefined();
+  });
+});
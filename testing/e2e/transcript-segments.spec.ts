@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import {
+  alignSegmentsToWords,
+  buildTranscriptSegments,
+  findWordInSegment,
+  getRecordingSegments,
+  parseTranscriptText,
+} from '../../src/lib/transcriptSegments';
+import type { TranscriptWord } from '../../src/types/speech';
+
+/**
+ * E2E Tests: Transcript Segments
+ *
+ * Turns what recorders know about a conversation into timed speaker segments:
+ * - transcript-segments-001: Utterance spans are estimated from speaking rate and end where the next begins
+ * - transcript-segments-002: Overlapping and early entries keep segment starts in order and inside the recording
+ * - transcript-segments-003: Legacy "[12s] USER:" transcripts are parsed into segments
+ * - transcript-segments-004: Word timings pin segment starts when the first word is nearby
+ *
+ * Prerequisites:
+ * - None; no browser, dev server or speech provider is used
+ */
+
+const word = (text: string, start: number): TranscriptWord => ({ word: text, start, end: start + 0.4 });
+
+test.describe('Transcript Segments', () => {
+  test('transcript-segments-001: Utterance spans are estimated from speaking rate and end where the next begins', async () => {
+    const segments = buildTranscriptSegments([
+      // Solin's reply arrived before the user's text did, but was heard after it
+      { at: 6, audioAt: 6.5, speaker: 'ai', text: 'That sounds like a wonderful summer at the lake.' },
+      { at: 5, speaker: 'user', text: 'We swam every single morning', confidence: 0.93 },
+      { at: 7, speaker: 'user', text: '   ' },
+    ]);
+
+    expect(segments).toEqual([
+      // Five words at 2.5 words a second, finished when the text arrived
+      { speaker: 'user', start: 3, end: 5, text: 'We swam every single morning', confidence: 0.93 },
+      // Nine words, starting when the audio was heard
+      { speaker: 'ai', start: 6.5, end: 10.1, text: 'That sounds like a wonderful summer at the lake.' },
+    ]);
+
+    const trimmed = buildTranscriptSegments([
+      { at: 5, speaker: 'user', text: 'We swam every single morning' },
+      { at: 5.5, speaker: 'ai', text: 'Lovely, tell me more about it' },
+    ], 7);
+    // The user's span is cut where Solin starts, Solin's at the end of the recording
+    expect(trimmed.map(({ start, end }) => [start, end])).toEqual([[3, 5], [5.5, 7]]);
+  });
+
+  test('transcript-segments-002: Overlapping and early entries keep segment starts in order and inside the recording', async () => {
+    const segments = buildTranscriptSegments([
+      { at: 1, speaker: 'ai', text: 'Hello' },
+      // Ten words that arrived two seconds in: they would have started before the recording
+      { at: 2, speaker: 'user', text: 'Hi Solin I want to tell you about my grandmother' },
+    ]);
+
+    expect(segments.map(({ speaker, start, end }) => ({ speaker, start, end }))).toEqual([
+      { speaker: 'ai', start: 1, end: 2 },
+      { speaker: 'user', start: 1, end: 2 },
+    ]);
+    for (const segment of segments) {
+      expect(segment.start).toBeGreaterThanOrEqual(0);
+      expect(segment.end).toBeGreaterThanOrEqual(segment.start);
+    }
+
+    expect(buildTranscriptSegments([])).toEqual([]);
+  });
+
+  test('transcript-segments-003: Legacy "[12s] USER:" transcripts are parsed into segments', async () => {
+    expect(parseTranscriptText('[0s] AI: Hello there\n[4s] USER: I grew up in Leeds (93%)\n\n[9s] AI: Tell me more')).toEqual([
+      { speaker: 'ai', start: 0, end: 4, text: 'Hello there' },
+      { speaker: 'user', start: 4, end: 9, text: 'I grew up in Leeds', confidence: 0.93 },
+      { speaker: 'ai', start: 9, end: 9, text: 'Tell me more' },
+    ]);
+    expect(parseTranscriptText('notes without timings')).toEqual([
+      { speaker: 'user', start: 0, end: 0, text: 'notes without timings' },
+    ]);
+    expect(parseTranscriptText('')).toEqual([]);
+
+    // Stored segments win over the legacy text
+    const stored = [{ speaker: 'user' as const, start: 1, end: 2, text: 'Stored' }];
+    expect(getRecordingSegments({ transcript_segments: stored, transcript_text: '[0s] AI: Old' })).toEqual(stored);
+    expect(getRecordingSegments({ transcript_segments: [], transcript_text: '[0s] AI: Old' })).toEqual([
+      { speaker: 'ai', start: 0, end: 0, text: 'Old' },
+    ]);
+  });
+
+  test('transcript-segments-004: Word timings pin segment starts when the first word is nearby', async () => {
+    const words = [word('My', 2.2), word('first', 2.6), word('car', 3), word("That's", 7.1), word('lovely', 7.5), word('my', 30)];
+    const aligned = alignSegmentsToWords([
+      { speaker: 'user', start: 3, end: 5, text: 'My first car' },
+      { speaker: 'ai', start: 6.5, end: 10, text: "That's lovely." },
+      // The next "my" is 10 seconds away: too far to be this segment's
+      { speaker: 'user', start: 20, end: 22, text: 'My sister drove it' },
+    ], words);
+
+    expect(aligned.map(({ start, end }) => [start, end])).toEqual([[2.2, 5], [7.1, 10], [20, 22]]);
+    expect(getRecordingSegments({
+      transcript_segments: [{ speaker: 'user', start: 3, end: 5, text: 'My first car' }],
+      transcript_words: words,
+    })[0].start).toBe(2.2);
+
+    const segment = { speaker: 'ai' as const, start: 6.5, end: 10, text: "That's lovely." };
+    expect(findWordInSegment(words, segment, ['LOVELY!'])).toEqual(word('lovely', 7.5));
+    expect(findWordInSegment(words, segment, ['car'])).toEqual(word('car', 3));
+    expect(findWordInSegment(words, segment, ['sister'])).toBeUndefined();
+    expect(findWordInSegment(null, segment, ['lovely'])).toBeUndefined();
+  });
+});
@@ -1,8 +1,24 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Lists the built assets, so the service worker (public/sw.js) can cache them
+// on install: the first visit's bundle loads before the worker controls the page
+const assetManifest = (): Plugin => ({
+  name: "asset-manifest",
+  apply: "build",
+  enforce: "post",
+  generateBundle(_options, bundle) {
+    const assets = Object.keys(bundle).filter(fileName => fileName.startsWith("assets/"));
+    this.emitFile({
+      type: "asset",
+      fileName: "asset-manifest.json",
+      source: JSON.stringify(assets.map(fileName => `/${fileName}`)),
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   define: {
@@ -33,6 +49,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    assetManifest(),
   ].filter(Boolean),
   resolve: {
     alias: {